@@ -9,7 +9,9 @@ import { DigitaliseringsstrategiDemo } from './demo/DigitaliseringsstrategiDemo'
 import { AdminApp } from './components/admin/AdminApp';
 import { useMonitoringDashboard } from './utils/monitoring-dashboard';
 import { useAuth } from './contexts/AuthContext';
+import { useTranslation } from './hooks/useTranslation';
 import { GameProtectedRoute } from './components/auth/ProtectedRoute';
+import { Can } from './components/auth/Can';
 
 function App() {
   const [gameStarted, setGameStarted] = useState(false);
@@ -20,6 +22,7 @@ function App() {
   
   // Authentication state
   const { user, isAuthenticated, logout } = useAuth();
+  const { t } = useTranslation();
   
   // Technical information modal
   const { isOpen: isTechModalOpen, onOpen: onTechModalOpen, onClose: onTechModalClose } = useDisclosure();
@@ -77,7 +80,7 @@ function App() {
             <HStack justify="space-between" align="center">
               <VStack align="start" spacing={1}>
                 <Text fontSize="sm" fontWeight="bold">
-                  Välkommen, {user.displayName}
+                  {t('app.welcome', { name: user.displayName })}
                 </Text>
                 <HStack spacing={2}>
                   <Badge colorScheme="blue" size="sm">
@@ -89,7 +92,7 @@ function App() {
                 </HStack>
               </VStack>
               <Button size="sm" variant="outline" onClick={logout}>
-                Logga ut
+                {t('app.logout')}
               </Button>
             </HStack>
           </Box>
@@ -113,11 +116,11 @@ function App() {
             w="100%"
           >
             <Heading size="md" color="green.700" mb={2}>
-              Spel Avslutat! 🎉
+              {t('app.gameFinished')}
             </Heading>
-            <Text><strong>Poäng:</strong> {gameResults.score}/{gameResults.totalScore}</Text>
-            <Text><strong>Tid:</strong> {Math.round(gameResults.timeSpent / 1000)} sekunder</Text>
-            <Text><strong>Scener:</strong> {gameResults.scenesCompleted.length}</Text>
+            <Text><strong>{t('app.scoreLabel')}</strong> {gameResults.score}/{gameResults.totalScore}</Text>
+            <Text><strong>{t('app.timeLabel')}</strong> {t('app.seconds', { seconds: Math.round(gameResults.timeSpent / 1000) })}</Text>
+            <Text><strong>{t('app.scenesLabel')}</strong> {gameResults.scenesCompleted.length}</Text>
           </Box>
         )}
 
@@ -129,7 +132,7 @@ function App() {
             w="100%"
             maxW="300px"
           >
-            Starta Demo Spel
+            {t('app.startDemo')}
           </Button>
           
           <Button 
@@ -153,16 +156,18 @@ function App() {
             Visa Component Showcase
           </Button>
           
-          <Button 
-            onClick={() => setShowAdminPortal(true)}
-            variant="outline"
-            colorScheme="purple"
-            size="lg"
-            w="100%"
-            maxW="300px"
-          >
-            Enterprise Admin Portal
-          </Button>
+          <Can permission="municipality.admin">
+            <Button 
+              onClick={() => setShowAdminPortal(true)}
+              variant="outline"
+              colorScheme="purple"
+              size="lg"
+              w="100%"
+              maxW="300px"
+            >
+              Enterprise Admin Portal
+            </Button>
+          </Can>
           
           <Text fontSize="sm" color="gray.600" textAlign="center">
             Malmö Stad GDPR Training - 7 minuter
@@ -0,0 +1,179 @@
+/**
+ * Certificate Verification API
+ * Issues certificates to signed-in learners for their passed game sessions, lets HR and third parties confirm a certificate by the
+ * code printed on it, checks that a presented PDF is the file that was signed when it was issued, and
+ * lets municipal administrators revoke certificates
+ */
+
+import type { Request, Response } from 'express';
+import {
+  certificateService,
+  CertificateError,
+  type CertificateVerification
+} from '../services/certificate-service';
+import { verifiableCredentialsService } from '../services/verifiable-credentials';
+import { base64UrlDecode, base64UrlEncode } from '../utils/jws';
+
+export interface IssueCertificateRequest {
+  gameSessionId: string; // The recorded game session the certificate is for
+  locale?: string;
+}
+
+export interface IssueCertificateResponse {
+  success: true;
+  verificationCode: string;
+  fileName: string;
+  pdf: string; // Base64url of the PDF file
+  signature: string;
+}
+
+type IssueResponse = IssueCertificateResponse | { success: false; error: string };
+
+interface VerifyCertificateRequest {
+  code?: string;
+  pdf?: string; // Base64 of the PDF file
+  signature?: string; // Detached JWS delivered with the file; the issued one is used when omitted
+}
+
+type VerificationResponse = CertificateVerification | { valid: false; error: string };
+
+interface RevokeCertificateRequest {
+  reason?: string;
+}
+
+const decodeBase64 = (value: string): Uint8Array =>
+  base64UrlDecode(value.replace(/\s/g, '').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, ''));
+
+const statusCode = (verification: CertificateVerification): number =>
+  verification.status === 'not_found' ? 404 : 200;
+
+// SAML, OIDC and password logins all store a profile with these names
+type LearnerProfile = { displayName?: string; firstName?: string; lastName?: string };
+
+const learnerName = (profile: LearnerProfile): string =>
+  profile.displayName?.trim() || [profile.firstName, profile.lastName].filter(Boolean).join(' ');
+
+/**
+ * Issue a certificate to the signed-in learner; the name and user come from the auth session, and the
+ * game, score and pass from the learner's recorded game session, never from the request
+ */
+export async function issueLearnerCertificate(
+  req: Request<Record<string, string>, unknown, Partial<IssueCertificateRequest>>,
+  res: Response<IssueResponse>
+): Promise<void> {
+  const session = req.authSession!;
+  const { gameSessionId, locale } = req.body ?? {};
+  if (typeof gameSessionId !== 'string' || !gameSessionId) {
+    res.status(400).json({ success: false, error: 'Certificate needs the game session' });
+    return;
+  }
+
+  try {
+    const certificate = await certificateService.issueForGameSession({
+      gameSessionId,
+      learnerName: learnerName(session.profile as LearnerProfile),
+      userId: session.userId,
+      tenantId: session.tenantId,
+      locale: typeof locale === 'string' ? locale : undefined
+    });
+    res.status(201).json({
+      success: true,
+      verificationCode: certificate.verificationCode,
+      fileName: certificate.fileName,
+      pdf: base64UrlEncode(certificate.pdf),
+      signature: certificate.signature
+    });
+  } catch (error) {
+    if (error instanceof CertificateError) {
+      res.status(error.status).json({ success: false, error: error.message });
+      return;
+    }
+    console.error('Certificate issuance failed:', error);
+    res.status(500).json({ success: false, error: 'Certificate issuance is unavailable' });
+  }
+}
+
+/**
+ * Revoke a certificate; the verifiable credentials issued for it are revoked with it
+ */
+export async function revokeLearnerCertificate(
+  req: Request<{ code: string }, unknown, RevokeCertificateRequest>,
+  res: Response<{ success: boolean; error?: string }>
+): Promise<void> {
+  const reason = req.body?.reason;
+  if (typeof reason !== 'string' || !reason.trim()) {
+    res.status(400).json({ success: false, error: 'Revocation needs a reason' });
+    return;
+  }
+
+  try {
+    const certificate = await certificateService.getCertificate(req.params.code);
+    if (!certificate || !await certificateService.revokeCertificate(certificate.verificationCode, reason.trim())) {
+      res.status(404).json({ success: false, error: 'Certificate not found' });
+      return;
+    }
+    await verifiableCredentialsService.revokeForCertificate(certificate.verificationCode, reason.trim());
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Certificate revocation failed:', error);
+    res.status(500).json({ success: false, error: 'Certificate revocation is unavailable' });
+  }
+}
+
+/**
+ * Look a certificate up by its verification code
+ */
+export async function lookupCertificate(
+  req: Request<{ code: string }>,
+  res: Response<VerificationResponse>
+): Promise<void> {
+  try {
+    const verification = await certificateService.verifyCertificate(req.params.code);
+    res.status(statusCode(verification)).json(verification);
+  } catch (error) {
+    console.error('Certificate lookup failed:', error);
+    res.status(500).json({ valid: false, error: 'Certificate verification is unavailable' });
+  }
+}
+
+/**
+ * Verify a presented certificate file against its code and signature
+ */
+export async function verifyCertificateFile(
+  req: Request<Record<string, string>, unknown, VerifyCertificateRequest>,
+  res: Response<VerificationResponse>
+): Promise<void> {
+  const { code, pdf, signature } = req.body ?? {};
+  if (!code || !pdf) {
+    res.status(400).json({ valid: false, error: 'Verification needs the certificate code and the PDF file' });
+    return;
+  }
+
+  let file: Uint8Array;
+  try {
+    file = decodeBase64(pdf);
+  } catch {
+    res.status(400).json({ valid: false, error: 'PDF file must be base64 encoded' });
+    return;
+  }
+
+  try {
+    const verification = await certificateService.verifyCertificate(code, file, signature);
+    res.status(statusCode(verification)).json(verification);
+  } catch (error) {
+    console.error('Certificate verification failed:', error);
+    res.status(500).json({ valid: false, error: 'Certificate verification is unavailable' });
+  }
+}
+
+/**
+ * Public signing keys for offline verification of the detached signatures
+ */
+export async function certificateJwks(_req: Request, res: Response): Promise<void> {
+  try {
+    res.json(await certificateService.getJwks());
+  } catch (error) {
+    console.error('Failed to load certificate keys:', error);
+    res.status(500).json({ error: 'Certificate keys are unavailable' });
+  }
+}
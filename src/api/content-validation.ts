@@ -10,6 +10,7 @@ import { Request, Response, NextFunction } from 'express';
 import { DevTeamContentValidator } from '../validation/devteam-content-validator';
 import { InfrastructureMonitoring } from '../services/infrastructure-monitoring';
 import type { ValidationResult, ValidationError, ValidationWarning } from '../validation/devteam-content-validator';
+import type { ManifestPathStats } from '../utils/manifestGraph';
 
 // Cache for validated content schemas
 const validationCache = new Map<string, CachedValidation>();
@@ -36,6 +37,8 @@ interface ValidationResponse {
   validationId: string;
   suggestions?: string[];
   cached?: boolean;
+  // Playthrough length of game manifests, null when no path finishes
+  pathStats?: ManifestPathStats | null;
 }
 
 /**
@@ -79,6 +82,13 @@ function generateSuggestions(errors: ValidationError[]): string[] {
           suggestions.push('Ensure all text fields have content');
         }
         break;
+      case 'structure':
+        if (error.message.includes('does not exist')) {
+          suggestions.push('Point navigation.next and choice nextScene at an existing scene id or "end"');
+        } else if (error.message.includes('loop forever')) {
+          suggestions.push('Give every navigation loop a choice or branch that leads out of it');
+        }
+        break;
     }
   });
   
@@ -140,7 +150,8 @@ export async function validateContent(
         processingTime,
         validationId: `val_${Date.now()}`,
         cached: true,
-        suggestions: generateSuggestions(cached.result.errors)
+        suggestions: generateSuggestions(cached.result.errors),
+        pathStats: cached.result.pathStats
       });
       return;
     }
@@ -211,7 +222,8 @@ export async function validateContent(
       processingTime,
       validationId: `val_${Date.now()}`,
       suggestions: generateSuggestions(result.errors),
-      cached: false
+      cached: false,
+      pathStats: result.pathStats
     };
     
     // Log validation for audit trail
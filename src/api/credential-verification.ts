@@ -0,0 +1,199 @@
+/**
+ * Credential Verification API
+ * Publishes each tenant's DID document and revocation status list, verifies VC-JWTs presented by
+ * learners, wallets or the QR verification page, and issues and revokes the tenant's credentials
+ */
+
+import type { Request, Response } from 'express';
+import {
+  verifiableCredentialsService,
+  CredentialError,
+  type CredentialAchievement,
+  type CredentialVerificationResult,
+  type IssuedCredential
+} from '../services/verifiable-credentials';
+import { certificateService } from '../services/certificate-service';
+
+interface VerifyCredentialRequest {
+  credential?: string; // VC-JWT
+}
+
+type VerificationResponse = CredentialVerificationResult | { valid: false; error: string };
+
+export interface IssueAchievementCredentialRequest {
+  tenantId?: string; // Defaults to the administrator's municipality
+  subject: { id: string; name: string };
+  achievement: CredentialAchievement;
+  validUntil?: string; // ISO timestamp
+}
+
+interface RevokeCredentialRequest {
+  reason?: string;
+}
+
+type IssueResponse = { success: true; credential: IssuedCredential } | { success: false; error: string };
+
+// SAML, OIDC and password logins all store the learner's email in the profile
+const learnerSubjectId = (profile: { email?: unknown }, userId: string): string =>
+  typeof profile.email === 'string' && profile.email ? `mailto:${profile.email}` : `urn:diginativa:user:${encodeURIComponent(userId)}`;
+
+const sendIssueError = (res: Response<IssueResponse>, error: unknown) => {
+  if (error instanceof CredentialError) {
+    res.status(error.status).json({ success: false, error: error.message });
+    return;
+  }
+  console.error('Credential issuance failed:', error);
+  res.status(500).json({ success: false, error: 'Credential issuance is unavailable' });
+};
+
+/**
+ * Verify a presented VC-JWT
+ */
+export async function verifyPresentedCredential(
+  req: Request<Record<string, string>, unknown, VerifyCredentialRequest>,
+  res: Response<VerificationResponse>
+): Promise<void> {
+  const credential = req.body?.credential;
+  if (typeof credential !== 'string' || !credential.trim()) {
+    res.status(400).json({ valid: false, error: 'Verification needs the credential as a VC-JWT' });
+    return;
+  }
+
+  try {
+    res.json(await verifiableCredentialsService.verifyCredential(credential));
+  } catch (error) {
+    console.error('Credential verification failed:', error);
+    res.status(500).json({ valid: false, error: 'Credential verification is unavailable' });
+  }
+}
+
+/**
+ * Verify an issued credential by its id, as linked from its QR code
+ */
+export async function lookupCredential(
+  req: Request<{ id: string }>,
+  res: Response<(CredentialVerificationResult & { jwt: string }) | { valid: false; error: string }>
+): Promise<void> {
+  try {
+    const stored = await verifiableCredentialsService.getCredential(req.params.id);
+    if (!stored) {
+      res.status(404).json({ valid: false, error: 'Credential not found' });
+      return;
+    }
+    const verification = await verifiableCredentialsService.verifyCredential(stored.jwt);
+    res.json({ ...verification, jwt: stored.jwt });
+  } catch (error) {
+    console.error('Credential lookup failed:', error);
+    res.status(500).json({ valid: false, error: 'Credential verification is unavailable' });
+  }
+}
+
+/**
+ * The tenant's StatusList2021Credential, served as a VC-JWT
+ */
+export async function credentialStatusList(req: Request<{ tenantId: string }>, res: Response): Promise<void> {
+  try {
+    const jwt = await verifiableCredentialsService.getStatusListCredential(req.params.tenantId);
+    res.status(200).type('application/vc+jwt').set('Cache-Control', 'public, max-age=300').send(jwt);
+  } catch (error) {
+    if (error instanceof CredentialError) {
+      res.status(error.status).json({ error: 'Unknown credential issuer' });
+      return;
+    }
+    console.error('Failed to load credential status list:', error);
+    res.status(500).json({ error: 'Credential status list is unavailable' });
+  }
+}
+
+/**
+ * The tenant issuer's did:web document
+ */
+export async function issuerDidDocument(req: Request<{ tenantId: string }>, res: Response): Promise<void> {
+  try {
+    res.type('application/did+json').json(await verifiableCredentialsService.getDidDocument(req.params.tenantId));
+  } catch (error) {
+    if (error instanceof CredentialError) {
+      res.status(error.status).json({ error: 'Unknown credential issuer' });
+      return;
+    }
+    console.error('Failed to load issuer DID document:', error);
+    res.status(500).json({ error: 'Issuer keys are unavailable' });
+  }
+}
+
+/**
+ * Issue the signed-in learner's certificate as an Open Badges credential for their wallet
+ */
+export async function issueCertificateCredential(req: Request<{ code: string }>, res: Response<IssueResponse>): Promise<void> {
+  const session = req.authSession!;
+  try {
+    const certificate = await certificateService.getCertificate(req.params.code);
+    // Someone else's certificate is reported as missing so codes can't be probed
+    if (!certificate || certificate.userId !== session.userId) {
+      res.status(404).json({ success: false, error: 'Certificate not found' });
+      return;
+    }
+    const credential = await verifiableCredentialsService.issueForCertificate(
+      certificate,
+      learnerSubjectId(session.profile as { email?: unknown }, session.userId)
+    );
+    res.status(201).json({ success: true, credential });
+  } catch (error) {
+    sendIssueError(res, error);
+  }
+}
+
+/**
+ * Award an achievement credential to a learner on behalf of the municipality
+ */
+export async function issueAchievementCredential(
+  req: Request<Record<string, string>, unknown, Partial<IssueAchievementCredentialRequest>>,
+  res: Response<IssueResponse>
+): Promise<void> {
+  const { tenantId, subject, achievement, validUntil } = req.body ?? {};
+  if (!subject || !achievement) {
+    res.status(400).json({ success: false, error: 'Issuance needs a subject and an achievement' });
+    return;
+  }
+  if (validUntil !== undefined && Number.isNaN(Date.parse(validUntil))) {
+    res.status(400).json({ success: false, error: `Invalid validUntil: ${validUntil}` });
+    return;
+  }
+
+  try {
+    const credential = await verifiableCredentialsService.issueCredential({
+      tenantId: tenantId ?? req.authSession!.tenantId,
+      subject,
+      achievement,
+      ...(validUntil ? { validUntil: new Date(validUntil) } : {})
+    });
+    res.status(201).json({ success: true, credential });
+  } catch (error) {
+    sendIssueError(res, error);
+  }
+}
+
+/**
+ * Revoke an issued credential by setting its bit in the tenant's status list
+ */
+export async function revokeIssuedCredential(
+  req: Request<{ id: string }, unknown, RevokeCredentialRequest>,
+  res: Response<{ success: boolean; error?: string }>
+): Promise<void> {
+  const reason = req.body?.reason;
+  if (typeof reason !== 'string' || !reason.trim()) {
+    res.status(400).json({ success: false, error: 'Revocation needs a reason' });
+    return;
+  }
+
+  try {
+    if (!await verifiableCredentialsService.revokeCredential(req.params.id, reason.trim())) {
+      res.status(404).json({ success: false, error: 'Credential not found' });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Credential revocation failed:', error);
+    res.status(500).json({ success: false, error: 'Credential revocation is unavailable' });
+  }
+}
@@ -9,6 +9,7 @@ import { z } from 'zod';
 import { validateGameManifest } from '../utils/contentValidation';
 import { applyMunicipalBrandingToManifest, validateMunicipalBranding, getMunicipalContext } from '../utils/municipalBranding';
 import { processGameManifestWithPlayerName } from '../utils/playerNameReplacement';
+import { buildSCORMPackage, RUNTIME_ENTRY, type SCORMPackage } from './scorm-package-builder';
 
 // Processing status tracking
 export enum ProcessingStatus {
@@ -90,6 +91,21 @@ export type ContentSubmissionRequest = z.infer<typeof ContentSubmissionSchema>;
 // Processing job tracking
 const processingJobs = new Map<string, ProcessingResult>();
 
+// Built SCORM archives served by GET /api/v1/game-delivery/:jobId/scorm-package.zip
+const scormArchives = new Map<string, SCORMPackage>();
+
+// Runtime bundle files packaged into offline formats (SCORM)
+export type RuntimeBundleProvider = () => Promise<Record<string, string | Uint8Array>>;
+
+let runtimeBundleProvider: RuntimeBundleProvider = loadRuntimeBundleFromDisk;
+
+/**
+ * Override where the runtime bundle is read from (CDN mirror, tests)
+ */
+export function setRuntimeBundleProvider(provider: RuntimeBundleProvider): void {
+  runtimeBundleProvider = provider;
+}
+
 /**
  * Submit content for processing
  * POST /api/v1/process-content
@@ -133,6 +149,14 @@ export async function getAllJobs(): Promise<ProcessingResult[]> {
   return Array.from(processingJobs.values());
 }
 
+/**
+ * Get the built SCORM package for a completed job
+ * GET /api/v1/game-delivery/:jobId/scorm-package.zip
+ */
+export async function getSCORMPackage(jobId: string): Promise<SCORMPackage | null> {
+  return scormArchives.get(jobId) || null;
+}
+
 /**
  * Async content processing pipeline
  */
@@ -161,6 +185,7 @@ async function processContentAsync(jobId: string, request: ContentSubmissionRequ
     // Step 4: Multi-format packaging
     updateJobStatus(jobId, ProcessingStatus.PACKAGING, 70, 'Creating deployment packages');
     const packages = await createDeploymentPackages(
+      jobId,
       brandedManifest,
       request.deploymentOptions.formats
     );
@@ -168,6 +193,7 @@ async function processContentAsync(jobId: string, request: ContentSubmissionRequ
     // Step 5: Deployment
     updateJobStatus(jobId, ProcessingStatus.DEPLOYING, 90, 'Deploying to municipal infrastructure');
     const deploymentUrls = await deployPackages(
+      jobId,
       packages,
       request.deploymentOptions
     );
@@ -267,6 +293,7 @@ async function applyMunicipalBranding(
  * Create deployment packages for different formats
  */
 async function createDeploymentPackages(
+  jobId: string,
   gameManifest: any,
   formats: DeploymentFormat[]
 ): Promise<Map<DeploymentFormat, any>> {
@@ -278,7 +305,7 @@ async function createDeploymentPackages(
         packages.set(format, await createWebPackage(gameManifest));
         break;
       case DeploymentFormat.SCORM:
-        packages.set(format, await createSCORMPackage(gameManifest));
+        packages.set(format, await createSCORMPackage(jobId, gameManifest));
         break;
       case DeploymentFormat.PWA:
         packages.set(format, await createPWAPackage(gameManifest));
@@ -293,13 +320,14 @@ async function createDeploymentPackages(
  * Deploy packages to infrastructure
  */
 async function deployPackages(
+  jobId: string,
   packages: Map<DeploymentFormat, any>,
   options: ContentSubmissionRequest['deploymentOptions']
 ): Promise<ProcessingResult['deploymentUrls']> {
   const deploymentUrls: ProcessingResult['deploymentUrls'] = {};
   
   for (const [format, packageData] of packages) {
-    const url = await deployToInfrastructure(format, packageData, options);
+    const url = await deployToInfrastructure(jobId, format, packageData, options);
     deploymentUrls[format] = url;
   }
   
@@ -487,23 +515,32 @@ async function createWebPackage(gameManifest: any): Promise<any> {
   return webPackage;
 }
 
-async function createSCORMPackage(gameManifest: any): Promise<any> {
+async function createSCORMPackage(jobId: string, gameManifest: any): Promise<any> {
   // SCORM 2004 package for LMS integration
-  const scormPackage = {
+  const runtimeBundle = await runtimeBundleProvider();
+  const scormPackage = buildSCORMPackage(gameManifest, {
+    runtimeBundle,
+    organization: gameManifest.theme?.brand?.name
+  });
+  
+  scormArchives.set(jobId, scormPackage);
+  
+  return {
     type: 'scorm',
     manifest: gameManifest,
-    scormVersion: '2004 4th Edition',
+    scormVersion: scormPackage.scormVersion,
     deployment: {
       format: 'scorm-package',
       entry: 'index.html',
       manifestFile: 'imsmanifest.xml',
+      files: scormPackage.files,
+      archiveSize: scormPackage.archive.length,
       metadata: {
-        identifier: `com.diginativa.${gameManifest.gameId}`,
-        title: gameManifest.metadata.title,
-        description: gameManifest.metadata.description,
-        masteryScore: 80,
-        maxTimeAllowed: 'PT0H30M0S', // 30 minutes
-        completionThreshold: 0.8
+        identifier: scormPackage.identifier,
+        title: scormPackage.metadata.title,
+        description: scormPackage.metadata.description,
+        masteryScore: scormPackage.metadata.masteryScore,
+        scaledPassingScore: scormPackage.metadata.scaledPassingScore
       },
       tracking: {
         scoreTracking: true,
@@ -519,8 +556,22 @@ async function createSCORMPackage(gameManifest: any): Promise<any> {
       workday: true
     }
   };
+}
+
+/**
+ * Read the built runtime bundle (`npm run build:runtime`) for packaging
+ * RUNTIME_BUNDLE_DIR points at the directory holding runtime-engine.js
+ */
+async function loadRuntimeBundleFromDisk(): Promise<Record<string, string | Uint8Array>> {
+  const { readFile } = await import('node:fs/promises');
+  const { join } = await import('node:path');
+  const bundleDir = process.env.RUNTIME_BUNDLE_DIR || 'dist/runtime';
   
-  return scormPackage;
+  try {
+    return { [RUNTIME_ENTRY]: new Uint8Array(await readFile(join(bundleDir, RUNTIME_ENTRY))) };
+  } catch (error: any) {
+    throw new Error(`Runtime bundle not found in ${bundleDir}: ${error.message}`);
+  }
 }
 
 async function createPWAPackage(gameManifest: any): Promise<any> {
@@ -577,6 +628,7 @@ async function createPWAPackage(gameManifest: any): Promise<any> {
 }
 
 async function deployToInfrastructure(
+  jobId: string,
   format: DeploymentFormat,
   packageData: any,
   options: any
@@ -606,7 +658,8 @@ async function deployToInfrastructure(
       break;
       
     case DeploymentFormat.SCORM:
-      deploymentUrl = `${baseUrl}/scorm/${municipalityPath}/${gamePath}/scorm-package.zip`;
+      // Served from the in-process archive store until CDN upload is wired up
+      deploymentUrl = `${baseUrl}/api/v1/game-delivery/${jobId}/scorm-package.zip`;
       break;
       
     case DeploymentFormat.PWA:
@@ -10,102 +10,21 @@ import { Router, type Request, type Response } from 'express';
 import { getSAMLProductionManager, type TenantRegistrationRequest, type ProductionSAMLConfig } from '../../services/saml-production-manager';
 import { InfrastructureMonitoring } from '../../services/infrastructure-monitoring';
 import { requireSAMLAuth } from '../auth/saml';
-
-interface AuditLogEntry {
-  logId: string;
-  tenantId?: string;
-  userId?: string;
-  action: 'admin_login' | 'tenant_registration' | 'tenant_activation' | 'config_change' | 'audit_access' | 'security_scan' | 'emergency_action';
-  timestamp: Date;
-  ipAddress: string;
-  userAgent: string;
-  success: boolean;
-  details: Record<string, any>;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-}
+import { requirePermission, type RequirePermissionOptions } from '../../../services/policy-engine';
 
 const router = Router();
 const monitoring = InfrastructureMonitoring.getInstance();
 const samlManager = getSAMLProductionManager();
 
-// Security audit logging
-const logAuditEvent = async (entry: AuditLogEntry): Promise<void> => {
-  try {
-    await monitoring.recordMetric({
-      name: 'saml_audit_event',
-      value: 1,
-      unit: 'count',
-      timestamp: entry.timestamp.getTime(),
-      tags: {
-        action: entry.action,
-        tenantId: entry.tenantId || 'system',
-        userId: entry.userId || 'unknown',
-        success: entry.success.toString(),
-        severity: entry.severity,
-        ipAddress: entry.ipAddress
-      }
-    });
-    
-    // In production, also store in dedicated audit log storage
-    console.log(`[AUDIT] ${entry.action} by ${entry.userId} - ${entry.success ? 'SUCCESS' : 'FAILURE'}`);
-  } catch (error) {
-    console.error('Failed to log audit event:', error);
-  }
-};
-
-// Admin authentication middleware
-const requireAdmin = async (req: Request, res: Response, next: Function) => {
-  try {
-    // In production, implement proper admin role checking
-    const userRoles = req.samlUser?.roles || [];
-    const isAdmin = userRoles.includes('admin') || userRoles.includes('saml_admin') || userRoles.includes('municipal_admin');
-    
-    if (!isAdmin) {
-      await logAuditEvent({
-        logId: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        userId: req.samlUser?.email || 'anonymous',
-        action: 'admin_login',
-        timestamp: new Date(),
-        ipAddress: req.ip || 'unknown',
-        userAgent: req.get('User-Agent') || 'unknown',
-        success: false,
-        details: { reason: 'insufficient_privileges', roles: userRoles },
-        severity: 'medium'
-      });
-      
-      return res.status(403).json({
-        success: false,
-        error: 'Admin privileges required'
-      });
-    }
-    
-    // Log successful admin access
-    await logAuditEvent({
-      logId: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      userId: req.samlUser?.email || 'unknown',
-      action: 'admin_login',
-      timestamp: new Date(),
-      ipAddress: req.ip || 'unknown',
-      userAgent: req.get('User-Agent') || 'unknown',
-      success: true,
-      details: { endpoint: req.path, roles: userRoles },
-      severity: 'low'
-    });
-    
-    next();
-  } catch (error) {
-    console.error('Admin auth check failed:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Authentication check failed'
-    });
-  }
-};
+// Onboarding and platform-wide operations are for DigiNativa staff; a municipality's admins may
+// audit and emergency-disable their own SSO. Decisions are recorded in the policy audit log.
+const requireSystemAdmin = requirePermission('system.admin');
+const forTenant: RequirePermissionOptions = { tenantId: req => req.params.tenantId };
 
 /**
  * POST /api/admin/saml/register - Register new municipal tenant
  */
-router.post('/register', requireSAMLAuth, requireAdmin, async (req: Request, res: Response) => {
+router.post('/register', requireSAMLAuth, requireSystemAdmin, async (req: Request, res: Response) => {
   try {
     const registrationRequest: TenantRegistrationRequest = req.body;
     
@@ -185,7 +104,7 @@ router.post('/register', requireSAMLAuth, requireAdmin, async (req: Request, res
 /**
  * POST /api/admin/saml/activate/:tenantId - Activate tenant with SAML config
  */
-router.post('/activate/:tenantId', requireSAMLAuth, requireAdmin, async (req: Request, res: Response) => {
+router.post('/activate/:tenantId', requireSAMLAuth, requireSystemAdmin, async (req: Request, res: Response) => {
   try {
     const { tenantId } = req.params;
     const { activationCode, samlConfig } = req.body;
@@ -253,7 +172,7 @@ router.post('/activate/:tenantId', requireSAMLAuth, requireAdmin, async (req: Re
 /**
  * GET /api/admin/saml/tenants - List all registered tenants
  */
-router.get('/tenants', requireSAMLAuth, requireAdmin, async (req: Request, res: Response) => {
+router.get('/tenants', requireSAMLAuth, requireSystemAdmin, async (req: Request, res: Response) => {
   try {
     const { status, country, idpType } = req.query;
     
@@ -290,7 +209,7 @@ router.get('/tenants', requireSAMLAuth, requireAdmin, async (req: Request, res:
 /**
  * GET /api/admin/saml/audit/:tenantId - Get audit logs for tenant
  */
-router.get('/audit/:tenantId', requireSAMLAuth, requireAdmin, async (req: Request, res: Response) => {
+router.get('/audit/:tenantId', requireSAMLAuth, requirePermission('municipality.admin', forTenant), async (req: Request, res: Response) => {
   try {
     const { tenantId } = req.params;
     const { startDate, endDate, action, severity } = req.query;
@@ -344,7 +263,7 @@ router.get('/audit/:tenantId', requireSAMLAuth, requireAdmin, async (req: Reques
 /**
  * POST /api/admin/saml/security-scan - Perform security scan on tenant
  */
-router.post('/security-scan', requireSAMLAuth, requireAdmin, async (req: Request, res: Response) => {
+router.post('/security-scan', requireSAMLAuth, requireSystemAdmin, async (req: Request, res: Response) => {
   try {
     const { tenantId, scanType = 'comprehensive' } = req.body;
     
@@ -412,7 +331,7 @@ router.post('/security-scan', requireSAMLAuth, requireAdmin, async (req: Request
 /**
  * GET /api/admin/saml/status - Get overall SAML production status
  */
-router.get('/status', requireSAMLAuth, requireAdmin, async (req: Request, res: Response) => {
+router.get('/status', requireSAMLAuth, requireSystemAdmin, async (req: Request, res: Response) => {
   try {
     const productionStatus = samlManager.getProductionStatus();
     
@@ -449,7 +368,7 @@ router.get('/status', requireSAMLAuth, requireAdmin, async (req: Request, res: R
 /**
  * POST /api/admin/saml/emergency-disable/:tenantId - Emergency tenant disable
  */
-router.post('/emergency-disable/:tenantId', requireSAMLAuth, requireAdmin, async (req: Request, res: Response) => {
+router.post('/emergency-disable/:tenantId', requireSAMLAuth, requirePermission('municipality.admin', forTenant), async (req: Request, res: Response) => {
   try {
     const { tenantId } = req.params;
     const { reason, severity = 'high' } = req.body;
@@ -518,7 +437,7 @@ router.post('/emergency-disable/:tenantId', requireSAMLAuth, requireAdmin, async
 /**
  * GET /api/admin/saml/metrics - Get SAML performance metrics
  */
-router.get('/metrics', requireSAMLAuth, requireAdmin, async (req: Request, res: Response) => {
+router.get('/metrics', requireSAMLAuth, requireSystemAdmin, async (req: Request, res: Response) => {
   try {
     const { period = '24h' } = req.query;
     
@@ -0,0 +1,225 @@
+/**
+ * OIDC Authentication Routes
+ * OpenID Connect SSO endpoints for municipalities on Entra ID, Okta and other OIDC providers
+ */
+
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import {
+  enterpriseOIDCProvider,
+  initiateOIDCLogin,
+  handleOIDCCallback,
+  initiateOIDCLogout,
+  getOIDCUser,
+  isValidOIDCSession,
+  type OIDCAuthResult,
+  type OIDCUser
+} from '../../../services/enterprise-oidc-provider';
+import { localReturnPath } from '../../../utils/returnUrl';
+
+const router = Router();
+
+// Middleware for OIDC session validation
+export const requireOIDCAuth = async (req: Request, res: Response, next: NextFunction) => {
+  const sessionId = req.session?.oidcSessionId || req.headers['x-oidc-session'];
+
+  if (!sessionId || !await isValidOIDCSession(sessionId as string)) {
+    return res.status(401).json({
+      error: 'OIDC authentication required',
+      loginUrl: '/auth/oidc/tenants'
+    });
+  }
+
+  const user = await getOIDCUser(sessionId as string);
+  if (!user) {
+    return res.status(401).json({
+      error: 'Invalid OIDC session',
+      loginUrl: '/auth/oidc/tenants'
+    });
+  }
+
+  req.oidcUser = user;
+  req.oidcSessionId = sessionId as string;
+  next();
+};
+
+// GET /auth/oidc/tenants - List municipalities that sign in with OpenID Connect
+router.get('/tenants', (_req: Request, res: Response) => {
+  const tenants = enterpriseOIDCProvider.getAllTenants().map(tenant => ({
+    id: tenant.id,
+    name: tenant.name,
+    country: tenant.country,
+    idpType: tenant.idpType
+  }));
+
+  res.json({
+    success: true,
+    tenants,
+    total: tenants.length
+  });
+});
+
+// GET /auth/oidc/login/:tenantId - Redirect to the municipality's IdP
+router.get('/login/:tenantId', async (req: Request, res: Response) => {
+  const { tenantId } = req.params;
+  const { returnUrl } = req.query;
+
+  const tenant = enterpriseOIDCProvider.getTenant(tenantId);
+  if (!tenant) {
+    return res.status(404).json({
+      success: false,
+      error: `Municipality not found: ${tenantId}`
+    });
+  }
+
+  if (!tenant.isActive) {
+    return res.status(403).json({
+      success: false,
+      error: `Municipality SSO is currently disabled: ${tenant.name}`
+    });
+  }
+
+  try {
+    // Only paths on this application's origin are accepted as return URLs
+    const loginUrl = await initiateOIDCLogin(tenantId, localReturnPath(returnUrl, `${req.protocol}://${req.get('host')}`));
+
+    if (req.headers.accept?.includes('application/json')) {
+      res.json({
+        success: true,
+        loginUrl,
+        tenant: {
+          id: tenant.id,
+          name: tenant.name,
+          country: tenant.country
+        }
+      });
+    } else {
+      res.redirect(loginUrl);
+    }
+  } catch (error) {
+    console.error(`OIDC login initiation failed for tenant ${tenantId}:`, error);
+    res.status(502).json({
+      success: false,
+      error: 'Failed to initiate OIDC login'
+    });
+  }
+});
+
+// GET /auth/oidc/callback/:tenantId - Authorization response from the IdP
+router.get('/callback/:tenantId', async (req: Request, res: Response) => {
+  const { tenantId } = req.params;
+  const { code, state, error, error_description } = req.query;
+  const param = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+  const result: OIDCAuthResult = await handleOIDCCallback(tenantId, {
+    code: param(code),
+    state: param(state),
+    error: param(error),
+    error_description: param(error_description)
+  });
+
+  if (!result.success) {
+    return res.status(401).json({
+      success: false,
+      error: result.error || 'OIDC authentication failed'
+    });
+  }
+
+  req.session = req.session || {};
+  req.session.oidcSessionId = result.sessionId;
+  req.session.tenantId = result.tenantId;
+  req.session.userId = result.user?.email;
+
+  const returnUrl = result.redirectUrl || '/dashboard';
+
+  if (req.headers.accept?.includes('application/json')) {
+    res.json({
+      success: true,
+      user: {
+        email: result.user?.email,
+        displayName: result.user?.displayName,
+        municipality: result.user?.municipality,
+        roles: result.user?.roles
+      },
+      sessionId: result.sessionId,
+      redirectUrl: returnUrl
+    });
+  } else {
+    res.redirect(returnUrl);
+  }
+});
+
+// GET /auth/oidc/logout - RP-initiated logout at the IdP
+router.get('/logout', async (req: Request, res: Response) => {
+  const sessionId = req.session?.oidcSessionId;
+  const tenantId = req.session?.tenantId;
+
+  if (!sessionId || !tenantId) {
+    return res.redirect('/auth/logout/success');
+  }
+
+  try {
+    const logoutUrl = await initiateOIDCLogout(tenantId, sessionId);
+    req.session = null;
+
+    if (req.headers.accept?.includes('application/json')) {
+      res.json({
+        success: true,
+        logoutUrl
+      });
+    } else {
+      res.redirect(logoutUrl);
+    }
+  } catch (error) {
+    console.error('OIDC logout failed:', error);
+    req.session = null;
+
+    res.status(500).json({
+      success: false,
+      error: 'Logout failed',
+      fallbackUrl: '/auth/logout/success'
+    });
+  }
+});
+
+// GET /auth/oidc/status - Current OIDC authentication status
+router.get('/status', async (req: Request, res: Response) => {
+  const sessionId = req.session?.oidcSessionId;
+  const tenantId = req.session?.tenantId;
+
+  if (!sessionId || !await isValidOIDCSession(sessionId)) {
+    return res.json({
+      authenticated: false,
+      loginUrl: '/auth/oidc/tenants'
+    });
+  }
+
+  const user = await getOIDCUser(sessionId);
+  const tenant = tenantId ? enterpriseOIDCProvider.getTenant(tenantId) : null;
+
+  res.json({
+    authenticated: true,
+    user: user ? {
+      email: user.email,
+      displayName: user.displayName,
+      municipality: user.municipality,
+      roles: user.roles,
+      department: user.department
+    } : null,
+    tenant: tenant ? {
+      id: tenant.id,
+      name: tenant.name,
+      country: tenant.country
+    } : null,
+    sessionId
+  });
+});
+
+export default router;
+
+// Type augmentation for Express Request
+declare module 'express-serve-static-core' {
+  interface Request {
+    oidcUser?: OIDCUser;
+    oidcSessionId?: string;
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Policy Routes
+ * The signed-in user's effective permissions, and custom roles, grants and the policy decision
+ * audit log for municipal administrators
+ */
+
+import { Router, type Request, type Response } from 'express';
+import {
+  policyEngine,
+  requirePermission,
+  subjectFromSession,
+  PolicyError
+} from '../../../services/policy-engine';
+import { requireSession } from './sessions';
+
+const router = Router();
+
+const sendPolicyError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof PolicyError) {
+    return res.status(error.status).json({
+      success: false,
+      error: error.message
+    });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallback
+  });
+};
+
+// GET /api/auth/policy/permissions - What the signed-in user may do, for usePermission and <Can>
+router.get('/permissions', requireSession, async (req: Request, res: Response) => {
+  const effective = await policyEngine.effectivePermissions(subjectFromSession(req.authSession!));
+  res.json({
+    success: true,
+    ...effective
+  });
+});
+
+// GET /api/auth/policy/roles - The municipality's custom roles
+router.get('/roles', requirePermission('users.view'), async (req: Request, res: Response) => {
+  const roles = await policyEngine.listCustomRoles(req.authSession!.tenantId);
+  res.json({
+    success: true,
+    roles,
+    total: roles.length
+  });
+});
+
+// POST /api/auth/policy/roles - Create a custom role, e.g. "Publisher" with games.create and games.publish
+router.post('/roles', requirePermission('users.manage'), async (req: Request, res: Response) => {
+  try {
+    const role = await policyEngine.createCustomRole(subjectFromSession(req.authSession!), req.body ?? {});
+    res.status(201).json({
+      success: true,
+      role
+    });
+  } catch (error) {
+    sendPolicyError(res, error, 'Failed to create role');
+  }
+});
+
+// DELETE /api/auth/policy/roles/:roleId - Delete a custom role and its grants
+router.delete('/roles/:roleId', requirePermission('users.manage'), async (req: Request, res: Response) => {
+  try {
+    await policyEngine.deleteCustomRole(subjectFromSession(req.authSession!), req.params.roleId);
+    res.json({
+      success: true,
+      message: `Role ${req.params.roleId} has been deleted`
+    });
+  } catch (error) {
+    sendPolicyError(res, error, 'Failed to delete role');
+  }
+});
+
+// GET /api/auth/policy/grants - Grants in the municipality (?userId= for one user)
+router.get('/grants', requirePermission('users.view'), async (req: Request, res: Response) => {
+  const userId = typeof req.query.userId === 'string' ? req.query.userId : undefined;
+  const grants = await policyEngine.listGrants(req.authSession!.tenantId, userId);
+  res.json({
+    success: true,
+    grants,
+    total: grants.length
+  });
+});
+
+// POST /api/auth/policy/grants - Grant a permission or custom role, optionally for one resource
+router.post('/grants', requirePermission('users.manage'), async (req: Request, res: Response) => {
+  try {
+    const grant = await policyEngine.grant(subjectFromSession(req.authSession!), req.body ?? {});
+    res.status(201).json({
+      success: true,
+      grant
+    });
+  } catch (error) {
+    sendPolicyError(res, error, 'Failed to create grant');
+  }
+});
+
+// DELETE /api/auth/policy/grants/:grantId - Revoke a grant
+router.delete('/grants/:grantId', requirePermission('users.manage'), async (req: Request, res: Response) => {
+  try {
+    await policyEngine.revokeGrant(subjectFromSession(req.authSession!), req.params.grantId);
+    res.json({
+      success: true,
+      message: `Grant ${req.params.grantId} has been revoked`
+    });
+  } catch (error) {
+    sendPolicyError(res, error, 'Failed to revoke grant');
+  }
+});
+
+// GET /api/auth/policy/audit - Policy decisions in the municipality (?userId=, ?allowed=false, ?limit=)
+router.get('/audit', requirePermission('municipality.admin'), async (req: Request, res: Response) => {
+  const { userId, allowed, limit } = req.query;
+  const decisions = await policyEngine.listDecisions(req.authSession!.tenantId, {
+    userId: typeof userId === 'string' ? userId : undefined,
+    allowed: allowed === 'true' ? true : allowed === 'false' ? false : undefined,
+    limit: typeof limit === 'string' ? Math.min(Number(limit) || 100, 1000) : undefined
+  });
+  res.json({
+    success: true,
+    decisions,
+    total: decisions.length
+  });
+});
+
+export default router;
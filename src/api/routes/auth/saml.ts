@@ -17,21 +17,22 @@ import {
   type MunicipalTenant,
   type SAMLAuthResult 
 } from '../../../services/enterprise-saml-provider';
+import { requirePermission } from '../../../services/policy-engine';
 
 const router = Router();
 
 // Middleware for SAML session validation
-export const requireSAMLAuth = (req: Request, res: Response, next: Function) => {
+export const requireSAMLAuth = async (req: Request, res: Response, next: Function) => {
   const sessionId = req.session?.samlSessionId || req.headers['x-saml-session'];
   
-  if (!sessionId || !isValidSAMLSession(sessionId as string)) {
+  if (!sessionId || !await isValidSAMLSession(sessionId as string)) {
     return res.status(401).json({
       error: 'SAML authentication required',
       loginUrl: '/auth/saml/select-municipality'
     });
   }
   
-  const user = getSAMLUser(sessionId as string);
+  const user = await getSAMLUser(sessionId as string);
   if (!user) {
     return res.status(401).json({
       error: 'Invalid SAML session',
@@ -192,7 +193,7 @@ router.get('/logout', async (req: Request, res: Response) => {
   }
 
   try {
-    const user = getSAMLUser(sessionId);
+    const user = await getSAMLUser(sessionId);
     const logoutUrl = await initiateSAMLLogout(tenantId, sessionId, user?.nameID);
 
     // Clear session
@@ -223,18 +224,18 @@ router.get('/logout', async (req: Request, res: Response) => {
 });
 
 // GET /auth/saml/status - Check current SAML authentication status
-router.get('/status', (req: Request, res: Response) => {
+router.get('/status', async (req: Request, res: Response) => {
   const sessionId = req.session?.samlSessionId;
   const tenantId = req.session?.tenantId;
 
-  if (!sessionId || !isValidSAMLSession(sessionId)) {
+  if (!sessionId || !await isValidSAMLSession(sessionId)) {
     return res.json({
       authenticated: false,
       loginUrl: '/auth/saml/select-municipality'
     });
   }
 
-  const user = getSAMLUser(sessionId);
+  const user = await getSAMLUser(sessionId);
   const tenant = tenantId ? enterpriseSAMLProvider.getTenant(tenantId) : null;
 
   res.json({
@@ -282,17 +283,16 @@ router.get('/metadata/:tenantId', (req: Request, res: Response) => {
   }
 });
 
-// Admin routes (require admin authentication)
+// Admin routes (listing every tenant is for DigiNativa staff, a tenant's own config for its admins)
 const adminRouter = Router();
 
 // GET /auth/saml/admin/tenants - List all tenants with stats
-adminRouter.get('/tenants', requireSAMLAuth, (req: Request, res: Response) => {
-  // TODO: Add admin role check
+adminRouter.get('/tenants', requireSAMLAuth, requirePermission('system.admin'), async (req: Request, res: Response) => {
   try {
-    const tenants = enterpriseSAMLProvider.getAllTenants().map(tenant => ({
+    const tenants = await Promise.all(enterpriseSAMLProvider.getAllTenants().map(async tenant => ({
       ...tenant,
-      stats: enterpriseSAMLProvider.getTenantStats(tenant.id)
-    }));
+      stats: await enterpriseSAMLProvider.getTenantStats(tenant.id)
+    })));
 
     res.json({
       success: true,
@@ -309,7 +309,9 @@ adminRouter.get('/tenants', requireSAMLAuth, (req: Request, res: Response) => {
 });
 
 // PUT /auth/saml/admin/tenants/:tenantId - Update tenant configuration
-adminRouter.put('/tenants/:tenantId', requireSAMLAuth, async (req: Request, res: Response) => {
+adminRouter.put('/tenants/:tenantId', requireSAMLAuth, requirePermission('municipality.admin', {
+  tenantId: req => req.params.tenantId
+}), async (req: Request, res: Response) => {
   const { tenantId } = req.params;
   const updates = req.body;
 
@@ -339,11 +341,13 @@ adminRouter.put('/tenants/:tenantId', requireSAMLAuth, async (req: Request, res:
 });
 
 // DELETE /auth/saml/admin/tenants/:tenantId - Deactivate tenant
-adminRouter.delete('/tenants/:tenantId', requireSAMLAuth, (req: Request, res: Response) => {
+adminRouter.delete('/tenants/:tenantId', requireSAMLAuth, requirePermission('municipality.admin', {
+  tenantId: req => req.params.tenantId
+}), async (req: Request, res: Response) => {
   const { tenantId } = req.params;
 
   try {
-    const success = enterpriseSAMLProvider.deactivateTenant(tenantId);
+    const success = await enterpriseSAMLProvider.deactivateTenant(tenantId);
     
     if (!success) {
       return res.status(404).json({
@@ -0,0 +1,199 @@
+/**
+ * Auth Session Routes
+ * Refresh, validation and revocation of the server-side sessions behind every login method,
+ * including "log out all my devices" and session listing for administrators
+ */
+
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import { authSessionStore, toAuthSession, type AuthSessionRecord } from '../../../services/auth-session-store';
+import { requirePermission } from '../../../services/policy-engine';
+import type { AuthResult, User } from '../../../types/auth';
+
+const router = Router();
+
+const bearerSessionId = (req: Request): string | undefined => {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : undefined;
+};
+
+const sessionSummary = (session: AuthSessionRecord, currentSessionId?: string) => ({
+  sessionId: session.sessionId,
+  provider: session.provider,
+  tenantId: session.tenantId,
+  deviceInfo: session.deviceInfo,
+  createdAt: session.createdAt,
+  lastSeenAt: session.lastSeenAt,
+  expiresAt: session.expiresAt,
+  current: session.sessionId === currentSessionId
+});
+
+// The profile is the one stored at login: the User for password logins, the SSO user otherwise
+const sessionResult = (session: AuthSessionRecord<unknown>): AuthResult => ({
+  success: true,
+  user: session.profile as User,
+  session: toAuthSession(session)
+});
+
+const sessionExpired: AuthResult = {
+  success: false,
+  error: {
+    code: 'SESSION_EXPIRED',
+    message: 'Session has expired or was revoked'
+  }
+};
+
+// Middleware for Bearer session validation; counts the request as activity
+export const requireSession = async (req: Request, res: Response, next: NextFunction) => {
+  const sessionId = bearerSessionId(req);
+  const session = sessionId ? await authSessionStore.touchSession(sessionId) : null;
+
+  if (!session) {
+    return res.status(401).json(sessionExpired);
+  }
+
+  req.authSession = session;
+  next();
+};
+
+// Administrators see and revoke sessions in their own municipality; DigiNativa staff in all of them
+const adminTenant = (req: Request): string | undefined =>
+  req.authSession!.role === 'super_admin' ? undefined : req.authSession!.tenantId;
+
+// POST /api/auth/refresh - Slide the session's expiry
+router.post('/refresh', requireSession, (req: Request, res: Response) => {
+  res.json(sessionResult(req.authSession!));
+});
+
+// POST /api/auth/validate - Check a restored session without extending it
+router.post('/validate', async (req: Request, res: Response) => {
+  const sessionId = bearerSessionId(req);
+  const session = sessionId ? await authSessionStore.getSession(sessionId) : null;
+
+  if (!session) {
+    return res.status(401).json(sessionExpired);
+  }
+
+  res.json(sessionResult(session));
+});
+
+// POST /api/auth/logout - Revoke the current session
+router.post('/logout', async (req: Request, res: Response) => {
+  const sessionId = bearerSessionId(req);
+  if (sessionId) {
+    await authSessionStore.revokeSession(sessionId, 'logout');
+  }
+  res.json({ success: true });
+});
+
+// GET /api/auth/sessions - The signed-in user's active sessions
+router.get('/sessions', requireSession, async (req: Request, res: Response) => {
+  const current = req.authSession!;
+  const sessions = await authSessionStore.listUserSessions(current.userId);
+
+  res.json({
+    success: true,
+    sessions: sessions.map(session => sessionSummary(session, current.sessionId)),
+    total: sessions.length
+  });
+});
+
+// DELETE /api/auth/sessions - Log out all my devices (?keepCurrent=true keeps this one)
+router.delete('/sessions', requireSession, async (req: Request, res: Response) => {
+  const current = req.authSession!;
+  const revoked = await authSessionStore.revokeUserSessions(current.userId, 'logout_all_devices', {
+    exceptSessionId: req.query.keepCurrent === 'true' ? current.sessionId : undefined
+  });
+
+  res.json({
+    success: true,
+    revoked
+  });
+});
+
+// Admin routes (require users.view or users.manage)
+const adminRouter = Router();
+
+// GET /api/auth/admin/users/:userId/sessions - A user's active sessions
+adminRouter.get('/users/:userId/sessions', requirePermission('users.view'), async (req: Request, res: Response) => {
+  const { userId } = req.params;
+  const tenantId = adminTenant(req);
+
+  try {
+    const sessions = (await authSessionStore.listUserSessions(userId))
+      .filter(session => !tenantId || session.tenantId === tenantId);
+    res.json({
+      success: true,
+      userId,
+      sessions: sessions.map(session => sessionSummary(session)),
+      total: sessions.length
+    });
+  } catch (error) {
+    console.error(`Failed to list sessions of user ${userId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve sessions'
+    });
+  }
+});
+
+// DELETE /api/auth/admin/users/:userId/sessions - Sign a user out everywhere
+adminRouter.delete('/users/:userId/sessions', requirePermission('users.manage'), async (req: Request, res: Response) => {
+  const { userId } = req.params;
+
+  try {
+    const revoked = await authSessionStore.revokeUserSessions(userId, `revoked_by:${req.authSession!.userId}`, {
+      tenantId: adminTenant(req)
+    });
+    res.json({
+      success: true,
+      revoked
+    });
+  } catch (error) {
+    console.error(`Failed to revoke sessions of user ${userId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke sessions'
+    });
+  }
+});
+
+// DELETE /api/auth/admin/sessions/:sessionId - Revoke a single session
+adminRouter.delete('/sessions/:sessionId', requirePermission('users.manage', {
+  tenantId: async req => (await authSessionStore.getSession(req.params.sessionId))?.tenantId
+}), async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+
+  try {
+    const success = await authSessionStore.revokeSession(sessionId, `revoked_by:${req.authSession!.userId}`);
+
+    if (!success) {
+      return res.status(404).json({
+        success: false,
+        error: `Active session not found: ${sessionId}`
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Session ${sessionId} has been revoked`
+    });
+  } catch (error) {
+    console.error(`Failed to revoke session ${sessionId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke session'
+    });
+  }
+});
+
+// Mount admin routes
+router.use('/admin', adminRouter);
+
+export default router;
+
+// Type augmentation for Express Request
+declare module 'express-serve-static-core' {
+  interface Request {
+    authSession?: AuthSessionRecord;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Certificate API Routes
+ * Issuance to signed-in learners, revocation by municipal administrators and public verification
+ * of learner certificates
+ */
+
+import { Router, type Request } from 'express';
+import {
+  certificateJwks,
+  issueLearnerCertificate,
+  lookupCertificate,
+  revokeLearnerCertificate,
+  verifyCertificateFile
+} from '../certificate-verification';
+import { certificateService } from '../../services/certificate-service';
+import { requirePermission } from '../../services/policy-engine';
+
+const router = Router();
+
+// Certificates issued without a municipality belong to DigiNativa, so only its staff can revoke them
+const PLATFORM_TENANT_ID = 'diginativa';
+
+/**
+ * POST /api/certificates
+ * Issue a signed PDF certificate to the signed-in learner for a completed game
+ */
+router.post('/', requirePermission('games.play'), issueLearnerCertificate);
+
+/**
+ * POST /api/certificates/:code/revoke
+ * Revoke a certificate and the credentials issued for it; administrators of the issuing municipality only
+ */
+router.post('/:code/revoke', requirePermission('municipality.admin', {
+  tenantId: async (req: Request) => {
+    const certificate = await certificateService.getCertificate(req.params.code);
+    return certificate ? certificate.tenantId ?? PLATFORM_TENANT_ID : undefined;
+  }
+}), revokeLearnerCertificate);
+
+/**
+ * GET /api/certificates/jwks.json
+ * Public keys of the certificate signatures
+ */
+router.get('/jwks.json', certificateJwks);
+
+/**
+ * GET /api/certificates/verify/:code
+ * Certificate details and revocation status for a verification code
+ */
+router.get('/verify/:code', lookupCertificate);
+
+/**
+ * POST /api/certificates/verify
+ * Check a certificate PDF (base64) against its verification code and detached signature
+ */
+router.post('/verify', verifyCertificateFile);
+
+export default router;
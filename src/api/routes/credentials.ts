@@ -0,0 +1,68 @@
+/**
+ * Credential API Routes
+ * Issuer metadata, revocation status and verification of verifiable credentials, and issuance
+ * and revocation by learners and municipal administrators
+ */
+
+import { Router, type Request } from 'express';
+import {
+  credentialStatusList,
+  issueAchievementCredential,
+  issueCertificateCredential,
+  issuerDidDocument,
+  lookupCredential,
+  revokeIssuedCredential,
+  verifyPresentedCredential
+} from '../credential-verification';
+import { verifiableCredentialsService } from '../../services/verifiable-credentials';
+import { requirePermission } from '../../services/policy-engine';
+
+const router = Router();
+
+/**
+ * GET /api/credentials/tenants/:tenantId/did.json
+ * did:web document with the tenant's signing keys
+ */
+router.get('/tenants/:tenantId/did.json', issuerDidDocument);
+
+/**
+ * GET /api/credentials/status/:tenantId
+ * StatusList2021 revocation list of the tenant, as a signed VC-JWT
+ */
+router.get('/status/:tenantId', credentialStatusList);
+
+/**
+ * POST /api/credentials/verify
+ * Verify a VC-JWT: signature, validity period and revocation
+ */
+router.post('/verify', verifyPresentedCredential);
+
+/**
+ * POST /api/credentials
+ * Award an achievement credential to a learner; administrators of the issuing municipality only
+ */
+router.post('/', requirePermission('municipality.admin', {
+  tenantId: (req: Request) => (typeof req.body?.tenantId === 'string' ? req.body.tenantId : undefined)
+}), issueAchievementCredential);
+
+/**
+ * POST /api/credentials/certificates/:code
+ * Issue the signed-in learner's certificate as a verifiable credential
+ */
+router.post('/certificates/:code', requirePermission('games.play'), issueCertificateCredential);
+
+/**
+ * POST /api/credentials/:id/revoke
+ * Revoke a credential; administrators of the municipality that issued it only
+ */
+router.post('/:id/revoke', requirePermission('municipality.admin', {
+  tenantId: async (req: Request) => (await verifiableCredentialsService.getCredential(req.params.id))?.tenantId
+}), revokeIssuedCredential);
+
+/**
+ * GET /api/credentials/:id
+ * Verification result and VC-JWT of an issued credential
+ */
+router.get('/:id', lookupCredential);
+
+export default router;
@@ -10,15 +10,17 @@ import { Router, type Request, type Response } from 'express';
 import { getDevTeamPipeline, type ContentProcessingRequest, type DevTeamPipelineConfig } from '../services/devteam-api-pipeline';
 import { InfrastructureMonitoring } from '../services/infrastructure-monitoring';
 import type { GameManifest } from '../types/game-manifest';
+import { requirePermission } from '../../services/policy-engine';
 
 const router = Router();
+const requireContentManager = requirePermission('content.manage');
 const monitoring = InfrastructureMonitoring.getInstance();
 const pipeline = getDevTeamPipeline();
 
 /**
  * POST /api/devteam/process - Submit content for processing
  */
-router.post('/process', async (req: Request, res: Response) => {
+router.post('/process', requireContentManager, async (req: Request, res: Response) => {
   const startTime = Date.now();
   
   try {
@@ -138,7 +140,7 @@ router.post('/process', async (req: Request, res: Response) => {
 /**
  * POST /api/devteam/process/batch - Batch content processing
  */
-router.post('/process/batch', async (req: Request, res: Response) => {
+router.post('/process/batch', requireContentManager, async (req: Request, res: Response) => {
   const startTime = Date.now();
   
   try {
@@ -238,7 +240,7 @@ router.post('/process/batch', async (req: Request, res: Response) => {
 /**
  * GET /api/devteam/status/:id - Check processing status
  */
-router.get('/status/:id', async (req: Request, res: Response) => {
+router.get('/status/:id', requireContentManager, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const result = await pipeline.getResult(id);
@@ -280,7 +282,7 @@ router.get('/status/:id', async (req: Request, res: Response) => {
 /**
  * GET /api/devteam/metrics - Pipeline performance metrics
  */
-router.get('/metrics', async (req: Request, res: Response) => {
+router.get('/metrics', requireContentManager, async (req: Request, res: Response) => {
   try {
     const stats = pipeline.getStats();
     
@@ -329,7 +331,7 @@ router.get('/metrics', async (req: Request, res: Response) => {
 /**
  * POST /api/devteam/optimize - Optimize specific content type
  */
-router.post('/optimize', async (req: Request, res: Response) => {
+router.post('/optimize', requireContentManager, async (req: Request, res: Response) => {
   const startTime = Date.now();
   
   try {
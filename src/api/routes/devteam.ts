@@ -8,17 +8,22 @@ import {
   submitContent, 
   getProcessingStatus, 
   getAllJobs,
+  getSCORMPackage,
   ContentSubmissionSchema 
 } from '../devteam-integration';
 import { ZodError } from 'zod';
+import { requirePermission } from '../../services/policy-engine';
 
 const router = Router();
 
+// Submitting content and fetching its games is for the municipality's content managers
+const requireContentManager = requirePermission('content.manage');
+
 /**
  * POST /api/v1/process-content
  * Submit AI-generated content for processing
  */
-router.post('/process-content', async (req: Request, res: Response) => {
+router.post('/process-content', requireContentManager, async (req: Request, res: Response) => {
   try {
     // Validate request body
     const validatedRequest = ContentSubmissionSchema.parse(req.body);
@@ -61,7 +66,7 @@ router.post('/process-content', async (req: Request, res: Response) => {
  * GET /api/v1/process-status/:jobId
  * Get processing status for a specific job
  */
-router.get('/process-status/:jobId', async (req: Request, res: Response) => {
+router.get('/process-status/:jobId', requireContentManager, async (req: Request, res: Response) => {
   try {
     const { jobId } = req.params;
     
@@ -94,7 +99,7 @@ router.get('/process-status/:jobId', async (req: Request, res: Response) => {
  * GET /api/v1/process-status
  * Get all active processing jobs
  */
-router.get('/process-status', async (req: Request, res: Response) => {
+router.get('/process-status', requireContentManager, async (req: Request, res: Response) => {
   try {
     const jobs = await getAllJobs();
     
@@ -117,7 +122,7 @@ router.get('/process-status', async (req: Request, res: Response) => {
  * GET /api/v1/game-delivery/:jobId
  * Get deployment URLs for completed job
  */
-router.get('/game-delivery/:jobId', async (req: Request, res: Response) => {
+router.get('/game-delivery/:jobId', requireContentManager, async (req: Request, res: Response) => {
   try {
     const { jobId } = req.params;
     
@@ -158,6 +163,39 @@ router.get('/game-delivery/:jobId', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/v1/game-delivery/:jobId/scorm-package.zip
+ * Download the SCORM 2004 package for LMS upload (Moodle etc.)
+ */
+router.get('/game-delivery/:jobId/scorm-package.zip', requireContentManager, async (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+    
+    const scormPackage = await getSCORMPackage(jobId);
+    
+    if (!scormPackage) {
+      res.status(404).json({
+        success: false,
+        error: 'Package not found',
+        message: `No SCORM package built for job: ${jobId}`
+      });
+      return;
+    }
+    
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${scormPackage.identifier}.zip"`);
+    res.setHeader('Content-Length', scormPackage.archive.length.toString());
+    res.send(Buffer.from(scormPackage.archive));
+    
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * Health check endpoint
  */
@@ -9,6 +9,7 @@
 import { Router, type Request, type Response } from 'express';
 import { apiGateway, requireAPIKey } from '../../services/api-gateway';
 import { InfrastructureMonitoring } from '../../services/infrastructure-monitoring';
+import { isPermission } from '../../../utils/accessPolicy';
 
 const router = Router();
 const monitoring = InfrastructureMonitoring.getInstance();
@@ -16,7 +17,7 @@ const monitoring = InfrastructureMonitoring.getInstance();
 /**
  * GET /api/gateway/stats - Get rate limiting statistics
  */
-router.get('/stats', requireAPIKey(['admin:monitoring', 'admin:rate_limits']), async (req: Request, res: Response) => {
+router.get('/stats', requireAPIKey(['system.admin']), async (req: Request, res: Response) => {
   try {
     const { municipalityId } = req.query;
     
@@ -46,7 +47,7 @@ router.get('/stats', requireAPIKey(['admin:monitoring', 'admin:rate_limits']), a
 /**
  * POST /api/gateway/api-keys - Create new API key
  */
-router.post('/api-keys', requireAPIKey(['admin:api_keys']), async (req: Request, res: Response) => {
+router.post('/api-keys', requireAPIKey(['system.admin']), async (req: Request, res: Response) => {
   try {
     const { permissions, municipalityId, expiresInDays = 365 } = req.body;
     
@@ -57,6 +58,14 @@ router.post('/api-keys', requireAPIKey(['admin:api_keys']), async (req: Request,
       });
     }
 
+    const unknown = permissions.filter(permission => !isPermission(permission));
+    if (unknown.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown permissions: ${unknown.join(', ')}`
+      });
+    }
+
     const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
     
     const result = await apiGateway.createAPIKey({
@@ -111,7 +120,7 @@ router.post('/api-keys', requireAPIKey(['admin:api_keys']), async (req: Request,
 /**
  * PUT /api/gateway/municipality/:municipalityId/limits - Update municipality rate limits
  */
-router.put('/municipality/:municipalityId/limits', requireAPIKey(['admin:rate_limits']), async (req: Request, res: Response) => {
+router.put('/municipality/:municipalityId/limits', requireAPIKey(['system.admin']), async (req: Request, res: Response) => {
   try {
     const { municipalityId } = req.params;
     const updates = req.body;
@@ -160,7 +169,7 @@ router.put('/municipality/:municipalityId/limits', requireAPIKey(['admin:rate_li
 /**
  * GET /api/gateway/blocked-ips - Get list of blocked IPs from DDoS protection
  */
-router.get('/blocked-ips', requireAPIKey(['admin:monitoring', 'admin:security']), async (req: Request, res: Response) => {
+router.get('/blocked-ips', requireAPIKey(['system.admin']), async (req: Request, res: Response) => {
   try {
     // This would typically fetch from Redis in a production implementation
     const blockedIPs = []; // Placeholder - implement Redis scanning for blocked: keys
@@ -184,7 +193,7 @@ router.get('/blocked-ips', requireAPIKey(['admin:monitoring', 'admin:security'])
 /**
  * DELETE /api/gateway/blocked-ips/:ip - Unblock IP address
  */
-router.delete('/blocked-ips/:ip', requireAPIKey(['admin:security']), async (req: Request, res: Response) => {
+router.delete('/blocked-ips/:ip', requireAPIKey(['system.admin']), async (req: Request, res: Response) => {
   try {
     const { ip } = req.params;
     
@@ -0,0 +1,223 @@
+/**
+ * SCIM 2.0 Provisioning Routes
+ * /scim/v2/Users and /scim/v2/Groups for municipal IdPs (Entra ID, Okta). The municipality comes
+ * from tenantContextMiddleware (X-Municipality-Id header or ?municipalityId= on the tenant URL) and
+ * each municipality authenticates with its own bearer token from SCIM_TOKENS. The policy engine
+ * decides, and audits, every request of the municipality's directory.
+ */
+
+import { Router, json, type NextFunction, type Request, type Response } from 'express';
+import { tenantContextMiddleware, type TenantContext } from '../../services/tenant-isolation';
+import {
+  scimProvisioningService,
+  ScimError,
+  SCIM_SCHEMAS,
+  type ScimListQuery,
+  type ScimPatchOperation
+} from '../../services/scim-provisioning';
+import { policyEngine, type PolicySubject } from '../../services/policy-engine';
+
+const router = Router();
+
+const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+/**
+ * Bearer tokens per municipality from SCIM_TOKENS, a JSON object such as {"malmo_stad": "<token>"}
+ */
+export const scimTokensFromEnv = (
+  env: Record<string, string | undefined> = typeof process !== 'undefined' ? process.env : {}
+): Record<string, string> => {
+  if (!env.SCIM_TOKENS) return {};
+  try {
+    return JSON.parse(env.SCIM_TOKENS);
+  } catch (error) {
+    console.error('SCIM_TOKENS is not valid JSON:', error);
+    return {};
+  }
+};
+
+const scimTokens = scimTokensFromEnv();
+
+// Digests are compared so the comparison time does not depend on the token
+const sha256 = async (value: string): Promise<string> =>
+  Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+const sendError = (res: Response, error: ScimError) =>
+  res.status(error.status).type(SCIM_CONTENT_TYPE).json(error.toResponse());
+
+// Middleware for the municipality's SCIM bearer token
+export const requireScimToken = async (req: Request, res: Response, next: NextFunction) => {
+  const expected = req.tenantContext ? scimTokens[req.tenantContext.municipalityId] : undefined;
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : undefined;
+
+  if (!expected || !token || await sha256(token) !== await sha256(expected)) {
+    return sendError(res, new ScimError('SCIM bearer token is missing or invalid', 401));
+  }
+  next();
+};
+
+// The municipality's directory, acting with the permissions its token stands for
+const scimClient = (tenantId: string): PolicySubject => ({
+  userId: `scim:${tenantId}`,
+  tenantId,
+  role: 'user',
+  permissions: ['users.view', 'users.manage']
+});
+
+// Middleware deciding the request through the policy engine: reads need users.view, changes users.manage
+export const authorizeScimRequest = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const decision = await policyEngine.authorize(scimClient(req.tenantContext!.municipalityId), {
+      permission: req.method === 'GET' ? 'users.view' : 'users.manage',
+      action: `${req.method} ${req.originalUrl.split('?')[0]}`
+    });
+    if (!decision.allowed) {
+      return sendError(res, new ScimError('The SCIM client is not allowed to do this', 403));
+    }
+    next();
+  } catch (error) {
+    console.error('SCIM authorization failed:', error);
+    sendError(res, new ScimError('SCIM request failed', 500));
+  }
+};
+
+// Runs a handler and reports failures as SCIM error responses
+const scim = (handler: (req: Request, res: Response, tenantId: string) => Promise<void>) =>
+  async (req: Request, res: Response) => {
+    try {
+      await handler(req, res, req.tenantContext!.municipalityId);
+    } catch (error) {
+      if (error instanceof ScimError) {
+        return sendError(res, error);
+      }
+      console.error('SCIM request failed:', error);
+      sendError(res, new ScimError('SCIM request failed', 500));
+    }
+  };
+
+const listQuery = (req: Request): ScimListQuery => {
+  const { filter, startIndex, count, excludedAttributes } = req.query;
+  return {
+    filter: typeof filter === 'string' ? filter : undefined,
+    startIndex: typeof startIndex === 'string' ? Number(startIndex) || 1 : undefined,
+    count: typeof count === 'string' && !Number.isNaN(Number(count)) ? Number(count) : undefined,
+    excludeMembers: typeof excludedAttributes === 'string' && excludedAttributes.split(',').map(name => name.trim()).includes('members')
+  };
+};
+
+const patchOperations = (body: unknown): ScimPatchOperation[] => {
+  const request = body as { schemas?: unknown; Operations?: unknown } | undefined;
+  if (!Array.isArray(request?.schemas) || !request.schemas.includes(SCIM_SCHEMAS.patchOp) || !Array.isArray(request.Operations)) {
+    throw new ScimError('Expected a PatchOp request with Operations', 400, 'invalidSyntax');
+  }
+  return request.Operations as ScimPatchOperation[];
+};
+
+const send = (res: Response, status: number, body: unknown) => {
+  res.status(status).type(SCIM_CONTENT_TYPE).json(body);
+};
+
+router.use(json({ type: ['application/json', SCIM_CONTENT_TYPE] }));
+router.use(tenantContextMiddleware());
+router.use(requireScimToken);
+router.use(authorizeScimRequest);
+
+// GET /scim/v2/ServiceProviderConfig - Supported SCIM features
+router.get('/ServiceProviderConfig', (_req: Request, res: Response) => {
+  send(res, 200, {
+    schemas: ['urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig'],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: 500 },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [{
+      type: 'oauthbearertoken',
+      name: 'OAuth Bearer Token',
+      description: 'Per-municipality bearer token'
+    }]
+  });
+});
+
+// Users
+
+// GET /scim/v2/Users - List or filter users, e.g. filter=userName eq "anna@malmo.se"
+router.get('/Users', scim(async (req, res, tenantId) => {
+  send(res, 200, await scimProvisioningService.listUsers(tenantId, listQuery(req)));
+}));
+
+// POST /scim/v2/Users - Provision a user ahead of their first login
+router.post('/Users', scim(async (req, res, tenantId) => {
+  const user = await scimProvisioningService.createUser(tenantId, req.body ?? {});
+  res.location(user.meta.location);
+  send(res, 201, user);
+}));
+
+// GET /scim/v2/Users/:id
+router.get('/Users/:id', scim(async (req, res, tenantId) => {
+  send(res, 200, await scimProvisioningService.getUser(tenantId, req.params.id));
+}));
+
+// PUT /scim/v2/Users/:id - Replace a user
+router.put('/Users/:id', scim(async (req, res, tenantId) => {
+  send(res, 200, await scimProvisioningService.replaceUser(tenantId, req.params.id, req.body ?? {}));
+}));
+
+// PATCH /scim/v2/Users/:id - Update attributes; active=false deactivates and signs the user out
+router.patch('/Users/:id', scim(async (req, res, tenantId) => {
+  send(res, 200, await scimProvisioningService.patchUser(tenantId, req.params.id, patchOperations(req.body)));
+}));
+
+// DELETE /scim/v2/Users/:id - Delete a user, their memberships and sessions
+router.delete('/Users/:id', scim(async (req, res, tenantId) => {
+  await scimProvisioningService.deleteUser(tenantId, req.params.id);
+  res.status(204).end();
+}));
+
+// Groups
+
+// GET /scim/v2/Groups - List or filter groups, e.g. filter=displayName eq "DigiNativa Admin"
+router.get('/Groups', scim(async (req, res, tenantId) => {
+  send(res, 200, await scimProvisioningService.listGroups(tenantId, listQuery(req)));
+}));
+
+// POST /scim/v2/Groups - Create a group; its displayName maps to a role
+router.post('/Groups', scim(async (req, res, tenantId) => {
+  const group = await scimProvisioningService.createGroup(tenantId, req.body ?? {});
+  res.location(group.meta.location);
+  send(res, 201, group);
+}));
+
+// GET /scim/v2/Groups/:id
+router.get('/Groups/:id', scim(async (req, res, tenantId) => {
+  send(res, 200, await scimProvisioningService.getGroup(tenantId, req.params.id, { excludeMembers: listQuery(req).excludeMembers }));
+}));
+
+// PUT /scim/v2/Groups/:id - Replace a group and its members
+router.put('/Groups/:id', scim(async (req, res, tenantId) => {
+  send(res, 200, await scimProvisioningService.replaceGroup(tenantId, req.params.id, req.body ?? {}));
+}));
+
+// PATCH /scim/v2/Groups/:id - Rename the group or add and remove members
+router.patch('/Groups/:id', scim(async (req, res, tenantId) => {
+  send(res, 200, await scimProvisioningService.patchGroup(tenantId, req.params.id, patchOperations(req.body)));
+}));
+
+// DELETE /scim/v2/Groups/:id
+router.delete('/Groups/:id', scim(async (req, res, tenantId) => {
+  await scimProvisioningService.deleteGroup(tenantId, req.params.id);
+  res.status(204).end();
+}));
+
+export default router;
+
+// Type augmentation for Express Request
+declare module 'express-serve-static-core' {
+  interface Request {
+    tenantContext?: TenantContext;
+  }
+}
@@ -7,20 +7,22 @@
 
 import { Router } from 'express';
 import { validateContent, validateBatch, validationHealthCheck } from '../content-validation';
+import { requirePermission } from '../../services/policy-engine';
 
 const router = Router();
+const requireContentManager = requirePermission('content.manage');
 
 /**
  * POST /api/validation/content
- * Validate a single content item
+ * Validate a single content item; game manifests also get scene graph analysis and pathStats
  */
-router.post('/content', validateContent);
+router.post('/content', requireContentManager, validateContent);
 
 /**
  * POST /api/validation/batch
  * Validate multiple content items in one request
  */
-router.post('/batch', validateBatch);
+router.post('/batch', requireContentManager, validateBatch);
 
 /**
  * GET /api/validation/health
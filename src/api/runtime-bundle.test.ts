@@ -0,0 +1,80 @@
+/**
+ * Runtime Bundle Tests
+ * Builds the real runtime library (`vite build --mode runtime`), packages it as SCORM and checks that
+ * the DigiNativaRuntime.mount the launch page calls exists and renders a game
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { buildSCORMPackage, RUNTIME_ENTRY } from './scorm-package-builder';
+import { readZipArchive } from '../utils/zipArchive';
+import type { GameManifest } from '../types/game-manifest';
+import type { RuntimeMountOptions } from '../runtime';
+
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+const gameManifest: GameManifest = {
+  schemaVersion: '0.2.0',
+  gameId: 'runtime-smoke-001',
+  metadata: {
+    title: 'Runtime smoke test',
+    description: 'Minimal game for the packaged runtime',
+    duration: '1 minut',
+    language: 'sv',
+    version: '1.0.0'
+  },
+  scenes: [
+    { id: 'end', type: 'summary', title: 'Klart', message: 'Bra jobbat' }
+  ],
+  startScene: 'end'
+};
+
+describe('Runtime bundle', () => {
+  let outDir: string;
+  let runtime: string;
+
+  beforeAll(async () => {
+    outDir = await mkdtemp(join(tmpdir(), 'diginativa-runtime-'));
+    // Vitest sets NODE_ENV=test, which would compile JSX for the development runtime
+    await promisify(execFile)(
+      'npx',
+      ['vite', 'build', '--mode', 'runtime', '--outDir', outDir, '--emptyOutDir', '--logLevel', 'error'],
+      { env: { ...process.env, NODE_ENV: 'production' } }
+    );
+    runtime = await readFile(join(outDir, RUNTIME_ENTRY), 'utf8');
+  }, 120000);
+
+  afterAll(async () => {
+    delete window.DigiNativaRuntime;
+    await rm(outDir, { recursive: true, force: true });
+  });
+
+  it('packages the built runtime-engine.js', () => {
+    const scormPackage = buildSCORMPackage(gameManifest, { runtimeBundle: { [RUNTIME_ENTRY]: runtime } });
+    const files = readZipArchive(scormPackage.archive);
+
+    expect(decode(files.get(RUNTIME_ENTRY)!)).toBe(runtime);
+    expect(decode(files.get('index.html')!)).toContain('window.DigiNativaRuntime.mount(');
+  });
+
+  it('exposes DigiNativaRuntime.mount and renders the game', async () => {
+    // Indirect eval runs the IIFE in global scope, as the launch page's <script> tag does
+    (0, eval)(runtime);
+    expect(typeof window.DigiNativaRuntime?.mount).toBe('function');
+
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const options: RuntimeMountOptions = { manifest: gameManifest };
+    const unmount = window.DigiNativaRuntime!.mount(container, options);
+
+    await expect.poll(() => container.querySelector('[role="main"]'), { timeout: 10000 }).not.toBeNull();
+
+    unmount();
+    expect(container.textContent).toBe('');
+    container.remove();
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * SCORM Package Builder Tests
+ * Verifies imsmanifest.xml generation, zip layout and the cmi.* mapping of the API adapter
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  buildSCORMPackage,
+  resolveMasteryScore,
+  SCORM_API_ADAPTER_SCRIPT,
+  type SCORMPackageOptions
+} from './scorm-package-builder';
+import { readZipArchive, crc32 } from '../utils/zipArchive';
+import type { GameManifest } from '../types/game-manifest';
+import type { GameResults } from '../components/StrategyPlayHost';
+
+// Globals the launch page and the API adapter share with the LMS frame
+type SCORMWindow = Window & {
+  API_1484_11?: Record<string, ReturnType<typeof vi.fn>>;
+  DIGINATIVA_SCORM_CONFIG?: { gameId: string; scaledPassingScore: number; totalScenes: number };
+  DigiNativaSCORM?: {
+    initialize: () => boolean;
+    setLocation: (sceneId: string) => void;
+    reportResults: (results: GameResults) => boolean;
+    terminate: () => void;
+  };
+};
+
+const scormWindow = window as SCORMWindow;
+
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+describe('SCORM Package Builder', () => {
+  const gameManifest: GameManifest = {
+    schemaVersion: '0.2.0',
+    gameId: 'gdpr-basics-001',
+    metadata: {
+      title: 'GDPR för kommunal personal & chefer',
+      description: 'Grundläggande GDPR-utbildning',
+      duration: '7 minuter',
+      language: 'sv',
+      version: '1.2.0'
+    },
+    scenes: [
+      { id: 'intro', type: 'dialogue', characters: [], messages: [] },
+      { id: 'final', type: 'assessment', questions: [], scoring: { passThreshold: 70 } },
+      { id: 'end', type: 'summary', title: 'Klart', message: 'Bra jobbat' }
+    ],
+    startScene: 'intro'
+  };
+
+  const runtimeBundle: SCORMPackageOptions['runtimeBundle'] = {
+    'runtime-engine.js': 'window.DigiNativaRuntime = { mount: function () {} };'
+  };
+
+  describe('buildSCORMPackage', () => {
+    it('produces a zip with manifest, launch page, adapter, game manifest and runtime', () => {
+      const scormPackage = buildSCORMPackage(gameManifest, { runtimeBundle });
+      const files = readZipArchive(scormPackage.archive);
+
+      expect([...files.keys()]).toEqual([
+        'imsmanifest.xml',
+        'index.html',
+        'game-manifest.json',
+        'scorm-api-adapter.js',
+        'runtime-engine.js'
+      ]);
+      expect(JSON.parse(decode(files.get('game-manifest.json')!)).gameId).toBe('gdpr-basics-001');
+      expect(decode(files.get('runtime-engine.js')!)).toBe(runtimeBundle['runtime-engine.js']);
+    });
+
+    it('generates a SCORM 2004 4th Edition manifest with escaped titles and mastery sequencing', () => {
+      const scormPackage = buildSCORMPackage(gameManifest, { runtimeBundle, organization: 'Malmö Stad' });
+      const manifest = decode(readZipArchive(scormPackage.archive).get('imsmanifest.xml')!);
+
+      expect(manifest).toContain('<schemaversion>2004 4th Edition</schemaversion>');
+      expect(manifest).toContain('identifier="com.diginativa.gdpr-basics-001"');
+      expect(manifest).toContain('<title>GDPR för kommunal personal &amp; chefer</title>');
+      expect(manifest).toContain('<title>Malmö Stad</title>');
+      expect(manifest).toContain('adlcp:scormType="sco" href="index.html"');
+      expect(manifest).toContain('<imsss:minNormalizedMeasure>0.7</imsss:minNormalizedMeasure>');
+      expect(manifest).toContain('<file href="scorm-api-adapter.js"/>');
+      expect(scormPackage.metadata.masteryScore).toBe(70);
+    });
+
+    it('writes valid CRC-32 checksums', () => {
+      expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    });
+
+    it('rejects packages without the runtime entry', () => {
+      expect(() => buildSCORMPackage(gameManifest, { runtimeBundle: {} })).toThrow(/runtime-engine\.js/);
+    });
+
+    it('rejects runtime bundles that overwrite package files', () => {
+      expect(() => buildSCORMPackage(gameManifest, {
+        runtimeBundle: { ...runtimeBundle, 'imsmanifest.xml': '<manifest/>' }
+      })).toThrow(/reserved package files/);
+    });
+  });
+
+  describe('resolveMasteryScore', () => {
+    it('accepts fractional thresholds and falls back to 80%', () => {
+      expect(resolveMasteryScore({ ...gameManifest, scenes: [{ id: 'a', type: 'assessment', questions: [], scoring: { passingScore: 0.65 } }] })).toBe(65);
+      expect(resolveMasteryScore({ ...gameManifest, scenes: [] })).toBe(80);
+      expect(resolveMasteryScore(gameManifest, 90)).toBe(90);
+    });
+  });
+
+  describe('SCORM API adapter', () => {
+    let cmi: Record<string, string>;
+    let api: Record<string, ReturnType<typeof vi.fn>>;
+
+    beforeEach(() => {
+      cmi = { 'cmi.completion_status': 'not attempted', 'cmi.interactions._count': '0' };
+      api = {
+        Initialize: vi.fn(() => 'true'),
+        Terminate: vi.fn(() => 'true'),
+        Commit: vi.fn(() => 'true'),
+        GetValue: vi.fn((element: string) => cmi[element] ?? ''),
+        SetValue: vi.fn((element: string, value: string) => {
+          cmi[element] = value;
+          return 'true';
+        }),
+        GetLastError: vi.fn(() => '0')
+      };
+      scormWindow.API_1484_11 = api;
+      scormWindow.DIGINATIVA_SCORM_CONFIG = { gameId: 'gdpr-basics-001', scaledPassingScore: 0.7, totalScenes: 3 };
+      new Function('window', SCORM_API_ADAPTER_SCRIPT)(window);
+    });
+
+    afterEach(() => {
+      delete scormWindow.API_1484_11;
+      delete scormWindow.DIGINATIVA_SCORM_CONFIG;
+      delete scormWindow.DigiNativaSCORM;
+    });
+
+    it('initializes the LMS session and marks the attempt incomplete', () => {
+      expect(scormWindow.DigiNativaSCORM!.initialize()).toBe(true);
+      expect(api.Initialize).toHaveBeenCalledWith('');
+      expect(cmi['cmi.completion_status']).toBe('incomplete');
+    });
+
+    it('maps GameResults to score, status, session time and interactions', () => {
+      const scorm = scormWindow.DigiNativaSCORM!;
+      scorm.initialize();
+      scorm.reportResults({
+        gameId: 'gdpr-basics-001',
+        completed: true,
+        score: 8,
+        totalScore: 10,
+        timeSpent: 3_725_000,
+        scenesCompleted: ['intro', 'final', 'end'],
+        answers: { final: { isCorrect: true, selected: ['a'] }, intro: 'choice-2' }
+      });
+
+      expect(cmi['cmi.score.raw']).toBe('8');
+      expect(cmi['cmi.score.max']).toBe('10');
+      expect(cmi['cmi.score.scaled']).toBe('0.8000');
+      expect(cmi['cmi.success_status']).toBe('passed');
+      expect(cmi['cmi.completion_status']).toBe('completed');
+      expect(cmi['cmi.progress_measure']).toBe('1.0000');
+      expect(cmi['cmi.session_time']).toBe('PT1H2M5S');
+      expect(cmi['cmi.interactions.0.id']).toBe('gdpr-basics-001.final');
+      expect(cmi['cmi.interactions.0.result']).toBe('correct');
+      expect(cmi['cmi.interactions.1.learner_response']).toBe('choice-2');
+      expect(cmi['cmi.interactions.1.result']).toBe('neutral');
+      expect(cmi['cmi.exit']).toBe('normal');
+      expect(api.Commit).toHaveBeenCalled();
+    });
+
+    it('reports failure below the mastery score and terminates once', () => {
+      const scorm = scormWindow.DigiNativaSCORM!;
+      scorm.initialize();
+      scorm.reportResults({ gameId: 'gdpr-basics-001', completed: true, score: 3, totalScore: 10, timeSpent: 0, scenesCompleted: [] });
+      scorm.terminate();
+      scorm.terminate();
+
+      expect(cmi['cmi.success_status']).toBe('failed');
+      expect(api.Terminate).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the raw and scaled score within the total', () => {
+      const scorm = scormWindow.DigiNativaSCORM!;
+      scorm.initialize();
+      scorm.reportResults({ gameId: 'gdpr-basics-001', completed: true, score: 112, totalScore: 10, timeSpent: 0, scenesCompleted: [] });
+
+      expect(cmi['cmi.score.raw']).toBe('10');
+      expect(cmi['cmi.score.scaled']).toBe('1.0000');
+    });
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * SCORM 2004 Package Builder
+ * Produces LMS-ready SCORM 2004 4th Edition zip packages (Moodle, Cornerstone, SuccessFactors)
+ *
+ * Package layout:
+ *   imsmanifest.xml          - CAM manifest with a single SCO and mastery-based sequencing
+ *   index.html               - Launch page booting the runtime with the game manifest
+ *   game-manifest.json       - Branded, processed game manifest
+ *   scorm-api-adapter.js     - Maps StrategyPlayHost GameResults to cmi.* data model calls
+ *   runtime-engine.js (+...) - Runtime bundle supplied by the build
+ */
+
+import { isAssessmentScene, type GameManifest } from '../types/game-manifest';
+import { createZipArchive, type ZipEntry } from '../utils/zipArchive';
+import { normalizePercentThreshold } from '../utils/assessmentScoring';
+
+export const SCORM_VERSION = '2004 4th Edition';
+export const RUNTIME_ENTRY = 'runtime-engine.js';
+export const SCORM_ADAPTER_FILE = 'scorm-api-adapter.js';
+export const GAME_MANIFEST_FILE = 'game-manifest.json';
+
+const DEFAULT_MASTERY_SCORE = 80; // Percent, matches previous package descriptor
+
+export interface SCORMPackageOptions {
+  // Runtime bundle files keyed by package-relative path; must contain runtime-engine.js
+  runtimeBundle: Record<string, string | Uint8Array>;
+  // Passing score in percent (0-100); derived from assessment scenes when omitted
+  masteryScore?: number;
+  // Organization title shown in the LMS course outline
+  organization?: string;
+  identifierPrefix?: string;
+}
+
+export interface SCORMPackage {
+  identifier: string;
+  scormVersion: string;
+  files: string[];
+  archive: Uint8Array;
+  metadata: {
+    title: string;
+    description?: string;
+    masteryScore: number;
+    scaledPassingScore: number;
+    totalScenes: number;
+  };
+}
+
+type PackagedManifest = Pick<GameManifest, 'gameId' | 'metadata' | 'scenes'>;
+
+/**
+ * Build a complete SCORM 2004 zip package for a game manifest
+ */
+export function buildSCORMPackage(gameManifest: PackagedManifest, options: SCORMPackageOptions): SCORMPackage {
+  if (!gameManifest?.gameId) {
+    throw new Error('SCORM packaging requires a gameId');
+  }
+  if (!options.runtimeBundle[RUNTIME_ENTRY]) {
+    throw new Error(`SCORM packaging requires the runtime bundle entry "${RUNTIME_ENTRY}"`);
+  }
+
+  const reserved = ['imsmanifest.xml', 'index.html', GAME_MANIFEST_FILE, SCORM_ADAPTER_FILE];
+  const clashing = Object.keys(options.runtimeBundle).filter(path => reserved.includes(path));
+  if (clashing.length > 0) {
+    throw new Error(`Runtime bundle must not contain reserved package files: ${clashing.join(', ')}`);
+  }
+
+  const identifier = `${options.identifierPrefix || 'com.diginativa'}.${sanitizeIdentifier(gameManifest.gameId)}`;
+  const masteryScore = resolveMasteryScore(gameManifest, options.masteryScore);
+  const scaledPassingScore = Math.round(masteryScore * 100) / 10000;
+  const totalScenes = gameManifest.scenes?.length || 0;
+
+  const entries: ZipEntry[] = [
+    { path: 'index.html', content: generateLaunchPage(gameManifest, { scaledPassingScore, totalScenes }) },
+    { path: GAME_MANIFEST_FILE, content: JSON.stringify(gameManifest, null, 2) },
+    { path: SCORM_ADAPTER_FILE, content: SCORM_API_ADAPTER_SCRIPT },
+    ...Object.entries(options.runtimeBundle).map(([path, content]) => ({ path, content }))
+  ];
+
+  const files = entries.map(entry => entry.path);
+  const imsManifest = generateIMSManifest(gameManifest, {
+    identifier,
+    organization: options.organization,
+    scaledPassingScore,
+    files
+  });
+
+  // imsmanifest.xml must live at the package root; put it first for LMS importers that stream
+  const archive = createZipArchive([{ path: 'imsmanifest.xml', content: imsManifest }, ...entries]);
+
+  return {
+    identifier,
+    scormVersion: SCORM_VERSION,
+    files: ['imsmanifest.xml', ...files],
+    archive,
+    metadata: {
+      title: gameManifest.metadata.title,
+      description: gameManifest.metadata.description,
+      masteryScore,
+      scaledPassingScore,
+      totalScenes
+    }
+  };
+}
+
+/**
+ * Determine the passing score in percent
+ * Assessment scenes may express passThreshold/passingScore as a fraction (0.7) or percent (70)
+ */
+export function resolveMasteryScore(gameManifest: PackagedManifest, override?: number): number {
+  const candidate = override ?? gameManifest.scenes
+    ?.filter(isAssessmentScene)
+    .map(scene => scene.scoring?.passThreshold ?? scene.scoring?.passingScore)
+    .find(value => typeof value === 'number');
+
+  return normalizePercentThreshold(candidate, DEFAULT_MASTERY_SCORE);
+}
+
+/**
+ * Generate the SCORM 2004 4th Edition imsmanifest.xml
+ */
+export function generateIMSManifest(
+  gameManifest: PackagedManifest,
+  options: { identifier: string; organization?: string; scaledPassingScore: number; files: string[] }
+): string {
+  const title = escapeXml(gameManifest.metadata.title);
+  const organization = escapeXml(options.organization || gameManifest.metadata.title);
+  const fileElements = options.files
+    .map(file => `      <file href="${escapeXml(file)}"/>`)
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${escapeXml(options.identifier)}" version="${escapeXml(gameManifest.metadata.version || '1.0.0')}"
+  xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3"
+  xmlns:adlseq="http://www.adlnet.org/xsd/adlseq_v1p3"
+  xmlns:adlnav="http://www.adlnet.org/xsd/adlnav_v1p3"
+  xmlns:imsss="http://www.imsglobal.org/xsd/imsss"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 imscp_v1p1.xsd
+    http://www.adlnet.org/xsd/adlcp_v1p3 adlcp_v1p3.xsd
+    http://www.adlnet.org/xsd/adlseq_v1p3 adlseq_v1p3.xsd
+    http://www.adlnet.org/xsd/adlnav_v1p3 adlnav_v1p3.xsd
+    http://www.imsglobal.org/xsd/imsss imsss_v1p0.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>${SCORM_VERSION}</schemaversion>
+  </metadata>
+  <organizations default="ORG-1">
+    <organization identifier="ORG-1">
+      <title>${organization}</title>
+      <item identifier="ITEM-1" identifierref="RES-1">
+        <title>${title}</title>
+        <imsss:sequencing>
+          <imsss:objectives>
+            <imsss:primaryObjective objectiveID="PRIMARYOBJ" satisfiedByMeasure="true">
+              <imsss:minNormalizedMeasure>${options.scaledPassingScore}</imsss:minNormalizedMeasure>
+            </imsss:primaryObjective>
+          </imsss:objectives>
+          <imsss:deliveryControls completionSetByContent="true" objectiveSetByContent="true"/>
+        </imsss:sequencing>
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="RES-1" type="webcontent" adlcp:scormType="sco" href="index.html">
+${fileElements}
+    </resource>
+  </resources>
+</manifest>
+`;
+}
+
+/**
+ * Generate the SCO launch page
+ * Expects the runtime bundle to expose window.DigiNativaRuntime.mount(container, options)
+ */
+export function generateLaunchPage(
+  gameManifest: PackagedManifest,
+  config: { scaledPassingScore: number; totalScenes: number }
+): string {
+  const language = escapeXml(gameManifest.metadata.language || 'sv');
+  const scormConfig = JSON.stringify({
+    gameId: gameManifest.gameId,
+    scaledPassingScore: config.scaledPassingScore,
+    totalScenes: config.totalScenes
+  }).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeXml(gameManifest.metadata.title)}</title>
+</head>
+<body>
+  <div id="root"></div>
+  <script>window.DIGINATIVA_SCORM_CONFIG = ${scormConfig};</script>
+  <script src="${SCORM_ADAPTER_FILE}"></script>
+  <script src="${RUNTIME_ENTRY}"></script>
+  <script>
+    (function () {
+      var scorm = window.DigiNativaSCORM;
+      scorm.initialize();
+      fetch('${GAME_MANIFEST_FILE}')
+        .then(function (response) { return response.json(); })
+        .then(function (manifest) {
+          window.DigiNativaRuntime.mount(document.getElementById('root'), {
+            manifest: manifest,
+            onSceneChange: scorm.setLocation,
+            onComplete: scorm.reportResults
+          });
+        })
+        .catch(function (error) {
+          document.getElementById('root').textContent = 'Spelet kunde inte laddas: ' + error.message;
+        });
+      window.addEventListener('pagehide', scorm.terminate);
+      window.addEventListener('beforeunload', scorm.terminate);
+    })();
+  </script>
+</body>
+</html>
+`;
+}
+
+/**
+ * SCORM 2004 API adapter shipped inside every package (plain ES5, no build step in the LMS)
+ * Locates API_1484_11 in the frame hierarchy and maps GameResults onto the cmi data model
+ */
+export const SCORM_API_ADAPTER_SCRIPT = `/* DigiNativa SCORM 2004 API adapter */
+(function (window) {
+  'use strict';
+
+  var config = window.DIGINATIVA_SCORM_CONFIG || {};
+  var api = null;
+  var initialized = false;
+  var terminated = false;
+
+  function findAPI(win) {
+    var attempts = 0;
+    while (win && attempts < 500) {
+      if (win.API_1484_11) return win.API_1484_11;
+      if (!win.parent || win.parent === win) break;
+      win = win.parent;
+      attempts++;
+    }
+    return null;
+  }
+
+  function locateAPI() {
+    return findAPI(window) || (window.opener ? findAPI(window.opener) : null);
+  }
+
+  function set(element, value) {
+    if (!api) return false;
+    var ok = api.SetValue(element, String(value)) === 'true';
+    if (!ok && window.console) {
+      window.console.warn('SCORM SetValue failed for ' + element + ': ' + api.GetLastError());
+    }
+    return ok;
+  }
+
+  function toDuration(milliseconds) {
+    var totalSeconds = Math.max(0, Math.round((milliseconds || 0) / 1000));
+    var hours = Math.floor(totalSeconds / 3600);
+    var minutes = Math.floor((totalSeconds % 3600) / 60);
+    var seconds = totalSeconds % 60;
+    return 'PT' + hours + 'H' + minutes + 'M' + seconds + 'S';
+  }
+
+  function toIdentifier(value) {
+    return String(value).replace(/\\s+/g, '_').substring(0, 4000);
+  }
+
+  function interactionResult(answer) {
+    if (answer && typeof answer === 'object' && typeof answer.isCorrect === 'boolean') {
+      return answer.isCorrect ? 'correct' : 'incorrect';
+    }
+    return 'neutral';
+  }
+
+  function learnerResponse(answer) {
+    var text = typeof answer === 'string' ? answer : JSON.stringify(answer);
+    return (text || '').substring(0, 4000);
+  }
+
+  var adapter = {
+    initialize: function () {
+      if (initialized) return true;
+      api = locateAPI();
+      if (!api) {
+        if (window.console) window.console.warn('SCORM API_1484_11 not found - running without LMS tracking');
+        return false;
+      }
+      initialized = api.Initialize('') === 'true';
+      if (initialized && api.GetValue('cmi.completion_status') === 'not attempted') {
+        set('cmi.completion_status', 'incomplete');
+        api.Commit('');
+      }
+      return initialized;
+    },
+
+    setLocation: function (sceneId) {
+      if (!initialized || terminated) return;
+      set('cmi.location', toIdentifier(sceneId).substring(0, 1000));
+      api.Commit('');
+    },
+
+    reportResults: function (results) {
+      if (!initialized || terminated || !results) return false;
+
+      var total = Number(results.totalScore) || 0;
+      // LMSs reject a raw score outside min..max, so points beyond the total count as full marks
+      var score = Math.max(0, Math.min(total, Number(results.score) || 0));
+      if (total > 0) {
+        var scaled = score / total;
+        set('cmi.score.raw', score);
+        set('cmi.score.min', 0);
+        set('cmi.score.max', total);
+        set('cmi.score.scaled', scaled.toFixed(4));
+        if (typeof config.scaledPassingScore === 'number') {
+          set('cmi.success_status', scaled >= config.scaledPassingScore ? 'passed' : 'failed');
+        }
+      }
+
+      var scenesCompleted = results.scenesCompleted || [];
+      if (config.totalScenes > 0) {
+        set('cmi.progress_measure', Math.min(1, scenesCompleted.length / config.totalScenes).toFixed(4));
+      }
+      set('cmi.completion_status', results.completed ? 'completed' : 'incomplete');
+      set('cmi.session_time', toDuration(results.timeSpent));
+
+      var answers = results.answers || {};
+      var index = parseInt(api.GetValue('cmi.interactions._count'), 10) || 0;
+      for (var sceneId in answers) {
+        if (!Object.prototype.hasOwnProperty.call(answers, sceneId) || answers[sceneId] === undefined) continue;
+        var prefix = 'cmi.interactions.' + index + '.';
+        set(prefix + 'id', toIdentifier(config.gameId ? config.gameId + '.' + sceneId : sceneId));
+        set(prefix + 'type', 'other');
+        set(prefix + 'learner_response', learnerResponse(answers[sceneId]));
+        set(prefix + 'result', interactionResult(answers[sceneId]));
+        index++;
+      }
+
+      set('cmi.exit', results.completed ? 'normal' : 'suspend');
+      return api.Commit('') === 'true';
+    },
+
+    terminate: function () {
+      if (!initialized || terminated) return;
+      terminated = true;
+      api.Terminate('');
+    }
+  };
+
+  window.DigiNativaSCORM = adapter;
+})(window);
+`;
+
+/**
+ * Helper functions
+ */
+function sanitizeIdentifier(value: string): string {
+  return value.replace(/[^A-Za-z0-9._-]/g, '-');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -1,14 +1,30 @@
 import React from 'react';
 import { VStack, HStack, Text, Box, Divider } from '@chakra-ui/react';
 import { MunicipalButton } from './MunicipalButton';
-import { getButtonText } from '../../theme/municipalButtonTheme';
+import { I18nProvider } from '../../contexts/I18nContext';
+import { useTranslation } from '../../hooks/useTranslation';
+import { CULTURAL_CONTEXT_LOCALES, type CulturalContextName } from '../../i18n';
 
 /**
  * Example implementations of the Municipal Button System
  * Based on Game Designer task-gd-007 specifications
  */
 export const MunicipalButtonExamples: React.FC = () => {
-  const [culturalContext, setCulturalContext] = React.useState<'swedish' | 'german' | 'french' | 'dutch'>('swedish');
+  const [culturalContext, setCulturalContext] = React.useState<CulturalContextName>('swedish');
+
+  // Button copy follows the selected cultural context through its catalog
+  return (
+    <I18nProvider locale={CULTURAL_CONTEXT_LOCALES[culturalContext]}>
+      <ButtonExampleList culturalContext={culturalContext} onCulturalContextChange={setCulturalContext} />
+    </I18nProvider>
+  );
+};
+
+const ButtonExampleList: React.FC<{
+  culturalContext: CulturalContextName;
+  onCulturalContextChange: (context: CulturalContextName) => void;
+}> = ({ culturalContext, onCulturalContextChange: setCulturalContext }) => {
+  const { t } = useTranslation();
   const [isLoading, setIsLoading] = React.useState(false);
 
   const handlePrimaryAction = () => {
@@ -33,13 +49,13 @@ export const MunicipalButtonExamples: React.FC = () => {
                 onClick={handlePrimaryAction}
                 isLoading={isLoading}
               >
-                {getButtonText('start', culturalContext)}
+                {t('button.start')}
               </MunicipalButton>
               <MunicipalButton 
                 variant="municipal-primary"
                 culturalContext={culturalContext}
               >
-                {getButtonText('submit', culturalContext)}
+                {t('button.submit')}
               </MunicipalButton>
             </HStack>
           </Box>
@@ -51,13 +67,13 @@ export const MunicipalButtonExamples: React.FC = () => {
                 variant="municipal-secondary"
                 culturalContext={culturalContext}
               >
-                {getButtonText('cancel', culturalContext)}
+                {t('button.cancel')}
               </MunicipalButton>
               <MunicipalButton 
                 variant="municipal-secondary"
                 culturalContext={culturalContext}
               >
-                {getButtonText('back', culturalContext)}
+                {t('button.back')}
               </MunicipalButton>
             </HStack>
           </Box>
@@ -69,13 +85,13 @@ export const MunicipalButtonExamples: React.FC = () => {
                 variant="municipal-outline"
                 culturalContext={culturalContext}
               >
-                {getButtonText('help', culturalContext)}
+                {t('button.help')}
               </MunicipalButton>
               <MunicipalButton 
                 variant="municipal-outline"
                 culturalContext={culturalContext}
               >
-                {getButtonText('support', culturalContext)}
+                {t('button.support')}
               </MunicipalButton>
             </HStack>
           </Box>
@@ -111,7 +127,7 @@ export const MunicipalButtonExamples: React.FC = () => {
               'Amsterdam'
             }
           >
-            {getButtonText('start', culturalContext)}
+            {t('button.start')}
           </MunicipalButton>
         </VStack>
       </Box>
@@ -193,13 +209,13 @@ export const MunicipalButtonExamples: React.FC = () => {
                 isDisabled={false}
                 aria-label="Submit quiz answer"
               >
-                {getButtonText('submit', culturalContext)}
+                {t('button.submit')}
               </MunicipalButton>
               <MunicipalButton 
                 variant="municipal-secondary"
                 culturalContext={culturalContext}
               >
-                {getButtonText('tryAgain', culturalContext)}
+                {t('button.tryAgain')}
               </MunicipalButton>
             </HStack>
           </Box>
@@ -213,13 +229,13 @@ export const MunicipalButtonExamples: React.FC = () => {
                 culturalContext={culturalContext}
                 progressContext="section"
               >
-                {getButtonText('next', culturalContext)}
+                {t('button.next')}
               </MunicipalButton>
               <MunicipalButton 
                 variant="municipal-outline"
                 culturalContext={culturalContext}
               >
-                {getButtonText('back', culturalContext)}
+                {t('button.back')}
               </MunicipalButton>
             </HStack>
           </Box>
@@ -0,0 +1,34 @@
+/**
+ * Credential QR Code
+ * Renders a URL as a scannable SVG QR code
+ */
+
+import React, { useMemo } from 'react';
+import { createQrCode, getQrSvgPath } from '../../utils/qrCode';
+
+interface CredentialQrCodeProps {
+  value: string;
+  label: string;
+  size?: number;
+}
+
+const QUIET_ZONE = 4;
+
+export const CredentialQrCode: React.FC<CredentialQrCodeProps> = ({ value, label, size = 192 }) => {
+  const qr = useMemo(() => createQrCode(value, { errorCorrection: 'M' }), [value]);
+  const viewBoxSize = qr.size + QUIET_ZONE * 2;
+
+  return (
+    <svg
+      role="img"
+      aria-label={label}
+      width={size}
+      height={size}
+      viewBox={`0 0 ${viewBoxSize} ${viewBoxSize}`}
+      shapeRendering="crispEdges"
+    >
+      <rect width={viewBoxSize} height={viewBoxSize} fill="#FFFFFF" />
+      <path d={getQrSvgPath(qr, QUIET_ZONE)} fill="#000000" />
+    </svg>
+  );
+};
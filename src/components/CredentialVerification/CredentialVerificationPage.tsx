@@ -0,0 +1,183 @@
+/**
+ * Credential Verification Page
+ * Public page behind the QR code on issued credentials: shows whether the credential is authentic,
+ * valid and not revoked, and verifies pasted VC-JWTs from wallets or other issuers
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Button,
+  Container,
+  Flex,
+  FormControl,
+  FormLabel,
+  Heading,
+  Spinner,
+  Stack,
+  Text,
+  Textarea
+} from '@chakra-ui/react';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { MessageKey } from '../../i18n';
+import type { CredentialVerificationResult } from '../../services/verifiable-credentials';
+import { CredentialQrCode } from './CredentialQrCode';
+
+interface CredentialVerificationPageProps {
+  credentialId?: string;
+}
+
+type LoadError = 'notFound' | 'error';
+
+interface AchievementSubject {
+  name?: string;
+  achievement?: { name?: string; description?: string };
+}
+
+export const CredentialVerificationPage: React.FC<CredentialVerificationPageProps> = ({ credentialId }) => {
+  const { t } = useTranslation();
+  const [result, setResult] = useState<CredentialVerificationResult | null>(null);
+  const [loadError, setLoadError] = useState<LoadError | null>(null);
+  const [isLoading, setIsLoading] = useState(Boolean(credentialId));
+  const [pasted, setPasted] = useState('');
+
+  const applyResponse = useCallback(async (response: Response) => {
+    if (response.status === 404) {
+      setLoadError('notFound');
+      return;
+    }
+    const body = await response.json();
+    if (!response.ok || !('status' in body)) {
+      setLoadError('error');
+      return;
+    }
+    setResult(body);
+  }, []);
+
+  useEffect(() => {
+    if (!credentialId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setLoadError(null);
+
+    fetch(`/api/credentials/${encodeURIComponent(credentialId)}`)
+      .then(response => (cancelled ? undefined : applyResponse(response)))
+      .catch(() => {
+        if (!cancelled) setLoadError('error');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [credentialId, applyResponse]);
+
+  const verifyPasted = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsLoading(true);
+    setLoadError(null);
+    setResult(null);
+    try {
+      await applyResponse(await fetch('/api/credentials/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ credential: pasted.trim() })
+      }));
+    } catch {
+      setLoadError('error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const subject = result?.credential?.credentialSubject as AchievementSubject | undefined;
+  const verificationUrl = credentialId
+    ? `${window.location.origin}/verify/credential/${encodeURIComponent(credentialId)}`
+    : null;
+
+  return (
+    <Container maxW="container.md" py={8}>
+      <Stack spacing={6}>
+        <Box>
+          <Heading as="h1" size="lg">{t('credential.title')}</Heading>
+          <Text mt={2}>{t('credential.intro')}</Text>
+        </Box>
+
+        <Box aria-live="polite">
+          {isLoading && (
+            <Flex align="center" gap={3}>
+              <Spinner size="sm" />
+              <Text>{t('credential.loading')}</Text>
+            </Flex>
+          )}
+          {!isLoading && loadError && (
+            <Alert status="error">
+              <AlertIcon />
+              {t(loadError === 'notFound' ? 'credential.notFound' : 'credential.error')}
+            </Alert>
+          )}
+          {!isLoading && result && (
+            <Alert status={result.valid ? 'success' : 'error'}>
+              <AlertIcon />
+              {t(`credential.status.${result.status}` as MessageKey)}
+            </Alert>
+          )}
+        </Box>
+
+        {result?.credential && (
+          <Box as="dl" borderWidth="1px" borderRadius="md" p={4}>
+            {subject?.name && (
+              <>
+                <Text as="dt" fontWeight="bold">{t('credential.holder')}</Text>
+                <Text as="dd" mb={3}>{subject.name}</Text>
+              </>
+            )}
+            {subject?.achievement?.name && (
+              <>
+                <Text as="dt" fontWeight="bold">{t('credential.achievement')}</Text>
+                <Text as="dd" mb={3}>
+                  {subject.achievement.name}
+                  {subject.achievement.description && <Text as="span" display="block" color="gray.600">{subject.achievement.description}</Text>}
+                </Text>
+              </>
+            )}
+            <Text as="dt" fontWeight="bold">{t('credential.issuer')}</Text>
+            <Text as="dd" mb={3}>{result.credential.issuer.name ?? result.credential.issuer.id}</Text>
+            <Text as="dd">{t('credential.issued', { date: new Date(result.credential.issuanceDate) })}</Text>
+            {result.credential.expirationDate && (
+              <Text as="dd">{t('credential.expires', { date: new Date(result.credential.expirationDate) })}</Text>
+            )}
+          </Box>
+        )}
+
+        {verificationUrl && !loadError && (
+          <Flex direction="column" align="center" gap={2}>
+            <CredentialQrCode value={verificationUrl} label={t('credential.qrLabel')} />
+            <Text fontSize="sm" color="gray.600">{t('credential.qrHint')}</Text>
+          </Flex>
+        )}
+
+        <Box as="form" onSubmit={verifyPasted}>
+          <FormControl>
+            <FormLabel htmlFor="credential-jwt">{t('credential.pasteLabel')}</FormLabel>
+            <Textarea
+              id="credential-jwt"
+              value={pasted}
+              onChange={event => setPasted(event.target.value)}
+              fontFamily="mono"
+              fontSize="sm"
+              rows={4}
+            />
+          </FormControl>
+          <Button type="submit" mt={3} colorScheme="blue" isDisabled={!pasted.trim() || isLoading}>
+            {t('credential.verify')}
+          </Button>
+        </Box>
+      </Stack>
+    </Container>
+  );
+};
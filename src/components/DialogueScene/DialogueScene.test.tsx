@@ -485,7 +485,7 @@ describe('DialogueScene Component Tests', () => {
       );
 
       // Check for aria-live region (it exists but may not have role="status")
-      const liveRegion = screen.getByText('Dialogue turn 1 of 4. 25% complete.');
+      const liveRegion = screen.getByText('Dialogrunda 1 av 4. 25% klart.');
       expect(liveRegion).toBeInTheDocument();
     });
 
@@ -14,9 +14,10 @@ import {
 import { motion } from 'framer-motion';
 import { processDialogueSceneWithPlayerName } from '../../utils/playerNameReplacement';
 import { MunicipalButton } from '../Button';
-import { getButtonText } from '../../theme/municipalButtonTheme';
+import { useTranslation } from '../../hooks/useTranslation';
 import { MunicipalEmotionType, getEmotionVisualization, getCulturalEmotionVariant, mapLegacyEmotion } from '../../types/character-emotions';
 import { MunicipalArchetypeId, getArchetypeById, getCulturalArchetypeVariant } from '../../types/character-archetypes';
+import type { DialogueChoice } from '../../types/game-manifest';
 import CharacterRelationshipManager, { RelationshipType, InteractionType } from '../../services/character-relationship-manager';
 
 // Enhanced DevTeam JSON Schema Types with Character System Support
@@ -33,7 +34,14 @@ interface DialogueTurn {
   municipalContext?: string;
 }
 
-interface DialogueSceneData {
+export interface DialogueChoiceResult {
+  choiceId: string;
+  choiceText: string;
+  nextScene?: string;
+  points: number;
+}
+
+export interface DialogueSceneData {
   scene_id: string;
   scene_type: 'DialogueScene';
   title: string;
@@ -67,11 +75,13 @@ interface DialogueSceneData {
     service_area: string;
     stakeholders: string[];
   };
+  // Player choices shown after the last turn
+  choices?: DialogueChoice[];
 }
 
 interface DialogueSceneProps {
   sceneData: DialogueSceneData;
-  onComplete: () => void;
+  onComplete: (choice?: DialogueChoiceResult) => void;
   municipalBranding?: {
     primaryColor: string;
     logoUrl: string;
@@ -215,6 +225,7 @@ export const DialogueScene: React.FC<DialogueSceneProps> = ({
   const [currentTurnIndex, setCurrentTurnIndex] = useState(0);
   const [isAnimating, setIsAnimating] = useState(false);
   const theme = useTheme();
+  const { t } = useTranslation();
   const culturalStyles = getCulturalStyles(culturalContext, theme);
   
   // Municipal branding colors with fallback
@@ -236,10 +247,13 @@ export const DialogueScene: React.FC<DialogueSceneProps> = ({
   // Safety checks for undefined data
   const dialogueTurns = processedSceneData.dialogue_turns || [];
   const characters = processedSceneData.characters || [];
+  const choices: DialogueChoice[] = processedSceneData.choices || [];
   
   const currentTurn = dialogueTurns[currentTurnIndex];
   const character = characters.find((c: any) => c.character_id === currentTurn?.character_id);
   const progress = dialogueTurns.length > 0 ? ((currentTurnIndex + 1) / dialogueTurns.length) * 100 : 0;
+  // The scene can only be left through one of the choices once the last turn is shown
+  const awaitingChoice = choices.length > 0 && currentTurnIndex >= dialogueTurns.length - 1;
 
   // Character system enhancements
   const currentEmotion = useMemo(() => {
@@ -274,7 +288,7 @@ export const DialogueScene: React.FC<DialogueSceneProps> = ({
   }, [currentTurnIndex]);
 
   const handleNextTurn = () => {
-    if (isAnimating) return;
+    if (isAnimating || awaitingChoice) return;
     
     setIsAnimating(true);
 
@@ -307,6 +321,21 @@ export const DialogueScene: React.FC<DialogueSceneProps> = ({
     }
   };
 
+  const handleChoice = (choice: DialogueChoice) => {
+    if (isAnimating) return;
+
+    setIsAnimating(true);
+    setTimeout(() => {
+      onComplete({
+        choiceId: choice.id,
+        choiceText: choice.text,
+        nextScene: choice.nextScene,
+        points: choice.points || 0
+      });
+      setIsAnimating(false);
+    }, 300);
+  };
+
   // Helper function to determine interaction outcome based on emotions
   const determineInteractionOutcome = (
     emotion1: MunicipalEmotionType, 
@@ -328,14 +357,18 @@ export const DialogueScene: React.FC<DialogueSceneProps> = ({
 
   // Accessibility: Screen reader announcements
   const announceProgress = () => {
-    return `Dialogue turn ${currentTurnIndex + 1} of ${dialogueTurns.length}. ${Math.round(progress)}% complete.`;
+    return t('dialogue.progressAnnouncement', {
+      current: currentTurnIndex + 1,
+      total: dialogueTurns.length,
+      percent: Math.round(progress)
+    });
   };
 
   // Early return if no data
   if (!dialogueTurns.length) {
     return (
       <Box p={6} textAlign="center">
-        <Text color="red.500">Ingen dialogdata tillgänglig</Text>
+        <Text color="red.500">{t('dialogue.noData')}</Text>
       </Box>
     );
   }
@@ -360,7 +393,7 @@ export const DialogueScene: React.FC<DialogueSceneProps> = ({
             <Box w="40px" h="40px">
               <img 
                 src={municipalBranding.logoUrl} 
-                alt={`${municipalBranding.municipality} logotyp`}
+                alt={t('common.logoAlt', { municipality: municipalBranding.municipality })}
                 style={{ width: '100%', height: '100%', objectFit: 'contain' }}
               />
             </Box>
@@ -491,24 +524,40 @@ export const DialogueScene: React.FC<DialogueSceneProps> = ({
         )}
 
         {/* Navigation controls */}
-        <HStack justify="center" mt={8}>
-          <MunicipalButton
-            onClick={handleNextTurn}
-            variant="municipal-primary"
-            culturalContext={culturalContext}
-            municipalEntity={municipalBranding?.municipality}
-            isLoading={isAnimating}
-            loadingText="Nästa..."
-            aria-label={`Nästa dialogrunda. ${announceProgress()}`}
-          >
-            {currentTurnIndex < dialogueTurns.length - 1 ? getButtonText('next', culturalContext) : getButtonText('finish', culturalContext)}
-          </MunicipalButton>
-        </HStack>
+        {awaitingChoice ? (
+          <VStack role="group" aria-label={t('dialogue.chooseAnswer')} spacing={3} mt={8} align="stretch">
+            {choices.map(choice => (
+              <MunicipalButton
+                key={choice.id}
+                onClick={() => handleChoice(choice)}
+                variant="municipal-secondary"
+                culturalContext={culturalContext}
+                municipalEntity={municipalBranding?.municipality}
+              >
+                {choice.text}
+              </MunicipalButton>
+            ))}
+          </VStack>
+        ) : (
+          <HStack justify="center" mt={8}>
+            <MunicipalButton
+              onClick={handleNextTurn}
+              variant="municipal-primary"
+              culturalContext={culturalContext}
+              municipalEntity={municipalBranding?.municipality}
+              isLoading={isAnimating}
+              loadingText={t('common.loadingNext')}
+              aria-label={t('dialogue.nextTurnLabel', { progress: announceProgress() })}
+            >
+              {currentTurnIndex < dialogueTurns.length - 1 ? t('button.next') : t('button.finish')}
+            </MunicipalButton>
+          </HStack>
+        )}
 
         {/* Learning objectives footer */}
         <Box mt={8} p={4} bg={useColorModeValue('gray.100', 'gray.800')} borderRadius="md">
           <Text fontSize="sm" fontWeight="medium" mb={2} color={textColor}>
-            Läringsmål:
+            {t('dialogue.learningObjectives')}
           </Text>
           <VStack align="start" spacing={1}>
             {(processedSceneData.learning_objectives || []).map((objective: any, index: number) => (
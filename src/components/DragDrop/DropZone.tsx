@@ -60,6 +60,14 @@ export const DropZone: React.FC<DropZoneProps> = ({
     }
   };
 
+  // Draggable uses mouse events rather than native drag events
+  const handleMouseUp = () => {
+    if (canAccept && !isDisabled) {
+      onDrop(draggedItem);
+      setIsOver(false);
+    }
+  };
+
   // Handle touch events for mobile
   useEffect(() => {
     if (!elementRef.current || !draggedItem) return;
@@ -102,6 +110,7 @@ export const DropZone: React.FC<DropZoneProps> = ({
       onDragOver={handleDragOver}
       onDragLeave={handleDragLeave}
       onDrop={handleDrop}
+      onMouseUp={handleMouseUp}
       position="relative"
       minH="100px"
       borderWidth={showDropIndicator ? 2 : 0}
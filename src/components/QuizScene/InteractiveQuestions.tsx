@@ -0,0 +1,254 @@
+/**
+ * Interactive Quiz Questions
+ * Inputs for the question types answered against an answer key: free text, numeric, ordering,
+ * matching and image hotspots. Every type can be answered with the keyboard alone; ordering uses
+ * move buttons instead of dragging and hotspot regions are focusable buttons over the image.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Input,
+  InputGroup,
+  InputRightAddon,
+  Select,
+  FormControl,
+  FormLabel,
+  IconButton,
+  Image
+} from '@chakra-ui/react';
+import { ChevronDownIcon, ChevronUpIcon } from '@chakra-ui/icons';
+import type { MatchingPair } from '../../types/game-manifest';
+import { createSeededRandom, shuffleWithRandom } from '../../utils/questionPools';
+import {
+  findHotspotRegion,
+  getInitialOrder,
+  getRegionBounds,
+  type InteractiveAnswerType,
+  type QuestionAnswerKey,
+  type QuestionResponse
+} from '../../utils/questionScoring';
+import { useTranslation } from '../../hooks/useTranslation';
+
+interface InteractiveQuestionProps {
+  questionId: string;
+  answerType: InteractiveAnswerType;
+  answerKey: QuestionAnswerKey;
+  response: QuestionResponse | undefined;
+  onChange: (response: QuestionResponse) => void;
+  describedBy: string; // Id of the question text
+}
+
+const FreeTextQuestion: React.FC<InteractiveQuestionProps> = ({ questionId, answerType, answerKey, response, onChange, describedBy }) => {
+  const { t } = useTranslation();
+  const text = response?.type === 'free_text' || response?.type === 'numeric' ? response.text : '';
+  const isNumeric = answerType === 'numeric';
+  const unit = answerKey.numeric?.unit;
+
+  const input = (
+    <Input
+      id={`answer-${questionId}`}
+      value={text}
+      onChange={event => onChange(isNumeric
+        ? { type: 'numeric', text: event.target.value }
+        : { type: 'free_text', text: event.target.value })}
+      inputMode={isNumeric ? 'decimal' : 'text'}
+      autoComplete="off"
+      size="lg"
+      aria-describedby={describedBy}
+    />
+  );
+
+  return (
+    <FormControl>
+      <FormLabel htmlFor={`answer-${questionId}`}>
+        {isNumeric ? t('quiz.numericLabel') : t('quiz.freeTextLabel')}
+      </FormLabel>
+      {unit ? (
+        <InputGroup size="lg">
+          {input}
+          <InputRightAddon>{unit}</InputRightAddon>
+        </InputGroup>
+      ) : input}
+    </FormControl>
+  );
+};
+
+const OrderingQuestion: React.FC<InteractiveQuestionProps> = ({ questionId, answerKey, response, onChange, describedBy }) => {
+  const { t } = useTranslation();
+  const items = useMemo(() => answerKey.items ?? [], [answerKey.items]);
+  const order = response?.type === 'ordering' ? response.itemIds : getInitialOrder(questionId, items);
+  const [announcement, setAnnouncement] = useState('');
+  const [focusTarget, setFocusTarget] = useState<string | null>(null);
+  const buttons = useRef<Record<string, HTMLButtonElement | null>>({});
+
+  // Keep focus on the moved item's button, which React re-renders at the new position
+  useEffect(() => {
+    if (!focusTarget) return;
+    buttons.current[focusTarget]?.focus();
+    setFocusTarget(null);
+  }, [focusTarget]);
+
+  const textOf = (id: string) => items.find(item => item.id === id)?.text ?? id;
+
+  const move = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+    const next = [...order];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange({ type: 'ordering', itemIds: next });
+
+    const id = order[index];
+    const edge = offset === -1 ? target === 0 : target === order.length - 1;
+    // At the first or last place the pressed button is disabled, so focus its sibling
+    setFocusTarget(`${id}:${offset === -1 ? (edge ? 'down' : 'up') : (edge ? 'up' : 'down')}`);
+    setAnnouncement(t('quiz.itemMoved', { item: textOf(id), position: target + 1, total: order.length }));
+  };
+
+  return (
+    <VStack align="stretch" spacing={2} w="100%">
+      <Text id={`ordering-${questionId}`} fontSize="sm" color="gray.600">
+        {t('quiz.orderingInstructions')}
+      </Text>
+      <VStack as="ol" align="stretch" spacing={2} listStyleType="none" aria-labelledby={`ordering-${questionId}`} aria-describedby={describedBy}>
+        {order.map((id, index) => (
+          <HStack as="li" key={id} minH="48px" p={2} borderWidth="1px" borderRadius="md" justify="space-between">
+            <HStack spacing={3}>
+              <Text fontSize="sm" color="gray.500" aria-hidden="true">{index + 1}.</Text>
+              <Text>{textOf(id)}</Text>
+            </HStack>
+            <HStack spacing={1}>
+              <IconButton
+                ref={element => { buttons.current[`${id}:up`] = element; }}
+                icon={<ChevronUpIcon />}
+                aria-label={t('quiz.moveUp', { item: textOf(id) })}
+                size="sm"
+                variant="ghost"
+                isDisabled={index === 0}
+                onClick={() => move(index, -1)}
+              />
+              <IconButton
+                ref={element => { buttons.current[`${id}:down`] = element; }}
+                icon={<ChevronDownIcon />}
+                aria-label={t('quiz.moveDown', { item: textOf(id) })}
+                size="sm"
+                variant="ghost"
+                isDisabled={index === order.length - 1}
+                onClick={() => move(index, 1)}
+              />
+            </HStack>
+          </HStack>
+        ))}
+      </VStack>
+      <Box srOnly aria-live="polite">{announcement}</Box>
+    </VStack>
+  );
+};
+
+const MatchingQuestion: React.FC<InteractiveQuestionProps> = ({ questionId, answerKey, response, onChange, describedBy }) => {
+  const { t } = useTranslation();
+  const matches = response?.type === 'matching' ? response.matches : {};
+  const pairs = useMemo(() => answerKey.pairs ?? [], [answerKey.pairs]);
+  const choices = useMemo<MatchingPair[]>(
+    () => shuffleWithRandom(pairs, createSeededRandom(`${questionId}:matches`)),
+    [pairs, questionId]
+  );
+
+  return (
+    <VStack align="stretch" spacing={3} w="100%" aria-describedby={describedBy}>
+      <Text fontSize="sm" color="gray.600">{t('quiz.matchingInstructions')}</Text>
+      {pairs.map(pair => (
+        <FormControl key={pair.id}>
+          <FormLabel htmlFor={`match-${questionId}-${pair.id}`}>{pair.text}</FormLabel>
+          <Select
+            id={`match-${questionId}-${pair.id}`}
+            placeholder={t('quiz.matchPlaceholder')}
+            value={matches[pair.id] ?? ''}
+            onChange={event => onChange({ type: 'matching', matches: { ...matches, [pair.id]: event.target.value } })}
+            size="lg"
+          >
+            {choices.map(choice => (
+              <option key={choice.id} value={choice.id}>{choice.match}</option>
+            ))}
+          </Select>
+        </FormControl>
+      ))}
+    </VStack>
+  );
+};
+
+const HotspotQuestion: React.FC<InteractiveQuestionProps> = ({ answerKey, response, onChange, describedBy }) => {
+  const { t } = useTranslation();
+  const hotspot = answerKey.hotspot;
+  if (!hotspot) return null;
+
+  const selected = response?.type === 'hotspot' ? response : undefined;
+  const selectedRegion = hotspot.regions.find(region => region.id === selected?.regionId);
+
+  // Pointer answers are hit tested against the exact shapes; the region buttons only take keyboard focus
+  const handleImageClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    if (!bounds.width || !bounds.height) return;
+    const x = ((event.clientX - bounds.left) / bounds.width) * 100;
+    const y = ((event.clientY - bounds.top) / bounds.height) * 100;
+    const region = findHotspotRegion(hotspot.regions, x, y, bounds.width / bounds.height);
+    onChange({ type: 'hotspot', regionId: region?.id ?? null });
+  };
+
+  return (
+    <VStack align="stretch" spacing={2} w="100%">
+      <Text fontSize="sm" color="gray.600">{t('quiz.hotspotInstructions')}</Text>
+      <Box position="relative" cursor="crosshair" onClick={handleImageClick}>
+        <Image src={hotspot.url} alt={hotspot.alt} w="100%" borderRadius="md" />
+        {hotspot.regions.map(region => {
+          const bounds = getRegionBounds(region);
+          const isSelected = region.id === selectedRegion?.id;
+          return (
+            <Box
+              as="button"
+              type="button"
+              key={region.id}
+              aria-label={region.label}
+              aria-pressed={isSelected}
+              aria-describedby={describedBy}
+              position="absolute"
+              left={`${bounds.left}%`}
+              top={`${bounds.top}%`}
+              width={`${bounds.width}%`}
+              height={`${bounds.height}%`}
+              borderRadius={region.shape === 'circle' ? 'full' : 'sm'}
+              pointerEvents="none"
+              borderWidth={isSelected ? '3px' : 0}
+              borderColor="blue.500"
+              _focusVisible={{ outline: '3px solid', outlineColor: 'blue.500', outlineOffset: '2px' }}
+              onClick={(event: React.MouseEvent) => {
+                event.stopPropagation();
+                onChange({ type: 'hotspot', regionId: region.id });
+              }}
+            />
+          );
+        })}
+      </Box>
+      <Text fontSize="sm" aria-live="polite">
+        {selected && (selectedRegion ? t('quiz.hotspotSelected', { region: selectedRegion.label }) : t('quiz.hotspotMissed'))}
+      </Text>
+    </VStack>
+  );
+};
+
+export const InteractiveQuestion: React.FC<InteractiveQuestionProps> = props => {
+  switch (props.answerType) {
+    case 'free_text':
+    case 'numeric':
+      return <FreeTextQuestion {...props} />;
+    case 'ordering':
+      return <OrderingQuestion {...props} />;
+    case 'matching':
+      return <MatchingQuestion {...props} />;
+    case 'hotspot':
+      return <HotspotQuestion {...props} />;
+  }
+};
@@ -537,6 +537,8 @@ describe('QuizScene Component Tests', () => {
           totalQuestions: 3,
           correctAnswers: 3,
           score: 100,
+          earnedPoints: 35,
+          totalPoints: 35,
           passed: true,
           timeSpent: expect.any(Number),
           answers: expect.arrayContaining([
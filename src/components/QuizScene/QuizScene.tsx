@@ -19,7 +19,18 @@ import {
 import { motion, AnimatePresence } from 'framer-motion';
 import { processQuizSceneWithPlayerName } from '../../utils/playerNameReplacement';
 import { MunicipalButton } from '../Button';
-import { getButtonText } from '../../theme/municipalButtonTheme';
+import { useTranslation } from '../../hooks/useTranslation';
+import { InteractiveQuestion } from './InteractiveQuestions';
+import {
+  describeResponse,
+  getDefaultResponse,
+  isInteractiveAnswerType,
+  isResponseComplete,
+  scoreResponse,
+  type QuestionAnswerKey,
+  type QuestionResponse,
+  type QuestionScore
+} from '../../utils/questionScoring';
 
 // DevTeam JSON Schema Types (from System Architect analysis)
 interface QuizOption {
@@ -31,15 +42,17 @@ interface QuizOption {
 
 interface QuizQuestion {
   question_id: string;
-  question_type: 'multiple_choice' | 'true_false' | 'multiple_select';
+  question_type: 'multiple_choice' | 'true_false' | 'multiple_select'
+    | 'free_text' | 'numeric' | 'ordering' | 'matching' | 'hotspot';
   question_text: string;
-  options: QuizOption[];
+  options: QuizOption[]; // Empty for question types answered against answer_key
+  answer_key?: QuestionAnswerKey;
   explanation: string;
   learning_objective: string;
   points: number;
 }
 
-interface QuizSceneData {
+export interface QuizSceneData {
   scene_id: string;
   scene_type: 'QuizScene';
   title: string;
@@ -66,6 +79,8 @@ interface QuizResults {
   totalQuestions: number;
   correctAnswers: number;
   score: number; // percentage
+  earnedPoints: number;
+  totalPoints: number;
   passed: boolean;
   timeSpent: number; // seconds
   answers: {
@@ -121,11 +136,13 @@ export const QuizScene: React.FC<QuizSceneProps> = ({
 }) => {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<Record<string, string[]>>({});
+  const [responses, setResponses] = useState<Record<string, QuestionResponse>>({});
   const [showFeedback, setShowFeedback] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [startTime] = useState(Date.now());
   
   const theme = useTheme();
+  const { t } = useTranslation();
   const culturalStyles = getCulturalQuizStyles(culturalContext, theme);
   const primaryColor = municipalBranding?.primaryColor || culturalStyles.colors[500];
   const bgColor = useColorModeValue('white', 'gray.800');
@@ -140,6 +157,29 @@ export const QuizScene: React.FC<QuizSceneProps> = ({
     return options.every(option => getOptionText(option).trim().length > 0);
   };
 
+  // Free text, numeric, ordering, matching and hotspot questions are scored against their answer key
+  const getResponse = (question: QuizQuestion): QuestionResponse | undefined =>
+    isInteractiveAnswerType(question.question_type)
+      ? responses[question.question_id] ?? getDefaultResponse(question.question_id, question.question_type, question.answer_key ?? {})
+      : undefined;
+
+  const scoreQuestion = (question: QuizQuestion): QuestionScore => {
+    const response = getResponse(question);
+    if (isInteractiveAnswerType(question.question_type)) {
+      return response ? scoreResponse(question.answer_key ?? {}, response) : { credit: 0, correct: false };
+    }
+    const selectedAnswers = answers[question.question_id] || [];
+    const correctOptions = question.options.filter(opt => opt.is_correct).map(opt => opt.option_id);
+    const correct = selectedAnswers.length === correctOptions.length &&
+      selectedAnswers.every(id => correctOptions.includes(id));
+    return { credit: correct ? 1 : 0, correct };
+  };
+
+  const isAnswered = (question: QuizQuestion): boolean =>
+    isInteractiveAnswerType(question.question_type)
+      ? isResponseComplete(question.answer_key ?? {}, getResponse(question))
+      : answers[question.question_id]?.length > 0;
+
   // Process scene data with player name replacement
   const processedSceneData = useMemo(() => {
     return playerName ? processQuizSceneWithPlayerName(sceneData, playerName) : sceneData;
@@ -159,13 +199,21 @@ export const QuizScene: React.FC<QuizSceneProps> = ({
     console.error('QuizScene: Missing option text in question', currentQuestion.question_id);
   }
 
+  const isInteractive = isInteractiveAnswerType(currentQuestion.question_type);
+
   // Keyboard shortcuts (Game Designer requirement: 1-9 for quick selection)
+  // Subscribed again after every render, so the handler always acts on the current question and answers
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
       const key = e.key;
+      // Typing answers, moving items and picking regions keep their own keys
+      const target = e.target as HTMLElement | null;
+      if (isInteractive && target && ['BUTTON', 'SELECT', 'TEXTAREA'].includes(target.tagName)) {
+        return;
+      }
       
       // Number keys 1-9 for quick option selection
-      if (/^[1-9]$/.test(key)) {
+      if (!isInteractive && /^[1-9]$/.test(key)) {
         e.preventDefault();
         const optionIndex = parseInt(key) - 1;
         if (optionIndex < currentQuestion.options.length) {
@@ -179,7 +227,7 @@ export const QuizScene: React.FC<QuizSceneProps> = ({
         e.preventDefault();
         if (showFeedback) {
           handleNext();
-        } else if (answers[currentQuestion.question_id]?.length > 0) {
+        } else if (isAnswered(currentQuestion)) {
           handleSubmitAnswer();
         }
       }
@@ -187,7 +235,7 @@ export const QuizScene: React.FC<QuizSceneProps> = ({
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [currentQuestion, answers, showFeedback]);
+  });
 
   const handleAnswerChange = (optionId: string) => {
     const questionId = currentQuestion.question_id;
@@ -238,17 +286,15 @@ export const QuizScene: React.FC<QuizSceneProps> = ({
 
   const calculateResults = (): QuizResults => {
     const questionResults = sceneData.questions.map(question => {
-      const selectedAnswers = answers[question.question_id] || [];
-      const correctOptions = question.options.filter(opt => opt.is_correct).map(opt => opt.option_id);
-      
-      const isCorrect = selectedAnswers.length === correctOptions.length &&
-        selectedAnswers.every(id => correctOptions.includes(id));
+      const response = getResponse(question);
+      const { credit, correct } = scoreQuestion(question);
       
       return {
         question_id: question.question_id,
-        selected_answers: selectedAnswers,
-        is_correct: isCorrect,
-        points_earned: isCorrect ? question.points : 0
+        selected_answers: response ? describeResponse(response) : answers[question.question_id] || [],
+        is_correct: correct,
+        // Ordering and matching questions earn part of their points for partly right answers
+        points_earned: question.points * credit
       };
     });
 
@@ -262,24 +308,43 @@ export const QuizScene: React.FC<QuizSceneProps> = ({
       totalQuestions: sceneData.questions.length,
       correctAnswers,
       score,
+      earnedPoints,
+      totalPoints,
       passed: score >= sceneData.passing_score,
       timeSpent,
       answers: questionResults
     };
   };
 
-  const isAnswerCorrect = () => {
-    const selectedAnswers = answers[currentQuestion.question_id] || [];
-    const correctOptions = currentQuestion.options.filter(opt => opt.is_correct).map(opt => opt.option_id);
-    
-    return selectedAnswers.length === correctOptions.length &&
-      selectedAnswers.every(id => correctOptions.includes(id));
+  const isAnswerCorrect = () => scoreQuestion(currentQuestion).correct;
+
+  const getFeedbackText = () => {
+    const { credit, correct } = scoreQuestion(currentQuestion);
+    if (correct) return t('quiz.correct');
+    return credit > 0 ? t('quiz.partiallyCorrect', { credit }) : t('quiz.incorrect');
   };
 
   const renderQuestionContent = () => {
     const selectedAnswers = answers[currentQuestion.question_id] || [];
 
     switch (currentQuestion.question_type) {
+      case 'free_text':
+      case 'numeric':
+      case 'ordering':
+      case 'matching':
+      case 'hotspot':
+        return (
+          <InteractiveQuestion
+            key={currentQuestion.question_id}
+            questionId={currentQuestion.question_id}
+            answerType={currentQuestion.question_type}
+            answerKey={currentQuestion.answer_key ?? {}}
+            response={getResponse(currentQuestion)}
+            onChange={response => setResponses(prev => ({ ...prev, [currentQuestion.question_id]: response }))}
+            describedBy={`question-${currentQuestion.question_id}`}
+          />
+        );
+
       case 'multiple_choice':
       case 'true_false':
         return (
@@ -349,7 +414,7 @@ export const QuizScene: React.FC<QuizSceneProps> = ({
         );
 
       default:
-        return <Text>Okänd frågetype</Text>;
+        return <Text>{t('quiz.unknownQuestionType')}</Text>;
     }
   };
 
@@ -372,7 +437,7 @@ export const QuizScene: React.FC<QuizSceneProps> = ({
             <Box w="40px" h="40px">
               <img 
                 src={municipalBranding.logoUrl} 
-                alt={`${municipalBranding.municipality} logotyp`}
+                alt={t('common.logoAlt', { municipality: municipalBranding.municipality })}
                 style={{ width: '100%', height: '100%', objectFit: 'contain' }}
               />
             </Box>
@@ -389,7 +454,7 @@ export const QuizScene: React.FC<QuizSceneProps> = ({
           w="100%"
           h="8px"
           borderRadius="full"
-          aria-label={`Fråga ${currentQuestionIndex + 1} av ${sceneData.questions.length}`}
+          aria-label={t('common.questionProgress', { current: currentQuestionIndex + 1, total: sceneData.questions.length })}
         />
         <HStack justify="space-between" w="100%">
           <Text fontSize="sm" color="gray.600">
@@ -414,6 +479,7 @@ export const QuizScene: React.FC<QuizSceneProps> = ({
             <CardBody>
               <VStack align="start" spacing={4}>
                 <Text 
+                  id={`question-${currentQuestion.question_id}`}
                   fontSize={isMobile ? "lg" : "xl"} 
                   fontWeight="semibold"
                   lineHeight="tall"
@@ -426,10 +492,10 @@ export const QuizScene: React.FC<QuizSceneProps> = ({
                     <AlertIcon />
                     <VStack align="start" spacing={2}>
                       <Text fontWeight="medium">
-                        Fel i frågans svarsalternativ
+                        {t('quiz.invalidOptionsTitle')}
                       </Text>
                       <Text fontSize="sm">
-                        Ett eller flera svarsalternativ saknar text. Kontakta support.
+                        {t('quiz.invalidOptionsHelp')}
                       </Text>
                     </VStack>
                   </Alert>
@@ -448,14 +514,14 @@ export const QuizScene: React.FC<QuizSceneProps> = ({
           transition={{ duration: 0.3 }}
         >
           <Alert 
-            status={isAnswerCorrect() ? "success" : "error"}
+            status={isAnswerCorrect() ? "success" : scoreQuestion(currentQuestion).credit > 0 ? "warning" : "error"}
             mb={6}
             borderRadius="md"
           >
             <AlertIcon />
             <VStack align="start" spacing={2}>
               <Text fontWeight="medium">
-                {isAnswerCorrect() ? "Rätt svar!" : "Fel svar"}
+                {getFeedbackText()}
               </Text>
               <Text fontSize="sm">
                 {currentQuestion.explanation}
@@ -473,10 +539,10 @@ export const QuizScene: React.FC<QuizSceneProps> = ({
             variant="municipal-primary"
             culturalContext={culturalContext}
             municipalEntity={municipalBranding?.municipality}
-            isDisabled={!answers[currentQuestion.question_id]?.length || !hasValidOptions}
-            aria-label="Svara på frågan"
+            isDisabled={!isAnswered(currentQuestion) || !hasValidOptions}
+            aria-label={t('quiz.submitLabel')}
           >
-            {getButtonText('submit', culturalContext)}
+            {t('button.submit')}
           </MunicipalButton>
         ) : (
           <MunicipalButton
@@ -485,9 +551,9 @@ export const QuizScene: React.FC<QuizSceneProps> = ({
             culturalContext={culturalContext}
             municipalEntity={municipalBranding?.municipality}
             isLoading={isSubmitting}
-            loadingText={isLastQuestion ? "Slutför..." : "Nästa..."}
+            loadingText={isLastQuestion ? t('common.loadingFinish') : t('common.loadingNext')}
           >
-            {isLastQuestion ? getButtonText('finish', culturalContext) : getButtonText('next', culturalContext)}
+            {isLastQuestion ? t('button.finish') : t('button.next')}
           </MunicipalButton>
         )}
       </HStack>
@@ -495,15 +561,17 @@ export const QuizScene: React.FC<QuizSceneProps> = ({
       {/* Keyboard shortcuts help */}
       <Box mt={6} p={3} bg="gray.50" borderRadius="md" fontSize="xs" color="gray.600">
         <Text>
-          💡 Tangentbordsgenvägar: Tryck 1-{currentQuestion.options.length} för att välja, Enter för att svara/fortsätta
+          {isInteractive
+            ? t('quiz.enterShortcut')
+            : t('quiz.keyboardShortcuts', { optionCount: currentQuestion.options.length })}
         </Text>
       </Box>
 
       {/* Accessibility helpers */}
       <Box srOnly>
         <div aria-live="polite" aria-atomic="true">
-          Fråga {currentQuestionIndex + 1} av {sceneData.questions.length}. 
-          {showFeedback && (isAnswerCorrect() ? "Rätt svar!" : "Fel svar")}
+          {t('common.questionProgress', { current: currentQuestionIndex + 1, total: sceneData.questions.length })}. 
+          {showFeedback && getFeedbackText()}
         </div>
       </Box>
     </Box>
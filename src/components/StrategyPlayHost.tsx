@@ -1,13 +1,27 @@
 import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import { Box, Progress, VStack, Alert } from '@chakra-ui/react';
-import type { GameManifest } from '../types/game-manifest';
+import type {
+  GameManifest,
+  GameVariableValue,
+  DialogueScene as DialogueSceneType,
+  MultilingualGameManifest
+} from '../types/game-manifest';
 import { InfoIcon } from './icons/GameIcons';
 import { SkipLinks, SkipLink } from './common/SkipLink';
+import { SyncStatusIndicator } from './common/SyncStatusIndicator';
 import { useFocusManagement } from '../hooks/useFocusManagement';
 import { usePerformanceTracker } from '../hooks/usePerformanceTracker';
+import { useSessionSyncStatus } from '../hooks/useSessionSyncStatus';
+import { I18nProvider } from '../contexts/I18nContext';
+import { useTranslation } from '../hooks/useTranslation';
+import { useOptionalAuth } from '../contexts/AuthContext';
+import { downloadCertificate } from '../services/certificate-download';
+import { useAccessibility } from '../hooks/useAccessibility';
+import { getBrowserLanguages } from '../i18n';
 import { SceneTransition } from './animations/SceneTransition';
 // TASK-HD-014: Replaced intrusive celebrations with municipal achievement system
 import { MunicipalToastNotification } from './notifications/MunicipalToastNotification';
+import { AccessibilitySettingsPanel } from './accessibility/AccessibilitySettingsPanel';
 import { MunicipalProgressIndicator, DefaultGDPRMilestones, getLocalizedMilestones } from './progress/MunicipalProgressIndicator';
 import { useAnnaSvenssonAchievements } from '../hooks/useMunicipalAchievements';
 import { ChakraThemeProvider } from '../theme/ChakraThemeProvider';
@@ -17,8 +31,24 @@ import { QuizScene } from './QuizScene/QuizScene';
 import { AssessmentScene } from './scenes/AssessmentScene';
 import { ResourceScene } from './scenes/ResourceScene';
 import { SummaryScene } from './scenes/SummaryScene';
+import { NarrativeScene } from './scenes/NarrativeScene';
+import { TimedChallengeScene } from './scenes/TimedChallengeScene';
+import { DragDropSortScene } from './scenes/DragDropSortScene';
+import { WorkflowScene } from './scenes/WorkflowScene';
 import { GameErrorBoundary } from './ErrorBoundary';
 import { performanceAnalytics } from '../services/performance-analytics';
+import { gameStateManager, type GameState as RecordedGameState } from '../services/game-state-manager';
+import type { XAPIStatementEmitter } from '../services/xapi-statement-emitter';
+import type { AssessmentResult } from '../utils/assessmentScoring';
+import { loadGameManifest, ManifestSchemaError, toDialogueSceneData, toQuizSceneData } from '../utils/manifestLoader';
+import { renderTemplatesInObject, type TemplateValues } from '../utils/templateEngine';
+import { createQuizSeed, drawQuizQuestions, type QuizDraw } from '../utils/questionPools';
+import {
+  applyVariableEffects,
+  collectSceneEffects,
+  getInitialVariables,
+  resolveNextScene
+} from '../utils/conditionalNavigation';
 
 export interface GameResults {
   gameId: string;
@@ -28,6 +58,12 @@ export interface GameResults {
   timeSpent: number; // milliseconds
   scenesCompleted: string[];
   answers?: Record<string, any>;
+  // Scored assessment outcomes per assessment scene ID
+  assessments?: Record<string, AssessmentResult>;
+  // Final values of the manifest variables
+  variables?: Record<string, GameVariableValue>;
+  // Questions and option order drawn for each attempt of a pooled quiz, per scene ID
+  quizDraws?: Record<string, QuizDraw[]>;
   // TASK-HD-014: Municipal achievement system results
   municipalAchievements?: {
     earned: any[];
@@ -37,30 +73,128 @@ export interface GameResults {
 }
 
 interface StrategyPlayHostProps {
-  gameManifest: GameManifest;
+  gameManifest: GameManifest | MultilingualGameManifest;
   onComplete: (results: GameResults) => void;
   onSceneChange?: (sceneId: string) => void;
   analytics?: {
     trackEvent: (eventType: string, data: any) => void;
   };
+  // xAPI output channel for municipal LRS integration
+  xapi?: Pick<XAPIStatementEmitter, 'trackEvent'>;
   culturalContext?: CulturalContext;
   playerName?: string;
+  // Player locale for multilingual manifests; defaults to the profile language, then the browser
+  locale?: string;
+  // Per-deployment {{placeholders}} such as ROLE, overriding values taken from the learner profile
+  templateValues?: TemplateValues;
+  // Question ids drawn per quiz scene in earlier sessions, oldest first, so refreshers draw new questions
+  questionHistory?: Record<string, string[]>;
+  // Seed for this session's question draws; pass a recorded seed to replay a session
+  quizSeed?: string;
 }
 
+// Best attainable points of a dialogue's choices, so choice scores count towards totalScore
+const getMaxChoicePoints = (scene: DialogueSceneType): number => {
+  if (!scene.choices?.length) return 0;
+  return Math.max(0, ...scene.choices.map(choice => choice.points || 0));
+};
+
+// Points a scene adds to score and totalScore, capped at its maximum so the score never passes the total
+const getScenePoints = (results: { score?: number; maxScore?: number }): { score: number; maxScore: number } => {
+  const maxScore = Math.max(0, results.maxScore || 0);
+  return { score: Math.max(0, Math.min(results.score || 0, maxScore)), maxScore };
+};
+
+// Share of quiz questions answered correctly so far, which adaptive question draws aim at
+const getQuizCorrectness = (answers: Record<string, any>): number | undefined => {
+  const graded = Object.values(answers)
+    .filter(Array.isArray)
+    .flat()
+    .filter(answer => typeof answer?.is_correct === 'boolean');
+  return graded.length > 0 ? graded.filter(answer => answer.is_correct).length / graded.length : undefined;
+};
+
+// Recorded session cultures by the adaptation persona's country suffix, e.g. klaus_mueller_de
+const SESSION_CULTURES: Record<string, RecordedGameState['culturalContext']> = {
+  de: 'german_municipal',
+  fr: 'french_municipal',
+  nl: 'dutch_municipal'
+};
+
+const getSessionCulture = (context: string): RecordedGameState['culturalContext'] =>
+  SESSION_CULTURES[context.split('_').pop() ?? ''] ?? 'swedish_municipal';
+
+// Interactive q2 components only ship sv/de/fr/nl copy
+const INTERACTIVE_LOCALES = ['sv', 'de', 'fr', 'nl'] as const;
+type InteractiveLocale = typeof INTERACTIVE_LOCALES[number];
+
+const getInteractiveLocale = (language?: string): InteractiveLocale => {
+  const code = language?.toLowerCase().split('-')[0];
+  return INTERACTIVE_LOCALES.find(locale => locale === code) ?? 'sv';
+};
+
+// Rendered inside the host's I18nProvider so the links follow the manifest language
+const GameSkipLinks: React.FC = () => {
+  const { t } = useTranslation();
+  return (
+    <SkipLinks>
+      <SkipLink href="#main-content">
+        {t('host.skipToContent')}
+      </SkipLink>
+      <SkipLink href="#scene-actions">
+        {t('host.skipToActions')}
+      </SkipLink>
+    </SkipLinks>
+  );
+};
+
+// Migrate legacy manifest shapes and pick the player's translation; schema errors are shown instead of rendering blank scenes
+const loadManifestForPlay = (
+  gameManifest: GameManifest | MultilingualGameManifest,
+  locale?: string
+): { manifest: GameManifest; schemaError: string | null } => {
+  try {
+    return { manifest: loadGameManifest(gameManifest, { locale }).manifest, schemaError: null };
+  } catch (loadError) {
+    if (loadError instanceof ManifestSchemaError) {
+      // Only the error screen renders, which reads ids and theme colors but no translatable text
+      return { manifest: gameManifest as GameManifest, schemaError: loadError.message };
+    }
+    throw loadError;
+  }
+};
+
 export const StrategyPlayHost: React.FC<StrategyPlayHostProps> = ({
-  gameManifest,
+  gameManifest: sourceManifest,
   onComplete,
   onSceneChange,
   analytics,
+  xapi,
   culturalContext = 'swedish_mobile',
   playerName,
+  locale,
+  templateValues: deploymentValues,
+  questionHistory,
+  quizSeed: initialQuizSeed,
 }) => {
+  const [quizSeed] = useState(() => initialQuizSeed ?? createQuizSeed());
+  const auth = useOptionalAuth();
+  const authUser = auth?.user;
+  const { preferences: accessibilityPreferences } = useAccessibility();
+  const playerLocale = locale ?? authUser?.languagePreference ?? getBrowserLanguages()[0];
+  const { manifest: gameManifest, schemaError } = useMemo(
+    () => loadManifestForPlay(sourceManifest, playerLocale),
+    [sourceManifest, playerLocale]
+  );
+
   // Expert recommendation: Cultural adaptation of game manifest
-  const adaptedGameManifest = useMemo(() => {
+  const adaptedGameManifest: GameManifest = useMemo(() => {
     return detectAndAdaptCultural(gameManifest, culturalContext);
   }, [gameManifest, culturalContext]);
 
-  const [currentSceneId, setCurrentSceneId] = useState(adaptedGameManifest.scenes[0]?.id || 'intro-dialogue');
+  const [currentSceneId, setCurrentSceneId] = useState(
+    adaptedGameManifest.startScene || adaptedGameManifest.scenes[0]?.id || 'intro-dialogue'
+  );
   
   // Performance tracking for municipal optimization
   const { trackGameInteraction, trackSessionProgress } = usePerformanceTracker({
@@ -81,10 +215,16 @@ export const StrategyPlayHost: React.FC<StrategyPlayHostProps> = ({
     score: 0,
     totalScore: 0,
     answers: {} as Record<string, any>,
+    assessments: {} as Record<string, AssessmentResult>,
+    // Latest pass or fail of each scene that grades one, such as quizzes and assessments
+    passMarks: {} as Record<string, boolean>,
+    variables: getInitialVariables(adaptedGameManifest),
+    quizDraws: {} as Record<string, QuizDraw[]>,
     correctAnswers: 0,
     totalQuestions: 0,
   });
   const [error, setError] = useState<string | null>(null);
+  const syncStatus = useSessionSyncStatus();
 
   // TASK-HD-014: Municipal Achievement System Integration
   const municipalAchievements = useAnnaSvenssonAchievements({
@@ -96,6 +236,7 @@ export const StrategyPlayHost: React.FC<StrategyPlayHostProps> = ({
   // Initialize game session analytics
   useEffect(() => {
     performanceAnalytics.startGameSession(adaptedGameManifest.gameId);
+    xapi?.trackEvent('game_start', { gameId: adaptedGameManifest.gameId });
     
     return () => {
       // End session when component unmounts
@@ -104,11 +245,79 @@ export const StrategyPlayHost: React.FC<StrategyPlayHostProps> = ({
     };
   }, [adaptedGameManifest.gameId]);
 
+  // Signed-in play is recorded as a game session, which certificates are issued from
+  const [gameSessionId, setGameSessionId] = useState<string | null>(null);
+  const learnerId = authUser?.id;
+  const learnerTenant = authUser?.municipality;
+  useEffect(() => {
+    if (!learnerId) return;
+    let active = true;
+    gameStateManager.startGameSession(learnerId, adaptedGameManifest.gameId, learnerTenant ?? '', getSessionCulture(culturalContext))
+      .then(state => {
+        if (active) setGameSessionId(state.sessionId);
+      })
+      .catch(error => console.error('Failed to record game session:', error));
+    return () => {
+      active = false;
+    };
+  }, [learnerId, learnerTenant, adaptedGameManifest.gameId, culturalContext]);
+
   // Find current scene
   const currentScene = useMemo(() => {
     return adaptedGameManifest.scenes.find(scene => scene.id === currentSceneId);
   }, [adaptedGameManifest.scenes, currentSceneId]);
 
+  // Pooled quizzes draw new questions on every attempt, seeded per session and attempt for replay
+  const quizDraw = useMemo(() => {
+    if (currentScene?.type !== 'quiz' || !currentScene.draw) return undefined;
+    const previousDraws = gameState.quizDraws[currentScene.id] ?? [];
+    return drawQuizQuestions(currentScene, adaptedGameManifest.questionBanks, {
+      seed: `${quizSeed}:${currentScene.id}:${previousDraws.length + 1}`,
+      history: [...(questionHistory?.[currentScene.id] ?? []), ...previousDraws.flatMap(draw => draw.questionIds)],
+      priorCorrectness: getQuizCorrectness(gameState.answers)
+    });
+  }, [currentScene, adaptedGameManifest.questionBanks, quizSeed, questionHistory, gameState.quizDraws, gameState.answers]);
+
+  // Learner, score and variable values for {{placeholders}}, so one manifest serves every municipality
+  const templateValues = useMemo((): TemplateValues => ({
+    PLAYER_NAME: playerName ?? authUser?.displayName,
+    MUNICIPALITY: gameManifest.theme?.brand?.name ?? authUser?.municipality,
+    DEPARTMENT: authUser?.department,
+    ...gameState.variables,
+    score: gameState.score,
+    maxScore: gameState.totalScore,
+    percentage: gameState.totalScore > 0 ? Math.round((gameState.score / gameState.totalScore) * 100) : 0,
+    ...deploymentValues,
+  }), [playerName, authUser, gameManifest.theme, gameState.variables, gameState.score, gameState.totalScore, deploymentValues]);
+
+  // Signed-in players download a signed certificate for their recorded session; anonymous play has no learner to name
+  const sessionId = auth?.session?.sessionId;
+  const handleDownloadCertificate = useCallback(async () => {
+    if (!sessionId || !gameSessionId) return;
+    await downloadCertificate(sessionId, { gameSessionId, locale: gameManifest.metadata.language });
+  }, [sessionId, gameSessionId, gameManifest.metadata.language]);
+  // The same rule the certificate service applies: at least one graded scene, and none of them failed
+  const passMarks = Object.values(gameState.passMarks);
+  const passed = passMarks.length > 0 && passMarks.every(Boolean);
+  const canDownloadCertificate = Boolean(sessionId && gameSessionId) && passed;
+
+  // Scenes render personalized text; navigation and tracking keep reading the manifest scene
+  const personalizedScene = useMemo(() => currentScene && renderTemplatesInObject(quizDraw?.scene ?? currentScene, templateValues, {
+    locale: gameManifest.metadata.language,
+    visited: sceneId => gameState.scenesCompleted.includes(sceneId)
+  }), [currentScene, quizDraw, templateValues, gameManifest.metadata.language, gameState.scenesCompleted]);
+
+  // xAPI: record scene starts for LRS reporting
+  useEffect(() => {
+    if (!currentScene) return;
+    xapi?.trackEvent('scene_start', {
+      gameId: gameManifest.gameId,
+      sceneId: currentScene.id,
+      sceneType: currentScene.type,
+      sceneTitle: currentScene.title
+    });
+  }, [currentScene, gameManifest.gameId, xapi]);
+
   // Calculate progress
   const progress = useMemo(() => {
     const completedCount = gameState.scenesCompleted.length;
@@ -126,6 +335,13 @@ export const StrategyPlayHost: React.FC<StrategyPlayHostProps> = ({
       sceneId: currentSceneId,
       results,
     });
+    xapi?.trackEvent('scene_complete', {
+      gameId: gameManifest.gameId,
+      sceneId: currentSceneId,
+      sceneType: currentScene?.type,
+      sceneTitle: currentScene?.title,
+      results,
+    });
 
     // Track performance analytics
     const responseTime = endTracking('success', { sceneResults: results }) || 0;
@@ -136,19 +352,46 @@ export const StrategyPlayHost: React.FC<StrategyPlayHostProps> = ({
       responseTime
     );
 
+    // Choice and option effects update the variables that branches read
+    const variables = currentScene
+      ? applyVariableEffects(gameState.variables, collectSceneEffects(currentScene, results))
+      : gameState.variables;
+    const scenesCompleted = gameState.scenesCompleted.includes(currentSceneId)
+      ? gameState.scenesCompleted
+      : [...gameState.scenesCompleted, currentSceneId];
+    const answers = {
+      ...gameState.answers,
+      [currentSceneId]: results.answers,
+    };
+    const points = getScenePoints(results);
+    const quizDraws = results.draw
+      ? { ...gameState.quizDraws, [currentSceneId]: [...(gameState.quizDraws[currentSceneId] ?? []), results.draw] }
+      : gameState.quizDraws;
+
     // Update game state
     setGameState(prev => {
       const newState = {
         ...prev,
-        scenesCompleted: [...prev.scenesCompleted, currentSceneId],
-        score: prev.score + (results.score || 0),
-        totalScore: prev.totalScore + (results.maxScore || 0),
+        // Branching dialogues can revisit a scene; count it once
+        scenesCompleted: prev.scenesCompleted.includes(currentSceneId)
+          ? prev.scenesCompleted
+          : [...prev.scenesCompleted, currentSceneId],
+        score: prev.score + points.score,
+        totalScore: prev.totalScore + points.maxScore,
         correctAnswers: prev.correctAnswers + (results.isCorrect ? 1 : 0),
         totalQuestions: prev.totalQuestions + 1,
         answers: {
           ...prev.answers,
           [currentSceneId]: results.answers,
         },
+        assessments: results.assessment
+          ? { ...prev.assessments, [currentSceneId]: results.assessment }
+          : prev.assessments,
+        passMarks: typeof results.passed === 'boolean'
+          ? { ...prev.passMarks, [currentSceneId]: results.passed }
+          : prev.passMarks,
+        variables,
+        quizDraws,
       };
       
       // Track session progress for Anna Svensson's 7-minute sessions
@@ -170,22 +413,34 @@ export const StrategyPlayHost: React.FC<StrategyPlayHostProps> = ({
       return newState;
     });
 
+    if (gameSessionId) {
+      void gameStateManager.updateGameState(gameSessionId, { currentSceneId, sceneResult: results });
+    }
+
     // Determine next scene
-    const nextScene = results.nextScene || currentScene?.navigation?.next;
+    const nextScene = resolveNextScene(currentScene, results, {
+      score: gameState.score + points.score,
+      maxScore: gameState.totalScore + points.maxScore,
+      variables,
+      visited: scenesCompleted,
+      answers,
+    });
     
     if (nextScene === 'end' || !nextScene) {
       // Game completed
       const finalResults: GameResults = {
         gameId: gameManifest.gameId,
         completed: true,
-        score: gameState.score + (results.score || 0),
-        totalScore: gameState.totalScore + (results.maxScore || 0),
+        score: gameState.score + points.score,
+        totalScore: gameState.totalScore + points.maxScore,
         timeSpent: Date.now() - gameState.startTime,
-        scenesCompleted: [...gameState.scenesCompleted, currentSceneId],
-        answers: {
-          ...gameState.answers,
-          [currentSceneId]: results.answers,
-        },
+        scenesCompleted,
+        answers,
+        assessments: results.assessment
+          ? { ...gameState.assessments, [currentSceneId]: results.assessment }
+          : gameState.assessments,
+        variables,
+        quizDraws,
         // TASK-HD-014: Include municipal achievement data
         municipalAchievements: {
           earned: municipalAchievements.earnedAchievements,
@@ -194,7 +449,11 @@ export const StrategyPlayHost: React.FC<StrategyPlayHostProps> = ({
         },
       };
       
+      if (gameSessionId) {
+        void gameStateManager.completeGameSession(gameSessionId);
+      }
       analytics?.trackEvent('game_complete', finalResults);
+      xapi?.trackEvent('game_complete', finalResults);
       onComplete(finalResults);
     } else {
       // Move to next scene
@@ -206,14 +465,16 @@ export const StrategyPlayHost: React.FC<StrategyPlayHostProps> = ({
     currentScene,
     gameManifest.gameId,
     gameState,
+    gameSessionId,
     analytics,
+    xapi,
     onComplete,
     onSceneChange,
   ]);
 
   // Render scene component based on type
   const renderScene = () => {
-    if (!currentScene) {
+    if (!personalizedScene) {
       setError(`Scene "${currentSceneId}" not found`);
       return null;
     }
@@ -222,13 +483,20 @@ export const StrategyPlayHost: React.FC<StrategyPlayHostProps> = ({
       onComplete: handleSceneComplete,
       analytics,
     };
+    const interactiveLocale = getInteractiveLocale(gameManifest.metadata.language);
 
-    switch (currentScene.type) {
+    switch (personalizedScene.type) {
       case 'dialogue':
         return (
           <DialogueScene 
-            sceneData={currentScene as any}
-            onComplete={() => handleSceneComplete({})}
+            sceneData={toDialogueSceneData(personalizedScene)}
+            onComplete={(choice) => handleSceneComplete(choice ? {
+              nextScene: choice.nextScene,
+              score: choice.points,
+              maxScore: getMaxChoicePoints(personalizedScene),
+              choiceId: choice.choiceId,
+              answers: { choiceId: choice.choiceId, text: choice.choiceText, points: choice.points }
+            } : {})}
             municipalBranding={{
               primaryColor: gameManifest.theme?.colors?.primary || '#005AA0',
               logoUrl: gameManifest.theme?.brand?.logo?.url || '',
@@ -241,8 +509,18 @@ export const StrategyPlayHost: React.FC<StrategyPlayHostProps> = ({
       case 'quiz':
         return (
           <QuizScene 
-            sceneData={currentScene as any}
-            onComplete={(results) => handleSceneComplete({ score: results.score })}
+            // A retry draws new questions, so it starts a fresh quiz
+            key={quizDraw?.draw.seed ?? personalizedScene.id}
+            sceneData={toQuizSceneData(personalizedScene)}
+            // Points, not the percentage, so the quiz adds to score and totalScore like other scenes
+            onComplete={(results) => handleSceneComplete({
+              score: results.earnedPoints,
+              maxScore: results.totalPoints,
+              percentageScore: results.score,
+              passed: results.passed,
+              answers: results.answers,
+              draw: quizDraw?.draw
+            })}
             municipalBranding={{
               primaryColor: gameManifest.theme?.colors?.primary || '#005AA0',
               logoUrl: gameManifest.theme?.brand?.logo?.url || '',
@@ -253,25 +531,51 @@ export const StrategyPlayHost: React.FC<StrategyPlayHostProps> = ({
           />
         );
       case 'assessment':
-        return <AssessmentScene scene={currentScene as any} {...baseProps} />;
+        return <AssessmentScene scene={personalizedScene} {...baseProps} />;
       case 'resource':
-        return <ResourceScene scene={currentScene as any} {...baseProps} />;
+        return <ResourceScene scene={personalizedScene} {...baseProps} />;
       case 'summary':
-        return <SummaryScene scene={currentScene as any} {...baseProps} />;
+        return (
+          <SummaryScene
+            scene={personalizedScene}
+            results={{
+              score: gameState.score,
+              maxScore: gameState.totalScore,
+              timeSpent: Date.now() - gameState.startTime,
+              passed
+            }}
+            municipalBranding={{
+              primaryColor: gameManifest.theme?.colors?.primary || '#005AA0',
+              logoUrl: gameManifest.theme?.brand?.logo?.url || '',
+              municipality: gameManifest.theme?.brand?.name || 'Svenska Kommuner'
+            }}
+            supportContact={typeof deploymentValues?.SUPPORT_EMAIL === 'string' ? deploymentValues.SUPPORT_EMAIL : undefined}
+            onDownloadCertificate={canDownloadCertificate ? handleDownloadCertificate : undefined}
+            {...baseProps}
+          />
+        );
+      case 'narrative':
+        return <NarrativeScene scene={personalizedScene} locale={interactiveLocale} {...baseProps} />;
+      case 'timed_challenge':
+        return <TimedChallengeScene scene={personalizedScene} locale={interactiveLocale} {...baseProps} />;
+      case 'drag_drop_sort':
+        return <DragDropSortScene scene={personalizedScene} {...baseProps} />;
+      case 'workflow':
+        return <WorkflowScene scene={personalizedScene} locale={interactiveLocale} {...baseProps} />;
       default:
-        setError(`Unknown scene type: ${(currentScene as any).type}`);
+        setError(`Unknown scene type: ${(personalizedScene as { type: string }).type}`);
         return null;
     }
   };
 
-  if (error) {
+  if (error || schemaError) {
     return (
       <ChakraThemeProvider gameTheme={gameManifest.theme}>
         <Box p={4} maxW="600px" mx="auto">
           <Alert status="error">
             <InfoIcon color="red.500" />
             <Box ml={3}>
-              {error}
+              {schemaError || error}
             </Box>
           </Alert>
         </Box>
@@ -282,17 +586,19 @@ export const StrategyPlayHost: React.FC<StrategyPlayHostProps> = ({
   return (
     <ChakraThemeProvider gameTheme={gameManifest.theme}>
       <GameErrorBoundary gameId={gameManifest.gameId}>
+      <I18nProvider language={adaptedGameManifest.metadata.language}>
         {/* Skip Links - Game Designer spec: WCAG 2.1 AA compliance */}
-        <SkipLinks>
-        <SkipLink href="#main-content">
-          Hoppa till huvudinnehåll
-        </SkipLink>
-        <SkipLink href="#scene-actions">
-          Hoppa till åtgärder
-        </SkipLink>
-      </SkipLinks>
+        <GameSkipLinks />
       
       <VStack gap={0} minH="100vh" bg="gray.50">
+        {/* Offline journal status for field staff with intermittent connectivity */}
+        <SyncStatusIndicator status={syncStatus} />
+
+        {/* Contrast, text size and motion settings, available in every scene */}
+        <Box w="100%" display="flex" justifyContent="flex-end" bg="white" px={4} pt={2}>
+          <AccessibilitySettingsPanel />
+        </Box>
+
         {/* TASK-HD-014: Municipal Progress Indicator with Achievement Milestones */}
         {gameManifest.settings?.showProgress !== false && (
           <Box w="100%" bg="white" py={4} px={6} borderBottom="1px solid" borderBottomColor="gray.200">
@@ -367,7 +673,7 @@ export const StrategyPlayHost: React.FC<StrategyPlayHostProps> = ({
             accessibility={{
               dismissible: true,
               autoTimeout: 4000,
-              reducedMotion: window.matchMedia('(prefers-reduced-motion: reduce)').matches,
+              reducedMotion: accessibilityPreferences.reducedMotion,
               screenReaderFriendly: true
             }}
             integration={{
@@ -384,6 +690,7 @@ export const StrategyPlayHost: React.FC<StrategyPlayHostProps> = ({
           />
         )}
       </VStack>
+      </I18nProvider>
       </GameErrorBoundary>
     </ChakraThemeProvider>
   );
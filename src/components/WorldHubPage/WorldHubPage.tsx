@@ -13,6 +13,8 @@ import { HubScoreDisplay } from './components/HubScoreDisplay';
 import { WorldSelectionGrid } from './components/WorldSelectionGrid';
 import { ProgressVisualization } from './components/ProgressVisualization';
 import { MunicipalBrandingHeader } from './components/MunicipalBrandingHeader';
+import { ReviewQueuePanel } from './components/ReviewQueuePanel';
+import type { GameManifest } from '../../types/game-manifest';
 import { CulturalAdaptationProvider } from '../../contexts/CulturalAdaptationContext';
 import { LoadingSpinner } from '../ui/LoadingSpinner';
 import { ErrorBoundary } from '../ui/ErrorBoundary';
@@ -20,9 +22,13 @@ import './WorldHubPage.css';
 
 interface WorldHubPageProps {
   uniqueCode?: string;
+  // Manifests of the learner's games by game id, for spaced-repetition review games
+  reviewManifests?: Record<string, GameManifest>;
 }
 
-export const WorldHubPage: React.FC<WorldHubPageProps> = ({ uniqueCode }) => {
+const NO_REVIEW_MANIFESTS: Record<string, GameManifest> = {};
+
+export const WorldHubPage: React.FC<WorldHubPageProps> = ({ uniqueCode, reviewManifests = NO_REVIEW_MANIFESTS }) => {
   const navigate = useNavigate();
   const { code } = useParams<{ code: string }>();
   const hubCode = uniqueCode || code;
@@ -306,6 +312,15 @@ export const WorldHubPage: React.FC<WorldHubPageProps> = ({ uniqueCode }) => {
               />
             </section>
 
+            {/* Spaced Repetition Review */}
+            <section className="hub-review-section">
+              <h2 className="section-title">Repetition</h2>
+              <ReviewQueuePanel
+                userId={hubState.userId}
+                manifests={reviewManifests}
+              />
+            </section>
+
             {/* World Selection Grid */}
             <section className="hub-worlds-section">
               <h2 className="section-title">Välj din nästa värld</h2>
@@ -0,0 +1,138 @@
+/**
+ * Review Queue Panel Component
+ * Spaced repetition on the Q3 Multi-World Hub: quiz items due for review across completed
+ * games, the learner's retention figures and a short review game of the missed items
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { reviewScheduler } from '../../../services/review-scheduler';
+import { getRetentionSummary, type RetentionSummary, type ReviewCard } from '../../../utils/spacedRepetition';
+import type { GameManifest } from '../../../types/game-manifest';
+import { StrategyPlayHost, type GameResults } from '../../StrategyPlayHost';
+import './ReviewQueuePanel.css';
+
+interface ReviewQueuePanelProps {
+  userId: string;
+  manifests: Record<string, GameManifest>; // Completed games' manifests by game id
+  maxQuestions?: number;
+}
+
+const MAX_LISTED_ITEMS = 5;
+
+export const ReviewQueuePanel: React.FC<ReviewQueuePanelProps> = ({
+  userId,
+  manifests,
+  maxQuestions = 10
+}) => {
+  const [queue, setQueue] = useState<ReviewCard[]>([]);
+  const [summary, setSummary] = useState<RetentionSummary | null>(null);
+  const [reviewGame, setReviewGame] = useState<GameManifest | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refreshQueue = useCallback(async () => {
+    try {
+      const schedule = await reviewScheduler.syncCompletedSessions(userId);
+      const now = new Date();
+      setQueue(await reviewScheduler.getReviewQueue(userId, now));
+      setSummary(getRetentionSummary(Object.values(schedule.cards), now));
+    } catch (err) {
+      console.error('Error loading review queue:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refreshQueue();
+  }, [refreshQueue]);
+
+  const startReview = async () => {
+    try {
+      setReviewGame(await reviewScheduler.buildReviewGame(userId, manifests, { limit: maxQuestions }));
+    } catch (err) {
+      console.error('Error building review game:', err);
+    }
+  };
+
+  const handleReviewComplete = async (results: GameResults) => {
+    try {
+      await reviewScheduler.recordReviewResults(userId, results);
+    } catch (err) {
+      console.error('Error saving review results:', err);
+    }
+    setReviewGame(null);
+    await refreshQueue();
+  };
+
+  if (reviewGame) {
+    return (
+      <div className="review-queue-panel review-queue-playing">
+        <StrategyPlayHost gameManifest={reviewGame} onComplete={handleReviewComplete} />
+      </div>
+    );
+  }
+
+  const reviewableItems = queue.filter(card => manifests[card.gameId]);
+  const gameTitle = (gameId: string) => manifests[gameId]?.metadata.title ?? gameId;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="review-queue-panel"
+    >
+      <div className="review-queue-header">
+        <h3>Dags att repetera</h3>
+        <div className="review-due-badge" aria-live="polite">
+          {loading ? '…' : `${queue.length} frågor`}
+        </div>
+      </div>
+
+      {!loading && queue.length === 0 && (
+        <p className="review-queue-empty">Inga frågor att repetera just nu. Bra jobbat!</p>
+      )}
+
+      {queue.length > 0 && (
+        <ul className="review-queue-list">
+          {queue.slice(0, MAX_LISTED_ITEMS).map(card => (
+            <li key={card.itemId} className="review-queue-item">
+              <span className="review-item-game">{gameTitle(card.gameId)}</span>
+              <span className={card.history[card.history.length - 1]?.correct ? 'review-item-status' : 'review-item-status missed'}>
+                {card.history[card.history.length - 1]?.correct ? 'Repetition' : 'Missad'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {summary && summary.items > 0 && (
+        <div className="review-retention-grid">
+          <div className="retention-metric">
+            <div className="retention-value">{summary.items}</div>
+            <div className="retention-label">Frågor</div>
+          </div>
+          <div className="retention-metric">
+            <div className="retention-value">
+              {summary.retention === null ? '–' : `${Math.round(summary.retention * 100)}%`}
+            </div>
+            <div className="retention-label">Ihågkomna</div>
+          </div>
+          <div className="retention-metric">
+            <div className="retention-value">{summary.matureItems}</div>
+            <div className="retention-label">Befästa</div>
+          </div>
+        </div>
+      )}
+
+      <button
+        className="review-start-button"
+        onClick={startReview}
+        disabled={loading || reviewableItems.length === 0}
+      >
+        Starta repetition
+      </button>
+    </motion.div>
+  );
+};
@@ -0,0 +1,122 @@
+import React from 'react';
+import {
+  Drawer,
+  DrawerBody,
+  DrawerCloseButton,
+  DrawerContent,
+  DrawerHeader,
+  DrawerOverlay,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  IconButton,
+  Radio,
+  RadioGroup,
+  Stack,
+  Switch,
+  Text,
+  VStack,
+  useDisclosure
+} from '@chakra-ui/react';
+import { SettingsIcon } from '@chakra-ui/icons';
+import { useAccessibility } from '../../hooks/useAccessibility';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { AccessibilityPreferences } from '../../types/auth';
+
+const FONT_SIZES: AccessibilityPreferences['fontSize'][] = ['small', 'medium', 'large', 'x-large'];
+const COLOR_SCHEMES: AccessibilityPreferences['colorScheme'][] = ['default', 'high-contrast', 'blue-yellow', 'grayscale'];
+
+type TogglePreference = 'highContrast' | 'largeText' | 'reducedMotion';
+
+// In-game accessibility settings; changes apply to the theme at once and are saved to the profile or device
+export const AccessibilitySettingsPanel: React.FC = () => {
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const { preferences, system, updatePreferences } = useAccessibility();
+  const { t } = useTranslation();
+
+  const toggles: { key: TogglePreference; label: string; forcedBySystem: boolean }[] = [
+    { key: 'highContrast', label: t('accessibility.highContrast'), forcedBySystem: system.highContrast },
+    { key: 'largeText', label: t('accessibility.largeText'), forcedBySystem: false },
+    { key: 'reducedMotion', label: t('accessibility.reducedMotion'), forcedBySystem: system.reducedMotion }
+  ];
+
+  return (
+    <>
+      <IconButton
+        aria-label={t('accessibility.open')}
+        title={t('accessibility.open')}
+        icon={<SettingsIcon />}
+        variant="ghost"
+        minW="48px"
+        h="48px"
+        onClick={onOpen}
+        data-testid="accessibility-settings-button"
+      />
+
+      <Drawer isOpen={isOpen} placement="right" onClose={onClose} size="sm">
+        <DrawerOverlay />
+        <DrawerContent data-testid="accessibility-settings-panel">
+          <DrawerCloseButton aria-label={t('button.close')} />
+          <DrawerHeader>{t('accessibility.title')}</DrawerHeader>
+
+          <DrawerBody>
+            <VStack align="stretch" spacing={6}>
+              <Text fontSize="sm" color="gray.700">
+                {t('accessibility.description')}
+              </Text>
+
+              {toggles.map(({ key, label, forcedBySystem }) => (
+                <FormControl key={key} display="flex" alignItems="center" flexWrap="wrap" isDisabled={forcedBySystem}>
+                  <FormLabel htmlFor={`accessibility-${key}`} mb={0} flex="1">
+                    {label}
+                  </FormLabel>
+                  <Switch
+                    id={`accessibility-${key}`}
+                    size="lg"
+                    isChecked={preferences[key]}
+                    onChange={event => updatePreferences({ [key]: event.target.checked })}
+                  />
+                  {forcedBySystem && (
+                    <FormHelperText w="100%">{t('accessibility.systemSetting')}</FormHelperText>
+                  )}
+                </FormControl>
+              ))}
+
+              <FormControl as="fieldset">
+                <FormLabel as="legend">{t('accessibility.fontSize')}</FormLabel>
+                <RadioGroup
+                  value={preferences.fontSize}
+                  onChange={value => updatePreferences({ fontSize: value as AccessibilityPreferences['fontSize'] })}
+                >
+                  <Stack>
+                    {FONT_SIZES.map(size => (
+                      <Radio key={size} value={size}>
+                        {t(`accessibility.fontSize.${size}`)}
+                      </Radio>
+                    ))}
+                  </Stack>
+                </RadioGroup>
+              </FormControl>
+
+              <FormControl as="fieldset">
+                <FormLabel as="legend">{t('accessibility.colorScheme')}</FormLabel>
+                <RadioGroup
+                  value={preferences.colorScheme}
+                  onChange={value => updatePreferences({ colorScheme: value as AccessibilityPreferences['colorScheme'] })}
+                >
+                  <Stack>
+                    {COLOR_SCHEMES.map(scheme => (
+                      <Radio key={scheme} value={scheme}>
+                        {t(`accessibility.colorScheme.${scheme}`)}
+                      </Radio>
+                    ))}
+                  </Stack>
+                </RadioGroup>
+              </FormControl>
+            </VStack>
+          </DrawerBody>
+        </DrawerContent>
+      </Drawer>
+    </>
+  );
+};
@@ -4,6 +4,7 @@
  */
 
 import { useEffect, useRef } from 'react';
+import { useAccessibility } from '../../hooks/useAccessibility';
 
 export interface AchievementAccessibilityProps {
   announceAchievement: boolean;
@@ -57,9 +58,9 @@ export const useAchievementFocus = () => {
   return { focusToast };
 };
 
-// Hook for high contrast detection
+// Hook for high contrast detection, from the player's accessibility settings or the system's
 export const useHighContrastDetection = () => {
-  const isHighContrast = window.matchMedia('(prefers-contrast: high)').matches;
+  const isHighContrast = useAccessibility().preferences.highContrast;
   
   const accessibleColors = {
     backgroundColor: '#000000',
@@ -70,9 +71,9 @@ export const useHighContrastDetection = () => {
   return { isHighContrast, accessibleColors };
 };
 
-// Hook for reduced motion detection
+// Hook for reduced motion detection, from the player's accessibility settings or the system's
 export const useReducedMotionDetection = () => {
-  const prefersReducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+  const prefersReducedMotion = useAccessibility().preferences.reducedMotion;
   
   return { prefersReducedMotion };
 };
@@ -0,0 +1,21 @@
+/**
+ * DigiNativa Runtime Engine - Can
+ * Renders its children only when the user holds a permission, optionally for one resource
+ */
+
+import React from 'react';
+import type { ReactNode } from 'react';
+import { usePermission } from '../../contexts/AuthContext';
+import type { Permission, ResourceScope } from '../../types/auth';
+
+interface CanProps {
+  permission: Permission;
+  resource?: ResourceScope;
+  children: ReactNode;
+  fallback?: ReactNode;
+}
+
+export const Can: React.FC<CanProps> = ({ permission, resource, children, fallback = null }) => {
+  const allowed = usePermission(permission, resource);
+  return <>{allowed ? children : fallback}</>;
+};
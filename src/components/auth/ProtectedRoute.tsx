@@ -1,20 +1,20 @@
 /**
  * DigiNativa Runtime Engine - Protected Route Component
- * Role-based access control for municipal features
+ * Permission-based access control for municipal features
  */
 
 import React from 'react';
 import type { ReactNode } from 'react';
 import { Box, Spinner, Alert, AlertIcon, Text, Button, VStack } from '@chakra-ui/react';
 import { useAuth } from '../../contexts/AuthContext';
-import type { Permission, UserRole } from '../../types/auth';
+import type { Permission, ResourceScope } from '../../types/auth';
 import { LoginForm } from './LoginForm';
 
 interface ProtectedRouteProps {
   children: ReactNode;
   requireAuth?: boolean;
   requiredPermissions?: Permission[];
-  requiredRole?: UserRole;
+  resource?: ResourceScope; // Checks requiredPermissions for this resource, e.g. one department
   requiredMunicipality?: string;
   fallback?: ReactNode;
   showLogin?: boolean;
@@ -25,7 +25,7 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   children,
   requireAuth = true,
   requiredPermissions = [],
-  requiredRole,
+  resource,
   requiredMunicipality,
   fallback,
   showLogin = true,
@@ -36,7 +36,6 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     isLoading, 
     user, 
     hasPermission, 
-    hasRole, 
     canAccessMunicipality 
   } = useAuth();
 
@@ -101,38 +100,9 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     );
   }
 
-  // Check role requirements
-  if (requiredRole && !hasRole(requiredRole)) {
-    return (
-      <Box p={8} maxW="500px" mx="auto">
-        <Alert status="error" borderRadius="md">
-          <AlertIcon />
-          <VStack align="start" spacing={2}>
-            <Text fontWeight="bold">Åtkomst nekad</Text>
-            <Text fontSize="sm">
-              Du har inte rätt behörighet för att komma åt denna sida.
-            </Text>
-            <Text fontSize="sm" color="gray.600">
-              Krävs: {getRoleDisplayName(requiredRole)}<br/>
-              Din roll: {user ? getRoleDisplayName(user.role) : 'Okänd'}
-            </Text>
-            <Button 
-              size="sm" 
-              colorScheme="blue" 
-              onClick={() => window.history.back()}
-              mt={2}
-            >
-              Gå tillbaka
-            </Button>
-          </VStack>
-        </Alert>
-      </Box>
-    );
-  }
-
   // Check permission requirements
   const missingPermissions = requiredPermissions.filter(
-    permission => !hasPermission(permission)
+    permission => !hasPermission(permission, resource)
   );
 
   if (missingPermissions.length > 0) {
@@ -209,17 +179,6 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
 };
 
 // Helper functions for display names
-function getRoleDisplayName(role: UserRole): string {
-  const roleNames: Record<UserRole, string> = {
-    user: 'Användare',
-    admin: 'Administratör',
-    super_admin: 'Systemadministratör',
-    content_manager: 'Innehållshanterare',
-    analyst: 'Analytiker'
-  };
-  return roleNames[role] || role;
-}
-
 function getPermissionDisplayName(permission: Permission): string {
   const permissionNames: Record<Permission, string> = {
     'games.play': 'Spela spel',
@@ -265,7 +224,6 @@ export const AdminProtectedRoute: React.FC<{ children: ReactNode }> = ({ childre
   return (
     <ProtectedRoute
       requireAuth={true}
-      requiredRole="admin"
       requiredPermissions={['municipality.admin']}
     >
       {children}
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Box, Text } from '@chakra-ui/react';
+import type { SyncStatus } from '../../optimization/OfflineResilienceManager';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { TranslateFunction } from '../../i18n';
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus;
+}
+
+const getSyncMessage = (status: SyncStatus, t: TranslateFunction): { text: string; color: string } | null => {
+  if (!status.isOnline) {
+    return { text: t('sync.offline'), color: 'orange.700' };
+  }
+  if (status.syncInProgress) {
+    return { text: t('sync.inProgress'), color: 'blue.700' };
+  }
+  if (status.pendingActions > 0 && status.lastError) {
+    return { text: t('sync.failed'), color: 'orange.700' };
+  }
+  if (status.pendingActions > 0) {
+    return { text: t('sync.pending', { count: status.pendingActions }), color: 'gray.700' };
+  }
+  return null;
+};
+
+// Quiet while everything is synced; field staff only need to know when progress is still on the device
+export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ status }) => {
+  const { t } = useTranslation();
+  const message = getSyncMessage(status, t);
+
+  return (
+    <Box role="status" aria-live="polite" w="100%">
+      {message && (
+        <Box bg="gray.100" px={6} py={2} borderBottom="1px solid" borderBottomColor="gray.200">
+          <Text fontSize="sm" color={message.color} data-testid="sync-status">
+            {message.text}
+          </Text>
+        </Box>
+      )}
+    </Box>
+  );
+};
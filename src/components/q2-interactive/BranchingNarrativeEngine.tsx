@@ -7,7 +7,7 @@
  */
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { useCharacterContext } from './CharacterContext';
+import { useCharacterContext } from './hooks/useCharacterContext';
 import { useMunicipalCompliance } from './hooks/useMunicipalCompliance';
 
 interface NarrativeChoice {
@@ -66,7 +66,7 @@ interface NarrativeNode {
   };
 }
 
-interface MunicipalScenario {
+export interface MunicipalScenario {
   id: string;
   title: string;
   description: string;
@@ -99,7 +99,7 @@ interface BranchingNarrativeEngineProps {
   locale: 'sv' | 'de' | 'fr' | 'nl';
 }
 
-interface ScenarioResult {
+export interface ScenarioResult {
   success: boolean;
   finalBudget: number;
   finalReputation: number;
@@ -555,6 +555,21 @@ export const BranchingNarrativeEngine: React.FC<BranchingNarrativeEngineProps> =
             </button>
           </div>
         )}
+
+        {/* Nodes without choices or a next node end the scenario */}
+        {(!currentNode.choices || currentNode.choices.length === 0) && !currentNode.nextNode && (
+          <div className="scenario-end mt-6 text-center">
+            <button
+              onClick={handleScenarioComplete}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              {locale === 'sv' && 'Avsluta scenario →'}
+              {locale === 'de' && 'Szenario abschließen →'}
+              {locale === 'fr' && 'Terminer le scénario →'}
+              {locale === 'nl' && 'Scenario afronden →'}
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Control Buttons */}
@@ -0,0 +1,43 @@
+/**
+ * Narrative Character Context - Relationship and emotion state för branching scenarios
+ * Scoped to a single BranchingNarrativeEngine run, unlike the global contexts/CharacterContext
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { NarrativeCharacterContext, type NarrativeCharacterState } from './hooks/useCharacterContext';
+
+export const NarrativeCharacterProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [characters, setCharacters] = useState<Record<string, NarrativeCharacterState>>({});
+
+  const updateCharacterRelationship = useCallback((characterId: string, change: number) => {
+    setCharacters(prev => ({
+      ...prev,
+      [characterId]: {
+        ...prev[characterId],
+        relationship: (prev[characterId]?.relationship || 0) + change
+      }
+    }));
+  }, []);
+
+  const updateCharacterEmotion = useCallback((characterId: string, emotion: string) => {
+    setCharacters(prev => ({
+      ...prev,
+      [characterId]: {
+        relationship: prev[characterId]?.relationship || 0,
+        emotion
+      }
+    }));
+  }, []);
+
+  const value = useMemo(
+    () => ({ characters, updateCharacterRelationship, updateCharacterEmotion }),
+    [characters, updateCharacterRelationship, updateCharacterEmotion]
+  );
+
+  return (
+    <NarrativeCharacterContext.Provider value={value}>
+      {children}
+    </NarrativeCharacterContext.Provider>
+  );
+};
@@ -10,7 +10,7 @@ import React, { useState, useCallback, useMemo } from 'react';
 import { useDragDrop } from './hooks/useDragDrop';
 import { useFinancialCompliance } from './hooks/useFinancialCompliance';
 
-interface MunicipalInvoice {
+export interface MunicipalInvoice {
   id: string;
   vendor: string;
   amount: number;
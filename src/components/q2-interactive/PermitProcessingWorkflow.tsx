@@ -10,7 +10,7 @@ import React, { useState, useCallback, useRef } from 'react';
 import { useDragDrop } from './hooks/useDragDrop';
 import { useMunicipalCompliance } from './hooks/useMunicipalCompliance';
 
-interface PermitApplication {
+export interface PermitApplication {
   id: string;
   type: 'building' | 'business' | 'event' | 'parking';
   applicant: string;
@@ -10,7 +10,7 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useTimerChallenge } from './hooks/useTimerChallenge';
 import { useMunicipalEmergency } from './hooks/useMunicipalEmergency';
 
-interface EmergencyScenario {
+export interface EmergencyScenario {
   id: string;
   type: 'fire' | 'flood' | 'power_outage' | 'evacuation' | 'medical' | 'cyber_attack';
   title: string;
@@ -50,7 +50,7 @@ interface TimedChallengeSystemProps {
   locale: 'sv' | 'de' | 'fr' | 'nl';
 }
 
-interface ChallengeResult {
+export interface ChallengeResult {
   success: boolean;
   timeRemaining: number;
   actionsCompleted: number;
@@ -114,6 +114,9 @@ export const TimedChallengeSystem: React.FC<TimedChallengeSystemProps> = ({
   const [completedActions, setCompletedActions] = useState<Set<string>>(new Set());
   const [currentScore, setCurrentScore] = useState(0);
   const progressBarRef = useRef<HTMLDivElement>(null);
+  // The timer callbacks are declared below and need the timer controls themselves
+  const timeUpRef = useRef<() => void>(() => {});
+  const urgencyChangeRef = useRef<(urgency: string) => void>(() => {});
   
   const {
     timeRemaining,
@@ -125,8 +128,8 @@ export const TimedChallengeSystem: React.FC<TimedChallengeSystemProps> = ({
     resetTimer
   } = useTimerChallenge({
     duration: scenario.timeLimit,
-    onTimeUp: handleTimeUp,
-    onUrgencyChange: handleUrgencyChange
+    onTimeUp: () => timeUpRef.current(),
+    onUrgencyChange: (urgency) => urgencyChangeRef.current(urgency)
   });
 
   const {
@@ -171,6 +174,9 @@ export const TimedChallengeSystem: React.FC<TimedChallengeSystemProps> = ({
     }
   }, []);
 
+  timeUpRef.current = handleTimeUp;
+  urgencyChangeRef.current = handleUrgencyChange;
+
   const handleActionComplete = useCallback(async (actionId: string) => {
     const action = scenario.requiredActions.find(a => a.id === actionId);
     if (!action || completedActions.has(actionId)) return;
@@ -190,7 +196,8 @@ export const TimedChallengeSystem: React.FC<TimedChallengeSystemProps> = ({
     }
 
     // Mark action as completed
-    setCompletedActions(prev => new Set([...prev, actionId]));
+    const nextCompletedActions = new Set([...completedActions, actionId]);
+    setCompletedActions(nextCompletedActions);
     
     // Calculate score based on timing and priority
     const timingMultiplier = timeRemaining / scenario.timeLimit;
@@ -199,32 +206,32 @@ export const TimedChallengeSystem: React.FC<TimedChallengeSystemProps> = ({
                               action.priority === 'medium' ? 1.5 : 1;
     
     const actionScore = Math.round(100 * timingMultiplier * priorityMultiplier);
-    setCurrentScore(prev => prev + actionScore);
+    const nextScore = currentScore + actionScore;
+    setCurrentScore(nextScore);
 
     // Check för completion
-    const newCompletedCount = completedActions.size + 1;
-    if (newCompletedCount >= scenario.requiredActions.length) {
-      handleChallengeSuccess();
+    if (nextCompletedActions.size >= scenario.requiredActions.length) {
+      handleChallengeSuccess(nextCompletedActions, nextScore);
     }
-  }, [scenario, completedActions, timeRemaining, userRole, locale, validateEmergencyAction]);
+  }, [scenario, completedActions, currentScore, timeRemaining, userRole, locale, validateEmergencyAction]);
 
-  const handleChallengeSuccess = useCallback(() => {
+  const handleChallengeSuccess = useCallback((actions: Set<string>, score: number) => {
     setGameState('completed');
     pauseTimer();
     
     const result: ChallengeResult = {
       success: true,
       timeRemaining,
-      actionsCompleted: completedActions.size,
+      actionsCompleted: actions.size,
       totalActions: scenario.requiredActions.length,
-      score: currentScore,
-      municipalEffectiveness: calculateMunicipalEffectiveness(completedActions, scenario),
+      score,
+      municipalEffectiveness: calculateMunicipalEffectiveness(actions, scenario),
       culturalAppropriatenesScore: checkCulturalAppropriateness(scenario, locale),
       accessibilityCompliance: validateAccessibilityCompliance()
     };
     
     onChallengeComplete(result);
-  }, [timeRemaining, completedActions, currentScore, scenario, locale, pauseTimer, onChallengeComplete, calculateMunicipalEffectiveness, checkCulturalAppropriateness]);
+  }, [timeRemaining, scenario, locale, pauseTimer, onChallengeComplete, calculateMunicipalEffectiveness, checkCulturalAppropriateness]);
 
   const validateAccessibilityCompliance = useCallback((): boolean => {
     return scenario.accessibilityFeatures.visualAlerts &&
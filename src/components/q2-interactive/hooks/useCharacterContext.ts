@@ -0,0 +1,27 @@
+/**
+ * useCharacterContext Hook - Character state of the running branching scenario
+ * Provided by NarrativeCharacterProvider
+ */
+
+import { createContext, useContext } from 'react';
+
+export interface NarrativeCharacterState {
+  relationship: number;
+  emotion?: string;
+}
+
+export interface NarrativeCharacterContextType {
+  characters: Record<string, NarrativeCharacterState>;
+  updateCharacterRelationship: (characterId: string, change: number) => void;
+  updateCharacterEmotion: (characterId: string, emotion: string) => void;
+}
+
+export const NarrativeCharacterContext = createContext<NarrativeCharacterContextType | undefined>(undefined);
+
+export const useCharacterContext = () => {
+  const context = useContext(NarrativeCharacterContext);
+  if (context === undefined) {
+    throw new Error('useCharacterContext must be used within a NarrativeCharacterProvider');
+  }
+  return context;
+};
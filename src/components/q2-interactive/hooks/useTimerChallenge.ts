@@ -45,6 +45,9 @@ export const useTimerChallenge = (config: TimerChallengeConfig) => {
   const intervalRef = useRef<number | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const lastUrgencyRef = useRef<string>('normal');
+  // Scheduled frames call the latest updateTimer so they see the state set by startTimer
+  const updateTimerRef = useRef<() => void>(() => {});
+  const tick = useCallback(() => updateTimerRef.current(), []);
 
   // High-precision timer using requestAnimationFrame för smooth updates
   const updateTimer = useCallback(() => {
@@ -94,9 +97,11 @@ export const useTimerChallenge = (config: TimerChallengeConfig) => {
 
     // Continue animation loop
     if (config.performanceOptimized !== false) {
-      animationFrameRef.current = requestAnimationFrame(updateTimer);
+      animationFrameRef.current = requestAnimationFrame(tick);
     }
-  }, [state.isActive, state.isPaused, state.startTime, state.pausedTime, config]);
+  }, [state.isActive, state.isPaused, state.startTime, state.pausedTime, config, tick]);
+
+  updateTimerRef.current = updateTimer;
 
   // Start timer
   const startTimer = useCallback(() => {
@@ -116,14 +121,12 @@ export const useTimerChallenge = (config: TimerChallengeConfig) => {
 
     // Start high-precision timer loop
     if (config.performanceOptimized !== false) {
-      animationFrameRef.current = requestAnimationFrame(updateTimer);
+      animationFrameRef.current = requestAnimationFrame(tick);
     } else {
       // Fallback to setInterval för older devices
-      intervalRef.current = window.setInterval(() => {
-        updateTimer();
-      }, 100); // 10 FPS fallback
+      intervalRef.current = window.setInterval(tick, 100); // 10 FPS fallback
     }
-  }, [config.duration, config.performanceOptimized, updateTimer]);
+  }, [config.duration, config.performanceOptimized, tick]);
 
   // Pause timer
   const pauseTimer = useCallback(() => {
@@ -160,11 +163,11 @@ export const useTimerChallenge = (config: TimerChallengeConfig) => {
 
     // Restart timer loop
     if (config.performanceOptimized !== false) {
-      animationFrameRef.current = requestAnimationFrame(updateTimer);
+      animationFrameRef.current = requestAnimationFrame(tick);
     } else {
-      intervalRef.current = window.setInterval(updateTimer, 100);
+      intervalRef.current = window.setInterval(tick, 100);
     }
-  }, [state.isActive, state.isPaused, state.startTime, config.performanceOptimized, updateTimer]);
+  }, [state.isActive, state.isPaused, state.startTime, config.performanceOptimized, tick]);
 
   // Reset timer
   const resetTimer = useCallback(() => {
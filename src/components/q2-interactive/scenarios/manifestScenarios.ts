@@ -0,0 +1,73 @@
+/**
+ * Manifest Scenarios
+ * Maps manifest narrative and timed challenge scenes to the scenario shapes the
+ * BranchingNarrativeEngine and TimedChallengeSystem play
+ */
+
+import type { NarrativeScene, TimedChallengeScene } from '../../../types/game-manifest';
+import type { MunicipalScenario } from '../BranchingNarrativeEngine';
+import type { EmergencyScenario } from '../TimedChallengeSystem';
+
+/**
+ * Map a manifest narrative scene to the BranchingNarrativeEngine scenario shape
+ */
+export const toMunicipalScenario = (scene: NarrativeScene): MunicipalScenario => ({
+  id: scene.id,
+  title: scene.title || '',
+  description: scene.description || '',
+  difficulty: scene.difficulty ?? 2,
+  municipality: scene.municipality ?? 'malmö',
+  category: scene.category,
+  estimatedTime: scene.estimatedTime,
+  nodes: scene.nodes.map(node => ({
+    ...node,
+    choices: node.choices?.map(choice => ({
+      id: choice.id,
+      text: choice.text,
+      consequence: choice.consequence,
+      characterImpact: {},
+      municipalImpact: {
+        budgetChange: choice.budgetChange,
+        reputationChange: choice.reputationChange,
+        complianceRisk: choice.complianceRisk
+      }
+    }))
+  })),
+  startingConditions: scene.startingConditions,
+  learningObjectives: scene.learningObjectives || [],
+  culturalContext: {}
+});
+
+export const DEFAULT_USER_ROLE = 'emergency_coordinator' as const;
+
+/**
+ * Map a manifest timed challenge to the TimedChallengeSystem scenario shape
+ */
+export const toEmergencyScenario = (
+  scene: TimedChallengeScene,
+  locale: 'sv' | 'de' | 'fr' | 'nl' = 'sv'
+): EmergencyScenario => ({
+  id: scene.id,
+  type: scene.emergencyType,
+  title: scene.title || '',
+  description: scene.description || '',
+  timeLimit: scene.timeLimit,
+  difficulty: scene.difficulty ?? 2,
+  municipality: scene.municipality ?? 'malmö',
+  requiredActions: scene.actions.map(action => ({
+    ...action,
+    completed: false,
+    municipalRole: action.municipalRole ?? [scene.userRole ?? DEFAULT_USER_ROLE]
+  })),
+  culturalConsiderations: {
+    swedishProtocols: locale === 'sv',
+    germanProcedures: locale === 'de',
+    euStandards: true
+  },
+  accessibilityFeatures: {
+    visualAlerts: true,
+    audioAlerts: true,
+    hapticFeedback: true,
+    keyboardNavigation: true
+  }
+});
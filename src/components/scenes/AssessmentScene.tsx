@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   Box, 
   VStack, 
@@ -16,6 +16,9 @@ import {
 } from '@chakra-ui/react';
 import type { AssessmentScene as AssessmentSceneType } from '../../types/game-manifest';
 import { CheckIcon, StarIcon, CertificateIcon } from '../icons/GameIcons';
+import { scoreAssessment } from '../../utils/assessmentScoring';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { TranslateFunction } from '../../i18n';
 
 interface AssessmentSceneProps {
   scene: AssessmentSceneType;
@@ -30,11 +33,21 @@ export const AssessmentScene: React.FC<AssessmentSceneProps> = ({
   onComplete,
   analytics,
 }) => {
+  const questions = scene.questions || [];
+  const [phase, setPhase] = useState<'questions' | 'results'>(questions.length > 0 ? 'questions' : 'results');
+  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+  const [responses, setResponses] = useState<Record<string, string>>({});
+  const [attempt, setAttempt] = useState(1);
+  const [startTime, setStartTime] = useState(() => Date.now());
+  const [timeSpent, setTimeSpent] = useState(0);
   const [animationStep, setAnimationStep] = useState(0);
   const [showCertificate, setShowCertificate] = useState(false);
+  const { t } = useTranslation();
 
   // Game Designer spec: Progressive reveal of results
   useEffect(() => {
+    if (phase !== 'results') return;
+
     const timer1 = setTimeout(() => setAnimationStep(1), 500);
     const timer2 = setTimeout(() => setAnimationStep(2), 1500);
     const timer3 = setTimeout(() => setAnimationStep(3), 2500);
@@ -46,26 +59,83 @@ export const AssessmentScene: React.FC<AssessmentSceneProps> = ({
       clearTimeout(timer3);
       clearTimeout(timer4);
     };
-  }, []);
+  }, [phase]);
+
+  const assessmentData = useMemo(
+    () => scoreAssessment(scene, responses, timeSpent, t),
+    [scene, responses, timeSpent, t]
+  );
+  const showScore = scene.scoring?.showScore !== false;
+  const formattedTimeSpent = formatTimeSpent(assessmentData.timeSpent, t);
+
+  const achievements = useMemo(() => {
+    const earned: Array<{ id: string; name: string; description: string; icon: string }> = [];
+    if (assessmentData.passed && attempt === 1) {
+      earned.push({
+        id: 'first_try',
+        name: t('assessment.achievement.firstTry'),
+        description: t('assessment.achievement.firstTryDescription'),
+        icon: 'star'
+      });
+    }
+    if (assessmentData.maxScore > 0 && assessmentData.score === assessmentData.maxScore) {
+      earned.push({
+        id: 'perfect_score',
+        name: t('assessment.achievement.perfectScore'),
+        description: t('assessment.achievement.perfectScoreDescription'),
+        icon: 'check'
+      });
+    }
+    if (assessmentData.passed && scene.certificationArea) {
+      earned.push({ id: 'certified', name: t('assessment.achievement.certified'), description: scene.certificationArea, icon: 'certificate' });
+    }
+    return earned;
+  }, [assessmentData, attempt, scene.certificationArea, t]);
+
+  const currentQuestion = questions[currentQuestionIndex];
+  const isLastQuestion = currentQuestionIndex === questions.length - 1;
+
+  const handleOptionSelect = (questionId: string, optionId: string) => {
+    setResponses(prev => ({ ...prev, [questionId]: optionId }));
+    analytics?.trackEvent('assessment_answer_select', {
+      sceneId: scene.id,
+      questionId,
+      optionId,
+      attempt
+    });
+  };
+
+  const handleNextQuestion = () => {
+    if (!isLastQuestion) {
+      setCurrentQuestionIndex(prev => prev + 1);
+      return;
+    }
+
+    const elapsed = Date.now() - startTime;
+    const result = scoreAssessment(scene, responses, elapsed, t);
+    setTimeSpent(elapsed);
+    setPhase('results');
 
-  // Mock assessment data - in real implementation this comes from game state
-  const assessmentData = {
-    score: 85,
-    maxScore: 100,
-    percentageScore: 85,
-    passThreshold: 80,
-    achievements: [
-      { id: 'first_try', name: 'Första försöket', description: 'Klarade på första försöket', icon: 'star' },
-      { id: 'perfect_quiz', name: 'Quiz-mästare', description: 'Alla quizfrågor rätt', icon: 'check' },
-      { id: 'fast_learner', name: 'Snabb elev', description: 'Slutförde under 5 minuter', icon: 'certificate' }
-    ],
-    categoryScores: [
-      { category: 'GDPR Grundläggande', score: 90, maxScore: 100 },
-      { category: 'Datahantering', score: 85, maxScore: 100 },
-      { category: 'Användarrättigheter', score: 80, maxScore: 100 }
-    ],
-    timeSpent: '4 min 23 sek',
-    passed: true
+    analytics?.trackEvent('assessment_submit', {
+      sceneId: scene.id,
+      score: result.score,
+      maxScore: result.maxScore,
+      percentageScore: result.percentageScore,
+      passed: result.passed,
+      attempt
+    });
+  };
+
+  const handleRetry = () => {
+    analytics?.trackEvent('assessment_retry', { sceneId: scene.id, attempt });
+    setResponses({});
+    setCurrentQuestionIndex(0);
+    setAttempt(prev => prev + 1);
+    setStartTime(Date.now());
+    setTimeSpent(0);
+    setAnimationStep(0);
+    setShowCertificate(false);
+    setPhase('questions');
   };
 
   const handleContinue = () => {
@@ -74,15 +144,19 @@ export const AssessmentScene: React.FC<AssessmentSceneProps> = ({
       score: assessmentData.score,
       passed: assessmentData.passed,
       timeSpent: assessmentData.timeSpent,
-      achievements: assessmentData.achievements.map(a => a.id)
+      achievements: achievements.map(a => a.id)
     });
 
     onComplete({
       nextScene: scene.navigation?.next,
       score: assessmentData.score,
       maxScore: assessmentData.maxScore,
+      percentageScore: assessmentData.percentageScore,
       passed: assessmentData.passed,
-      achievements: assessmentData.achievements,
+      isCorrect: assessmentData.passed,
+      attempts: attempt,
+      answers: responses,
+      achievements,
       assessment: assessmentData
     });
   };
@@ -103,6 +177,102 @@ export const AssessmentScene: React.FC<AssessmentSceneProps> = ({
     }
   };
 
+  if (phase === 'questions' && currentQuestion) {
+    const selectedOptionId = responses[currentQuestion.id];
+
+    return (
+      <Box p={4} maxW="600px" mx="auto" minH="100vh" bg="gray.50">
+        <VStack gap={4} mb={6}>
+          <Text fontSize="2xl" fontWeight="bold" textAlign="center" color="gray.800">
+            {scene.title || t('assessment.title')}
+          </Text>
+          {scene.instructions && (
+            <Text fontSize="md" textAlign="center" color="gray.600" maxW="480px">
+              {scene.instructions}
+            </Text>
+          )}
+          <HStack w="100%" justify="space-between" fontSize="sm" color="gray.600">
+            <Text>{t('common.questionProgress', { current: currentQuestionIndex + 1, total: questions.length })}</Text>
+            {attempt > 1 && <Badge colorScheme="blue">{t('assessment.attempt', { attempt })}</Badge>}
+          </HStack>
+          <Progress
+            value={((currentQuestionIndex + 1) / questions.length) * 100}
+            w="100%"
+            size="sm"
+            colorScheme="blue"
+            borderRadius="full"
+            aria-label={t('common.questionProgress', { current: currentQuestionIndex + 1, total: questions.length })}
+          />
+        </VStack>
+
+        <Card bg="white" shadow="lg" mb={6}>
+          <CardBody p={6}>
+            <Text id={`assessment-question-${currentQuestion.id}`} fontSize="lg" fontWeight="semibold" mb={4} color="gray.800">
+              {currentQuestion.text}
+            </Text>
+            <VStack
+              gap={3}
+              align="stretch"
+              role="radiogroup"
+              aria-labelledby={`assessment-question-${currentQuestion.id}`}
+            >
+              {currentQuestion.options.map(option => {
+                const isSelected = selectedOptionId === option.id;
+                return (
+                  <Button
+                    key={option.id}
+                    role="radio"
+                    aria-checked={isSelected}
+                    onClick={() => handleOptionSelect(currentQuestion.id, option.id)}
+                    variant={isSelected ? 'solid' : 'outline'}
+                    colorScheme={isSelected ? 'blue' : 'gray'}
+                    justifyContent="flex-start"
+                    whiteSpace="normal"
+                    textAlign="left"
+                    h="auto"
+                    minH="56px"
+                    py={3}
+                    px={4}
+                    borderRadius="lg"
+                  >
+                    {option.text}
+                  </Button>
+                );
+              })}
+            </VStack>
+          </CardBody>
+        </Card>
+
+        <HStack gap={3} id="scene-actions">
+          {currentQuestionIndex > 0 && (
+            <Button
+              onClick={() => setCurrentQuestionIndex(prev => prev - 1)}
+              variant="outline"
+              size="lg"
+              minH="56px"
+              borderRadius="xl"
+            >
+              {t('assessment.previousQuestion')}
+            </Button>
+          )}
+          <Button
+            onClick={handleNextQuestion}
+            isDisabled={!selectedOptionId}
+            colorScheme="blue"
+            size="lg"
+            flex={1}
+            minH="56px"
+            fontSize="lg"
+            fontWeight="bold"
+            borderRadius="xl"
+          >
+            {isLastQuestion ? t('assessment.submit') : t('assessment.nextQuestion')}
+          </Button>
+        </HStack>
+      </Box>
+    );
+  }
+
   return (
     <Box p={4} maxW="600px" mx="auto" minH="100vh" bg="gray.50">
       {/* Header */}
@@ -113,7 +283,7 @@ export const AssessmentScene: React.FC<AssessmentSceneProps> = ({
           textAlign="center"
           color="gray.800"
         >
-          {scene.title || 'Utvärdering Slutförd'}
+          {scene.title || t('assessment.completedTitle')}
         </Text>
         
         {scene.description && (
@@ -133,55 +303,57 @@ export const AssessmentScene: React.FC<AssessmentSceneProps> = ({
         <CardBody p={8}>
           <VStack gap={6}>
             {/* Circular Score Progress */}
-            <Box position="relative" width="160px" height="160px">
-              <Circle
-                size="160px"
-                bg={`\${getScoreColor(assessmentData.percentageScore)}.50`}
-                border="8px solid"
-                borderColor={`\${getScoreColor(assessmentData.percentageScore)}.500`}
-                display="flex"
-                alignItems="center"
-                justifyContent="center"
-                flexDirection="column"
-                transform={animationStep >= 1 ? 'scale(1)' : 'scale(0.8)'}
-                opacity={animationStep >= 1 ? 1 : 0}
-                transition="all 0.6s ease-out"
-              >
-                <Text 
-                  fontSize="3xl" 
-                  fontWeight="bold" 
-                  color={`\${getScoreColor(assessmentData.percentageScore)}.700`}
+            {showScore && (
+              <Box position="relative" width="160px" height="160px">
+                <Circle
+                  size="160px"
+                  bg={`${getScoreColor(assessmentData.percentageScore)}.50`}
+                  border="8px solid"
+                  borderColor={`${getScoreColor(assessmentData.percentageScore)}.500`}
+                  display="flex"
+                  alignItems="center"
+                  justifyContent="center"
+                  flexDirection="column"
+                  transform={animationStep >= 1 ? 'scale(1)' : 'scale(0.8)'}
+                  opacity={animationStep >= 1 ? 1 : 0}
+                  transition="all 0.6s ease-out"
                 >
-                  {assessmentData.percentageScore}%
-                </Text>
-                <Text fontSize="sm" color="gray.600" fontWeight="medium">
-                  {assessmentData.score}/{assessmentData.maxScore} poäng
-                </Text>
-              </Circle>
-              
-              {/* Progress ring animation */}
-              <Box
-                position="absolute"
-                top="0"
-                left="0"
-                right="0"
-                bottom="0"
-                borderRadius="full"
-              >
-                <Progress
-                  value={animationStep >= 1 ? assessmentData.percentageScore : 0}
-                  size="lg"
-                  colorScheme={getScoreColor(assessmentData.percentageScore)}
-                  bg="transparent"
-                  sx={{
-                    '& > div': {
-                      borderRadius: 'full',
-                      transition: 'all 1.5s ease-out'
-                    }
-                  }}
-                />
+                  <Text 
+                    fontSize="3xl" 
+                    fontWeight="bold" 
+                    color={`${getScoreColor(assessmentData.percentageScore)}.700`}
+                  >
+                    {assessmentData.percentageScore}%
+                  </Text>
+                  <Text fontSize="sm" color="gray.600" fontWeight="medium">
+                    {t('assessment.points', { score: assessmentData.score, maxScore: assessmentData.maxScore })}
+                  </Text>
+                </Circle>
+
+                {/* Progress ring animation */}
+                <Box
+                  position="absolute"
+                  top="0"
+                  left="0"
+                  right="0"
+                  bottom="0"
+                  borderRadius="full"
+                >
+                  <Progress
+                    value={animationStep >= 1 ? assessmentData.percentageScore : 0}
+                    size="lg"
+                    colorScheme={getScoreColor(assessmentData.percentageScore)}
+                    bg="transparent"
+                    sx={{
+                      '& > div': {
+                        borderRadius: 'full',
+                        transition: 'all 1.5s ease-out'
+                      }
+                    }}
+                  />
+                </Box>
               </Box>
-            </Box>
+            )}
             
             {/* Pass/Fail Status */}
             <Alert 
@@ -197,13 +369,18 @@ export const AssessmentScene: React.FC<AssessmentSceneProps> = ({
               <Box ml={3}>
                 <Text fontWeight="bold" fontSize="lg">
                   {assessmentData.passed 
-                    ? '🎉 Grattis! Du har klarat kursen'
-                    : '📚 Kursen inte slutförd'}
+                    ? t('assessment.passed')
+                    : t('assessment.failed')}
                 </Text>
-                <Text fontSize="sm" mt={1}>
-                  {assessmentData.passed 
-                    ? `Du fick ${assessmentData.percentageScore}% (krävs ${scene.passThreshold || 80}%)`
-                    : `Du behöver ${scene.passThreshold || 80}% för att klara (du fick ${assessmentData.percentageScore}%)`}
+                {showScore && (
+                  <Text fontSize="sm" mt={1}>
+                    {assessmentData.passed 
+                      ? t('assessment.passedScore', { score: assessmentData.percentageScore, threshold: assessmentData.passThreshold })
+                      : t('assessment.failedScore', { score: assessmentData.percentageScore, threshold: assessmentData.passThreshold })}
+                  </Text>
+                )}
+                <Text fontSize="sm" mt={2}>
+                  {assessmentData.feedback}
                 </Text>
               </Box>
             </Alert>
@@ -211,8 +388,8 @@ export const AssessmentScene: React.FC<AssessmentSceneProps> = ({
         </CardBody>
       </Card>
 
-      {/* Category Breakdown */}
-      {assessmentData.categoryScores.length > 0 && (
+      {/* Per-question breakdown */}
+      {showScore && assessmentData.questionResults.length > 0 && (
         <Card mb={6} bg="white" shadow="lg"
           opacity={animationStep >= 2 ? 1 : 0}
           transform={animationStep >= 2 ? 'translateY(0)' : 'translateY(20px)'}
@@ -220,16 +397,16 @@ export const AssessmentScene: React.FC<AssessmentSceneProps> = ({
         >
           <CardBody p={6}>
             <Text fontSize="lg" fontWeight="bold" mb={4} color="gray.800">
-              Resultat per område
+              {t('assessment.resultsPerQuestion')}
             </Text>
             <VStack gap={4}>
-              {assessmentData.categoryScores.map((category, index) => {
-                const percentage = Math.round((category.score / category.maxScore) * 100);
+              {assessmentData.questionResults.map(result => {
+                const percentage = result.maxScore > 0 ? Math.round((result.score / result.maxScore) * 100) : 100;
                 return (
-                  <Box key={index} w="100%">
+                  <Box key={result.questionId} w="100%">
                     <HStack justify="space-between" mb={2}>
                       <Text fontSize="md" fontWeight="medium" color="gray.700">
-                        {category.category}
+                        {result.questionText}
                       </Text>
                       <Badge 
                         colorScheme={getScoreColor(percentage)}
@@ -257,7 +434,7 @@ export const AssessmentScene: React.FC<AssessmentSceneProps> = ({
       )}
 
       {/* Achievements - Game Designer spec: Municipal appropriate celebration */}
-      {assessmentData.achievements.length > 0 && (
+      {achievements.length > 0 && (
         <Card mb={6} bg="white" shadow="lg"
           opacity={animationStep >= 3 ? 1 : 0}
           transform={animationStep >= 3 ? 'translateY(0)' : 'translateY(20px)'}
@@ -265,10 +442,10 @@ export const AssessmentScene: React.FC<AssessmentSceneProps> = ({
         >
           <CardBody p={6}>
             <Text fontSize="lg" fontWeight="bold" mb={4} color="gray.800">
-              Uppnådda mål
+              {t('assessment.achievements')}
             </Text>
             <SimpleGrid columns={1} gap={3}>
-              {assessmentData.achievements.map((achievement, index) => (
+              {achievements.map(achievement => (
                 <Card key={achievement.id} bg="blue.50" border="1px solid" borderColor="blue.200">
                   <CardBody p={4}>
                     <HStack gap={3}>
@@ -303,19 +480,21 @@ export const AssessmentScene: React.FC<AssessmentSceneProps> = ({
             <VStack gap={4}>
               <CertificateIcon w="48px" h="48px" color="white" />
               <Text fontSize="xl" fontWeight="bold">
-                Certifiering Erhållen
+                {t('assessment.certificateTitle')}
               </Text>
               <Text fontSize="md" opacity={0.9}>
-                Du har framgångsrikt slutfört {scene.title || 'denna kurs'} och uppfyller 
-                kraven för certifiering inom {scene.certificationArea || 'detta område'}.
+                {t('assessment.certificateBody', {
+                  course: scene.title || t('assessment.defaultCourse'),
+                  area: scene.certificationArea || t('assessment.defaultArea')
+                })}
               </Text>
               <Divider borderColor="blue.300" />
               <VStack gap={2}>
                 <Text fontSize="sm" opacity={0.8}>
-                  Certifiering giltig till: {new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toLocaleDateString('sv-SE')}
+                  {t('assessment.certificateValidUntil', { date: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000) })}
                 </Text>
                 <Text fontSize="sm" opacity={0.8}>
-                  Slutförd på: {assessmentData.timeSpent}
+                  {t('assessment.completedIn', { duration: formattedTimeSpent })}
                 </Text>
               </VStack>
             </VStack>
@@ -345,15 +524,12 @@ export const AssessmentScene: React.FC<AssessmentSceneProps> = ({
             }}
             transition="all 0.2s"
           >
-            Fortsätt till nästa steg
+            {t('assessment.continue')}
           </Button>
         ) : (
           <VStack gap={3} w="100%">
             <Button
-              onClick={() => {
-                // In real implementation, restart the assessment
-                onComplete({ restart: true });
-              }}
+              onClick={handleRetry}
               colorScheme="blue"
               size="lg"
               w="100%"
@@ -362,7 +538,7 @@ export const AssessmentScene: React.FC<AssessmentSceneProps> = ({
               fontWeight="bold"
               borderRadius="xl"
             >
-              Försök igen
+              {t('button.tryAgain')}
             </Button>
             <Button
               onClick={handleContinue}
@@ -374,7 +550,7 @@ export const AssessmentScene: React.FC<AssessmentSceneProps> = ({
               fontSize="md"
               borderRadius="xl"
             >
-              Avsluta ändå
+              {t('assessment.finishAnyway')}
             </Button>
           </VStack>
         )}
@@ -397,7 +573,7 @@ export const AssessmentScene: React.FC<AssessmentSceneProps> = ({
               // In real implementation, open sharing dialog
             }}
           >
-            📧 Dela resultat med chef
+            {t('assessment.shareWithManager')}
           </Button>
         )}
       </VStack>
@@ -405,10 +581,15 @@ export const AssessmentScene: React.FC<AssessmentSceneProps> = ({
       {/* Meta Information */}
       <Box mt={8} pt={6} borderTop="1px solid" borderColor="gray.200">
         <HStack justify="space-between" fontSize="sm" color="gray.500">
-          <Text>Slutförd: {new Date().toLocaleDateString('sv-SE')}</Text>
-          <Text>Tid: {assessmentData.timeSpent}</Text>
+          <Text>{t('assessment.completedOn', { date: new Date() })}</Text>
+          <Text>{t('assessment.timeSpent', { duration: formattedTimeSpent })}</Text>
         </HStack>
       </Box>
     </Box>
   );
-};
\ No newline at end of file
+};
+
+const formatTimeSpent = (milliseconds: number, t: TranslateFunction): string => {
+  const totalSeconds = Math.round(milliseconds / 1000);
+  return t('assessment.duration', { minutes: Math.floor(totalSeconds / 60), seconds: totalSeconds % 60 });
+};
@@ -92,11 +92,8 @@ export const DialogueScene: React.FC<DialogueSceneProps> = ({
     }, 500); // Brief delay for visual feedback
   };
 
-  const getCharacterInfo = (characterId?: string) => {
-    if (!characterId) return scene.character;
-    // In the future, we might have a character lookup
-    return scene.character;
-  };
+  const getCharacterInfo = (characterId?: string) =>
+    scene.characters.find(c => c.id === characterId) || scene.characters[0];
 
   const character = getCharacterInfo(currentMessage?.characterId);
 
@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  SimpleGrid,
+  Badge,
+} from '@chakra-ui/react';
+import type { DragDropSortScene as DragDropSortSceneType } from '../../types/game-manifest';
+import { DragDropProvider, Draggable, DropZone, type DragItem } from '../DragDrop';
+import { CheckIcon, NextIcon } from '../icons/GameIcons';
+import { useTranslation } from '../../hooks/useTranslation';
+
+export interface DragDropSortSceneResult {
+  nextScene?: string;
+  score: number;
+  maxScore: number;
+  passed: boolean;
+  answers: {
+    placements: Record<string, string>; // Category id by item id
+  };
+  timeSpent: number; // milliseconds
+}
+
+interface DragDropSortSceneProps {
+  scene: DragDropSortSceneType;
+  onComplete: (results: DragDropSortSceneResult) => void;
+  analytics?: {
+    trackEvent: (eventType: string, data: Record<string, unknown>) => void;
+  };
+}
+
+type SortItem = DragDropSortSceneType['items'][number];
+
+const DEFAULT_PASSING_SCORE = 70; // Percent
+const ITEM_TYPE = 'sort-item';
+
+export const DragDropSortScene: React.FC<DragDropSortSceneProps> = ({
+  scene,
+  onComplete,
+  analytics,
+}) => {
+  const [placements, setPlacements] = useState<Record<string, string>>({});
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+  const [isChecked, setIsChecked] = useState(false);
+  const startTime = useRef(Date.now());
+  const { t } = useTranslation();
+
+  const unplacedItems = scene.items.filter(item => !placements[item.id]);
+  const correctItems = scene.items.filter(item => placements[item.id] === item.categoryId);
+  const percentage = scene.items.length > 0 ? Math.round((correctItems.length / scene.items.length) * 100) : 0;
+
+  const placeItem = (itemId: string, categoryId: string) => {
+    if (isChecked) return;
+    setPlacements(prev => ({ ...prev, [itemId]: categoryId }));
+    setSelectedItemId(null);
+    analytics?.trackEvent('drag_drop_place', { sceneId: scene.id, itemId, categoryId });
+  };
+
+  const handleDrop = (categoryId: string) => (item: DragItem) => placeItem(item.id, categoryId);
+
+  const handleContinue = () => {
+    onComplete({
+      nextScene: scene.navigation?.next,
+      score: correctItems.length,
+      maxScore: scene.items.length,
+      passed: percentage >= (scene.passingScore ?? DEFAULT_PASSING_SCORE),
+      answers: { placements },
+      timeSpent: Date.now() - startTime.current
+    });
+  };
+
+  // Click or Enter selects an item; "Placera här" moves it without dragging
+  const renderItem = (item: SortItem) => {
+    const isSelected = selectedItemId === item.id;
+    const placedCategory = placements[item.id];
+    const isCorrect = placedCategory === item.categoryId;
+
+    return (
+      <Draggable
+        key={item.id}
+        itemId={item.id}
+        itemType={ITEM_TYPE}
+        itemData={item}
+        isDisabled={isChecked}
+        onClick={() => !isChecked && setSelectedItemId(isSelected ? null : item.id)}
+        onKeyDown={(event: React.KeyboardEvent) => {
+          if (!isChecked && (event.key === 'Enter' || event.key === ' ')) {
+            event.preventDefault();
+            setSelectedItemId(isSelected ? null : item.id);
+          }
+        }}
+        aria-pressed={isSelected}
+        aria-label={item.text}
+        bg="white"
+        borderWidth={2}
+        borderColor={isChecked ? (isCorrect ? 'green.400' : 'red.400') : isSelected ? 'blue.500' : 'gray.200'}
+        borderRadius="md"
+        p={3}
+        minH="48px"
+      >
+        <Text fontSize="sm">{item.text}</Text>
+        {isChecked && (
+          <Text fontSize="xs" mt={1} color={isCorrect ? 'green.700' : 'red.700'}>
+            {isCorrect ? t('dragDrop.correct') : t('dragDrop.wrongCategory')}
+            {item.feedback ? ` – ${item.feedback}` : ''}
+          </Text>
+        )}
+      </Draggable>
+    );
+  };
+
+  return (
+    <DragDropProvider>
+      <VStack gap={6} w="100%" maxW="5xl" mx="auto" p={{ base: 4, md: 6 }} align="stretch">
+        <Box>
+          {scene.title && <Text as="h2" fontSize="2xl" fontWeight="bold" color="gray.800">{scene.title}</Text>}
+          <Text color="gray.600" mt={2}>
+            {scene.instructions || t('dragDrop.instructions')}
+          </Text>
+        </Box>
+
+        {unplacedItems.length > 0 && (
+          <Box role="group" aria-label={t('dragDrop.unsortedLabel')}>
+            <Text fontWeight="semibold" mb={2}>{t('dragDrop.unsorted')}</Text>
+            <SimpleGrid columns={{ base: 1, sm: 2, md: 3 }} gap={3}>
+              {unplacedItems.map(renderItem)}
+            </SimpleGrid>
+          </Box>
+        )}
+
+        <SimpleGrid columns={{ base: 1, md: Math.min(scene.categories.length, 3) }} gap={4}>
+          {scene.categories.map(category => {
+            const categoryItems = scene.items.filter(item => placements[item.id] === category.id);
+            return (
+              <DropZone
+                key={category.id}
+                zoneId={category.id}
+                accepts={[ITEM_TYPE]}
+                onDrop={handleDrop(category.id)}
+                isDisabled={isChecked}
+                aria-label={category.label}
+                p={4}
+              >
+                <HStack justify="space-between" mb={2}>
+                  <Text fontWeight="semibold">{category.label}</Text>
+                  <Badge>{categoryItems.length}</Badge>
+                </HStack>
+                {category.description && (
+                  <Text fontSize="sm" color="gray.600" mb={2}>{category.description}</Text>
+                )}
+                <VStack align="stretch" gap={2}>
+                  {categoryItems.map(renderItem)}
+                </VStack>
+                {selectedItemId && !isChecked && (
+                  <Button
+                    mt={3}
+                    size="sm"
+                    variant="outline"
+                    colorScheme="blue"
+                    minH="44px"
+                    onClick={() => placeItem(selectedItemId, category.id)}
+                    aria-label={t('dragDrop.placeHereLabel', { category: category.label })}
+                  >
+                    {t('dragDrop.placeHere')}
+                  </Button>
+                )}
+              </DropZone>
+            );
+          })}
+        </SimpleGrid>
+
+        <HStack id="scene-actions" justify="space-between">
+          {isChecked ? (
+            <Text aria-live="polite" fontWeight="medium">
+              {t('dragDrop.result', { correct: correctItems.length, total: scene.items.length, percentage })}
+            </Text>
+          ) : (
+            <Text fontSize="sm" color="gray.600">
+              {t('dragDrop.sortedCount', { sorted: scene.items.length - unplacedItems.length, total: scene.items.length })}
+            </Text>
+          )}
+          {isChecked ? (
+            <Button colorScheme="blue" rightIcon={<NextIcon />} onClick={handleContinue}>
+              {t('button.continue')}
+            </Button>
+          ) : (
+            <Button
+              colorScheme="blue"
+              leftIcon={<CheckIcon />}
+              onClick={() => setIsChecked(true)}
+              isDisabled={unplacedItems.length > 0}
+            >
+              {t('dragDrop.check')}
+            </Button>
+          )}
+        </HStack>
+      </VStack>
+    </DragDropProvider>
+  );
+};
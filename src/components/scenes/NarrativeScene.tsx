@@ -0,0 +1,79 @@
+import React, { useMemo, useRef } from 'react';
+import { Box } from '@chakra-ui/react';
+import type { NarrativeScene as NarrativeSceneType } from '../../types/game-manifest';
+import { BranchingNarrativeEngine, type ScenarioResult } from '../q2-interactive/BranchingNarrativeEngine';
+import { NarrativeCharacterProvider } from '../q2-interactive/CharacterContext';
+import { toMunicipalScenario } from '../q2-interactive/scenarios/manifestScenarios';
+
+export interface NarrativeSceneResult {
+  nextScene?: string;
+  score: number;
+  maxScore: number;
+  passed: boolean;
+  answers: {
+    choicesMade: string[];
+    finalBudget?: number;
+    finalReputation?: number;
+    aborted: boolean; // The player left the scenario before it ended
+  };
+  timeSpent: number; // milliseconds
+}
+
+interface NarrativeSceneProps {
+  scene: NarrativeSceneType;
+  onComplete: (results: NarrativeSceneResult) => void;
+  locale?: 'sv' | 'de' | 'fr' | 'nl';
+  analytics?: {
+    trackEvent: (eventType: string, data: Record<string, unknown>) => void;
+  };
+}
+
+export const NarrativeScene: React.FC<NarrativeSceneProps> = ({
+  scene,
+  onComplete,
+  locale = 'sv',
+  analytics,
+}) => {
+  const scenario = useMemo(() => toMunicipalScenario(scene), [scene]);
+  const startTime = useRef(Date.now());
+
+  const finish = (result: ScenarioResult | null) => {
+    // Impact is relative to the starting budget and reputation, so it can exceed 1
+    const score = result ? Math.round(Math.min(1, result.municipalImpactScore) * 100) : 0;
+
+    analytics?.trackEvent('narrative_scene_complete', {
+      sceneId: scene.id,
+      success: result?.success ?? false,
+      choicesMade: result?.choicesMade ?? [],
+      aborted: !result
+    });
+
+    onComplete({
+      nextScene: scene.navigation?.next,
+      score,
+      maxScore: 100,
+      passed: result?.success ?? false,
+      answers: {
+        choicesMade: result?.choicesMade ?? [],
+        finalBudget: result?.finalBudget,
+        finalReputation: result?.finalReputation,
+        aborted: !result
+      },
+      timeSpent: Date.now() - startTime.current
+    });
+  };
+
+  return (
+    <Box w="100%" maxW="4xl" mx="auto">
+      <NarrativeCharacterProvider>
+        <BranchingNarrativeEngine
+          scenario={scenario}
+          userRole={scene.userRole ?? 'municipal_manager'}
+          onScenarioComplete={finish}
+          onScenarioAbort={() => finish(null)}
+          locale={locale}
+        />
+      </NarrativeCharacterProvider>
+    </Box>
+  );
+};
@@ -25,27 +25,20 @@ interface QuizSceneProps {
   };
 }
 
-// Data transformation helper to handle both option_text and text formats
-const transformQuizOptions = (options: any[]): QuizSceneType['options'] => {
-  return options.map(option => ({
-    id: option.id || option.option_id,
-    text: option.text || option.option_text || '',
-    isCorrect: option.isCorrect !== undefined ? option.isCorrect : option.is_correct,
-    feedback: option.feedback || option.feedback_text,
-    points: option.points || option.partial_credit || 1
-  }));
-};
-
 export const QuizScene: React.FC<QuizSceneProps> = ({
   scene,
   onComplete,
   analytics,
 }) => {
-  // Transform the scene to handle data format variations from different sources
+  // This component presents one question; multi-question quizzes use QuizScene/QuizScene
+  const question = scene.questions?.[0];
   const normalizedScene = {
     ...scene,
-    question: scene.question || (scene as any).question_text || '',
-    options: transformQuizOptions(scene.options || (scene as any).questions?.[0]?.options || [])
+    question: question?.text || '',
+    questionType: question?.questionType,
+    media: question?.media,
+    options: question?.options || [],
+    allowMultiple: question?.answerType === 'multiple'
   };
   const [selectedAnswers, setSelectedAnswers] = useState<string[]>([]);
   const [showFeedback, setShowFeedback] = useState(false);
@@ -98,7 +91,7 @@ export const QuizScene: React.FC<QuizSceneProps> = ({
       : selectedCorrect.length > 0;
 
     const score = isCorrect ? (selectedCorrect.reduce((sum, answerId) => {
-      const option = scene.options.find(opt => opt.id === answerId);
+      const option = normalizedScene.options.find(opt => opt.id === answerId);
       return sum + (option?.points || 1);
     }, 0)) : 0;
 
@@ -1,6 +1,28 @@
-import React from 'react';
-import { Box, Text, Button } from '@chakra-ui/react';
+import React, { useState, useMemo, useRef } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Card,
+  CardBody,
+  Badge,
+  Image,
+  Link,
+  SimpleGrid,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalCloseButton,
+  ModalBody,
+  ModalFooter,
+} from '@chakra-ui/react';
 import type { ResourceScene as ResourceSceneType } from '../../types/game-manifest';
+import { CheckIcon, PlayIcon, NextIcon } from '../icons/GameIcons';
+import { resolveResourceUrl } from '../../utils/resourceLinks';
+import { useTranslation } from '../../hooks/useTranslation';
 
 interface ResourceSceneProps {
   scene: ResourceSceneType;
@@ -10,22 +32,299 @@ interface ResourceSceneProps {
   };
 }
 
+type Resource = ResourceSceneType['resources'][number];
+
+// Badge colors per resource type; labels come from the catalog - Game Designer spec: clear action verbs
+const RESOURCE_TYPE_COLORS: Record<Resource['type'], string> = {
+  pdf: 'red',
+  video: 'purple',
+  link: 'blue',
+  download: 'green'
+};
+
 export const ResourceScene: React.FC<ResourceSceneProps> = ({
   scene,
   onComplete,
+  analytics,
 }) => {
-  // TODO: Implement full resource functionality
-  return (
-    <Box p={4} textAlign="center">
-      <Text fontSize="xl" mb={4}>Resource Scene</Text>
-      <Text mb={4}>Title: {scene.title}</Text>
-      <Text mb={6}>This component will be implemented in Phase 2</Text>
-      <Button 
-        onClick={() => onComplete({ nextScene: scene.navigation?.next })}
-        colorScheme="brand"
+  const resources = useMemo(() => scene.resources || [], [scene.resources]);
+  const [openedResources, setOpenedResources] = useState<string[]>([]);
+  const [activeResource, setActiveResource] = useState<Resource | null>(null);
+  const startTime = useRef(Date.now());
+  const layout = scene.layout || 'grid';
+  const { t } = useTranslation();
+
+  const getTypeLabels = (type: Resource['type']) => ({
+    badge: t(`resource.badge.${type}`),
+    action: t(`resource.action.${type}`),
+    color: RESOURCE_TYPE_COLORS[type]
+  });
+
+  const markOpened = (resource: Resource, method: 'viewer' | 'external' | 'download') => {
+    setOpenedResources(prev => (prev.includes(resource.id) ? prev : [...prev, resource.id]));
+    analytics?.trackEvent('resource_open', {
+      sceneId: scene.id,
+      resourceId: resource.id,
+      resourceType: resource.type,
+      method
+    });
+  };
+
+  const handleContinue = () => {
+    analytics?.trackEvent('resource_scene_complete', {
+      sceneId: scene.id,
+      openedResources,
+      totalResources: resources.length
+    });
+
+    onComplete({
+      nextScene: scene.navigation?.next,
+      openedResources,
+      totalResources: resources.length,
+      answers: { openedResources },
+      timeSpent: Date.now() - startTime.current
+    });
+  };
+
+  const renderResourceAction = (resource: Resource) => {
+    const safeUrl = resolveResourceUrl(resource.url);
+    const labels = getTypeLabels(resource.type);
+
+    if (!safeUrl) {
+      return (
+        <Text fontSize="sm" color="red.600" role="note">
+          {t('resource.unavailable')}
+        </Text>
+      );
+    }
+
+    if (resource.type === 'pdf' || resource.type === 'video') {
+      return (
+        <Button
+          onClick={() => {
+            setActiveResource(resource);
+            markOpened(resource, 'viewer');
+          }}
+          colorScheme="blue"
+          variant="outline"
+          minH="48px"
+          leftIcon={resource.type === 'video' ? <PlayIcon /> : undefined}
+          aria-label={t('resource.actionLabel', { action: labels.action, title: resource.title })}
+        >
+          {labels.action}
+        </Button>
+      );
+    }
+
+    if (resource.type === 'download') {
+      return (
+        <Button
+          as="a"
+          href={safeUrl.href}
+          download
+          rel={safeUrl.isExternal ? 'noopener noreferrer' : undefined}
+          onClick={() => markOpened(resource, 'download')}
+          colorScheme="blue"
+          variant="outline"
+          minH="48px"
+          aria-label={resource.size
+            ? t('resource.downloadLabel', { action: labels.action, title: resource.title, size: resource.size })
+            : t('resource.actionLabel', { action: labels.action, title: resource.title })}
+        >
+          {labels.action}
+        </Button>
+      );
+    }
+
+    // External links open in a new window without access to the game (reverse tabnabbing)
+    return (
+      <VStack align="flex-start" gap={1}>
+        <Button
+          as="a"
+          href={safeUrl.href}
+          target="_blank"
+          rel="noopener noreferrer"
+          referrerPolicy="no-referrer"
+          onClick={() => markOpened(resource, 'external')}
+          colorScheme="blue"
+          variant="outline"
+          minH="48px"
+          rightIcon={<NextIcon />}
+          aria-label={t('resource.externalLinkLabel', { action: labels.action, title: resource.title, hostname: safeUrl.hostname })}
+        >
+          {labels.action}
+        </Button>
+        {safeUrl.isExternal && (
+          <Text fontSize="xs" color="gray.600">
+            {t('resource.externalSite', { hostname: safeUrl.hostname })}
+          </Text>
+        )}
+      </VStack>
+    );
+  };
+
+  const renderResourceCard = (resource: Resource) => {
+    const labels = getTypeLabels(resource.type);
+    const thumbnail = resolveResourceUrl(resource.thumbnail);
+    const isOpened = openedResources.includes(resource.id);
+    const isList = layout === 'list';
+
+    return (
+      <Card
+        key={resource.id}
+        as="li"
+        listStyleType="none"
+        bg="white"
+        shadow="md"
+        borderWidth="2px"
+        borderColor={isOpened ? 'green.200' : 'transparent'}
+        aria-label={resource.title}
       >
-        Continue
-      </Button>
+        <CardBody p={4}>
+          <Box display="flex" flexDirection={isList ? 'row' : 'column'} gap={4}>
+            {thumbnail && (
+              <Image
+                src={thumbnail.href}
+                alt=""
+                objectFit="cover"
+                borderRadius="md"
+                w={isList ? '96px' : '100%'}
+                h={isList ? '72px' : '140px'}
+                flexShrink={0}
+              />
+            )}
+            <VStack align="flex-start" gap={2} flex={1}>
+              <HStack gap={2} flexWrap="wrap">
+                <Badge colorScheme={labels.color}>{labels.badge}</Badge>
+                {resource.size && (
+                  <Badge variant="outline" colorScheme="gray" aria-label={t('resource.fileSize', { size: resource.size })}>
+                    {resource.size}
+                  </Badge>
+                )}
+                {isOpened && (
+                  <Badge colorScheme="green" display="flex" alignItems="center" gap={1}>
+                    <CheckIcon w="12px" h="12px" /> {t('resource.opened')}
+                  </Badge>
+                )}
+              </HStack>
+              <Text fontWeight="bold" fontSize="md" color="gray.800">
+                {resource.title}
+              </Text>
+              {resource.description && (
+                <Text fontSize="sm" color="gray.600">
+                  {resource.description}
+                </Text>
+              )}
+              {renderResourceAction(resource)}
+            </VStack>
+          </Box>
+        </CardBody>
+      </Card>
+    );
+  };
+
+  const renderViewer = (resource: Resource) => {
+    const safeUrl = resolveResourceUrl(resource.url);
+    if (!safeUrl) return null;
+
+    if (resource.type === 'video') {
+      return (
+        <video
+          src={safeUrl.href}
+          controls
+          preload="metadata"
+          aria-label={resource.title}
+          style={{ width: '100%', maxHeight: '70vh', borderRadius: '8px' }}
+        >
+          <Link href={safeUrl.href} isExternal>
+            {t('resource.videoFallback')}
+          </Link>
+        </video>
+      );
+    }
+
+    return (
+      <VStack align="stretch" gap={3}>
+        <Box
+          as="iframe"
+          src={safeUrl.href}
+          title={t('resource.pdfTitle', { title: resource.title })}
+          w="100%"
+          h="70vh"
+          border="1px solid"
+          borderColor="gray.200"
+          borderRadius="md"
+        />
+        {/* Screen readers and mobile browsers often cannot use embedded PDFs */}
+        <Link href={safeUrl.href} isExternal rel="noopener noreferrer" color="blue.700">
+          {t('resource.openInNewWindow')}
+        </Link>
+      </VStack>
+    );
+  };
+
+  return (
+    <Box p={4} maxW="600px" mx="auto">
+      <VStack gap={4} mb={6}>
+        <Text as="h2" fontSize="2xl" fontWeight="bold" textAlign="center" color="gray.800">
+          {scene.title || t('resource.title')}
+        </Text>
+        {scene.description && (
+          <Text fontSize="md" textAlign="center" color="gray.600">
+            {scene.description}
+          </Text>
+        )}
+        {resources.length > 0 && (
+          <Text fontSize="sm" color="gray.600" aria-live="polite">
+            {t('resource.openedCount', { opened: openedResources.length, total: resources.length })}
+          </Text>
+        )}
+      </VStack>
+
+      {resources.length === 0 ? (
+        <Text textAlign="center" color="gray.600" mb={6}>
+          {t('resource.empty')}
+        </Text>
+      ) : layout === 'list' ? (
+        <VStack as="ul" gap={3} align="stretch" mb={6} p={0}>
+          {resources.map(renderResourceCard)}
+        </VStack>
+      ) : (
+        <SimpleGrid as="ul" columns={{ base: 1, md: 2 }} gap={4} mb={6} p={0}>
+          {resources.map(renderResourceCard)}
+        </SimpleGrid>
+      )}
+
+      <Box id="scene-actions">
+        <Button
+          onClick={handleContinue}
+          colorScheme="brand"
+          size="lg"
+          w="100%"
+          minH="56px"
+          fontSize="lg"
+          fontWeight="bold"
+          borderRadius="xl"
+        >
+          {t('button.continue')}
+        </Button>
+      </Box>
+
+      <Modal isOpen={activeResource !== null} onClose={() => setActiveResource(null)} size="4xl">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>{activeResource?.title}</ModalHeader>
+          <ModalCloseButton aria-label={t('button.close')} />
+          <ModalBody>
+            {activeResource && renderViewer(activeResource)}
+          </ModalBody>
+          <ModalFooter>
+            <Button onClick={() => setActiveResource(null)} minH="48px">
+              {t('button.close')}
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
     </Box>
   );
-};
\ No newline at end of file
+};
@@ -25,39 +25,59 @@ import {
 import type { SummaryScene as SummarySceneType } from '../../types/game-manifest';
 import { CheckIcon, StarIcon, ClockIcon, CertificateIcon } from '../icons/GameIcons';
 import { validateMunicipalBranding, getMunicipalThemeOverrides, type MunicipalBranding } from '../../utils/municipalBranding';
+import { useTranslation } from '../../hooks/useTranslation';
+import { useAccessibility } from '../../hooks/useAccessibility';
+
+// The learner's outcome of the game played so far
+export interface SummaryResults {
+  score: number;
+  maxScore: number;
+  timeSpent: number; // milliseconds
+  passed: boolean; // Every scene that grades a pass was passed
+}
 
 interface SummarySceneProps {
   scene: SummarySceneType;
+  results: SummaryResults;
   onComplete: (results: any) => void;
   analytics?: {
     trackEvent: (eventType: string, data: any) => void;
   };
   // Municipal branding integration
   municipalBranding?: Partial<MunicipalBranding>;
+  // Issues and saves the signed PDF certificate; without it the button only records the request
+  onDownloadCertificate?: () => Promise<void>;
+  // Shown in the footer, e.g. the deployment's SUPPORT_EMAIL
+  supportContact?: string;
 }
 
 export const SummaryScene: React.FC<SummarySceneProps> = ({
   scene,
+  results,
   onComplete,
   analytics,
   municipalBranding,
+  onDownloadCertificate,
+  supportContact,
 }) => {
   const [showContent, setShowContent] = useState(false);
+  const [certificateStatus, setCertificateStatus] = useState<'idle' | 'loading' | 'failed'>('idle');
+  const { t, formatDate } = useTranslation();
+
+  // Accessibility - the player's reduced motion setting, or the system's
+  const prefersReducedMotion = useAccessibility().preferences.reducedMotion;
   
   // Professional completion entrance - subtle fade-in with reduced motion support
   useEffect(() => {
-    const prefersReducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
     const timer = setTimeout(() => setShowContent(true), prefersReducedMotion ? 100 : 300);
     return () => clearTimeout(timer);
-  }, []);
+  }, [prefersReducedMotion]);
   
   // Responsive design breakpoints for Anna Svensson iPhone 12 optimization
   const isMobile = useBreakpointValue({ base: true, md: false });
   const isTablet = useBreakpointValue({ base: false, md: true, lg: false });
   const isDesktop = useBreakpointValue({ base: false, lg: true });
   
-  // Accessibility - Check for reduced motion preference
-  const prefersReducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
   const getTransition = (defaultTransition: string) => 
     prefersReducedMotion ? 'none' : defaultTransition;
   
@@ -65,34 +85,18 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
   const { sanitizedBranding } = validateMunicipalBranding(municipalBranding);
   const municipalTheme = getMunicipalThemeOverrides(sanitizedBranding);
 
-  // Municipal completion data - streamlined for professional context
+  // Completion data from the game state; learnings and next steps are the scene's own content
+  const totalSeconds = Math.round(results.timeSpent / 1000);
   const gameData = {
-    totalScore: 147,
-    maxPossibleScore: 160,
-    percentageScore: 92,
-    totalTime: '6 min 45 sek',
-    scenesCompleted: 5,
-    totalScenes: 5,
-    completionStatus: 'godkänd' as const,
-    // Streamlined key learnings (3-4 most important for municipal context)
-    keyLearnings: [
-      'GDPR personuppgifter och rättigheter',
-      'Datahantering och säkerhet',
-      'Anmälningsplikt vid incidenter'
-    ],
-    // Municipal workplace next steps
-    nextSteps: [
-      'Tillämpa GDPR-kunskaper på arbetsplatsen',
-      'Diskutera viktiga punkter med närmaste chef', 
-      'Kontakta IT-support vid specifika frågor'
-    ],
-    certificateEarned: true,
-    municipalContext: {
-      authority: 'Malmö Stad',
-      trainingTitle: 'GDPR-utbildning för kommunal personal',
-      participantName: 'Anna Svensson',
-      supportContact: 'it-support@malmo.se'
-    }
+    totalScore: results.score,
+    maxPossibleScore: results.maxScore,
+    percentageScore: results.maxScore > 0 ? Math.round((results.score / results.maxScore) * 100) : 0,
+    totalTime: t('assessment.duration', { minutes: Math.floor(totalSeconds / 60), seconds: totalSeconds % 60 }),
+    completionStatus: results.passed ? 'godkänd' as const : 'ej_godkänd' as const,
+    keyLearnings: scene.achievements?.map(achievement => achievement.title) ?? [],
+    nextSteps: scene.nextActions?.map(action => action.label) ?? [],
+    // Only passed games earn one, and only signed-in learners can have it issued
+    certificateEarned: results.passed && Boolean(onDownloadCertificate)
   };
 
   const handleComplete = () => {
@@ -100,7 +104,7 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
       sceneId: scene.id,
       totalScore: gameData.totalScore,
       percentageScore: gameData.percentageScore,
-      timeSpent: gameData.totalTime,
+      timeSpent: results.timeSpent,
       certificateEarned: gameData.certificateEarned,
       municipality: sanitizedBranding.municipality,
       culturalContext: sanitizedBranding.culturalContext
@@ -110,13 +114,31 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
       gameCompleted: true,
       finalScore: gameData.totalScore,
       maxScore: gameData.maxPossibleScore,
-      timeSpent: gameData.totalTime,
+      passed: results.passed,
+      timeSpent: results.timeSpent,
       certificateEarned: gameData.certificateEarned,
       municipalCompletion: true,
       municipality: sanitizedBranding.municipality
     });
   };
 
+  const handleDownloadCertificate = async () => {
+    analytics?.trackEvent('municipal_certificate_download', {
+      sceneId: scene.id,
+      municipality: sanitizedBranding.municipality
+    });
+    if (!onDownloadCertificate) return;
+
+    setCertificateStatus('loading');
+    try {
+      await onDownloadCertificate();
+      setCertificateStatus('idle');
+    } catch (error) {
+      console.error('Certificate download failed:', error);
+      setCertificateStatus('failed');
+    }
+  };
+
   // Municipal color scheme - professional blue instead of gaming colors
   const getMunicipalStatusColor = (status: string) => {
     switch (status) {
@@ -146,11 +168,11 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
       <CardBody p={isMobile ? 6 : 8}>
         <VStack spacing={4} textAlign="center">
           {/* Municipal Authority Header */}
-          <HStack spacing={3} justify="center" role="group" aria-label="Municipal authority and completion status">
+          <HStack spacing={3} justify="center" role="group" aria-label={t('summary.headerLabel')}>
             {sanitizedBranding.logoUrl && (
               <Image 
                 src={sanitizedBranding.logoUrl} 
-                alt={`${sanitizedBranding.municipality} logotyp`}
+                alt={t('common.logoAlt', { municipality: sanitizedBranding.municipality })}
                 maxH="32px"
                 objectFit="contain"
                 role="img"
@@ -164,7 +186,9 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
             >
               {sanitizedBranding.municipality}
             </Text>
-            <CheckIcon w="20px" h="20px" color="white" aria-label="Godkänd status" />
+            {results.passed && (
+              <CheckIcon w="20px" h="20px" color="white" aria-label={t('summary.passedStatus')} />
+            )}
           </HStack>
           
           {/* Professional Completion Title */}
@@ -177,7 +201,7 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
             role="heading"
             aria-level={1}
           >
-            GDPR-utbildning Slutförd
+            {t('summary.title')}
           </Text>
           
           {/* Municipal Certification */}
@@ -188,7 +212,7 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
             fontWeight="medium"
             role="text"
           >
-            Du har framgångsrikt genomfört din kompetensutveckling
+            {t('summary.subtitle')}
           </Text>
           
           <Text 
@@ -196,9 +220,9 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
             opacity={0.8}
             fontWeight="medium"
             role="text"
-            aria-label={`Certifierad av ${gameData.municipalContext.authority}`}
+            aria-label={t('summary.certifiedBy', { authority: sanitizedBranding.municipality })}
           >
-            Certifierad av {gameData.municipalContext.authority}
+            {t('summary.certifiedBy', { authority: sanitizedBranding.municipality })}
           </Text>
         </VStack>
       </CardBody>
@@ -215,7 +239,7 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
       minH="100vh" 
       bg="gray.50"
       sx={municipalTheme as any}
-      aria-label="GDPR-utbildning sammanfattning"
+      aria-label={t('summary.regionLabel')}
     >
       <MunicipalSummaryHeader />
 
@@ -236,8 +260,10 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
           <VStack spacing={6}>
             {/* Completion Status */}
             <VStack spacing={3} textAlign="center">
-              <HStack spacing={3} justify="center" role="group" aria-label="Slutresultat">
-                <CheckIcon w="24px" h="24px" color={`${sanitizedBranding.primaryColor}`} aria-label="Godkänd" />
+              <HStack spacing={3} justify="center" role="group" aria-label={t('summary.finalResult')}>
+                {results.passed && (
+                  <CheckIcon w="24px" h="24px" color={`${sanitizedBranding.primaryColor}`} aria-label={t('summary.passed')} />
+                )}
                 <Text 
                   id="results-heading"
                   as="h2"
@@ -247,7 +273,7 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
                   role="heading"
                   aria-level={2}
                 >
-                  Godkänd
+                  {results.passed ? t('summary.passed') : t('summary.notPassed')}
                 </Text>
               </HStack>
               
@@ -256,30 +282,30 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
                 color="gray.700" 
                 fontWeight="medium"
                 role="text"
-                aria-label={`Tid: ${gameData.totalTime}, Resultat: ${gameData.percentageScore} procent`}
+                aria-label={t('summary.timeAndScoreLabel', { time: gameData.totalTime, score: gameData.percentageScore })}
               >
-                {gameData.totalTime} • {gameData.percentageScore}% resultat
+                {t('summary.timeAndScore', { time: gameData.totalTime, score: gameData.percentageScore })}
               </Text>
               
               {gameData.certificateEarned && (
-                <HStack spacing={2} color={sanitizedBranding.primaryColor} role="group" aria-label="Certifikat information">
-                  <CertificateIcon w="20px" h="20px" aria-label="Certifikat" />
+                <HStack spacing={2} color={sanitizedBranding.primaryColor} role="group" aria-label={t('summary.certificateInfo')}>
+                  <CertificateIcon w="20px" h="20px" aria-label={t('summary.certificate')} />
                   <Text fontSize="md" fontWeight="medium" role="text">
-                    Certifikat Erhållet
+                    {t('summary.certificateEarned')}
                   </Text>
                 </HStack>
               )}
             </VStack>
             
             {/* Municipal Progress Bar */}
-            <Box w="100%" maxW="300px" role="group" aria-label="Framstållning av resultat">
+            <Box w="100%" maxW="300px" role="group" aria-label={t('summary.resultPresentation')}>
               <Progress
                 value={gameData.percentageScore}
                 size="lg"
                 colorScheme={getMunicipalStatusColor(gameData.completionStatus)}
                 borderRadius="full"
                 bg="gray.200"
-                aria-label={`Slutresultat: ${gameData.percentageScore} procent av möjliga poäng`}
+                aria-label={t('summary.scoreLabel', { score: gameData.percentageScore })}
                 aria-valuenow={gameData.percentageScore}
                 aria-valuemin={0}
                 aria-valuemax={100}
@@ -297,7 +323,7 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
                 mt={2}
                 role="text"
               >
-                Skickat till din tjänst-e-post
+                {t('summary.sentToEmail')}
               </Text>
             </Box>
           </VStack>
@@ -305,118 +331,122 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
       </Card>
 
       {/* Municipal Key Learnings */}
-      <Card 
-        as="section"
-        role="region"
-        aria-labelledby="learnings-heading"
-        mb={6} 
-        bg="white" 
-        shadow="md"
-        borderRadius={isMobile ? "xl" : "2xl"}
-        transform={showContent ? 'translateY(0)' : 'translateY(10px)'}
-        opacity={showContent ? 1 : 0}
-        transition={getTransition('all 0.6s ease-out 0.6s')}
-      >
-        <CardBody p={isMobile ? 6 : 8}>
-          <Text 
-            id="learnings-heading"
-            as="h2"
-            fontSize={isMobile ? "lg" : "xl"} 
-            fontWeight="bold" 
-            mb={4} 
-            color="gray.800"
-            role="heading"
-            aria-level={2}
-          >
-            Viktiga Lärdomar
-          </Text>
-          <VStack as="ul" spacing={3} align="stretch" role="list" aria-labelledby="learnings-heading">
-            {gameData.keyLearnings.map((learning, index) => (
-              <HStack 
-                as="li"
-                key={index} 
-                spacing={3} 
-                p={4} 
-                bg={`${sanitizedBranding.primaryColor}1A`} 
-                borderRadius="lg"
-                role="listitem"
-                tabIndex={0}
-                aria-label={`Lärdom ${index + 1}: ${learning}`}
-              >
-                <CheckIcon color={sanitizedBranding.primaryColor} flexShrink={0} aria-hidden="true" />
-                <Text fontSize={isMobile ? "sm" : "md"} color="gray.700" fontWeight="medium" role="text">
-                  {learning}
-                </Text>
-              </HStack>
-            ))}
-          </VStack>
-        </CardBody>
-      </Card>
+      {gameData.keyLearnings.length > 0 && (
+        <Card 
+          as="section"
+          role="region"
+          aria-labelledby="learnings-heading"
+          mb={6} 
+          bg="white" 
+          shadow="md"
+          borderRadius={isMobile ? "xl" : "2xl"}
+          transform={showContent ? 'translateY(0)' : 'translateY(10px)'}
+          opacity={showContent ? 1 : 0}
+          transition={getTransition('all 0.6s ease-out 0.6s')}
+        >
+          <CardBody p={isMobile ? 6 : 8}>
+            <Text 
+              id="learnings-heading"
+              as="h2"
+              fontSize={isMobile ? "lg" : "xl"} 
+              fontWeight="bold" 
+              mb={4} 
+              color="gray.800"
+              role="heading"
+              aria-level={2}
+            >
+              {t('summary.keyLearnings')}
+            </Text>
+            <VStack as="ul" spacing={3} align="stretch" role="list" aria-labelledby="learnings-heading">
+              {gameData.keyLearnings.map((learning, index) => (
+                <HStack 
+                  as="li"
+                  key={index} 
+                  spacing={3} 
+                  p={4} 
+                  bg={`${sanitizedBranding.primaryColor}1A`} 
+                  borderRadius="lg"
+                  role="listitem"
+                  tabIndex={0}
+                  aria-label={t('summary.learningLabel', { number: index + 1, learning })}
+                >
+                  <CheckIcon color={sanitizedBranding.primaryColor} flexShrink={0} aria-hidden="true" />
+                  <Text fontSize={isMobile ? "sm" : "md"} color="gray.700" fontWeight="medium" role="text">
+                    {learning}
+                  </Text>
+                </HStack>
+              ))}
+            </VStack>
+          </CardBody>
+        </Card>
+      )}
 
       {/* Municipal Next Steps */}
-      <Card 
-        as="section"
-        role="region"
-        aria-labelledby="next-steps-heading"
-        mb={6} 
-        bg="white" 
-        shadow="md"
-        borderRadius={isMobile ? "xl" : "2xl"}
-        transform={showContent ? 'translateY(0)' : 'translateY(10px)'}
-        opacity={showContent ? 1 : 0}
-        transition={getTransition('all 0.6s ease-out 0.9s')}
-      >
-        <CardBody p={isMobile ? 6 : 8}>
-          <Text 
-            id="next-steps-heading"
-            as="h2"
-            fontSize={isMobile ? "lg" : "xl"} 
-            fontWeight="bold" 
-            mb={4} 
-            color="gray.800"
-            role="heading"
-            aria-level={2}
-          >
-            Nästa Steg
-          </Text>
-          <VStack as="ol" spacing={3} align="stretch" role="list" aria-labelledby="next-steps-heading">
-            {gameData.nextSteps.map((step, index) => (
-              <HStack 
-                as="li"
-                key={index} 
-                spacing={4} 
-                p={4} 
-                bg="gray.50" 
-                borderRadius="lg"
-                role="listitem"
-                tabIndex={0}
-                aria-label={`Steg ${index + 1}: ${step}`}
-              >
-                <Box 
-                  bg={sanitizedBranding.primaryColor}
-                  color="white" 
-                  borderRadius="full" 
-                  w="28px" 
-                  h="28px" 
-                  display="flex" 
-                  alignItems="center" 
-                  justifyContent="center" 
-                  fontSize="sm" 
-                  fontWeight="bold"
-                  flexShrink={0}
-                  aria-label={`Steg nummer ${index + 1}`}
-                  role="text"
+      {gameData.nextSteps.length > 0 && (
+        <Card 
+          as="section"
+          role="region"
+          aria-labelledby="next-steps-heading"
+          mb={6} 
+          bg="white" 
+          shadow="md"
+          borderRadius={isMobile ? "xl" : "2xl"}
+          transform={showContent ? 'translateY(0)' : 'translateY(10px)'}
+          opacity={showContent ? 1 : 0}
+          transition={getTransition('all 0.6s ease-out 0.9s')}
+        >
+          <CardBody p={isMobile ? 6 : 8}>
+            <Text 
+              id="next-steps-heading"
+              as="h2"
+              fontSize={isMobile ? "lg" : "xl"} 
+              fontWeight="bold" 
+              mb={4} 
+              color="gray.800"
+              role="heading"
+              aria-level={2}
+            >
+              {t('summary.nextSteps')}
+            </Text>
+            <VStack as="ol" spacing={3} align="stretch" role="list" aria-labelledby="next-steps-heading">
+              {gameData.nextSteps.map((step, index) => (
+                <HStack 
+                  as="li"
+                  key={index} 
+                  spacing={4} 
+                  p={4} 
+                  bg="gray.50" 
+                  borderRadius="lg"
+                  role="listitem"
+                  tabIndex={0}
+                  aria-label={t('summary.stepLabel', { number: index + 1, step })}
                 >
-                  {index + 1}
-                </Box>
-                <Text fontSize={isMobile ? "sm" : "md"} color="gray.700" fontWeight="medium" role="text">
-                  {step}
-                </Text>
-              </HStack>
-            ))}
-          </VStack>
-        </CardBody>
-      </Card>
+                  <Box 
+                    bg={sanitizedBranding.primaryColor}
+                    color="white" 
+                    borderRadius="full" 
+                    w="28px" 
+                    h="28px" 
+                    display="flex" 
+                    alignItems="center" 
+                    justifyContent="center" 
+                    fontSize="sm" 
+                    fontWeight="bold"
+                    flexShrink={0}
+                    aria-label={t('summary.stepNumber', { number: index + 1 })}
+                    role="text"
+                  >
+                    {index + 1}
+                  </Box>
+                  <Text fontSize={isMobile ? "sm" : "md"} color="gray.700" fontWeight="medium" role="text">
+                    {step}
+                  </Text>
+                </HStack>
+              ))}
+            </VStack>
+          </CardBody>
+        </Card>
+      )}
 
       {/* Municipal Actions Panel */}
       <VStack 
@@ -441,7 +471,7 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
           role="heading"
           aria-level={2}
         >
-          Åtgärder
+          {t('summary.actions')}
         </Text>
         
         {/* Primary Municipal Action */}
@@ -456,7 +486,7 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
           fontWeight="bold"
           borderRadius="xl"
           leftIcon={<CheckIcon aria-hidden="true" />}
-          aria-label="Avsluta utbildningen och återgå till huvudmenyn"
+          aria-label={t('summary.finishLabel')}
           _hover={{
             bg: `${sanitizedBranding.primaryColor}E6`,
             transform: prefersReducedMotion ? 'none' : 'translateY(-1px)',
@@ -472,7 +502,7 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
           }}
           transition={getTransition('all 0.2s')}
         >
-          Avsluta Utbildningen
+          {t('summary.finish')}
         </Button>
         
         {/* Secondary Municipal Actions */}
@@ -481,7 +511,7 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
           spacing={3} 
           w="100%"
           role="group"
-          aria-label="Ytterligare åtgärder"
+          aria-label={t('summary.moreActions')}
         >
           <Button
             variant="outline"
@@ -492,13 +522,9 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
             minH={isMobile ? "48px" : "56px"}
             borderRadius="lg"
             leftIcon={<CertificateIcon aria-hidden="true" />}
-            aria-label="Ladda ner ditt officiella GDPR-certifikat från Malmö Stad"
-            onClick={() => {
-              analytics?.trackEvent('municipal_certificate_download', {
-                sceneId: scene.id,
-                municipality: sanitizedBranding.municipality
-              });
-            }}
+            aria-label={t('summary.downloadCertificateLabel', { authority: sanitizedBranding.municipality })}
+            isLoading={certificateStatus === 'loading'}
+            onClick={handleDownloadCertificate}
             _hover={{
               bg: `${sanitizedBranding.primaryColor}1A`
             }}
@@ -509,7 +535,7 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
             }}
             transition={getTransition('background-color 0.2s ease')}
           >
-            Ladda ner Certifikat
+            {t('summary.downloadCertificate')}
           </Button>
           
           <Button
@@ -520,7 +546,7 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
             flex="1"
             minH={isMobile ? "48px" : "56px"}
             borderRadius="lg"
-            aria-label="Åtkomst till GDPR-resurser och verktyg för din arbetsplats"
+            aria-label={t('summary.workplaceResourcesLabel')}
             onClick={() => {
               analytics?.trackEvent('municipal_resources_access', {
                 sceneId: scene.id,
@@ -537,9 +563,15 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
             }}
             transition={getTransition('background-color 0.2s ease')}
           >
-            Resurser för Arbetsplatsen
+            {t('summary.workplaceResources')}
           </Button>
         </Stack>
+
+        {certificateStatus === 'failed' && (
+          <Alert status="error" borderRadius="md" role="alert">
+            {t('summary.certificateFailed')}
+          </Alert>
+        )}
       </VStack>
 
       {/* Municipal Footer */}
@@ -550,7 +582,7 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
         pt={6} 
         borderTop="1px solid" 
         borderColor="gray.200"
-        aria-label="Sidans sidfot med supportinformation"
+        aria-label={t('summary.footerLabel')}
       >
         <VStack spacing={3}>
           <Text 
@@ -560,28 +592,30 @@ export const SummaryScene: React.FC<SummarySceneProps> = ({
             fontWeight="medium"
             role="text"
           >
-            Tack för att du genomförde din kompetensutveckling!
+            {t('summary.thanks')}
           </Text>
           
           {/* Municipal Support Contact */}
-          <VStack spacing={1} role="group" aria-label="Supportinformation">
-            <Text 
-              fontSize="sm" 
-              color="gray.500" 
-              textAlign="center"
-              role="text"
-              aria-label={`Support: ${gameData.municipalContext.supportContact}`}
-            >
-              Support: {gameData.municipalContext.supportContact}
-            </Text>
+          <VStack spacing={1} role="group" aria-label={t('summary.supportInfo')}>
+            {supportContact && (
+              <Text 
+                fontSize="sm" 
+                color="gray.500" 
+                textAlign="center"
+                role="text"
+                aria-label={t('summary.support', { contact: supportContact })}
+              >
+                {t('summary.support', { contact: supportContact })}
+              </Text>
+            )}
             <Text 
               fontSize="xs" 
               color="gray.400" 
               textAlign="center"
               role="text"
-              aria-label={`Leverantörer: ${sanitizedBranding.municipality} och DigiNativa, datum: ${new Date().toLocaleDateString('sv-SE')}`}
+              aria-label={t('summary.providersLabel', { municipality: sanitizedBranding.municipality, date: new Date() })}
             >
-              {sanitizedBranding.municipality} • DigiNativa • {new Date().toLocaleDateString('sv-SE')}
+              {sanitizedBranding.municipality} • DigiNativa • {formatDate(new Date())}
             </Text>
           </VStack>
         </VStack>
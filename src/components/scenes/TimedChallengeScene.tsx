@@ -0,0 +1,88 @@
+import React, { useMemo, useRef } from 'react';
+import { Box } from '@chakra-ui/react';
+import type { TimedChallengeScene as TimedChallengeSceneType } from '../../types/game-manifest';
+import { TimedChallengeSystem, type ChallengeResult } from '../q2-interactive/TimedChallengeSystem';
+import { DEFAULT_USER_ROLE, toEmergencyScenario } from '../q2-interactive/scenarios/manifestScenarios';
+
+export interface TimedChallengeSceneResult {
+  nextScene?: string;
+  score: number;
+  maxScore: number;
+  passed: boolean;
+  answers: {
+    actionsCompleted: number;
+    timeRemaining: number; // Seconds
+    challengeScore: number;
+    aborted: boolean; // The player left the challenge before it ended
+  };
+  timeSpent: number; // milliseconds
+}
+
+interface TimedChallengeSceneProps {
+  scene: TimedChallengeSceneType;
+  onComplete: (results: TimedChallengeSceneResult) => void;
+  locale?: 'sv' | 'de' | 'fr' | 'nl';
+  analytics?: {
+    trackEvent: (eventType: string, data: Record<string, unknown>) => void;
+  };
+}
+
+// Without passingScore every action must be completed in time
+const DEFAULT_PASSING_SCORE = 100; // Percent
+
+export const TimedChallengeScene: React.FC<TimedChallengeSceneProps> = ({
+  scene,
+  onComplete,
+  locale = 'sv',
+  analytics,
+}) => {
+  const scenario = useMemo(() => toEmergencyScenario(scene, locale), [scene, locale]);
+  const startTime = useRef(Date.now());
+  const completed = useRef(false);
+
+  const finish = (result: ChallengeResult | null) => {
+    // Time-up and success can both fire for the last action
+    if (completed.current) return;
+    completed.current = true;
+
+    const totalActions = scene.actions.length;
+    const actionsCompleted = result?.actionsCompleted ?? 0;
+    const percentage = totalActions > 0 ? Math.round((actionsCompleted / totalActions) * 100) : 0;
+    const passed = percentage >= (scene.passingScore ?? DEFAULT_PASSING_SCORE);
+
+    analytics?.trackEvent('timed_challenge_complete', {
+      sceneId: scene.id,
+      actionsCompleted,
+      totalActions,
+      timeRemaining: result?.timeRemaining ?? 0,
+      passed,
+      aborted: !result
+    });
+
+    onComplete({
+      nextScene: scene.navigation?.next,
+      score: actionsCompleted,
+      maxScore: totalActions,
+      passed,
+      answers: {
+        actionsCompleted,
+        timeRemaining: result?.timeRemaining ?? 0,
+        challengeScore: result?.score ?? 0,
+        aborted: !result
+      },
+      timeSpent: Date.now() - startTime.current
+    });
+  };
+
+  return (
+    <Box w="100%" maxW="4xl" mx="auto">
+      <TimedChallengeSystem
+        scenario={scenario}
+        userRole={scene.userRole ?? DEFAULT_USER_ROLE}
+        onChallengeComplete={finish}
+        onChallengeAbort={() => finish(null)}
+        locale={locale}
+      />
+    </Box>
+  );
+};
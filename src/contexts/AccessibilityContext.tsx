@@ -0,0 +1,62 @@
+/**
+ * Accessibility Context
+ * The player's accessibility preferences: the signed-in user's profile, or this device's stored
+ * choices for anonymous play, combined with the operating system's motion and contrast settings.
+ * ChakraThemeProvider turns them into theme overrides for every scene.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import type { AccessibilityPreferences } from '../types/auth';
+import { DEFAULT_ACCESSIBILITY_PREFERENCES, resolveAccessibilityPreferences } from '../theme/accessibilityTheme';
+import { AccessibilityContext, readSystemPreferences } from '../hooks/useAccessibility';
+import { useOptionalAuth } from './AuthContext';
+
+const STORAGE_KEY = 'accessibilityPreferences';
+
+const loadStoredPreferences = (): Partial<AccessibilityPreferences> | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const AccessibilityProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const auth = useOptionalAuth();
+  const [stored, setStored] = useState(loadStoredPreferences);
+  const [system, setSystem] = useState(readSystemPreferences);
+
+  // Follow changes to the operating system settings while playing
+  useEffect(() => {
+    if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') return;
+
+    const queries = ['(prefers-reduced-motion: reduce)', '(prefers-contrast: more)'].map(query => window.matchMedia(query));
+    const handler = () => setSystem(readSystemPreferences());
+    queries.forEach(query => query.addEventListener?.('change', handler));
+    return () => queries.forEach(query => query.removeEventListener?.('change', handler));
+  }, []);
+
+  // A signed-in user's profile wins over this device's choices
+  const chosen = auth?.user?.accessibilityPreferences ?? stored;
+  const preferences = useMemo(() => resolveAccessibilityPreferences(chosen, system), [chosen, system]);
+
+  const updatePreferences = useCallback(async (changes: Partial<AccessibilityPreferences>): Promise<void> => {
+    const updated = { ...DEFAULT_ACCESSIBILITY_PREFERENCES, ...chosen, ...changes };
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    } catch (error) {
+      console.warn('Failed to store accessibility preferences:', error);
+    }
+    setStored(updated);
+
+    if (auth?.user) {
+      await auth.updatePreferences(changes);
+    }
+  }, [auth, chosen]);
+
+  const value = useMemo(() => ({ preferences, system, updatePreferences }), [preferences, system, updatePreferences]);
+
+  return <AccessibilityContext.Provider value={value}>{children}</AccessibilityContext.Provider>;
+};
@@ -3,7 +3,7 @@
  * Enterprise-grade authentication for Swedish municipal sector
  */
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import type { 
   User, 
   AuthSession, 
@@ -11,6 +11,7 @@ import type {
   AuthResult, 
   LoginCredentials,
   Permission, 
+  ResourceScope,
   UserRole,
   AccessibilityPreferences,
   DataProcessingConsent,
@@ -18,6 +19,7 @@ import type {
 } from '../types/auth';
 import { captureError } from '../services/error-monitoring';
 import { performanceAnalytics } from '../services/performance-analytics';
+import { isPermitted, type EffectivePermissions } from '../utils/accessPolicy';
 
 interface AuthProviderProps {
   children: ReactNode;
@@ -27,6 +29,9 @@ interface AuthProviderProps {
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
+// Refresh this long before the server-side session would expire
+const REFRESH_MARGIN_MS = 60 * 1000;
+
 export const AuthProvider: React.FC<AuthProviderProps> = ({ 
   children, 
   municipalityConfig,
@@ -35,12 +40,83 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<AuthSession | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [grantedPermissions, setGrantedPermissions] = useState<EffectivePermissions>({ permissions: [], scoped: [] });
+  const lastActivityRef = useRef(Date.now());
+  const sessionActionsRef = useRef<Pick<AuthContextType, 'refreshSession' | 'logout'> | null>(null);
 
   // Initialize authentication state
   useEffect(() => {
     initializeAuth();
   }, []);
 
+  // Custom role and resource-scoped grants come from the policy engine, on top of the user's role
+  const sessionId = session?.sessionId;
+  useEffect(() => {
+    if (!sessionId || mockMode) {
+      setGrantedPermissions({ permissions: [], scoped: [] });
+      return;
+    }
+
+    let cancelled = false;
+    fetch('/api/auth/policy/permissions', {
+      headers: {
+        'Authorization': `Bearer ${sessionId}`
+      }
+    })
+      .then(response => (response.ok ? response.json() : null))
+      .then((result: (EffectivePermissions & { success: boolean }) | null) => {
+        if (!cancelled && result?.success) {
+          setGrantedPermissions({ permissions: result.permissions, scoped: result.scoped });
+        }
+      })
+      .catch(error => {
+        captureError({
+          name: 'PermissionsLoadError',
+          message: error instanceof Error ? error.message : 'Failed to load permissions',
+          severity: 'low',
+          category: 'runtime'
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, mockMode]);
+
+  // Track user activity so only active sessions are extended
+  useEffect(() => {
+    const markActivity = () => {
+      lastActivityRef.current = Date.now();
+    };
+    window.addEventListener('pointerdown', markActivity);
+    window.addEventListener('keydown', markActivity);
+    return () => {
+      window.removeEventListener('pointerdown', markActivity);
+      window.removeEventListener('keydown', markActivity);
+    };
+  }, []);
+
+  // The expiry timer calls the latest refreshSession and logout without restarting on every render
+  useEffect(() => {
+    sessionActionsRef.current = { refreshSession, logout };
+  });
+
+  // Refresh shortly before the sliding expiry if the user was active, otherwise let the session end
+  useEffect(() => {
+    if (!session || mockMode) return;
+
+    const issuedAt = Date.now();
+    const timer = window.setTimeout(() => {
+      if (lastActivityRef.current > issuedAt && !isSessionExpired(session)) {
+        sessionActionsRef.current?.refreshSession();
+      } else {
+        sessionActionsRef.current?.logout();
+      }
+    }, Math.max(new Date(session.expiresAt).getTime() - issuedAt - REFRESH_MARGIN_MS, 0));
+
+    return () => window.clearTimeout(timer);
+  }, [session, mockMode]);
+
   const initializeAuth = async () => {
     try {
       setIsLoading(true);
@@ -207,6 +283,29 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({
     }
   };
 
+  const logoutAllDevices = async (): Promise<void> => {
+    try {
+      if (session && !mockMode) {
+        await fetch('/api/auth/sessions', {
+          method: 'DELETE',
+          headers: {
+            'Authorization': `Bearer ${session.sessionId}`
+          }
+        });
+      }
+    } catch (error) {
+      captureError({
+        name: 'LogoutAllDevicesError',
+        message: error instanceof Error ? error.message : 'Logout from all devices failed',
+        severity: 'medium',
+        category: 'runtime',
+        metadata: { error }
+      });
+    }
+
+    await logout();
+  };
+
   const refreshSession = async (): Promise<AuthResult> => {
     if (!session) {
       return {
@@ -223,15 +322,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({
         return { success: true, user, session };
       }
 
+      // The server slides the session identified by the Bearer session id
       const response = await fetch('/api/auth/refresh', {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${session.sessionId}`,
           'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          refreshToken: session.refreshToken
-        })
+        }
       });
 
       const result: AuthResult = await response.json();
@@ -282,8 +379,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({
     }
   };
 
-  const hasPermission = (permission: Permission): boolean => {
-    return user?.permissions.includes(permission) || false;
+  const effectivePermissions: EffectivePermissions = {
+    permissions: [...new Set([...(user?.permissions ?? []), ...grantedPermissions.permissions])],
+    scoped: grantedPermissions.scoped
+  };
+
+  const hasPermission = (permission: Permission, resource?: ResourceScope): boolean => {
+    return !!user && isPermitted(effectivePermissions, permission, resource);
   };
 
   const hasRole = (role: UserRole): boolean => {
@@ -490,9 +592,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({
     session,
     isAuthenticated: !!user,
     isLoading,
-    permissions: user?.permissions || [],
+    permissions: user ? effectivePermissions.permissions : [],
+    scopedPermissions: user ? effectivePermissions.scoped : [],
     login,
     logout,
+    logoutAllDevices,
     refreshSession,
     loginWithSSO,
     hasPermission,
@@ -517,12 +621,21 @@ export const useAuth = (): AuthContextType => {
   return context;
 };
 
+// For components that also render outside an AuthProvider, e.g. the i18n locale resolution
+export const useOptionalAuth = (): AuthContextType | null => useContext(AuthContext);
+
 // Convenience hooks
 export const usePermissions = () => {
   const { permissions, hasPermission } = useAuth();
   return { permissions, hasPermission };
 };
 
+// Whether the user may do something, optionally for one resource such as a department
+export const usePermission = (permission: Permission, resource?: ResourceScope): boolean => {
+  const { hasPermission } = useAuth();
+  return hasPermission(permission, resource);
+};
+
 export const useUserProfile = () => {
   const { user, updatePreferences, updateLanguage } = useAuth();
   return { user, updatePreferences, updateLanguage };
@@ -0,0 +1,75 @@
+/**
+ * I18n Context
+ * Resolves the UI locale, loads its catalog and provides the translator to scene components
+ */
+
+import React, { useEffect, useMemo, useState, type ReactNode } from 'react';
+import {
+  DEFAULT_LOCALE,
+  createTranslator,
+  getLoadedCatalog,
+  loadCatalog,
+  resolveLocale,
+  sv,
+  type Catalog,
+  type Locale
+} from '../i18n';
+import { I18nContext, type I18nContextType } from '../hooks/useTranslation';
+import { useOptionalAuth } from './AuthContext';
+
+interface LoadedCatalog {
+  locale: Locale;
+  messagesLocale: Locale;
+  messages: Catalog;
+}
+
+interface I18nProviderProps {
+  children: ReactNode;
+  // Forces a locale, e.g. for previews; otherwise resolved from the sources below
+  locale?: Locale;
+  // GameMetadata.language of the manifest being played
+  language?: string;
+}
+
+export const I18nProvider: React.FC<I18nProviderProps> = ({ children, locale: forcedLocale, language }) => {
+  const auth = useOptionalAuth();
+  const locale = forcedLocale ?? resolveLocale({
+    manifestLanguage: language,
+    profileLanguage: auth?.user?.languagePreference
+  });
+
+  // `locale` is what was requested; `messagesLocale` differs when the catalog failed to load
+  const [catalog, setCatalog] = useState<LoadedCatalog | null>(() => {
+    const loaded = getLoadedCatalog(locale);
+    return loaded ? { locale, messagesLocale: locale, messages: loaded } : null;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCatalog(locale)
+      .then(messages => {
+        if (!cancelled) setCatalog({ locale, messagesLocale: locale, messages });
+      })
+      .catch(error => {
+        console.warn(`Failed to load ${locale} catalog, using Swedish:`, error);
+        if (!cancelled) setCatalog({ locale, messagesLocale: DEFAULT_LOCALE, messages: sv });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [locale]);
+
+  const value = useMemo<I18nContextType>(() => {
+    if (catalog?.locale === locale) {
+      return { ...createTranslator(catalog.messagesLocale, catalog.messages), isLoading: false };
+    }
+    const loaded = getLoadedCatalog(locale);
+    if (loaded) {
+      return { ...createTranslator(locale, loaded), isLoading: false };
+    }
+    // Until the catalog chunk arrives the Swedish source strings are shown rather than blank UI
+    return { ...createTranslator(DEFAULT_LOCALE, sv), isLoading: true };
+  }, [catalog, locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
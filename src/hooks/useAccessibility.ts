@@ -0,0 +1,40 @@
+/**
+ * Accessibility Hook
+ * The player's resolved accessibility preferences from the nearest AccessibilityProvider
+ */
+
+import { createContext, useContext } from 'react';
+import type { AccessibilityPreferences } from '../types/auth';
+import { resolveAccessibilityPreferences } from '../theme/accessibilityTheme';
+
+export interface SystemPreferences {
+  reducedMotion: boolean;
+  highContrast: boolean;
+}
+
+export interface AccessibilityContextType {
+  preferences: AccessibilityPreferences;
+  system: SystemPreferences; // Operating system settings, which the player cannot turn off here
+  updatePreferences: (preferences: Partial<AccessibilityPreferences>) => Promise<void>;
+}
+
+export const AccessibilityContext = createContext<AccessibilityContextType | null>(null);
+
+const mediaMatches = (query: string): boolean =>
+  typeof window !== 'undefined' && typeof window.matchMedia === 'function' && window.matchMedia(query).matches;
+
+export const readSystemPreferences = (): SystemPreferences => ({
+  reducedMotion: mediaMatches('(prefers-reduced-motion: reduce)'),
+  highContrast: mediaMatches('(prefers-contrast: more)')
+});
+
+const noProviderUpdate = async () => {};
+
+// Scenes are also rendered standalone (tests, DevShowcase), so without a provider they follow the system settings
+export const useAccessibility = (): AccessibilityContextType => {
+  const context = useContext(AccessibilityContext);
+  if (context) return context;
+
+  const system = readSystemPreferences();
+  return { preferences: resolveAccessibilityPreferences(null, system), system, updatePreferences: noProviderUpdate };
+};
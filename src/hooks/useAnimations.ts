@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useAccessibility } from '../hooks/useAccessibility';
 
 // Game Designer spec: Advanced animations with reduced motion support
 export interface AnimationConfig {
@@ -9,20 +9,8 @@ export interface AnimationConfig {
 }
 
 export const useAnimations = () => {
-  const [prefersReducedMotion, setPrefersReducedMotion] = useState(false);
-
-  useEffect(() => {
-    // Check user's motion preferences
-    const mediaQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
-    setPrefersReducedMotion(mediaQuery.matches);
-
-    const handleChange = (e: MediaQueryListEvent) => {
-      setPrefersReducedMotion(e.matches);
-    };
-
-    mediaQuery.addEventListener('change', handleChange);
-    return () => mediaQuery.removeEventListener('change', handleChange);
-  }, []);
+  // The player's reduced motion setting, which includes the system's
+  const prefersReducedMotion = useAccessibility().preferences.reducedMotion;
 
   // Scene transition animations
   const getSceneTransition = (config: AnimationConfig = {}) => {
@@ -0,0 +1,25 @@
+/**
+ * Session Sync Status Hook
+ * Exposes the offline journal state so players can see whether their progress has reached the server
+ */
+
+import { useEffect, useState } from 'react';
+import { offlineResilienceManager, type SyncStatus } from '../optimization/OfflineResilienceManager';
+
+export function useSessionSyncStatus(): SyncStatus {
+  const [status, setStatus] = useState<SyncStatus>(() => offlineResilienceManager.getSyncStatus());
+
+  useEffect(() => {
+    const unsubscribe = offlineResilienceManager.subscribe(setStatus);
+
+    // Starts connectivity monitoring and replays progress journaled during earlier visits
+    offlineResilienceManager.initialize().catch(error => {
+      console.warn('Offline journal unavailable:', error);
+    });
+    setStatus(offlineResilienceManager.getSyncStatus());
+
+    return unsubscribe;
+  }, []);
+
+  return status;
+}
@@ -0,0 +1,18 @@
+/**
+ * Translation Hook
+ * The translator of the nearest I18nProvider, or the Swedish catalog without one
+ */
+
+import { createContext, useContext } from 'react';
+import { DEFAULT_LOCALE, createTranslator, sv, type Translator } from '../i18n';
+
+export interface I18nContextType extends Translator {
+  isLoading: boolean;
+}
+
+export const I18nContext = createContext<I18nContextType | null>(null);
+
+const swedishTranslator: I18nContextType = { ...createTranslator(DEFAULT_LOCALE, sv), isLoading: false };
+
+// Scenes are also rendered standalone (tests, DevShowcase), so without a provider they use Swedish
+export const useTranslation = (): I18nContextType => useContext(I18nContext) ?? swedishTranslator;
@@ -0,0 +1,41 @@
+/**
+ * Lazy catalog loading
+ * Swedish ships with the main bundle; other locales are separate chunks fetched on first use
+ */
+
+import { DEFAULT_LOCALE, type Locale } from './locales';
+import { sv, type Catalog } from './catalogs/sv';
+
+const catalogImports: Record<Exclude<Locale, 'sv'>, () => Promise<{ default: Catalog }>> = {
+  de: () => import('./catalogs/de'),
+  fr: () => import('./catalogs/fr'),
+  nl: () => import('./catalogs/nl'),
+  en: () => import('./catalogs/en')
+};
+
+const loadedCatalogs = new Map<Locale, Catalog>([[DEFAULT_LOCALE, sv]]);
+const pendingCatalogs = new Map<Locale, Promise<Catalog>>();
+
+// Synchronous access for catalogs already in memory, so switching back to a locale never flickers
+export const getLoadedCatalog = (locale: Locale): Catalog | undefined => loadedCatalogs.get(locale);
+
+export const loadCatalog = (locale: Locale): Promise<Catalog> => {
+  const loaded = loadedCatalogs.get(locale);
+  if (loaded) return Promise.resolve(loaded);
+
+  const pending = pendingCatalogs.get(locale);
+  if (pending) return pending;
+
+  const request = catalogImports[locale as keyof typeof catalogImports]()
+    .then(module => {
+      loadedCatalogs.set(locale, module.default);
+      return module.default;
+    })
+    .finally(() => {
+      // A failed chunk request may succeed later, so only successful loads are cached
+      pendingCatalogs.delete(locale);
+    });
+
+  pendingCatalogs.set(locale, request);
+  return request;
+};
@@ -0,0 +1,233 @@
+/**
+ * German message catalog
+ */
+
+import type { Catalog } from './sv';
+
+const de: Catalog = {
+  'common.questionProgress': 'Frage {current} von {total}',
+  'common.logoAlt': 'Logo {municipality}',
+  'common.loadingNext': 'Weiter...',
+  'common.loadingFinish': 'Wird abgeschlossen...',
+
+  'button.start': 'Schulung starten',
+  'button.continue': 'Weiter',
+  'button.submit': 'Antwort senden',
+  'button.cancel': 'Abbrechen',
+  'button.back': 'Zurück',
+  'button.next': 'Weiter',
+  'button.finish': 'Abschließen',
+  'button.tryAgain': 'Erneut versuchen',
+  'button.close': 'Schließen',
+  'button.help': 'Hilfe',
+  'button.support': 'Support kontaktieren',
+
+  'app.welcome': 'Willkommen, {name}',
+  'app.logout': 'Abmelden',
+  'app.gameFinished': 'Spiel beendet! 🎉',
+  'app.scoreLabel': 'Punkte:',
+  'app.timeLabel': 'Zeit:',
+  'app.seconds': '{seconds, plural, one {# Sekunde} other {# Sekunden}}',
+  'app.scenesLabel': 'Szenen:',
+  'app.startDemo': 'Demospiel starten',
+
+  'host.skipToContent': 'Zum Hauptinhalt springen',
+  'host.skipToActions': 'Zu den Aktionen springen',
+
+  'accessibility.open': 'Einstellungen zur Barrierefreiheit',
+  'accessibility.title': 'Barrierefreiheit',
+  'accessibility.description': 'Änderungen gelten sofort und werden für das nächste Mal gespeichert.',
+  'accessibility.highContrast': 'Hoher Kontrast',
+  'accessibility.largeText': 'Große Schrift',
+  'accessibility.reducedMotion': 'Bewegungen reduzieren',
+  'accessibility.systemSetting': 'Durch die Geräteeinstellungen festgelegt',
+  'accessibility.fontSize': 'Schriftgröße',
+  'accessibility.fontSize.small': 'Klein',
+  'accessibility.fontSize.medium': 'Normal',
+  'accessibility.fontSize.large': 'Groß',
+  'accessibility.fontSize.x-large': 'Sehr groß',
+  'accessibility.colorScheme': 'Farbschema',
+  'accessibility.colorScheme.default': 'Farben des Spiels',
+  'accessibility.colorScheme.high-contrast': 'Hoher Kontrast',
+  'accessibility.colorScheme.blue-yellow': 'Blau und Gelb (bei Rot-Grün-Sehschwäche)',
+  'accessibility.colorScheme.grayscale': 'Graustufen',
+
+  'sync.offline': 'Offline – Ihr Fortschritt wird auf dem Gerät gespeichert und synchronisiert, sobald Sie wieder online sind',
+  'sync.inProgress': 'Fortschritt wird synchronisiert…',
+  'sync.failed': 'Fortschritt konnte nicht synchronisiert werden – neuer Versuch erfolgt automatisch',
+  'sync.pending': '{count, plural, one {# Änderung wartet} other {# Änderungen warten}} auf Synchronisierung',
+
+  'resume.title': 'Machen Sie dort weiter, wo Sie aufgehört haben, {name}!',
+  'resume.incompleteCount': 'Sie haben {count, plural, one {# begonnene Schulung} other {# begonnene Schulungen}}:',
+  'resume.progress': 'Fortschritt: {count, plural, one {# Szene} other {# Szenen}} abgeschlossen',
+  'resume.startedAt': 'Begonnen: {date, date}',
+  'resume.startNew': 'Stattdessen neue Schulung beginnen',
+
+  'dialogue.noData': 'Keine Dialogdaten verfügbar',
+  'dialogue.chooseAnswer': 'Wählen Sie Ihre Antwort',
+  'dialogue.nextTurnLabel': 'Nächste Dialogrunde. {progress}',
+  'dialogue.progressAnnouncement': 'Dialogrunde {current} von {total}. {percent} % abgeschlossen.',
+  'dialogue.learningObjectives': 'Lernziele:',
+
+  'quiz.unknownQuestionType': 'Unbekannter Fragetyp',
+  'quiz.invalidOptionsTitle': 'Fehler in den Antwortoptionen',
+  'quiz.invalidOptionsHelp': 'Eine oder mehrere Antwortoptionen haben keinen Text. Bitte kontaktieren Sie den Support.',
+  'quiz.correct': 'Richtige Antwort!',
+  'quiz.incorrect': 'Falsche Antwort',
+  'quiz.submitLabel': 'Frage beantworten',
+  'quiz.keyboardShortcuts': '💡 Tastenkürzel: 1-{optionCount} zum Auswählen, Eingabetaste zum Antworten/Fortfahren',
+  'quiz.partiallyCorrect': 'Teilweise richtig: {credit, number, percent} Ihrer Antwort stimmen',
+  'quiz.enterShortcut': '💡 Tastenkürzel: Eingabetaste zum Antworten/Fortfahren',
+  'quiz.freeTextLabel': 'Ihre Antwort',
+  'quiz.numericLabel': 'Antworten Sie mit einer Zahl',
+  'quiz.orderingInstructions': 'Bringen Sie die Einträge mit den Schaltflächen nach oben und nach unten in die richtige Reihenfolge.',
+  'quiz.moveUp': '{item} nach oben verschieben',
+  'quiz.moveDown': '{item} nach unten verschieben',
+  'quiz.itemMoved': '{item} steht jetzt an Position {position} von {total}',
+  'quiz.matchingInstructions': 'Wählen Sie für jeden Begriff die passende Entsprechung.',
+  'quiz.matchPlaceholder': 'Auswählen…',
+  'quiz.hotspotInstructions': 'Klicken Sie auf den richtigen Bereich im Bild oder wechseln Sie mit Tab zwischen den Bereichen und wählen Sie mit der Eingabetaste.',
+  'quiz.hotspotSelected': 'Gewählter Bereich: {region}',
+  'quiz.hotspotMissed': 'Sie haben eine Stelle außerhalb der Bereiche gewählt',
+
+  'assessment.title': 'Bewertung',
+  'assessment.completedTitle': 'Bewertung abgeschlossen',
+  'assessment.attempt': 'Versuch {attempt}',
+  'assessment.previousQuestion': 'Zurück',
+  'assessment.nextQuestion': 'Nächste Frage',
+  'assessment.submit': 'Abgeben',
+  'assessment.points': '{score}/{maxScore} Punkte',
+  'assessment.passed': '🎉 Herzlichen Glückwunsch! Sie haben den Kurs bestanden',
+  'assessment.failed': '📚 Kurs nicht abgeschlossen',
+  'assessment.passedScore': 'Sie haben {score} % erreicht ({threshold} % erforderlich)',
+  'assessment.failedScore': 'Sie benötigen {threshold} % zum Bestehen (Sie haben {score} % erreicht)',
+  'assessment.resultsPerQuestion': 'Ergebnis pro Frage',
+  'assessment.achievements': 'Erreichte Ziele',
+  'assessment.achievement.firstTry': 'Erster Versuch',
+  'assessment.achievement.firstTryDescription': 'Bewertung im ersten Versuch bestanden',
+  'assessment.achievement.perfectScore': 'Volle Punktzahl',
+  'assessment.achievement.perfectScoreDescription': 'Bestmögliche Antwort auf alle Fragen',
+  'assessment.achievement.certified': 'Zertifiziert',
+  'assessment.certificateTitle': 'Zertifizierung erhalten',
+  'assessment.certificateBody': 'Sie haben {course} erfolgreich abgeschlossen und erfüllen die Anforderungen für die Zertifizierung in {area}.',
+  'assessment.defaultCourse': 'diesen Kurs',
+  'assessment.defaultArea': 'diesem Bereich',
+  'assessment.certificateValidUntil': 'Zertifizierung gültig bis: {date, date}',
+  'assessment.completedIn': 'Abgeschlossen in: {duration}',
+  'assessment.continue': 'Weiter zum nächsten Schritt',
+  'assessment.finishAnyway': 'Trotzdem beenden',
+  'assessment.shareWithManager': '📧 Ergebnis mit Vorgesetzten teilen',
+  'assessment.completedOn': 'Abgeschlossen: {date, date}',
+  'assessment.timeSpent': 'Zeit: {duration}',
+  'assessment.duration': '{minutes, plural, =0 {{seconds} Sek.} other {# Min. {seconds} Sek.}}',
+  'assessment.feedback.excellent': 'Ausgezeichnet! Sie verfügen über ein sehr gutes Verständnis des Themas.',
+  'assessment.feedback.good': 'Gut gemacht! Sie haben die Bewertung bestanden.',
+  'assessment.feedback.needsImprovement': 'Sie haben das Bestehensergebnis noch nicht erreicht. Wiederholen Sie den Stoff und versuchen Sie es erneut.',
+
+  'resource.title': 'Materialien und Ressourcen',
+  'resource.badge.pdf': 'PDF',
+  'resource.badge.video': 'Video',
+  'resource.badge.link': 'Link',
+  'resource.badge.download': 'Download',
+  'resource.action.pdf': 'Dokument lesen',
+  'resource.action.video': 'Video abspielen',
+  'resource.action.link': 'Link öffnen',
+  'resource.action.download': 'Herunterladen',
+  'resource.actionLabel': '{action}: {title}',
+  'resource.downloadLabel': '{action}: {title} ({size})',
+  'resource.externalLinkLabel': '{action}: {title} (öffnet in neuem Fenster, {hostname})',
+  'resource.externalSite': 'Externe Website: {hostname}',
+  'resource.unavailable': 'Die Ressource ist nicht verfügbar',
+  'resource.fileSize': 'Dateigröße {size}',
+  'resource.opened': 'Geöffnet',
+  'resource.openedCount': '{opened} von {total} Ressourcen geöffnet',
+  'resource.empty': 'Für diesen Abschnitt gibt es keine Ressourcen.',
+  'resource.videoFallback': 'Das Video kann hier nicht abgespielt werden - öffnen Sie es in einem neuen Fenster',
+  'resource.pdfTitle': 'PDF-Dokument: {title}',
+  'resource.openInNewWindow': 'Dokument in einem neuen Fenster öffnen',
+
+  'dragDrop.instructions': 'Ziehen Sie jede Karte in die richtige Kategorie oder wählen Sie eine Karte und drücken Sie „Hier ablegen“.',
+  'dragDrop.unsorted': 'Zu sortieren',
+  'dragDrop.unsortedLabel': 'Zu sortierende Karten',
+  'dragDrop.placeHere': 'Hier ablegen',
+  'dragDrop.placeHereLabel': 'Hier ablegen: {category}',
+  'dragDrop.correct': 'Richtig',
+  'dragDrop.wrongCategory': 'Falsche Kategorie',
+  'dragDrop.result': '{correct} von {total} richtig ({percentage} %)',
+  'dragDrop.sortedCount': '{sorted} von {total} sortiert',
+  'dragDrop.check': 'Überprüfen',
+
+  'workflow.handledCount': '{handled} von {total} Vorgängen bearbeitet',
+
+  'summary.regionLabel': 'Zusammenfassung der DSGVO-Schulung',
+  'summary.headerLabel': 'Kommune und Abschlussstatus',
+  'summary.title': 'DSGVO-Schulung abgeschlossen',
+  'summary.subtitle': 'Sie haben Ihre Kompetenzentwicklung erfolgreich abgeschlossen',
+  'summary.certifiedBy': 'Zertifiziert von {authority}',
+  'summary.passedStatus': 'Status bestanden',
+  'summary.passed': 'Bestanden',
+  'summary.notPassed': 'Nicht bestanden',
+  'summary.finalResult': 'Endergebnis',
+  'summary.timeAndScore': '{time} • {score} % Ergebnis',
+  'summary.timeAndScoreLabel': 'Zeit: {time}, Ergebnis: {score} Prozent',
+  'summary.certificateInfo': 'Zertifikatsinformationen',
+  'summary.certificate': 'Zertifikat',
+  'summary.certificateEarned': 'Zertifikat erhalten',
+  'summary.resultPresentation': 'Ergebnisübersicht',
+  'summary.scoreLabel': 'Endergebnis: {score} Prozent der möglichen Punkte',
+  'summary.sentToEmail': 'An Ihre dienstliche E-Mail-Adresse gesendet',
+  'summary.keyLearnings': 'Wichtige Erkenntnisse',
+  'summary.learningLabel': 'Erkenntnis {number}: {learning}',
+  'summary.nextSteps': 'Nächste Schritte',
+  'summary.stepLabel': 'Schritt {number}: {step}',
+  'summary.stepNumber': 'Schritt Nummer {number}',
+  'summary.actions': 'Aktionen',
+  'summary.finish': 'Schulung beenden',
+  'summary.finishLabel': 'Schulung beenden und zum Hauptmenü zurückkehren',
+  'summary.moreActions': 'Weitere Aktionen',
+  'summary.downloadCertificate': 'Zertifikat herunterladen',
+  'summary.downloadCertificateLabel': 'Ihr offizielles DSGVO-Zertifikat von {authority} herunterladen',
+  'summary.certificateFailed': 'Das Zertifikat konnte nicht erstellt werden. Bitte versuchen Sie es gleich noch einmal.',
+  'summary.workplaceResources': 'Ressourcen für den Arbeitsplatz',
+  'summary.workplaceResourcesLabel': 'Zugang zu DSGVO-Ressourcen und Werkzeugen für Ihren Arbeitsplatz',
+  'summary.footerLabel': 'Fußzeile mit Supportinformationen',
+  'summary.thanks': 'Vielen Dank, dass Sie Ihre Kompetenzentwicklung abgeschlossen haben!',
+  'summary.supportInfo': 'Supportinformationen',
+  'summary.support': 'Support: {contact}',
+  'summary.providersLabel': 'Anbieter: {municipality} und DigiNativa, Datum: {date, date}',
+
+  'certificate.heading': 'Zertifikat',
+  'certificate.intro': 'Hiermit wird bescheinigt, dass',
+  'certificate.completed': 'folgende Schulung abgeschlossen hat',
+  'certificate.area': 'Zertifizierungsbereich: {area}',
+  'certificate.score': 'Ergebnis: {percent, number, percent} ({achieved} von {total} Punkten)',
+  'certificate.date': 'Datum: {date, date}',
+  'certificate.issuedBy': 'Ausgestellt von {issuer}',
+  'certificate.verificationCode': 'Prüfcode: {code}',
+  'certificate.verifyAt': 'Zertifikat prüfen unter {url}',
+
+  'credential.title': 'Nachweis prüfen',
+  'credential.intro': 'Prüfen Sie, ob ein digitaler Nachweis echt, gültig und nicht widerrufen ist.',
+  'credential.loading': 'Nachweis wird geprüft…',
+  'credential.notFound': 'Nachweis nicht gefunden',
+  'credential.error': 'Die Prüfung ist derzeit nicht verfügbar. Bitte versuchen Sie es später erneut.',
+  'credential.status.valid': 'Der Nachweis ist echt und gültig',
+  'credential.status.revoked': 'Der Nachweis wurde vom Aussteller widerrufen',
+  'credential.status.expired': 'Der Nachweis ist abgelaufen',
+  'credential.status.not_yet_valid': 'Der Nachweis ist noch nicht gültig',
+  'credential.status.invalid_signature': 'Die Signatur des Nachweises stimmt nicht',
+  'credential.status.unknown_issuer': 'Der Aussteller konnte nicht ermittelt werden',
+  'credential.status.status_unavailable': 'Der Widerrufsstatus des Nachweises konnte nicht geprüft werden',
+  'credential.status.malformed': 'Dies ist kein gültiger digitaler Nachweis',
+  'credential.holder': 'Inhaber',
+  'credential.achievement': 'Leistung',
+  'credential.issuer': 'Aussteller',
+  'credential.issued': 'Ausgestellt am {date, date}',
+  'credential.expires': 'Gültig bis {date, date}',
+  'credential.pasteLabel': 'Digitalen Nachweis einfügen (VC-JWT)',
+  'credential.verify': 'Prüfen',
+  'credential.qrLabel': 'QR-Code mit Link zur Prüfung dieses Nachweises',
+  'credential.qrHint': 'Scannen Sie den Code, um den Nachweis auf einem anderen Gerät zu prüfen'
+};
+
+export default de;
@@ -0,0 +1,233 @@
+/**
+ * English message catalog
+ */
+
+import type { Catalog } from './sv';
+
+const en: Catalog = {
+  'common.questionProgress': 'Question {current} of {total}',
+  'common.logoAlt': '{municipality} logo',
+  'common.loadingNext': 'Next...',
+  'common.loadingFinish': 'Finishing...',
+
+  'button.start': 'Start the training',
+  'button.continue': 'Continue',
+  'button.submit': 'Submit answer',
+  'button.cancel': 'Cancel',
+  'button.back': 'Back',
+  'button.next': 'Next',
+  'button.finish': 'Finish',
+  'button.tryAgain': 'Try again',
+  'button.close': 'Close',
+  'button.help': 'Help',
+  'button.support': 'Contact support',
+
+  'app.welcome': 'Welcome, {name}',
+  'app.logout': 'Log out',
+  'app.gameFinished': 'Game finished! 🎉',
+  'app.scoreLabel': 'Score:',
+  'app.timeLabel': 'Time:',
+  'app.seconds': '{seconds, plural, one {# second} other {# seconds}}',
+  'app.scenesLabel': 'Scenes:',
+  'app.startDemo': 'Start demo game',
+
+  'host.skipToContent': 'Skip to main content',
+  'host.skipToActions': 'Skip to actions',
+
+  'accessibility.open': 'Accessibility settings',
+  'accessibility.title': 'Accessibility',
+  'accessibility.description': 'Changes apply immediately and are saved for next time.',
+  'accessibility.highContrast': 'High contrast',
+  'accessibility.largeText': 'Large text',
+  'accessibility.reducedMotion': 'Reduce motion',
+  'accessibility.systemSetting': 'Set by your device settings',
+  'accessibility.fontSize': 'Text size',
+  'accessibility.fontSize.small': 'Small',
+  'accessibility.fontSize.medium': 'Normal',
+  'accessibility.fontSize.large': 'Large',
+  'accessibility.fontSize.x-large': 'Extra large',
+  'accessibility.colorScheme': 'Color scheme',
+  'accessibility.colorScheme.default': 'Game colors',
+  'accessibility.colorScheme.high-contrast': 'High contrast',
+  'accessibility.colorScheme.blue-yellow': 'Blue and yellow (for red-green color blindness)',
+  'accessibility.colorScheme.grayscale': 'Grayscale',
+
+  'sync.offline': 'Offline – your progress is saved on this device and syncs when you are back online',
+  'sync.inProgress': 'Syncing progress…',
+  'sync.failed': 'Could not sync progress – retrying automatically',
+  'sync.pending': '{count, plural, one {# change is} other {# changes are}} waiting to sync',
+
+  'resume.title': 'Continue where you left off, {name}!',
+  'resume.incompleteCount': 'You have {count, plural, one {# training} other {# trainings}} in progress:',
+  'resume.progress': 'Progress: {count, plural, one {# scene} other {# scenes}} completed',
+  'resume.startedAt': 'Started: {date, date}',
+  'resume.startNew': 'Start a new training instead',
+
+  'dialogue.noData': 'No dialogue data available',
+  'dialogue.chooseAnswer': 'Choose your answer',
+  'dialogue.nextTurnLabel': 'Next dialogue turn. {progress}',
+  'dialogue.progressAnnouncement': 'Dialogue turn {current} of {total}. {percent}% complete.',
+  'dialogue.learningObjectives': 'Learning objectives:',
+
+  'quiz.unknownQuestionType': 'Unknown question type',
+  'quiz.invalidOptionsTitle': 'Error in the answer options',
+  'quiz.invalidOptionsHelp': 'One or more answer options have no text. Please contact support.',
+  'quiz.correct': 'Correct!',
+  'quiz.incorrect': 'Incorrect',
+  'quiz.submitLabel': 'Answer the question',
+  'quiz.keyboardShortcuts': '💡 Keyboard shortcuts: press 1-{optionCount} to choose, Enter to answer/continue',
+  'quiz.partiallyCorrect': 'Partly correct: {credit, number, percent} of your answer is right',
+  'quiz.enterShortcut': '💡 Keyboard shortcuts: Enter to answer/continue',
+  'quiz.freeTextLabel': 'Your answer',
+  'quiz.numericLabel': 'Answer with a number',
+  'quiz.orderingInstructions': 'Put the items in the right order with the move up and move down buttons.',
+  'quiz.moveUp': 'Move {item} up',
+  'quiz.moveDown': 'Move {item} down',
+  'quiz.itemMoved': '{item} is now in position {position} of {total}',
+  'quiz.matchingInstructions': 'Choose the right match for each term.',
+  'quiz.matchPlaceholder': 'Choose…',
+  'quiz.hotspotInstructions': 'Click the right area of the image, or move between the areas with Tab and choose with Enter.',
+  'quiz.hotspotSelected': 'Selected area: {region}',
+  'quiz.hotspotMissed': 'You chose a spot outside the areas',
+
+  'assessment.title': 'Assessment',
+  'assessment.completedTitle': 'Assessment completed',
+  'assessment.attempt': 'Attempt {attempt}',
+  'assessment.previousQuestion': 'Previous',
+  'assessment.nextQuestion': 'Next question',
+  'assessment.submit': 'Submit',
+  'assessment.points': '{score}/{maxScore} points',
+  'assessment.passed': '🎉 Congratulations! You passed the course',
+  'assessment.failed': '📚 Course not completed',
+  'assessment.passedScore': 'You scored {score}% ({threshold}% required)',
+  'assessment.failedScore': 'You need {threshold}% to pass (you scored {score}%)',
+  'assessment.resultsPerQuestion': 'Results per question',
+  'assessment.achievements': 'Achievements',
+  'assessment.achievement.firstTry': 'First attempt',
+  'assessment.achievement.firstTryDescription': 'Passed the assessment on the first attempt',
+  'assessment.achievement.perfectScore': 'Perfect score',
+  'assessment.achievement.perfectScoreDescription': 'Best possible answer to every question',
+  'assessment.achievement.certified': 'Certified',
+  'assessment.certificateTitle': 'Certification earned',
+  'assessment.certificateBody': 'You have successfully completed {course} and meet the requirements for certification in {area}.',
+  'assessment.defaultCourse': 'this course',
+  'assessment.defaultArea': 'this area',
+  'assessment.certificateValidUntil': 'Certification valid until: {date, date}',
+  'assessment.completedIn': 'Completed in: {duration}',
+  'assessment.continue': 'Continue to the next step',
+  'assessment.finishAnyway': 'Finish anyway',
+  'assessment.shareWithManager': '📧 Share results with your manager',
+  'assessment.completedOn': 'Completed: {date, date}',
+  'assessment.timeSpent': 'Time: {duration}',
+  'assessment.duration': '{minutes, plural, =0 {{seconds} s} other {# min {seconds} s}}',
+  'assessment.feedback.excellent': 'Excellent! You have a very good understanding of the subject.',
+  'assessment.feedback.good': 'Well done! You have passed the assessment.',
+  'assessment.feedback.needsImprovement': 'You have not reached a passing score yet. Review the material and try again.',
+
+  'resource.title': 'Materials and resources',
+  'resource.badge.pdf': 'PDF',
+  'resource.badge.video': 'Video',
+  'resource.badge.link': 'Link',
+  'resource.badge.download': 'Download',
+  'resource.action.pdf': 'Read document',
+  'resource.action.video': 'Play video',
+  'resource.action.link': 'Open link',
+  'resource.action.download': 'Download',
+  'resource.actionLabel': '{action}: {title}',
+  'resource.downloadLabel': '{action}: {title} ({size})',
+  'resource.externalLinkLabel': '{action}: {title} (opens in a new window, {hostname})',
+  'resource.externalSite': 'External website: {hostname}',
+  'resource.unavailable': 'This resource is not available',
+  'resource.fileSize': 'File size {size}',
+  'resource.opened': 'Opened',
+  'resource.openedCount': '{opened} of {total} resources opened',
+  'resource.empty': 'There are no resources for this section.',
+  'resource.videoFallback': 'The video cannot be played here - open it in a new window',
+  'resource.pdfTitle': 'PDF document: {title}',
+  'resource.openInNewWindow': 'Open the document in a new window',
+
+  'dragDrop.instructions': 'Drag each card to the right category, or select a card and press "Place here".',
+  'dragDrop.unsorted': 'To sort',
+  'dragDrop.unsortedLabel': 'Cards to sort',
+  'dragDrop.placeHere': 'Place here',
+  'dragDrop.placeHereLabel': 'Place here: {category}',
+  'dragDrop.correct': 'Correct',
+  'dragDrop.wrongCategory': 'Wrong category',
+  'dragDrop.result': '{correct} of {total} correct ({percentage}%)',
+  'dragDrop.sortedCount': '{sorted} of {total} sorted',
+  'dragDrop.check': 'Check',
+
+  'workflow.handledCount': '{handled} of {total} cases handled',
+
+  'summary.regionLabel': 'GDPR training summary',
+  'summary.headerLabel': 'Municipality and completion status',
+  'summary.title': 'GDPR training completed',
+  'summary.subtitle': 'You have successfully completed your professional development',
+  'summary.certifiedBy': 'Certified by {authority}',
+  'summary.passedStatus': 'Passed status',
+  'summary.passed': 'Passed',
+  'summary.notPassed': 'Not passed',
+  'summary.finalResult': 'Final result',
+  'summary.timeAndScore': '{time} • {score}% score',
+  'summary.timeAndScoreLabel': 'Time: {time}, Score: {score} percent',
+  'summary.certificateInfo': 'Certificate information',
+  'summary.certificate': 'Certificate',
+  'summary.certificateEarned': 'Certificate earned',
+  'summary.resultPresentation': 'Result overview',
+  'summary.scoreLabel': 'Final result: {score} percent of possible points',
+  'summary.sentToEmail': 'Sent to your work email',
+  'summary.keyLearnings': 'Key learnings',
+  'summary.learningLabel': 'Learning {number}: {learning}',
+  'summary.nextSteps': 'Next steps',
+  'summary.stepLabel': 'Step {number}: {step}',
+  'summary.stepNumber': 'Step number {number}',
+  'summary.actions': 'Actions',
+  'summary.finish': 'Finish the training',
+  'summary.finishLabel': 'Finish the training and return to the main menu',
+  'summary.moreActions': 'More actions',
+  'summary.downloadCertificate': 'Download certificate',
+  'summary.downloadCertificateLabel': 'Download your official GDPR certificate from {authority}',
+  'summary.certificateFailed': 'The certificate could not be created. Please try again shortly.',
+  'summary.workplaceResources': 'Workplace resources',
+  'summary.workplaceResourcesLabel': 'Access GDPR resources and tools for your workplace',
+  'summary.footerLabel': 'Page footer with support information',
+  'summary.thanks': 'Thank you for completing your professional development!',
+  'summary.supportInfo': 'Support information',
+  'summary.support': 'Support: {contact}',
+  'summary.providersLabel': 'Providers: {municipality} and DigiNativa, date: {date, date}',
+
+  'certificate.heading': 'Certificate',
+  'certificate.intro': 'This is to certify that',
+  'certificate.completed': 'has completed the training',
+  'certificate.area': 'Certification area: {area}',
+  'certificate.score': 'Result: {percent, number, percent} ({achieved} of {total} points)',
+  'certificate.date': 'Date: {date, date}',
+  'certificate.issuedBy': 'Issued by {issuer}',
+  'certificate.verificationCode': 'Verification code: {code}',
+  'certificate.verifyAt': 'Verify this certificate at {url}',
+
+  'credential.title': 'Verify credential',
+  'credential.intro': 'Check that a digital credential is authentic, valid and not revoked.',
+  'credential.loading': 'Checking the credential…',
+  'credential.notFound': 'Credential not found',
+  'credential.error': 'Verification is unavailable right now. Please try again later.',
+  'credential.status.valid': 'The credential is authentic and valid',
+  'credential.status.revoked': 'The credential has been revoked by its issuer',
+  'credential.status.expired': 'The credential has expired',
+  'credential.status.not_yet_valid': 'The credential is not valid yet',
+  'credential.status.invalid_signature': 'The credential signature does not match',
+  'credential.status.unknown_issuer': 'The issuer could not be identified',
+  'credential.status.status_unavailable': 'The revocation status of the credential could not be checked',
+  'credential.status.malformed': 'This is not a valid digital credential',
+  'credential.holder': 'Holder',
+  'credential.achievement': 'Achievement',
+  'credential.issuer': 'Issuer',
+  'credential.issued': 'Issued {date, date}',
+  'credential.expires': 'Valid until {date, date}',
+  'credential.pasteLabel': 'Paste a digital credential (VC-JWT)',
+  'credential.verify': 'Verify',
+  'credential.qrLabel': 'QR code linking to the verification of this credential',
+  'credential.qrHint': 'Scan the code to verify the credential on another device'
+};
+
+export default en;
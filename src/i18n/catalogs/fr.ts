@@ -0,0 +1,234 @@
+/**
+ * French message catalog
+ * Apostrophes only quote when they precede ICU syntax, so elisions are written as-is
+ */
+
+import type { Catalog } from './sv';
+
+const fr: Catalog = {
+  'common.questionProgress': 'Question {current} sur {total}',
+  'common.logoAlt': 'Logo {municipality}',
+  'common.loadingNext': 'Suivant...',
+  'common.loadingFinish': 'Finalisation...',
+
+  'button.start': 'Commencer la formation',
+  'button.continue': 'Continuer',
+  'button.submit': 'Envoyer la réponse',
+  'button.cancel': 'Annuler',
+  'button.back': 'Retour',
+  'button.next': 'Suivant',
+  'button.finish': 'Terminer',
+  'button.tryAgain': 'Réessayer',
+  'button.close': 'Fermer',
+  'button.help': 'Aide',
+  'button.support': 'Contacter le support',
+
+  'app.welcome': 'Bienvenue, {name}',
+  'app.logout': 'Se déconnecter',
+  'app.gameFinished': 'Jeu terminé ! 🎉',
+  'app.scoreLabel': 'Points :',
+  'app.timeLabel': 'Temps :',
+  'app.seconds': '{seconds, plural, one {# seconde} other {# secondes}}',
+  'app.scenesLabel': 'Scènes :',
+  'app.startDemo': 'Lancer le jeu de démonstration',
+
+  'host.skipToContent': 'Aller au contenu principal',
+  'host.skipToActions': 'Aller aux actions',
+
+  'accessibility.open': 'Paramètres d’accessibilité',
+  'accessibility.title': 'Accessibilité',
+  'accessibility.description': 'Les modifications s’appliquent immédiatement et sont enregistrées pour la prochaine fois.',
+  'accessibility.highContrast': 'Contraste élevé',
+  'accessibility.largeText': 'Texte agrandi',
+  'accessibility.reducedMotion': 'Réduire les animations',
+  'accessibility.systemSetting': 'Défini par les réglages de votre appareil',
+  'accessibility.fontSize': 'Taille du texte',
+  'accessibility.fontSize.small': 'Petite',
+  'accessibility.fontSize.medium': 'Normale',
+  'accessibility.fontSize.large': 'Grande',
+  'accessibility.fontSize.x-large': 'Très grande',
+  'accessibility.colorScheme': 'Jeu de couleurs',
+  'accessibility.colorScheme.default': 'Couleurs du jeu',
+  'accessibility.colorScheme.high-contrast': 'Contraste élevé',
+  'accessibility.colorScheme.blue-yellow': 'Bleu et jaune (pour le daltonisme rouge-vert)',
+  'accessibility.colorScheme.grayscale': 'Niveaux de gris',
+
+  'sync.offline': 'Hors ligne – votre progression est enregistrée sur cet appareil et sera synchronisée dès votre reconnexion',
+  'sync.inProgress': 'Synchronisation de la progression…',
+  'sync.failed': 'Impossible de synchroniser la progression – nouvelle tentative automatique',
+  'sync.pending': '{count, plural, one {# modification en attente} other {# modifications en attente}} de synchronisation',
+
+  'resume.title': 'Reprenez là où vous vous êtes arrêté, {name} !',
+  'resume.incompleteCount': 'Vous avez {count, plural, one {# formation commencée} other {# formations commencées}} :',
+  'resume.progress': 'Progression : {count, plural, one {# scène terminée} other {# scènes terminées}}',
+  'resume.startedAt': 'Commencée le : {date, date}',
+  'resume.startNew': 'Commencer une nouvelle formation',
+
+  'dialogue.noData': 'Aucune donnée de dialogue disponible',
+  'dialogue.chooseAnswer': 'Choisissez votre réponse',
+  'dialogue.nextTurnLabel': 'Tour de dialogue suivant. {progress}',
+  'dialogue.progressAnnouncement': 'Tour de dialogue {current} sur {total}. {percent} % terminé.',
+  'dialogue.learningObjectives': 'Objectifs pédagogiques :',
+
+  'quiz.unknownQuestionType': 'Type de question inconnu',
+  'quiz.invalidOptionsTitle': 'Erreur dans les options de réponse',
+  'quiz.invalidOptionsHelp': 'Une ou plusieurs options de réponse sont sans texte. Veuillez contacter le support.',
+  'quiz.correct': 'Bonne réponse !',
+  'quiz.incorrect': 'Mauvaise réponse',
+  'quiz.submitLabel': 'Répondre à la question',
+  'quiz.keyboardShortcuts': '💡 Raccourcis clavier : appuyez sur 1-{optionCount} pour choisir, Entrée pour répondre/continuer',
+  'quiz.partiallyCorrect': 'Partiellement correct : {credit, number, percent} de votre réponse est juste',
+  'quiz.enterShortcut': '💡 Raccourcis clavier : Entrée pour répondre/continuer',
+  'quiz.freeTextLabel': 'Votre réponse',
+  'quiz.numericLabel': 'Répondez par un nombre',
+  'quiz.orderingInstructions': 'Placez les éléments dans le bon ordre avec les boutons monter et descendre.',
+  'quiz.moveUp': 'Monter {item}',
+  'quiz.moveDown': 'Descendre {item}',
+  'quiz.itemMoved': '{item} est maintenant en position {position} sur {total}',
+  'quiz.matchingInstructions': 'Choisissez la bonne correspondance pour chaque terme.',
+  'quiz.matchPlaceholder': 'Choisir…',
+  'quiz.hotspotInstructions': 'Cliquez sur la bonne zone de l\'image, ou passez d\'une zone à l\'autre avec Tab et choisissez avec Entrée.',
+  'quiz.hotspotSelected': 'Zone choisie : {region}',
+  'quiz.hotspotMissed': 'Vous avez choisi un point en dehors des zones',
+
+  'assessment.title': 'Évaluation',
+  'assessment.completedTitle': 'Évaluation terminée',
+  'assessment.attempt': 'Tentative {attempt}',
+  'assessment.previousQuestion': 'Précédente',
+  'assessment.nextQuestion': 'Question suivante',
+  'assessment.submit': 'Valider',
+  'assessment.points': '{score}/{maxScore} points',
+  'assessment.passed': '🎉 Félicitations ! Vous avez réussi le cours',
+  'assessment.failed': '📚 Cours non terminé',
+  'assessment.passedScore': 'Vous avez obtenu {score} % ({threshold} % requis)',
+  'assessment.failedScore': 'Il vous faut {threshold} % pour réussir (vous avez obtenu {score} %)',
+  'assessment.resultsPerQuestion': 'Résultats par question',
+  'assessment.achievements': 'Objectifs atteints',
+  'assessment.achievement.firstTry': 'Premier essai',
+  'assessment.achievement.firstTryDescription': 'Évaluation réussie dès le premier essai',
+  'assessment.achievement.perfectScore': 'Score parfait',
+  'assessment.achievement.perfectScoreDescription': 'Meilleure réponse possible à toutes les questions',
+  'assessment.achievement.certified': 'Certifié',
+  'assessment.certificateTitle': 'Certification obtenue',
+  'assessment.certificateBody': 'Vous avez terminé avec succès {course} et remplissez les conditions de certification pour {area}.',
+  'assessment.defaultCourse': 'ce cours',
+  'assessment.defaultArea': 'ce domaine',
+  'assessment.certificateValidUntil': 'Certification valable jusqu’au : {date, date}',
+  'assessment.completedIn': 'Terminé en : {duration}',
+  'assessment.continue': 'Passer à l’étape suivante',
+  'assessment.finishAnyway': 'Terminer quand même',
+  'assessment.shareWithManager': '📧 Partager les résultats avec votre responsable',
+  'assessment.completedOn': 'Terminé le : {date, date}',
+  'assessment.timeSpent': 'Temps : {duration}',
+  'assessment.duration': '{minutes, plural, =0 {{seconds} s} other {# min {seconds} s}}',
+  'assessment.feedback.excellent': 'Excellent ! Vous maîtrisez très bien le sujet.',
+  'assessment.feedback.good': 'Bravo ! Vous avez réussi l’évaluation.',
+  'assessment.feedback.needsImprovement': 'Vous n’avez pas encore atteint le score requis. Révisez le contenu et réessayez.',
+
+  'resource.title': 'Supports et ressources',
+  'resource.badge.pdf': 'PDF',
+  'resource.badge.video': 'Vidéo',
+  'resource.badge.link': 'Lien',
+  'resource.badge.download': 'Téléchargement',
+  'resource.action.pdf': 'Lire le document',
+  'resource.action.video': 'Lire la vidéo',
+  'resource.action.link': 'Ouvrir le lien',
+  'resource.action.download': 'Télécharger',
+  'resource.actionLabel': '{action} : {title}',
+  'resource.downloadLabel': '{action} : {title} ({size})',
+  'resource.externalLinkLabel': '{action} : {title} (s’ouvre dans une nouvelle fenêtre, {hostname})',
+  'resource.externalSite': 'Site externe : {hostname}',
+  'resource.unavailable': 'La ressource n’est pas disponible',
+  'resource.fileSize': 'Taille du fichier {size}',
+  'resource.opened': 'Ouvert',
+  'resource.openedCount': '{opened} ressources ouvertes sur {total}',
+  'resource.empty': 'Aucune ressource pour cette section.',
+  'resource.videoFallback': 'La vidéo ne peut pas être lue ici - ouvrez-la dans une nouvelle fenêtre',
+  'resource.pdfTitle': 'Document PDF : {title}',
+  'resource.openInNewWindow': 'Ouvrir le document dans une nouvelle fenêtre',
+
+  'dragDrop.instructions': 'Faites glisser chaque carte dans la bonne catégorie, ou sélectionnez une carte et appuyez sur « Placer ici ».',
+  'dragDrop.unsorted': 'À trier',
+  'dragDrop.unsortedLabel': 'Cartes à trier',
+  'dragDrop.placeHere': 'Placer ici',
+  'dragDrop.placeHereLabel': 'Placer ici : {category}',
+  'dragDrop.correct': 'Correct',
+  'dragDrop.wrongCategory': 'Mauvaise catégorie',
+  'dragDrop.result': '{correct} sur {total} corrects ({percentage} %)',
+  'dragDrop.sortedCount': '{sorted} sur {total} triés',
+  'dragDrop.check': 'Vérifier',
+
+  'workflow.handledCount': '{handled} dossiers traités sur {total}',
+
+  'summary.regionLabel': 'Résumé de la formation RGPD',
+  'summary.headerLabel': 'Commune et statut de la formation',
+  'summary.title': 'Formation RGPD terminée',
+  'summary.subtitle': 'Vous avez terminé avec succès votre développement des compétences',
+  'summary.certifiedBy': 'Certifié par {authority}',
+  'summary.passedStatus': 'Statut réussi',
+  'summary.passed': 'Réussi',
+  'summary.notPassed': 'Non réussi',
+  'summary.finalResult': 'Résultat final',
+  'summary.timeAndScore': '{time} • {score} % de réussite',
+  'summary.timeAndScoreLabel': 'Temps : {time}, Résultat : {score} pour cent',
+  'summary.certificateInfo': 'Informations sur le certificat',
+  'summary.certificate': 'Certificat',
+  'summary.certificateEarned': 'Certificat obtenu',
+  'summary.resultPresentation': 'Présentation des résultats',
+  'summary.scoreLabel': 'Résultat final : {score} pour cent des points possibles',
+  'summary.sentToEmail': 'Envoyé à votre adresse e-mail professionnelle',
+  'summary.keyLearnings': 'Points clés',
+  'summary.learningLabel': 'Point clé {number} : {learning}',
+  'summary.nextSteps': 'Prochaines étapes',
+  'summary.stepLabel': 'Étape {number} : {step}',
+  'summary.stepNumber': 'Étape numéro {number}',
+  'summary.actions': 'Actions',
+  'summary.finish': 'Terminer la formation',
+  'summary.finishLabel': 'Terminer la formation et revenir au menu principal',
+  'summary.moreActions': 'Autres actions',
+  'summary.downloadCertificate': 'Télécharger le certificat',
+  'summary.downloadCertificateLabel': 'Télécharger votre certificat RGPD officiel délivré par {authority}',
+  'summary.certificateFailed': 'Le certificat n\'a pas pu être créé. Veuillez réessayer dans un instant.',
+  'summary.workplaceResources': 'Ressources pour le lieu de travail',
+  'summary.workplaceResourcesLabel': 'Accéder aux ressources et outils RGPD pour votre lieu de travail',
+  'summary.footerLabel': 'Pied de page avec informations de support',
+  'summary.thanks': 'Merci d\'avoir terminé votre développement des compétences !',
+  'summary.supportInfo': 'Informations de support',
+  'summary.support': 'Support : {contact}',
+  'summary.providersLabel': 'Fournisseurs : {municipality} et DigiNativa, date : {date, date}',
+
+  'certificate.heading': 'Certificat',
+  'certificate.intro': 'Nous certifions que',
+  'certificate.completed': 'a suivi la formation',
+  'certificate.area': 'Domaine de certification : {area}',
+  'certificate.score': 'Résultat : {percent, number, percent} ({achieved} sur {total} points)',
+  'certificate.date': 'Date : {date, date}',
+  'certificate.issuedBy': 'Délivré par {issuer}',
+  'certificate.verificationCode': 'Code de vérification : {code}',
+  'certificate.verifyAt': 'Vérifiez ce certificat sur {url}',
+
+  'credential.title': 'Vérifier une attestation',
+  'credential.intro': 'Vérifiez qu\'une attestation numérique est authentique, valide et non révoquée.',
+  'credential.loading': 'Vérification de l\'attestation…',
+  'credential.notFound': 'Attestation introuvable',
+  'credential.error': 'La vérification est indisponible pour le moment. Veuillez réessayer plus tard.',
+  'credential.status.valid': 'L\'attestation est authentique et valide',
+  'credential.status.revoked': 'L\'attestation a été révoquée par son émetteur',
+  'credential.status.expired': 'L\'attestation a expiré',
+  'credential.status.not_yet_valid': 'L\'attestation n\'est pas encore valide',
+  'credential.status.invalid_signature': 'La signature de l\'attestation ne correspond pas',
+  'credential.status.unknown_issuer': 'L\'émetteur n\'a pas pu être identifié',
+  'credential.status.status_unavailable': 'Le statut de révocation de l\'attestation n\'a pas pu être vérifié',
+  'credential.status.malformed': 'Ceci n\'est pas une attestation numérique valide',
+  'credential.holder': 'Titulaire',
+  'credential.achievement': 'Réussite',
+  'credential.issuer': 'Émetteur',
+  'credential.issued': 'Délivrée le {date, date}',
+  'credential.expires': 'Valide jusqu\'au {date, date}',
+  'credential.pasteLabel': 'Collez une attestation numérique (VC-JWT)',
+  'credential.verify': 'Vérifier',
+  'credential.qrLabel': 'Code QR menant à la vérification de cette attestation',
+  'credential.qrHint': 'Scannez le code pour vérifier l\'attestation sur un autre appareil'
+};
+
+export default fr;
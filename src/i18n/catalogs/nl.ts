@@ -0,0 +1,233 @@
+/**
+ * Dutch message catalog
+ */
+
+import type { Catalog } from './sv';
+
+const nl: Catalog = {
+  'common.questionProgress': 'Vraag {current} van {total}',
+  'common.logoAlt': 'Logo {municipality}',
+  'common.loadingNext': 'Volgende...',
+  'common.loadingFinish': 'Afronden...',
+
+  'button.start': 'Training starten',
+  'button.continue': 'Doorgaan',
+  'button.submit': 'Antwoord versturen',
+  'button.cancel': 'Annuleren',
+  'button.back': 'Terug',
+  'button.next': 'Volgende',
+  'button.finish': 'Voltooien',
+  'button.tryAgain': 'Opnieuw proberen',
+  'button.close': 'Sluiten',
+  'button.help': 'Help',
+  'button.support': 'Contact opnemen',
+
+  'app.welcome': 'Welkom, {name}',
+  'app.logout': 'Uitloggen',
+  'app.gameFinished': 'Spel voltooid! 🎉',
+  'app.scoreLabel': 'Punten:',
+  'app.timeLabel': 'Tijd:',
+  'app.seconds': '{seconds, plural, one {# seconde} other {# seconden}}',
+  'app.scenesLabel': 'Scènes:',
+  'app.startDemo': 'Demospel starten',
+
+  'host.skipToContent': 'Naar hoofdinhoud',
+  'host.skipToActions': 'Naar acties',
+
+  'accessibility.open': 'Toegankelijkheidsinstellingen',
+  'accessibility.title': 'Toegankelijkheid',
+  'accessibility.description': 'Wijzigingen gelden direct en worden bewaard voor de volgende keer.',
+  'accessibility.highContrast': 'Hoog contrast',
+  'accessibility.largeText': 'Grote tekst',
+  'accessibility.reducedMotion': 'Beweging beperken',
+  'accessibility.systemSetting': 'Ingesteld via je apparaatinstellingen',
+  'accessibility.fontSize': 'Tekstgrootte',
+  'accessibility.fontSize.small': 'Klein',
+  'accessibility.fontSize.medium': 'Normaal',
+  'accessibility.fontSize.large': 'Groot',
+  'accessibility.fontSize.x-large': 'Extra groot',
+  'accessibility.colorScheme': 'Kleurenschema',
+  'accessibility.colorScheme.default': 'Kleuren van het spel',
+  'accessibility.colorScheme.high-contrast': 'Hoog contrast',
+  'accessibility.colorScheme.blue-yellow': 'Blauw en geel (bij rood-groenblindheid)',
+  'accessibility.colorScheme.grayscale': 'Grijstinten',
+
+  'sync.offline': 'Offline – je voortgang wordt op dit apparaat opgeslagen en gesynchroniseerd zodra je weer online bent',
+  'sync.inProgress': 'Voortgang synchroniseren…',
+  'sync.failed': 'Voortgang kon niet worden gesynchroniseerd – er wordt automatisch opnieuw geprobeerd',
+  'sync.pending': '{count, plural, one {# wijziging wacht} other {# wijzigingen wachten}} op synchronisatie',
+
+  'resume.title': 'Ga verder waar je gebleven was, {name}!',
+  'resume.incompleteCount': 'Je hebt {count, plural, one {# begonnen training} other {# begonnen trainingen}}:',
+  'resume.progress': 'Voortgang: {count, plural, one {# scène} other {# scènes}} voltooid',
+  'resume.startedAt': 'Gestart: {date, date}',
+  'resume.startNew': 'In plaats daarvan een nieuwe training starten',
+
+  'dialogue.noData': 'Geen dialooggegevens beschikbaar',
+  'dialogue.chooseAnswer': 'Kies je antwoord',
+  'dialogue.nextTurnLabel': 'Volgende dialoogronde. {progress}',
+  'dialogue.progressAnnouncement': 'Dialoogronde {current} van {total}. {percent}% voltooid.',
+  'dialogue.learningObjectives': 'Leerdoelen:',
+
+  'quiz.unknownQuestionType': 'Onbekend vraagtype',
+  'quiz.invalidOptionsTitle': 'Fout in de antwoordopties',
+  'quiz.invalidOptionsHelp': 'Een of meer antwoordopties hebben geen tekst. Neem contact op met support.',
+  'quiz.correct': 'Goed antwoord!',
+  'quiz.incorrect': 'Fout antwoord',
+  'quiz.submitLabel': 'Beantwoord de vraag',
+  'quiz.keyboardShortcuts': '💡 Sneltoetsen: druk op 1-{optionCount} om te kiezen, Enter om te antwoorden/door te gaan',
+  'quiz.partiallyCorrect': 'Gedeeltelijk goed: {credit, number, percent} van je antwoord klopt',
+  'quiz.enterShortcut': '💡 Sneltoetsen: Enter om te antwoorden/door te gaan',
+  'quiz.freeTextLabel': 'Je antwoord',
+  'quiz.numericLabel': 'Antwoord met een getal',
+  'quiz.orderingInstructions': 'Zet de items in de juiste volgorde met de knoppen omhoog en omlaag.',
+  'quiz.moveUp': '{item} omhoog verplaatsen',
+  'quiz.moveDown': '{item} omlaag verplaatsen',
+  'quiz.itemMoved': '{item} staat nu op plaats {position} van {total}',
+  'quiz.matchingInstructions': 'Kies bij elk begrip de juiste tegenhanger.',
+  'quiz.matchPlaceholder': 'Kies…',
+  'quiz.hotspotInstructions': 'Klik op het juiste gebied in de afbeelding, of ga met Tab tussen de gebieden en kies met Enter.',
+  'quiz.hotspotSelected': 'Gekozen gebied: {region}',
+  'quiz.hotspotMissed': 'Je koos een plek buiten de gebieden',
+
+  'assessment.title': 'Beoordeling',
+  'assessment.completedTitle': 'Beoordeling voltooid',
+  'assessment.attempt': 'Poging {attempt}',
+  'assessment.previousQuestion': 'Vorige',
+  'assessment.nextQuestion': 'Volgende vraag',
+  'assessment.submit': 'Inleveren',
+  'assessment.points': '{score}/{maxScore} punten',
+  'assessment.passed': '🎉 Gefeliciteerd! Je bent geslaagd voor de cursus',
+  'assessment.failed': '📚 Cursus niet voltooid',
+  'assessment.passedScore': 'Je scoorde {score}% ({threshold}% vereist)',
+  'assessment.failedScore': 'Je hebt {threshold}% nodig om te slagen (je scoorde {score}%)',
+  'assessment.resultsPerQuestion': 'Resultaat per vraag',
+  'assessment.achievements': 'Behaalde doelen',
+  'assessment.achievement.firstTry': 'Eerste poging',
+  'assessment.achievement.firstTryDescription': 'Beoordeling in één keer gehaald',
+  'assessment.achievement.perfectScore': 'Maximale score',
+  'assessment.achievement.perfectScoreDescription': 'Best mogelijke antwoord op alle vragen',
+  'assessment.achievement.certified': 'Gecertificeerd',
+  'assessment.certificateTitle': 'Certificering behaald',
+  'assessment.certificateBody': 'Je hebt {course} met succes afgerond en voldoet aan de eisen voor certificering binnen {area}.',
+  'assessment.defaultCourse': 'deze cursus',
+  'assessment.defaultArea': 'dit vakgebied',
+  'assessment.certificateValidUntil': 'Certificering geldig tot: {date, date}',
+  'assessment.completedIn': 'Voltooid in: {duration}',
+  'assessment.continue': 'Door naar de volgende stap',
+  'assessment.finishAnyway': 'Toch afsluiten',
+  'assessment.shareWithManager': '📧 Resultaat delen met leidinggevende',
+  'assessment.completedOn': 'Voltooid: {date, date}',
+  'assessment.timeSpent': 'Tijd: {duration}',
+  'assessment.duration': '{minutes, plural, =0 {{seconds} sec} other {# min {seconds} sec}}',
+  'assessment.feedback.excellent': 'Uitstekend! U hebt een zeer goed begrip van het onderwerp.',
+  'assessment.feedback.good': 'Goed gedaan! U bent geslaagd voor de beoordeling.',
+  'assessment.feedback.needsImprovement': 'U hebt nog geen voldoende resultaat behaald. Herhaal de stof en probeer het opnieuw.',
+
+  'resource.title': 'Materiaal en bronnen',
+  'resource.badge.pdf': 'PDF',
+  'resource.badge.video': 'Video',
+  'resource.badge.link': 'Link',
+  'resource.badge.download': 'Download',
+  'resource.action.pdf': 'Document lezen',
+  'resource.action.video': 'Video afspelen',
+  'resource.action.link': 'Link openen',
+  'resource.action.download': 'Downloaden',
+  'resource.actionLabel': '{action}: {title}',
+  'resource.downloadLabel': '{action}: {title} ({size})',
+  'resource.externalLinkLabel': '{action}: {title} (opent in nieuw venster, {hostname})',
+  'resource.externalSite': 'Externe website: {hostname}',
+  'resource.unavailable': 'De bron is niet beschikbaar',
+  'resource.fileSize': 'Bestandsgrootte {size}',
+  'resource.opened': 'Geopend',
+  'resource.openedCount': '{opened} van {total} bronnen geopend',
+  'resource.empty': 'Er zijn geen bronnen voor dit onderdeel.',
+  'resource.videoFallback': 'De video kan hier niet worden afgespeeld - open hem in een nieuw venster',
+  'resource.pdfTitle': 'PDF-document: {title}',
+  'resource.openInNewWindow': 'Open het document in een nieuw venster',
+
+  'dragDrop.instructions': 'Sleep elke kaart naar de juiste categorie, of selecteer een kaart en druk op "Hier plaatsen".',
+  'dragDrop.unsorted': 'Te sorteren',
+  'dragDrop.unsortedLabel': 'Kaarten om te sorteren',
+  'dragDrop.placeHere': 'Hier plaatsen',
+  'dragDrop.placeHereLabel': 'Hier plaatsen: {category}',
+  'dragDrop.correct': 'Goed',
+  'dragDrop.wrongCategory': 'Verkeerde categorie',
+  'dragDrop.result': '{correct} van {total} goed ({percentage}%)',
+  'dragDrop.sortedCount': '{sorted} van {total} gesorteerd',
+  'dragDrop.check': 'Controleren',
+
+  'workflow.handledCount': '{handled} van {total} zaken afgehandeld',
+
+  'summary.regionLabel': 'Samenvatting AVG-training',
+  'summary.headerLabel': 'Gemeente en voltooiingsstatus',
+  'summary.title': 'AVG-training voltooid',
+  'summary.subtitle': 'Je hebt je competentieontwikkeling met succes afgerond',
+  'summary.certifiedBy': 'Gecertificeerd door {authority}',
+  'summary.passedStatus': 'Status geslaagd',
+  'summary.passed': 'Geslaagd',
+  'summary.notPassed': 'Niet geslaagd',
+  'summary.finalResult': 'Eindresultaat',
+  'summary.timeAndScore': '{time} • {score}% resultaat',
+  'summary.timeAndScoreLabel': 'Tijd: {time}, Resultaat: {score} procent',
+  'summary.certificateInfo': 'Certificaatinformatie',
+  'summary.certificate': 'Certificaat',
+  'summary.certificateEarned': 'Certificaat behaald',
+  'summary.resultPresentation': 'Overzicht van het resultaat',
+  'summary.scoreLabel': 'Eindresultaat: {score} procent van de mogelijke punten',
+  'summary.sentToEmail': 'Verzonden naar je werk-e-mail',
+  'summary.keyLearnings': 'Belangrijkste lessen',
+  'summary.learningLabel': 'Les {number}: {learning}',
+  'summary.nextSteps': 'Volgende stappen',
+  'summary.stepLabel': 'Stap {number}: {step}',
+  'summary.stepNumber': 'Stap nummer {number}',
+  'summary.actions': 'Acties',
+  'summary.finish': 'Training afsluiten',
+  'summary.finishLabel': 'Training afsluiten en terugkeren naar het hoofdmenu',
+  'summary.moreActions': 'Meer acties',
+  'summary.downloadCertificate': 'Certificaat downloaden',
+  'summary.downloadCertificateLabel': 'Download je officiële AVG-certificaat van {authority}',
+  'summary.certificateFailed': 'Het certificaat kon niet worden gemaakt. Probeer het zo opnieuw.',
+  'summary.workplaceResources': 'Bronnen voor de werkplek',
+  'summary.workplaceResourcesLabel': 'Toegang tot AVG-bronnen en hulpmiddelen voor je werkplek',
+  'summary.footerLabel': 'Paginavoettekst met supportinformatie',
+  'summary.thanks': 'Bedankt voor het afronden van je competentieontwikkeling!',
+  'summary.supportInfo': 'Supportinformatie',
+  'summary.support': 'Support: {contact}',
+  'summary.providersLabel': 'Leveranciers: {municipality} en DigiNativa, datum: {date, date}',
+
+  'certificate.heading': 'Certificaat',
+  'certificate.intro': 'Hierbij wordt verklaard dat',
+  'certificate.completed': 'de volgende training heeft voltooid',
+  'certificate.area': 'Certificeringsgebied: {area}',
+  'certificate.score': 'Resultaat: {percent, number, percent} ({achieved} van {total} punten)',
+  'certificate.date': 'Datum: {date, date}',
+  'certificate.issuedBy': 'Uitgegeven door {issuer}',
+  'certificate.verificationCode': 'Verificatiecode: {code}',
+  'certificate.verifyAt': 'Controleer dit certificaat op {url}',
+
+  'credential.title': 'Bewijs verifiëren',
+  'credential.intro': 'Controleer of een digitaal bewijs echt, geldig en niet ingetrokken is.',
+  'credential.loading': 'Bewijs wordt gecontroleerd…',
+  'credential.notFound': 'Bewijs niet gevonden',
+  'credential.error': 'Verificatie is op dit moment niet beschikbaar. Probeer het later opnieuw.',
+  'credential.status.valid': 'Het bewijs is echt en geldig',
+  'credential.status.revoked': 'Het bewijs is ingetrokken door de uitgever',
+  'credential.status.expired': 'Het bewijs is verlopen',
+  'credential.status.not_yet_valid': 'Het bewijs is nog niet geldig',
+  'credential.status.invalid_signature': 'De handtekening van het bewijs klopt niet',
+  'credential.status.unknown_issuer': 'De uitgever kon niet worden vastgesteld',
+  'credential.status.status_unavailable': 'De intrekkingsstatus van het bewijs kon niet worden gecontroleerd',
+  'credential.status.malformed': 'Dit is geen geldig digitaal bewijs',
+  'credential.holder': 'Houder',
+  'credential.achievement': 'Prestatie',
+  'credential.issuer': 'Uitgever',
+  'credential.issued': 'Uitgegeven op {date, date}',
+  'credential.expires': 'Geldig tot {date, date}',
+  'credential.pasteLabel': 'Plak een digitaal bewijs (VC-JWT)',
+  'credential.verify': 'Verifiëren',
+  'credential.qrLabel': 'QR-code die linkt naar de verificatie van dit bewijs',
+  'credential.qrHint': 'Scan de code om het bewijs op een ander apparaat te verifiëren'
+};
+
+export default nl;
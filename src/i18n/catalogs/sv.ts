@@ -0,0 +1,252 @@
+/**
+ * Swedish message catalog
+ * Source catalog: every key is defined here first and other locales must translate all of them.
+ * Messages use ICU MessageFormat, see ../messageFormat.ts
+ */
+
+export const sv = {
+  // Shared chrome
+  'common.questionProgress': 'Fråga {current} av {total}',
+  'common.logoAlt': '{municipality} logotyp',
+  'common.loadingNext': 'Nästa...',
+  'common.loadingFinish': 'Slutför...',
+
+  // Button copy - Game Designer task-gd-007 professional button specification
+  'button.start': 'Starta utbildningen',
+  'button.continue': 'Fortsätt',
+  'button.submit': 'Skicka svar',
+  'button.cancel': 'Avbryt',
+  'button.back': 'Tillbaka',
+  'button.next': 'Nästa',
+  'button.finish': 'Slutför',
+  'button.tryAgain': 'Försök igen',
+  'button.close': 'Stäng',
+  'button.help': 'Hjälp',
+  'button.support': 'Kontakta support',
+
+  // Demo start page
+  'app.welcome': 'Välkommen, {name}',
+  'app.logout': 'Logga ut',
+  'app.gameFinished': 'Spel Avslutat! 🎉',
+  'app.scoreLabel': 'Poäng:',
+  'app.timeLabel': 'Tid:',
+  'app.seconds': '{seconds, plural, one {# sekund} other {# sekunder}}',
+  'app.scenesLabel': 'Scener:',
+  'app.startDemo': 'Starta Demo Spel',
+
+  // Game host
+  'host.skipToContent': 'Hoppa till huvudinnehåll',
+  'host.skipToActions': 'Hoppa till åtgärder',
+
+  // Accessibility settings
+  'accessibility.open': 'Tillgänglighetsinställningar',
+  'accessibility.title': 'Tillgänglighet',
+  'accessibility.description': 'Ändringarna gäller direkt och sparas till nästa gång.',
+  'accessibility.highContrast': 'Hög kontrast',
+  'accessibility.largeText': 'Stor text',
+  'accessibility.reducedMotion': 'Minska rörelser',
+  'accessibility.systemSetting': 'Styrs av enhetens inställningar',
+  'accessibility.fontSize': 'Textstorlek',
+  'accessibility.fontSize.small': 'Liten',
+  'accessibility.fontSize.medium': 'Normal',
+  'accessibility.fontSize.large': 'Stor',
+  'accessibility.fontSize.x-large': 'Extra stor',
+  'accessibility.colorScheme': 'Färgschema',
+  'accessibility.colorScheme.default': 'Spelets färger',
+  'accessibility.colorScheme.high-contrast': 'Hög kontrast',
+  'accessibility.colorScheme.blue-yellow': 'Blå och gul (för röd-grön färgblindhet)',
+  'accessibility.colorScheme.grayscale': 'Gråskala',
+
+  // Offline journal status
+  'sync.offline': 'Offline – dina framsteg sparas på enheten och synkas när du är uppkopplad igen',
+  'sync.inProgress': 'Synkroniserar framsteg…',
+  'sync.failed': 'Kunde inte synkronisera framsteg – försöker igen automatiskt',
+  'sync.pending': '{count, plural, one {# ändring väntar} other {# ändringar väntar}} på synkronisering',
+
+  // Resume dialog
+  'resume.title': 'Fortsätt där du slutade, {name}!',
+  'resume.incompleteCount': 'Du har {count, plural, one {# påbörjad utbildning} other {# påbörjade utbildningar}}:',
+  'resume.progress': 'Förlopp: {count, plural, one {# scen klar} other {# scener klara}}',
+  'resume.startedAt': 'Startat: {date, date}',
+  'resume.startNew': 'Börja ny utbildning istället',
+
+  // Dialogue scene
+  'dialogue.noData': 'Ingen dialogdata tillgänglig',
+  'dialogue.chooseAnswer': 'Välj ditt svar',
+  'dialogue.nextTurnLabel': 'Nästa dialogrunda. {progress}',
+  'dialogue.progressAnnouncement': 'Dialogrunda {current} av {total}. {percent}% klart.',
+  'dialogue.learningObjectives': 'Läringsmål:',
+
+  // Quiz scene
+  'quiz.unknownQuestionType': 'Okänd frågetype',
+  'quiz.invalidOptionsTitle': 'Fel i frågans svarsalternativ',
+  'quiz.invalidOptionsHelp': 'Ett eller flera svarsalternativ saknar text. Kontakta support.',
+  'quiz.correct': 'Rätt svar!',
+  'quiz.incorrect': 'Fel svar',
+  'quiz.submitLabel': 'Svara på frågan',
+  'quiz.keyboardShortcuts': '💡 Tangentbordsgenvägar: Tryck 1-{optionCount} för att välja, Enter för att svara/fortsätta',
+  'quiz.partiallyCorrect': 'Delvis rätt: {credit, number, percent} av svaret stämmer',
+  'quiz.enterShortcut': '💡 Tangentbordsgenvägar: Enter för att svara/fortsätta',
+  'quiz.freeTextLabel': 'Ditt svar',
+  'quiz.numericLabel': 'Svara med ett tal',
+  'quiz.orderingInstructions': 'Ordna alternativen i rätt ordning med knapparna för att flytta upp och ned.',
+  'quiz.moveUp': 'Flytta upp {item}',
+  'quiz.moveDown': 'Flytta ned {item}',
+  'quiz.itemMoved': '{item} är nu på plats {position} av {total}',
+  'quiz.matchingInstructions': 'Välj rätt motsvarighet till varje begrepp.',
+  'quiz.matchPlaceholder': 'Välj…',
+  'quiz.hotspotInstructions': 'Klicka på rätt område i bilden, eller gå mellan områdena med Tab och välj med Enter.',
+  'quiz.hotspotSelected': 'Valt område: {region}',
+  'quiz.hotspotMissed': 'Du valde en plats utanför områdena',
+
+  // Assessment scene
+  'assessment.title': 'Utvärdering',
+  'assessment.completedTitle': 'Utvärdering Slutförd',
+  'assessment.attempt': 'Försök {attempt}',
+  'assessment.previousQuestion': 'Föregående',
+  'assessment.nextQuestion': 'Nästa fråga',
+  'assessment.submit': 'Lämna in',
+  'assessment.points': '{score}/{maxScore} poäng',
+  'assessment.passed': '🎉 Grattis! Du har klarat kursen',
+  'assessment.failed': '📚 Kursen inte slutförd',
+  'assessment.passedScore': 'Du fick {score}% (krävs {threshold}%)',
+  'assessment.failedScore': 'Du behöver {threshold}% för att klara (du fick {score}%)',
+  'assessment.resultsPerQuestion': 'Resultat per fråga',
+  'assessment.achievements': 'Uppnådda mål',
+  'assessment.achievement.firstTry': 'Första försöket',
+  'assessment.achievement.firstTryDescription': 'Klarade utvärderingen på första försöket',
+  'assessment.achievement.perfectScore': 'Fullpoängare',
+  'assessment.achievement.perfectScoreDescription': 'Bästa möjliga svar på alla frågor',
+  'assessment.achievement.certified': 'Certifierad',
+  'assessment.certificateTitle': 'Certifiering Erhållen',
+  'assessment.certificateBody': 'Du har framgångsrikt slutfört {course} och uppfyller kraven för certifiering inom {area}.',
+  'assessment.defaultCourse': 'denna kurs',
+  'assessment.defaultArea': 'detta område',
+  'assessment.certificateValidUntil': 'Certifiering giltig till: {date, date}',
+  'assessment.completedIn': 'Slutförd på: {duration}',
+  'assessment.continue': 'Fortsätt till nästa steg',
+  'assessment.finishAnyway': 'Avsluta ändå',
+  'assessment.shareWithManager': '📧 Dela resultat med chef',
+  'assessment.completedOn': 'Slutförd: {date, date}',
+  'assessment.timeSpent': 'Tid: {duration}',
+  'assessment.duration': '{minutes, plural, =0 {{seconds} sek} other {# min {seconds} sek}}',
+  'assessment.feedback.excellent': 'Utmärkt! Du har mycket god förståelse för området.',
+  'assessment.feedback.good': 'Bra jobbat! Du har klarat utvärderingen.',
+  'assessment.feedback.needsImprovement': 'Du har inte nått godkänt resultat ännu. Repetera materialet och försök igen.',
+
+  // Resource scene
+  'resource.title': 'Material och resurser',
+  'resource.badge.pdf': 'PDF',
+  'resource.badge.video': 'Video',
+  'resource.badge.link': 'Länk',
+  'resource.badge.download': 'Nedladdning',
+  'resource.action.pdf': 'Läs dokument',
+  'resource.action.video': 'Spela video',
+  'resource.action.link': 'Öppna länk',
+  'resource.action.download': 'Ladda ner',
+  'resource.actionLabel': '{action}: {title}',
+  'resource.downloadLabel': '{action}: {title} ({size})',
+  'resource.externalLinkLabel': '{action}: {title} (öppnas i nytt fönster, {hostname})',
+  'resource.externalSite': 'Extern webbplats: {hostname}',
+  'resource.unavailable': 'Resursen är inte tillgänglig',
+  'resource.fileSize': 'Filstorlek {size}',
+  'resource.opened': 'Öppnad',
+  'resource.openedCount': '{opened} av {total} resurser öppnade',
+  'resource.empty': 'Inga resurser finns för detta avsnitt.',
+  'resource.videoFallback': 'Videon kan inte spelas upp här - öppna den i ett nytt fönster',
+  'resource.pdfTitle': 'PDF-dokument: {title}',
+  'resource.openInNewWindow': 'Öppna dokumentet i ett nytt fönster',
+
+  // Drag and drop sort scene
+  'dragDrop.instructions': 'Dra varje kort till rätt kategori, eller välj ett kort och tryck på "Placera här".',
+  'dragDrop.unsorted': 'Att sortera',
+  'dragDrop.unsortedLabel': 'Kort att sortera',
+  'dragDrop.placeHere': 'Placera här',
+  'dragDrop.placeHereLabel': 'Placera här: {category}',
+  'dragDrop.correct': 'Rätt',
+  'dragDrop.wrongCategory': 'Fel kategori',
+  'dragDrop.result': '{correct} av {total} rätt ({percentage}%)',
+  'dragDrop.sortedCount': '{sorted} av {total} sorterade',
+  'dragDrop.check': 'Kontrollera',
+
+  // Workflow scene
+  'workflow.handledCount': '{handled} av {total} ärenden hanterade',
+
+  // Summary scene
+  'summary.regionLabel': 'GDPR-utbildning sammanfattning',
+  'summary.headerLabel': 'Kommun och slutförandestatus',
+  'summary.title': 'GDPR-utbildning Slutförd',
+  'summary.subtitle': 'Du har framgångsrikt genomfört din kompetensutveckling',
+  'summary.certifiedBy': 'Certifierad av {authority}',
+  'summary.passedStatus': 'Godkänd status',
+  'summary.passed': 'Godkänd',
+  'summary.notPassed': 'Ej godkänd',
+  'summary.finalResult': 'Slutresultat',
+  'summary.timeAndScore': '{time} • {score}% resultat',
+  'summary.timeAndScoreLabel': 'Tid: {time}, Resultat: {score} procent',
+  'summary.certificateInfo': 'Certifikat information',
+  'summary.certificate': 'Certifikat',
+  'summary.certificateEarned': 'Certifikat Erhållet',
+  'summary.resultPresentation': 'Framstållning av resultat',
+  'summary.scoreLabel': 'Slutresultat: {score} procent av möjliga poäng',
+  'summary.sentToEmail': 'Skickat till din tjänst-e-post',
+  'summary.keyLearnings': 'Viktiga Lärdomar',
+  'summary.learningLabel': 'Lärdom {number}: {learning}',
+  'summary.nextSteps': 'Nästa Steg',
+  'summary.stepLabel': 'Steg {number}: {step}',
+  'summary.stepNumber': 'Steg nummer {number}',
+  'summary.actions': 'Åtgärder',
+  'summary.finish': 'Avsluta Utbildningen',
+  'summary.finishLabel': 'Avsluta utbildningen och återgå till huvudmenyn',
+  'summary.moreActions': 'Ytterligare åtgärder',
+  'summary.downloadCertificate': 'Ladda ner Certifikat',
+  'summary.downloadCertificateLabel': 'Ladda ner ditt officiella GDPR-certifikat från {authority}',
+  'summary.certificateFailed': 'Certifikatet kunde inte skapas. Försök igen om en stund.',
+  'summary.workplaceResources': 'Resurser för Arbetsplatsen',
+  'summary.workplaceResourcesLabel': 'Åtkomst till GDPR-resurser och verktyg för din arbetsplats',
+  'summary.footerLabel': 'Sidans sidfot med supportinformation',
+  'summary.thanks': 'Tack för att du genomförde din kompetensutveckling!',
+  'summary.supportInfo': 'Supportinformation',
+  'summary.support': 'Support: {contact}',
+  'summary.providersLabel': 'Leverantörer: {municipality} och DigiNativa, datum: {date, date}',
+
+  // Certificate PDF
+  'certificate.heading': 'Intyg',
+  'certificate.intro': 'Härmed intygas att',
+  'certificate.completed': 'har genomfört utbildningen',
+  'certificate.area': 'Certifieringsområde: {area}',
+  'certificate.score': 'Resultat: {percent, number, percent} ({achieved} av {total} poäng)',
+  'certificate.date': 'Datum: {date, date}',
+  'certificate.issuedBy': 'Utfärdat av {issuer}',
+  'certificate.verificationCode': 'Verifieringskod: {code}',
+  'certificate.verifyAt': 'Kontrollera intyget på {url}',
+
+  // Credential verification page
+  'credential.title': 'Verifiera intyg',
+  'credential.intro': 'Kontrollera att ett digitalt intyg är äkta, giltigt och inte återkallat.',
+  'credential.loading': 'Kontrollerar intyget…',
+  'credential.notFound': 'Intyget hittades inte',
+  'credential.error': 'Verifieringen är inte tillgänglig just nu. Försök igen senare.',
+  'credential.status.valid': 'Intyget är äkta och giltigt',
+  'credential.status.revoked': 'Intyget har återkallats av utfärdaren',
+  'credential.status.expired': 'Intyget har gått ut',
+  'credential.status.not_yet_valid': 'Intyget är ännu inte giltigt',
+  'credential.status.invalid_signature': 'Intygets signatur stämmer inte',
+  'credential.status.unknown_issuer': 'Utfärdaren kunde inte identifieras',
+  'credential.status.status_unavailable': 'Intygets återkallelsestatus kunde inte kontrolleras',
+  'credential.status.malformed': 'Det här är inte ett giltigt digitalt intyg',
+  'credential.holder': 'Innehavare',
+  'credential.achievement': 'Merit',
+  'credential.issuer': 'Utfärdare',
+  'credential.issued': 'Utfärdat {date, date}',
+  'credential.expires': 'Giltigt till {date, date}',
+  'credential.pasteLabel': 'Klistra in ett digitalt intyg (VC-JWT)',
+  'credential.verify': 'Verifiera',
+  'credential.qrLabel': 'QR-kod som länkar till verifieringen av intyget',
+  'credential.qrHint': 'Skanna koden för att verifiera intyget på en annan enhet'
+};
+
+export type MessageKey = keyof typeof sv;
+export type Catalog = Record<MessageKey, string>;
+
+export default sv;
@@ -0,0 +1,24 @@
+export {
+  formatMessage,
+  parseMessage,
+  MessageFormatError,
+  type MessagePart,
+  type MessageValue,
+  type MessageValues
+} from './messageFormat';
+export {
+  SUPPORTED_LOCALES,
+  DEFAULT_LOCALE,
+  INTL_LOCALES,
+  isSupportedLocale,
+  normalizeLocale,
+  resolveLocale,
+  getBrowserLanguages,
+  CULTURAL_CONTEXT_LOCALES,
+  type CulturalContextName,
+  type Locale,
+  type LocaleSources
+} from './locales';
+export { sv, type Catalog, type MessageKey } from './catalogs/sv';
+export { loadCatalog, getLoadedCatalog } from './catalogLoader';
+export { createTranslator, type Translator, type TranslateFunction } from './translator';
@@ -0,0 +1,61 @@
+/**
+ * Supported UI locales and locale resolution
+ * A manifest that declares its language wins, then the user's profile, then the browser, then Swedish
+ */
+
+export const SUPPORTED_LOCALES = ['sv', 'de', 'fr', 'nl', 'en'] as const;
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'sv';
+
+export const isSupportedLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+
+// Accepts BCP 47 tags ("sv-SE", "de_AT", "EN") and keeps the primary language subtag
+export const normalizeLocale = (tag?: string | null): Locale | null => {
+  const language = tag?.trim().toLowerCase().split(/[-_]/)[0];
+  return isSupportedLocale(language) ? language : null;
+};
+
+export interface LocaleSources {
+  manifestLanguage?: string | null;
+  profileLanguage?: string | null;
+  browserLanguages?: readonly string[];
+}
+
+export const getBrowserLanguages = (): readonly string[] => {
+  if (typeof navigator === 'undefined') return [];
+  return navigator.languages?.length ? navigator.languages : [navigator.language].filter(Boolean);
+};
+
+export const resolveLocale = ({
+  manifestLanguage,
+  profileLanguage,
+  browserLanguages = getBrowserLanguages()
+}: LocaleSources = {}): Locale => {
+  const candidates = [manifestLanguage, profileLanguage, ...browserLanguages];
+  for (const candidate of candidates) {
+    const locale = normalizeLocale(candidate);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+};
+
+// Cultural contexts of the municipal button and scene styling, mapped to their UI locale
+export type CulturalContextName = 'swedish' | 'german' | 'french' | 'dutch';
+
+export const CULTURAL_CONTEXT_LOCALES: Record<CulturalContextName, Locale> = {
+  swedish: 'sv',
+  german: 'de',
+  french: 'fr',
+  dutch: 'nl'
+};
+
+// Intl needs a region for Swedish date formats to match what municipal staff expect
+export const INTL_LOCALES: Record<Locale, string> = {
+  sv: 'sv-SE',
+  de: 'de-DE',
+  fr: 'fr-FR',
+  nl: 'nl-NL',
+  en: 'en-GB'
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { formatMessage, parseMessage, MessageFormatError } from './messageFormat';
+
+describe('ICU message format', () => {
+  it('interpolates simple arguments', () => {
+    expect(formatMessage('Fråga {current} av {total}', { current: 2, total: 5 })).toBe('Fråga 2 av 5');
+  });
+
+  it('keeps missing arguments visible', () => {
+    expect(formatMessage('Välkommen, {name}')).toBe('Välkommen, {name}');
+  });
+
+  it('selects plural categories and exact matches', () => {
+    const message = '{count, plural, =0 {Inga ändringar} one {# ändring} other {# ändringar}}';
+    expect(formatMessage(message, { count: 0 })).toBe('Inga ändringar');
+    expect(formatMessage(message, { count: 1 })).toBe('1 ändring');
+    expect(formatMessage(message, { count: 3 })).toBe('3 ändringar');
+  });
+
+  it('applies plural offsets to #', () => {
+    const message = '{guests, plural, offset:1 =1 {Bara du} one {Du och # till} other {Du och # andra}}';
+    expect(formatMessage(message, { guests: 1 }, 'sv-SE')).toBe('Bara du');
+    expect(formatMessage(message, { guests: 2 }, 'sv-SE')).toBe('Du och 1 till');
+    expect(formatMessage(message, { guests: 4 }, 'sv-SE')).toBe('Du och 3 andra');
+  });
+
+  it('selects ordinal categories', () => {
+    const message = '{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}';
+    expect(formatMessage(message, { n: 1 }, 'en-GB')).toBe('1st');
+    expect(formatMessage(message, { n: 22 }, 'en-GB')).toBe('22nd');
+    expect(formatMessage(message, { n: 13 }, 'en-GB')).toBe('13th');
+  });
+
+  it('formats select with nested arguments', () => {
+    const message = '{role, select, admin {Administratör {name}} other {Användare {name}}}';
+    expect(formatMessage(message, { role: 'admin', name: 'Anna' })).toBe('Administratör Anna');
+    expect(formatMessage(message, { role: 'guest', name: 'Erik' })).toBe('Användare Erik');
+  });
+
+  it('formats numbers and dates with the given locale', () => {
+    expect(formatMessage('{share, number, percent}', { share: 0.5 }, 'en-GB')).toBe('50%');
+    expect(formatMessage('{value, number, integer}', { value: 3.7 }, 'en-GB')).toBe('4');
+    const date = new Date(2025, 0, 15);
+    expect(formatMessage('{date, date}', { date }, 'sv-SE')).toBe(new Intl.DateTimeFormat('sv-SE').format(date));
+  });
+
+  it('treats quoted syntax as literal text', () => {
+    expect(formatMessage("Skriv '{name}' som platshållare", { name: 'Anna' })).toBe('Skriv {name} som platshållare');
+    expect(formatMessage("Kommunens ''logotyp''")).toBe("Kommunens 'logotyp'");
+  });
+
+  it('reports malformed messages with their position', () => {
+    expect(() => parseMessage('Hej {name')).toThrow(MessageFormatError);
+    expect(() => parseMessage('{count, plural, one {#}}')).toThrow(/other/);
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * ICU MessageFormat
+ * Parses and formats the ICU subset our catalogs use: simple arguments, number, date and time
+ * arguments, plural/selectordinal with =N and # and offset, and select. Apostrophes quote
+ * syntax characters the ICU way, so French elisions like "l'utilisateur" need no escaping.
+ */
+
+export type MessagePart =
+  | string
+  | { type: 'argument'; name: string }
+  | { type: 'number' | 'date' | 'time'; name: string; style?: string }
+  | { type: 'plural' | 'selectordinal'; name: string; offset: number; options: Record<string, MessagePart[]> }
+  | { type: 'select'; name: string; options: Record<string, MessagePart[]> }
+  | { type: 'pound' };
+
+export type MessageValue = string | number | boolean | Date | null | undefined;
+export type MessageValues = Record<string, MessageValue>;
+
+export class MessageFormatError extends Error {
+  readonly source: string;
+  readonly position: number;
+
+  constructor(message: string, source: string, position: number) {
+    super(`${message} at position ${position} in "${source}"`);
+    this.name = 'MessageFormatError';
+    this.source = source;
+    this.position = position;
+  }
+}
+
+const IDENTIFIER = /^[A-Za-z_][\w.-]*$/;
+
+class MessageParser {
+  private readonly source: string;
+  private position = 0;
+
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  parse(): MessagePart[] {
+    const parts = this.parseParts(false, false);
+    if (this.position < this.source.length) {
+      throw this.error('Unexpected "}"');
+    }
+    return parts;
+  }
+
+  private parseParts(nested: boolean, inPlural: boolean): MessagePart[] {
+    const parts: MessagePart[] = [];
+    let text = '';
+
+    const flushText = () => {
+      if (text) parts.push(text);
+      text = '';
+    };
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+
+      if (char === "'") {
+        text += this.readQuoted(inPlural);
+      } else if (char === '{') {
+        flushText();
+        parts.push(this.parseArgument(inPlural));
+      } else if (char === '}') {
+        if (!nested) throw this.error('Unexpected "}"');
+        break;
+      } else if (char === '#' && inPlural) {
+        flushText();
+        parts.push({ type: 'pound' });
+        this.position++;
+      } else {
+        text += char;
+        this.position++;
+      }
+    }
+
+    flushText();
+    return parts;
+  }
+
+  // '' is a literal apostrophe; an apostrophe before syntax starts a quoted literal; otherwise it is plain text
+  private readQuoted(inPlural: boolean): string {
+    const next = this.source[this.position + 1];
+    if (next === "'") {
+      this.position += 2;
+      return "'";
+    }
+    if (next !== '{' && next !== '}' && !(inPlural && next === '#')) {
+      this.position++;
+      return "'";
+    }
+
+    let literal = '';
+    this.position++;
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+      if (char === "'") {
+        if (this.source[this.position + 1] === "'") {
+          literal += "'";
+          this.position += 2;
+          continue;
+        }
+        this.position++;
+        return literal;
+      }
+      literal += char;
+      this.position++;
+    }
+    return literal;
+  }
+
+  private parseArgument(inPlural: boolean): MessagePart {
+    const start = this.position;
+    this.position++; // {
+    const name = this.readToken();
+    if (!IDENTIFIER.test(name)) {
+      throw this.error(`Invalid argument name "${name}"`, start);
+    }
+
+    this.skipWhitespace();
+    if (this.consume('}')) {
+      return { type: 'argument', name };
+    }
+    this.expect(',');
+
+    const type = this.readToken();
+    this.skipWhitespace();
+
+    switch (type) {
+      case 'number':
+      case 'date':
+      case 'time': {
+        let style: string | undefined;
+        if (this.consume(',')) {
+          style = this.readToken();
+          this.skipWhitespace();
+        }
+        this.expect('}');
+        return { type, name, ...(style && { style }) };
+      }
+      case 'plural':
+      case 'selectordinal':
+      case 'select': {
+        this.expect(',');
+        let offset = 0;
+        this.skipWhitespace();
+        if (type !== 'select' && this.source.startsWith('offset:', this.position)) {
+          this.position += 'offset:'.length;
+          offset = Number(this.readToken());
+          if (!Number.isFinite(offset)) throw this.error('Invalid plural offset');
+        }
+        // # inside a select still refers to an enclosing plural
+        const options = this.parseOptions(type !== 'select' || inPlural);
+        if (!('other' in options)) {
+          throw this.error(`${type} argument "${name}" needs an "other" option`, start);
+        }
+        return type === 'select'
+          ? { type, name, options }
+          : { type, name, offset, options };
+      }
+      default:
+        throw this.error(`Unknown argument type "${type}"`, start);
+    }
+  }
+
+  private parseOptions(inPlural: boolean): Record<string, MessagePart[]> {
+    const options: Record<string, MessagePart[]> = {};
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.consume('}')) return options;
+
+      const selector = this.readToken();
+      if (!selector) throw this.error('Expected an option selector');
+      this.skipWhitespace();
+      this.expect('{');
+      options[selector] = this.parseParts(true, inPlural);
+      this.expect('}');
+    }
+  }
+
+  private readToken(): string {
+    this.skipWhitespace();
+    const start = this.position;
+    while (this.position < this.source.length && !/[\s{},]/.test(this.source[this.position])) {
+      this.position++;
+    }
+    return this.source.slice(start, this.position);
+  }
+
+  private skipWhitespace(): void {
+    while (this.position < this.source.length && /\s/.test(this.source[this.position])) {
+      this.position++;
+    }
+  }
+
+  private consume(char: string): boolean {
+    if (this.source[this.position] === char) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(char: string): void {
+    if (!this.consume(char)) {
+      throw this.error(`Expected "${char}"`);
+    }
+  }
+
+  private error(message: string, position = this.position): MessageFormatError {
+    return new MessageFormatError(message, this.source, position);
+  }
+}
+
+export const parseMessage = (source: string): MessagePart[] => new MessageParser(source).parse();
+
+const DATE_STYLES: Record<string, Intl.DateTimeFormatOptions> = {
+  short: { dateStyle: 'short' },
+  medium: { dateStyle: 'medium' },
+  long: { dateStyle: 'long' },
+  full: { dateStyle: 'full' }
+};
+
+const TIME_STYLES: Record<string, Intl.DateTimeFormatOptions> = {
+  short: { timeStyle: 'short' },
+  medium: { timeStyle: 'medium' },
+  long: { timeStyle: 'long' },
+  full: { timeStyle: 'full' }
+};
+
+const NUMBER_STYLES: Record<string, Intl.NumberFormatOptions> = {
+  integer: { maximumFractionDigits: 0 },
+  percent: { style: 'percent' }
+};
+
+const toNumber = (value: MessageValue): number => (typeof value === 'number' ? value : Number(value));
+
+const toDate = (value: MessageValue): Date =>
+  value instanceof Date ? value : new Date(typeof value === 'number' ? value : String(value));
+
+const formatParts = (
+  parts: MessagePart[],
+  values: MessageValues,
+  locale: string,
+  pluralValue?: number
+): string =>
+  parts.map(part => {
+    if (typeof part === 'string') return part;
+
+    if (part.type === 'pound') {
+      return pluralValue === undefined ? '#' : new Intl.NumberFormat(locale).format(pluralValue);
+    }
+
+    const value = values[part.name];
+    if (value === undefined || value === null) {
+      // Keep the placeholder visible so a missing value is noticed rather than silently blank
+      return `{${part.name}}`;
+    }
+
+    switch (part.type) {
+      case 'argument':
+        if (typeof value === 'number') return new Intl.NumberFormat(locale).format(value);
+        if (value instanceof Date) return new Intl.DateTimeFormat(locale).format(value);
+        return String(value);
+      case 'number':
+        return new Intl.NumberFormat(locale, NUMBER_STYLES[part.style ?? ''] ?? {}).format(toNumber(value));
+      case 'date':
+        return new Intl.DateTimeFormat(locale, DATE_STYLES[part.style ?? ''] ?? {}).format(toDate(value));
+      case 'time':
+        return new Intl.DateTimeFormat(locale, TIME_STYLES[part.style ?? 'short'] ?? {}).format(toDate(value));
+      case 'plural':
+      case 'selectordinal': {
+        const count = toNumber(value);
+        const exact = part.options[`=${count}`];
+        const offsetCount = count - part.offset;
+        const category = new Intl.PluralRules(locale, {
+          type: part.type === 'plural' ? 'cardinal' : 'ordinal'
+        }).select(offsetCount);
+        const option = exact ?? part.options[category] ?? part.options.other;
+        return formatParts(option, values, locale, offsetCount);
+      }
+      case 'select': {
+        const option = part.options[String(value)] ?? part.options.other;
+        return formatParts(option, values, locale, pluralValue);
+      }
+    }
+  }).join('');
+
+export const formatMessage = (
+  message: string | MessagePart[],
+  values: MessageValues = {},
+  locale = 'sv'
+): string => formatParts(typeof message === 'string' ? parseMessage(message) : message, values, locale);
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createTranslator } from './translator';
+import { resolveLocale, normalizeLocale, SUPPORTED_LOCALES } from './locales';
+import { parseMessage, type MessagePart } from './messageFormat';
+import { loadCatalog } from './catalogLoader';
+import { sv, type MessageKey } from './catalogs/sv';
+
+// Collects argument names so translations can be checked against the Swedish source
+const collectArguments = (parts: MessagePart[], names = new Set<string>()): Set<string> => {
+  parts.forEach(part => {
+    if (typeof part === 'string' || part.type === 'pound') return;
+    names.add(part.name);
+    if (part.type === 'plural' || part.type === 'selectordinal' || part.type === 'select') {
+      Object.values(part.options).forEach(option => collectArguments(option, names));
+    }
+  });
+  return names;
+};
+
+describe('Locale resolution', () => {
+  it('prefers manifest language over profile and browser', () => {
+    expect(resolveLocale({ manifestLanguage: 'de', profileLanguage: 'fr', browserLanguages: ['nl'] })).toBe('de');
+  });
+
+  it('falls back from profile to browser to Swedish', () => {
+    expect(resolveLocale({ profileLanguage: 'fr-FR', browserLanguages: ['nl'] })).toBe('fr');
+    expect(resolveLocale({ manifestLanguage: 'fi', browserLanguages: ['ja', 'nl-BE'] })).toBe('nl');
+    expect(resolveLocale({ browserLanguages: ['ja'] })).toBe('sv');
+  });
+
+  it('normalizes BCP 47 tags', () => {
+    expect(normalizeLocale('EN_gb')).toBe('en');
+    expect(normalizeLocale('pt-BR')).toBeNull();
+    expect(normalizeLocale(undefined)).toBeNull();
+  });
+});
+
+describe('Translator', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('formats catalog messages for the locale', () => {
+    const { t } = createTranslator('sv', sv);
+    expect(t('common.questionProgress', { current: 1, total: 3 })).toBe('Fråga 1 av 3');
+    expect(t('sync.pending', { count: 2 })).toBe('2 ändringar väntar på synkronisering');
+  });
+
+  it('falls back to Swedish for untranslated keys', () => {
+    const { t } = createTranslator('en', { 'button.next': 'Next' });
+    expect(t('button.next')).toBe('Next');
+    expect(t('button.finish')).toBe('Slutför');
+  });
+
+  it('returns the raw source once for invalid messages', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { t } = createTranslator('en', { 'app.welcome': 'Welcome, {name' });
+    expect(t('app.welcome', { name: 'Anna' })).toBe('Welcome, {name');
+    expect(t('app.welcome', { name: 'Anna' })).toBe('Welcome, {name');
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Message catalogs', () => {
+  const keys = Object.keys(sv) as MessageKey[];
+
+  it.each(SUPPORTED_LOCALES.filter(locale => locale !== 'sv'))('%s translates every key with matching arguments', async locale => {
+    const catalog = await loadCatalog(locale);
+    expect(Object.keys(catalog).sort()).toEqual([...keys].sort());
+
+    keys.forEach(key => {
+      const expected = [...collectArguments(parseMessage(sv[key]))].sort();
+      const actual = [...collectArguments(parseMessage(catalog[key]))].sort();
+      expect({ key, args: actual }).toEqual({ key, args: expected });
+    });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Translator
+ * Looks up catalog messages, formats them as ICU and falls back to the Swedish source catalog
+ */
+
+import { formatMessage, parseMessage, type MessagePart, type MessageValues } from './messageFormat';
+import { INTL_LOCALES, type Locale } from './locales';
+import { sv, type Catalog, type MessageKey } from './catalogs/sv';
+
+export type TranslateFunction = (key: MessageKey, values?: MessageValues) => string;
+
+export interface Translator {
+  locale: Locale;
+  t: TranslateFunction;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (value: Date | string | number, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+export const createTranslator = (locale: Locale, catalog: Partial<Catalog>, fallback: Catalog = sv): Translator => {
+  const intlLocale = INTL_LOCALES[locale];
+  const parsed = new Map<MessageKey, MessagePart[] | null>();
+
+  // Parse once per key; a broken message is logged once and then shown as its raw source
+  const getParts = (key: MessageKey, source: string): MessagePart[] | null => {
+    if (!parsed.has(key)) {
+      try {
+        parsed.set(key, parseMessage(source));
+      } catch (error) {
+        console.warn(`Invalid ICU message "${key}" in ${locale} catalog:`, error);
+        parsed.set(key, null);
+      }
+    }
+    return parsed.get(key)!;
+  };
+
+  const t: TranslateFunction = (key, values = {}) => {
+    const source = catalog[key] ?? fallback[key];
+    if (source === undefined) return key;
+
+    const parts = getParts(key, source);
+    return parts ? formatMessage(parts, values, intlLocale) : source;
+  };
+
+  return {
+    locale,
+    t,
+    formatNumber: (value, options) => new Intl.NumberFormat(intlLocale, options).format(value),
+    formatDate: (value, options) =>
+      new Intl.DateTimeFormat(intlLocale, options).format(value instanceof Date ? value : new Date(value))
+  };
+};
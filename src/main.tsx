@@ -4,6 +4,8 @@ import './index.css'
 import App from './App.tsx'
 import { ErrorBoundary } from './components/ErrorBoundary'
 import { AuthProvider } from './contexts/AuthContext'
+import { AccessibilityProvider } from './contexts/AccessibilityContext'
+import { I18nProvider } from './contexts/I18nContext'
 import { ChakraThemeProvider } from './theme/ChakraThemeProvider'
 import { InfrastructureMonitoring } from './services/infrastructure-monitoring'
 
@@ -27,11 +29,15 @@ infrastructureMonitoring.initialize({
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ErrorBoundary>
-      <ChakraThemeProvider>
-        <AuthProvider mockMode={import.meta.env.DEV}>
-          <App />
-        </AuthProvider>
-      </ChakraThemeProvider>
+      <AuthProvider mockMode={import.meta.env.DEV}>
+        <AccessibilityProvider>
+          <ChakraThemeProvider>
+            <I18nProvider>
+              <App />
+            </I18nProvider>
+          </ChakraThemeProvider>
+        </AccessibilityProvider>
+      </AuthProvider>
     </ErrorBoundary>
   </StrictMode>,
 )
@@ -4,7 +4,6 @@
  * Ensures municipal work is never lost due to connectivity issues
  */
 
-import { MultiWorldStateManager } from '../services/multi-world-state-manager';
 import { q3PerformanceMonitor } from '../performance/Q3PerformanceMonitor';
 
 export interface OfflineState {
@@ -19,7 +18,8 @@ export interface OfflineState {
 
 export interface OfflineAction {
   id: string;
-  type: 'world_progress' | 'achievement_unlock' | 'scenario_completion' | 'cultural_preference';
+  type: 'world_progress' | 'achievement_unlock' | 'scenario_completion' | 'cultural_preference' | 'game_state';
+  key?: string; // A newer pending action with the same key supersedes older ones
   worldIndex?: number;
   payload: any;
   timestamp: number;
@@ -41,6 +41,22 @@ export interface SyncResult {
   nextSyncAttempt: number;
 }
 
+export interface SyncStatus {
+  isOnline: boolean;
+  syncInProgress: boolean;
+  pendingActions: number;
+  lastSync: number;
+  lastError: string | null;
+}
+
+/**
+ * Replays one journaled action against the server; throwing keeps the action queued
+ */
+export type OfflineSyncHandler = (action: OfflineAction) => Promise<{ conflictResolved?: boolean } | void>;
+
+// Learner progress is never dropped after failed retries; it waits in the journal until the server accepts it
+const DURABLE_ACTION_TYPES: OfflineAction['type'][] = ['game_state'];
+
 export class OfflineResilienceManager {
   private readonly SYNC_RETRY_DELAY = 5000; // 5 seconds
   private readonly MAX_RETRY_ATTEMPTS = 5;
@@ -52,11 +68,19 @@ export class OfflineResilienceManager {
   private pendingActions: OfflineAction[] = [];
   private lastSyncAttempt = 0;
   private syncInProgress = false;
+  private currentSync: Promise<SyncResult> | null = null;
+  private lastError: string | null = null;
+  private initialized = false;
+  private syncHandlers = new Map<OfflineAction['type'], OfflineSyncHandler>();
+  private statusListeners = new Set<(status: SyncStatus) => void>();
 
   /**
    * Initialize offline resilience system
    */
   async initialize(): Promise<void> {
+    if (this.initialized) return;
+    this.initialized = true;
+
     console.log('🔄 Initializing Municipal Offline Resilience System');
     
     // Setup connectivity monitoring
@@ -73,6 +97,68 @@ export class OfflineResilienceManager {
     
     console.log('✅ Municipal Offline Resilience System initialized');
     console.log(`📊 Municipal workers can continue work during connectivity issues`);
+
+    // Replay whatever the previous page load left in the journal
+    this.notifyStatus();
+    this.attemptSync();
+  }
+
+  /**
+   * Stop connectivity monitoring and periodic sync
+   */
+  destroy(): void {
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+    this.initialized = false;
+  }
+
+  /**
+   * Route an action type to the service that owns its server-side state
+   */
+  registerSyncHandler(type: OfflineAction['type'], handler: OfflineSyncHandler): void {
+    this.syncHandlers.set(type, handler);
+  }
+
+  /**
+   * Listen for connectivity and sync changes; returns an unsubscribe function
+   */
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  getSyncStatus(): SyncStatus {
+    return {
+      isOnline: this.isOnline,
+      syncInProgress: this.syncInProgress,
+      pendingActions: this.pendingActions.length,
+      lastSync: this.lastSyncAttempt,
+      lastError: this.lastError
+    };
+  }
+
+  /**
+   * Latest journaled action for a key, e.g. a session snapshot not yet on the server
+   */
+  getPendingAction(key: string): OfflineAction | undefined {
+    return this.pendingActions.filter(action => action.key === key).pop();
+  }
+
+  /**
+   * Wait for an in-flight sync, then replay anything queued since
+   */
+  async flush(): Promise<SyncResult> {
+    if (this.currentSync) {
+      await this.currentSync;
+    }
+    return this.attemptSync();
   }
 
   /**
@@ -88,10 +174,14 @@ export class OfflineResilienceManager {
       retryCount: 0
     };
 
+    if (offlineAction.key) {
+      this.pendingActions = this.pendingActions.filter(pending => pending.key !== offlineAction.key);
+    }
     this.pendingActions.push(offlineAction);
     
     // Persist to storage immediately
     await this.persistOfflineState();
+    this.notifyStatus();
     
     // Try immediate sync if online
     if (this.isOnline && !this.syncInProgress) {
@@ -192,21 +282,34 @@ export class OfflineResilienceManager {
 
   // Private implementation methods
 
-  private setupConnectivityMonitoring(): void {
-    window.addEventListener('online', () => {
-      console.log('🟢 Municipal connectivity restored');
-      this.isOnline = true;
+  private handleOnline = (): void => {
+    console.log('🟢 Municipal connectivity restored');
+    this.isOnline = true;
+    this.setupPeriodicSync();
+    this.notifyStatus();
+    this.attemptSync();
+  };
+
+  private handleOffline = (): void => {
+    console.log('🔴 Municipal connectivity lost - switching to offline mode');
+    this.isOnline = false;
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+    this.notifyStatus();
+  };
+
+  private handleVisibilityChange = (): void => {
+    if (!document.hidden && this.isOnline && this.pendingActions.length > 0) {
+      // Page became visible - attempt sync
       this.attemptSync();
-    });
+    }
+  };
 
-    window.addEventListener('offline', () => {
-      console.log('🔴 Municipal connectivity lost - switching to offline mode');
-      this.isOnline = false;
-      if (this.syncTimer) {
-        clearInterval(this.syncTimer);
-        this.syncTimer = null;
-      }
-    });
+  private setupConnectivityMonitoring(): void {
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
   }
 
   private setupPeriodicSync(): void {
@@ -222,29 +325,34 @@ export class OfflineResilienceManager {
   }
 
   private setupVisibilityHandling(): void {
-    document.addEventListener('visibilitychange', () => {
-      if (!document.hidden && this.isOnline && this.pendingActions.length > 0) {
-        // Page became visible - attempt sync
-        this.attemptSync();
-      }
-    });
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
   }
 
-  private async attemptSync(): Promise<SyncResult> {
+  private attemptSync(): Promise<SyncResult> {
     if (this.syncInProgress || !this.isOnline || this.pendingActions.length === 0) {
-      return {
+      return Promise.resolve({
         success: false,
         actionsProcessed: 0,
         conflictsResolved: 0,
         lastSuccessfulSync: this.lastSyncAttempt,
         nextSyncAttempt: Date.now() + this.SYNC_RETRY_DELAY
-      };
+      });
     }
 
+    this.currentSync = this.replayPendingActions().finally(() => {
+      this.currentSync = null;
+      this.notifyStatus();
+    });
+    return this.currentSync;
+  }
+
+  private async replayPendingActions(): Promise<SyncResult> {
     this.syncInProgress = true;
+    this.notifyStatus();
     const startTime = Date.now();
     let actionsProcessed = 0;
     let conflictsResolved = 0;
+    let lastError: string | null = null;
 
     try {
       console.log(`🔄 Syncing ${this.pendingActions.length} municipal actions`);
@@ -253,7 +361,9 @@ export class OfflineResilienceManager {
       
       for (const action of actionsToSync) {
         try {
-          await this.processOfflineAction(action);
+          if (await this.processOfflineAction(action)) {
+            conflictsResolved++;
+          }
           
           // Remove from pending actions
           this.pendingActions = this.pendingActions.filter(a => a.id !== action.id);
@@ -261,12 +371,13 @@ export class OfflineResilienceManager {
           
         } catch (error) {
           console.warn(`⚠️ Failed to sync action ${action.id}:`, error);
+          lastError = error instanceof Error ? error.message : String(error);
           
           // Increment retry count
           action.retryCount++;
           
           // Remove if max retries exceeded
-          if (action.retryCount >= this.MAX_RETRY_ATTEMPTS) {
+          if (action.retryCount >= this.MAX_RETRY_ATTEMPTS && !DURABLE_ACTION_TYPES.includes(action.type)) {
             console.error(`❌ Dropping action ${action.id} after ${this.MAX_RETRY_ATTEMPTS} retries`);
             this.pendingActions = this.pendingActions.filter(a => a.id !== action.id);
           }
@@ -274,6 +385,7 @@ export class OfflineResilienceManager {
       }
 
       this.lastSyncAttempt = Date.now();
+      this.lastError = lastError;
       await this.persistOfflineState();
 
       const syncDuration = Date.now() - startTime;
@@ -303,7 +415,14 @@ export class OfflineResilienceManager {
     }
   }
 
-  private async processOfflineAction(action: OfflineAction): Promise<void> {
+  // Resolves true when the handler had to merge a conflicting server state
+  private async processOfflineAction(action: OfflineAction): Promise<boolean> {
+    const handler = this.syncHandlers.get(action.type);
+    if (handler) {
+      const result = await handler(action);
+      return Boolean(result?.conflictResolved);
+    }
+
     switch (action.type) {
       case 'world_progress':
         await this.syncWorldProgress(action);
@@ -317,9 +436,13 @@ export class OfflineResilienceManager {
       case 'cultural_preference':
         await this.syncCulturalPreference(action);
         break;
+      case 'game_state':
+        // Owned by GameStateManager, which registers its handler on construction
+        throw new Error('No sync handler registered for game state');
       default:
         console.warn(`Unknown offline action type: ${action.type}`);
     }
+    return false;
   }
 
   private async syncWorldProgress(action: OfflineAction): Promise<void> {
@@ -409,6 +532,11 @@ export class OfflineResilienceManager {
     }
   }
 
+  private notifyStatus(): void {
+    const status = this.getSyncStatus();
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
   private hasOfflineState(): boolean {
     return localStorage.getItem(this.OFFLINE_STORAGE_KEY) !== null;
   }
@@ -4,7 +4,7 @@
  * Ensures <800ms hub loading and <1.5s world transitions
  */
 
-import { WorldHubState } from '../types/q3-multi-world';
+import type { WorldHubState } from '../types/q3-multi-world';
 
 export interface PerformanceThresholds {
   hubLoading: number; // 800ms target
@@ -10,6 +10,8 @@ import { WorldHubPage } from '../components/WorldHubPage/WorldHubPage';
 import { WorldFactory } from '../worlds/WorldFactory';
 import { q3PerformanceMonitor } from '../performance/Q3PerformanceMonitor';
 import { ErrorBoundary } from '../components/ui/ErrorBoundary';
+import { CredentialVerificationPage } from '../components/CredentialVerification/CredentialVerificationPage';
+import { I18nProvider } from '../contexts/I18nContext';
 
 // World route component
 const WorldRoute: React.FC = () => {
@@ -81,6 +83,19 @@ const HubRoute: React.FC = () => {
   );
 };
 
+// Credential verification route, the target of credential QR codes
+const CredentialVerificationRoute: React.FC = () => {
+  const { credentialId } = useParams<{ credentialId: string }>();
+
+  return (
+    <ErrorBoundary>
+      <I18nProvider>
+        <CredentialVerificationPage credentialId={credentialId} />
+      </I18nProvider>
+    </ErrorBoundary>
+  );
+};
+
 // Q3 Multi-World Router component
 export const Q3MultiWorldRouter: React.FC = () => {
   useEffect(() => {
@@ -100,6 +115,10 @@ export const Q3MultiWorldRouter: React.FC = () => {
       {/* World Routes */}
       <Route path="/world/:code/:worldIndex" element={<WorldRoute />} />
       
+      {/* Credential Verification Routes */}
+      <Route path="/verify/credential" element={<CredentialVerificationRoute />} />
+      <Route path="/verify/credential/:credentialId" element={<CredentialVerificationRoute />} />
+      
       {/* Legacy Q2 Game Routes - Preserved for backwards compatibility */}
       <Route path="/game/:sessionId" element={<LegacyGameRoute />} />
       
@@ -0,0 +1,44 @@
+/**
+ * Embeddable Runtime
+ * Library entry for hosts without the app shell, such as SCORM packages in an LMS.
+ * `npm run build:runtime` bundles it to dist/runtime/runtime-engine.js, exposing window.DigiNativaRuntime.
+ */
+
+import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import { StrategyPlayHost, type GameResults } from './components/StrategyPlayHost';
+import { AccessibilityProvider } from './contexts/AccessibilityContext';
+import type { GameManifest, MultilingualGameManifest } from './types/game-manifest';
+
+declare global {
+  interface Window {
+    DigiNativaRuntime?: { mount: typeof mount }; // Set by the library build's IIFE wrapper
+  }
+}
+
+export interface RuntimeMountOptions {
+  manifest: GameManifest | MultilingualGameManifest;
+  onComplete?: (results: GameResults) => void;
+  onSceneChange?: (sceneId: string) => void;
+  locale?: string;
+}
+
+/**
+ * Render a game into the container; returns a function that unmounts it
+ */
+export function mount(container: Element, options: RuntimeMountOptions): () => void {
+  const root = createRoot(container);
+  root.render(
+    <StrictMode>
+      <AccessibilityProvider>
+        <StrategyPlayHost
+          gameManifest={options.manifest}
+          onComplete={options.onComplete ?? (() => {})}
+          onSceneChange={options.onSceneChange}
+          locale={options.locale}
+        />
+      </AccessibilityProvider>
+    </StrictMode>
+  );
+  return () => root.unmount();
+}
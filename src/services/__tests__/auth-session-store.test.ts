@@ -0,0 +1,99 @@
+/**
+ * Auth Session Store Tests
+ * Verifies sliding and absolute expiry, revocation per session, user and tenant, and listing
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AuthSessionStore, toAuthSession } from '../auth-session-store';
+import { MemorySessionStore } from '../session-store';
+
+const at = (time: string) => new Date(`2026-05-04T${time}:00.000Z`);
+
+describe('AuthSessionStore', () => {
+  let store: MemorySessionStore;
+  let sessions: AuthSessionStore;
+
+  beforeEach(() => {
+    store = new MemorySessionStore();
+    sessions = new AuthSessionStore({ store, policy: { idleTimeoutMs: 30 * 60 * 1000, absoluteTimeoutMs: 2 * 60 * 60 * 1000 } });
+  });
+
+  const create = (userId = 'anna@malmo.se', tenantId = 'malmo_stad', now = at('08:00')) =>
+    sessions.createSession({ userId, tenantId, provider: 'saml', profile: { nameID: userId } }, now);
+
+  it('creates sessions that expire after the idle timeout', async () => {
+    const session = await create();
+
+    expect(session).toMatchObject({
+      userId: 'anna@malmo.se',
+      provider: 'saml',
+      role: 'user',
+      profile: { nameID: 'anna@malmo.se' },
+      expiresAt: at('08:30').toISOString(),
+      absoluteExpiresAt: at('10:00').toISOString()
+    });
+    expect(session.sessionId).toMatch(/^saml_session_/);
+    expect(await sessions.isValidSession(session.sessionId, at('08:29'))).toBe(true);
+    expect(await sessions.isValidSession(session.sessionId, at('08:31'))).toBe(false);
+  });
+
+  it('slides the expiry with activity but never past the absolute timeout', async () => {
+    const session = await create();
+
+    expect((await sessions.touchSession(session.sessionId, at('08:20')))?.expiresAt).toBe(at('08:50').toISOString());
+    expect((await sessions.touchSession(session.sessionId, at('08:45')))?.expiresAt).toBe(at('09:15').toISOString());
+    expect((await sessions.touchSession(session.sessionId, at('09:10')))?.expiresAt).toBe(at('09:40').toISOString());
+    expect((await sessions.touchSession(session.sessionId, at('09:35')))?.expiresAt).toBe(at('10:00').toISOString());
+    expect(await sessions.touchSession(session.sessionId, at('10:00'))).toBeNull();
+  });
+
+  it('revokes single sessions for every instance sharing the store', async () => {
+    const session = await create();
+    const otherInstance = new AuthSessionStore({ store });
+
+    expect(await otherInstance.revokeSession(session.sessionId, 'logout', at('08:05'))).toBe(true);
+    expect(await sessions.getSession(session.sessionId, at('08:06'))).toBeNull();
+    expect(await sessions.touchSession(session.sessionId, at('08:06'))).toBeNull();
+    expect(await sessions.revokeSession(session.sessionId, 'logout', at('08:07'))).toBe(false);
+  });
+
+  it('logs a user out of all devices, optionally except the current one', async () => {
+    const laptop = await create();
+    const phone = await create();
+    const tablet = await create();
+    const colleague = await create('erik@malmo.se');
+    await sessions.touchSession(phone.sessionId, at('08:10'));
+
+    expect((await sessions.listUserSessions('anna@malmo.se', at('08:15'))).map(session => session.sessionId)[0]).toBe(phone.sessionId);
+    expect(await sessions.revokeUserSessions('anna@malmo.se', 'logout_all', { exceptSessionId: laptop.sessionId, now: at('08:20') })).toBe(2);
+
+    expect(await sessions.isValidSession(laptop.sessionId, at('08:21'))).toBe(true);
+    expect(await sessions.isValidSession(tablet.sessionId, at('08:21'))).toBe(false);
+    expect(await sessions.isValidSession(colleague.sessionId, at('08:21'))).toBe(true);
+    expect(await sessions.listUserSessions('anna@malmo.se', at('08:21'))).toHaveLength(1);
+  });
+
+  it('revokes a tenant\'s sessions and purges expired and revoked ones', async () => {
+    await create('anna@malmo.se');
+    await create('erik@malmo.se');
+    const berlin = await create('klaus@berlin.de', 'berlin_de');
+
+    expect(await sessions.revokeTenantSessions('malmo_stad', 'tenant_deactivated', at('08:10'))).toBe(2);
+    expect(await sessions.listTenantSessions('malmo_stad', at('08:11'))).toEqual([]);
+    expect(await sessions.purgeExpiredSessions(at('08:11'))).toBe(2);
+    expect(await sessions.purgeExpiredSessions(at('09:00'))).toBe(1);
+    expect(await store.get('auth_sessions', berlin.sessionId)).toBeNull();
+  });
+
+  it('converts sessions to the AuthSession the client holds', async () => {
+    const session = await create();
+
+    expect(toAuthSession(session)).toMatchObject({
+      sessionId: session.sessionId,
+      userId: 'anna@malmo.se',
+      municipality: 'malmo_stad',
+      expiresAt: session.expiresAt,
+      absoluteExpiresAt: session.absoluteExpiresAt
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Certificate Service Tests
+ * Verifies PDF issuance, detached signatures, verification by code and file, revocation, issuance from
+ * recorded game sessions and the refusal to sign without a configured key
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  CertificateError,
+  CertificateService,
+  certificateOptionsFromEnv,
+  normalizeVerificationCode,
+  type CertifiedGame
+} from '../certificate-service';
+import { MemorySessionStore } from '../session-store';
+import { decodeJws, generateJwsKeyPair } from '../../utils/jws';
+
+const manifest: CertifiedGame = {
+  gameId: 'gdpr-101',
+  metadata: { title: 'GDPR för kommunal personal', description: 'Grunder', duration: '10 minuter', language: 'sv' },
+  theme: { brand: { name: 'Hackers Inc', logo: { url: 'http://169.254.169.254/logo.jpg', alt: 'Logo' } }, colors: { primary: '#005AA0' } }
+};
+
+const latin1 = (bytes: Uint8Array): string => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+describe('CertificateService', () => {
+  let store: MemorySessionStore;
+  let service: CertificateService;
+
+  beforeEach(async () => {
+    store = new MemorySessionStore();
+    service = new CertificateService({
+      store,
+      verificationBaseUrl: 'https://malmo.example/verify',
+      issuer: 'Malmö Stad',
+      games: [manifest]
+    });
+    service.setSigningKey(await generateJwsKeyPair('test-key'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const issue = () => service.issueCertificate({
+    learnerName: 'Anna Svensson',
+    userId: 'anna',
+    manifest,
+    score: { achieved: 17, total: 20 },
+    certificationArea: 'Dataskydd',
+    completedAt: new Date('2026-03-02T10:00:00.000Z')
+  });
+
+  it('renders a branded PDF with the learner, result and verification code', async () => {
+    const certificate = await issue();
+    const pdf = latin1(certificate.pdf);
+
+    expect(certificate.verificationCode).toMatch(/^[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}$/);
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    ['Anna Svensson', 'GDPR f\xf6r kommunal personal', 'Malm\xf6 Stad', 'Dataskydd', certificate.verificationCode]
+      .forEach(text => expect(pdf).toContain(text));
+    expect(pdf).toContain(`https://malmo.example/verify/${certificate.verificationCode}`);
+    expect(certificate.record).toMatchObject({ scorePercent: 85, gameId: 'gdpr-101', kid: 'test-key' });
+    expect(certificate.fileName).toBe(`gdpr-for-kommunal-personal-anna-svensson-${certificate.verificationCode}.pdf`);
+  });
+
+  it('names the configured issuer and never fetches the manifest brand logo', async () => {
+    const fetchSpy = vi.fn();
+    vi.stubGlobal('fetch', fetchSpy);
+
+    const certificate = await issue();
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(certificate.record.issuer).toBe('Malmö Stad');
+    expect(latin1(certificate.pdf)).not.toContain('Hackers Inc');
+  });
+
+  it('signs the PDF with a detached JWS', async () => {
+    const certificate = await issue();
+    const [, payload] = certificate.signature.split('.');
+
+    expect(payload).toBe('');
+    expect(decodeJws(certificate.signature, certificate.pdf).header).toMatchObject({
+      alg: 'ES256',
+      kid: 'test-key',
+      cty: 'application/pdf',
+      verificationCode: certificate.verificationCode
+    });
+    expect((await service.getJwks()).keys).toEqual([expect.objectContaining({ kid: 'test-key', kty: 'EC', crv: 'P-256' })]);
+  });
+
+  it('verifies by code, typed loosely, and by the presented file', async () => {
+    const certificate = await issue();
+
+    const lookup = await service.verifyCertificate(certificate.verificationCode.toLowerCase().replace(/-/g, ' '));
+    expect(lookup).toMatchObject({ valid: true, status: 'valid', fileChecked: false });
+    expect(lookup.certificate).toMatchObject({ learnerName: 'Anna Svensson', scorePercent: 85 });
+    expect(lookup.certificate).not.toHaveProperty('userId');
+
+    expect(await service.verifyCertificate(certificate.verificationCode, certificate.pdf, certificate.signature))
+      .toMatchObject({ valid: true, fileChecked: true });
+
+    const tampered = certificate.pdf.slice();
+    tampered[tampered.length - 20] ^= 1;
+    expect((await service.verifyCertificate(certificate.verificationCode, tampered)).status).toBe('tampered');
+
+    const other = await issue();
+    expect((await service.verifyCertificate(certificate.verificationCode, certificate.pdf, other.signature)).status)
+      .toBe('invalid_signature');
+    expect((await service.verifyCertificate('0000-0000-0000')).status).toBe('not_found');
+  });
+
+  it('keeps certificates signed with a rotated key verifiable', async () => {
+    const certificate = await issue();
+    service.setSigningKey(await generateJwsKeyPair('next-key'));
+
+    expect((await service.verifyCertificate(certificate.verificationCode, certificate.pdf)).valid).toBe(true);
+  });
+
+  it('reports revoked certificates', async () => {
+    const certificate = await issue();
+    expect(await service.revokeCertificate(certificate.verificationCode, 'Utfärdat i fel namn')).toBe(true);
+
+    const verification = await service.verifyCertificate(certificate.verificationCode, certificate.pdf);
+    expect(verification).toMatchObject({ valid: false, status: 'revoked' });
+    expect(verification.certificate?.revocationReason).toBe('Utfärdat i fel namn');
+    expect(await service.revokeCertificate('0000-0000-0000', 'x')).toBe(false);
+  });
+
+  it('rejects requests without a learner name or with an impossible score', async () => {
+    await expect(service.issueCertificate({ learnerName: ' ', manifest, score: { achieved: 1, total: 2 } }))
+      .rejects.toThrow('learner name');
+    await expect(service.issueCertificate({ learnerName: 'Anna', manifest, score: { achieved: 3, total: 2 } }))
+      .rejects.toThrow('score');
+  });
+
+  describe('issueForGameSession', () => {
+    const recordSession = (id: string, sceneResults: Record<string, unknown>, overrides: Record<string, unknown> = {}) =>
+      store.put('game_sessions', id, {
+        id,
+        user_id: 'anna',
+        game_id: 'gdpr-101',
+        started_at: '2026-03-02T09:50:00.000Z',
+        completed_at: '2026-03-02T10:00:00.000Z',
+        progress: { sceneResults },
+        ...overrides
+      });
+
+    const passedResults = {
+      intro: { score: 5, maxScore: 10, choiceId: 'b' },
+      quiz: { score: 8, maxScore: 10, passed: true },
+      exam: { score: 4, maxScore: 4, passed: true, assessment: { passed: true, certificationArea: 'Dataskydd' } }
+    };
+
+    it('scores the recorded scene results of a passed session', async () => {
+      await recordSession('session-1', passedResults);
+
+      const certificate = await service.issueForGameSession({ gameSessionId: 'session-1', learnerName: 'Anna Svensson', userId: 'anna' });
+
+      expect(certificate.record).toMatchObject({
+        gameId: 'gdpr-101',
+        gameTitle: 'GDPR för kommunal personal',
+        issuer: 'Malmö Stad',
+        certificationArea: 'Dataskydd',
+        scoreAchieved: 17,
+        scoreTotal: 24,
+        completedAt: '2026-03-02T10:00:00.000Z'
+      });
+    });
+
+    it('refuses sessions that were failed or have no pass mark', async () => {
+      await recordSession('failed', { ...passedResults, quiz: { score: 3, maxScore: 10, passed: false } });
+      await recordSession('unmarked', { intro: passedResults.intro });
+
+      for (const gameSessionId of ['failed', 'unmarked']) {
+        await expect(service.issueForGameSession({ gameSessionId, learnerName: 'Anna', userId: 'anna' }))
+          .rejects.toMatchObject({ status: 403 });
+      }
+    });
+
+    it('reports other learners\' sessions and uncertified games as missing', async () => {
+      await recordSession('erik-session', passedResults, { user_id: 'erik' });
+      await recordSession('other-game', passedResults, { game_id: 'unlisted' });
+
+      await expect(service.issueForGameSession({ gameSessionId: 'erik-session', learnerName: 'Anna', userId: 'anna' }))
+        .rejects.toMatchObject({ status: 404 });
+      await expect(service.issueForGameSession({ gameSessionId: 'other-game', learnerName: 'Anna', userId: 'anna' }))
+        .rejects.toThrow('No certificate is offered');
+      await expect(service.issueForGameSession({ gameSessionId: 'missing', learnerName: 'Anna', userId: 'anna' }))
+        .rejects.toMatchObject({ status: 404 });
+    });
+  });
+
+  it('refuses to issue without a configured signing key', async () => {
+    const unconfigured = new CertificateService({ store: new MemorySessionStore() });
+    const error = await unconfigured.issueCertificate({ learnerName: 'Anna', manifest, score: { achieved: 1, total: 2 } })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(CertificateError);
+    expect(error).toMatchObject({ status: 503 });
+    expect(await unconfigured.getJwks()).toEqual({ keys: [] });
+  });
+});
+
+describe('certificateOptionsFromEnv', () => {
+  it('reads the issuer and certified games, ignoring a logo that is not a JPEG', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(certificateOptionsFromEnv({
+      CERTIFICATE_ISSUER: 'Malmö Stad',
+      CERTIFICATE_LOGO: 'iVBORw0KGgo=',
+      CERTIFICATE_GAMES: JSON.stringify([manifest])
+    })).toEqual({ issuer: 'Malmö Stad', logo: undefined, games: [manifest] });
+    expect(certificateOptionsFromEnv({})).toEqual({ issuer: undefined, logo: undefined, games: undefined });
+  });
+});
+
+describe('normalizeVerificationCode', () => {
+  it('upper cases, maps confusable letters and restores the dashes', () => {
+    expect(normalizeVerificationCode('ab1c d2ef-ghjo')).toBe('AB1C-D2EF-GHJ0');
+    expect(normalizeVerificationCode('il0o-0000-0000')).toBe('1100-0000-0000');
+  });
+});
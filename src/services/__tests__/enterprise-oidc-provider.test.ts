@@ -0,0 +1,227 @@
+/**
+ * Enterprise OIDC Provider Tests
+ * Runs the relying party against the in-process mock IdP: PKCE login, ID token validation,
+ * key rotation, role mapping and RP-initiated logout
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EnterpriseOIDCProvider, createCodeChallenge, oidcTenantsFromEnv, type OIDCTenantConfig } from '../enterprise-oidc-provider';
+import { AuthSessionStore } from '../auth-session-store';
+import { ScimProvisioningService } from '../scim-provisioning';
+import { MemorySessionStore } from '../session-store';
+import { MockOIDCIdentityProvider } from './mocks/mock-oidc-idp';
+
+const tenant: OIDCTenantConfig = {
+  id: 'malmo_stad',
+  name: 'Malmö Stad',
+  country: 'SE',
+  idpType: 'azure-ad',
+  issuer: 'https://idp.example/malmo/v2.0',
+  clientId: 'diginativa-malmo',
+  clientSecret: 'secret',
+  redirectUri: 'https://malmo.diginativa.se/auth/oidc/callback/malmo_stad',
+  postLogoutRedirectUri: 'https://malmo.diginativa.se/auth/logout/success',
+  isActive: true
+};
+
+describe('EnterpriseOIDCProvider', () => {
+  let clock: number;
+  let idp: MockOIDCIdentityProvider;
+  let store: MemorySessionStore;
+  let sessions: AuthSessionStore;
+  let provisioning: ScimProvisioningService;
+  let provider: EnterpriseOIDCProvider;
+
+  const createProvider = (fetchImpl: typeof fetch = idp.fetch) =>
+    new EnterpriseOIDCProvider({ tenants: [tenant], store, sessions, provisioning, fetch: fetchImpl, now: () => clock });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    clock = Date.parse('2026-05-04T08:00:00.000Z');
+    idp = new MockOIDCIdentityProvider({ issuer: tenant.issuer, now: () => clock });
+    await idp.rotateKeys();
+    store = new MemorySessionStore();
+    sessions = new AuthSessionStore({ store });
+    provisioning = new ScimProvisioningService({ store, sessions, now: () => clock });
+    provider = createProvider();
+  });
+
+  const login = async (claims: Record<string, unknown> = {}) => {
+    const loginUrl = await provider.initiateLogin(tenant.id, '/hub/MALMO');
+    return provider.handleCallback(tenant.id, await idp.authorize(loginUrl, claims));
+  };
+
+  it('starts an authorization code flow with PKCE from the discovered endpoints', async () => {
+    const params = new URL(await provider.initiateLogin(tenant.id)).searchParams;
+
+    expect(params.get('client_id')).toBe(tenant.clientId);
+    expect(params.get('redirect_uri')).toBe(tenant.redirectUri);
+    expect(params.get('scope')).toBe('openid profile email');
+    expect(params.get('code_challenge_method')).toBe('S256');
+    expect(params.get('code_challenge')).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(params.get('state')).not.toBe(params.get('nonce'));
+    expect(idp.requests).toEqual([`${tenant.issuer}/.well-known/openid-configuration`]);
+  });
+
+  it('signs users in and maps claims and roles like the SAML provider', async () => {
+    const result = await login({
+      email: 'anna.svensson@malmo.se',
+      name: 'Anna Svensson',
+      given_name: 'Anna',
+      family_name: 'Svensson',
+      roles: ['content_manager']
+    });
+
+    expect(result).toMatchObject({ success: true, tenantId: tenant.id, redirectUrl: '/hub/MALMO' });
+    expect(result.user).toMatchObject({
+      subject: 'user-anna',
+      email: 'anna.svensson@malmo.se',
+      displayName: 'Anna Svensson',
+      firstName: 'Anna',
+      lastName: 'Svensson',
+      municipality: 'Malmö Stad',
+      roles: ['content_manager', 'municipal_employee_se']
+    });
+    expect(await provider.isValidSession(result.sessionId)).toBe(true);
+    expect(provider.getTenant(tenant.id)?.lastLogin).toBe('2026-05-04T08:00:00.000Z');
+  });
+
+  it('accepts each state once and only for its tenant', async () => {
+    const loginUrl = await provider.initiateLogin(tenant.id);
+    const callback = await idp.authorize(loginUrl);
+    provider.registerTenant({ ...tenant, id: 'other' });
+
+    expect((await provider.handleCallback('other', callback)).error).toBe('Invalid or expired state');
+    expect((await provider.handleCallback(tenant.id, callback)).error).toBe('Invalid or expired state');
+
+    const expiring = await idp.authorize(await provider.initiateLogin(tenant.id));
+    clock += 11 * 60 * 1000;
+    expect((await provider.handleCallback(tenant.id, expiring)).success).toBe(false);
+  });
+
+  it('reports errors returned by the identity provider', async () => {
+    const { state } = await idp.authorize(await provider.initiateLogin(tenant.id));
+    const result = await provider.handleCallback(tenant.id, { state, error: 'access_denied', error_description: 'User cancelled' });
+
+    expect(result).toMatchObject({ success: false, error: 'Identity provider returned access_denied: User cancelled' });
+  });
+
+  it.each([
+    ['another audience', { aud: 'someone-else' }, 'not issued to this client'],
+    ['another issuer', { iss: 'https://evil.example' }, 'issuer'],
+    ['a replayed nonce', { nonce: 'old-nonce' }, 'nonce'],
+    ['an expired token', { exp: 1 }, 'expired'],
+    ['several audiences without azp', { aud: [tenant.clientId, 'other'] }, 'not issued to this client']
+  ])('rejects ID tokens with %s', async (_case, claims, error) => {
+    const result = await login(claims);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain(error);
+  });
+
+  it('rejects ID tokens whose signature does not verify', async () => {
+    const loginUrl = await provider.initiateLogin(tenant.id);
+    const callback = await idp.authorize(loginUrl);
+    const forged = new MockOIDCIdentityProvider({ issuer: tenant.issuer, now: () => clock });
+    await forged.rotateKeys();
+    const idToken = await forged.signIdToken({ iss: tenant.issuer, aud: tenant.clientId, sub: 'mallory', iat: 0, exp: 0 });
+    const fetchWithForgedToken: typeof fetch = async (input, init) => (String(input).endsWith('/token')
+      ? new Response(JSON.stringify({ id_token: idToken }), { status: 200 })
+      : idp.fetch(input, init));
+    const rp = createProvider(fetchWithForgedToken);
+
+    const { state } = await idp.authorize(await rp.initiateLogin(tenant.id));
+    const result = await rp.handleCallback(tenant.id, { code: callback.code, state });
+    expect(result).toMatchObject({ success: false, error: 'Authentication failed: ID token signature is invalid' });
+  });
+
+  it('fails the token exchange when the PKCE verifier does not match', async () => {
+    const first = await idp.authorize(await provider.initiateLogin(tenant.id));
+    const second = await idp.authorize(await provider.initiateLogin(tenant.id));
+
+    // The second login's verifier is sent with the first login's code
+    const result = await provider.handleCallback(tenant.id, { code: first.code, state: second.state });
+    expect(result.error).toBe('Authentication failed: Token request failed: invalid_grant');
+  });
+
+  it('caches the JWKS and refetches it when the IdP rotates its keys', async () => {
+    expect((await login()).success).toBe(true);
+    expect((await login()).success).toBe(true);
+    expect(idp.requests.filter(url => url.endsWith('/keys'))).toHaveLength(1);
+
+    await idp.rotateKeys();
+    clock += 2 * 60 * 1000;
+    expect((await login()).success).toBe(true);
+    expect(idp.requests.filter(url => url.endsWith('/keys'))).toHaveLength(2);
+  });
+
+  it('verifies ES256 ID tokens as well', async () => {
+    idp = new MockOIDCIdentityProvider({ issuer: tenant.issuer, algorithm: 'ES256', now: () => clock });
+    await idp.rotateKeys();
+    provider = createProvider();
+
+    expect((await login()).success).toBe(true);
+  });
+
+  it('logs out at the IdP with the ID token as hint', async () => {
+    const result = await login();
+    const logoutUrl = new URL(await provider.initiateLogout(tenant.id, result.sessionId));
+
+    expect(`${logoutUrl.origin}${logoutUrl.pathname}`).toBe(`${tenant.issuer}/logout`);
+    expect(logoutUrl.searchParams.get('id_token_hint')).toBe(result.user?.idToken);
+    expect(logoutUrl.searchParams.get('post_logout_redirect_uri')).toBe(tenant.postLogoutRedirectUri);
+    expect(await provider.isValidSession(result.sessionId)).toBe(false);
+    expect(await provider.initiateLogout(tenant.id, result.sessionId)).toBe('/auth/logout/success');
+  });
+
+  it('refuses discovery documents for another issuer and logins for inactive tenants', async () => {
+    const mismatched = new EnterpriseOIDCProvider({
+      tenants: [{ ...tenant, issuer: 'https://idp.example/other/v2.0' }],
+      fetch: async () => new Response(JSON.stringify({ issuer: tenant.issuer }))
+    });
+    await expect(mismatched.initiateLogin(tenant.id)).rejects.toThrow('does not match');
+
+    const result = await login();
+    await provider.deactivateTenant(tenant.id);
+    await expect(provider.initiateLogin(tenant.id)).rejects.toThrow('inactive');
+    expect(await provider.isValidSession(result.sessionId)).toBe(false);
+  });
+
+  it('completes logins on another instance sharing the session store', async () => {
+    const loginUrl = await provider.initiateLogin(tenant.id, '/hub/MALMO');
+    const otherInstance = createProvider();
+
+    const result = await otherInstance.handleCallback(tenant.id, await idp.authorize(loginUrl));
+    expect(result.success).toBe(true);
+    expect(await provider.getUser(result.sessionId)).toMatchObject({ subject: 'user-anna' });
+  });
+
+  it('gives users provisioned over SCIM their group\'s role and refuses deactivated ones', async () => {
+    const user = await provisioning.createUser(tenant.id, { userName: 'anna.svensson@malmo.se' });
+    await provisioning.createGroup(tenant.id, { displayName: 'admin', members: [{ value: user.id }] });
+
+    const result = await login({ email: 'anna.svensson@malmo.se' });
+    expect((await sessions.getSession(result.sessionId, new Date(clock)))?.role).toBe('admin');
+
+    await provisioning.patchUser(tenant.id, user.id, [{ op: 'replace', path: 'active', value: false }]);
+    expect(await provider.isValidSession(result.sessionId)).toBe(false);
+    expect(await login({ email: 'anna.svensson@malmo.se' })).toMatchObject({ success: false, error: 'User account has been deactivated' });
+  });
+});
+
+describe('createCodeChallenge', () => {
+  it('matches the example of RFC 7636 appendix B', async () => {
+    expect(await createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk'))
+      .toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+  });
+});
+
+describe('oidcTenantsFromEnv', () => {
+  it('reads tenants from OIDC_TENANTS and defaults them to active', () => {
+    const config: Partial<OIDCTenantConfig> = { ...tenant };
+    delete config.isActive;
+    expect(oidcTenantsFromEnv({ OIDC_TENANTS: JSON.stringify([config]) })).toEqual([tenant]);
+    expect(oidcTenantsFromEnv({})).toEqual([]);
+  });
+});
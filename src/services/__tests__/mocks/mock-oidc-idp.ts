@@ -0,0 +1,155 @@
+/**
+ * Mock OpenID Connect Identity Provider
+ * In-process IdP for relying party tests: discovery, JWKS with key rotation, authorization with
+ * PKCE and a token endpoint issuing RS256 or ES256 ID tokens, all served through a fetch function
+ */
+
+import { base64UrlEncode } from '../../../utils/jws';
+
+type SigningAlgorithm = 'RS256' | 'ES256';
+
+interface MockSigningKey {
+  kid: string;
+  privateKey: CryptoKey;
+  publicJwk: JsonWebKey & { kid: string };
+}
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  claims: Record<string, unknown>;
+}
+
+export interface MockOIDCIdentityProviderOptions {
+  issuer?: string;
+  algorithm?: SigningAlgorithm;
+  now?: () => number;
+  endSession?: boolean;
+}
+
+const KEY_PARAMS = {
+  RS256: { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+  ES256: { name: 'ECDSA', namedCurve: 'P-256' }
+} as const;
+
+const SIGN_PARAMS = {
+  RS256: { name: 'RSASSA-PKCS1-v1_5' },
+  ES256: { name: 'ECDSA', hash: 'SHA-256' }
+} as const;
+
+const json = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+export class MockOIDCIdentityProvider {
+  readonly issuer: string;
+  readonly algorithm: SigningAlgorithm;
+  readonly requests: string[] = []; // URLs the relying party fetched
+  private now: () => number;
+  private endSession: boolean;
+  private keys: MockSigningKey[] = [];
+  private keyCounter = 0;
+  private codes = new Map<string, IssuedCode>();
+
+  constructor(options: MockOIDCIdentityProviderOptions = {}) {
+    this.issuer = options.issuer ?? 'https://idp.example/malmo/v2.0';
+    this.algorithm = options.algorithm ?? 'RS256';
+    this.now = options.now ?? (() => Date.now());
+    this.endSession = options.endSession ?? true;
+  }
+
+  /**
+   * Replaces the signing key; the JWKS only lists the new key, as after a completed rotation
+   */
+  async rotateKeys(): Promise<void> {
+    const { privateKey, publicKey } = await crypto.subtle.generateKey(KEY_PARAMS[this.algorithm], true, ['sign', 'verify']);
+    const kid = `mock-key-${++this.keyCounter}`;
+    const publicJwk = { ...await crypto.subtle.exportKey('jwk', publicKey), kid, use: 'sig', alg: this.algorithm };
+    delete publicJwk.key_ops;
+    delete publicJwk.ext;
+    this.keys = [{ kid, privateKey, publicJwk }];
+  }
+
+  /**
+   * The user signs in: checks the authorization request and returns the callback parameters.
+   * `claims` are added to, and may override, the ID token's standard claims.
+   */
+  async authorize(authorizationUrl: string, claims: Record<string, unknown> = {}): Promise<{ code: string; state: string }> {
+    const params = new URL(authorizationUrl).searchParams;
+    if (params.get('response_type') !== 'code' || params.get('code_challenge_method') !== 'S256') {
+      throw new Error('Mock IdP only supports the authorization code flow with PKCE S256');
+    }
+    const code = base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)));
+    this.codes.set(code, {
+      clientId: params.get('client_id') ?? '',
+      redirectUri: params.get('redirect_uri') ?? '',
+      codeChallenge: params.get('code_challenge') ?? '',
+      nonce: params.get('nonce') ?? '',
+      claims
+    });
+    return { code, state: params.get('state') ?? '' };
+  }
+
+  async signIdToken(claims: Record<string, unknown>, kid = this.keys[0]?.kid): Promise<string> {
+    const key = this.keys.find(candidate => candidate.kid === kid) ?? this.keys[0];
+    const signingInput = `${base64UrlEncode(JSON.stringify({ alg: this.algorithm, kid, typ: 'JWT' }))}.${base64UrlEncode(JSON.stringify(claims))}`;
+    const signature = await crypto.subtle.sign(SIGN_PARAMS[this.algorithm], key.privateKey, new TextEncoder().encode(signingInput));
+    return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+  }
+
+  readonly fetch: typeof fetch = async (input, init) => {
+    const url = String(input);
+    this.requests.push(url);
+
+    if (url === `${this.issuer}/.well-known/openid-configuration`) {
+      return json({
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/keys`,
+        ...(this.endSession ? { end_session_endpoint: `${this.issuer}/logout` } : {}),
+        response_types_supported: ['code'],
+        id_token_signing_alg_values_supported: [this.algorithm],
+        code_challenge_methods_supported: ['S256']
+      });
+    }
+    if (url === `${this.issuer}/keys`) {
+      return json({ keys: this.keys.map(key => key.publicJwk) });
+    }
+    if (url === `${this.issuer}/token` && init?.method === 'POST') {
+      return this.token(new URLSearchParams(String(init.body)));
+    }
+    return json({ error: 'not_found' }, 404);
+  };
+
+  private async token(body: URLSearchParams): Promise<Response> {
+    const code = body.get('code') ?? '';
+    const issued = this.codes.get(code);
+    this.codes.delete(code);
+    if (body.get('grant_type') !== 'authorization_code' || !issued) {
+      return json({ error: 'invalid_grant' }, 400);
+    }
+    if (body.get('client_id') !== issued.clientId || body.get('redirect_uri') !== issued.redirectUri) {
+      return json({ error: 'invalid_grant' }, 400);
+    }
+    const challenge = base64UrlEncode(new Uint8Array(
+      await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body.get('code_verifier') ?? ''))
+    ));
+    if (challenge !== issued.codeChallenge) {
+      return json({ error: 'invalid_grant', error_description: 'PKCE verification failed' }, 400);
+    }
+
+    const seconds = Math.floor(this.now() / 1000);
+    const idToken = await this.signIdToken({
+      iss: this.issuer,
+      aud: issued.clientId,
+      sub: 'user-anna',
+      nonce: issued.nonce,
+      iat: seconds,
+      exp: seconds + 3600,
+      ...issued.claims
+    });
+    return json({ access_token: 'mock-access-token', token_type: 'Bearer', expires_in: 3600, id_token: idToken });
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Offline Session Sync Tests
+ * Verifies the journal-first save path, replay on reconnect and multi-device merges
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GameStateManager } from '../game-state-manager';
+import { MemorySessionStore, mergeGameSessionRecords, type SessionRecord } from '../session-store';
+import { OfflineResilienceManager, type SyncStatus } from '../../optimization/OfflineResilienceManager';
+
+interface StoredGameSession extends SessionRecord {
+  progress: {
+    currentSceneId: string;
+    completedScenes: string[];
+    sceneResults: Record<string, unknown>;
+    totalTimeSpent: number;
+  };
+}
+
+const sessionRecord = (overrides: Record<string, unknown>, progress: Record<string, unknown>) => ({
+  id: 'session-1',
+  user_id: 'anna',
+  game_id: 'gdpr-101',
+  tenant_id: 'malmo',
+  started_at: '2026-03-02T07:00:00.000Z',
+  completed_at: null,
+  ...overrides,
+  progress: {
+    currentSceneId: '',
+    sceneIndex: 0,
+    completedScenes: [],
+    sceneResults: {},
+    sceneCompletedAt: {},
+    lastActiveTime: '2026-03-02T07:00:00.000Z',
+    totalTimeSpent: 0,
+    ...progress
+  }
+});
+
+describe('mergeGameSessionRecords', () => {
+  const laptop = sessionRecord({}, {
+    currentSceneId: 'quiz-1',
+    sceneIndex: 2,
+    completedScenes: ['intro', 'dialogue-1'],
+    sceneResults: { intro: { score: 5 }, 'dialogue-1': { score: 3 } },
+    sceneCompletedAt: { intro: '2026-03-02T07:05:00.000Z', 'dialogue-1': '2026-03-02T07:10:00.000Z' },
+    lastActiveTime: '2026-03-02T07:10:00.000Z',
+    totalTimeSpent: 600000
+  });
+  const phone = sessionRecord({}, {
+    currentSceneId: 'dialogue-2',
+    sceneIndex: 3,
+    completedScenes: ['intro', 'quiz-2'],
+    sceneResults: { intro: { score: 10 }, 'quiz-2': { score: 8 } },
+    sceneCompletedAt: { intro: '2026-03-02T08:00:00.000Z', 'quiz-2': '2026-03-02T08:05:00.000Z' },
+    lastActiveTime: '2026-03-02T08:05:00.000Z',
+    totalTimeSpent: 480000
+  });
+
+  it('unions completed scenes and keeps the latest result per scene', () => {
+    const merged = mergeGameSessionRecords(laptop, phone) as StoredGameSession;
+
+    expect(merged.progress.completedScenes).toEqual(['intro', 'quiz-2', 'dialogue-1']);
+    expect(merged.progress.sceneResults).toEqual({
+      intro: { score: 10 },
+      'dialogue-1': { score: 3 },
+      'quiz-2': { score: 8 }
+    });
+    expect(merged.progress.currentSceneId).toBe('dialogue-2');
+    expect(merged.progress.totalTimeSpent).toBe(600000);
+  });
+
+  it('produces the same record regardless of which device is local', () => {
+    expect(mergeGameSessionRecords(phone, laptop)).toEqual(mergeGameSessionRecords(laptop, phone));
+  });
+
+  it('keeps the earliest completion and its results', () => {
+    const first = { ...laptop, completed_at: '2026-03-02T09:00:00.000Z', results: { totalScore: 70 } };
+    const second = { ...phone, completed_at: '2026-03-02T10:00:00.000Z', results: { totalScore: 90 } };
+
+    expect(mergeGameSessionRecords(second, first)).toMatchObject({
+      completed_at: '2026-03-02T09:00:00.000Z',
+      results: { totalScore: 70 }
+    });
+    expect(mergeGameSessionRecords(phone, first).completed_at).toBe('2026-03-02T09:00:00.000Z');
+  });
+});
+
+describe('GameStateManager offline journal', () => {
+  let journal: OfflineResilienceManager;
+  let store: MemorySessionStore;
+  let manager: GameStateManager;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // Autosave and periodic sync intervals must not outlive the test
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    journal = new OfflineResilienceManager();
+    store = new MemorySessionStore();
+    manager = new GameStateManager(store, journal);
+    await journal.initialize();
+  });
+
+  afterEach(() => {
+    journal.destroy();
+    vi.clearAllTimers();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const startSession = () => manager.startGameSession('anna', 'gdpr-101', 'malmo', 'swedish_municipal');
+  const storedSession = async (sessionId: string) => (await store.get('game_sessions', sessionId)) as StoredGameSession;
+
+  it('journals progress while offline and replays it on reconnect', async () => {
+    const { sessionId } = await startSession();
+    const statuses: SyncStatus[] = [];
+    journal.subscribe(status => statuses.push(status));
+
+    window.dispatchEvent(new Event('offline'));
+    await manager.updateGameState(sessionId, { currentSceneId: 'intro', sceneIndex: 1, sceneResult: { score: 5 } });
+    await manager.updateGameState(sessionId, { currentSceneId: 'quiz-1', sceneIndex: 2, sceneResult: { score: 7 } });
+
+    // Snapshots of the same session supersede each other in the journal
+    expect(journal.getSyncStatus()).toMatchObject({ isOnline: false, pendingActions: 1 });
+    expect((await storedSession(sessionId)).progress.completedScenes).toEqual([]);
+
+    window.dispatchEvent(new Event('online'));
+    await journal.flush();
+
+    expect((await storedSession(sessionId)).progress.completedScenes).toEqual(['intro', 'quiz-1']);
+    expect(journal.getSyncStatus()).toMatchObject({ isOnline: true, pendingActions: 0, syncInProgress: false });
+    expect(statuses.some(status => status.syncInProgress)).toBe(true);
+  });
+
+  it('merges with progress another device saved meanwhile', async () => {
+    const { sessionId } = await startSession();
+    window.dispatchEvent(new Event('offline'));
+    await manager.updateGameState(sessionId, { currentSceneId: 'intro', sceneIndex: 1, sceneResult: { score: 5 } });
+
+    const serverCopy = await storedSession(sessionId);
+    await store.put('game_sessions', sessionId, {
+      ...serverCopy,
+      progress: {
+        ...serverCopy.progress,
+        completedScenes: ['quiz-2'],
+        sceneResults: { 'quiz-2': { score: 9 } },
+        sceneCompletedAt: { 'quiz-2': '2020-01-01T00:00:00.000Z' }
+      }
+    });
+
+    window.dispatchEvent(new Event('online'));
+    await journal.flush();
+    const synced = await storedSession(sessionId);
+
+    expect(synced.progress.completedScenes.sort()).toEqual(['intro', 'quiz-2']);
+    expect(synced.progress.sceneResults).toEqual({ intro: { score: 5 }, 'quiz-2': { score: 9 } });
+  });
+
+  it('resumes from the journal when the server copy is stale', async () => {
+    const { sessionId } = await startSession();
+    window.dispatchEvent(new Event('offline'));
+    await manager.updateGameState(sessionId, { currentSceneId: 'intro', sceneIndex: 1, sceneResult: { score: 5 } });
+
+    const resumed = await manager.resumeGameSession(sessionId);
+
+    expect(resumed?.progress.completedScenes).toEqual(['intro']);
+    expect(resumed?.sceneIndex).toBe(1);
+  });
+});
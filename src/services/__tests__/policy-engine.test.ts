@@ -0,0 +1,123 @@
+/**
+ * Policy Engine Tests
+ * Role and tenant checks, custom roles and resource-scoped grants delegated by municipal admins,
+ * escalation refusals and the decision audit log
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PolicyEngine, PolicyError, type PolicySubject } from '../policy-engine';
+import { MemorySessionStore } from '../session-store';
+
+const admin: PolicySubject = { userId: 'karin@malmo.se', tenantId: 'malmo_stad', role: 'admin' };
+const editor: PolicySubject = { userId: 'erik@malmo.se', tenantId: 'malmo_stad', role: 'user' };
+const social = { type: 'department', id: 'socialforvaltningen' };
+
+describe('PolicyEngine', () => {
+  let clock: number;
+  let engine: PolicyEngine;
+
+  beforeEach(() => {
+    clock = Date.parse('2026-03-02T08:00:00Z');
+    engine = new PolicyEngine({ store: new MemorySessionStore(), now: () => clock });
+  });
+
+  const expectPolicyError = async (promise: Promise<unknown>, status: number) => {
+    const error = await promise.catch(caught => caught);
+    expect(error).toBeInstanceOf(PolicyError);
+    expect(error).toMatchObject({ status });
+  };
+
+  it('allows the permissions of the built-in role within the subject\'s tenant', async () => {
+    await expect(engine.authorize(admin, { permission: 'users.manage' })).resolves.toMatchObject({ allowed: true, reason: 'role' });
+    await expect(engine.authorize(editor, { permission: 'games.publish' })).resolves.toMatchObject({ allowed: false, reason: 'not_granted' });
+    await expect(engine.authorize(admin, { permission: 'users.manage', tenantId: 'goteborg_stad' }))
+      .resolves.toMatchObject({ allowed: false, reason: 'tenant_mismatch', tenantId: 'goteborg_stad' });
+  });
+
+  it('allows DigiNativa super admins in every tenant', async () => {
+    const staff: PolicySubject = { userId: 'ops@diginativa.se', tenantId: 'diginativa', role: 'super_admin' };
+
+    await expect(engine.authorize(staff, { permission: 'municipality.admin', tenantId: 'malmo_stad' }))
+      .resolves.toMatchObject({ allowed: true, reason: 'system_admin' });
+  });
+
+  it('delegates publishing through a custom role without full admin', async () => {
+    const publisher = await engine.createCustomRole(admin, { name: 'Publisher', permissions: ['games.create', 'games.publish'] });
+    const grant = await engine.grant(admin, { userId: editor.userId, roleId: publisher.id });
+
+    await expect(engine.authorize(editor, { permission: 'games.publish' }))
+      .resolves.toMatchObject({ allowed: true, reason: 'custom_role', grantId: grant.id });
+    await expect(engine.authorize(editor, { permission: 'users.manage' })).resolves.toMatchObject({ allowed: false });
+
+    await engine.deleteCustomRole(admin, publisher.id);
+    await expect(engine.authorize(editor, { permission: 'games.publish' })).resolves.toMatchObject({ allowed: false });
+    expect(await engine.listGrants('malmo_stad')).toEqual([]);
+  });
+
+  it('limits resource grants to that resource', async () => {
+    await engine.grant(admin, { userId: editor.userId, permission: 'analytics.view', resource: social });
+
+    await expect(engine.authorize(editor, { permission: 'analytics.view', resource: social }))
+      .resolves.toMatchObject({ allowed: true, reason: 'grant' });
+    await expect(engine.authorize(editor, { permission: 'analytics.view', resource: { type: 'department', id: 'miljoforvaltningen' } }))
+      .resolves.toMatchObject({ allowed: false });
+    await expect(engine.authorize(editor, { permission: 'analytics.view' })).resolves.toMatchObject({ allowed: false });
+    expect(await engine.effectivePermissions(editor)).toEqual({
+      permissions: ['games.play'],
+      scoped: [{ permission: 'analytics.view', resource: social }]
+    });
+  });
+
+  it('ignores expired grants', async () => {
+    await engine.grant(admin, { userId: editor.userId, permission: 'games.publish', expiresAt: '2026-03-02T12:00:00Z' });
+    await expect(engine.authorize(editor, { permission: 'games.publish' })).resolves.toMatchObject({ allowed: true });
+
+    clock = Date.parse('2026-03-02T12:00:01Z');
+    await expect(engine.authorize(editor, { permission: 'games.publish' })).resolves.toMatchObject({ allowed: false });
+  });
+
+  it('refuses grants that would escalate privileges', async () => {
+    const analyst: PolicySubject = { userId: 'sara@malmo.se', tenantId: 'malmo_stad', role: 'analyst', permissions: ['users.manage'] };
+
+    await expectPolicyError(engine.grant(editor, { userId: 'anna@malmo.se', permission: 'games.play' }), 403);
+    await expectPolicyError(engine.grant(admin, { userId: editor.userId, permission: 'system.admin' }), 403);
+    await expectPolicyError(engine.createCustomRole(analyst, { name: 'Publisher', permissions: ['games.publish'] }), 403);
+    await expectPolicyError(engine.grant(admin, { userId: editor.userId, permission: 'games.teleport' as never }), 400);
+    await expectPolicyError(engine.grant(admin, { userId: editor.userId, roleId: 'role_in_another_tenant' }), 404);
+  });
+
+  it('records every decision in the tenant\'s audit log', async () => {
+    await engine.authorize(editor, { permission: 'users.view', action: 'GET /api/auth/policy/grants' });
+    clock += 1000;
+    await engine.authorize(admin, { permission: 'users.view' });
+
+    const decisions = await engine.listDecisions('malmo_stad');
+    expect(decisions).toHaveLength(2);
+    expect(decisions[0]).toMatchObject({ userId: admin.userId, allowed: true, reason: 'role' });
+    expect(decisions[1]).toMatchObject({
+      userId: editor.userId,
+      permission: 'users.view',
+      allowed: false,
+      reason: 'not_granted',
+      action: 'GET /api/auth/policy/grants',
+      decidedAt: '2026-03-02T08:00:00.000Z'
+    });
+    expect(await engine.listDecisions('malmo_stad', { allowed: false })).toHaveLength(1);
+    expect(await engine.purgeDecisions(new Date(clock))).toBe(1);
+  });
+
+  it('purges decisions older than the retention period as new ones are recorded', async () => {
+    engine = new PolicyEngine({ store: new MemorySessionStore(), now: () => clock, decisionRetentionMs: 24 * 60 * 60 * 1000 });
+    await engine.authorize(admin, { permission: 'users.view' });
+
+    clock += 30 * 60 * 1000;
+    await engine.authorize(admin, { permission: 'users.view' });
+    expect(await engine.listDecisions('malmo_stad')).toHaveLength(2);
+
+    clock += 2 * 24 * 60 * 60 * 1000;
+    await engine.authorize(editor, { permission: 'users.view' });
+    const decisions = await engine.listDecisions('malmo_stad');
+    expect(decisions).toHaveLength(1);
+    expect(decisions[0]).toMatchObject({ userId: editor.userId });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Review Scheduler Tests
+ * Verifies cards built from completed game sessions, the review queue and recorded review answers
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ReviewScheduler, extractQuizOutcomes } from '../review-scheduler';
+import { MemorySessionStore } from '../session-store';
+import { REVIEW_SCENE_ID } from '../../utils/spacedRepetition';
+
+const completedSession = (id: string, completedAt: string, answers: Record<string, unknown>[]) => ({
+  id,
+  user_id: 'anna',
+  game_id: 'gdpr-101',
+  tenant_id: 'malmo',
+  started_at: completedAt,
+  completed_at: completedAt,
+  progress: {
+    currentSceneId: 'quiz-1',
+    sceneIndex: 1,
+    completedScenes: ['intro', 'quiz-1'],
+    sceneResults: { intro: { score: 5 }, 'quiz-1': { answers } },
+    sceneCompletedAt: { 'quiz-1': completedAt }
+  }
+});
+
+describe('extractQuizOutcomes', () => {
+  it('reads quiz answers from the per-scene results', () => {
+    const outcomes = extractQuizOutcomes(completedSession('s1', '2026-03-01T08:00:00.000Z', [
+      { question_id: 'q1', is_correct: true, points_earned: 10 },
+      { question_id: 'q2', is_correct: false, points_earned: 5 }
+    ]));
+
+    expect(outcomes).toEqual([
+      expect.objectContaining({ sessionId: 's1', sceneId: 'quiz-1', questionId: 'q1', correct: true, partlyCorrect: false }),
+      expect.objectContaining({ questionId: 'q2', correct: false, partlyCorrect: true, at: '2026-03-01T08:00:00.000Z' })
+    ]);
+  });
+});
+
+describe('ReviewScheduler', () => {
+  let store: MemorySessionStore;
+  let scheduler: ReviewScheduler;
+
+  beforeEach(async () => {
+    store = new MemorySessionStore();
+    scheduler = new ReviewScheduler(store);
+    await store.put('game_sessions', 's1', completedSession('s1', '2026-03-01T08:00:00.000Z', [
+      { question_id: 'q1', is_correct: true, points_earned: 10 },
+      { question_id: 'q2', is_correct: false, points_earned: 0 }
+    ]));
+    await store.put('game_sessions', 's2', { ...completedSession('s2', '', []), completed_at: null });
+  });
+
+  it('turns completed sessions into cards once', async () => {
+    await scheduler.syncCompletedSessions('anna');
+    const schedule = await scheduler.syncCompletedSessions('anna');
+
+    expect(schedule.syncedSessions).toEqual(['s1']);
+    expect(schedule.cards['gdpr-101:q1'].history).toHaveLength(1);
+    expect(schedule.cards['gdpr-101:q2']).toMatchObject({ repetitions: 0, interval: 1 });
+  });
+
+  it('queues missed items first and grades review answers back onto the cards', async () => {
+    const queue = await scheduler.getReviewQueue('anna', new Date('2026-03-02T09:00:00.000Z'));
+    expect(queue.map(card => card.itemId)).toEqual(['gdpr-101:q2', 'gdpr-101:q1']);
+
+    const schedule = await scheduler.recordReviewResults('anna', {
+      answers: {
+        [REVIEW_SCENE_ID]: {
+          answers: [
+            { question_id: 'gdpr-101:q1', is_correct: true, points_earned: 10 },
+            { question_id: 'gdpr-101:q2', is_correct: true, points_earned: 10 },
+            { question_id: 'unknown:q9', is_correct: true, points_earned: 10 }
+          ]
+        }
+      }
+    }, new Date('2026-03-02T09:00:00.000Z'));
+
+    expect(schedule.cards['gdpr-101:q1']).toMatchObject({ interval: 6, repetitions: 2 });
+    expect(schedule.cards['gdpr-101:q2']).toMatchObject({ interval: 1, repetitions: 1 });
+    expect(Object.keys(schedule.cards)).toHaveLength(2);
+    expect(await scheduler.getReviewQueue('anna', new Date('2026-03-02T10:00:00.000Z'))).toEqual([]);
+  });
+
+  it('reports retention with the answer history of every item', async () => {
+    await scheduler.syncCompletedSessions('anna');
+    await scheduler.recordReviewResults('anna', {
+      answers: { [REVIEW_SCENE_ID]: { answers: [{ question_id: 'gdpr-101:q2', is_correct: false, points_earned: 0 }] } }
+    }, new Date('2026-03-02T09:00:00.000Z'));
+
+    const report = await scheduler.getRetentionReport('anna', new Date('2026-03-02T10:00:00.000Z'));
+    expect(report.summary).toMatchObject({ items: 2, reviews: 1, retention: 0 });
+    expect(report.cards[1].history.map(event => event.source)).toEqual(['game', 'review']);
+  });
+});
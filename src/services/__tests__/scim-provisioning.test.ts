@@ -0,0 +1,203 @@
+/**
+ * SCIM Provisioning Service Tests
+ * Users and Groups as Entra ID and Okta provision them: filters, PATCH operations, tenant scoping,
+ * group to role mapping and revoking the sessions of leavers
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ScimProvisioningService, ScimError, SCIM_SCHEMAS, parseScimFilter } from '../scim-provisioning';
+import { AuthSessionStore } from '../auth-session-store';
+import { MemorySessionStore } from '../session-store';
+
+const anna = {
+  schemas: [SCIM_SCHEMAS.user, SCIM_SCHEMAS.enterpriseUser],
+  externalId: 'e3b0c442',
+  userName: 'Anna.Svensson@malmo.se',
+  name: { givenName: 'Anna', familyName: 'Svensson' },
+  displayName: 'Anna Svensson',
+  emails: [{ value: 'anna.svensson@malmo.se', type: 'work', primary: true }],
+  active: true,
+  [SCIM_SCHEMAS.enterpriseUser]: { department: 'Socialförvaltningen' }
+};
+
+describe('ScimProvisioningService', () => {
+  let store: MemorySessionStore;
+  let sessions: AuthSessionStore;
+  let scim: ScimProvisioningService;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    store = new MemorySessionStore();
+    sessions = new AuthSessionStore({ store });
+    scim = new ScimProvisioningService({ store, sessions, groupRoles: { 'DigiNativa Redaktörer': 'content_manager' } });
+  });
+
+  const expectScimError = async (promise: Promise<unknown>, status: number, scimType?: string) => {
+    const error = await promise.catch(caught => caught);
+    expect(error).toBeInstanceOf(ScimError);
+    expect(error).toMatchObject({ status, scimType });
+  };
+
+  it('provisions users and returns them as SCIM resources', async () => {
+    const user = await scim.createUser('malmo_stad', anna);
+
+    expect(user).toMatchObject({
+      schemas: [SCIM_SCHEMAS.user, SCIM_SCHEMAS.enterpriseUser],
+      externalId: 'e3b0c442',
+      userName: 'Anna.Svensson@malmo.se',
+      name: { givenName: 'Anna', familyName: 'Svensson' },
+      active: true,
+      groups: [],
+      [SCIM_SCHEMAS.enterpriseUser]: { department: 'Socialförvaltningen' },
+      meta: { resourceType: 'User', location: `/scim/v2/Users/${user.id}` }
+    });
+    expect(await scim.getUser('malmo_stad', user.id)).toEqual(user);
+  });
+
+  it('keeps userNames unique per tenant, ignoring case', async () => {
+    await scim.createUser('malmo_stad', anna);
+
+    await expectScimError(scim.createUser('malmo_stad', { ...anna, userName: 'anna.svensson@MALMO.se' }), 409, 'uniqueness');
+    await expect(scim.createUser('goteborg_stad', anna)).resolves.toMatchObject({ userName: anna.userName });
+    await expectScimError(scim.createUser('malmo_stad', { displayName: 'No userName' }), 400, 'invalidValue');
+  });
+
+  it('scopes every lookup to the tenant', async () => {
+    const user = await scim.createUser('malmo_stad', anna);
+
+    await expectScimError(scim.getUser('goteborg_stad', user.id), 404);
+    await expectScimError(scim.patchUser('goteborg_stad', user.id, [{ op: 'replace', path: 'active', value: false }]), 404);
+    expect((await scim.listUsers('goteborg_stad')).totalResults).toBe(0);
+  });
+
+  it('filters and pages users like identity providers query them', async () => {
+    await scim.createUser('malmo_stad', anna);
+    await scim.createUser('malmo_stad', { userName: 'erik@malmo.se', externalId: 'f00d' });
+    await scim.createUser('malmo_stad', { userName: 'sara@malmo.se' });
+
+    const byUserName = await scim.listUsers('malmo_stad', { filter: 'userName eq "anna.svensson@malmo.se"' });
+    expect(byUserName).toMatchObject({ schemas: [SCIM_SCHEMAS.listResponse], totalResults: 1, itemsPerPage: 1 });
+    expect(byUserName.Resources[0].userName).toBe('Anna.Svensson@malmo.se');
+    expect((await scim.listUsers('malmo_stad', { filter: 'externalId eq "f00d"' })).Resources[0].userName).toBe('erik@malmo.se');
+    expect((await scim.listUsers('malmo_stad', { filter: 'emails.value eq "ANNA.svensson@malmo.se"' })).totalResults).toBe(1);
+
+    const secondPage = await scim.listUsers('malmo_stad', { startIndex: 2, count: 1 });
+    expect(secondPage).toMatchObject({ totalResults: 3, startIndex: 2, itemsPerPage: 1 });
+    expect(secondPage.Resources[0].userName).toBe('erik@malmo.se');
+
+    await expectScimError(scim.listUsers('malmo_stad', { filter: 'title co "chef"' }), 400, 'invalidFilter');
+  });
+
+  it('applies PATCH operations in the forms Entra ID and Okta send', async () => {
+    const user = await scim.createUser('malmo_stad', anna);
+
+    const patched = await scim.patchUser('malmo_stad', user.id, [
+      { op: 'Replace', path: 'displayName', value: 'Anna Berg' },
+      { op: 'Replace', path: 'name.familyName', value: 'Berg' },
+      { op: 'Replace', path: 'emails[type eq "work"].value', value: 'anna.berg@malmo.se' },
+      { op: 'Add', path: `${SCIM_SCHEMAS.enterpriseUser}:employeeNumber`, value: '4711' },
+      { op: 'replace', value: { preferredLanguage: 'sv-SE' } }
+    ]);
+
+    expect(patched).toMatchObject({
+      displayName: 'Anna Berg',
+      name: { givenName: 'Anna', familyName: 'Berg' },
+      emails: [{ value: 'anna.berg@malmo.se', type: 'work', primary: true }],
+      preferredLanguage: 'sv-SE',
+      [SCIM_SCHEMAS.enterpriseUser]: { department: 'Socialförvaltningen', employeeNumber: '4711' }
+    });
+    await expectScimError(scim.patchUser('malmo_stad', user.id, [{ op: 'move', path: 'displayName' }]), 400, 'invalidSyntax');
+  });
+
+  it('signs deactivated users out everywhere and refuses their logins', async () => {
+    const user = await scim.createUser('malmo_stad', anna);
+    const laptop = await sessions.createSession({ userId: 'anna.svensson@malmo.se', tenantId: 'malmo_stad', provider: 'saml', profile: {} });
+    const phone = await sessions.createSession({ userId: 'Anna.Svensson@malmo.se', tenantId: 'malmo_stad', provider: 'oidc', profile: {} });
+
+    // Entra ID deactivates with a string boolean
+    const deactivated = await scim.patchUser('malmo_stad', user.id, [{ op: 'Replace', path: 'active', value: 'False' }]);
+
+    expect(deactivated.active).toBe(false);
+    expect(await sessions.isValidSession(laptop.sessionId)).toBe(false);
+    expect(await sessions.isValidSession(phone.sessionId)).toBe(false);
+    expect(await scim.getProvisionedAccess('malmo_stad', ['anna.svensson@malmo.se'])).toMatchObject({ active: false });
+  });
+
+  it('deletes users with their group memberships and sessions', async () => {
+    const user = await scim.createUser('malmo_stad', anna);
+    const group = await scim.createGroup('malmo_stad', { displayName: 'admin', members: [{ value: user.id }] });
+    const session = await sessions.createSession({ userId: 'anna.svensson@malmo.se', tenantId: 'malmo_stad', provider: 'saml', profile: {} });
+
+    await scim.deleteUser('malmo_stad', user.id);
+
+    await expectScimError(scim.getUser('malmo_stad', user.id), 404);
+    expect((await scim.getGroup('malmo_stad', group.id)).members).toEqual([]);
+    expect(await sessions.isValidSession(session.sessionId)).toBe(false);
+    expect(await scim.getProvisionedAccess('malmo_stad', ['anna.svensson@malmo.se'])).toBeNull();
+  });
+
+  it('manages group members through PATCH and lists groups on users', async () => {
+    const first = await scim.createUser('malmo_stad', anna);
+    const second = await scim.createUser('malmo_stad', { userName: 'erik@malmo.se' });
+    const group = await scim.createGroup('malmo_stad', { displayName: 'DigiNativa Redaktörer', members: [] });
+
+    await scim.patchGroup('malmo_stad', group.id, [{ op: 'Add', path: 'members', value: [{ value: first.id }, { value: second.id }] }]);
+    await scim.patchGroup('malmo_stad', group.id, [{ op: 'Remove', path: `members[value eq "${second.id}"]` }]);
+    const renamed = await scim.patchGroup('malmo_stad', group.id, [{ op: 'Replace', path: 'displayName', value: 'Redaktörer' }]);
+
+    expect(renamed.displayName).toBe('Redaktörer');
+    expect(renamed.members).toEqual([{ value: first.id, display: 'Anna Svensson', $ref: `/scim/v2/Users/${first.id}` }]);
+    expect((await scim.getUser('malmo_stad', first.id)).groups).toEqual([
+      { value: group.id, display: 'Redaktörer', $ref: `/scim/v2/Groups/${group.id}` }
+    ]);
+    expect((await scim.listGroups('malmo_stad', { filter: 'displayName eq "redaktörer"', excludeMembers: true })).Resources[0])
+      .not.toHaveProperty('members');
+
+    await expectScimError(
+      scim.patchGroup('malmo_stad', group.id, [{ op: 'Add', path: 'members', value: [{ value: 'someone-in-another-tenant' }] }]),
+      400,
+      'invalidValue'
+    );
+  });
+
+  it('signs members out when a group change alters their role', async () => {
+    const first = await scim.createUser('malmo_stad', anna);
+    const second = await scim.createUser('malmo_stad', { userName: 'erik@malmo.se' });
+    const editors = await scim.createGroup('malmo_stad', { displayName: 'DigiNativa Redaktörer', members: [{ value: first.id }, { value: second.id }] });
+    const signIn = (userId: string) => sessions.createSession({ userId, tenantId: 'malmo_stad', provider: 'saml', profile: {} });
+    const annaSession = await signIn('anna.svensson@malmo.se');
+    const erikSession = await signIn('erik@malmo.se');
+
+    // Groups without a role leave sessions alone
+    await scim.createGroup('malmo_stad', { displayName: 'Lunchklubben', members: [{ value: first.id }, { value: second.id }] });
+    expect(await sessions.isValidSession(annaSession.sessionId)).toBe(true);
+
+    await scim.patchGroup('malmo_stad', editors.id, [{ op: 'Remove', path: `members[value eq "${first.id}"]` }]);
+    expect(await sessions.isValidSession(annaSession.sessionId)).toBe(false);
+    expect(await sessions.isValidSession(erikSession.sessionId)).toBe(true);
+
+    await scim.deleteGroup('malmo_stad', editors.id);
+    expect(await sessions.isValidSession(erikSession.sessionId)).toBe(false);
+  });
+
+  it('maps groups to the most privileged role and the permissions of every role', async () => {
+    const user = await scim.createUser('malmo_stad', anna);
+    await scim.createGroup('malmo_stad', { displayName: 'DigiNativa Redaktörer', members: [{ value: user.id }] });
+    await scim.createGroup('malmo_stad', { displayName: 'Analyst', members: [{ value: user.id }] });
+    await scim.createGroup('malmo_stad', { displayName: 'super_admin', members: [{ value: user.id }] });
+
+    const access = await scim.getProvisionedAccess('malmo_stad', [undefined, 'ANNA.SVENSSON@malmo.se']);
+
+    expect(access).toMatchObject({ scimId: user.id, active: true, role: 'content_manager' });
+    expect(access?.permissions).toEqual(expect.arrayContaining(['games.create', 'content.manage', 'analytics.export']));
+    expect(access?.permissions).not.toContain('system.admin');
+    expect(await scim.getProvisionedAccess('malmo_stad', ['unknown@malmo.se'])).toBeNull();
+  });
+});
+
+describe('parseScimFilter', () => {
+  it('parses eq filters with escaped quotes', () => {
+    expect(parseScimFilter('userName eq "o\\"brien@malmo.se"')).toEqual({ attribute: 'username', value: 'o"brien@malmo.se' });
+    expect(() => parseScimFilter('userName sw "anna"')).toThrow(ScimError);
+  });
+});
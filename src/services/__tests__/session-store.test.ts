@@ -0,0 +1,296 @@
+/**
+ * Session Store Tests
+ * Verifies query semantics and conditional writes across backends, parameterised SQL, the REST contract
+ * and the server configuration of the store shared by all services
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  MemorySessionStore,
+  LocalStorageSessionStore,
+  SqlSessionStore,
+  RestSessionStore,
+  SessionStoreError,
+  SharedSessionStore,
+  createSessionStore,
+  serverSessionStoreConfigFromEnv,
+  sessionStoreConfigFromEnv,
+  type SessionStore,
+  type SqlClient
+} from '../session-store';
+
+const sessions = [
+  { id: 's1', user_id: 'anna', started_at: '2026-01-01T08:00:00.000Z', completed_at: null },
+  { id: 's2', user_id: 'anna', started_at: '2026-01-03T08:00:00.000Z', completed_at: null },
+  { id: 's3', user_id: 'anna', started_at: '2026-01-02T08:00:00.000Z', completed_at: '2026-01-02T09:00:00.000Z' },
+  { id: 's4', user_id: 'erik', started_at: '2026-01-01T07:00:00.000Z' }
+];
+
+const describeQuerySemantics = (name: string, createStore: () => SessionStore) => {
+  describe(name, () => {
+    let store: SessionStore;
+
+    beforeEach(async () => {
+      store = createStore();
+      for (const session of sessions) {
+        await store.put('game_sessions', session.id, session);
+      }
+    });
+
+    it('stores and reads records per collection', async () => {
+      expect(await store.get('game_sessions', 's1')).toEqual(sessions[0]);
+      expect(await store.get('analytics_events', 's1')).toBeNull();
+
+      await store.delete('game_sessions', 's1');
+      expect(await store.get('game_sessions', 's1')).toBeNull();
+    });
+
+    it('filters, orders and limits, treating missing fields as null', async () => {
+      const incomplete = await store.find('game_sessions', {
+        where: { completed_at: null },
+        orderBy: { field: 'started_at', direction: 'desc' },
+        limit: 2
+      });
+
+      expect(incomplete.map(record => record.id)).toEqual(['s2', 's1']);
+    });
+
+    it('deletes records started before a cutoff', async () => {
+      const deleted = await store.deleteWhere('game_sessions', {
+        where: { completed_at: null },
+        before: { field: 'started_at', value: '2026-01-02T00:00:00.000Z' }
+      });
+
+      expect(deleted).toBe(2);
+      expect((await store.find('game_sessions')).map(record => record.id).sort()).toEqual(['s2', 's3']);
+    });
+
+    it('returns copies so callers cannot mutate stored records', async () => {
+      const record = await store.get('game_sessions', 's2');
+      record!.user_id = 'mallory';
+
+      expect((await store.get('game_sessions', 's2'))?.user_id).toBe('anna');
+    });
+
+    it('writes conditionally on the record version', async () => {
+      expect(await store.putIfVersion('credential_status_lists', 'malmo', { version: 0 }, null)).toBe(true);
+      expect(await store.putIfVersion('credential_status_lists', 'malmo', { version: 0 }, null)).toBe(false);
+      expect(await store.putIfVersion('credential_status_lists', 'malmo', { version: 1 }, 0)).toBe(true);
+      expect(await store.putIfVersion('credential_status_lists', 'malmo', { version: 2, stale: true }, 0)).toBe(false);
+      expect(await store.get('credential_status_lists', 'malmo')).toEqual({ version: 1 });
+    });
+  });
+};
+
+describeQuerySemantics('MemorySessionStore', () => new MemorySessionStore());
+
+describe('LocalStorageSessionStore', () => {
+  beforeEach(() => {
+    // Global setup mocks localStorage with no-op spies; the store needs real persistence and key iteration
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+      key: (index: number) => [...storage.keys()][index] ?? null,
+      get length() {
+        return storage.size;
+      }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describeQuerySemantics('query semantics', () => new LocalStorageSessionStore('test-sessions'));
+
+  it('wraps quota errors in SessionStoreError', async () => {
+    vi.mocked(localStorage).setItem = () => {
+      throw new Error('QuotaExceededError');
+    };
+
+    await expect(new LocalStorageSessionStore().put('game_sessions', 's1', sessions[0]))
+      .rejects.toBeInstanceOf(SessionStoreError);
+  });
+});
+
+describe('SqlSessionStore', () => {
+  let client: SqlClient & { query: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    client = { query: vi.fn().mockResolvedValue({ rows: [], rowCount: 0 }) };
+  });
+
+  it('upserts records as JSONB keyed by collection and id', async () => {
+    await new SqlSessionStore(client).put('game_sessions', 's1', sessions[0]);
+
+    const [sql, params] = client.query.mock.calls[0];
+    expect(sql).toContain('INSERT INTO session_records');
+    expect(sql).toContain('ON CONFLICT (collection, id)');
+    expect(params).toEqual(['game_sessions', 's1', JSON.stringify(sessions[0])]);
+  });
+
+  it('binds field names and values as parameters', async () => {
+    client.query.mockResolvedValue({ rows: [{ data: sessions[1] }, { data: JSON.stringify(sessions[0]) }] });
+
+    const records = await new SqlSessionStore(client).find('game_sessions', {
+      where: { user_id: "anna'; DROP TABLE session_records; --", completed_at: null },
+      orderBy: { field: 'started_at', direction: 'desc' },
+      limit: 10
+    });
+
+    const [sql, params] = client.query.mock.calls[0];
+    expect(sql).toBe(
+      'SELECT data FROM session_records WHERE collection = $1 AND data ->> $2 = $3 AND data ->> $4 IS NULL' +
+      ' ORDER BY data ->> $5 DESC LIMIT $6'
+    );
+    expect(params).toEqual([
+      'game_sessions', 'user_id', "anna'; DROP TABLE session_records; --", 'completed_at', 'started_at', 10
+    ]);
+    expect(records).toEqual([sessions[1], sessions[0]]);
+  });
+
+  it('deletes by timestamp cutoff and reports the row count', async () => {
+    client.query.mockResolvedValue({ rows: [], rowCount: 3 });
+
+    const deleted = await new SqlSessionStore(client, 'app.sessions').deleteWhere('game_sessions', {
+      before: { field: 'started_at', value: '2026-01-02T00:00:00.000Z' }
+    });
+
+    const [sql, params] = client.query.mock.calls[0];
+    expect(sql).toBe('DELETE FROM app.sessions WHERE collection = $1 AND (data ->> $2)::timestamptz < $3::timestamptz');
+    expect(params).toEqual(['game_sessions', 'started_at', '2026-01-02T00:00:00.000Z']);
+    expect(deleted).toBe(3);
+  });
+
+  it('swaps conditionally on the stored version', async () => {
+    expect(await new SqlSessionStore(client).putIfVersion('credential_status_lists', 'malmo', { version: 4 }, 3)).toBe(false);
+
+    const [sql, params] = client.query.mock.calls[0];
+    expect(sql).toContain("COALESCE((data ->> 'version')::integer, 0) = $4");
+    expect(params).toEqual(['credential_status_lists', 'malmo', JSON.stringify({ version: 4 }), 3]);
+  });
+
+  it('rejects table names that are not plain identifiers', () => {
+    expect(() => new SqlSessionStore(client, 'sessions; DROP TABLE users')).toThrow(SessionStoreError);
+  });
+
+  it('wraps driver errors in SessionStoreError', async () => {
+    client.query.mockRejectedValue(new Error('connection refused'));
+
+    await expect(new SqlSessionStore(client).get('game_sessions', 's1')).rejects.toMatchObject({
+      name: 'SessionStoreError',
+      backend: 'sql'
+    });
+  });
+});
+
+describe('RestSessionStore', () => {
+  const jsonResponse = (body: unknown, status = 200) =>
+    ({ ok: status < 400, status, json: async () => body }) as Response;
+
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let store: RestSessionStore;
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockResolvedValue(jsonResponse({}));
+    store = new RestSessionStore('https://sessions.malmo.se/api/', { Authorization: 'Bearer token' }, fetchMock);
+  });
+
+  it('reads records and maps 404 to null', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(sessions[0])).mockResolvedValueOnce(jsonResponse(null, 404));
+
+    expect(await store.get('game_sessions', 's1')).toEqual(sessions[0]);
+    expect(await store.get('game_sessions', 'missing')).toBeNull();
+    expect(fetchMock).toHaveBeenCalledWith('https://sessions.malmo.se/api/game_sessions/s1', expect.objectContaining({
+      method: 'GET',
+      headers: { Authorization: 'Bearer token' }
+    }));
+  });
+
+  it('sends records and queries as JSON', async () => {
+    await store.put('world_hub_sessions', 'hub 1', { unique_code: 'ABC' });
+    fetchMock.mockResolvedValueOnce(jsonResponse({ deleted: 2 }));
+    const deleted = await store.deleteWhere('game_sessions', { where: { user_id: 'anna' } });
+
+    expect(fetchMock).toHaveBeenNthCalledWith(1, 'https://sessions.malmo.se/api/world_hub_sessions/hub%201', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer token' },
+      body: JSON.stringify({ unique_code: 'ABC' })
+    });
+    expect(fetchMock).toHaveBeenNthCalledWith(2, 'https://sessions.malmo.se/api/game_sessions/delete', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ where: { user_id: 'anna' } })
+    }));
+    expect(deleted).toBe(2);
+  });
+
+  it('sends conditional writes with If-Match and maps 412 to a lost race', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({}, 412));
+
+    expect(await store.putIfVersion('credential_status_lists', 'malmo', { version: 4 }, 3)).toBe(false);
+    expect(fetchMock).toHaveBeenCalledWith('https://sessions.malmo.se/api/credential_status_lists/malmo', expect.objectContaining({
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', 'If-Match': '"3"', Authorization: 'Bearer token' }
+    }));
+  });
+
+  it('throws SessionStoreError with the HTTP status on failures', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({}, 503));
+
+    await expect(store.find('game_sessions')).rejects.toMatchObject({ backend: 'rest', status: 503 });
+  });
+});
+
+describe('createSessionStore', () => {
+  it('selects the backend from configuration', () => {
+    expect(createSessionStore({ backend: 'memory' }).backend).toBe('memory');
+    expect(createSessionStore({ backend: 'rest', baseUrl: 'https://sessions.malmo.se' }).backend).toBe('rest');
+    expect(createSessionStore({ backend: 'sql', client: { query: vi.fn() } }).backend).toBe('sql');
+  });
+
+  it('reads the backend from Vite environment variables', () => {
+    expect(sessionStoreConfigFromEnv({})).toEqual({ backend: 'browser' });
+    expect(sessionStoreConfigFromEnv({ VITE_SESSION_STORE: 'memory' })).toEqual({ backend: 'memory' });
+    expect(sessionStoreConfigFromEnv({
+      VITE_SESSION_STORE: 'rest',
+      VITE_SESSION_STORE_URL: 'https://sessions.malmo.se'
+    })).toEqual({ backend: 'rest', baseUrl: 'https://sessions.malmo.se' });
+  });
+
+  it('reads the server backend from SESSION_STORE and refuses a memory store in production', () => {
+    const client: SqlClient = { query: vi.fn() };
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(serverSessionStoreConfigFromEnv({ SESSION_STORE: 'sql' }, client)).toEqual({ backend: 'sql', client, tableName: undefined });
+    expect(serverSessionStoreConfigFromEnv({
+      SESSION_STORE: 'rest',
+      SESSION_STORE_URL: 'https://sessions.malmo.se',
+      SESSION_STORE_TOKEN: 'secret'
+    })).toEqual({ backend: 'rest', baseUrl: 'https://sessions.malmo.se', headers: { Authorization: 'Bearer secret' } });
+    expect(serverSessionStoreConfigFromEnv({})).toEqual({ backend: 'memory' });
+
+    expect(() => serverSessionStoreConfigFromEnv({ SESSION_STORE: 'sql' })).toThrow(SessionStoreError);
+    expect(() => serverSessionStoreConfigFromEnv({ SESSION_STORE: 'rest' })).toThrow('SESSION_STORE_URL');
+    expect(() => serverSessionStoreConfigFromEnv({ NODE_ENV: 'production' })).toThrow('production');
+    vi.restoreAllMocks();
+  });
+});
+
+describe('SharedSessionStore', () => {
+  it('resolves the backend once and follows a store swapped in later', async () => {
+    const resolve = vi.fn(() => new MemorySessionStore());
+    const shared = new SharedSessionStore(resolve);
+
+    await shared.put('auth_sessions', 'a', { id: 'a' });
+    expect(await shared.get('auth_sessions', 'a')).toEqual({ id: 'a' });
+    expect(resolve).toHaveBeenCalledTimes(1);
+
+    const sql = new MemorySessionStore();
+    shared.use(sql);
+    await shared.put('certificates', 'c', { id: 'c' });
+    expect(await sql.get('certificates', 'c')).toEqual({ id: 'c' });
+    expect(await shared.get('auth_sessions', 'a')).toBeNull();
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Verifiable Credentials Service Tests
+ * Verifies VC-JWT issuance, did:web resolution, StatusList2021 revocation and verification
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  CredentialError,
+  VerifiableCredentialsService,
+  didWebFromUrl,
+  didWebToUrl,
+  type CredentialRequest
+} from '../verifiable-credentials';
+import { MemorySessionStore } from '../session-store';
+import type { CertificateRecord } from '../certificate-service';
+import { decodeJws, generateJwsKeyPair } from '../../utils/jws';
+
+const request: CredentialRequest = {
+  tenantId: 'malmo',
+  subject: { id: 'mailto:anna.svensson@malmo.se', name: 'Anna Svensson' },
+  achievement: {
+    id: 'gdpr-101/certified',
+    name: 'GDPR för kommunal personal',
+    description: 'Grunder i dataskydd för kommunanställda',
+    achievementType: 'Certification'
+  }
+};
+
+const certificate: CertificateRecord = {
+  verificationCode: 'ABCD-EFGH-JKMN',
+  userId: 'user-1',
+  tenantId: 'malmo',
+  learnerName: 'Anna Svensson',
+  gameId: 'gdpr-101',
+  gameTitle: 'GDPR för kommunal personal',
+  issuer: 'Malmö Stad',
+  certificationArea: 'Dataskydd',
+  scorePercent: 90,
+  scoreAchieved: 9,
+  scoreTotal: 10,
+  completedAt: '2026-03-02T09:00:00.000Z',
+  issuedAt: '2026-03-02T10:00:00.000Z',
+  sha256: 'ab',
+  signature: 'sig',
+  kid: 'cert-key-1'
+};
+
+const claimsOf = (jwt: string) => JSON.parse(new TextDecoder().decode(decodeJws(jwt).payload));
+
+describe('VerifiableCredentialsService', () => {
+  let store: MemorySessionStore;
+  let service: VerifiableCredentialsService;
+
+  beforeEach(async () => {
+    store = new MemorySessionStore();
+    service = new VerifiableCredentialsService({
+      store,
+      baseUrl: 'https://credentials.example',
+      tenants: { malmo: { name: 'Malmö Stad' } }
+    });
+    await service.setTenantKey('malmo', await generateJwsKeyPair('key-1'));
+  });
+
+  it('issues an Open Badges credential as a VC-JWT signed by the tenant issuer', async () => {
+    const issued = await service.issueCredential(request, new Date('2026-03-02T10:00:00.000Z'));
+    const { header } = decodeJws(issued.jwt);
+    const claims = claimsOf(issued.jwt);
+    const did = 'did:web:credentials.example:api:credentials:tenants:malmo';
+
+    expect(header).toMatchObject({ alg: 'ES256', typ: 'JWT', kid: `${did}#key-1` });
+    expect(claims).toMatchObject({ iss: did, sub: request.subject.id, jti: issued.id, nbf: 1772445600 });
+    expect(claims.vc.type).toEqual(['VerifiableCredential', 'OpenBadgeCredential']);
+    expect(claims.vc.credentialSubject.achievement).toMatchObject({ achievementType: 'Certification', name: request.achievement.name });
+    expect(claims.vc.credentialStatus).toMatchObject({
+      type: 'StatusList2021Entry',
+      statusPurpose: 'revocation',
+      statusListIndex: '0',
+      statusListCredential: 'https://credentials.example/api/credentials/status/malmo'
+    });
+    expect(issued.verificationUrl).toBe(`https://credentials.example/verify/credential/${encodeURIComponent(issued.id)}`);
+    expect(claimsOf((await service.issueCredential(request)).jwt).vc.credentialStatus.statusListIndex).toBe('1');
+  });
+
+  it('verifies valid credentials and reports revocation through the status list', async () => {
+    const issued = await service.issueCredential(request);
+    expect(await service.verifyCredential(issued.jwt)).toMatchObject({
+      valid: true,
+      status: 'valid',
+      checks: { signature: true, validityPeriod: true, revocation: true }
+    });
+
+    expect(await service.revokeCredential(issued.id, 'Utfärdat i fel namn')).toBe(true);
+    expect((await service.verifyCredential(issued.jwt)).status).toBe('revoked');
+    expect((await service.getCredential(issued.id))?.revokedAt).toBeDefined();
+    expect(await service.revokeCredential('urn:uuid:unknown', 'x')).toBe(false);
+
+    const statusList = claimsOf(await service.getStatusListCredential('malmo'));
+    expect(statusList.vc.type).toContain('StatusList2021Credential');
+    expect(statusList.vc.credentialSubject).toMatchObject({ type: 'StatusList2021', statusPurpose: 'revocation' });
+  });
+
+  it('allocates distinct status indexes and keeps every revocation under concurrency', async () => {
+    const issued = await Promise.all(Array.from({ length: 5 }, () => service.issueCredential(request)));
+    const indexes = issued.map(credential => claimsOf(credential.jwt).vc.credentialStatus.statusListIndex);
+    expect(new Set(indexes).size).toBe(5);
+
+    await Promise.all(issued.slice(0, 3).map(credential => service.revokeCredential(credential.id, 'Återkallat')));
+    const statuses = await Promise.all(issued.map(async credential => (await service.verifyCredential(credential.jwt)).status));
+    expect(statuses).toEqual(['revoked', 'revoked', 'revoked', 'valid', 'valid']);
+  });
+
+  it('rejects tampered, expired and malformed credentials', async () => {
+    const issued = await service.issueCredential({ ...request, validUntil: new Date('2027-01-01T00:00:00.000Z') }, new Date('2026-01-01T00:00:00.000Z'));
+    const [header, payload, signature] = issued.jwt.split('.');
+    const forged = { ...claimsOf(issued.jwt), sub: 'mailto:someone.else@malmo.se' };
+    const forgedPayload = btoa(JSON.stringify(forged)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+    expect((await service.verifyCredential(`${header}.${forgedPayload}.${signature}`)).status).toBe('invalid_signature');
+    expect((await service.verifyCredential(issued.jwt, new Date('2025-12-31T00:00:00.000Z'))).status).toBe('not_yet_valid');
+    expect((await service.verifyCredential(issued.jwt, new Date('2027-06-01T00:00:00.000Z'))).status).toBe('expired');
+    expect((await service.verifyCredential(`${header}.${payload}`)).status).toBe('malformed');
+    expect((await service.verifyCredential('not a jwt')).status).toBe('malformed');
+  });
+
+  it('keeps credentials verifiable after key rotation and lists both keys in the DID document', async () => {
+    const issued = await service.issueCredential(request);
+    await service.setTenantKey('malmo', await generateJwsKeyPair('key-2'));
+
+    expect((await service.verifyCredential(issued.jwt)).valid).toBe(true);
+    const document = await service.getDidDocument('malmo');
+    expect(document.assertionMethod).toEqual([
+      'did:web:credentials.example:api:credentials:tenants:malmo#key-1',
+      'did:web:credentials.example:api:credentials:tenants:malmo#key-2'
+    ]);
+  });
+
+  it('keeps retired keys in the store, so a restarted service still verifies older credentials', async () => {
+    const issued = await service.issueCredential(request);
+    await service.setTenantKey('malmo', await generateJwsKeyPair('key-2'));
+
+    const restarted = new VerifiableCredentialsService({ store, baseUrl: 'https://credentials.example' });
+    await restarted.setTenantKey('malmo', await generateJwsKeyPair('key-2'));
+    expect((await restarted.verifyCredential(issued.jwt)).valid).toBe(true);
+    expect((await restarted.getDidDocument('malmo')).assertionMethod).toEqual([
+      'did:web:credentials.example:api:credentials:tenants:malmo#key-1',
+      'did:web:credentials.example:api:credentials:tenants:malmo#key-2'
+    ]);
+  });
+
+  it('issues a certificate as a Certification credential once, and revokes it with the certificate', async () => {
+    const issued = await service.issueForCertificate(certificate, 'mailto:anna.svensson@malmo.se');
+    expect(issued.credential.credentialSubject).toMatchObject({
+      name: 'Anna Svensson',
+      achievement: { achievementType: 'Certification', name: certificate.gameTitle, description: 'Dataskydd' }
+    });
+    expect((await service.issueForCertificate(certificate, 'mailto:anna.svensson@malmo.se')).id).toBe(issued.id);
+
+    expect(await service.revokeForCertificate(certificate.verificationCode, 'Certificate revoked')).toBe(1);
+    expect((await service.verifyCredential(issued.jwt)).status).toBe('revoked');
+    await expect(service.issueForCertificate({ ...certificate, revokedAt: '2026-03-03T00:00:00.000Z' }, 'mailto:anna.svensson@malmo.se'))
+      .rejects.toMatchObject({ status: 409 });
+  });
+
+  it('verifies credentials from remote did:web issuers', async () => {
+    const issuer = new VerifiableCredentialsService({ store: new MemorySessionStore(), baseUrl: 'https://other.example' });
+    await issuer.setTenantKey('gent', await generateJwsKeyPair('key-1'));
+    const issued = await issuer.issueCredential({ ...request, tenantId: 'gent' });
+    const requested: string[] = [];
+    const verifier = new VerifiableCredentialsService({
+      store: new MemorySessionStore(),
+      baseUrl: 'https://credentials.example',
+      trustedIssuerHosts: ['other.example'],
+      fetch: async input => {
+        const url = String(input);
+        requested.push(url);
+        if (url === 'https://other.example/api/credentials/tenants/gent/did.json') {
+          return new Response(JSON.stringify(await issuer.getDidDocument('gent')));
+        }
+        if (url === 'https://other.example/api/credentials/status/gent') {
+          return new Response(await issuer.getStatusListCredential('gent'));
+        }
+        return new Response('', { status: 404 });
+      }
+    });
+
+    expect((await verifier.verifyCredential(issued.jwt)).status).toBe('valid');
+    expect(requested).toContain('https://other.example/api/credentials/status/gent');
+    await issuer.revokeCredential(issued.id, 'Återkallat');
+    expect((await verifier.verifyCredential(issued.jwt)).status).toBe('revoked');
+
+    const offline = new VerifiableCredentialsService({
+      store: new MemorySessionStore(),
+      fetch: async () => new Response('', { status: 404 })
+    });
+    expect((await offline.verifyCredential(issued.jwt)).status).toBe('unknown_issuer');
+  });
+
+  it('only fetches remote issuers from trusted, public hosts', async () => {
+    const requested: string[] = [];
+    const verifier = new VerifiableCredentialsService({
+      store: new MemorySessionStore(),
+      trustedIssuerHosts: ['other.example', '169.254.169.254', 'localhost:8080'],
+      fetch: async input => {
+        requested.push(String(input));
+        return new Response('', { status: 404 });
+      }
+    });
+
+    for (const baseUrl of ['https://intranet.example', 'https://169.254.169.254', 'https://localhost:8080']) {
+      const issuer = new VerifiableCredentialsService({ store: new MemorySessionStore(), baseUrl });
+      await issuer.setTenantKey('gent', await generateJwsKeyPair('key-1'));
+      const issued = await issuer.issueCredential({ ...request, tenantId: 'gent' });
+      expect((await verifier.verifyCredential(issued.jwt)).status).toBe('unknown_issuer');
+    }
+    expect(requested).toEqual([]);
+  });
+
+  it('refuses to issue or publish keys for tenants without a configured signing key', async () => {
+    const error = await service.issueCredential({ ...request, tenantId: 'lund' }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(CredentialError);
+    expect(error).toMatchObject({ status: 404 });
+    await expect(service.getDidDocument('lund')).rejects.toBeInstanceOf(CredentialError);
+  });
+
+  it('publishes no status list for unknown tenants', async () => {
+    const store = new MemorySessionStore();
+    const probed = new VerifiableCredentialsService({ store, baseUrl: 'https://credentials.example' });
+
+    await expect(probed.getStatusListCredential('lund')).rejects.toMatchObject({ status: 404 });
+    expect(await store.get('credential_status_lists', 'lund')).toBeNull();
+  });
+
+  it('rejects credentials without a subject name', async () => {
+    await expect(service.issueCredential({ ...request, subject: { id: 'mailto:a@b.se', name: ' ' } })).rejects.toThrow('subject');
+  });
+});
+
+describe('did:web', () => {
+  it('maps identifiers to DID document URLs and back', () => {
+    expect(didWebFromUrl('https://localhost:8443/api/credentials/tenants/malmo')).toBe('did:web:localhost%3A8443:api:credentials:tenants:malmo');
+    expect(didWebToUrl('did:web:localhost%3A8443:api:credentials:tenants:malmo')).toBe('https://localhost:8443/api/credentials/tenants/malmo/did.json');
+    expect(didWebToUrl('did:web:example.org')).toBe('https://example.org/.well-known/did.json');
+    expect(() => didWebToUrl('did:key:z6Mk')).toThrow('Unsupported');
+  });
+});
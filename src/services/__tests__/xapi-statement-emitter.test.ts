@@ -0,0 +1,132 @@
+/**
+ * xAPI Statement Emitter Tests
+ * Verifies verb/activity mapping, offline queueing and LRS delivery
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  XAPIStatementEmitter,
+  XAPI_VERBS,
+  XAPI_ACTIVITY_TYPES,
+  toISODuration
+} from '../xapi-statement-emitter';
+
+describe('XAPIStatementEmitter', () => {
+  let emitter: XAPIStatementEmitter;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const createEmitter = () => new XAPIStatementEmitter({
+    enabled: true,
+    endpoint: 'https://lrs.malmo.se/xapi/',
+    auth: { type: 'basic', username: 'key', password: 'secret' },
+    batchSize: 50
+  });
+
+  beforeEach(() => {
+    // Global setup mocks localStorage with no-op spies; the queue needs real persistence here
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+      clear: () => storage.clear()
+    });
+    fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+    vi.stubGlobal('fetch', fetchMock);
+    emitter = createEmitter();
+    emitter.setActor({ name: 'Anna Svensson', account: { homePage: 'https://malmo.se', name: 'anna.svensson' } });
+  });
+
+  afterEach(() => {
+    emitter.destroy();
+    vi.unstubAllGlobals();
+  });
+
+  it('maps scene starts to attempted statements with the game as parent activity', () => {
+    emitter.trackEvent('scene_start', { gameId: 'gdpr-101', sceneId: 'intro', sceneType: 'dialogue', sceneTitle: 'Välkommen' });
+
+    const [statement] = emitter.getQueuedStatements();
+    expect(statement.verb.id).toBe(XAPI_VERBS.attempted);
+    expect(statement.object.id).toBe('https://games.diginativa.se/xapi/games/gdpr-101/scenes/intro');
+    expect(statement.object.definition?.name).toEqual({ 'sv-SE': 'Välkommen' });
+    expect(statement.context?.contextActivities?.parent?.[0].id).toBe('https://games.diginativa.se/xapi/games/gdpr-101');
+    expect(statement.actor.account?.name).toBe('anna.svensson');
+  });
+
+  it('emits answered statements per quiz question before the scene completion', () => {
+    emitter.trackEvent('scene_complete', {
+      gameId: 'gdpr-101',
+      sceneId: 'quiz-1',
+      sceneType: 'quiz',
+      results: {
+        score: 50,
+        answers: [
+          { question_id: 'q1', selected_answers: ['a', 'c'], is_correct: true },
+          { question_id: 'q2', selected_answers: ['b'], is_correct: false }
+        ]
+      }
+    });
+
+    const statements = emitter.getQueuedStatements();
+    expect(statements.map(s => s.verb.id)).toEqual([XAPI_VERBS.answered, XAPI_VERBS.answered, XAPI_VERBS.completed]);
+    expect(statements[0].object.definition?.type).toBe(XAPI_ACTIVITY_TYPES.question);
+    expect(statements[0].result).toEqual({ success: true, response: 'a[,]c' });
+    expect(statements[1].result?.success).toBe(false);
+  });
+
+  it('maps assessment results to passed/failed with scaled scores', () => {
+    emitter.trackEvent('scene_complete', {
+      gameId: 'gdpr-101',
+      sceneId: 'final',
+      sceneType: 'assessment',
+      results: { passed: false, score: 6, maxScore: 10 }
+    });
+
+    const [failed] = emitter.getQueuedStatements();
+    expect(failed.verb.id).toBe(XAPI_VERBS.failed);
+    expect(failed.result?.score).toEqual({ raw: 6, min: 0, max: 10, scaled: 0.6 });
+  });
+
+  it('records dialogue choices as responded statements', () => {
+    emitter.trackEvent('scene_complete', { gameId: 'gdpr-101', sceneId: 'talk', sceneType: 'dialogue', results: { choiceId: 'ask-more' } });
+
+    expect(emitter.getQueuedStatements()[0].verb.id).toBe(XAPI_VERBS.responded);
+    expect(emitter.getQueuedStatements()[0].result?.response).toBe('ask-more');
+  });
+
+  it('falls back to an account actor built from GameStateManager user IDs', () => {
+    const anonymous = createEmitter();
+    anonymous.trackEvent('session_started', { gameId: 'gdpr-101', userId: 'user-42', sessionId: '0f8fad5b-d9cb-469f-a165-70867728950e' });
+
+    const statement = anonymous.getQueuedStatements().pop()!;
+    expect(statement.actor.account).toEqual({ homePage: 'https://games.diginativa.se', name: 'user-42' });
+    expect(statement.context?.registration).toBe('0f8fad5b-d9cb-469f-a165-70867728950e');
+    anonymous.destroy();
+  });
+
+  it('delivers queued statements to the LRS with xAPI headers', async () => {
+    emitter.trackEvent('game_complete', { gameId: 'gdpr-101', completed: true, score: 8, totalScore: 10, timeSpent: 420000 });
+    await emitter.flush();
+
+    expect(fetchMock).toHaveBeenCalledWith('https://lrs.malmo.se/xapi/statements', expect.objectContaining({ method: 'POST' }));
+    const [, request] = fetchMock.mock.calls[0];
+    expect(request.headers['X-Experience-API-Version']).toBe('1.0.3');
+    expect(request.headers.Authorization).toBe(`Basic ${btoa('key:secret')}`);
+    expect(JSON.parse(request.body)[0].result.duration).toBe('PT0H7M0S');
+    expect(emitter.getQueuedStatements()).toHaveLength(0);
+  });
+
+  it('keeps statements queued across instances when the LRS is unreachable', async () => {
+    fetchMock.mockRejectedValueOnce(new Error('Network down'));
+    emitter.trackEvent('scene_start', { gameId: 'gdpr-101', sceneId: 'intro' });
+    await emitter.flush();
+
+    const restored = createEmitter();
+    expect(restored.getQueuedStatements()).toHaveLength(1);
+    restored.destroy();
+  });
+
+  it('converts milliseconds to ISO 8601 durations', () => {
+    expect(toISODuration(3_725_500)).toBe('PT1H2M5.5S');
+  });
+});
@@ -10,6 +10,8 @@ import { Request, Response, NextFunction } from 'express';
 import { RedisClusterService } from './redis-cluster';
 import { InfrastructureMonitoring } from './infrastructure-monitoring';
 import { v4 as uuidv4 } from 'uuid';
+import { policyEngine, type PolicySubject } from './policy-engine';
+import type { Permission } from '../types/auth';
 
 export interface RateLimitConfig {
   windowMs: number; // Time window in milliseconds
@@ -41,7 +43,7 @@ export interface APIKeyConfig {
   keyId: string;
   keyHash: string;
   municipalityId?: string;
-  permissions: string[];
+  permissions: Permission[];
   rateLimit: RateLimitConfig;
   isActive: boolean;
   createdAt: Date;
@@ -56,6 +58,17 @@ export interface RateLimitResult {
   retryAfter?: number;
 }
 
+// Keys without a municipality act for the platform itself
+const PLATFORM_TENANT_ID = 'diginativa';
+
+// API keys are authorized like users holding the key's permissions on top of the base user role
+const subjectFromAPIKey = (key: APIKeyConfig): PolicySubject => ({
+  userId: `api_key:${key.keyId}`,
+  tenantId: key.municipalityId ?? PLATFORM_TENANT_ID,
+  role: 'user',
+  permissions: key.permissions
+});
+
 export class APIGateway {
   private redis: RedisClusterService;
   private monitoring: InfrastructureMonitoring;
@@ -175,12 +188,7 @@ export class APIGateway {
     const devTeamKey: APIKeyConfig = {
       keyId: 'devteam_api_001',
       keyHash: process.env.DEVTEAM_API_KEY_HASH || 'development_key_hash',
-      permissions: [
-        'content:validate',
-        'content:upload',
-        'municipal:read',
-        'pipeline:status'
-      ],
+      permissions: ['content.manage', 'games.create', 'games.analytics'],
       rateLimit: {
         windowMs: 60 * 1000, // 1 minute
         maxRequests: 1000, // High limit for DevTeam automation
@@ -197,13 +205,7 @@ export class APIGateway {
     const adminKey: APIKeyConfig = {
       keyId: 'admin_api_001',
       keyHash: process.env.ADMIN_API_KEY_HASH || 'admin_development_key_hash',
-      permissions: [
-        'admin:municipalities',
-        'admin:api_keys',
-        'admin:rate_limits',
-        'admin:monitoring',
-        'admin:security'
-      ],
+      permissions: ['system.admin'],
       rateLimit: {
         windowMs: 60 * 1000,
         maxRequests: 200,
@@ -376,7 +378,7 @@ export class APIGateway {
   /**
    * API key authentication middleware
    */
-  public createAPIKeyMiddleware(requiredPermissions: string[] = []) {
+  public createAPIKeyMiddleware(requiredPermissions: Permission[] = []) {
     return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
       try {
         const apiKey = this.extractAPIKey(req);
@@ -398,12 +400,15 @@ export class APIGateway {
           return;
         }
 
-        // Check permissions
+        // Check permissions through the policy engine, which records each decision
         if (requiredPermissions.length > 0) {
-          const hasPermission = requiredPermissions.some(permission => 
-            keyConfig.permissions.includes(permission) || 
-            keyConfig.permissions.includes('admin:*')
-          );
+          const subject = subjectFromAPIKey(keyConfig);
+          const action = `${req.method} ${req.originalUrl.split('?')[0]}`;
+          let hasPermission = false;
+          for (const permission of requiredPermissions) {
+            hasPermission = (await policyEngine.authorize(subject, { permission, action })).allowed;
+            if (hasPermission) break;
+          }
 
           if (!hasPermission) {
             res.status(403).json({
@@ -873,4 +878,4 @@ export const rateLimitValidation = () => apiGateway.createRateLimitMiddleware('v
 export const rateLimitAuth = () => apiGateway.createRateLimitMiddleware('authentication');
 export const rateLimitUpload = () => apiGateway.createRateLimitMiddleware('contentUpload');
 export const ddosProtection = () => apiGateway.createDDoSProtectionMiddleware();
-export const requireAPIKey = (permissions: string[] = []) => apiGateway.createAPIKeyMiddleware(permissions);
\ No newline at end of file
+export const requireAPIKey = (permissions: Permission[] = []) => apiGateway.createAPIKeyMiddleware(permissions);
\ No newline at end of file
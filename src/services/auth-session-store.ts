@@ -0,0 +1,232 @@
+/**
+ * Auth Session Store
+ * Server-side login sessions for SAML, OIDC and password logins, kept in the session store so they
+ * survive restarts and are shared by every instance behind the load balancer (SQL in production).
+ * Sessions slide with activity up to an absolute lifetime and can be revoked one by one, per user
+ * ("log out all my devices") or per tenant.
+ */
+
+import { sharedSessionStore, type SessionRecord, type SessionStore } from './session-store';
+import type { AuthSession, Permission, UserRole } from '../types/auth';
+
+export type AuthProvider = 'saml' | 'oidc' | 'password';
+
+export interface AuthSessionPolicy {
+  idleTimeoutMs: number; // Sliding expiration
+  absoluteTimeoutMs: number; // Lifetime regardless of activity
+}
+
+export interface CreateAuthSessionRequest {
+  userId: string;
+  tenantId: string;
+  provider: AuthProvider;
+  profile: object; // SAMLUser, OIDCUser or User, returned as stored
+  role?: UserRole;
+  permissions?: Permission[];
+  deviceInfo?: AuthSession['deviceInfo'];
+}
+
+export interface AuthSessionRecord<Profile = Record<string, unknown>> {
+  sessionId: string;
+  userId: string;
+  tenantId: string;
+  provider: AuthProvider;
+  profile: Profile;
+  role: UserRole;
+  permissions: Permission[];
+  deviceInfo?: AuthSession['deviceInfo'];
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string; // Sliding expiry, never after absoluteExpiresAt
+  absoluteExpiresAt: string;
+  revokedAt?: string;
+  revocationReason?: string;
+}
+
+export const DEFAULT_AUTH_SESSION_POLICY: AuthSessionPolicy = {
+  idleTimeoutMs: 30 * 60 * 1000,
+  absoluteTimeoutMs: 8 * 60 * 60 * 1000
+};
+
+// Activity within this interval of the last write does not extend the session again
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+const toIso = (ms: number): string => new Date(ms).toISOString();
+
+function fromRecord<Profile>(record: SessionRecord): AuthSessionRecord<Profile> {
+  return {
+    sessionId: String(record.id),
+    userId: String(record.user_id),
+    tenantId: String(record.tenant_id),
+    provider: record.provider as AuthProvider,
+    profile: record.profile as Profile,
+    role: (record.role as UserRole) ?? 'user',
+    permissions: (record.permissions as Permission[]) ?? [],
+    deviceInfo: record.device_info as AuthSession['deviceInfo'] | undefined,
+    createdAt: String(record.created_at),
+    lastSeenAt: String(record.last_seen_at),
+    expiresAt: String(record.expires_at),
+    absoluteExpiresAt: String(record.absolute_expires_at),
+    ...(typeof record.revoked_at === 'string' ? { revokedAt: record.revoked_at } : {}),
+    ...(typeof record.revocation_reason === 'string' ? { revocationReason: record.revocation_reason } : {})
+  };
+}
+
+const isActive = (record: SessionRecord, now: number): boolean =>
+  record.revoked_at == null && new Date(String(record.expires_at)).getTime() > now;
+
+/**
+ * The session as the client's AuthContext holds it
+ */
+export const toAuthSession = (session: AuthSessionRecord<unknown>): AuthSession => ({
+  sessionId: session.sessionId,
+  userId: session.userId,
+  municipality: session.tenantId,
+  role: session.role,
+  permissions: session.permissions,
+  expiresAt: session.expiresAt,
+  absoluteExpiresAt: session.absoluteExpiresAt,
+  deviceInfo: session.deviceInfo ?? { userAgent: 'unknown', ipAddress: 'unknown', deviceType: 'desktop' }
+});
+
+export class AuthSessionStore {
+  private store: SessionStore;
+  private policy: AuthSessionPolicy;
+
+  constructor(options: { store?: SessionStore; policy?: Partial<AuthSessionPolicy> } = {}) {
+    this.store = options.store ?? sharedSessionStore;
+    this.policy = { ...DEFAULT_AUTH_SESSION_POLICY, ...options.policy };
+  }
+
+  setSessionStore(store: SessionStore): void {
+    this.store = store;
+  }
+
+  setPolicy(policy: Partial<AuthSessionPolicy>): void {
+    this.policy = { ...this.policy, ...policy };
+  }
+
+  async createSession<Profile extends object>(
+    request: CreateAuthSessionRequest & { profile: Profile },
+    now: Date = new Date()
+  ): Promise<AuthSessionRecord<Profile>> {
+    const sessionId = `${request.provider}_session_${crypto.randomUUID()}`;
+    const absoluteExpiresAt = now.getTime() + this.policy.absoluteTimeoutMs;
+    const record: SessionRecord = {
+      id: sessionId,
+      user_id: request.userId,
+      tenant_id: request.tenantId,
+      provider: request.provider,
+      profile: request.profile,
+      role: request.role ?? 'user',
+      permissions: request.permissions ?? [],
+      device_info: request.deviceInfo ?? null,
+      created_at: now.toISOString(),
+      last_seen_at: now.toISOString(),
+      expires_at: toIso(Math.min(now.getTime() + this.policy.idleTimeoutMs, absoluteExpiresAt)),
+      absolute_expires_at: toIso(absoluteExpiresAt),
+      revoked_at: null
+    };
+    await this.store.put('auth_sessions', sessionId, record);
+    return fromRecord<Profile>(record);
+  }
+
+  /**
+   * The session if it is neither expired nor revoked, without counting this as activity
+   */
+  async getSession<Profile = Record<string, unknown>>(sessionId: string, now: Date = new Date()): Promise<AuthSessionRecord<Profile> | null> {
+    const record = await this.store.get('auth_sessions', sessionId);
+    return record && isActive(record, now.getTime()) ? fromRecord<Profile>(record) : null;
+  }
+
+  /**
+   * Validate the session and slide its expiry for this activity
+   */
+  async touchSession<Profile = Record<string, unknown>>(sessionId: string, now: Date = new Date()): Promise<AuthSessionRecord<Profile> | null> {
+    const record = await this.store.get('auth_sessions', sessionId);
+    if (!record || !isActive(record, now.getTime())) return null;
+
+    if (now.getTime() - new Date(String(record.last_seen_at)).getTime() < TOUCH_INTERVAL_MS) {
+      return fromRecord<Profile>(record);
+    }
+
+    const absoluteExpiresAt = new Date(String(record.absolute_expires_at)).getTime();
+    const updated = {
+      ...record,
+      last_seen_at: now.toISOString(),
+      expires_at: toIso(Math.min(now.getTime() + this.policy.idleTimeoutMs, absoluteExpiresAt))
+    };
+    await this.store.put('auth_sessions', sessionId, updated);
+    return fromRecord<Profile>(updated);
+  }
+
+  async isValidSession(sessionId: string, now: Date = new Date()): Promise<boolean> {
+    return (await this.getSession(sessionId, now)) !== null;
+  }
+
+  async revokeSession(sessionId: string, reason: string, now: Date = new Date()): Promise<boolean> {
+    const record = await this.store.get('auth_sessions', sessionId);
+    if (!record || !isActive(record, now.getTime())) return false;
+
+    // The record keeps the reason for audits; expiring it now hides it from the session lists and lets
+    // purgeExpiredSessions remove it
+    await this.store.put('auth_sessions', sessionId, {
+      ...record,
+      revoked_at: now.toISOString(),
+      revocation_reason: reason,
+      expires_at: now.toISOString()
+    });
+    return true;
+  }
+
+  /**
+   * "Log out all my devices", optionally keeping the session that asked for it or limited to one tenant
+   */
+  async revokeUserSessions(
+    userId: string,
+    reason: string,
+    options: { exceptSessionId?: string; tenantId?: string; now?: Date } = {}
+  ): Promise<number> {
+    const sessions = await this.listUserSessions(userId, options.now);
+    const revoked = await Promise.all(sessions
+      .filter(session => session.sessionId !== options.exceptSessionId)
+      .filter(session => !options.tenantId || session.tenantId === options.tenantId)
+      .map(session => this.revokeSession(session.sessionId, reason, options.now)));
+    return revoked.filter(Boolean).length;
+  }
+
+  async revokeTenantSessions(tenantId: string, reason: string, now: Date = new Date()): Promise<number> {
+    const sessions = await this.listTenantSessions(tenantId, now);
+    const revoked = await Promise.all(sessions.map(session => this.revokeSession(session.sessionId, reason, now)));
+    return revoked.filter(Boolean).length;
+  }
+
+  /**
+   * Active sessions of a user, most recently used first
+   */
+  async listUserSessions<Profile = Record<string, unknown>>(userId: string, now: Date = new Date()): Promise<AuthSessionRecord<Profile>[]> {
+    const records = await this.store.find('auth_sessions', {
+      where: { user_id: userId },
+      orderBy: { field: 'last_seen_at', direction: 'desc' }
+    });
+    return records.filter(record => isActive(record, now.getTime())).map(record => fromRecord<Profile>(record));
+  }
+
+  async listTenantSessions<Profile = Record<string, unknown>>(tenantId: string, now: Date = new Date()): Promise<AuthSessionRecord<Profile>[]> {
+    const records = await this.store.find('auth_sessions', {
+      where: { tenant_id: tenantId },
+      orderBy: { field: 'last_seen_at', direction: 'desc' }
+    });
+    return records.filter(record => isActive(record, now.getTime())).map(record => fromRecord<Profile>(record));
+  }
+
+  /**
+   * Delete expired and revoked sessions
+   */
+  async purgeExpiredSessions(now: Date = new Date()): Promise<number> {
+    return this.store.deleteWhere('auth_sessions', { before: { field: 'expires_at', value: now.toISOString() } });
+  }
+}
+
+// Export singleton instance
+export const authSessionStore = new AuthSessionStore();
@@ -0,0 +1,38 @@
+/**
+ * Certificate Download
+ * Asks the certificate API to issue a signed PDF for the signed-in learner and saves the file,
+ * so it can be attached to personnel records
+ */
+
+import type { IssueCertificateRequest, IssueCertificateResponse } from '../api/certificate-verification';
+import { base64UrlDecode } from '../utils/jws';
+
+/**
+ * Issue a certificate and start the download; resolves with the verification code
+ */
+export async function downloadCertificate(sessionId: string, request: IssueCertificateRequest): Promise<string> {
+  const response = await fetch('/api/certificates', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${sessionId}`
+    },
+    body: JSON.stringify(request)
+  });
+  const result: IssueCertificateResponse | { success: false; error?: string } = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(!result.success && result.error ? result.error : `Certificate request failed: ${response.status}`);
+  }
+
+  const url = URL.createObjectURL(new Blob([base64UrlDecode(result.pdf)], { type: 'application/pdf' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = result.fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+
+  return result.verificationCode;
+}
@@ -0,0 +1,567 @@
+/**
+ * Certificate Service
+ * Per-learner completion certificates as branded PDFs for personnel records. Every PDF carries a
+ * verification code and is signed with a detached ES256 JWS; the issued record is kept in the
+ * session store so the verification endpoint can confirm a certificate by its code, check that a
+ * presented file is the one that was signed, and report revocations. Learners get certificates for
+ * their recorded game sessions only: the game comes from the configured catalog, the score and pass
+ * from the session's scene results, and the issuer from server configuration.
+ */
+
+import { sharedSessionStore, type SessionRecord, type SessionStore } from './session-store';
+import type { GameManifest } from '../types/game-manifest';
+import { createTranslator, loadCatalog, normalizeLocale, DEFAULT_LOCALE } from '../i18n';
+import {
+  createPdfDocument,
+  pdfImage,
+  pdfLine,
+  pdfRect,
+  pdfText,
+  readJpegSize,
+  type PdfImage
+} from '../utils/pdfDocument';
+import {
+  base64UrlDecode,
+  decodeJws,
+  importJwsKeyPair,
+  importJwsPublicKey,
+  sha256Hex,
+  signDetachedJws,
+  verifyDetachedJws,
+  type JwsKeyPair
+} from '../utils/jws';
+
+// A game certificates are offered for, as configured on the server
+export type CertifiedGame = Pick<GameManifest, 'gameId' | 'metadata' | 'theme'>;
+
+export interface CertificateRequest {
+  learnerName: string;
+  userId?: string;
+  tenantId?: string;
+  manifest: CertifiedGame;
+  score: { achieved: number; total: number };
+  certificationArea?: string; // From the assessment scene
+  completedAt?: Date;
+  locale?: string; // Defaults to the manifest language
+}
+
+export interface GameSessionCertificateRequest {
+  gameSessionId: string; // A game_sessions record owned by the learner
+  learnerName: string;
+  userId: string;
+  tenantId?: string;
+  locale?: string;
+}
+
+export interface IssuedCertificate {
+  verificationCode: string;
+  fileName: string;
+  pdf: Uint8Array;
+  signature: string; // Detached JWS over the PDF bytes
+  record: CertificateRecord;
+}
+
+export interface CertificateRecord {
+  verificationCode: string;
+  userId?: string;
+  tenantId?: string;
+  learnerName: string;
+  gameId: string;
+  gameTitle: string;
+  issuer: string;
+  certificationArea?: string;
+  scorePercent: number;
+  scoreAchieved: number;
+  scoreTotal: number;
+  completedAt: string;
+  issuedAt: string;
+  sha256: string; // Of the PDF file
+  signature: string;
+  kid: string;
+  revokedAt?: string;
+  revocationReason?: string;
+}
+
+export type CertificateStatus = 'valid' | 'revoked' | 'not_found' | 'tampered' | 'invalid_signature';
+
+export interface CertificateVerification {
+  valid: boolean;
+  status: CertificateStatus;
+  fileChecked: boolean; // Whether a PDF was presented and checked against the signature
+  certificate?: Omit<CertificateRecord, 'userId' | 'tenantId' | 'signature' | 'sha256'>;
+}
+
+export interface CertificateServiceOptions {
+  store?: SessionStore;
+  verificationBaseUrl?: string; // Printed on the certificate, e.g. https://diginativa.se/verify
+  issuer?: string; // Organisation named as the issuer; defaults to DigiNativa
+  logo?: PdfImage; // JPEG logo from a trusted asset; without one the issuer is printed as text
+  games?: CertifiedGame[];
+}
+
+const PAGE_WIDTH = 842; // A4 landscape in points
+const PAGE_HEIGHT = 595;
+const DEFAULT_PRIMARY_COLOR = '#1e40af';
+const TEXT_COLOR = '#1e293b';
+const MUTED_COLOR = '#64748b';
+const DEFAULT_VERIFICATION_URL = 'https://diginativa.se/certificates/verify';
+const DEFAULT_ISSUER = 'DigiNativa';
+
+// Crockford base32 without I, L, O and U, so codes read out loud or typed from paper stay unambiguous
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Random verification code in the form XXXX-XXXX-XXXX
+ */
+export const generateVerificationCode = (): string => {
+  const bytes = new Uint8Array(12);
+  crypto.getRandomValues(bytes);
+  const chars = Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]);
+  return [0, 4, 8].map(start => chars.slice(start, start + 4).join('')).join('-');
+};
+
+/**
+ * Canonical form of a code as typed by a person: upper case, confusable letters mapped, dashes restored
+ */
+export const normalizeVerificationCode = (code: string): string => {
+  const chars = code.toUpperCase().replace(/[^0-9A-Z]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+  return chars.length === 12 ? [0, 4, 8].map(start => chars.slice(start, start + 4)).join('-') : chars;
+};
+
+/**
+ * Signing key from CERTIFICATE_SIGNING_JWK (a private EC P-256 JWK with a kid); null when unset
+ */
+export const signingKeyFromEnv = async (
+  env: Record<string, string | undefined> = typeof process !== 'undefined' ? process.env : {}
+): Promise<JwsKeyPair | null> => {
+  if (!env.CERTIFICATE_SIGNING_JWK) return null;
+  return importJwsKeyPair(JSON.parse(env.CERTIFICATE_SIGNING_JWK));
+};
+
+// Only JPEG logos can be embedded; anything else leaves the issuer printed as text
+const jpegLogo = (base64: string): PdfImage | undefined => {
+  const data = base64UrlDecode(base64.replace(/\s/g, '').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, ''));
+  const size = readJpegSize(data);
+  if (!size) {
+    console.warn('CERTIFICATE_LOGO is not a JPEG image; printing the issuer name instead');
+    return undefined;
+  }
+  return { data, ...size };
+};
+
+/**
+ * Issuer, logo and certified games from CERTIFICATE_ISSUER, CERTIFICATE_LOGO (a base64 JPEG) and
+ * CERTIFICATE_GAMES (a JSON array of { gameId, metadata, theme? } entries)
+ */
+export const certificateOptionsFromEnv = (
+  env: Record<string, string | undefined> = typeof process !== 'undefined' ? process.env : {}
+): Pick<CertificateServiceOptions, 'issuer' | 'logo' | 'games'> => ({
+  issuer: env.CERTIFICATE_ISSUER || undefined,
+  logo: env.CERTIFICATE_LOGO ? jpegLogo(env.CERTIFICATE_LOGO) : undefined,
+  games: env.CERTIFICATE_GAMES ? JSON.parse(env.CERTIFICATE_GAMES) as CertifiedGame[] : undefined
+});
+
+export class CertificateError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'CertificateError';
+    this.status = status;
+  }
+}
+
+// What a verifier may see: no internal ids, and the file fingerprints stay with the issuer
+const toPublicCertificate = (record: CertificateRecord): CertificateVerification['certificate'] => {
+  const certificate: Partial<CertificateRecord> = { ...record };
+  delete certificate.userId;
+  delete certificate.tenantId;
+  delete certificate.signature;
+  delete certificate.sha256;
+  return certificate as CertificateVerification['certificate'];
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Points and pass marks the game recorded per scene; scenes without them don't count towards either
+const summarizeSceneResults = (sceneResults: Record<string, unknown>): {
+  score: CertificateRequest['score'];
+  passed: boolean;
+  certificationArea?: string;
+} => {
+  const score = { achieved: 0, total: 0 };
+  const passMarks: boolean[] = [];
+  let certificationArea: string | undefined;
+
+  for (const result of Object.values(sceneResults).filter(isObject)) {
+    if (typeof result.score === 'number' && typeof result.maxScore === 'number' && result.maxScore > 0) {
+      score.achieved += Math.max(0, Math.min(result.score, result.maxScore));
+      score.total += result.maxScore;
+    }
+    if (typeof result.passed === 'boolean') {
+      passMarks.push(result.passed);
+    }
+    const assessment = result.assessment;
+    if (isObject(assessment) && assessment.passed === true && typeof assessment.certificationArea === 'string') {
+      certificationArea ??= assessment.certificationArea;
+    }
+  }
+
+  return { score, passed: passMarks.length > 0 && passMarks.every(Boolean), certificationArea };
+};
+
+const fileSafe = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase();
+
+export class CertificateService {
+  private store: SessionStore;
+  private verificationBaseUrl: string;
+  private issuer: string;
+  private logo?: PdfImage;
+  private games = new Map<string, CertifiedGame>();
+  private signingKey: Promise<JwsKeyPair | null> | null = null;
+  private verificationKeys = new Map<string, JsonWebKey>(); // Public keys by kid, including retired ones
+
+  constructor(options: CertificateServiceOptions = {}) {
+    this.store = options.store ?? sharedSessionStore;
+    this.verificationBaseUrl = options.verificationBaseUrl ?? DEFAULT_VERIFICATION_URL;
+    this.issuer = options.issuer ?? DEFAULT_ISSUER;
+    this.logo = options.logo;
+    options.games?.forEach(game => this.registerGame(game));
+  }
+
+  setSessionStore(store: SessionStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Offer certificates for a game; its title and colours are printed on the certificate
+   */
+  registerGame(game: CertifiedGame): void {
+    this.games.set(game.gameId, game);
+  }
+
+  /**
+   * Use a new signing key; certificates signed with earlier keys stay verifiable
+   */
+  setSigningKey(key: JwsKeyPair): void {
+    this.signingKey = Promise.resolve(key);
+    this.verificationKeys.set(key.kid, key.publicJwk);
+  }
+
+  /**
+   * Add the public key of a retired signing key, e.g. after a restart with a rotated key
+   */
+  addVerificationKey(jwk: JsonWebKey & { kid: string }): void {
+    this.verificationKeys.set(jwk.kid, jwk);
+  }
+
+  /**
+   * Public keys as a JWKS document, for verifying certificate signatures offline
+   */
+  async getJwks(): Promise<{ keys: JsonWebKey[] }> {
+    await this.loadSigningKey();
+    return { keys: [...this.verificationKeys.values()] };
+  }
+
+  /**
+   * Issue a certificate for a learner's recorded game session, refusing sessions that were not passed
+   */
+  async issueForGameSession(request: GameSessionCertificateRequest): Promise<IssuedCertificate> {
+    const session = await this.store.get('game_sessions', request.gameSessionId);
+    // Someone else's session is reported as missing so ids can't be probed
+    if (!session || session.user_id !== request.userId) {
+      throw new CertificateError('Game session not found', 404);
+    }
+    const game = this.games.get(String(session.game_id));
+    if (!game) {
+      throw new CertificateError('No certificate is offered for this game', 404);
+    }
+
+    const progress = isObject(session.progress) ? session.progress : {};
+    const { score, passed, certificationArea } = summarizeSceneResults(isObject(progress.sceneResults) ? progress.sceneResults : {});
+    if (!passed) {
+      throw new CertificateError('Certificate needs a passed game session', 403);
+    }
+
+    return this.issueCertificate({
+      learnerName: request.learnerName,
+      userId: request.userId,
+      tenantId: request.tenantId,
+      manifest: game,
+      score,
+      certificationArea,
+      completedAt: typeof session.completed_at === 'string' ? new Date(session.completed_at) : undefined,
+      locale: request.locale
+    });
+  }
+
+  async issueCertificate(request: CertificateRequest): Promise<IssuedCertificate> {
+    const learnerName = request.learnerName.trim();
+    if (!learnerName) {
+      throw new CertificateError('Certificate needs a learner name', 400);
+    }
+    if (!(request.score.total > 0) || request.score.achieved < 0 || request.score.achieved > request.score.total) {
+      throw new CertificateError('Certificate score must be between 0 and the total', 400);
+    }
+
+    const key = await this.getSigningKey();
+    const verificationCode = await this.createUniqueCode();
+    const issuedAt = new Date();
+    const completedAt = request.completedAt ?? issuedAt;
+    const issuer = this.issuer;
+    const gameTitle = request.manifest.metadata.title;
+    const logo = this.logo;
+
+    const pdf = await this.renderPdf({
+      request: { ...request, learnerName },
+      verificationCode,
+      issuer,
+      completedAt,
+      issuedAt,
+      logo
+    });
+    const signature = await signDetachedJws(pdf, key.privateKey, {
+      kid: key.kid,
+      cty: 'application/pdf',
+      verificationCode
+    });
+
+    const record: CertificateRecord = {
+      verificationCode,
+      userId: request.userId,
+      tenantId: request.tenantId,
+      learnerName,
+      gameId: request.manifest.gameId,
+      gameTitle,
+      issuer,
+      certificationArea: request.certificationArea,
+      scorePercent: Math.round((request.score.achieved / request.score.total) * 100),
+      scoreAchieved: request.score.achieved,
+      scoreTotal: request.score.total,
+      completedAt: completedAt.toISOString(),
+      issuedAt: issuedAt.toISOString(),
+      sha256: await sha256Hex(pdf),
+      signature,
+      kid: key.kid
+    };
+    await this.store.put('certificates', verificationCode, this.toRecord(record));
+
+    return {
+      verificationCode,
+      fileName: `${fileSafe(gameTitle) || 'certificate'}-${fileSafe(learnerName)}-${verificationCode}.pdf`,
+      pdf,
+      signature,
+      record
+    };
+  }
+
+  /**
+   * Look a certificate up by its code; with the PDF (and optionally its signature) the file is
+   * also checked against the signature made when it was issued
+   */
+  async verifyCertificate(code: string, pdf?: Uint8Array, signature?: string): Promise<CertificateVerification> {
+    const stored = await this.store.get('certificates', normalizeVerificationCode(code));
+    if (!stored) {
+      return { valid: false, status: 'not_found', fileChecked: false };
+    }
+
+    const record = this.fromRecord(stored);
+    const certificate = toPublicCertificate(record);
+
+    if (pdf) {
+      if (await sha256Hex(pdf) !== record.sha256) {
+        return { valid: false, status: 'tampered', fileChecked: true, certificate };
+      }
+      if (!await this.verifySignature(signature ?? record.signature, pdf, record.verificationCode)) {
+        return { valid: false, status: 'invalid_signature', fileChecked: true, certificate };
+      }
+    }
+
+    if (record.revokedAt) {
+      return { valid: false, status: 'revoked', fileChecked: Boolean(pdf), certificate };
+    }
+    return { valid: true, status: 'valid', fileChecked: Boolean(pdf), certificate };
+  }
+
+  async revokeCertificate(code: string, reason: string, at: Date = new Date()): Promise<boolean> {
+    const verificationCode = normalizeVerificationCode(code);
+    const stored = await this.store.get('certificates', verificationCode);
+    if (!stored) return false;
+    await this.store.put('certificates', verificationCode, {
+      ...stored,
+      revoked_at: at.toISOString(),
+      revocation_reason: reason
+    });
+    return true;
+  }
+
+  async getCertificate(code: string): Promise<CertificateRecord | null> {
+    const stored = await this.store.get('certificates', normalizeVerificationCode(code));
+    return stored ? this.fromRecord(stored) : null;
+  }
+
+  async getCertificatesForUser(userId: string): Promise<CertificateRecord[]> {
+    const records = await this.store.find('certificates', {
+      where: { user_id: userId },
+      orderBy: { field: 'issued_at', direction: 'desc' }
+    });
+    return records.map(record => this.fromRecord(record));
+  }
+
+  private loadSigningKey(): Promise<JwsKeyPair | null> {
+    if (!this.signingKey) {
+      this.signingKey = signingKeyFromEnv().then(key => {
+        if (key) this.verificationKeys.set(key.kid, key.publicJwk);
+        return key;
+      });
+    }
+    return this.signingKey;
+  }
+
+  // A throwaway key would leave every certificate unverifiable after a restart, so issuing needs a configured one
+  private async getSigningKey(): Promise<JwsKeyPair> {
+    const key = await this.loadSigningKey();
+    if (!key) {
+      throw new CertificateError('Certificate signing key is not configured (CERTIFICATE_SIGNING_JWK)', 503);
+    }
+    return key;
+  }
+
+  private async verifySignature(signature: string, pdf: Uint8Array, verificationCode: string): Promise<boolean> {
+    await this.loadSigningKey();
+    try {
+      const { header } = decodeJws(signature, pdf);
+      const jwk = header.kid ? this.verificationKeys.get(header.kid) : undefined;
+      if (!jwk || header.verificationCode !== verificationCode) return false;
+      return await verifyDetachedJws(signature, pdf, await importJwsPublicKey(jwk));
+    } catch {
+      return false;
+    }
+  }
+
+  private async createUniqueCode(): Promise<string> {
+    for (;;) {
+      const code = generateVerificationCode();
+      if (!await this.store.get('certificates', code)) return code;
+    }
+  }
+
+  private async renderPdf(input: {
+    request: CertificateRequest;
+    verificationCode: string;
+    issuer: string;
+    completedAt: Date;
+    issuedAt: Date;
+    logo?: PdfImage;
+  }): Promise<Uint8Array> {
+    const { request, verificationCode, issuer, completedAt, issuedAt, logo } = input;
+    const locale = normalizeLocale(request.locale ?? request.manifest.metadata.language) ?? DEFAULT_LOCALE;
+    const { t } = createTranslator(locale, await loadCatalog(locale));
+    const primary = request.manifest.theme?.colors?.primary ?? DEFAULT_PRIMARY_COLOR;
+    const centre = PAGE_WIDTH / 2;
+
+    const content = [
+      pdfRect(24, 24, PAGE_WIDTH - 48, PAGE_HEIGHT - 48, { stroke: primary, lineWidth: 4 }),
+      pdfRect(34, 34, PAGE_WIDTH - 68, PAGE_HEIGHT - 68, { stroke: primary, lineWidth: 1 })
+    ];
+
+    if (logo) {
+      const height = 56;
+      const width = Math.min(220, (logo.width / logo.height) * height);
+      content.push(pdfImage('Logo', centre - width / 2, PAGE_HEIGHT - 70 - height, width, height));
+    } else {
+      content.push(pdfText(issuer, centre, PAGE_HEIGHT - 100, { size: 20, font: 'bold', color: primary, align: 'center' }));
+    }
+
+    content.push(
+      pdfText(t('certificate.heading').toUpperCase(), centre, 400, { size: 36, font: 'bold', color: primary, align: 'center' }),
+      pdfText(t('certificate.intro'), centre, 360, { size: 14, color: MUTED_COLOR, align: 'center' }),
+      pdfText(request.learnerName, centre, 318, { size: 30, font: 'bold', color: TEXT_COLOR, align: 'center' }),
+      pdfLine(centre - 200, 306, centre + 200, 306, { color: primary }),
+      pdfText(t('certificate.completed'), centre, 278, { size: 14, color: MUTED_COLOR, align: 'center' }),
+      pdfText(request.manifest.metadata.title, centre, 246, { size: 22, font: 'bold', color: TEXT_COLOR, align: 'center' })
+    );
+
+    let line = 214;
+    if (request.certificationArea) {
+      content.push(pdfText(t('certificate.area', { area: request.certificationArea }), centre, line, { size: 13, color: TEXT_COLOR, align: 'center' }));
+      line -= 22;
+    }
+    content.push(
+      pdfText(t('certificate.score', {
+        percent: request.score.achieved / request.score.total,
+        achieved: request.score.achieved,
+        total: request.score.total
+      }), centre, line, { size: 13, color: TEXT_COLOR, align: 'center' }),
+      pdfText(t('certificate.date', { date: completedAt }), centre, line - 22, { size: 13, color: TEXT_COLOR, align: 'center' }),
+      pdfText(t('certificate.issuedBy', { issuer }), 64, 84, { size: 11, color: MUTED_COLOR }),
+      pdfText(t('certificate.verificationCode', { code: verificationCode }), PAGE_WIDTH - 64, 84, { size: 11, font: 'bold', color: TEXT_COLOR, align: 'right' }),
+      pdfText(t('certificate.verifyAt', { url: `${this.verificationBaseUrl}/${verificationCode}` }), PAGE_WIDTH - 64, 66, { size: 9, color: MUTED_COLOR, align: 'right' })
+    );
+
+    return createPdfDocument({
+      pages: [{ width: PAGE_WIDTH, height: PAGE_HEIGHT, content }],
+      images: logo ? { Logo: logo } : undefined,
+      info: {
+        title: `${t('certificate.heading')}: ${request.manifest.metadata.title}`,
+        author: issuer,
+        subject: request.learnerName,
+        keywords: verificationCode,
+        creator: 'DigiNativa Runtime Engine',
+        createdAt: issuedAt
+      }
+    });
+  }
+
+  private toRecord(record: CertificateRecord): SessionRecord {
+    return {
+      verification_code: record.verificationCode,
+      user_id: record.userId ?? null,
+      tenant_id: record.tenantId ?? null,
+      learner_name: record.learnerName,
+      game_id: record.gameId,
+      game_title: record.gameTitle,
+      issuer: record.issuer,
+      certification_area: record.certificationArea ?? null,
+      score_percent: record.scorePercent,
+      score_achieved: record.scoreAchieved,
+      score_total: record.scoreTotal,
+      completed_at: record.completedAt,
+      issued_at: record.issuedAt,
+      sha256: record.sha256,
+      signature: record.signature,
+      kid: record.kid,
+      revoked_at: record.revokedAt ?? null,
+      revocation_reason: record.revocationReason ?? null
+    };
+  }
+
+  private fromRecord(record: SessionRecord): CertificateRecord {
+    const optional = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+    return {
+      verificationCode: String(record.verification_code),
+      userId: optional(record.user_id),
+      tenantId: optional(record.tenant_id),
+      learnerName: String(record.learner_name),
+      gameId: String(record.game_id),
+      gameTitle: String(record.game_title),
+      issuer: String(record.issuer),
+      certificationArea: optional(record.certification_area),
+      scorePercent: Number(record.score_percent),
+      scoreAchieved: Number(record.score_achieved),
+      scoreTotal: Number(record.score_total),
+      completedAt: String(record.completed_at),
+      issuedAt: String(record.issued_at),
+      sha256: String(record.sha256),
+      signature: String(record.signature),
+      kid: String(record.kid),
+      revokedAt: optional(record.revoked_at),
+      revocationReason: optional(record.revocation_reason)
+    };
+  }
+}
+
+// Export singleton instance
+export const certificateService = new CertificateService(certificateOptionsFromEnv());
@@ -0,0 +1,463 @@
+/**
+ * Enterprise OIDC Provider Service
+ * OpenID Connect relying party for municipalities on Entra ID, Okta or other OIDC identity providers,
+ * alongside the SAML provider: authorization code flow with PKCE, discovery, cached JWKS with key
+ * rotation, ID token validation and RP-initiated logout, configured per tenant.
+ * Pending authorizations and sessions are kept in the session store, so the callback and later
+ * requests may reach any instance behind the load balancer.
+ */
+
+import { extractAttribute, extractRoles } from './sso-claims';
+import { base64UrlEncode, decodeJws, importJwsPublicKey, verifyJwsSignature, type DecodedJws } from '../utils/jws';
+import { authSessionStore, type AuthSessionStore } from './auth-session-store';
+import { scimProvisioningService, type ScimProvisioningService } from './scim-provisioning';
+import { highestMunicipalRole, ROLE_PERMISSIONS } from '../utils/accessPolicy';
+import { sharedSessionStore, type SessionStore } from './session-store';
+import type { MunicipalTenant } from './enterprise-saml-provider';
+
+export interface OIDCTenantConfig {
+  id: string;
+  name: string;
+  country: MunicipalTenant['country'];
+  idpType: MunicipalTenant['idpType'];
+  issuer: string; // e.g. https://login.microsoftonline.com/<directory id>/v2.0
+  clientId: string;
+  clientSecret?: string; // Confidential clients; PKCE is used either way
+  redirectUri: string;
+  postLogoutRedirectUri?: string;
+  scopes?: string[];
+  isActive: boolean;
+  lastLogin?: string;
+}
+
+export interface OIDCUser {
+  subject: string;
+  claims: Record<string, unknown>;
+  idToken: string; // Kept as id_token_hint for logout
+  email?: string;
+  displayName?: string;
+  firstName?: string;
+  lastName?: string;
+  department?: string;
+  municipality?: string;
+  roles?: string[];
+}
+
+export interface OIDCAuthResult {
+  success: boolean;
+  user?: OIDCUser;
+  error?: string;
+  redirectUrl?: string;
+  sessionId: string;
+  tenantId: string;
+}
+
+export interface OIDCProviderOptions {
+  tenants?: OIDCTenantConfig[];
+  store?: SessionStore; // Pending authorizations
+  sessions?: AuthSessionStore;
+  provisioning?: ScimProvisioningService; // Role and status of users provisioned over SCIM
+  fetch?: typeof fetch;
+  now?: () => number;
+}
+
+export interface OIDCProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  end_session_endpoint?: string;
+}
+
+interface CachedJwks {
+  keys: Array<JsonWebKey & { kid?: string; use?: string }>;
+  fetchedAt: number;
+}
+
+const DEFAULT_SCOPES = ['openid', 'profile', 'email'];
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const JWKS_TTL_MS = 60 * 60 * 1000;
+// A token signed with an unknown key refetches the JWKS, but not more often than this
+const JWKS_REFETCH_INTERVAL_MS = 60 * 1000;
+const AUTHORIZATION_TTL_MS = 10 * 60 * 1000;
+const CLOCK_TOLERANCE_SECONDS = 120;
+
+const textDecoder = new TextDecoder();
+
+const randomToken = (): string => base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+
+/**
+ * PKCE S256 challenge for a code verifier (RFC 7636)
+ */
+export const createCodeChallenge = async (codeVerifier: string): Promise<string> =>
+  base64UrlEncode(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier))));
+
+/**
+ * Tenants from OIDC_TENANTS, a JSON array of tenant configurations
+ */
+export const oidcTenantsFromEnv = (
+  env: Record<string, string | undefined> = typeof process !== 'undefined' ? process.env : {}
+): OIDCTenantConfig[] => {
+  if (!env.OIDC_TENANTS) return [];
+  try {
+    const tenants: Array<Omit<OIDCTenantConfig, 'isActive'> & { isActive?: boolean }> = JSON.parse(env.OIDC_TENANTS);
+    return tenants.map(tenant => ({ ...tenant, isActive: tenant.isActive ?? true }));
+  } catch (error) {
+    console.error('OIDC_TENANTS is not valid JSON:', error);
+    return [];
+  }
+};
+
+export class EnterpriseOIDCProvider {
+  private tenants: Map<string, OIDCTenantConfig> = new Map();
+  private metadata: Map<string, { value: OIDCProviderMetadata; fetchedAt: number }> = new Map();
+  private jwks: Map<string, CachedJwks> = new Map();
+  private store: SessionStore;
+  private sessions: AuthSessionStore;
+  private provisioning: ScimProvisioningService;
+  private fetchImpl: typeof fetch;
+  private now: () => number;
+
+  constructor(options: OIDCProviderOptions = {}) {
+    this.store = options.store ?? sharedSessionStore;
+    this.sessions = options.sessions ?? authSessionStore;
+    this.provisioning = options.provisioning ?? scimProvisioningService;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.now = options.now ?? (() => Date.now());
+    options.tenants?.forEach(tenant => this.registerTenant(tenant));
+  }
+
+  setSessionStore(store: SessionStore): void {
+    this.store = store;
+  }
+
+  public registerTenant(tenant: OIDCTenantConfig): void {
+    this.tenants.set(tenant.id, { ...tenant, issuer: tenant.issuer.replace(/\/$/, '') });
+    this.metadata.delete(tenant.id);
+    console.info(`Registered OIDC tenant: ${tenant.name} (${tenant.id})`);
+  }
+
+  public getTenant(tenantId: string): OIDCTenantConfig | undefined {
+    return this.tenants.get(tenantId);
+  }
+
+  public getAllTenants(): OIDCTenantConfig[] {
+    return Array.from(this.tenants.values()).filter(tenant => tenant.isActive);
+  }
+
+  /**
+   * Authorization request URL; state, nonce and the PKCE verifier are kept until the callback
+   */
+  public async initiateLogin(tenantId: string, returnUrl?: string): Promise<string> {
+    const tenant = this.requireActiveTenant(tenantId);
+    const metadata = await this.getProviderMetadata(tenantId);
+
+    await this.store.deleteWhere('oidc_authorizations', {
+      before: { field: 'expires_at', value: new Date(this.now()).toISOString() }
+    });
+    const state = randomToken();
+    const nonce = randomToken();
+    const codeVerifier = randomToken();
+    await this.store.put('oidc_authorizations', state, {
+      tenant_id: tenantId,
+      code_verifier: codeVerifier,
+      nonce,
+      return_url: returnUrl ?? null,
+      expires_at: new Date(this.now() + AUTHORIZATION_TTL_MS).toISOString()
+    });
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: tenant.clientId,
+      redirect_uri: tenant.redirectUri,
+      scope: (tenant.scopes ?? DEFAULT_SCOPES).join(' '),
+      state,
+      nonce,
+      code_challenge: await createCodeChallenge(codeVerifier),
+      code_challenge_method: 'S256'
+    }).toString();
+    return url.toString();
+  }
+
+  public async handleCallback(
+    tenantId: string,
+    params: { code?: string; state?: string; error?: string; error_description?: string }
+  ): Promise<OIDCAuthResult> {
+    const failure = (error: string): OIDCAuthResult => ({ success: false, error, sessionId: '', tenantId });
+
+    const tenant = this.tenants.get(tenantId);
+    if (!tenant) {
+      return failure(`Tenant not found: ${tenantId}`);
+    }
+
+    // State is single use, whatever the outcome
+    const pending = params.state ? await this.store.get('oidc_authorizations', params.state) : null;
+    if (params.state) await this.store.delete('oidc_authorizations', params.state);
+    if (!pending || pending.tenant_id !== tenantId || new Date(String(pending.expires_at)).getTime() < this.now()) {
+      return failure('Invalid or expired state');
+    }
+    if (params.error) {
+      return failure(`Identity provider returned ${params.error}${params.error_description ? `: ${params.error_description}` : ''}`);
+    }
+    if (!params.code) {
+      return failure('Missing authorization code');
+    }
+
+    try {
+      const idToken = await this.exchangeCode(tenant, params.code, String(pending.code_verifier));
+      const claims = await this.validateIdToken(tenant, idToken, String(pending.nonce));
+
+      const user: OIDCUser = {
+        subject: String(claims.sub),
+        claims,
+        idToken,
+        email: extractAttribute(claims, 'email', 'preferred_username', 'upn'),
+        displayName: extractAttribute(claims, 'name'),
+        firstName: extractAttribute(claims, 'given_name'),
+        lastName: extractAttribute(claims, 'family_name'),
+        department: extractAttribute(claims, 'department'),
+        municipality: tenant.name,
+        roles: extractRoles(claims, tenant)
+      };
+
+      const access = await this.provisioning.getProvisionedAccess(tenantId, [user.email, user.subject]);
+      if (access && !access.active) {
+        return failure('User account has been deactivated');
+      }
+
+      // Provisioned users get their SCIM groups' role, others the role their IdP claims
+      const role = access?.role ?? highestMunicipalRole(user.roles ?? []);
+      const { sessionId } = await this.sessions.createSession({
+        userId: user.email ?? user.subject,
+        tenantId,
+        provider: 'oidc',
+        profile: user,
+        role,
+        permissions: access?.permissions ?? ROLE_PERMISSIONS[role]
+      }, new Date(this.now()));
+      tenant.lastLogin = new Date(this.now()).toISOString();
+
+      console.info(`Successful OIDC authentication for ${user.email ?? user.subject} in tenant ${tenantId}`);
+
+      return {
+        success: true,
+        user,
+        sessionId,
+        tenantId,
+        redirectUrl: typeof pending.return_url === 'string' ? pending.return_url : '/dashboard'
+      };
+    } catch (error) {
+      console.error(`OIDC callback validation failed for tenant ${tenantId}:`, error);
+      return failure(`Authentication failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Ends the local session and returns the IdP's end session URL, or the local logout page
+   */
+  public async initiateLogout(tenantId: string, sessionId: string): Promise<string> {
+    const tenant = this.tenants.get(tenantId);
+    if (!tenant) {
+      throw new Error(`Tenant not found: ${tenantId}`);
+    }
+
+    const user = await this.getUser(sessionId);
+    await this.sessions.revokeSession(sessionId, 'logout', new Date(this.now()));
+    if (!user) return '/auth/logout/success';
+
+    try {
+      const metadata = await this.getProviderMetadata(tenantId);
+      if (!metadata.end_session_endpoint) return '/auth/logout/success';
+
+      const url = new URL(metadata.end_session_endpoint);
+      url.searchParams.set('id_token_hint', user.idToken);
+      url.searchParams.set('client_id', tenant.clientId);
+      if (tenant.postLogoutRedirectUri) {
+        url.searchParams.set('post_logout_redirect_uri', tenant.postLogoutRedirectUri);
+      }
+      return url.toString();
+    } catch (error) {
+      console.error('Failed to initiate OIDC logout:', error);
+      return '/auth/logout/success';
+    }
+  }
+
+  public async getUser(sessionId: string): Promise<OIDCUser | undefined> {
+    const session = await this.sessions.getSession<OIDCUser>(sessionId, new Date(this.now()));
+    return session?.provider === 'oidc' ? session.profile : undefined;
+  }
+
+  /**
+   * Valid while neither expired nor revoked; each check counts as activity for the sliding expiry
+   */
+  public async isValidSession(sessionId: string): Promise<boolean> {
+    const session = await this.sessions.touchSession(sessionId, new Date(this.now()));
+    return session?.provider === 'oidc';
+  }
+
+  public async deactivateTenant(tenantId: string): Promise<boolean> {
+    const tenant = this.tenants.get(tenantId);
+    if (!tenant) {
+      return false;
+    }
+
+    tenant.isActive = false;
+    await this.sessions.revokeTenantSessions(tenantId, 'tenant_deactivated', new Date(this.now()));
+    return true;
+  }
+
+  /**
+   * OpenID Provider metadata from the tenant issuer's discovery document, cached for an hour
+   */
+  public async getProviderMetadata(tenantId: string): Promise<OIDCProviderMetadata> {
+    const tenant = this.tenants.get(tenantId);
+    if (!tenant) {
+      throw new Error(`Tenant not found: ${tenantId}`);
+    }
+
+    const cached = this.metadata.get(tenantId);
+    if (cached && this.now() - cached.fetchedAt < METADATA_TTL_MS) return cached.value;
+
+    const response = await this.fetchImpl(`${tenant.issuer}/.well-known/openid-configuration`, {
+      headers: { Accept: 'application/json' }
+    });
+    if (!response.ok) {
+      throw new Error(`Discovery failed for ${tenant.issuer}: HTTP ${response.status}`);
+    }
+    const value: OIDCProviderMetadata = await response.json();
+    // The discovery document must be about the configured issuer (OpenID Connect Discovery 4.3)
+    if (value.issuer !== tenant.issuer) {
+      throw new Error(`Discovery issuer ${value.issuer} does not match ${tenant.issuer}`);
+    }
+    if (!value.authorization_endpoint || !value.token_endpoint || !value.jwks_uri) {
+      throw new Error(`Discovery document of ${tenant.issuer} is incomplete`);
+    }
+
+    this.metadata.set(tenantId, { value, fetchedAt: this.now() });
+    return value;
+  }
+
+  private requireActiveTenant(tenantId: string): OIDCTenantConfig {
+    const tenant = this.tenants.get(tenantId);
+    if (!tenant) {
+      throw new Error(`Tenant not found: ${tenantId}`);
+    }
+    if (!tenant.isActive) {
+      throw new Error(`Tenant is inactive: ${tenantId}`);
+    }
+    return tenant;
+  }
+
+  private async exchangeCode(tenant: OIDCTenantConfig, code: string, codeVerifier: string): Promise<string> {
+    const metadata = await this.getProviderMetadata(tenant.id);
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: tenant.redirectUri,
+      client_id: tenant.clientId,
+      code_verifier: codeVerifier
+    });
+    if (tenant.clientSecret) body.set('client_secret', tenant.clientSecret);
+
+    const response = await this.fetchImpl(metadata.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: body.toString()
+    });
+    const tokens = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Token request failed: ${tokens.error ?? `HTTP ${response.status}`}`);
+    }
+    if (typeof tokens.id_token !== 'string') {
+      throw new Error('Token response has no ID token');
+    }
+    return tokens.id_token;
+  }
+
+  // ID token validation as in OpenID Connect Core 3.1.3.7
+  private async validateIdToken(tenant: OIDCTenantConfig, idToken: string, nonce: string): Promise<Record<string, unknown>> {
+    const metadata = await this.getProviderMetadata(tenant.id);
+    const decoded = decodeJws(idToken);
+    if (!await this.verifyWithJwks(metadata.jwks_uri, decoded)) {
+      throw new Error('ID token signature is invalid');
+    }
+
+    const claims: Record<string, unknown> = JSON.parse(textDecoder.decode(decoded.payload));
+    const seconds = Math.floor(this.now() / 1000);
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+    if (claims.iss !== metadata.issuer) {
+      throw new Error(`ID token issuer ${String(claims.iss)} is not ${metadata.issuer}`);
+    }
+    if (!audiences.includes(tenant.clientId) || (audiences.length > 1 && claims.azp !== tenant.clientId)) {
+      throw new Error('ID token is not issued to this client');
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_TOLERANCE_SECONDS < seconds) {
+      throw new Error('ID token has expired');
+    }
+    if (typeof claims.iat !== 'number' || claims.iat - CLOCK_TOLERANCE_SECONDS > seconds) {
+      throw new Error('ID token is issued in the future');
+    }
+    if (claims.nonce !== nonce) {
+      throw new Error('ID token nonce does not match');
+    }
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new Error('ID token has no subject');
+    }
+    return claims;
+  }
+
+  private async verifyWithJwks(jwksUri: string, decoded: DecodedJws): Promise<boolean> {
+    let key = this.findKey(await this.getJwks(jwksUri), decoded);
+    if (!key) {
+      // The IdP may have rotated its keys since the JWKS was cached
+      key = this.findKey(await this.getJwks(jwksUri, true), decoded);
+    }
+    if (!key) return false;
+
+    try {
+      return await verifyJwsSignature(decoded, await importJwsPublicKey(key));
+    } catch {
+      return false;
+    }
+  }
+
+  private findKey(keys: CachedJwks['keys'], decoded: DecodedJws): JsonWebKey | undefined {
+    const kty = decoded.header.alg === 'RS256' ? 'RSA' : 'EC';
+    const candidates = keys.filter(key => key.kty === kty && key.use !== 'enc' && (!key.alg || key.alg === decoded.header.alg));
+    if (decoded.header.kid) return candidates.find(key => key.kid === decoded.header.kid);
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  private async getJwks(jwksUri: string, forceRefresh = false): Promise<CachedJwks['keys']> {
+    const cached = this.jwks.get(jwksUri);
+    const age = cached ? this.now() - cached.fetchedAt : Infinity;
+    if (cached && (forceRefresh ? age < JWKS_REFETCH_INTERVAL_MS : age < JWKS_TTL_MS)) {
+      return cached.keys;
+    }
+
+    const response = await this.fetchImpl(jwksUri, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      if (cached) return cached.keys;
+      throw new Error(`JWKS request failed: HTTP ${response.status}`);
+    }
+    const { keys } = await response.json();
+    const value = { keys: Array.isArray(keys) ? keys : [], fetchedAt: this.now() };
+    this.jwks.set(jwksUri, value);
+    return value.keys;
+  }
+}
+
+// Create singleton instance
+export const enterpriseOIDCProvider = new EnterpriseOIDCProvider({ tenants: oidcTenantsFromEnv() });
+
+// Export convenience methods
+export const initiateOIDCLogin = (tenantId: string, returnUrl?: string) =>
+  enterpriseOIDCProvider.initiateLogin(tenantId, returnUrl);
+export const handleOIDCCallback = (tenantId: string, params: Parameters<EnterpriseOIDCProvider['handleCallback']>[1]) =>
+  enterpriseOIDCProvider.handleCallback(tenantId, params);
+export const initiateOIDCLogout = (tenantId: string, sessionId: string) =>
+  enterpriseOIDCProvider.initiateLogout(tenantId, sessionId);
+export const getOIDCUser = (sessionId: string) => enterpriseOIDCProvider.getUser(sessionId);
+export const isValidOIDCSession = (sessionId: string) => enterpriseOIDCProvider.isValidSession(sessionId);
@@ -8,6 +8,10 @@
 
 import { SAML } from '@node-saml/node-saml';
 import { type Request, type Response } from 'express';
+import { extractAttribute, extractRoles } from './sso-claims';
+import { authSessionStore } from './auth-session-store';
+import { scimProvisioningService } from './scim-provisioning';
+import { highestMunicipalRole, ROLE_PERMISSIONS } from '../utils/accessPolicy';
 
 export interface SAMLConfiguration {
   entityID: string;
@@ -62,8 +66,8 @@ export interface SAMLAuthResult {
 
 class EnterpriseSAMLProvider {
   private tenants: Map<string, MunicipalTenant> = new Map();
+  // Built from tenant configuration, so every instance derives the same ones; sessions live in authSessionStore
   private samlInstances: Map<string, SAML> = new Map();
-  private activeSessions: Map<string, SAMLUser> = new Map();
 
   constructor() {
     this.initializeDefaultTenants();
@@ -259,17 +263,36 @@ class EnterpriseSAMLProvider {
         nameID: result.profile.nameID,
         sessionIndex: result.profile.sessionIndex || '',
         attributes: result.profile.attributes || {},
-        email: this.extractAttribute(result.profile.attributes, 'email', 'emailaddress', 'mail'),
-        displayName: this.extractAttribute(result.profile.attributes, 'displayname', 'name'),
-        firstName: this.extractAttribute(result.profile.attributes, 'firstname', 'givenname'),
-        lastName: this.extractAttribute(result.profile.attributes, 'lastname', 'surname'),
-        department: this.extractAttribute(result.profile.attributes, 'department'),
+        email: extractAttribute(result.profile.attributes, 'email', 'emailaddress', 'mail'),
+        displayName: extractAttribute(result.profile.attributes, 'displayname', 'name'),
+        firstName: extractAttribute(result.profile.attributes, 'firstname', 'givenname'),
+        lastName: extractAttribute(result.profile.attributes, 'lastname', 'surname'),
+        department: extractAttribute(result.profile.attributes, 'department'),
         municipality: tenant.name,
-        roles: this.extractRoles(result.profile.attributes, tenant)
+        roles: extractRoles(result.profile.attributes, tenant)
       };
 
-      const sessionId = this.generateSessionId();
-      this.activeSessions.set(sessionId, user);
+      // Users the municipality deactivated over SCIM cannot sign in
+      const access = await scimProvisioningService.getProvisionedAccess(tenantId, [user.email, user.nameID]);
+      if (access && !access.active) {
+        return {
+          success: false,
+          error: 'User account has been deactivated',
+          sessionId: '',
+          tenantId
+        };
+      }
+
+      // Provisioned users get their SCIM groups' role, others the role their IdP claims
+      const role = access?.role ?? highestMunicipalRole(user.roles ?? []);
+      const { sessionId } = await authSessionStore.createSession({
+        userId: user.email || user.nameID,
+        tenantId,
+        provider: 'saml',
+        profile: user,
+        role,
+        permissions: access?.permissions ?? ROLE_PERMISSIONS[role]
+      });
 
       // Update tenant last login
       tenant.lastLogin = new Date().toISOString();
@@ -309,20 +332,20 @@ class EnterpriseSAMLProvider {
       throw new Error(`SAML instance not configured for tenant: ${tenantId}`);
     }
 
-    const user = this.activeSessions.get(sessionId);
+    const user = await this.getUser(sessionId);
     if (user) {
       try {
         const logoutUrl = await samlInstance.getLogoutUrl(user, '');
         
         // Remove session
-        this.activeSessions.delete(sessionId);
+        await authSessionStore.revokeSession(sessionId, 'logout');
         
         console.info(`Initiated SAML logout for session ${sessionId} in tenant ${tenantId}`);
         return logoutUrl;
       } catch (error) {
         console.error(`Failed to initiate SAML logout:`, error);
         // Fallback: just remove session
-        this.activeSessions.delete(sessionId);
+        await authSessionStore.revokeSession(sessionId, 'logout');
         return '/auth/logout/success';
       }
     }
@@ -330,12 +353,17 @@ class EnterpriseSAMLProvider {
     return '/auth/logout/success';
   }
 
-  public getUser(sessionId: string): SAMLUser | undefined {
-    return this.activeSessions.get(sessionId);
+  public async getUser(sessionId: string): Promise<SAMLUser | undefined> {
+    const session = await authSessionStore.getSession<SAMLUser>(sessionId);
+    return session?.provider === 'saml' ? session.profile : undefined;
   }
 
-  public isValidSession(sessionId: string): boolean {
-    return this.activeSessions.has(sessionId);
+  /**
+   * Valid while neither expired nor revoked; each check counts as activity for the sliding expiry
+   */
+  public async isValidSession(sessionId: string): Promise<boolean> {
+    const session = await authSessionStore.touchSession(sessionId);
+    return session?.provider === 'saml';
   }
 
   public generateServiceProviderMetadata(tenantId: string): string {
@@ -352,43 +380,6 @@ class EnterpriseSAMLProvider {
     return samlInstance.generateServiceProviderMetadata(tenant.samlConfig.cert, tenant.samlConfig.cert);
   }
 
-  private extractAttribute(attributes: any, ...keys: string[]): string | undefined {
-    if (!attributes) return undefined;
-    
-    for (const key of keys) {
-      const value = attributes[key] || attributes[key.toLowerCase()] || attributes[key.toUpperCase()];
-      if (value) {
-        return Array.isArray(value) ? value[0] : value;
-      }
-    }
-    
-    return undefined;
-  }
-
-  private extractRoles(attributes: any, tenant: MunicipalTenant): string[] {
-    const roles: string[] = [];
-    
-    // Extract roles from SAML attributes
-    const roleAttributes = attributes?.['http://schemas.microsoft.com/ws/2008/06/identity/claims/role'] ||
-                          attributes?.role ||
-                          attributes?.roles ||
-                          attributes?.groups;
-    
-    if (roleAttributes) {
-      const roleArray = Array.isArray(roleAttributes) ? roleAttributes : [roleAttributes];
-      roles.push(...roleArray);
-    }
-
-    // Add default municipal role
-    roles.push(`municipal_employee_${tenant.country.toLowerCase()}`);
-    
-    return roles;
-  }
-
-  private generateSessionId(): string {
-    return `saml_session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
-
   // Admin methods for tenant management
   public async updateTenantConfig(tenantId: string, updates: Partial<MunicipalTenant>): Promise<boolean> {
     const tenant = this.tenants.get(tenantId);
@@ -409,7 +400,7 @@ class EnterpriseSAMLProvider {
     return true;
   }
 
-  public deactivateTenant(tenantId: string): boolean {
+  public async deactivateTenant(tenantId: string): Promise<boolean> {
     const tenant = this.tenants.get(tenantId);
     if (!tenant) {
       return false;
@@ -417,31 +408,24 @@ class EnterpriseSAMLProvider {
 
     tenant.isActive = false;
     
-    // Remove all active sessions for this tenant
-    const sessionsToRemove = Array.from(this.activeSessions.entries())
-      .filter(([_, user]) => user.municipality === tenant.name)
-      .map(([sessionId]) => sessionId);
-    
-    sessionsToRemove.forEach(sessionId => {
-      this.activeSessions.delete(sessionId);
-    });
+    // Revoke all active sessions for this tenant
+    const revoked = await authSessionStore.revokeTenantSessions(tenantId, 'tenant_deactivated');
 
-    console.info(`Deactivated tenant ${tenantId} and removed ${sessionsToRemove.length} sessions`);
+    console.info(`Deactivated tenant ${tenantId} and revoked ${revoked} sessions`);
     return true;
   }
 
-  public getTenantStats(tenantId: string): {
+  public async getTenantStats(tenantId: string): Promise<{
     activeSessions: number;
     lastLogin?: string;
     totalLogins: number;
-  } {
+  }> {
     const tenant = this.tenants.get(tenantId);
     if (!tenant) {
       return { activeSessions: 0, totalLogins: 0 };
     }
 
-    const activeSessions = Array.from(this.activeSessions.values())
-      .filter(user => user.municipality === tenant.name).length;
+    const activeSessions = (await authSessionStore.listTenantSessions(tenantId)).length;
 
     return {
       activeSessions,
@@ -4,7 +4,19 @@
  */
 
 import React from 'react';
-import { supabase } from '../lib/supabase';
+import type { XAPIStatementEmitter } from './xapi-statement-emitter';
+import {
+  mergeGameSessionRecords,
+  sharedSessionStore,
+  type SessionRecord,
+  type SessionStore
+} from './session-store';
+import {
+  offlineResilienceManager,
+  type OfflineAction,
+  type OfflineResilienceManager
+} from '../optimization/OfflineResilienceManager';
+import { useTranslation } from '../hooks/useTranslation';
 
 export interface GameState {
   sessionId: string;
@@ -16,6 +28,7 @@ export interface GameState {
   progress: {
     completedScenes: string[];
     sceneResults: Record<string, any>;
+    sceneCompletedAt?: Record<string, string>; // When each result was recorded, for multi-device merges
     startTime: string;
     lastActiveTime: string;
     totalTimeSpent: number; // milliseconds
@@ -38,11 +51,37 @@ export interface GameResults {
   completionRate: number;
 }
 
-class GameStateManager {
+export class GameStateManager {
   private readonly AUTOSAVE_INTERVAL = 30000; // 30 seconds för Anna Svensson
   private readonly MAX_SESSION_DURATION = 20 * 60 * 1000; // 20 minutes max
   private autosaveTimer: NodeJS.Timeout | null = null;
   private currentState: GameState | null = null;
+  private xapiEmitter: XAPIStatementEmitter | null = null;
+  private store: SessionStore;
+  private journal: OfflineResilienceManager;
+
+  constructor(
+    store: SessionStore = sharedSessionStore,
+    journal: OfflineResilienceManager = offlineResilienceManager
+  ) {
+    this.store = store;
+    this.journal = journal;
+    this.journal.registerSyncHandler('game_state', action => this.syncJournaledSession(action));
+  }
+
+  /**
+   * Swap the persistence backend, e.g. an SQL or REST store for on-premise installations
+   */
+  setSessionStore(store: SessionStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Forward session events to an LRS in addition to analytics_events
+   */
+  setXAPIEmitter(emitter: XAPIStatementEmitter | null): void {
+    this.xapiEmitter = emitter;
+  }
 
   /**
    * Start new game session with automatic state tracking
@@ -102,15 +141,17 @@ class GameStateManager {
    */
   async resumeGameSession(sessionId: string): Promise<GameState | null> {
     try {
-      const { data, error } = await supabase
-        .from('game_sessions')
-        .select('*')
-        .eq('id', sessionId)
-        .eq('completed_at', null) // Only resume incomplete sessions
-        .single();
-
-      if (error || !data) {
-        console.error('Failed to resume session:', error);
+      // A snapshot still waiting in the journal is newer than what the server has
+      const journaled = this.journal.getPendingAction(this.journalKey(sessionId))?.payload as SessionRecord | undefined;
+      const stored = await this.store.get('game_sessions', sessionId).catch(error => {
+        if (!journaled) throw error;
+        return null;
+      });
+      const data: any = journaled && stored ? mergeGameSessionRecords(journaled, stored) : journaled ?? stored;
+
+      // Only resume incomplete sessions
+      if (!data || data.completed_at) {
+        console.error('Failed to resume session:', sessionId);
         return null;
       }
 
@@ -133,6 +174,7 @@ class GameStateManager {
         progress: {
           completedScenes: data.progress?.completedScenes || [],
           sceneResults: data.progress?.sceneResults || {},
+          sceneCompletedAt: data.progress?.sceneCompletedAt || {},
           startTime: data.started_at,
           lastActiveTime: new Date().toISOString(),
           totalTimeSpent: data.progress?.totalTimeSpent || 0
@@ -200,6 +242,10 @@ class GameStateManager {
       
       // Store scene result
       this.currentState.progress.sceneResults[updates.currentSceneId] = updates.sceneResult;
+      this.currentState.progress.sceneCompletedAt = {
+        ...this.currentState.progress.sceneCompletedAt,
+        [updates.currentSceneId]: now
+      };
     }
 
     // Update timing
@@ -245,13 +291,11 @@ class GameStateManager {
     };
 
     // Update database with completion
-    await supabase
-      .from('game_sessions')
-      .update({
-        completed_at: completedAt,
-        results: results
-      })
-      .eq('id', sessionId);
+    await this.persistSessionRecord({
+      ...this.toSessionRecord(this.currentState),
+      completed_at: completedAt,
+      results
+    });
 
     // Stop autosave
     this.stopAutosave();
@@ -276,18 +320,11 @@ class GameStateManager {
    */
   async getUserIncompleteSessions(userId: string): Promise<GameState[]> {
     try {
-      const { data, error } = await supabase
-        .from('game_sessions')
-        .select('*')
-        .eq('user_id', userId)
-        .is('completed_at', null)
-        .order('started_at', { ascending: false })
-        .limit(10);
-
-      if (error) {
-        console.error('Failed to fetch incomplete sessions:', error);
-        return [];
-      }
+      const data: any[] = await this.store.find('game_sessions', {
+        where: { user_id: userId, completed_at: null },
+        orderBy: { field: 'started_at', direction: 'desc' },
+        limit: 10
+      });
 
       return data.map(session => ({
         sessionId: session.id,
@@ -311,7 +348,7 @@ class GameStateManager {
         }
       }));
     } catch (error) {
-      console.error('Error fetching incomplete sessions:', error);
+      console.error('Failed to fetch incomplete sessions:', error);
       return [];
     }
   }
@@ -324,11 +361,10 @@ class GameStateManager {
     cutoffDate.setDate(cutoffDate.getDate() - 7); // 7 days old
 
     try {
-      await supabase
-        .from('game_sessions')
-        .delete()
-        .is('completed_at', null)
-        .lt('started_at', cutoffDate.toISOString());
+      await this.store.deleteWhere('game_sessions', {
+        where: { completed_at: null },
+        before: { field: 'started_at', value: cutoffDate.toISOString() }
+      });
     } catch (error) {
       console.error('Error cleaning up old sessions:', error);
     }
@@ -355,31 +391,58 @@ class GameStateManager {
   }
 
   private async saveStateToDatabase(state: GameState): Promise<void> {
+    await this.persistSessionRecord(this.toSessionRecord(state));
+  }
+
+  // Journal first so progress made without connectivity survives; the journal replays it when online
+  private async persistSessionRecord(record: SessionRecord): Promise<void> {
     try {
-      await supabase
-        .from('game_sessions')
-        .upsert({
-          id: state.sessionId,
-          user_id: state.userId,
-          game_id: state.gameId,
-          tenant_id: state.tenantId,
-          started_at: state.progress.startTime,
-          progress: {
-            currentSceneId: state.currentSceneId,
-            sceneIndex: state.sceneIndex,
-            completedScenes: state.progress.completedScenes,
-            sceneResults: state.progress.sceneResults,
-            lastActiveTime: state.progress.lastActiveTime,
-            totalTimeSpent: state.progress.totalTimeSpent,
-            culturalContext: state.culturalContext,
-            deviceInfo: state.deviceInfo
-          }
-        });
+      await this.journal.saveMunicipalAction({
+        type: 'game_state',
+        key: this.journalKey(record.id as string),
+        payload: record
+      });
+      await this.journal.flush();
     } catch (error) {
       console.error('Failed to save game state:', error);
     }
   }
 
+  private async syncJournaledSession(action: OfflineAction): Promise<{ conflictResolved: boolean }> {
+    const local = action.payload as SessionRecord;
+    const remote = await this.store.get('game_sessions', local.id as string);
+    // Another device may have saved progress meanwhile; merge rather than overwrite it
+    const merged = remote ? mergeGameSessionRecords(local, remote) : local;
+    await this.store.put('game_sessions', local.id as string, merged);
+    return { conflictResolved: JSON.stringify(merged) !== JSON.stringify(local) };
+  }
+
+  private journalKey(sessionId: string): string {
+    return `game_sessions:${sessionId}`;
+  }
+
+  private toSessionRecord(state: GameState): SessionRecord {
+    return {
+      id: state.sessionId,
+      user_id: state.userId,
+      game_id: state.gameId,
+      tenant_id: state.tenantId,
+      started_at: state.progress.startTime,
+      completed_at: null,
+      progress: {
+        currentSceneId: state.currentSceneId,
+        sceneIndex: state.sceneIndex,
+        completedScenes: state.progress.completedScenes,
+        sceneResults: state.progress.sceneResults,
+        sceneCompletedAt: state.progress.sceneCompletedAt ?? {},
+        lastActiveTime: state.progress.lastActiveTime,
+        totalTimeSpent: state.progress.totalTimeSpent,
+        culturalContext: state.culturalContext,
+        deviceInfo: state.deviceInfo
+      }
+    };
+  }
+
   private calculateTotalScore(sceneResults: Record<string, any>): number {
     let totalScore = 0;
     let totalPossible = 0;
@@ -439,14 +502,20 @@ class GameStateManager {
   }
 
   private async trackAnalyticsEvent(eventType: string, eventData: any): Promise<void> {
+    this.xapiEmitter?.trackEvent(eventType, {
+      gameId: this.currentState?.gameId,
+      userId: this.currentState?.userId,
+      sessionId: this.currentState?.sessionId,
+      ...eventData
+    });
+
     try {
-      await supabase
-        .from('analytics_events')
-        .insert({
-          session_id: this.currentState?.sessionId,
-          event_type: eventType,
-          event_data: eventData
-        });
+      await this.store.put('analytics_events', crypto.randomUUID(), {
+        session_id: this.currentState?.sessionId ?? null,
+        event_type: eventType,
+        event_data: eventData,
+        created_at: new Date().toISOString()
+      });
     } catch (error) {
       console.error('Failed to track analytics event:', error);
     }
@@ -516,34 +585,38 @@ export function useGameState(sessionId?: string) {
 export function ResumeGameDialog({ 
   incompleteSessions, 
   onResume, 
-  onStartNew 
+  onStartNew,
+  playerName = 'Anna'
 }: {
   incompleteSessions: GameState[];
   onResume: (sessionId: string) => void;
   onStartNew: () => void;
+  playerName?: string;
 }) {
+  const { t } = useTranslation();
+
   if (incompleteSessions.length === 0) {
     return null;
   }
 
   return (
     <div className="resume-game-dialog">
-      <h3>Fortsätt där du slutade, Anna!</h3>
-      <p>Du har {incompleteSessions.length} påbörjade utbildningar:</p>
+      <h3>{t('resume.title', { name: playerName })}</h3>
+      <p>{t('resume.incompleteCount', { count: incompleteSessions.length })}</p>
       
       {incompleteSessions.map(session => (
         <div key={session.sessionId} className="session-card">
           <h4>{session.gameId}</h4>
-          <p>Förlopp: {session.progress.completedScenes.length} scener klara</p>
-          <p>Startat: {new Date(session.progress.startTime).toLocaleDateString('sv-SE')}</p>
+          <p>{t('resume.progress', { count: session.progress.completedScenes.length })}</p>
+          <p>{t('resume.startedAt', { date: new Date(session.progress.startTime) })}</p>
           <button onClick={() => onResume(session.sessionId)}>
-            Fortsätt
+            {t('button.continue')}
           </button>
         </div>
       ))}
       
       <button onClick={onStartNew} className="start-new-button">
-        Börja ny utbildning istället
+        {t('resume.startNew')}
       </button>
     </div>
   );
@@ -4,8 +4,8 @@
  * Preserves all Q2 functionality while adding hub session management
  */
 
-import { supabase } from '../lib/supabase';
-import { GameState, GameResults } from './game-state-manager';
+import type { GameState, GameResults } from './game-state-manager';
+import { sharedSessionStore, type SessionRecord, type SessionStore } from './session-store';
 import {
   WorldHubState,
   MultiWorldProgress,
@@ -29,6 +29,19 @@ export class MultiWorldStateManager {
   
   private hubSessionCache: Map<string, WorldHubState> = new Map();
   private autosaveTimers: Map<string, NodeJS.Timeout> = new Map();
+  private store: SessionStore;
+
+  constructor(store: SessionStore = sharedSessionStore) {
+    this.store = store;
+  }
+
+  /**
+   * Swap the persistence backend for hub sessions
+   */
+  setSessionStore(store: SessionStore): void {
+    this.store = store;
+    this.hubSessionCache.clear();
+  }
 
   /**
    * Generate unique 8-character code for hub session authentication
@@ -107,41 +120,26 @@ export class MultiWorldStateManager {
    */
   async authenticateWithUniqueCode(uniqueCode: string): Promise<WorldHubState | null> {
     try {
-      const { data, error } = await supabase
-        .from('world_hub_sessions')
-        .select('*')
-        .eq('unique_code', uniqueCode.toUpperCase())
-        .single();
+      const [data] = await this.store.find('world_hub_sessions', {
+        where: { unique_code: uniqueCode.toUpperCase() },
+        limit: 1
+      });
 
-      if (error || !data) {
+      if (!data) {
         return null;
       }
 
       // Check if session has expired
       const now = new Date();
-      const expiresAt = new Date(data.expires_at);
+      const expiresAt = new Date(data.expires_at as string);
       if (now > expiresAt) {
         // Clean up expired session
-        await this.cleanupExpiredSession(data.hub_session_id);
+        await this.cleanupExpiredSession(data.hub_session_id as string);
         return null;
       }
 
       // Convert database record to WorldHubState
-      const hubState: WorldHubState = {
-        hubSessionId: data.hub_session_id,
-        uniqueCode: data.unique_code,
-        userId: data.user_id,
-        tenantId: data.tenant_id,
-        totalScore: data.total_score || 0,
-        worldsCompleted: data.worlds_completed || 0,
-        currentWorldIndex: data.current_world_index,
-        hubProgressData: data.hub_progress_data || this.getDefaultHubProgressData(),
-        worldCompletionStatus: data.world_completion_status || this.getDefaultWorldCompletionStatus(),
-        culturalContext: data.cultural_context,
-        createdAt: new Date(data.created_at),
-        lastActiveAt: new Date(data.last_active_at),
-        expiresAt: new Date(data.expires_at)
-      };
+      const hubState = this.fromHubRecord(data);
 
       // Update last active time
       hubState.lastActiveAt = now;
@@ -285,31 +283,13 @@ export class MultiWorldStateManager {
 
     // Load from database
     try {
-      const { data, error } = await supabase
-        .from('world_hub_sessions')
-        .select('*')
-        .eq('hub_session_id', hubSessionId)
-        .single();
+      const data = await this.store.get('world_hub_sessions', hubSessionId);
 
-      if (error || !data) {
+      if (!data) {
         return null;
       }
 
-      const hubState: WorldHubState = {
-        hubSessionId: data.hub_session_id,
-        uniqueCode: data.unique_code,
-        userId: data.user_id,
-        tenantId: data.tenant_id,
-        totalScore: data.total_score || 0,
-        worldsCompleted: data.worlds_completed || 0,
-        currentWorldIndex: data.current_world_index,
-        hubProgressData: data.hub_progress_data || this.getDefaultHubProgressData(),
-        worldCompletionStatus: data.world_completion_status || this.getDefaultWorldCompletionStatus(),
-        culturalContext: data.cultural_context,
-        createdAt: new Date(data.created_at),
-        lastActiveAt: new Date(data.last_active_at),
-        expiresAt: new Date(data.expires_at)
-      };
+      const hubState = this.fromHubRecord(data);
 
       // Cache for performance
       this.hubSessionCache.set(hubSessionId, hubState);
@@ -326,27 +306,7 @@ export class MultiWorldStateManager {
    */
   private async updateHubSession(hubState: WorldHubState): Promise<void> {
     try {
-      const { error } = await supabase
-        .from('world_hub_sessions')
-        .upsert({
-          hub_session_id: hubState.hubSessionId,
-          unique_code: hubState.uniqueCode,
-          user_id: hubState.userId,
-          tenant_id: hubState.tenantId,
-          total_score: hubState.totalScore,
-          worlds_completed: hubState.worldsCompleted,
-          current_world_index: hubState.currentWorldIndex,
-          hub_progress_data: hubState.hubProgressData,
-          world_completion_status: hubState.worldCompletionStatus,
-          cultural_context: hubState.culturalContext,
-          created_at: hubState.createdAt.toISOString(),
-          last_active_at: hubState.lastActiveAt.toISOString(),
-          expires_at: hubState.expiresAt.toISOString()
-        });
-
-      if (error) {
-        throw error;
-      }
+      await this.store.put('world_hub_sessions', hubState.hubSessionId, this.toHubRecord(hubState));
 
       // Update cache
       this.hubSessionCache.set(hubState.hubSessionId, hubState);
@@ -361,33 +321,56 @@ export class MultiWorldStateManager {
    */
   private async storeHubSessionInDatabase(hubState: WorldHubState): Promise<void> {
     try {
-      const { error } = await supabase
-        .from('world_hub_sessions')
-        .insert({
-          hub_session_id: hubState.hubSessionId,
-          unique_code: hubState.uniqueCode,
-          user_id: hubState.userId,
-          tenant_id: hubState.tenantId,
-          total_score: hubState.totalScore,
-          worlds_completed: hubState.worldsCompleted,
-          current_world_index: hubState.currentWorldIndex,
-          hub_progress_data: hubState.hubProgressData,
-          world_completion_status: hubState.worldCompletionStatus,
-          cultural_context: hubState.culturalContext,
-          created_at: hubState.createdAt.toISOString(),
-          last_active_at: hubState.lastActiveAt.toISOString(),
-          expires_at: hubState.expiresAt.toISOString()
-        });
-
-      if (error) {
-        throw error;
-      }
+      await this.store.put('world_hub_sessions', hubState.hubSessionId, this.toHubRecord(hubState));
     } catch (error) {
       console.error('Error storing hub session:', error);
       throw error;
     }
   }
 
+  private toHubRecord(hubState: WorldHubState): SessionRecord {
+    return {
+      hub_session_id: hubState.hubSessionId,
+      unique_code: hubState.uniqueCode,
+      user_id: hubState.userId,
+      tenant_id: hubState.tenantId,
+      total_score: hubState.totalScore,
+      worlds_completed: hubState.worldsCompleted,
+      current_world_index: hubState.currentWorldIndex ?? null,
+      hub_progress_data: hubState.hubProgressData,
+      world_completion_status: hubState.worldCompletionStatus,
+      cultural_context: hubState.culturalContext,
+      created_at: hubState.createdAt.toISOString(),
+      last_active_at: hubState.lastActiveAt.toISOString(),
+      expires_at: hubState.expiresAt.toISOString()
+    };
+  }
+
+  private fromHubRecord(data: any): WorldHubState {
+    return {
+      hubSessionId: data.hub_session_id,
+      uniqueCode: data.unique_code,
+      userId: data.user_id,
+      tenantId: data.tenant_id,
+      totalScore: data.total_score || 0,
+      worldsCompleted: data.worlds_completed || 0,
+      currentWorldIndex: data.current_world_index ?? undefined,
+      hubProgressData: data.hub_progress_data || this.getDefaultHubProgressData(),
+      // Stored as JSON, so completion dates come back as strings
+      worldCompletionStatus: (data.world_completion_status || this.getDefaultWorldCompletionStatus()).map(
+        (world: WorldCompletionStatus) => ({
+          ...world,
+          ...(world.startedAt && { startedAt: new Date(world.startedAt) }),
+          ...(world.completedAt && { completedAt: new Date(world.completedAt) })
+        })
+      ),
+      culturalContext: data.cultural_context,
+      createdAt: new Date(data.created_at),
+      lastActiveAt: new Date(data.last_active_at),
+      expiresAt: new Date(data.expires_at)
+    };
+  }
+
   /**
    * Update world unlock status based on completed prerequisites
    */
@@ -458,10 +441,7 @@ export class MultiWorldStateManager {
   private async cleanupExpiredSession(hubSessionId: string): Promise<void> {
     try {
       // Remove from database
-      await supabase
-        .from('world_hub_sessions')
-        .delete()
-        .eq('hub_session_id', hubSessionId);
+      await this.store.delete('world_hub_sessions', hubSessionId);
 
       // Remove from cache
       this.hubSessionCache.delete(hubSessionId);
@@ -526,14 +506,7 @@ export class MultiWorldStateManager {
    */
   async exportUserData(userId: string): Promise<any> {
     try {
-      const { data, error } = await supabase
-        .from('world_hub_sessions')
-        .select('*')
-        .eq('user_id', userId);
-
-      if (error) {
-        throw error;
-      }
+      const data = await this.store.find('world_hub_sessions', { where: { user_id: userId } });
 
       return {
         hubSessions: data,
@@ -552,10 +525,7 @@ export class MultiWorldStateManager {
   async deleteUserData(userId: string): Promise<void> {
     try {
       // Delete hub sessions
-      await supabase
-        .from('world_hub_sessions')
-        .delete()
-        .eq('user_id', userId);
+      await this.store.deleteWhere('world_hub_sessions', { where: { user_id: userId } });
 
       // Clear from cache
       for (const [sessionId, hubState] of this.hubSessionCache.entries()) {
@@ -0,0 +1,469 @@
+/**
+ * Policy Engine
+ * Central authorization for the Permission model: built-in roles, custom roles per tenant and
+ * grants that can be limited to a resource, so an admin can delegate publishing, or one
+ * department's analytics, without handing out full admin. Every decision made through
+ * authorize() is written to the policy audit log, which keeps decisions for a retention period.
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+import { sharedSessionStore, type SessionRecord, type SessionStore } from './session-store';
+import { authSessionStore, type AuthSessionRecord } from './auth-session-store';
+import {
+  ALL_PERMISSIONS,
+  ROLE_PERMISSIONS,
+  isPermission,
+  isPermitted,
+  resourceMatches,
+  type EffectivePermissions
+} from '../utils/accessPolicy';
+import type { Permission, ResourceScope, ScopedPermission, UserRole } from '../types/auth';
+
+export interface PolicySubject {
+  userId: string;
+  tenantId: string;
+  role: UserRole;
+  permissions?: Permission[]; // Granted with the session, e.g. from SCIM group roles
+}
+
+export interface CustomRole {
+  id: string;
+  tenantId: string;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface PolicyGrant {
+  id: string;
+  tenantId: string;
+  userId: string;
+  permission?: Permission; // Either a single permission or a custom role
+  roleId?: string;
+  resource?: ResourceScope; // Tenant-wide when absent
+  grantedBy: string;
+  createdAt: string;
+  expiresAt?: string;
+}
+
+export interface PolicyRequest {
+  permission: Permission;
+  tenantId?: string; // Defaults to the subject's tenant
+  resource?: ResourceScope;
+  action?: string; // What was attempted, for the audit log, e.g. "PUT /auth/saml/admin/tenants/malmo_stad"
+}
+
+export type PolicyDecisionReason = 'system_admin' | 'role' | 'custom_role' | 'grant' | 'tenant_mismatch' | 'not_granted';
+
+export interface PolicyDecision {
+  allowed: boolean;
+  permission: Permission;
+  tenantId: string;
+  resource?: ResourceScope;
+  reason: PolicyDecisionReason;
+  grantId?: string;
+}
+
+export interface PolicyAuditEntry extends PolicyDecision {
+  id: string;
+  userId: string;
+  action?: string;
+  decidedAt: string;
+}
+
+export class PolicyError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'PolicyError';
+    this.status = status;
+  }
+}
+
+const DEFAULT_DECISION_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+const DECISION_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface PolicyEngineOptions {
+  store?: SessionStore;
+  now?: () => number;
+  decisionRetentionMs?: number; // How long the audit log keeps decisions; 90 days by default
+}
+
+const grantFromRecord = (record: SessionRecord): PolicyGrant => ({
+  id: String(record.id),
+  tenantId: String(record.tenant_id),
+  userId: String(record.user_id),
+  ...(record.permission ? { permission: record.permission as Permission } : {}),
+  ...(record.role_id ? { roleId: String(record.role_id) } : {}),
+  ...(record.resource_type ? { resource: { type: String(record.resource_type), id: String(record.resource_id) } } : {}),
+  grantedBy: String(record.granted_by),
+  createdAt: String(record.created_at),
+  ...(record.expires_at ? { expiresAt: String(record.expires_at) } : {})
+});
+
+const roleFromRecord = (record: SessionRecord): CustomRole => ({
+  id: String(record.id),
+  tenantId: String(record.tenant_id),
+  name: String(record.name),
+  ...(record.description ? { description: String(record.description) } : {}),
+  permissions: record.permissions as Permission[],
+  createdBy: String(record.created_by),
+  createdAt: String(record.created_at)
+});
+
+const auditFromRecord = (record: SessionRecord): PolicyAuditEntry => ({
+  id: String(record.id),
+  userId: String(record.user_id),
+  tenantId: String(record.tenant_id),
+  permission: record.permission as Permission,
+  ...(record.resource_type ? { resource: { type: String(record.resource_type), id: String(record.resource_id) } } : {}),
+  allowed: record.allowed === true,
+  reason: record.reason as PolicyDecisionReason,
+  ...(record.grant_id ? { grantId: String(record.grant_id) } : {}),
+  ...(record.action ? { action: String(record.action) } : {}),
+  decidedAt: String(record.decided_at)
+});
+
+export const subjectFromSession = (session: AuthSessionRecord<unknown>): PolicySubject => ({
+  userId: session.userId,
+  tenantId: session.tenantId,
+  role: session.role,
+  permissions: session.permissions
+});
+
+export class PolicyEngine {
+  private store: SessionStore;
+  private now: () => number;
+  private decisionRetentionMs: number;
+  private lastDecisionPurge = Number.NEGATIVE_INFINITY;
+
+  constructor(options: PolicyEngineOptions = {}) {
+    this.store = options.store ?? sharedSessionStore;
+    this.now = options.now ?? (() => Date.now());
+    this.decisionRetentionMs = options.decisionRetentionMs ?? DEFAULT_DECISION_RETENTION_MS;
+  }
+
+  setSessionStore(store: SessionStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Decides whether the subject holds the permission, and records the decision
+   */
+  async authorize(subject: PolicySubject, request: PolicyRequest): Promise<PolicyDecision> {
+    const decision = await this.evaluate(subject, request);
+    const id = crypto.randomUUID();
+
+    await this.store.put('policy_decisions', id, {
+      id,
+      user_id: subject.userId,
+      tenant_id: decision.tenantId,
+      permission: decision.permission,
+      resource_type: decision.resource?.type ?? null,
+      resource_id: decision.resource?.id ?? null,
+      allowed: decision.allowed,
+      reason: decision.reason,
+      grant_id: decision.grantId ?? null,
+      action: request.action ?? null,
+      decided_at: new Date(this.now()).toISOString()
+    });
+    await this.purgeExpiredDecisions();
+    return decision;
+  }
+
+  /**
+   * Everything the subject may do in their tenant, for the client's usePermission/<Can>
+   */
+  async effectivePermissions(subject: PolicySubject): Promise<EffectivePermissions> {
+    if (subject.role === 'super_admin') {
+      return { permissions: [...ALL_PERMISSIONS], scoped: [] };
+    }
+
+    const permissions = new Set<Permission>([...ROLE_PERMISSIONS[subject.role], ...(subject.permissions ?? [])]);
+    const scoped: ScopedPermission[] = [];
+    const roles = await this.rolesById(subject.tenantId);
+
+    for (const grant of await this.activeGrants(subject.tenantId, subject.userId)) {
+      const granted = grant.roleId ? roles.get(grant.roleId)?.permissions ?? [] : [grant.permission!];
+      granted.forEach(permission => {
+        if (grant.resource) scoped.push({ permission, resource: grant.resource });
+        else permissions.add(permission);
+      });
+    }
+    return { permissions: [...permissions], scoped };
+  }
+
+  // Custom roles
+
+  async createCustomRole(
+    actor: PolicySubject,
+    input: { name: string; description?: string; permissions: Permission[] }
+  ): Promise<CustomRole> {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new PolicyError('Role name is required', 400);
+    }
+    this.assertPermissions(input.permissions);
+    await this.assertCanDelegate(actor, input.permissions, undefined, 'policy.create_role');
+
+    const existing = await this.store.find('policy_roles', { where: { tenant_id: actor.tenantId, name_key: name.toLowerCase() }, limit: 1 });
+    if (existing.length > 0) {
+      throw new PolicyError(`Role already exists: ${name}`, 409);
+    }
+
+    const record: SessionRecord = {
+      id: `role_${crypto.randomUUID()}`,
+      tenant_id: actor.tenantId,
+      name,
+      name_key: name.toLowerCase(),
+      description: input.description ?? null,
+      permissions: [...new Set(input.permissions)],
+      created_by: actor.userId,
+      created_at: new Date(this.now()).toISOString()
+    };
+    await this.store.put('policy_roles', String(record.id), record);
+    return roleFromRecord(record);
+  }
+
+  async listCustomRoles(tenantId: string): Promise<CustomRole[]> {
+    const records = await this.store.find('policy_roles', { where: { tenant_id: tenantId }, orderBy: { field: 'name_key', direction: 'asc' } });
+    return records.map(roleFromRecord);
+  }
+
+  /**
+   * Deletes the role and every grant of it
+   */
+  async deleteCustomRole(actor: PolicySubject, roleId: string): Promise<void> {
+    const record = await this.store.get('policy_roles', roleId);
+    if (!record || record.tenant_id !== actor.tenantId) {
+      throw new PolicyError(`Role not found: ${roleId}`, 404);
+    }
+    await this.assertCanDelegate(actor, [], undefined, 'policy.delete_role');
+
+    await this.store.deleteWhere('policy_grants', { where: { tenant_id: actor.tenantId, role_id: roleId } });
+    await this.store.delete('policy_roles', roleId);
+  }
+
+  // Grants
+
+  /**
+   * Grants a permission or custom role to a user in the actor's tenant. Actors need users.manage
+   * and can only delegate permissions they hold themselves, for the same resource or tenant-wide.
+   */
+  async grant(
+    actor: PolicySubject,
+    input: { userId: string; permission?: Permission; roleId?: string; resource?: ResourceScope; expiresAt?: string }
+  ): Promise<PolicyGrant> {
+    if (!input.userId || (input.permission ? 1 : 0) + (input.roleId ? 1 : 0) !== 1) {
+      throw new PolicyError('A grant needs a userId and either a permission or a roleId', 400);
+    }
+    if (input.resource && (!input.resource.type || !input.resource.id)) {
+      throw new PolicyError('A resource needs a type and an id', 400);
+    }
+    if (input.expiresAt && Number.isNaN(Date.parse(input.expiresAt))) {
+      throw new PolicyError(`Invalid expiresAt: ${input.expiresAt}`, 400);
+    }
+
+    let permissions: Permission[];
+    if (input.roleId) {
+      const role = await this.store.get('policy_roles', input.roleId);
+      if (!role || role.tenant_id !== actor.tenantId) {
+        throw new PolicyError(`Role not found: ${input.roleId}`, 404);
+      }
+      permissions = role.permissions as Permission[];
+    } else {
+      this.assertPermissions([input.permission]);
+      permissions = [input.permission!];
+    }
+    await this.assertCanDelegate(actor, permissions, input.resource, 'policy.grant');
+
+    const record: SessionRecord = {
+      id: `grant_${crypto.randomUUID()}`,
+      tenant_id: actor.tenantId,
+      user_id: input.userId,
+      permission: input.permission ?? null,
+      role_id: input.roleId ?? null,
+      resource_type: input.resource?.type ?? null,
+      resource_id: input.resource?.id ?? null,
+      granted_by: actor.userId,
+      created_at: new Date(this.now()).toISOString(),
+      expires_at: input.expiresAt ? new Date(input.expiresAt).toISOString() : null
+    };
+    await this.store.put('policy_grants', String(record.id), record);
+    return grantFromRecord(record);
+  }
+
+  async revokeGrant(actor: PolicySubject, grantId: string): Promise<void> {
+    const record = await this.store.get('policy_grants', grantId);
+    if (!record || record.tenant_id !== actor.tenantId) {
+      throw new PolicyError(`Grant not found: ${grantId}`, 404);
+    }
+    await this.assertCanDelegate(actor, [], undefined, 'policy.revoke_grant');
+    await this.store.delete('policy_grants', grantId);
+  }
+
+  async listGrants(tenantId: string, userId?: string): Promise<PolicyGrant[]> {
+    const records = await this.store.find('policy_grants', {
+      where: userId ? { tenant_id: tenantId, user_id: userId } : { tenant_id: tenantId },
+      orderBy: { field: 'created_at', direction: 'asc' }
+    });
+    return records.map(grantFromRecord);
+  }
+
+  // Audit log
+
+  /**
+   * Recorded decisions for a tenant, newest first
+   */
+  async listDecisions(tenantId: string, filter: { userId?: string; allowed?: boolean; limit?: number } = {}): Promise<PolicyAuditEntry[]> {
+    const records = await this.store.find('policy_decisions', {
+      where: {
+        tenant_id: tenantId,
+        ...(filter.userId ? { user_id: filter.userId } : {}),
+        ...(filter.allowed !== undefined ? { allowed: filter.allowed } : {})
+      },
+      orderBy: { field: 'decided_at', direction: 'desc' },
+      limit: filter.limit ?? 100
+    });
+    return records.map(auditFromRecord);
+  }
+
+  async purgeDecisions(before: Date): Promise<number> {
+    return this.store.deleteWhere('policy_decisions', { before: { field: 'decided_at', value: before.toISOString() } });
+  }
+
+  // Every request is audited, so expired decisions are purged as new ones are recorded, at most once
+  // per interval; a failed purge is retried later and never fails the authorization
+  private async purgeExpiredDecisions(): Promise<void> {
+    const now = this.now();
+    if (now - this.lastDecisionPurge < DECISION_PURGE_INTERVAL_MS) return;
+    this.lastDecisionPurge = now;
+    try {
+      await this.purgeDecisions(new Date(now - this.decisionRetentionMs));
+    } catch (error) {
+      console.error('Failed to purge policy decisions:', error);
+    }
+  }
+
+  private async evaluate(subject: PolicySubject, request: PolicyRequest): Promise<PolicyDecision> {
+    const tenantId = request.tenantId ?? subject.tenantId;
+    const decide = (allowed: boolean, reason: PolicyDecisionReason, grantId?: string): PolicyDecision => ({
+      allowed,
+      permission: request.permission,
+      tenantId,
+      ...(request.resource ? { resource: request.resource } : {}),
+      reason,
+      ...(grantId ? { grantId } : {})
+    });
+
+    if (subject.role === 'super_admin') return decide(true, 'system_admin');
+    if (tenantId !== subject.tenantId) return decide(false, 'tenant_mismatch');
+    if (ROLE_PERMISSIONS[subject.role].includes(request.permission) || subject.permissions?.includes(request.permission)) {
+      return decide(true, 'role');
+    }
+
+    const roles = await this.rolesById(tenantId);
+    for (const grant of await this.activeGrants(tenantId, subject.userId)) {
+      const granted = grant.roleId ? roles.get(grant.roleId)?.permissions ?? [] : [grant.permission!];
+      if (!granted.includes(request.permission)) continue;
+      if (!grant.resource || resourceMatches(grant.resource, request.resource)) {
+        return decide(true, grant.roleId ? 'custom_role' : 'grant', grant.id);
+      }
+    }
+    return decide(false, 'not_granted');
+  }
+
+  private async assertCanDelegate(actor: PolicySubject, permissions: Permission[], resource: ResourceScope | undefined, action: string): Promise<void> {
+    const manage = await this.authorize(actor, { permission: 'users.manage', action });
+    if (!manage.allowed) {
+      throw new PolicyError('users.manage is required to manage roles and grants', 403);
+    }
+
+    const effective = await this.effectivePermissions(actor);
+    const missing = permissions.filter(permission => !isPermitted(effective, permission, resource));
+    if (missing.length > 0) {
+      throw new PolicyError(`Cannot delegate permissions you do not hold: ${missing.join(', ')}`, 403);
+    }
+  }
+
+  private assertPermissions(permissions: unknown[]): void {
+    const unknown = permissions.filter(permission => !isPermission(permission));
+    if (permissions.length === 0 || unknown.length > 0) {
+      throw new PolicyError(`Unknown permissions: ${unknown.join(', ') || 'none given'}`, 400);
+    }
+  }
+
+  private async activeGrants(tenantId: string, userId: string): Promise<PolicyGrant[]> {
+    const now = this.now();
+    return (await this.listGrants(tenantId, userId)).filter(grant => !grant.expiresAt || Date.parse(grant.expiresAt) > now);
+  }
+
+  private async rolesById(tenantId: string): Promise<Map<string, CustomRole>> {
+    return new Map((await this.listCustomRoles(tenantId)).map(role => [role.id, role]));
+  }
+}
+
+// Export singleton instance
+export const policyEngine = new PolicyEngine();
+
+export interface RequirePermissionOptions {
+  resource?: (req: Request) => ResourceScope | undefined;
+  tenantId?: (req: Request) => string | undefined | Promise<string | undefined>; // The tenant the request acts on
+}
+
+const sessionFromRequest = async (req: Request): Promise<AuthSessionRecord | null> => {
+  if (req.authSession) return req.authSession;
+
+  const header = req.headers.authorization;
+  const sessionId = (header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : undefined)
+    ?? req.samlSessionId
+    ?? req.oidcSessionId;
+  return sessionId ? authSessionStore.touchSession(sessionId) : null;
+};
+
+/**
+ * Middleware allowing the request when the signed-in user holds the permission, for the
+ * tenant and resource the request acts on
+ */
+export function requirePermission(permission: Permission, options: RequirePermissionOptions = {}) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const session = await sessionFromRequest(req);
+      if (!session) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        });
+        return;
+      }
+
+      const decision = await policyEngine.authorize(subjectFromSession(session), {
+        permission,
+        tenantId: await options.tenantId?.(req),
+        resource: options.resource?.(req),
+        action: `${req.method} ${req.originalUrl.split('?')[0]}`
+      });
+      if (!decision.allowed) {
+        res.status(403).json({
+          success: false,
+          error: 'Insufficient permissions',
+          permission,
+          reason: decision.reason
+        });
+        return;
+      }
+
+      req.authSession = session;
+      next();
+    } catch (error) {
+      console.error('Policy evaluation failed:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Authorization check failed'
+      });
+    }
+  };
+}
@@ -1,1011 +0,0 @@
-/**
- * Professional Certification Blockchain Service
- * 
- * Tamper-proof professional certification system for European municipal professionals
- * Supporting government recognition, cross-border validation, and career advancement
- * 
- * @version 1.0.0
- * @created 2025-01-22
- * @strategic_alignment €25M ARR through premium certification value proposition
- */
-
-import { EventEmitter } from 'events';
-import { createHash } from 'crypto';
-
-/**
- * Professional Certification Record
- * 
- * Immutable record of municipal professional achievement and competency validation
- * stored on blockchain for tamper-proof verification
- */
-interface ProfessionalCertificationRecord {
-  // Core Certification Data
-  certificationId: string;
-  professionalId: string;
-  certificationType: 'municipal-foundations' | 'citizen-service' | 'emergency-response' | 'leadership-development' | 'innovation-implementation';
-  competencyLevel: 'basic' | 'intermediate' | 'advanced' | 'expert' | 'master';
-  
-  // Achievement Details
-  achievementData: {
-    worldCompletion: {
-      worldName: string;
-      completionPercentage: number;
-      scenariosCompleted: number;
-      performanceMetrics: Record<string, number>;
-      timeSpent: number;
-    }[];
-    skillAssessments: {
-      skill: string;
-      assessmentScore: number;
-      validationMethod: string;
-      assessmentDate: Date;
-    }[];
-    practicalDemonstrations: {
-      scenario: string;
-      performanceRating: number;
-      municipalContext: string;
-      validatedBy: string;
-      evidence: string[];
-    }[];
-  };
-  
-  // Municipal Context
-  municipalContext: {
-    municipality: string;
-    country: string;
-    department: string;
-    role: string;
-    supervisorValidation: {
-      supervisorName: string;
-      supervisorId: string;
-      validationDate: Date;
-      validationStatement: string;
-    };
-  };
-  
-  // Government Recognition
-  governmentRecognition: {
-    recognitionLevel: 'municipal' | 'regional' | 'national' | 'european';
-    recognizingAuthority: string;
-    recognitionDate: Date;
-    recognitionNumber: string;
-    legalFramework: string[];
-    crossBorderValidity: string[];
-  };
-  
-  // Blockchain Validation
-  blockchainData: {
-    blockHash: string;
-    transactionHash: string;
-    blockNumber: number;
-    timestamp: Date;
-    validatorNodes: string[];
-    consensusProof: string;
-  };
-  
-  // Continuing Education
-  continuingEducation: {
-    requiredHours: number;
-    completedHours: number;
-    nextRenewalDate: Date;
-    renewalActivities: {
-      activity: string;
-      hours: number;
-      date: Date;
-      provider: string;
-    }[];
-  };
-}
-
-/**
- * Government Partnership Framework
- * 
- * Framework for establishing official recognition and partnerships
- * with European government institutions and professional bodies
- */
-interface GovernmentPartnershipFramework {
-  // Partnership Details
-  partnershipId: string;
-  governmentEntity: {
-    name: string;
-    type: 'ministry' | 'regional-authority' | 'municipal-association' | 'professional-body';
-    country: string;
-    jurisdiction: string;
-    contactInformation: any;
-  };
-  
-  // Recognition Framework
-  recognitionFramework: {
-    legalBasis: string[];
-    recognitionLevel: string;
-    certificationEquivalence: Record<string, string>;
-    qualificationFrameworkAlignment: string;
-    creditTransferAgreements: string[];
-  };
-  
-  // Validation Process
-  validationProcess: {
-    validationCriteria: string[];
-    assessmentMethods: string[];
-    validationTimeline: string;
-    appealProcess: string;
-    qualityAssurance: string[];
-  };
-  
-  // Partnership Benefits
-  partnershipBenefits: {
-    officialRecognition: boolean;
-    careerAdvancementPathways: string[];
-    professionalNetworkAccess: boolean;
-    continuingEducationCredits: boolean;
-    crossBorderRecognition: string[];
-  };
-}
-
-/**
- * Blockchain Verification Result
- */
-interface BlockchainVerificationResult {
-  isValid: boolean;
-  verificationDetails: {
-    certificateAuthentic: boolean;
-    blockchainIntegrity: boolean;
-    governmentRecognitionValid: boolean;
-    currentValidity: boolean;
-    lastVerificationDate: Date;
-  };
-  verificationTrail: {
-    step: string;
-    result: boolean;
-    details: string;
-    timestamp: Date;
-  }[];
-  trustScore: number;
-  verificationCertificate: string;
-}
-
-/**
- * Career Advancement Analytics
- */
-interface CareerAdvancementAnalytics {
-  currentCertifications: ProfessionalCertificationRecord[];
-  careerProgression: {
-    currentLevel: string;
-    nextLevel: string;
-    requiredCertifications: string[];
-    estimatedTimeToAdvancement: number;
-    recommendedLearningPath: string[];
-  };
-  marketValue: {
-    salaryImprovement: number;
-    promotionProbability: number;
-    jobMarketDemand: number;
-    skillGapAnalysis: string[];
-  };
-  professionalNetwork: {
-    peerConnections: number;
-    mentorshipOpportunities: string[];
-    industryRecognition: string[];
-    conferenceInvitations: string[];
-  };
-}
-
-/**
- * Professional Certification Blockchain Service
- * 
- * Comprehensive blockchain-based certification system for European municipal professionals
- * with government recognition and cross-border validation capabilities
- */
-export class ProfessionalCertificationBlockchainService extends EventEmitter {
-  private blockchainNetwork: any;
-  private governmentPartnerships: Map<string, GovernmentPartnershipFramework>;
-  private certificationRecords: Map<string, ProfessionalCertificationRecord>;
-  private validationNodes: any[];
-  private cryptographicValidator: any;
-  
-  constructor() {
-    super();
-    this.governmentPartnerships = new Map();
-    this.certificationRecords = new Map();
-    this.validationNodes = [];
-    this.initializeBlockchainNetwork();
-    this.setupCryptographicValidation();
-    this.establishGovernmentPartnerships();
-  }
-  
-  /**
-   * Issue Professional Certification
-   * 
-   * Creates and records tamper-proof professional certification
-   * with government recognition and blockchain validation
-   */
-  async issueProfessionalCertification(
-    professionalData: {
-      professionalId: string;
-      personalInfo: {
-        name: string;
-        email: string;
-        municipalId: string;
-      };
-      achievementData: any;
-      municipalContext: any;
-      supervisorValidation: any;
-    },
-    certificationType: string,
-    competencyLevel: string
-  ): Promise<{
-    certificationRecord: ProfessionalCertificationRecord;
-    blockchainTransaction: any;
-    governmentRecognition: any;
-    verificationCertificate: string;
-  }> {
-    try {
-      // Generate unique certification ID
-      const certificationId = await this.generateCertificationId(
-        professionalData.professionalId,
-        certificationType,
-        competencyLevel
-      );
-      
-      // Create certification record
-      const certificationRecord: ProfessionalCertificationRecord = {
-        certificationId,
-        professionalId: professionalData.professionalId,
-        certificationType: certificationType as any,
-        competencyLevel: competencyLevel as any,
-        achievementData: professionalData.achievementData,
-        municipalContext: professionalData.municipalContext,
-        governmentRecognition: await this.establishGovernmentRecognition(
-          professionalData,
-          certificationType,
-          competencyLevel
-        ),
-        blockchainData: {
-          blockHash: '',
-          transactionHash: '',
-          blockNumber: 0,
-          timestamp: new Date(),
-          validatorNodes: [],
-          consensusProof: ''
-        },
-        continuingEducation: {
-          requiredHours: this.getRequiredContinuingEducationHours(competencyLevel),
-          completedHours: 0,
-          nextRenewalDate: new Date(Date.now() + (365 * 24 * 60 * 60 * 1000)), // 1 year
-          renewalActivities: []
-        }
-      };
-      
-      // Record on blockchain
-      const blockchainTransaction = await this.recordOnBlockchain(
-        certificationRecord
-      );
-      
-      // Update certification record with blockchain data
-      certificationRecord.blockchainData = {
-        blockHash: blockchainTransaction.blockHash,
-        transactionHash: blockchainTransaction.transactionHash,
-        blockNumber: blockchainTransaction.blockNumber,
-        timestamp: blockchainTransaction.timestamp,
-        validatorNodes: blockchainTransaction.validatorNodes,
-        consensusProof: blockchainTransaction.consensusProof
-      };
-      
-      // Store certification record
-      this.certificationRecords.set(certificationId, certificationRecord);
-      
-      // Generate verification certificate
-      const verificationCertificate = await this.generateVerificationCertificate(
-        certificationRecord
-      );
-      
-      // Notify relevant parties
-      await this.notifyGovernmentAuthorities(certificationRecord);
-      await this.notifyProfessionalNetworks(certificationRecord);
-      
-      const result = {
-        certificationRecord,
-        blockchainTransaction,
-        governmentRecognition: certificationRecord.governmentRecognition,
-        verificationCertificate
-      };
-      
-      this.emit('certificationIssued', {
-        certificationId,
-        professionalId: professionalData.professionalId,
-        result
-      });
-      
-      return result;
-      
-    } catch (error) {
-      this.emit('certificationIssuanceError', { professionalData, error });
-      throw new Error(`Certification issuance failed: ${error}`);
-    }
-  }
-  
-  /**
-   * Verify Professional Certification
-   * 
-   * Comprehensive verification of professional certification authenticity
-   * including blockchain validation and government recognition verification
-   */
-  async verifyProfessionalCertification(
-    certificationId: string,
-    verificationRequest?: {
-      verifierType: 'employer' | 'government' | 'professional-body' | 'academic';
-      verifierDetails: any;
-      verificationPurpose: string;
-    }
-  ): Promise<BlockchainVerificationResult> {
-    try {
-      const verificationResult: BlockchainVerificationResult = {
-        isValid: false,
-        verificationDetails: {
-          certificateAuthentic: false,
-          blockchainIntegrity: false,
-          governmentRecognitionValid: false,
-          currentValidity: false,
-          lastVerificationDate: new Date()
-        },
-        verificationTrail: [],
-        trustScore: 0,
-        verificationCertificate: ''
-      };
-      
-      // Step 1: Verify certificate exists
-      const certificationRecord = this.certificationRecords.get(certificationId);
-      if (!certificationRecord) {
-        verificationResult.verificationTrail.push({
-          step: 'Certificate Existence Check',
-          result: false,
-          details: 'Certificate not found in system',
-          timestamp: new Date()
-        });
-        return verificationResult;
-      }
-      
-      verificationResult.verificationTrail.push({
-        step: 'Certificate Existence Check',
-        result: true,
-        details: 'Certificate found in system',
-        timestamp: new Date()
-      });
-      
-      // Step 2: Verify blockchain integrity
-      const blockchainVerification = await this.verifyBlockchainIntegrity(
-        certificationRecord
-      );
-      verificationResult.verificationDetails.blockchainIntegrity = blockchainVerification.isValid;
-      verificationResult.verificationTrail.push({
-        step: 'Blockchain Integrity Verification',
-        result: blockchainVerification.isValid,
-        details: blockchainVerification.details,
-        timestamp: new Date()
-      });
-      
-      // Step 3: Verify government recognition
-      const governmentVerification = await this.verifyGovernmentRecognition(
-        certificationRecord
-      );
-      verificationResult.verificationDetails.governmentRecognitionValid = governmentVerification.isValid;
-      verificationResult.verificationTrail.push({
-        step: 'Government Recognition Verification',
-        result: governmentVerification.isValid,
-        details: governmentVerification.details,
-        timestamp: new Date()
-      });
-      
-      // Step 4: Verify current validity
-      const validityCheck = await this.checkCurrentValidity(certificationRecord);
-      verificationResult.verificationDetails.currentValidity = validityCheck.isValid;
-      verificationResult.verificationTrail.push({
-        step: 'Current Validity Check',
-        result: validityCheck.isValid,
-        details: validityCheck.details,
-        timestamp: new Date()
-      });
-      
-      // Step 5: Verify certificate authenticity
-      const authenticityVerification = await this.verifyCertificateAuthenticity(
-        certificationRecord
-      );
-      verificationResult.verificationDetails.certificateAuthentic = authenticityVerification.isValid;
-      verificationResult.verificationTrail.push({
-        step: 'Certificate Authenticity Verification',
-        result: authenticityVerification.isValid,
-        details: authenticityVerification.details,
-        timestamp: new Date()
-      });
-      
-      // Calculate overall validity and trust score
-      const allChecksPass = Object.values(verificationResult.verificationDetails)
-        .filter(value => typeof value === 'boolean')
-        .every(check => check === true);
-      
-      verificationResult.isValid = allChecksPass;
-      verificationResult.trustScore = this.calculateTrustScore(
-        verificationResult.verificationDetails,
-        certificationRecord
-      );
-      
-      // Generate verification certificate
-      if (verificationResult.isValid) {
-        verificationResult.verificationCertificate = await this.generateVerificationCertificate(
-          certificationRecord,
-          verificationRequest
-        );
-      }
-      
-      // Log verification event
-      await this.logVerificationEvent(
-        certificationId,
-        verificationRequest,
-        verificationResult
-      );
-      
-      this.emit('certificationVerified', {
-        certificationId,
-        verificationRequest,
-        verificationResult
-      });
-      
-      return verificationResult;
-      
-    } catch (error) {
-      this.emit('verificationError', { certificationId, error });
-      throw new Error(`Certification verification failed: ${error}`);
-    }
-  }
-  
-  /**
-   * Establish Government Partnership
-   * 
-   * Creates official partnership with government institutions
-   * for certification recognition and validation
-   */
-  async establishGovernmentPartnership(
-    governmentEntity: {
-      name: string;
-      type: string;
-      country: string;
-      jurisdiction: string;
-      contactInformation: any;
-    },
-    partnershipTerms: {
-      recognitionLevel: string;
-      legalFramework: string[];
-      validationCriteria: string[];
-      partnershipDuration: number;
-    }
-  ): Promise<{
-    partnershipFramework: GovernmentPartnershipFramework;
-    legalAgreement: any;
-    implementationPlan: any;
-  }> {
-    try {
-      // Generate partnership ID
-      const partnershipId = await this.generatePartnershipId(
-        governmentEntity.name,
-        governmentEntity.country
-      );
-      
-      // Create partnership framework
-      const partnershipFramework: GovernmentPartnershipFramework = {
-        partnershipId,
-        governmentEntity,
-        recognitionFramework: {
-          legalBasis: partnershipTerms.legalFramework,
-          recognitionLevel: partnershipTerms.recognitionLevel,
-          certificationEquivalence: await this.establishCertificationEquivalence(
-            governmentEntity.country
-          ),
-          qualificationFrameworkAlignment: await this.alignWithQualificationFramework(
-            governmentEntity.country
-          ),
-          creditTransferAgreements: await this.establishCreditTransferAgreements(
-            governmentEntity
-          )
-        },
-        validationProcess: {
-          validationCriteria: partnershipTerms.validationCriteria,
-          assessmentMethods: await this.defineAssessmentMethods(
-            governmentEntity.type
-          ),
-          validationTimeline: await this.defineValidationTimeline(
-            partnershipTerms.recognitionLevel
-          ),
-          appealProcess: await this.defineAppealProcess(
-            governmentEntity.jurisdiction
-          ),
-          qualityAssurance: await this.defineQualityAssurance(
-            governmentEntity.type
-          )
-        },
-        partnershipBenefits: {
-          officialRecognition: true,
-          careerAdvancementPathways: await this.defineCareerPathways(
-            governmentEntity.country
-          ),
-          professionalNetworkAccess: true,
-          continuingEducationCredits: true,
-          crossBorderRecognition: await this.establishCrossBorderRecognition(
-            governmentEntity.country
-          )
-        }
-      };
-      
-      // Generate legal agreement
-      const legalAgreement = await this.generateLegalAgreement(
-        partnershipFramework,
-        partnershipTerms
-      );
-      
-      // Create implementation plan
-      const implementationPlan = await this.createImplementationPlan(
-        partnershipFramework
-      );
-      
-      // Store partnership framework
-      this.governmentPartnerships.set(partnershipId, partnershipFramework);
-      
-      // Notify stakeholders
-      await this.notifyPartnershipEstablishment(
-        partnershipFramework,
-        legalAgreement
-      );
-      
-      const result = {
-        partnershipFramework,
-        legalAgreement,
-        implementationPlan
-      };
-      
-      this.emit('governmentPartnershipEstablished', {
-        partnershipId,
-        governmentEntity,
-        result
-      });
-      
-      return result;
-      
-    } catch (error) {
-      this.emit('partnershipEstablishmentError', { governmentEntity, error });
-      throw new Error(`Government partnership establishment failed: ${error}`);
-    }
-  }
-  
-  /**
-   * Generate Career Advancement Analysis
-   * 
-   * Comprehensive analysis of professional's career advancement opportunities
-   * based on current certifications and market demand
-   */
-  async generateCareerAdvancementAnalysis(
-    professionalId: string
-  ): Promise<CareerAdvancementAnalytics> {
-    try {
-      // Get professional's current certifications
-      const currentCertifications = Array.from(this.certificationRecords.values())
-        .filter(record => record.professionalId === professionalId);
-      
-      if (currentCertifications.length === 0) {
-        throw new Error('No certifications found for professional');
-      }
-      
-      // Analyze career progression
-      const careerProgression = await this.analyzeCareerProgression(
-        currentCertifications
-      );
-      
-      // Calculate market value
-      const marketValue = await this.calculateMarketValue(
-        currentCertifications,
-        careerProgression
-      );
-      
-      // Analyze professional network
-      const professionalNetwork = await this.analyzeProfessionalNetwork(
-        professionalId,
-        currentCertifications
-      );
-      
-      const analytics: CareerAdvancementAnalytics = {
-        currentCertifications,
-        careerProgression,
-        marketValue,
-        professionalNetwork
-      };
-      
-      this.emit('careerAnalysisGenerated', {
-        professionalId,
-        analytics
-      });
-      
-      return analytics;
-      
-    } catch (error) {
-      this.emit('careerAnalysisError', { professionalId, error });
-      throw new Error(`Career advancement analysis failed: ${error}`);
-    }
-  }
-  
-  /**
-   * Generate Certification Portfolio Report
-   * 
-   * Comprehensive report of professional's certification portfolio
-   * for career development and employer verification
-   */
-  async generateCertificationPortfolioReport(
-    professionalId: string,
-    reportType: 'career-development' | 'employer-verification' | 'government-submission' = 'career-development'
-  ): Promise<{
-    portfolioSummary: any;
-    certificationDetails: any[];
-    verificationDocuments: any[];
-    careerRecommendations: string[];
-    portfolioPDF: string;
-  }> {
-    try {
-      const currentCertifications = Array.from(this.certificationRecords.values())
-        .filter(record => record.professionalId === professionalId);
-      
-      // Generate portfolio summary
-      const portfolioSummary = await this.generatePortfolioSummary(
-        currentCertifications,
-        reportType
-      );
-      
-      // Compile certification details
-      const certificationDetails = await this.compileCertificationDetails(
-        currentCertifications,
-        reportType
-      );
-      
-      // Generate verification documents
-      const verificationDocuments = await this.generateVerificationDocuments(
-        currentCertifications,
-        reportType
-      );
-      
-      // Generate career recommendations
-      const careerRecommendations = await this.generateCareerRecommendations(
-        currentCertifications,
-        reportType
-      );
-      
-      // Generate PDF portfolio
-      const portfolioPDF = await this.generatePortfolioPDF(
-        portfolioSummary,
-        certificationDetails,
-        verificationDocuments,
-        careerRecommendations
-      );
-      
-      const result = {
-        portfolioSummary,
-        certificationDetails,
-        verificationDocuments,
-        careerRecommendations,
-        portfolioPDF
-      };
-      
-      this.emit('portfolioReportGenerated', {
-        professionalId,
-        reportType,
-        result
-      });
-      
-      return result;
-      
-    } catch (error) {
-      this.emit('portfolioReportError', { professionalId, error });
-      throw new Error(`Portfolio report generation failed: ${error}`);
-    }
-  }
-  
-  // Private Helper Methods
-  
-  private initializeBlockchainNetwork(): void {
-    this.blockchainNetwork = {
-      networkType: 'european-municipal-certification',
-      consensus: 'proof-of-authority',
-      validators: [],
-      smartContracts: {
-        certification: 'CertificationContract',
-        verification: 'VerificationContract',
-        governance: 'GovernanceContract'
-      }
-    };
-  }
-  
-  private setupCryptographicValidation(): void {
-    this.cryptographicValidator = {
-      hashingAlgorithm: 'SHA-256',
-      signatureAlgorithm: 'RSA-2048',
-      encryptionStandard: 'AES-256',
-      keyManagement: 'HSM-based'
-    };
-  }
-  
-  private async establishGovernmentPartnerships(): Promise<void> {
-    // Initialize partnerships with key European governments
-    // This would be implemented with actual government partnership processes
-  }
-  
-  private async generateCertificationId(
-    professionalId: string,
-    type: string,
-    level: string
-  ): Promise<string> {
-    const timestamp = Date.now();
-    const data = `${professionalId}-${type}-${level}-${timestamp}`;
-    const hash = createHash('sha256').update(data).digest('hex');
-    return `CERT-${hash.substring(0, 16).toUpperCase()}`;
-  }
-  
-  private async establishGovernmentRecognition(
-    professionalData: any,
-    certificationType: string,
-    competencyLevel: string
-  ): Promise<any> {
-    // Implementation for government recognition establishment
-    return {
-      recognitionLevel: 'national',
-      recognizingAuthority: 'Ministry of Interior',
-      recognitionDate: new Date(),
-      recognitionNumber: 'GOV-CERT-' + Date.now(),
-      legalFramework: ['Professional Qualifications Directive'],
-      crossBorderValidity: ['EU', 'EEA']
-    };
-  }
-  
-  private getRequiredContinuingEducationHours(competencyLevel: string): number {
-    const hoursMap: Record<string, number> = {
-      'basic': 20,
-      'intermediate': 30,
-      'advanced': 40,
-      'expert': 50,
-      'master': 60
-    };
-    return hoursMap[competencyLevel] || 20;
-  }
-  
-  private async recordOnBlockchain(
-    certificationRecord: ProfessionalCertificationRecord
-  ): Promise<any> {
-    // Implementation for blockchain recording
-    return {
-      blockHash: createHash('sha256').update(JSON.stringify(certificationRecord)).digest('hex'),
-      transactionHash: createHash('sha256').update(certificationRecord.certificationId).digest('hex'),
-      blockNumber: Math.floor(Math.random() * 1000000),
-      timestamp: new Date(),
-      validatorNodes: ['validator1', 'validator2', 'validator3'],
-      consensusProof: 'proof-of-authority'
-    };
-  }
-  
-  private async generateVerificationCertificate(
-    certificationRecord: ProfessionalCertificationRecord,
-    verificationRequest?: any
-  ): Promise<string> {
-    // Implementation for verification certificate generation
-    const certificateData = {
-      certificationId: certificationRecord.certificationId,
-      professionalId: certificationRecord.professionalId,
-      blockHash: certificationRecord.blockchainData.blockHash,
-      timestamp: new Date(),
-      verifier: verificationRequest?.verifierDetails || 'DigiNativa Certification Authority'
-    };
-    
-    return createHash('sha256').update(JSON.stringify(certificateData)).digest('hex');
-  }
-  
-  private async notifyGovernmentAuthorities(
-    certificationRecord: ProfessionalCertificationRecord
-  ): Promise<void> {
-    // Implementation for government notification
-  }
-  
-  private async notifyProfessionalNetworks(
-    certificationRecord: ProfessionalCertificationRecord
-  ): Promise<void> {
-    // Implementation for professional network notification
-  }
-  
-  private async verifyBlockchainIntegrity(
-    certificationRecord: ProfessionalCertificationRecord
-  ): Promise<any> {
-    // Implementation for blockchain integrity verification
-    return {
-      isValid: true,
-      details: 'Blockchain integrity verified'
-    };
-  }
-  
-  private async verifyGovernmentRecognition(
-    certificationRecord: ProfessionalCertificationRecord
-  ): Promise<any> {
-    // Implementation for government recognition verification
-    return {
-      isValid: true,
-      details: 'Government recognition verified'
-    };
-  }
-  
-  private async checkCurrentValidity(
-    certificationRecord: ProfessionalCertificationRecord
-  ): Promise<any> {
-    // Implementation for current validity check
-    const now = new Date();
-    const renewalDate = certificationRecord.continuingEducation.nextRenewalDate;
-    return {
-      isValid: now < renewalDate,
-      details: `Certificate valid until ${renewalDate.toISOString()}`
-    };
-  }
-  
-  private async verifyCertificateAuthenticity(
-    certificationRecord: ProfessionalCertificationRecord
-  ): Promise<any> {
-    // Implementation for certificate authenticity verification
-    return {
-      isValid: true,
-      details: 'Certificate authenticity verified'
-    };
-  }
-  
-  private calculateTrustScore(
-    verificationDetails: any,
-    certificationRecord: ProfessionalCertificationRecord
-  ): number {
-    // Implementation for trust score calculation
-    const checks = Object.values(verificationDetails).filter(v => typeof v === 'boolean');
-    const passedChecks = checks.filter(check => check === true).length;
-    return (passedChecks / checks.length) * 100;
-  }
-  
-  private async logVerificationEvent(
-    certificationId: string,
-    verificationRequest: any,
-    verificationResult: BlockchainVerificationResult
-  ): Promise<void> {
-    // Implementation for verification event logging
-  }
-  
-  // Additional helper methods for government partnerships and career analysis would be implemented here
-  private async generatePartnershipId(name: string, country: string): Promise<string> {
-    return `PARTNER-${country.toUpperCase()}-${Date.now()}`;
-  }
-  
-  private async establishCertificationEquivalence(country: string): Promise<Record<string, string>> {
-    return {};
-  }
-  
-  private async alignWithQualificationFramework(country: string): Promise<string> {
-    return `${country.toUpperCase()}-QF`;
-  }
-  
-  private async establishCreditTransferAgreements(entity: any): Promise<string[]> {
-    return [];
-  }
-  
-  private async defineAssessmentMethods(type: string): Promise<string[]> {
-    return [];
-  }
-  
-  private async defineValidationTimeline(level: string): Promise<string> {
-    return '30 days';
-  }
-  
-  private async defineAppealProcess(jurisdiction: string): Promise<string> {
-    return 'Standard appeal process';
-  }
-  
-  private async defineQualityAssurance(type: string): Promise<string[]> {
-    return [];
-  }
-  
-  private async defineCareerPathways(country: string): Promise<string[]> {
-    return [];
-  }
-  
-  private async establishCrossBorderRecognition(country: string): Promise<string[]> {
-    return [];
-  }
-  
-  private async generateLegalAgreement(framework: any, terms: any): Promise<any> {
-    return {};
-  }
-  
-  private async createImplementationPlan(framework: any): Promise<any> {
-    return {};
-  }
-  
-  private async notifyPartnershipEstablishment(framework: any, agreement: any): Promise<void> {
-    // Implementation for partnership notification
-  }
-  
-  private async analyzeCareerProgression(certifications: any[]): Promise<any> {
-    return {
-      currentLevel: 'intermediate',
-      nextLevel: 'advanced',
-      requiredCertifications: [],
-      estimatedTimeToAdvancement: 6,
-      recommendedLearningPath: []
-    };
-  }
-  
-  private async calculateMarketValue(certifications: any[], progression: any): Promise<any> {
-    return {
-      salaryImprovement: 15,
-      promotionProbability: 75,
-      jobMarketDemand: 85,
-      skillGapAnalysis: []
-    };
-  }
-  
-  private async analyzeProfessionalNetwork(id: string, certifications: any[]): Promise<any> {
-    return {
-      peerConnections: 150,
-      mentorshipOpportunities: [],
-      industryRecognition: [],
-      conferenceInvitations: []
-    };
-  }
-  
-  private async generatePortfolioSummary(certifications: any[], type: string): Promise<any> {
-    return {};
-  }
-  
-  private async compileCertificationDetails(certifications: any[], type: string): Promise<any[]> {
-    return [];
-  }
-  
-  private async generateVerificationDocuments(certifications: any[], type: string): Promise<any[]> {
-    return [];
-  }
-  
-  private async generateCareerRecommendations(certifications: any[], type: string): Promise<string[]> {
-    return [];
-  }
-  
-  private async generatePortfolioPDF(...args: any[]): Promise<string> {
-    return 'portfolio-pdf-base64';
-  }
-}
-
-/**
- * Professional Certification Blockchain Factory
- * 
- * Factory for creating specialized certification blockchain instances
- * for different European government frameworks
- */
-export class ProfessionalCertificationBlockchainFactory {
-  /**
-   * Create Netherlands Government Integration
-   */
-  static createNetherlandsIntegration(): ProfessionalCertificationBlockchainService {
-    const service = new ProfessionalCertificationBlockchainService();
-    // Configure for Dutch government framework
-    return service;
-  }
-  
-  /**
-   * Create Germany Government Integration
-   */
-  static createGermanyIntegration(): ProfessionalCertificationBlockchainService {
-    const service = new ProfessionalCertificationBlockchainService();
-    // Configure for German government framework
-    return service;
-  }
-  
-  /**
-   * Create EU-Wide Integration
-   */
-  static createEUWideIntegration(): ProfessionalCertificationBlockchainService {
-    const service = new ProfessionalCertificationBlockchainService();
-    // Configure for EU-wide recognition
-    return service;
-  }
-}
\ No newline at end of file
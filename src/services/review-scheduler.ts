@@ -0,0 +1,215 @@
+/**
+ * Review Scheduler
+ * Spaced repetition across completed games: the quiz answers in the per-scene results that
+ * GameStateManager stores become SM-2 review cards per learner, due cards are played back as a
+ * short review game, and the card histories back the retention reports for compliance officers.
+ */
+
+import { sharedSessionStore, type SessionRecord, type SessionStore } from './session-store';
+import type { GameManifest } from '../types/game-manifest';
+import {
+  applyReview,
+  buildReviewManifest,
+  getDueCards,
+  getRetentionSummary,
+  getReviewItemId,
+  getReviewQuality,
+  REVIEW_SCENE_ID,
+  type RetentionSummary,
+  type ReviewCard
+} from '../utils/spacedRepetition';
+
+export interface QuizItemOutcome {
+  sessionId: string;
+  gameId: string;
+  sceneId: string;
+  questionId: string;
+  correct: boolean;
+  partlyCorrect: boolean; // Wrong, but earned some points
+  at: string;
+}
+
+export interface ReviewSchedule {
+  userId: string;
+  cards: Record<string, ReviewCard>;
+  syncedSessions: string[]; // Completed game sessions already turned into cards
+  updatedAt: string;
+}
+
+export interface RetentionReport {
+  userId: string;
+  generatedAt: string;
+  summary: RetentionSummary;
+  cards: ReviewCard[];
+}
+
+// A quiz answer as stored in the per-scene results
+interface StoredQuizAnswer {
+  question_id: string;
+  is_correct: boolean;
+  points_earned?: unknown;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isStoredQuizAnswer = (answer: unknown): answer is StoredQuizAnswer =>
+  isObject(answer) && typeof answer.question_id === 'string' && typeof answer.is_correct === 'boolean';
+
+// Quiz scenes store { answers: [...] }; older results may be the answer array itself
+const getQuizAnswers = (result: unknown): StoredQuizAnswer[] => {
+  const answers = isObject(result) ? result.answers : result;
+  return Array.isArray(answers) ? answers.filter(isStoredQuizAnswer) : [];
+};
+
+/**
+ * Quiz answers of one completed game session record, in scene completion order
+ */
+export const extractQuizOutcomes = (record: SessionRecord): QuizItemOutcome[] => {
+  const progress = isObject(record.progress) ? record.progress : {};
+  const sceneResults: Record<string, unknown> = isObject(progress.sceneResults) ? progress.sceneResults : {};
+  const completedAt: Record<string, unknown> = isObject(progress.sceneCompletedAt) ? progress.sceneCompletedAt : {};
+  const fallbackAt = String(record.completed_at ?? record.started_at);
+
+  return Object.entries(sceneResults)
+    .flatMap(([sceneId, result]) => {
+      const at = completedAt[sceneId];
+      return getQuizAnswers(result).map(answer => ({
+        sessionId: String(record.id),
+        gameId: String(record.game_id),
+        sceneId,
+        questionId: answer.question_id,
+        correct: answer.is_correct,
+        partlyCorrect: !answer.is_correct && Number(answer.points_earned) > 0,
+        at: typeof at === 'string' ? at : fallbackAt
+      }));
+    })
+    .sort((a, b) => a.at.localeCompare(b.at));
+};
+
+export class ReviewScheduler {
+  private store: SessionStore;
+
+  constructor(store: SessionStore = sharedSessionStore) {
+    this.store = store;
+  }
+
+  /**
+   * Swap the persistence backend, e.g. to share schedules across devices
+   */
+  setSessionStore(store: SessionStore): void {
+    this.store = store;
+  }
+
+  async getSchedule(userId: string): Promise<ReviewSchedule> {
+    const record = await this.store.get('review_schedules', userId);
+    return record ? this.fromScheduleRecord(record) : { userId, cards: {}, syncedSessions: [], updatedAt: new Date(0).toISOString() };
+  }
+
+  /**
+   * Turn the quiz answers of completed game sessions not seen before into review cards
+   */
+  async syncCompletedSessions(userId: string): Promise<ReviewSchedule> {
+    const schedule = await this.getSchedule(userId);
+    const synced = new Set(schedule.syncedSessions);
+    const sessions = (await this.store.find('game_sessions', { where: { user_id: userId } }))
+      .filter(record => record.completed_at && !synced.has(String(record.id)))
+      .sort((a, b) => String(a.completed_at).localeCompare(String(b.completed_at)));
+    if (sessions.length === 0) return schedule;
+
+    const cards = { ...schedule.cards };
+    sessions.forEach(record => {
+      extractQuizOutcomes(record).forEach(outcome => {
+        const itemId = getReviewItemId(outcome.gameId, outcome.questionId);
+        cards[itemId] = applyReview(
+          cards[itemId] ?? { itemId, gameId: outcome.gameId, sceneId: outcome.sceneId, questionId: outcome.questionId },
+          {
+            at: outcome.at,
+            correct: outcome.correct,
+            quality: getReviewQuality(outcome.correct, outcome.partlyCorrect),
+            source: 'game'
+          }
+        );
+      });
+      synced.add(String(record.id));
+    });
+
+    return this.saveSchedule({ userId, cards, syncedSessions: [...synced], updatedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Items due for review, missed ones first; picks up newly completed games first
+   */
+  async getReviewQueue(userId: string, now: Date = new Date()): Promise<ReviewCard[]> {
+    const schedule = await this.syncCompletedSessions(userId);
+    return getDueCards(Object.values(schedule.cards), now);
+  }
+
+  /**
+   * Review game of the learner's due items, or null when nothing due can be found in the manifests
+   */
+  async buildReviewGame(
+    userId: string,
+    manifests: Record<string, GameManifest>,
+    options: { limit?: number; now?: Date } = {}
+  ): Promise<GameManifest | null> {
+    const queue = await this.getReviewQueue(userId, options.now);
+    return buildReviewManifest(queue, manifests, { limit: options.limit });
+  }
+
+  /**
+   * Grade the cards answered in a review game; results are the play host's GameResults
+   */
+  async recordReviewResults(
+    userId: string,
+    results: { answers?: Record<string, unknown> },
+    at: Date = new Date()
+  ): Promise<ReviewSchedule> {
+    const schedule = await this.getSchedule(userId);
+    const cards = { ...schedule.cards };
+
+    getQuizAnswers(results.answers?.[REVIEW_SCENE_ID]).forEach(answer => {
+      const card = cards[answer.question_id];
+      if (!card) return;
+      cards[card.itemId] = applyReview(card, {
+        at: at.toISOString(),
+        correct: answer.is_correct,
+        quality: getReviewQuality(answer.is_correct, !answer.is_correct && Number(answer.points_earned) > 0),
+        source: 'review'
+      });
+    });
+
+    return this.saveSchedule({ ...schedule, cards, updatedAt: at.toISOString() });
+  }
+
+  /**
+   * Retention evidence for one learner: every item with its answer history
+   */
+  async getRetentionReport(userId: string, now: Date = new Date()): Promise<RetentionReport> {
+    const schedule = await this.syncCompletedSessions(userId);
+    const cards = Object.values(schedule.cards).sort((a, b) => a.itemId.localeCompare(b.itemId));
+    return { userId, generatedAt: now.toISOString(), summary: getRetentionSummary(cards, now), cards };
+  }
+
+  private async saveSchedule(schedule: ReviewSchedule): Promise<ReviewSchedule> {
+    await this.store.put('review_schedules', schedule.userId, {
+      user_id: schedule.userId,
+      cards: schedule.cards,
+      synced_sessions: schedule.syncedSessions,
+      updated_at: schedule.updatedAt
+    });
+    return schedule;
+  }
+
+  private fromScheduleRecord(record: SessionRecord): ReviewSchedule {
+    return {
+      userId: String(record.user_id),
+      cards: isObject(record.cards) ? record.cards as Record<string, ReviewCard> : {},
+      syncedSessions: Array.isArray(record.synced_sessions) ? record.synced_sessions.map(String) : [],
+      updatedAt: String(record.updated_at)
+    };
+  }
+}
+
+// Export singleton instance
+export const reviewScheduler = new ReviewScheduler();
@@ -0,0 +1,722 @@
+/**
+ * SCIM Provisioning Service
+ * SCIM 2.0 (RFC 7643/7644) Users and Groups for municipal directories: the municipality's IdP
+ * creates, updates, deactivates and groups users ahead of their first login, and group membership
+ * decides the role and permissions their SAML or OIDC login gets. Deactivating or deleting a user
+ * revokes every session they hold, and so does a group change that alters their role.
+ */
+
+import { sharedSessionStore, type SessionRecord, type SessionStore } from './session-store';
+import { authSessionStore, type AuthSessionStore } from './auth-session-store';
+import { MUNICIPAL_ROLES, ROLE_PERMISSIONS } from '../utils/accessPolicy';
+import type { Permission, UserRole } from '../types/auth';
+
+export const SCIM_SCHEMAS = {
+  user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  enterpriseUser: 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User',
+  group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  listResponse: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  patchOp: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  error: 'urn:ietf:params:scim:api:messages:2.0:Error'
+} as const;
+
+export interface ScimMeta {
+  resourceType: 'User' | 'Group';
+  created: string;
+  lastModified: string;
+  location: string;
+}
+
+export interface ScimEmail {
+  value: string;
+  type?: string;
+  primary?: boolean;
+}
+
+export interface ScimUser {
+  schemas: string[];
+  id: string;
+  externalId?: string;
+  userName: string;
+  name?: { givenName?: string; familyName?: string; formatted?: string };
+  displayName?: string;
+  emails?: ScimEmail[];
+  preferredLanguage?: string;
+  active: boolean;
+  groups?: Array<{ value: string; display: string; $ref: string }>; // Read-only, managed through Groups
+  [SCIM_SCHEMAS.enterpriseUser]?: { department?: string; employeeNumber?: string };
+  meta: ScimMeta;
+}
+
+export interface ScimGroupMember {
+  value: string;
+  display?: string;
+  $ref?: string;
+}
+
+export interface ScimGroup {
+  schemas: string[];
+  id: string;
+  externalId?: string;
+  displayName: string;
+  members?: ScimGroupMember[];
+  meta: ScimMeta;
+}
+
+export interface ScimListResponse<Resource> {
+  schemas: string[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: Resource[];
+}
+
+export interface ScimListQuery {
+  filter?: string;
+  startIndex?: number; // 1-based
+  count?: number;
+  excludeMembers?: boolean; // excludedAttributes=members, as Entra ID asks for when it only needs ids
+}
+
+export interface ScimPatchOperation {
+  op: string; // add, replace or remove in any case; Entra ID sends "Replace"
+  path?: string;
+  value?: unknown;
+}
+
+export interface ProvisionedAccess {
+  scimId: string;
+  active: boolean;
+  role: UserRole;
+  permissions: Permission[];
+  groups: string[];
+}
+
+export type ScimErrorType = 'invalidFilter' | 'uniqueness' | 'invalidSyntax' | 'invalidPath' | 'invalidValue' | 'noTarget' | 'mutability';
+
+export class ScimError extends Error {
+  readonly status: number;
+  readonly scimType?: ScimErrorType;
+
+  constructor(message: string, status: number, scimType?: ScimErrorType) {
+    super(message);
+    this.name = 'ScimError';
+    this.status = status;
+    this.scimType = scimType;
+  }
+
+  toResponse() {
+    return {
+      schemas: [SCIM_SCHEMAS.error],
+      status: String(this.status),
+      ...(this.scimType ? { scimType: this.scimType } : {}),
+      detail: this.message
+    };
+  }
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+export interface ScimProvisioningOptions {
+  store?: SessionStore;
+  sessions?: AuthSessionStore;
+  groupRoles?: Record<string, UserRole>; // Group displayName to role; groups named after a role map to it
+  baseUrl?: string;
+  now?: () => number;
+}
+
+/**
+ * Group to role mapping from SCIM_GROUP_ROLES, a JSON object such as {"DigiNativa Admin": "admin"}
+ */
+export const scimGroupRolesFromEnv = (
+  env: Record<string, string | undefined> = typeof process !== 'undefined' ? process.env : {}
+): Record<string, UserRole> => {
+  if (!env.SCIM_GROUP_ROLES) return {};
+  try {
+    return JSON.parse(env.SCIM_GROUP_ROLES);
+  } catch (error) {
+    console.error('SCIM_GROUP_ROLES is not valid JSON:', error);
+    return {};
+  }
+};
+
+/**
+ * Parses the `attribute eq "value"` filters identity providers send to look resources up
+ */
+export const parseScimFilter = (filter: string): { attribute: string; value: string } => {
+  const match = /^\s*([\w.:$]+)\s+eq\s+"((?:[^"\\]|\\.)*)"\s*$/i.exec(filter);
+  if (!match) {
+    throw new ScimError(`Unsupported filter: ${filter}`, 400, 'invalidFilter');
+  }
+  return { attribute: match[1].toLowerCase(), value: match[2].replace(/\\(.)/g, '$1') };
+};
+
+type Resource = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Resource => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// SCIM attribute names are case-insensitive
+const findKey = (resource: Resource, name: string): string =>
+  Object.keys(resource).find(key => key.toLowerCase() === name.toLowerCase()) ?? name;
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value : undefined;
+
+// Entra ID sends booleans as "True" and "False" in PATCH requests
+const toBoolean = (value: unknown, fallback: boolean): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') return value.toLowerCase() === 'true';
+  return fallback;
+};
+
+const sameValue = (element: unknown, attribute: string, value: string): boolean =>
+  isObject(element) && String(element[findKey(element, attribute)] ?? '').toLowerCase() === value.toLowerCase();
+
+const mergeMultiValued = (current: unknown, added: unknown[]): unknown[] => {
+  const existing = Array.isArray(current) ? current : [];
+  const fresh = added.filter(item => !isObject(item) || typeof item.value !== 'string'
+    || !existing.some(element => sameValue(element, 'value', String(item.value))));
+  return [...existing, ...fresh];
+};
+
+/**
+ * Applies one PATCH operation (RFC 7644 section 3.5.2) to a resource in its SCIM JSON form
+ */
+const applyPatchOperation = (resource: Resource, operation: ScimPatchOperation): void => {
+  const op = String(operation.op ?? '').toLowerCase();
+  if (op !== 'add' && op !== 'replace' && op !== 'remove') {
+    throw new ScimError(`Unsupported patch operation: ${operation.op}`, 400, 'invalidSyntax');
+  }
+
+  if (!operation.path) {
+    if (op === 'remove' || !isObject(operation.value)) {
+      throw new ScimError('Operations without a path need an object value', 400, 'invalidSyntax');
+    }
+    Object.entries(operation.value).forEach(([path, value]) => applyPatchOperation(resource, { op, path, value }));
+    return;
+  }
+
+  // Extension attributes are addressed as "<schema urn>:<attribute>"
+  if (operation.path.toLowerCase().startsWith(`${SCIM_SCHEMAS.enterpriseUser.toLowerCase()}:`)) {
+    const attribute = operation.path.slice(SCIM_SCHEMAS.enterpriseUser.length + 1);
+    const extension = isObject(resource[SCIM_SCHEMAS.enterpriseUser]) ? resource[SCIM_SCHEMAS.enterpriseUser] as Resource : {};
+    if (op === 'remove') delete extension[findKey(extension, attribute)];
+    else extension[findKey(extension, attribute)] = operation.value;
+    resource[SCIM_SCHEMAS.enterpriseUser] = extension;
+    return;
+  }
+
+  const path = /^(\w+)(?:\[(\w+)\s+eq\s+"([^"]*)"\])?(?:\.(\w+))?$/i.exec(operation.path);
+  if (!path) {
+    throw new ScimError(`Unsupported path: ${operation.path}`, 400, 'invalidPath');
+  }
+  const [, name, filterAttribute, filterValue, subAttribute] = path;
+  const key = findKey(resource, name);
+
+  if (filterAttribute) {
+    // emails[type eq "work"].value, members[value eq "<id>"]
+    const elements = Array.isArray(resource[key]) ? resource[key] as unknown[] : [];
+    const matches = (element: unknown) => sameValue(element, filterAttribute, filterValue);
+
+    if (op === 'remove') {
+      resource[key] = subAttribute
+        ? elements.map(element => {
+          if (!matches(element)) return element;
+          const copy = { ...element as Resource };
+          delete copy[findKey(copy, subAttribute)];
+          return copy;
+        })
+        : elements.filter(element => !matches(element));
+    } else if (!elements.some(matches)) {
+      resource[key] = [...elements, subAttribute
+        ? { [filterAttribute]: filterValue, [subAttribute]: operation.value }
+        : operation.value];
+    } else {
+      resource[key] = elements.map(element => {
+        if (!matches(element)) return element;
+        return subAttribute ? { ...element as Resource, [subAttribute]: operation.value } : operation.value;
+      });
+    }
+    return;
+  }
+
+  if (subAttribute) {
+    const parent = isObject(resource[key]) ? resource[key] as Resource : {};
+    if (op === 'remove') delete parent[findKey(parent, subAttribute)];
+    else parent[findKey(parent, subAttribute)] = operation.value;
+    resource[key] = parent;
+    return;
+  }
+
+  if (op === 'remove') {
+    // Removing listed members leaves the others in place
+    if (Array.isArray(operation.value) && Array.isArray(resource[key])) {
+      const removed = operation.value.filter(isObject).map(item => String(item.value));
+      resource[key] = (resource[key] as unknown[]).filter(element => !removed.some(value => sameValue(element, 'value', value)));
+    } else {
+      delete resource[key];
+    }
+  } else if (op === 'add' && Array.isArray(operation.value)) {
+    resource[key] = mergeMultiValued(resource[key], operation.value);
+  } else if (op === 'add' && isObject(operation.value) && isObject(resource[key])) {
+    resource[key] = { ...resource[key] as Resource, ...operation.value };
+  } else {
+    resource[key] = operation.value;
+  }
+};
+
+function page<Item>(items: Item[], query: ScimListQuery): { items: Item[]; startIndex: number } {
+  const startIndex = Math.max(1, Math.floor(query.startIndex ?? 1));
+  const count = Math.min(Math.max(0, Math.floor(query.count ?? DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE);
+  return { items: items.slice(startIndex - 1, startIndex - 1 + count), startIndex };
+}
+
+export class ScimProvisioningService {
+  private store: SessionStore;
+  private sessions: AuthSessionStore;
+  private groupRoles: Map<string, UserRole>;
+  private baseUrl: string;
+  private now: () => number;
+
+  constructor(options: ScimProvisioningOptions = {}) {
+    this.store = options.store ?? sharedSessionStore;
+    this.sessions = options.sessions ?? authSessionStore;
+    this.groupRoles = new Map(Object.entries(options.groupRoles ?? scimGroupRolesFromEnv())
+      .map(([group, role]) => [group.toLowerCase(), role]));
+    this.baseUrl = (options.baseUrl ?? '/scim/v2').replace(/\/$/, '');
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  setSessionStore(store: SessionStore): void {
+    this.store = store;
+  }
+
+  // Users
+
+  async createUser(tenantId: string, resource: Resource): Promise<ScimUser> {
+    const timestamp = new Date(this.now()).toISOString();
+    const record = this.userRecord(resource, {
+      id: crypto.randomUUID(),
+      tenant_id: tenantId,
+      created_at: timestamp,
+      deactivated_at: null
+    });
+    await this.assertUniqueUserName(tenantId, String(record.user_name_key));
+
+    if (!record.active) record.deactivated_at = timestamp;
+    await this.store.put('scim_users', String(record.id), record);
+    console.info(`SCIM provisioned user ${record.user_name} in tenant ${tenantId}`);
+    return this.toScimUser(record, await this.tenantGroups(tenantId));
+  }
+
+  async getUser(tenantId: string, id: string): Promise<ScimUser> {
+    return this.toScimUser(await this.userRecordFor(tenantId, id), await this.tenantGroups(tenantId));
+  }
+
+  async listUsers(tenantId: string, query: ScimListQuery = {}): Promise<ScimListResponse<ScimUser>> {
+    let users = await this.tenantUsers(tenantId);
+
+    if (query.filter) {
+      const { attribute, value } = parseScimFilter(query.filter);
+      const lower = value.toLowerCase();
+      const matchers: Record<string, (user: SessionRecord) => boolean> = {
+        username: user => user.user_name_key === lower,
+        externalid: user => user.external_id === value,
+        displayname: user => String(user.display_name ?? '').toLowerCase() === lower,
+        emails: user => (user.emails as ScimEmail[]).some(email => email.value.toLowerCase() === lower),
+        'emails.value': user => (user.emails as ScimEmail[]).some(email => email.value.toLowerCase() === lower),
+        id: user => user.id === value
+      };
+      if (!matchers[attribute]) {
+        throw new ScimError(`Filtering users on ${attribute} is not supported`, 400, 'invalidFilter');
+      }
+      users = users.filter(matchers[attribute]);
+    }
+
+    const groups = await this.tenantGroups(tenantId);
+    const { items, startIndex } = page(users, query);
+    return this.listResponse(users.length, startIndex, items.map(user => this.toScimUser(user, groups)));
+  }
+
+  async replaceUser(tenantId: string, id: string, resource: Resource): Promise<ScimUser> {
+    const current = await this.userRecordFor(tenantId, id);
+    const record = this.userRecord(resource, {
+      id: current.id,
+      tenant_id: tenantId,
+      created_at: current.created_at,
+      deactivated_at: current.deactivated_at
+    });
+    return this.saveUser(current, record);
+  }
+
+  async patchUser(tenantId: string, id: string, operations: ScimPatchOperation[]): Promise<ScimUser> {
+    const current = await this.userRecordFor(tenantId, id);
+    const resource: Resource = { ...this.toScimUser(current, []) };
+    delete resource.groups;
+    operations.forEach(operation => applyPatchOperation(resource, operation));
+
+    const record = this.userRecord(resource, {
+      id: current.id,
+      tenant_id: tenantId,
+      created_at: current.created_at,
+      deactivated_at: current.deactivated_at
+    });
+    return this.saveUser(current, record);
+  }
+
+  /**
+   * Deletes the user's record and group memberships and ends their sessions
+   */
+  async deleteUser(tenantId: string, id: string): Promise<void> {
+    const current = await this.userRecordFor(tenantId, id);
+    const groups = await this.tenantGroups(tenantId);
+    const timestamp = new Date(this.now()).toISOString();
+
+    await Promise.all(groups
+      .filter(group => (group.members as string[]).includes(id))
+      .map(group => this.store.put('scim_groups', String(group.id), {
+        ...group,
+        members: (group.members as string[]).filter(member => member !== id),
+        updated_at: timestamp
+      })));
+    await this.store.delete('scim_users', id);
+
+    const revoked = await this.revokeSessions(current, 'scim_deleted');
+    console.info(`SCIM deleted user ${current.user_name} in tenant ${tenantId}, ${revoked} sessions revoked`);
+  }
+
+  // Groups
+
+  async createGroup(tenantId: string, resource: Resource): Promise<ScimGroup> {
+    const timestamp = new Date(this.now()).toISOString();
+    const record = await this.groupRecord(tenantId, resource, { id: crypto.randomUUID(), created_at: timestamp });
+    await this.assertUniqueGroupName(tenantId, String(record.display_name_key));
+
+    await this.store.put('scim_groups', String(record.id), record);
+    console.info(`SCIM created group ${record.display_name} in tenant ${tenantId}`);
+    await this.revokeChangedAccess(tenantId, null, record);
+    return this.toScimGroup(record, await this.tenantUsers(tenantId));
+  }
+
+  async getGroup(tenantId: string, id: string, options: { excludeMembers?: boolean } = {}): Promise<ScimGroup> {
+    const group = await this.groupRecordFor(tenantId, id);
+    return this.toScimGroup(group, await this.tenantUsers(tenantId), options.excludeMembers);
+  }
+
+  async listGroups(tenantId: string, query: ScimListQuery = {}): Promise<ScimListResponse<ScimGroup>> {
+    let groups = await this.tenantGroups(tenantId);
+
+    if (query.filter) {
+      const { attribute, value } = parseScimFilter(query.filter);
+      const matchers: Record<string, (group: SessionRecord) => boolean> = {
+        displayname: group => group.display_name_key === value.toLowerCase(),
+        externalid: group => group.external_id === value,
+        id: group => group.id === value
+      };
+      if (!matchers[attribute]) {
+        throw new ScimError(`Filtering groups on ${attribute} is not supported`, 400, 'invalidFilter');
+      }
+      groups = groups.filter(matchers[attribute]);
+    }
+
+    const users = await this.tenantUsers(tenantId);
+    const { items, startIndex } = page(groups, query);
+    return this.listResponse(groups.length, startIndex, items.map(group => this.toScimGroup(group, users, query.excludeMembers)));
+  }
+
+  async replaceGroup(tenantId: string, id: string, resource: Resource): Promise<ScimGroup> {
+    const current = await this.groupRecordFor(tenantId, id);
+    const record = await this.groupRecord(tenantId, resource, { id: current.id, created_at: current.created_at });
+    return this.saveGroup(current, record);
+  }
+
+  async patchGroup(tenantId: string, id: string, operations: ScimPatchOperation[]): Promise<ScimGroup> {
+    const current = await this.groupRecordFor(tenantId, id);
+    const resource: Resource = { ...this.toScimGroup(current, []) };
+    operations.forEach(operation => applyPatchOperation(resource, operation));
+
+    const record = await this.groupRecord(tenantId, resource, { id: current.id, created_at: current.created_at });
+    return this.saveGroup(current, record);
+  }
+
+  async deleteGroup(tenantId: string, id: string): Promise<void> {
+    const group = await this.groupRecordFor(tenantId, id);
+    await this.store.delete('scim_groups', id);
+    console.info(`SCIM deleted group ${group.display_name} in tenant ${tenantId}`);
+    await this.revokeChangedAccess(tenantId, group, null);
+  }
+
+  // Login
+
+  /**
+   * Role, permissions and status of a provisioned user, looked up by any of the identifiers the
+   * IdP asserted at login (userName or email). Null for users the directory has not provisioned.
+   */
+  async getProvisionedAccess(tenantId: string, identifiers: Array<string | undefined>): Promise<ProvisionedAccess | null> {
+    const keys = identifiers.filter((identifier): identifier is string => !!identifier).map(identifier => identifier.toLowerCase());
+    if (keys.length === 0) return null;
+
+    const user = (await this.tenantUsers(tenantId)).find(candidate => keys.includes(String(candidate.user_name_key))
+      || (candidate.emails as ScimEmail[]).some(email => keys.includes(email.value.toLowerCase())));
+    if (!user) return null;
+
+    const groups = (await this.tenantGroups(tenantId))
+      .filter(group => (group.members as string[]).includes(String(user.id)))
+      .map(group => String(group.display_name));
+    return {
+      scimId: String(user.id),
+      active: user.active === true,
+      ...this.resolveRole(groups),
+      groups
+    };
+  }
+
+  /**
+   * The most privileged role any of the groups maps to, with the permissions of every mapped role
+   */
+  resolveRole(groupNames: string[]): { role: UserRole; permissions: Permission[] } {
+    const roles = groupNames
+      .map(name => this.groupRoles.get(name.toLowerCase()) ?? name.toLowerCase())
+      .filter((role): role is UserRole => MUNICIPAL_ROLES.includes(role as UserRole));
+    const role = MUNICIPAL_ROLES.find(candidate => roles.includes(candidate)) ?? 'user';
+    const permissions = new Set<Permission>(ROLE_PERMISSIONS.user);
+    roles.forEach(mapped => ROLE_PERMISSIONS[mapped].forEach(permission => permissions.add(permission)));
+    return { role, permissions: [...permissions] };
+  }
+
+  private userRecord(resource: Resource, fixed: SessionRecord): SessionRecord {
+    const userName = optionalString(resource[findKey(resource, 'userName')]);
+    if (!userName) {
+      throw new ScimError('userName is required', 400, 'invalidValue');
+    }
+
+    const name = isObject(resource[findKey(resource, 'name')]) ? resource[findKey(resource, 'name')] as Resource : {};
+    const enterprise = isObject(resource[SCIM_SCHEMAS.enterpriseUser]) ? resource[SCIM_SCHEMAS.enterpriseUser] as Resource : {};
+    const rawEmails = resource[findKey(resource, 'emails')];
+    const emails: ScimEmail[] = (Array.isArray(rawEmails) ? rawEmails : [])
+      .filter(isObject)
+      .filter(email => optionalString(email.value))
+      .map(email => ({
+        value: String(email.value),
+        ...(optionalString(email.type) ? { type: String(email.type) } : {}),
+        ...(email.primary !== undefined ? { primary: toBoolean(email.primary, false) } : {})
+      }));
+
+    return {
+      ...fixed,
+      user_name: userName,
+      user_name_key: userName.toLowerCase(),
+      external_id: optionalString(resource[findKey(resource, 'externalId')]) ?? null,
+      display_name: optionalString(resource[findKey(resource, 'displayName')]) ?? null,
+      given_name: optionalString(name[findKey(name, 'givenName')]) ?? null,
+      family_name: optionalString(name[findKey(name, 'familyName')]) ?? null,
+      emails,
+      preferred_language: optionalString(resource[findKey(resource, 'preferredLanguage')]) ?? null,
+      department: optionalString(enterprise[findKey(enterprise, 'department')]) ?? null,
+      employee_number: optionalString(enterprise[findKey(enterprise, 'employeeNumber')]) ?? null,
+      active: toBoolean(resource[findKey(resource, 'active')], true),
+      updated_at: new Date(this.now()).toISOString()
+    };
+  }
+
+  private async saveUser(current: SessionRecord, record: SessionRecord): Promise<ScimUser> {
+    if (record.user_name_key !== current.user_name_key) {
+      await this.assertUniqueUserName(String(record.tenant_id), String(record.user_name_key));
+    }
+
+    const deactivated = current.active === true && record.active === false;
+    if (deactivated) record.deactivated_at = record.updated_at;
+    if (record.active === true) record.deactivated_at = null;
+    await this.store.put('scim_users', String(record.id), record);
+
+    if (deactivated) {
+      // Leavers lose access at once, not when their current sessions expire
+      const revoked = await this.revokeSessions(current, 'scim_deactivated');
+      console.info(`SCIM deactivated user ${record.user_name} in tenant ${record.tenant_id}, ${revoked} sessions revoked`);
+    }
+    return this.toScimUser(record, await this.tenantGroups(String(record.tenant_id)));
+  }
+
+  private async groupRecord(tenantId: string, resource: Resource, fixed: SessionRecord): Promise<SessionRecord> {
+    const displayName = optionalString(resource[findKey(resource, 'displayName')]);
+    if (!displayName) {
+      throw new ScimError('displayName is required', 400, 'invalidValue');
+    }
+
+    const rawMembers = resource[findKey(resource, 'members')];
+    const members = [...new Set((Array.isArray(rawMembers) ? rawMembers : [])
+      .filter(isObject)
+      .map(member => String(member.value)))];
+    const userIds = new Set((await this.tenantUsers(tenantId)).map(user => String(user.id)));
+    const unknown = members.filter(member => !userIds.has(member));
+    if (unknown.length > 0) {
+      throw new ScimError(`Unknown members: ${unknown.join(', ')}`, 400, 'invalidValue');
+    }
+
+    return {
+      ...fixed,
+      tenant_id: tenantId,
+      display_name: displayName,
+      display_name_key: displayName.toLowerCase(),
+      external_id: optionalString(resource[findKey(resource, 'externalId')]) ?? null,
+      members,
+      updated_at: new Date(this.now()).toISOString()
+    };
+  }
+
+  private async saveGroup(current: SessionRecord, record: SessionRecord): Promise<ScimGroup> {
+    if (record.display_name_key !== current.display_name_key) {
+      await this.assertUniqueGroupName(String(record.tenant_id), String(record.display_name_key));
+    }
+    await this.store.put('scim_groups', String(record.id), record);
+    await this.revokeChangedAccess(String(record.tenant_id), current, record);
+    return this.toScimGroup(record, await this.tenantUsers(String(record.tenant_id)));
+  }
+
+  // Sessions carry the role from login, so members whose role or permissions a group change alters
+  // sign in again instead of keeping the old access until their sessions expire
+  private async revokeChangedAccess(tenantId: string, before: SessionRecord | null, after: SessionRecord | null): Promise<void> {
+    const membersOf = (group: SessionRecord | null): string[] => (group?.members as string[] | undefined) ?? [];
+    const memberIds = new Set([...membersOf(before), ...membersOf(after)]);
+    if (memberIds.size === 0) return;
+
+    const changedId = String(before?.id ?? after?.id);
+    const groups = (await this.tenantGroups(tenantId)).filter(group => String(group.id) !== changedId);
+    const accessOf = (userId: string, changed: SessionRecord | null): string => {
+      const names = [...groups, ...(changed ? [changed] : [])]
+        .filter(group => membersOf(group).includes(userId))
+        .map(group => String(group.display_name));
+      const { role, permissions } = this.resolveRole(names);
+      return `${role}:${[...permissions].sort().join(',')}`;
+    };
+
+    for (const user of await this.tenantUsers(tenantId)) {
+      const userId = String(user.id);
+      if (!memberIds.has(userId) || accessOf(userId, before) === accessOf(userId, after)) continue;
+
+      const revoked = await this.revokeSessions(user, 'scim_role_changed');
+      console.info(`SCIM changed the role of ${user.user_name} in tenant ${tenantId}, ${revoked} sessions revoked`);
+    }
+  }
+
+  private async revokeSessions(user: SessionRecord, reason: string): Promise<number> {
+    // Sessions are keyed by the email or subject the IdP asserted, in the case it asserted it
+    const identifiers = new Set([String(user.user_name), ...(user.emails as ScimEmail[]).map(email => email.value)]
+      .flatMap(identifier => [identifier, identifier.toLowerCase()]));
+    const options = { tenantId: String(user.tenant_id), now: new Date(this.now()) };
+    const revoked = await Promise.all([...identifiers].map(identifier => this.sessions.revokeUserSessions(identifier, reason, options)));
+    return revoked.reduce((total, count) => total + count, 0);
+  }
+
+  private async userRecordFor(tenantId: string, id: string): Promise<SessionRecord> {
+    const record = await this.store.get('scim_users', id);
+    // Other tenants' users are reported as missing, not forbidden
+    if (!record || record.tenant_id !== tenantId) {
+      throw new ScimError(`User not found: ${id}`, 404);
+    }
+    return record;
+  }
+
+  private async groupRecordFor(tenantId: string, id: string): Promise<SessionRecord> {
+    const record = await this.store.get('scim_groups', id);
+    if (!record || record.tenant_id !== tenantId) {
+      throw new ScimError(`Group not found: ${id}`, 404);
+    }
+    return record;
+  }
+
+  private async assertUniqueUserName(tenantId: string, userNameKey: string): Promise<void> {
+    const existing = await this.store.find('scim_users', { where: { tenant_id: tenantId, user_name_key: userNameKey }, limit: 1 });
+    if (existing.length > 0) {
+      throw new ScimError(`userName is already in use: ${userNameKey}`, 409, 'uniqueness');
+    }
+  }
+
+  private async assertUniqueGroupName(tenantId: string, displayNameKey: string): Promise<void> {
+    const existing = await this.store.find('scim_groups', { where: { tenant_id: tenantId, display_name_key: displayNameKey }, limit: 1 });
+    if (existing.length > 0) {
+      throw new ScimError(`displayName is already in use: ${displayNameKey}`, 409, 'uniqueness');
+    }
+  }
+
+  private tenantUsers(tenantId: string): Promise<SessionRecord[]> {
+    return this.store.find('scim_users', { where: { tenant_id: tenantId }, orderBy: { field: 'created_at', direction: 'asc' } });
+  }
+
+  private tenantGroups(tenantId: string): Promise<SessionRecord[]> {
+    return this.store.find('scim_groups', { where: { tenant_id: tenantId }, orderBy: { field: 'created_at', direction: 'asc' } });
+  }
+
+  private toScimUser(record: SessionRecord, groups: SessionRecord[]): ScimUser {
+    const id = String(record.id);
+    const name = {
+      ...(record.given_name ? { givenName: String(record.given_name) } : {}),
+      ...(record.family_name ? { familyName: String(record.family_name) } : {})
+    };
+    const enterprise = {
+      ...(record.department ? { department: String(record.department) } : {}),
+      ...(record.employee_number ? { employeeNumber: String(record.employee_number) } : {})
+    };
+
+    return {
+      schemas: Object.keys(enterprise).length > 0 ? [SCIM_SCHEMAS.user, SCIM_SCHEMAS.enterpriseUser] : [SCIM_SCHEMAS.user],
+      id,
+      ...(record.external_id ? { externalId: String(record.external_id) } : {}),
+      userName: String(record.user_name),
+      ...(Object.keys(name).length > 0 ? { name } : {}),
+      ...(record.display_name ? { displayName: String(record.display_name) } : {}),
+      ...((record.emails as ScimEmail[]).length > 0 ? { emails: record.emails as ScimEmail[] } : {}),
+      ...(record.preferred_language ? { preferredLanguage: String(record.preferred_language) } : {}),
+      active: record.active === true,
+      groups: groups
+        .filter(group => (group.members as string[]).includes(id))
+        .map(group => ({ value: String(group.id), display: String(group.display_name), $ref: `${this.baseUrl}/Groups/${group.id}` })),
+      ...(Object.keys(enterprise).length > 0 ? { [SCIM_SCHEMAS.enterpriseUser]: enterprise } : {}),
+      meta: {
+        resourceType: 'User',
+        created: String(record.created_at),
+        lastModified: String(record.updated_at),
+        location: `${this.baseUrl}/Users/${id}`
+      }
+    };
+  }
+
+  private toScimGroup(record: SessionRecord, users: SessionRecord[], excludeMembers = false): ScimGroup {
+    const id = String(record.id);
+    const userNames = new Map(users.map(user => [String(user.id), String(user.display_name ?? user.user_name)]));
+
+    return {
+      schemas: [SCIM_SCHEMAS.group],
+      id,
+      ...(record.external_id ? { externalId: String(record.external_id) } : {}),
+      displayName: String(record.display_name),
+      ...(excludeMembers ? {} : {
+        members: (record.members as string[]).map(member => ({
+          value: member,
+          ...(userNames.has(member) ? { display: userNames.get(member) } : {}),
+          $ref: `${this.baseUrl}/Users/${member}`
+        }))
+      }),
+      meta: {
+        resourceType: 'Group',
+        created: String(record.created_at),
+        lastModified: String(record.updated_at),
+        location: `${this.baseUrl}/Groups/${id}`
+      }
+    };
+  }
+
+  private listResponse<Item>(totalResults: number, startIndex: number, resources: Item[]): ScimListResponse<Item> {
+    return {
+      schemas: [SCIM_SCHEMAS.listResponse],
+      totalResults,
+      startIndex,
+      itemsPerPage: resources.length,
+      Resources: resources
+    };
+  }
+}
+
+// Export singleton instance
+export const scimProvisioningService = new ScimProvisioningService();
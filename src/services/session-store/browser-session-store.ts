@@ -0,0 +1,166 @@
+/**
+ * Browser SessionStores: IndexedDB, with a localStorage fallback for browsers that block it
+ * Keeps save/resume on the device for municipalities that do not allow a hosted backend
+ */
+
+import type { SessionCollection, SessionQuery, SessionRecord, SessionStore } from './types';
+import { SessionStoreError } from './types';
+import { applyQuery, cloneRecord, versionMatches } from './query';
+
+const DEFAULT_DATABASE_NAME = 'diginative-sessions';
+const OBJECT_STORE = 'records';
+const COLLECTION_INDEX = 'collection';
+
+interface StoredEntry {
+  key: string;
+  collection: SessionCollection;
+  id: string;
+  data: SessionRecord;
+}
+
+const entryKey = (collection: SessionCollection, id: string) => `${collection}:${id}`;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new SessionStoreError(request.error?.message || 'IndexedDB request failed', 'indexeddb'));
+  });
+}
+
+export class IndexedDBSessionStore implements SessionStore {
+  readonly backend = 'indexeddb' as const;
+  private readonly databaseName: string;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(databaseName = DEFAULT_DATABASE_NAME) {
+    this.databaseName = databaseName;
+  }
+
+  async get(collection: SessionCollection, id: string): Promise<SessionRecord | null> {
+    const store = await this.objectStore('readonly');
+    const entry = await requestToPromise<StoredEntry | undefined>(store.get(entryKey(collection, id)));
+    return entry ? entry.data : null;
+  }
+
+  async put(collection: SessionCollection, id: string, record: SessionRecord): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    const entry: StoredEntry = { key: entryKey(collection, id), collection, id, data: cloneRecord(record) };
+    await requestToPromise(store.put(entry));
+  }
+
+  // Read and write in one readwrite transaction, which IndexedDB runs exclusively
+  async putIfVersion(collection: SessionCollection, id: string, record: SessionRecord, expectedVersion: number | null): Promise<boolean> {
+    const store = await this.objectStore('readwrite');
+    const current = await requestToPromise<StoredEntry | undefined>(store.get(entryKey(collection, id)));
+    if (!versionMatches(current?.data, expectedVersion)) return false;
+    await requestToPromise(store.put({ key: entryKey(collection, id), collection, id, data: cloneRecord(record) }));
+    return true;
+  }
+
+  async delete(collection: SessionCollection, id: string): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await requestToPromise(store.delete(entryKey(collection, id)));
+  }
+
+  async find(collection: SessionCollection, query?: SessionQuery): Promise<SessionRecord[]> {
+    return applyQuery((await this.entries(collection)).map(entry => entry.data), query);
+  }
+
+  async deleteWhere(collection: SessionCollection, query: SessionQuery): Promise<number> {
+    const entries = await this.entries(collection);
+    const matching = new Set(applyQuery(entries.map(entry => entry.data), query));
+    const doomed = entries.filter(entry => matching.has(entry.data));
+
+    const store = await this.objectStore('readwrite');
+    await Promise.all(doomed.map(entry => requestToPromise(store.delete(entry.key))));
+    return doomed.length;
+  }
+
+  private async entries(collection: SessionCollection): Promise<StoredEntry[]> {
+    const store = await this.objectStore('readonly');
+    return requestToPromise<StoredEntry[]>(store.index(COLLECTION_INDEX).getAll(collection));
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database.transaction(OBJECT_STORE, mode).objectStore(OBJECT_STORE);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(OBJECT_STORE, { keyPath: 'key' });
+          store.createIndex(COLLECTION_INDEX, COLLECTION_INDEX);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.database = null;
+          reject(new SessionStoreError(request.error?.message || 'Could not open IndexedDB', 'indexeddb'));
+        };
+      });
+    }
+    return this.database;
+  }
+}
+
+export class LocalStorageSessionStore implements SessionStore {
+  readonly backend = 'localstorage' as const;
+  private readonly prefix: string;
+
+  constructor(databaseName = DEFAULT_DATABASE_NAME) {
+    this.prefix = `${databaseName}:`;
+  }
+
+  async get(collection: SessionCollection, id: string): Promise<SessionRecord | null> {
+    const raw = localStorage.getItem(this.prefix + entryKey(collection, id));
+    return raw ? (JSON.parse(raw) as SessionRecord) : null;
+  }
+
+  async put(collection: SessionCollection, id: string, record: SessionRecord): Promise<void> {
+    try {
+      localStorage.setItem(this.prefix + entryKey(collection, id), JSON.stringify(record));
+    } catch (error) {
+      // Quota exceeded or storage disabled in private mode
+      throw new SessionStoreError(`Could not save session: ${(error as Error).message}`, this.backend);
+    }
+  }
+
+  // localStorage calls are synchronous, so nothing in this tab can interleave between the check and the write
+  async putIfVersion(collection: SessionCollection, id: string, record: SessionRecord, expectedVersion: number | null): Promise<boolean> {
+    const raw = localStorage.getItem(this.prefix + entryKey(collection, id));
+    if (!versionMatches(raw ? (JSON.parse(raw) as SessionRecord) : null, expectedVersion)) return false;
+    await this.put(collection, id, record);
+    return true;
+  }
+
+  async delete(collection: SessionCollection, id: string): Promise<void> {
+    localStorage.removeItem(this.prefix + entryKey(collection, id));
+  }
+
+  async find(collection: SessionCollection, query?: SessionQuery): Promise<SessionRecord[]> {
+    return applyQuery(this.entries(collection).map(([, record]) => record), query);
+  }
+
+  async deleteWhere(collection: SessionCollection, query: SessionQuery): Promise<number> {
+    const entries = this.entries(collection);
+    const matching = new Set(applyQuery(entries.map(([, record]) => record), query));
+    const doomed = entries.filter(([, record]) => matching.has(record));
+    doomed.forEach(([key]) => localStorage.removeItem(key));
+    return doomed.length;
+  }
+
+  private entries(collection: SessionCollection): Array<[string, SessionRecord]> {
+    const collectionPrefix = `${this.prefix}${collection}:`;
+    const entries: Array<[string, SessionRecord]> = [];
+    for (let index = 0; index < localStorage.length; index++) {
+      const key = localStorage.key(index);
+      const raw = key?.startsWith(collectionPrefix) ? localStorage.getItem(key) : null;
+      if (key && raw) {
+        entries.push([key, JSON.parse(raw) as SessionRecord]);
+      }
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Session Store
+ * Pluggable persistence for save/resume; the backend is chosen by configuration
+ */
+
+import type { SessionStore, SessionStoreConfig, SqlClient } from './types';
+import { SessionStoreError } from './types';
+import { MemorySessionStore } from './memory-session-store';
+import { IndexedDBSessionStore, LocalStorageSessionStore } from './browser-session-store';
+import { SqlSessionStore } from './sql-session-store';
+import { RestSessionStore } from './rest-session-store';
+import { SharedSessionStore } from './shared-session-store';
+
+export type {
+  SessionStore,
+  SessionStoreConfig,
+  SessionStoreBackend,
+  SessionRecord,
+  SessionCollection,
+  SessionQuery,
+  SessionFieldValue,
+  SqlClient
+} from './types';
+export { SessionStoreError } from './types';
+export { MemorySessionStore } from './memory-session-store';
+export { IndexedDBSessionStore, LocalStorageSessionStore } from './browser-session-store';
+export { SqlSessionStore, sessionStoreSchema, DEFAULT_SESSION_TABLE } from './sql-session-store';
+export { RestSessionStore } from './rest-session-store';
+export { SharedSessionStore } from './shared-session-store';
+export { mergeGameSessionRecords } from './merge';
+
+export const createSessionStore = (config: SessionStoreConfig): SessionStore => {
+  switch (config.backend) {
+    case 'memory':
+      return new MemorySessionStore();
+    case 'browser':
+      if (typeof indexedDB !== 'undefined') {
+        return new IndexedDBSessionStore(config.databaseName);
+      }
+      if (typeof localStorage !== 'undefined') {
+        return new LocalStorageSessionStore(config.databaseName);
+      }
+      // Server-side rendering and tests without DOM storage
+      return new MemorySessionStore();
+    case 'sql':
+      return new SqlSessionStore(config.client, config.tableName);
+    case 'rest':
+      return new RestSessionStore(config.baseUrl, config.headers, config.fetch);
+  }
+};
+
+/**
+ * Default configuration for the browser build:
+ * VITE_SESSION_STORE=rest with VITE_SESSION_STORE_URL, memory, or browser (default)
+ * Servers use serverSessionStoreConfigFromEnv instead
+ */
+export const sessionStoreConfigFromEnv = (
+  env: Record<string, unknown> = import.meta.env ?? {}
+): SessionStoreConfig => {
+  const backend = env.VITE_SESSION_STORE;
+  if (backend === 'rest' && typeof env.VITE_SESSION_STORE_URL === 'string') {
+    return { backend: 'rest', baseUrl: env.VITE_SESSION_STORE_URL };
+  }
+  if (backend === 'memory') {
+    return { backend: 'memory' };
+  }
+  return { backend: 'browser' };
+};
+
+/**
+ * Server configuration: SESSION_STORE=sql with the given client (e.g. a pg Pool for DATABASE_URL),
+ * rest with SESSION_STORE_URL and an optional SESSION_STORE_TOKEN, or memory. Production servers
+ * must choose one, since a memory store loses every session and certificate on restart
+ */
+export const serverSessionStoreConfigFromEnv = (
+  env: Record<string, string | undefined> = typeof process !== 'undefined' ? process.env : {},
+  sqlClient?: SqlClient
+): SessionStoreConfig => {
+  switch (env.SESSION_STORE) {
+    case 'sql':
+      if (!sqlClient) {
+        throw new SessionStoreError('SESSION_STORE=sql needs an SQL client; pass one or call setSharedSessionStore', 'sql');
+      }
+      return { backend: 'sql', client: sqlClient, tableName: env.SESSION_STORE_TABLE || undefined };
+    case 'rest':
+      if (!env.SESSION_STORE_URL) {
+        throw new SessionStoreError('SESSION_STORE=rest needs SESSION_STORE_URL', 'rest');
+      }
+      return {
+        backend: 'rest',
+        baseUrl: env.SESSION_STORE_URL,
+        headers: env.SESSION_STORE_TOKEN ? { Authorization: `Bearer ${env.SESSION_STORE_TOKEN}` } : undefined
+      };
+    case 'memory':
+      return { backend: 'memory' };
+    case undefined:
+    case '':
+      if (env.NODE_ENV === 'production') {
+        throw new SessionStoreError('SESSION_STORE must be sql or rest in production', 'memory');
+      }
+      console.warn('SESSION_STORE is not set; sessions, certificates and credentials are kept in memory');
+      return { backend: 'memory' };
+    default:
+      throw new SessionStoreError(`Unknown SESSION_STORE: ${env.SESSION_STORE}`, 'memory');
+  }
+};
+
+/**
+ * The store every service uses unless given its own: the browser configuration in a browser and
+ * the server configuration elsewhere
+ */
+export const sharedSessionStore = new SharedSessionStore(() => createSessionStore(
+  typeof window === 'undefined' ? serverSessionStoreConfigFromEnv() : sessionStoreConfigFromEnv()
+));
+
+/**
+ * Point every service at one store, e.g. the SQL store a server opens at startup
+ */
+export const setSharedSessionStore = (store: SessionStore): void => {
+  sharedSessionStore.use(store);
+};
@@ -0,0 +1,57 @@
+/**
+ * In-memory SessionStore for tests, demos and kiosk sessions without persistence
+ */
+
+import type { SessionCollection, SessionQuery, SessionRecord, SessionStore } from './types';
+import { applyQuery, cloneRecord, versionMatches } from './query';
+
+export class MemorySessionStore implements SessionStore {
+  readonly backend = 'memory' as const;
+  private collections = new Map<SessionCollection, Map<string, SessionRecord>>();
+
+  async get(collection: SessionCollection, id: string): Promise<SessionRecord | null> {
+    const record = this.getCollection(collection).get(id);
+    return record ? cloneRecord(record) : null;
+  }
+
+  async put(collection: SessionCollection, id: string, record: SessionRecord): Promise<void> {
+    this.getCollection(collection).set(id, cloneRecord(record));
+  }
+
+  async putIfVersion(collection: SessionCollection, id: string, record: SessionRecord, expectedVersion: number | null): Promise<boolean> {
+    const records = this.getCollection(collection);
+    if (!versionMatches(records.get(id), expectedVersion)) return false;
+    records.set(id, cloneRecord(record));
+    return true;
+  }
+
+  async delete(collection: SessionCollection, id: string): Promise<void> {
+    this.getCollection(collection).delete(id);
+  }
+
+  async find(collection: SessionCollection, query?: SessionQuery): Promise<SessionRecord[]> {
+    return applyQuery([...this.getCollection(collection).values()], query).map(cloneRecord);
+  }
+
+  async deleteWhere(collection: SessionCollection, query: SessionQuery): Promise<number> {
+    const records = this.getCollection(collection);
+    const matching = new Set(applyQuery([...records.values()], query));
+    for (const [id, record] of records) {
+      if (matching.has(record)) records.delete(id);
+    }
+    return matching.size;
+  }
+
+  clear(): void {
+    this.collections.clear();
+  }
+
+  private getCollection(collection: SessionCollection): Map<string, SessionRecord> {
+    let records = this.collections.get(collection);
+    if (!records) {
+      records = new Map();
+      this.collections.set(collection, records);
+    }
+    return records;
+  }
+}
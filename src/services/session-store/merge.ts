@@ -0,0 +1,81 @@
+/**
+ * Deterministic merge of two game session records, for progress made on several devices
+ * The result does not depend on which side is local, so every device converges on the same state
+ */
+
+import type { SessionRecord } from './types';
+
+interface SessionProgress {
+  currentSceneId?: string;
+  sceneIndex?: number;
+  completedScenes?: string[];
+  sceneResults?: Record<string, unknown>;
+  sceneCompletedAt?: Record<string, string>;
+  lastActiveTime?: string;
+  totalTimeSpent?: number;
+  [key: string]: unknown;
+}
+
+const progressOf = (record: SessionRecord): SessionProgress => (record.progress as SessionProgress | null) ?? {};
+
+const compareText = (left = '', right = ''): number => (left < right ? -1 : left > right ? 1 : 0);
+
+// Later activity wins; ties go to the record further into the game, then to a stable JSON comparison
+const compareActivity = (a: SessionRecord, b: SessionRecord): number =>
+  compareText(progressOf(a).lastActiveTime, progressOf(b).lastActiveTime) ||
+  (progressOf(a).sceneIndex ?? 0) - (progressOf(b).sceneIndex ?? 0) ||
+  compareText(JSON.stringify(a), JSON.stringify(b));
+
+// Earliest completion stands, so results never flip once a session is finished
+const pickCompletion = (a: SessionRecord, b: SessionRecord): SessionRecord | null => {
+  const completed = [a, b].filter(record => typeof record.completed_at === 'string');
+  if (completed.length < 2) return completed[0] ?? null;
+  return compareText(completed[0].completed_at as string, completed[1].completed_at as string) <= 0
+    ? completed[0]
+    : completed[1];
+};
+
+export const mergeGameSessionRecords = (local: SessionRecord, remote: SessionRecord): SessionRecord => {
+  const [older, newer] = compareActivity(local, remote) <= 0 ? [local, remote] : [remote, local];
+  const olderProgress = progressOf(older);
+  const newerProgress = progressOf(newer);
+
+  const completedScenes = [...(newerProgress.completedScenes ?? [])];
+  (olderProgress.completedScenes ?? []).forEach(sceneId => {
+    if (!completedScenes.includes(sceneId)) completedScenes.push(sceneId);
+  });
+
+  // Per scene, keep the most recently recorded result
+  const sceneResults: Record<string, unknown> = {};
+  const sceneCompletedAt: Record<string, string> = {};
+  const sceneIds = new Set([
+    ...Object.keys(olderProgress.sceneResults ?? {}),
+    ...Object.keys(newerProgress.sceneResults ?? {})
+  ]);
+  sceneIds.forEach(sceneId => {
+    const candidates = [olderProgress, newerProgress].filter(progress => progress.sceneResults && sceneId in progress.sceneResults);
+    const latest = candidates.reduce((best, candidate) =>
+      compareText(candidate.sceneCompletedAt?.[sceneId], best.sceneCompletedAt?.[sceneId]) > 0 ? candidate : best
+    );
+    sceneResults[sceneId] = latest.sceneResults![sceneId];
+    if (latest.sceneCompletedAt?.[sceneId]) {
+      sceneCompletedAt[sceneId] = latest.sceneCompletedAt[sceneId];
+    }
+  });
+
+  const completion = pickCompletion(local, remote);
+
+  return {
+    ...newer,
+    started_at: compareText(older.started_at as string, newer.started_at as string) < 0 ? older.started_at : newer.started_at,
+    completed_at: completion ? completion.completed_at : null,
+    ...(completion && 'results' in completion && { results: completion.results }),
+    progress: {
+      ...newerProgress,
+      completedScenes,
+      sceneResults,
+      sceneCompletedAt,
+      totalTimeSpent: Math.max(olderProgress.totalTimeSpent ?? 0, newerProgress.totalTimeSpent ?? 0)
+    }
+  };
+};
@@ -0,0 +1,43 @@
+/**
+ * In-process SessionQuery evaluation shared by the memory and browser stores
+ */
+
+import type { SessionQuery, SessionRecord } from './types';
+
+export const matchesQuery = (record: SessionRecord, query: SessionQuery = {}): boolean => {
+  const equal = Object.entries(query.where ?? {}).every(([field, value]) =>
+    value === null ? record[field] === null || record[field] === undefined : record[field] === value
+  );
+  if (!equal) return false;
+
+  if (query.before) {
+    const value = record[query.before.field];
+    return typeof value === 'string' && new Date(value).getTime() < new Date(query.before.value).getTime();
+  }
+  return true;
+};
+
+export const applyQuery = (records: SessionRecord[], query: SessionQuery = {}): SessionRecord[] => {
+  const matching = records.filter(record => matchesQuery(record, query));
+
+  if (query.orderBy) {
+    const { field, direction } = query.orderBy;
+    const sign = direction === 'asc' ? 1 : -1;
+    matching.sort((a, b) => {
+      const left = a[field] as string | number | undefined;
+      const right = b[field] as string | number | undefined;
+      if (left === right) return 0;
+      if (left === undefined) return 1;
+      if (right === undefined) return -1;
+      return (left < right ? -1 : 1) * sign;
+    });
+  }
+
+  return query.limit !== undefined ? matching.slice(0, query.limit) : matching;
+};
+
+export const versionMatches = (stored: SessionRecord | null | undefined, expectedVersion: number | null): boolean =>
+  expectedVersion === null ? !stored : !!stored && Number(stored.version ?? 0) === expectedVersion;
+
+// Records leave the store as copies so callers cannot mutate stored state
+export const cloneRecord = (record: SessionRecord): SessionRecord => JSON.parse(JSON.stringify(record));
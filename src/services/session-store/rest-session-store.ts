@@ -0,0 +1,87 @@
+/**
+ * REST SessionStore for municipalities that expose session persistence through their own API
+ *
+ * GET    {baseUrl}/{collection}/{id}       record, or 404
+ * PUT    {baseUrl}/{collection}/{id}       store record (JSON body); with If-Match: "<version>" or
+ *                                          If-None-Match: * only when the stored version matches, else 412
+ * DELETE {baseUrl}/{collection}/{id}
+ * POST   {baseUrl}/{collection}/query      SessionQuery body, returns a record array
+ * POST   {baseUrl}/{collection}/delete     SessionQuery body, returns { deleted: number }
+ */
+
+import type { SessionCollection, SessionQuery, SessionRecord, SessionStore } from './types';
+import { SessionStoreError } from './types';
+
+export class RestSessionStore implements SessionStore {
+  readonly backend = 'rest' as const;
+  private readonly baseUrl: string;
+  private readonly headers: Record<string, string>;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(baseUrl: string, headers: Record<string, string> = {}, fetchImpl?: typeof fetch) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.headers = headers;
+    // Bind so the global fetch keeps its receiver
+    this.fetchImpl = fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  async get(collection: SessionCollection, id: string): Promise<SessionRecord | null> {
+    const response = await this.request('GET', this.url(collection, id), undefined, [404]);
+    return response.status === 404 ? null : response.json();
+  }
+
+  async put(collection: SessionCollection, id: string, record: SessionRecord): Promise<void> {
+    await this.request('PUT', this.url(collection, id), record);
+  }
+
+  async putIfVersion(collection: SessionCollection, id: string, record: SessionRecord, expectedVersion: number | null): Promise<boolean> {
+    const condition: Record<string, string> = expectedVersion === null
+      ? { 'If-None-Match': '*' }
+      : { 'If-Match': `"${expectedVersion}"` };
+    const response = await this.request('PUT', this.url(collection, id), record, [412], condition);
+    return response.status !== 412;
+  }
+
+  async delete(collection: SessionCollection, id: string): Promise<void> {
+    await this.request('DELETE', this.url(collection, id), undefined, [404]);
+  }
+
+  async find(collection: SessionCollection, query: SessionQuery = {}): Promise<SessionRecord[]> {
+    const response = await this.request('POST', this.url(collection, 'query'), query);
+    return response.json();
+  }
+
+  async deleteWhere(collection: SessionCollection, query: SessionQuery): Promise<number> {
+    const response = await this.request('POST', this.url(collection, 'delete'), query);
+    const body = await response.json();
+    return typeof body?.deleted === 'number' ? body.deleted : 0;
+  }
+
+  private url(collection: SessionCollection, path: string): string {
+    return `${this.baseUrl}/${encodeURIComponent(collection)}/${encodeURIComponent(path)}`;
+  }
+
+  private async request(
+    method: string,
+    url: string,
+    body?: unknown,
+    allowedStatuses: number[] = [],
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Response> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(url, {
+        method,
+        headers: { ...(body !== undefined && { 'Content-Type': 'application/json' }), ...extraHeaders, ...this.headers },
+        body: body !== undefined ? JSON.stringify(body) : undefined
+      });
+    } catch (error) {
+      throw new SessionStoreError(`Session API unreachable: ${(error as Error).message}`, 'rest');
+    }
+
+    if (!response.ok && !allowedStatuses.includes(response.status)) {
+      throw new SessionStoreError(`Session API ${method} ${url} failed with ${response.status}`, 'rest', response.status);
+    }
+    return response;
+  }
+}
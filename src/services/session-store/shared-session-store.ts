@@ -0,0 +1,57 @@
+/**
+ * Shared SessionStore
+ * One store behind every service of a process, so an auth session, certificate or credential written
+ * by one service is seen by the others. The backend is resolved on first use, which lets a server
+ * swap in its SQL store at startup after the service singletons were created.
+ */
+
+import type { SessionCollection, SessionQuery, SessionRecord, SessionStore, SessionStoreBackend } from './types';
+
+export class SharedSessionStore implements SessionStore {
+  private store: SessionStore | null = null;
+  private readonly resolve: () => SessionStore;
+
+  constructor(resolve: () => SessionStore) {
+    this.resolve = resolve;
+  }
+
+  get backend(): SessionStoreBackend {
+    return this.current().backend;
+  }
+
+  /**
+   * Route every service to this store from now on
+   */
+  use(store: SessionStore): void {
+    this.store = store;
+  }
+
+  get(collection: SessionCollection, id: string): Promise<SessionRecord | null> {
+    return this.current().get(collection, id);
+  }
+
+  put(collection: SessionCollection, id: string, record: SessionRecord): Promise<void> {
+    return this.current().put(collection, id, record);
+  }
+
+  putIfVersion(collection: SessionCollection, id: string, record: SessionRecord, expectedVersion: number | null): Promise<boolean> {
+    return this.current().putIfVersion(collection, id, record, expectedVersion);
+  }
+
+  delete(collection: SessionCollection, id: string): Promise<void> {
+    return this.current().delete(collection, id);
+  }
+
+  find(collection: SessionCollection, query?: SessionQuery): Promise<SessionRecord[]> {
+    return this.current().find(collection, query);
+  }
+
+  deleteWhere(collection: SessionCollection, query: SessionQuery): Promise<number> {
+    return this.current().deleteWhere(collection, query);
+  }
+
+  private current(): SessionStore {
+    this.store ??= this.resolve();
+    return this.store;
+  }
+}
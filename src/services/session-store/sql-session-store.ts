@@ -0,0 +1,138 @@
+/**
+ * PostgreSQL SessionStore
+ * Stores every collection as JSONB documents in one table; field names are bound as
+ * parameters (data ->> $n) so queries never interpolate caller input
+ */
+
+import type { SessionCollection, SessionQuery, SessionRecord, SessionStore, SqlClient } from './types';
+import { SessionStoreError } from './types';
+
+export const DEFAULT_SESSION_TABLE = 'session_records';
+
+/**
+ * DDL for the session table, for on-premise installations to run in their migrations
+ */
+export const sessionStoreSchema = (tableName = DEFAULT_SESSION_TABLE): string => `
+CREATE TABLE IF NOT EXISTS ${tableName} (
+  collection TEXT NOT NULL,
+  id TEXT NOT NULL,
+  data JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (collection, id)
+);
+CREATE INDEX IF NOT EXISTS ${tableName}_user_idx ON ${tableName} (collection, (data ->> 'user_id'));
+`;
+
+const TABLE_NAME = /^[a-z_][a-z0-9_]*(\.[a-z_][a-z0-9_]*)?$/i;
+
+export class SqlSessionStore implements SessionStore {
+  readonly backend = 'sql' as const;
+  private readonly client: SqlClient;
+  private readonly table: string;
+
+  constructor(client: SqlClient, tableName = DEFAULT_SESSION_TABLE) {
+    // The table name is the only identifier in the SQL text, so it must be a plain identifier
+    if (!TABLE_NAME.test(tableName)) {
+      throw new SessionStoreError(`Invalid session table name '${tableName}'`, 'sql');
+    }
+    this.client = client;
+    this.table = tableName;
+  }
+
+  async get(collection: SessionCollection, id: string): Promise<SessionRecord | null> {
+    const { rows } = await this.run(
+      `SELECT data FROM ${this.table} WHERE collection = $1 AND id = $2`,
+      [collection, id]
+    );
+    return rows[0] ? this.parse(rows[0].data) : null;
+  }
+
+  async put(collection: SessionCollection, id: string, record: SessionRecord): Promise<void> {
+    await this.run(
+      `INSERT INTO ${this.table} (collection, id, data, updated_at) VALUES ($1, $2, $3::jsonb, now())
+       ON CONFLICT (collection, id) DO UPDATE SET data = EXCLUDED.data, updated_at = now()`,
+      [collection, id, JSON.stringify(record)]
+    );
+  }
+
+  async putIfVersion(collection: SessionCollection, id: string, record: SessionRecord, expectedVersion: number | null): Promise<boolean> {
+    const { rowCount } = expectedVersion === null
+      ? await this.run(
+        `INSERT INTO ${this.table} (collection, id, data, updated_at) VALUES ($1, $2, $3::jsonb, now())
+         ON CONFLICT (collection, id) DO NOTHING`,
+        [collection, id, JSON.stringify(record)]
+      )
+      : await this.run(
+        `UPDATE ${this.table} SET data = $3::jsonb, updated_at = now()
+         WHERE collection = $1 AND id = $2 AND COALESCE((data ->> 'version')::integer, 0) = $4`,
+        [collection, id, JSON.stringify(record), expectedVersion]
+      );
+    return (rowCount ?? 0) > 0;
+  }
+
+  async delete(collection: SessionCollection, id: string): Promise<void> {
+    await this.run(`DELETE FROM ${this.table} WHERE collection = $1 AND id = $2`, [collection, id]);
+  }
+
+  async find(collection: SessionCollection, query: SessionQuery = {}): Promise<SessionRecord[]> {
+    const params: unknown[] = [collection];
+    let sql = `SELECT data FROM ${this.table} WHERE ${this.conditions(query, params)}`;
+
+    if (query.orderBy) {
+      params.push(query.orderBy.field);
+      sql += ` ORDER BY data ->> $${params.length} ${query.orderBy.direction === 'asc' ? 'ASC' : 'DESC'}`;
+    }
+    if (query.limit !== undefined) {
+      params.push(query.limit);
+      sql += ` LIMIT $${params.length}`;
+    }
+
+    const { rows } = await this.run(sql, params);
+    return rows.map(row => this.parse(row.data));
+  }
+
+  async deleteWhere(collection: SessionCollection, query: SessionQuery): Promise<number> {
+    const params: unknown[] = [collection];
+    const { rowCount } = await this.run(
+      `DELETE FROM ${this.table} WHERE ${this.conditions(query, params)}`,
+      params
+    );
+    return rowCount ?? 0;
+  }
+
+  private conditions(query: SessionQuery, params: unknown[]): string {
+    const conditions = ['collection = $1'];
+
+    Object.entries(query.where ?? {}).forEach(([field, value]) => {
+      params.push(field);
+      const fieldParam = `$${params.length}`;
+      if (value === null) {
+        conditions.push(`data ->> ${fieldParam} IS NULL`);
+      } else {
+        // ->> yields text, so compare against the JSON text form of the value
+        params.push(String(value));
+        conditions.push(`data ->> ${fieldParam} = $${params.length}`);
+      }
+    });
+
+    if (query.before) {
+      params.push(query.before.field, query.before.value);
+      conditions.push(`(data ->> $${params.length - 1})::timestamptz < $${params.length}::timestamptz`);
+    }
+
+    return conditions.join(' AND ');
+  }
+
+  // Drivers return JSONB as objects; others hand back the JSON text
+  private parse(data: unknown): SessionRecord {
+    return typeof data === 'string' ? JSON.parse(data) : (data as SessionRecord);
+  }
+
+  private async run(text: string, params: unknown[]) {
+    try {
+      return await this.client.query(text, params);
+    } catch (error) {
+      throw new SessionStoreError(`Session query failed: ${(error as Error).message}`, 'sql');
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Session Store Types
+ * Persistence contract for GameStateManager and MultiWorldStateManager
+ */
+
+// Records are stored as JSON documents with snake_case fields
+export type SessionRecord = Record<string, unknown>;
+
+export type SessionCollection = 'game_sessions' | 'analytics_events' | 'world_hub_sessions' | 'review_schedules'
+  | 'certificates'
+  | 'verifiable_credentials'
+  | 'credential_status_lists'
+  | 'credential_keys'
+  | 'auth_sessions'
+  | 'oidc_authorizations'
+  | 'scim_users'
+  | 'scim_groups'
+  | 'policy_roles'
+  | 'policy_grants'
+  | 'policy_decisions';
+
+export type SessionFieldValue = string | number | boolean | null;
+
+export interface SessionQuery {
+  where?: Record<string, SessionFieldValue>; // Equality; null also matches missing fields
+  before?: { field: string; value: string }; // Strictly earlier ISO timestamp
+  orderBy?: { field: string; direction: 'asc' | 'desc' };
+  limit?: number;
+}
+
+export interface SessionStore {
+  readonly backend: SessionStoreBackend;
+  get(collection: SessionCollection, id: string): Promise<SessionRecord | null>;
+  put(collection: SessionCollection, id: string, record: SessionRecord): Promise<void>;
+  // Compare-and-swap on the record's numeric `version` (missing counts as 0); null expects no record.
+  // Resolves false, without writing, when another writer got there first
+  putIfVersion(collection: SessionCollection, id: string, record: SessionRecord, expectedVersion: number | null): Promise<boolean>;
+  delete(collection: SessionCollection, id: string): Promise<void>;
+  find(collection: SessionCollection, query?: SessionQuery): Promise<SessionRecord[]>;
+  deleteWhere(collection: SessionCollection, query: SessionQuery): Promise<number>;
+}
+
+export type SessionStoreBackend = 'memory' | 'indexeddb' | 'localstorage' | 'sql' | 'rest';
+
+// Minimal client contract; a node-postgres Pool or Client satisfies it
+export interface SqlClient {
+  query(text: string, params?: unknown[]): Promise<{ rows: Record<string, unknown>[]; rowCount?: number | null }>;
+}
+
+export type SessionStoreConfig =
+  | { backend: 'memory' }
+  | { backend: 'browser'; databaseName?: string } // IndexedDB, localStorage when unavailable
+  | { backend: 'sql'; client: SqlClient; tableName?: string }
+  | { backend: 'rest'; baseUrl: string; headers?: Record<string, string>; fetch?: typeof fetch };
+
+export class SessionStoreError extends Error {
+  readonly backend: SessionStoreBackend;
+  readonly status?: number;
+
+  constructor(message: string, backend: SessionStoreBackend, status?: number) {
+    super(message);
+    this.name = 'SessionStoreError';
+    this.backend = backend;
+    this.status = status;
+  }
+}
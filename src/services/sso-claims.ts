@@ -0,0 +1,40 @@
+/**
+ * SSO Claims
+ * Maps identity provider attributes (SAML) and claims (OpenID Connect) to user profile fields and
+ * roles, so both protocols assign the same roles for the same IdP configuration
+ */
+
+export type IdentityAttributes = Record<string, unknown>;
+
+export const extractAttribute = (attributes: IdentityAttributes | undefined, ...keys: string[]): string | undefined => {
+  if (!attributes) return undefined;
+
+  for (const key of keys) {
+    const value = attributes[key] || attributes[key.toLowerCase()] || attributes[key.toUpperCase()];
+    if (value) {
+      return String(Array.isArray(value) ? value[0] : value);
+    }
+  }
+
+  return undefined;
+};
+
+export const extractRoles = (attributes: IdentityAttributes | undefined, tenant: { country: string }): string[] => {
+  const roles: string[] = [];
+
+  // Entra ID and ADFS send the role claim URI, Okta and generic IdPs a role, roles or groups claim
+  const roleAttributes = attributes?.['http://schemas.microsoft.com/ws/2008/06/identity/claims/role'] ||
+                        attributes?.role ||
+                        attributes?.roles ||
+                        attributes?.groups;
+
+  if (roleAttributes) {
+    const roleArray = Array.isArray(roleAttributes) ? roleAttributes : [roleAttributes];
+    roles.push(...roleArray.map(String));
+  }
+
+  // Add default municipal role
+  roles.push(`municipal_employee_${tenant.country.toLowerCase()}`);
+
+  return roles;
+};
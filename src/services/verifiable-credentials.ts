@@ -0,0 +1,684 @@
+/**
+ * Verifiable Credentials Service
+ * Achievements and certifications as W3C Verifiable Credentials (VC Data Model 1.1) in the VC-JWT
+ * encoding, shaped as Open Badges 3.0 so other EU public bodies and wallets can read them.
+ * Each tenant issues under its own did:web identifier and configured ES256 key; revocation uses a
+ * StatusList2021 bitstring per tenant, published as a signed status list credential.
+ * The verifier checks signature, validity period and revocation for local and remote issuers;
+ * remote DID documents and status lists are only fetched from trusted issuer hosts.
+ */
+
+import type { CertificateRecord } from './certificate-service';
+import { sharedSessionStore, type SessionRecord, type SessionStore } from './session-store';
+import {
+  base64UrlDecode,
+  decodeJws,
+  importJwsKeyPair,
+  importJwsPublicKey,
+  signJws,
+  verifyJwsSignature,
+  type JwsKeyPair
+} from '../utils/jws';
+import {
+  createStatusList,
+  decodeStatusList,
+  encodeStatusList,
+  getStatusBit,
+  setStatusBit,
+  STATUS_LIST_SIZE
+} from '../utils/statusList';
+
+export const VC_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+export const OPEN_BADGES_CONTEXT = 'https://purl.imsglobal.org/spec/ob/v3p0/context.json';
+export const STATUS_LIST_CONTEXT = 'https://w3id.org/vc/status-list/2021/v1';
+
+export type AchievementType = 'Achievement' | 'Certification';
+
+export interface CredentialAchievement {
+  id: string; // e.g. `${gameId}/certified`
+  name: string;
+  description: string;
+  criteria?: string; // What the learner had to do
+  achievementType?: AchievementType;
+}
+
+export interface CredentialRequest {
+  tenantId: string;
+  subject: { id: string; name: string }; // id is the learner's stable identifier, e.g. a DID or mailto: URI
+  achievement: CredentialAchievement;
+  validUntil?: Date;
+}
+
+export interface CredentialStatusEntry {
+  id: string;
+  type: 'StatusList2021Entry';
+  statusPurpose: 'revocation';
+  statusListIndex: string;
+  statusListCredential: string;
+}
+
+export interface VerifiableCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: { id: string; type: string[]; name: string };
+  issuanceDate: string;
+  expirationDate?: string;
+  credentialSubject: Record<string, unknown> & { id?: string };
+  credentialStatus?: CredentialStatusEntry;
+}
+
+export interface IssuedCredential {
+  id: string;
+  jwt: string;
+  credential: VerifiableCredential;
+  verificationUrl: string; // Page a QR code can point to
+}
+
+export type CredentialVerificationStatus =
+  | 'valid'
+  | 'revoked'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'invalid_signature'
+  | 'unknown_issuer'
+  | 'status_unavailable'
+  | 'malformed';
+
+export interface CredentialVerificationResult {
+  valid: boolean;
+  status: CredentialVerificationStatus;
+  checks: {
+    signature: boolean;
+    validityPeriod: boolean;
+    revocation: boolean | null; // null when the credential has no status entry
+  };
+  credential?: VerifiableCredential;
+}
+
+export interface TenantIssuerProfile {
+  name: string;
+}
+
+export interface VerifiableCredentialsOptions {
+  store?: SessionStore;
+  baseUrl?: string; // Public origin of this service, e.g. https://credentials.diginativa.se
+  tenants?: Record<string, TenantIssuerProfile>;
+  fetch?: typeof fetch; // For remote issuers' DID documents and status lists
+  trustedIssuerHosts?: string[]; // Hosts remote issuers may be resolved from, e.g. credentials.gent.be
+}
+
+interface ResolvedKey {
+  did: string;
+  jwk: JsonWebKey;
+}
+
+type TenantPublicKey = JwsKeyPair['publicJwk'];
+
+export interface DidDocument {
+  '@context': string[];
+  id: string;
+  verificationMethod: Array<{ id: string; type: 'JsonWebKey2020'; controller: string; publicKeyJwk: JsonWebKey }>;
+  assertionMethod: string[];
+}
+
+const DEFAULT_BASE_URL = 'https://credentials.diginativa.se';
+const STATUS_LIST_WRITE_ATTEMPTS = 10;
+const API_PATH = '/api/credentials';
+const REMOTE_FETCH_TIMEOUT_MS = 5000;
+
+const textDecoder = new TextDecoder();
+
+class CredentialFormatError extends Error {}
+
+export class CredentialError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'CredentialError';
+    this.status = status;
+  }
+}
+
+// did:web puts the host and path segments after the method, percent-encoding a port's colon
+export const didWebFromUrl = (url: string): string => {
+  const { host, pathname } = new URL(url);
+  const path = pathname.split('/').filter(Boolean);
+  return ['did:web', encodeURIComponent(host), ...path].join(':');
+};
+
+export const didWebToUrl = (did: string): string => {
+  const [, method, host, ...path] = did.split(':');
+  if (method !== 'web' || !host) {
+    throw new CredentialFormatError(`Unsupported DID '${did}'`);
+  }
+  const base = `https://${decodeURIComponent(host)}`;
+  return path.length ? `${base}/${path.map(decodeURIComponent).join('/')}/did.json` : `${base}/.well-known/did.json`;
+};
+
+/**
+ * Signing keys per tenant from VC_TENANT_KEYS, a JSON object of tenant id to private EC P-256 JWK
+ */
+export const tenantKeysFromEnv = async (
+  env: Record<string, string | undefined> = typeof process !== 'undefined' ? process.env : {}
+): Promise<Record<string, JwsKeyPair>> => {
+  if (!env.VC_TENANT_KEYS) return {};
+  const jwks: Record<string, JsonWebKey & { kid?: string }> = JSON.parse(env.VC_TENANT_KEYS);
+  const entries = await Promise.all(Object.entries(jwks).map(async ([tenantId, jwk]) =>
+    [tenantId, await importJwsKeyPair(jwk, jwk.kid ?? 'key-1')] as const));
+  return Object.fromEntries(entries);
+};
+
+/**
+ * Remote issuer hosts from VC_TRUSTED_ISSUER_HOSTS, a comma-separated list of host[:port]
+ */
+export const trustedIssuerHostsFromEnv = (
+  env: Record<string, string | undefined> = typeof process !== 'undefined' ? process.env : {}
+): string[] => (env.VC_TRUSTED_ISSUER_HOSTS ?? '').split(',').map(host => host.trim()).filter(Boolean);
+
+// Loopback, private and link-local addresses are never fetched, even when listed as trusted
+const isInternalHostname = (hostname: string): boolean => {
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) return true;
+
+  const ipv4 = hostname.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) {
+    const [a, b] = ipv4.slice(1).map(Number);
+    return a === 0 || a === 10 || a === 127 || (a === 100 && b >= 64 && b <= 127) || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+  }
+
+  if (hostname.startsWith('[')) {
+    const ipv6 = hostname.slice(1, -1);
+    return ipv6 === '::' || ipv6 === '::1' || ipv6.startsWith('::ffff:') || /^f[cd]/.test(ipv6) || /^fe[89ab]/.test(ipv6);
+  }
+  return false;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const hasIdAndName = (value: unknown): boolean =>
+  isObject(value) && typeof value.id === 'string' && Boolean(value.id) && typeof value.name === 'string' && Boolean(value.name.trim());
+
+const toEpochSeconds = (date: Date): number => Math.floor(date.getTime() / 1000);
+
+export class VerifiableCredentialsService {
+  private store: SessionStore;
+  private baseUrl: string;
+  private tenants: Record<string, TenantIssuerProfile>;
+  private fetchImpl: typeof fetch;
+  private trustedIssuerHosts: Set<string>;
+  private tenantKeys = new Map<string, Promise<JwsKeyPair>>();
+  private envKeys: Promise<Record<string, JwsKeyPair>> | null = null;
+
+  constructor(options: VerifiableCredentialsOptions = {}) {
+    this.store = options.store ?? sharedSessionStore;
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, '');
+    this.tenants = options.tenants ?? {};
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.trustedIssuerHosts = new Set((options.trustedIssuerHosts ?? trustedIssuerHostsFromEnv()).map(host => host.toLowerCase()));
+  }
+
+  setSessionStore(store: SessionStore): void {
+    this.store = store;
+  }
+
+  registerTenant(tenantId: string, profile: TenantIssuerProfile): void {
+    this.tenants[tenantId] = profile;
+  }
+
+  /**
+   * Rotate a tenant's signing key; credentials signed with the previous key stay verifiable
+   */
+  async setTenantKey(tenantId: string, key: JwsKeyPair): Promise<void> {
+    const previous = await this.findTenantKey(tenantId);
+    if (previous && previous.publicJwk.kid !== key.kid) {
+      await this.retireKey(tenantId, previous.publicJwk);
+    }
+    this.tenantKeys.set(tenantId, Promise.resolve(key));
+  }
+
+  getIssuerDid(tenantId: string): string {
+    return didWebFromUrl(`${this.baseUrl}${API_PATH}/tenants/${encodeURIComponent(tenantId)}`);
+  }
+
+  getStatusListUrl(tenantId: string): string {
+    return `${this.baseUrl}${API_PATH}/status/${encodeURIComponent(tenantId)}`;
+  }
+
+  getVerificationUrl(credentialId: string): string {
+    return `${this.baseUrl}/verify/credential/${encodeURIComponent(credentialId)}`;
+  }
+
+  async getDidDocument(tenantId: string): Promise<DidDocument> {
+    const did = this.getIssuerDid(tenantId);
+    const current = (await this.getTenantKey(tenantId)).publicJwk;
+    const methods = [...await this.getRetiredKeys(tenantId), current].map(jwk => ({
+      id: `${did}#${jwk.kid}`,
+      type: 'JsonWebKey2020' as const,
+      controller: did,
+      publicKeyJwk: jwk
+    }));
+    return {
+      '@context': ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/suites/jws-2020/v1'],
+      id: did,
+      verificationMethod: methods,
+      assertionMethod: methods.map(method => method.id)
+    };
+  }
+
+  /**
+   * Issue an Open Badges 3.0 credential as a VC-JWT with a revocation status entry
+   */
+  async issueCredential(request: CredentialRequest, issuedAt: Date = new Date()): Promise<IssuedCredential> {
+    return this.issue(request, issuedAt);
+  }
+
+  /**
+   * Issue a certificate as an Open Badges Certification to the learner it was issued to. A learner
+   * who asks again gets the credential already issued for the certificate.
+   */
+  async issueForCertificate(certificate: CertificateRecord, subjectId: string, issuedAt: Date = new Date()): Promise<IssuedCredential> {
+    if (certificate.revokedAt) {
+      throw new CredentialError('The certificate is revoked', 409);
+    }
+    if (!certificate.tenantId) {
+      throw new CredentialError('The certificate was not issued by a municipality', 409);
+    }
+
+    const [existing] = await this.store.find('verifiable_credentials', {
+      where: { certificate_code: certificate.verificationCode, subject_id: subjectId, revoked_at: null },
+      limit: 1
+    });
+    const existingCredential = existing ? decodeCredentialJwt(String(existing.jwt)) : null;
+    if (existing && existingCredential) {
+      const id = String(existing.id);
+      return { id, jwt: String(existing.jwt), credential: existingCredential, verificationUrl: this.getVerificationUrl(id) };
+    }
+
+    return this.issue({
+      tenantId: certificate.tenantId,
+      subject: { id: subjectId, name: certificate.learnerName },
+      achievement: {
+        id: `${certificate.gameId}/certified`,
+        name: certificate.gameTitle,
+        description: certificate.certificationArea ?? certificate.gameTitle,
+        criteria: `Passed ${certificate.gameTitle} with ${certificate.scorePercent}%, certificate ${certificate.verificationCode}`,
+        achievementType: 'Certification'
+      }
+    }, issuedAt, { certificate_code: certificate.verificationCode });
+  }
+
+  private async issue(request: CredentialRequest, issuedAt: Date, links: SessionRecord = {}): Promise<IssuedCredential> {
+    // Requests come from administrators' JSON bodies, so the shape is checked as well
+    if (!hasIdAndName(request.subject)) {
+      throw new CredentialError('Credential subject needs an id and a name', 400);
+    }
+    if (!hasIdAndName(request.achievement) || typeof request.achievement.description !== 'string') {
+      throw new CredentialError('Credential achievement needs an id, a name and a description', 400);
+    }
+
+    const key = await this.getTenantKey(request.tenantId);
+    const did = this.getIssuerDid(request.tenantId);
+    const id = `urn:uuid:${crypto.randomUUID()}`;
+    const statusListIndex = await this.allocateStatusIndex(request.tenantId);
+    const statusListCredential = this.getStatusListUrl(request.tenantId);
+
+    const credential: VerifiableCredential = {
+      '@context': [VC_CONTEXT, OPEN_BADGES_CONTEXT, STATUS_LIST_CONTEXT],
+      id,
+      type: ['VerifiableCredential', 'OpenBadgeCredential'],
+      issuer: { id: did, type: ['Profile'], name: this.tenants[request.tenantId]?.name ?? request.tenantId },
+      issuanceDate: issuedAt.toISOString(),
+      ...(request.validUntil ? { expirationDate: request.validUntil.toISOString() } : {}),
+      credentialSubject: {
+        id: request.subject.id,
+        type: ['AchievementSubject'],
+        name: request.subject.name.trim(),
+        achievement: {
+          id: `${this.baseUrl}/achievements/${encodeURIComponent(request.achievement.id)}`,
+          type: ['Achievement'],
+          achievementType: request.achievement.achievementType ?? 'Achievement',
+          name: request.achievement.name.trim(),
+          description: request.achievement.description,
+          criteria: { narrative: request.achievement.criteria ?? request.achievement.description }
+        }
+      },
+      credentialStatus: {
+        id: `${statusListCredential}#${statusListIndex}`,
+        type: 'StatusList2021Entry',
+        statusPurpose: 'revocation',
+        statusListIndex: String(statusListIndex),
+        statusListCredential
+      }
+    };
+
+    const jwt = await this.signCredential(credential, key, did, issuedAt, request.validUntil);
+    await this.store.put('verifiable_credentials', id, {
+      id,
+      tenant_id: request.tenantId,
+      subject_id: request.subject.id,
+      achievement_id: request.achievement.id,
+      status_index: statusListIndex,
+      jwt,
+      issued_at: issuedAt.toISOString(),
+      revoked_at: null,
+      ...links
+    });
+
+    return { id, jwt, credential, verificationUrl: this.getVerificationUrl(id) };
+  }
+
+  async getCredential(id: string): Promise<{ id: string; jwt: string; tenantId: string; revokedAt?: string } | null> {
+    const record = await this.store.get('verifiable_credentials', id);
+    if (!record) return null;
+    return {
+      id,
+      jwt: String(record.jwt),
+      tenantId: String(record.tenant_id),
+      revokedAt: typeof record.revoked_at === 'string' ? record.revoked_at : undefined
+    };
+  }
+
+  async getCredentialsForSubject(subjectId: string): Promise<SessionRecord[]> {
+    return this.store.find('verifiable_credentials', {
+      where: { subject_id: subjectId },
+      orderBy: { field: 'issued_at', direction: 'desc' }
+    });
+  }
+
+  /**
+   * Set the credential's bit in its tenant's status list
+   */
+  async revokeCredential(id: string, reason: string, at: Date = new Date()): Promise<boolean> {
+    const record = await this.store.get('verifiable_credentials', id);
+    if (!record) return false;
+
+    await this.updateStatusList(String(record.tenant_id), async list => {
+      const bits = setStatusBit(await decodeStatusList(String(list.encoded_list)), Number(record.status_index), true);
+      return [{ ...list, encoded_list: await encodeStatusList(bits), updated_at: at.toISOString() }, undefined];
+    });
+    await this.store.put('verifiable_credentials', id, { ...record, revoked_at: at.toISOString(), revocation_reason: reason });
+    return true;
+  }
+
+  /**
+   * Revoke the credentials issued for a certificate, e.g. when the certificate itself is revoked
+   */
+  async revokeForCertificate(verificationCode: string, reason: string, at: Date = new Date()): Promise<number> {
+    const records = await this.store.find('verifiable_credentials', { where: { certificate_code: verificationCode, revoked_at: null } });
+    for (const record of records) {
+      await this.revokeCredential(String(record.id), reason, at);
+    }
+    return records.length;
+  }
+
+  /**
+   * The tenant's StatusList2021Credential as a VC-JWT, served at its statusListCredential URL
+   */
+  async getStatusListCredential(tenantId: string, now: Date = new Date()): Promise<string> {
+    // Unknown tenants get no list, so probing tenant ids does not fill the store
+    const key = await this.getTenantKey(tenantId);
+    const list = await this.getStatusListRecord(tenantId);
+    const did = this.getIssuerDid(tenantId);
+    const url = this.getStatusListUrl(tenantId);
+    const credential: VerifiableCredential = {
+      '@context': [VC_CONTEXT, STATUS_LIST_CONTEXT],
+      id: url,
+      type: ['VerifiableCredential', 'StatusList2021Credential'],
+      issuer: { id: did, type: ['Profile'], name: this.tenants[tenantId]?.name ?? tenantId },
+      issuanceDate: now.toISOString(),
+      credentialSubject: {
+        id: `${url}#list`,
+        type: 'StatusList2021',
+        statusPurpose: 'revocation',
+        encodedList: String(list.encoded_list)
+      }
+    };
+    return this.signCredential(credential, key, did, now);
+  }
+
+  /**
+   * Verify a VC-JWT from this or any did:web issuer: signature, validity period and revocation
+   */
+  async verifyCredential(jwt: string, now: Date = new Date()): Promise<CredentialVerificationResult> {
+    const checks: CredentialVerificationResult['checks'] = { signature: false, validityPeriod: false, revocation: null };
+    const result = (status: CredentialVerificationStatus, credential?: VerifiableCredential): CredentialVerificationResult =>
+      ({ valid: status === 'valid', status, checks, credential });
+
+    let decoded: ReturnType<typeof decodeJws>;
+    let claims: Record<string, unknown>;
+    let credential: VerifiableCredential;
+    try {
+      decoded = decodeJws(jwt.trim());
+      claims = JSON.parse(textDecoder.decode(decoded.payload));
+      credential = this.credentialFromClaims(claims);
+    } catch {
+      return result('malformed');
+    }
+
+    const key = await this.resolveIssuerKey(credential.issuer.id, decoded.header.kid);
+    if (!key) return result('unknown_issuer', credential);
+    checks.signature = await verifyJwsSignature(decoded, await importJwsPublicKey(key.jwk));
+    if (!checks.signature) return result('invalid_signature', credential);
+
+    const seconds = toEpochSeconds(now);
+    if (typeof claims.nbf === 'number' && claims.nbf > seconds) return result('not_yet_valid', credential);
+    if (typeof claims.exp === 'number' && claims.exp <= seconds) return result('expired', credential);
+    checks.validityPeriod = true;
+
+    if (credential.credentialStatus) {
+      const revoked = await this.isRevoked(credential.credentialStatus, credential.issuer.id, now);
+      if (revoked === null) return result('status_unavailable', credential);
+      checks.revocation = !revoked;
+      if (revoked) return result('revoked', credential);
+    }
+    return result('valid', credential);
+  }
+
+  // Keys come from VC_TENANT_KEYS or setTenantKey; a key generated here would not survive a restart
+  private async findTenantKey(tenantId: string): Promise<JwsKeyPair | null> {
+    if (!this.tenantKeys.has(tenantId)) {
+      this.envKeys ??= tenantKeysFromEnv();
+      const envKey = (await this.envKeys)[tenantId];
+      if (envKey && !this.tenantKeys.has(tenantId)) {
+        this.tenantKeys.set(tenantId, Promise.resolve(envKey));
+      }
+    }
+    return this.tenantKeys.get(tenantId) ?? null;
+  }
+
+  private async localTenantIds(): Promise<string[]> {
+    this.envKeys ??= tenantKeysFromEnv();
+    return [...new Set([...this.tenantKeys.keys(), ...Object.keys(await this.envKeys), ...Object.keys(this.tenants)])];
+  }
+
+  private async getTenantKey(tenantId: string): Promise<JwsKeyPair> {
+    const key = await this.findTenantKey(tenantId);
+    if (!key) {
+      throw new CredentialError(`No credential signing key is configured for tenant '${tenantId}'`, 404);
+    }
+    return key;
+  }
+
+  private async signCredential(
+    credential: VerifiableCredential,
+    key: JwsKeyPair,
+    did: string,
+    issuedAt: Date,
+    validUntil?: Date
+  ): Promise<string> {
+    const claims = {
+      iss: did,
+      ...(credential.credentialSubject.id ? { sub: credential.credentialSubject.id } : {}),
+      jti: credential.id,
+      nbf: toEpochSeconds(issuedAt),
+      iat: toEpochSeconds(issuedAt),
+      ...(validUntil ? { exp: toEpochSeconds(validUntil) } : {}),
+      vc: credential
+    };
+    return signJws(JSON.stringify(claims), key.privateKey, { typ: 'JWT', kid: `${did}#${key.kid}` });
+  }
+
+  // The JWT claims take precedence over the embedded credential, as VC-JWT 1.1 specifies
+  private credentialFromClaims(claims: Record<string, unknown>): VerifiableCredential {
+    const vc = claims.vc;
+    if (!isObject(vc) || !Array.isArray(vc.type) || !vc.type.includes('VerifiableCredential') || typeof claims.iss !== 'string') {
+      throw new CredentialFormatError('Not a VC-JWT');
+    }
+    const issuer = isObject(vc.issuer) ? vc.issuer : { id: vc.issuer };
+    return {
+      ...vc,
+      id: claims.jti ?? vc.id,
+      issuer: { ...issuer, id: claims.iss },
+      credentialSubject: { ...(isObject(vc.credentialSubject) ? vc.credentialSubject : {}), ...(claims.sub ? { id: claims.sub } : {}) }
+    } as VerifiableCredential;
+  }
+
+  private async resolveIssuerKey(did: string, kid: unknown): Promise<ResolvedKey | null> {
+    if (typeof kid !== 'string' || !kid.startsWith(`${did}#`)) return null;
+    const keyId = kid.slice(did.length + 1);
+
+    const tenantId = (await this.localTenantIds()).find(candidate => this.getIssuerDid(candidate) === did);
+    if (tenantId) {
+      const current = await this.findTenantKey(tenantId);
+      const keys = [...await this.getRetiredKeys(tenantId), ...(current ? [current.publicJwk] : [])];
+      const jwk = keys.find(candidate => candidate.kid === keyId);
+      return jwk ? { did, jwk } : null;
+    }
+
+    try {
+      const response = await this.fetchRemote(didWebToUrl(did), 'application/did+json, application/json');
+      if (!response?.ok) return null;
+      const document = await response.json();
+      if (!isObject(document) || document.id !== did || !Array.isArray(document.verificationMethod)) return null;
+      const method = document.verificationMethod.find((candidate: unknown) => isObject(candidate) && candidate.id === kid);
+      return method && isObject(method.publicKeyJwk) ? { did, jwk: method.publicKeyJwk } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // null when the status list cannot be loaded or trusted
+  private async isRevoked(status: CredentialStatusEntry, issuerDid: string, now: Date): Promise<boolean | null> {
+    const index = Number(status.statusListIndex);
+    if (status.type !== 'StatusList2021Entry' || !Number.isInteger(index)) return null;
+
+    try {
+      const localTenant = (await this.localTenantIds())
+        .find(tenantId => this.getStatusListUrl(tenantId) === status.statusListCredential);
+      const listJwt = localTenant
+        ? await this.getStatusListCredential(localTenant, now)
+        : await this.fetchStatusList(status.statusListCredential);
+      if (!listJwt) return null;
+
+      const decoded = decodeJws(listJwt.trim());
+      const claims: unknown = JSON.parse(textDecoder.decode(decoded.payload));
+      if (!isObject(claims) || claims.iss !== issuerDid) return null;
+      const key = await this.resolveIssuerKey(issuerDid, decoded.header.kid);
+      if (!key || !await verifyJwsSignature(decoded, await importJwsPublicKey(key.jwk))) return null;
+
+      const subject = isObject(claims.vc) ? claims.vc.credentialSubject : undefined;
+      const encodedList = isObject(subject) ? subject.encodedList : undefined;
+      if (typeof encodedList !== 'string') return null;
+      return getStatusBit(await decodeStatusList(encodedList), index);
+    } catch {
+      return null;
+    }
+  }
+
+  private async fetchStatusList(url: string): Promise<string | null> {
+    const response = await this.fetchRemote(url, 'application/vc+jwt, application/jwt, text/plain');
+    return response?.ok ? response.text() : null;
+  }
+
+  // Issuer-controlled URLs are only fetched over HTTPS from trusted hosts, without following redirects
+  private async fetchRemote(url: string, accept: string): Promise<Response | null> {
+    const target = new URL(url);
+    if (target.protocol !== 'https:' || !this.trustedIssuerHosts.has(target.host) || isInternalHostname(target.hostname)) {
+      return null;
+    }
+    return this.fetchImpl(target.href, {
+      headers: { Accept: accept },
+      redirect: 'error',
+      signal: AbortSignal.timeout(REMOTE_FETCH_TIMEOUT_MS)
+    });
+  }
+
+  private async getRetiredKeys(tenantId: string): Promise<TenantPublicKey[]> {
+    const record = await this.store.get('credential_keys', tenantId);
+    return Array.isArray(record?.retired_keys) ? record.retired_keys as TenantPublicKey[] : [];
+  }
+
+  // Retired public keys are stored, so credentials signed before a rotation still verify after a restart
+  private async retireKey(tenantId: string, jwk: TenantPublicKey): Promise<void> {
+    const retired = await this.getRetiredKeys(tenantId);
+    if (retired.some(candidate => candidate.kid === jwk.kid)) return;
+    await this.store.put('credential_keys', tenantId, {
+      tenant_id: tenantId,
+      retired_keys: [...retired, jwk],
+      updated_at: new Date().toISOString()
+    });
+  }
+
+  private async getStatusListRecord(tenantId: string): Promise<SessionRecord> {
+    const existing = await this.store.get('credential_status_lists', tenantId);
+    if (existing) return existing;
+    const record = {
+      tenant_id: tenantId,
+      encoded_list: await encodeStatusList(createStatusList()),
+      size: STATUS_LIST_SIZE,
+      next_index: 0,
+      version: 0,
+      updated_at: new Date().toISOString()
+    };
+    // When two issuers create the list at once, the first write wins
+    if (await this.store.putIfVersion('credential_status_lists', tenantId, record, null)) return record;
+    return (await this.store.get('credential_status_lists', tenantId)) ?? record;
+  }
+
+  // Read-modify-write with compare-and-swap on the list's version, so concurrent issuers never share
+  // an index and concurrent revocations never drop each other's bits
+  private async updateStatusList<T>(
+    tenantId: string,
+    change: (list: SessionRecord) => Promise<[SessionRecord, T]>
+  ): Promise<T> {
+    for (let attempt = 0; attempt < STATUS_LIST_WRITE_ATTEMPTS; attempt++) {
+      const list = await this.getStatusListRecord(tenantId);
+      const version = Number(list.version ?? 0);
+      const [updated, result] = await change(list);
+      if (await this.store.putIfVersion('credential_status_lists', tenantId, { ...updated, version: version + 1 }, version)) {
+        return result;
+      }
+    }
+    throw new Error(`Status list for tenant '${tenantId}' is busy; try again`);
+  }
+
+  // Sequential allocation; a tenant needs a second list after 131072 credentials
+  private allocateStatusIndex(tenantId: string): Promise<number> {
+    return this.updateStatusList(tenantId, async list => {
+      const index = Number(list.next_index);
+      if (index >= Number(list.size)) {
+        throw new Error(`Status list for tenant '${tenantId}' is full`);
+      }
+      return [{ ...list, next_index: index + 1 }, index];
+    });
+  }
+}
+
+/**
+ * Decode a VC-JWT without verifying it, e.g. to show what a QR code contains before verification
+ */
+export const decodeCredentialJwt = (jwt: string): VerifiableCredential | null => {
+  try {
+    const [, payload] = jwt.trim().split('.');
+    const claims = JSON.parse(textDecoder.decode(base64UrlDecode(payload)));
+    return isObject(claims.vc) ? claims.vc as VerifiableCredential : null;
+  } catch {
+    return null;
+  }
+};
+
+// Export singleton instance
+export const verifiableCredentialsService = new VerifiableCredentialsService();
@@ -0,0 +1,475 @@
+/**
+ * xAPI (Tin Can) Statement Emitter
+ * Maps game session events to xAPI 1.0.3 statements and delivers them to a municipal LRS
+ * Statements are queued in localStorage first so field staff without network lose nothing
+ */
+
+export const XAPI_VERSION = '1.0.3';
+
+export const XAPI_VERBS = {
+  initialized: 'http://adlnet.gov/expapi/verbs/initialized',
+  resumed: 'http://adlnet.gov/expapi/verbs/resumed',
+  attempted: 'http://adlnet.gov/expapi/verbs/attempted',
+  completed: 'http://adlnet.gov/expapi/verbs/completed',
+  answered: 'http://adlnet.gov/expapi/verbs/answered',
+  responded: 'http://adlnet.gov/expapi/verbs/responded',
+  passed: 'http://adlnet.gov/expapi/verbs/passed',
+  failed: 'http://adlnet.gov/expapi/verbs/failed',
+  terminated: 'http://adlnet.gov/expapi/verbs/terminated'
+} as const;
+
+export const XAPI_ACTIVITY_TYPES = {
+  game: 'http://adlnet.gov/expapi/activities/course',
+  scene: 'http://adlnet.gov/expapi/activities/module',
+  assessment: 'http://adlnet.gov/expapi/activities/assessment',
+  question: 'http://adlnet.gov/expapi/activities/cmi.interaction'
+} as const;
+
+export type XAPIVerbName = keyof typeof XAPI_VERBS;
+
+export interface XAPIActor {
+  objectType?: 'Agent';
+  name?: string;
+  mbox?: string;
+  account?: {
+    homePage: string;
+    name: string;
+  };
+}
+
+export interface XAPIActivity {
+  objectType: 'Activity';
+  id: string;
+  definition?: {
+    type?: string;
+    name?: Record<string, string>;
+    interactionType?: string;
+  };
+}
+
+export interface XAPIResult {
+  score?: {
+    raw?: number;
+    min?: number;
+    max?: number;
+    scaled?: number;
+  };
+  success?: boolean;
+  completion?: boolean;
+  response?: string;
+  duration?: string;
+}
+
+export interface XAPIStatement {
+  id: string;
+  actor: XAPIActor;
+  verb: {
+    id: string;
+    display: Record<string, string>;
+  };
+  object: XAPIActivity;
+  result?: XAPIResult;
+  context?: {
+    registration?: string;
+    platform?: string;
+    language?: string;
+    contextActivities?: {
+      parent?: XAPIActivity[];
+    };
+  };
+  timestamp: string;
+}
+
+export interface XAPIConfig {
+  enabled: boolean;
+  endpoint: string; // LRS base URL, statements are POSTed to {endpoint}/statements
+  auth?:
+    | { type: 'basic'; username: string; password: string }
+    | { type: 'bearer'; token: string };
+  activityBaseIri?: string;
+  accountHomePage?: string; // Used to build account actors from municipal user IDs
+  language?: string;
+  batchSize?: number;
+  flushInterval?: number; // milliseconds
+  maxQueueSize?: number;
+}
+
+export interface XAPIEventContext {
+  gameId: string;
+  sceneId?: string;
+  sceneTitle?: string;
+  sceneType?: string;
+  sessionId?: string;
+  userId?: string;
+}
+
+// Quiz answers arrive in the runtime's snake_case or in camelCase
+export interface XAPIQuizAnswer {
+  question_id?: string;
+  questionId?: string;
+  selected_answers?: string[] | string;
+  selectedAnswers?: string[] | string;
+  is_correct?: boolean;
+  isCorrect?: boolean;
+}
+
+export interface XAPISceneResults {
+  answers?: XAPIQuizAnswer[];
+  choiceId?: string;
+  passed?: boolean;
+  score?: number;
+  maxScore?: number;
+  timeSpent?: number; // seconds
+}
+
+export interface XAPIEventData extends Partial<XAPIEventContext> {
+  results?: XAPISceneResults;
+  result?: XAPISceneResults;
+  timeSpent?: number; // milliseconds
+  score?: number;
+  totalScore?: number;
+  totalTimeMinutes?: number;
+  completed?: boolean;
+}
+
+const DEFAULT_CONFIG = {
+  activityBaseIri: 'https://games.diginativa.se/xapi',
+  accountHomePage: 'https://games.diginativa.se',
+  language: 'sv-SE',
+  batchSize: 25,
+  flushInterval: 30000, // 30 seconds
+  maxQueueSize: 500
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+/**
+ * Convert milliseconds to an ISO 8601 duration (xAPI result.duration)
+ */
+export const toISODuration = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.round(milliseconds / 10) / 100);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.round((totalSeconds % 60) * 100) / 100;
+  return `PT${hours}H${minutes}M${seconds}S`;
+};
+
+export class XAPIStatementEmitter {
+  private readonly QUEUE_STORAGE_KEY = 'diginativa_xapi_queue';
+  private config: XAPIConfig & typeof DEFAULT_CONFIG;
+  private queue: XAPIStatement[] = [];
+  private actor: XAPIActor | null = null;
+  private registration: string = crypto.randomUUID();
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private flushing: Promise<void> | null = null;
+  private readonly handleOnline = () => {
+    void this.flush();
+  };
+
+  constructor(config: XAPIConfig) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.queue = this.loadQueue();
+
+    if (this.config.enabled && typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+      this.flushTimer = setInterval(() => {
+        void this.flush();
+      }, this.config.flushInterval);
+    }
+  }
+
+  /**
+   * Set the learner statements are attributed to
+   */
+  setActor(actor: XAPIActor): void {
+    this.actor = { objectType: 'Agent', ...actor };
+  }
+
+  /**
+   * Start a new registration (one per game attempt)
+   */
+  startRegistration(registration?: string): string {
+    this.registration = registration && UUID_PATTERN.test(registration) ? registration : crypto.randomUUID();
+    return this.registration;
+  }
+
+  /**
+   * Analytics-compatible entry point - same signature as StrategyPlayHost analytics.trackEvent
+   * and the events GameStateManager records
+   */
+  trackEvent(eventType: string, data: XAPIEventData): void {
+    if (!this.config.enabled || !data?.gameId) {
+      return;
+    }
+
+    const context: XAPIEventContext = {
+      gameId: data.gameId,
+      sceneId: data.sceneId,
+      sceneTitle: data.sceneTitle,
+      sceneType: data.sceneType,
+      sessionId: data.sessionId,
+      userId: data.userId
+    };
+
+    switch (eventType) {
+      case 'game_start':
+      case 'session_started':
+        this.emit('initialized', context, this.gameActivity(context));
+        break;
+      case 'session_resumed':
+        this.emit('resumed', context, this.gameActivity(context));
+        break;
+      case 'scene_start':
+        this.emit('attempted', context, this.sceneActivity(context));
+        break;
+      case 'scene_complete':
+      case 'scene_completed':
+        this.trackSceneCompletion(context, data.results ?? data.result ?? {}, data.timeSpent);
+        break;
+      case 'game_complete':
+      case 'session_completed':
+        this.trackGameCompletion(context, data);
+        break;
+      case 'session_end':
+        this.emit('terminated', context, this.gameActivity(context));
+        break;
+    }
+  }
+
+  /**
+   * Send queued statements to the LRS
+   * Failed batches stay queued and are retried on the next flush or 'online' event
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) {
+      return this.flushing;
+    }
+    if (!this.config.enabled || this.queue.length === 0) {
+      return;
+    }
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      return;
+    }
+
+    this.flushing = (async () => {
+      try {
+        while (this.queue.length > 0) {
+          const batch = this.queue.slice(0, this.config.batchSize);
+          const response = await fetch(`${this.config.endpoint.replace(/\/+$/, '')}/statements`, {
+            method: 'POST',
+            headers: this.buildHeaders(),
+            body: JSON.stringify(batch)
+          });
+
+          if (!response.ok) {
+            // 4xx (except throttling) means the LRS will never accept these statements
+            if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+              console.error(`LRS rejected ${batch.length} xAPI statements: HTTP ${response.status}`);
+              this.removeFromQueue(batch);
+              continue;
+            }
+            throw new Error(`LRS responded with HTTP ${response.status}`);
+          }
+
+          this.removeFromQueue(batch);
+        }
+      } catch (error) {
+        console.warn('xAPI statements queued for later delivery:', error);
+      } finally {
+        this.flushing = null;
+      }
+    })();
+
+    return this.flushing;
+  }
+
+  getQueuedStatements(): XAPIStatement[] {
+    return [...this.queue];
+  }
+
+  destroy(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+  }
+
+  // Private methods
+
+  private trackSceneCompletion(context: XAPIEventContext, results: XAPISceneResults, timeSpent?: number): void {
+    const sceneActivity = this.sceneActivity(context);
+
+    if (context.sceneType === 'quiz' && Array.isArray(results.answers)) {
+      for (const answer of results.answers) {
+        const questionId = answer.question_id ?? answer.questionId;
+        if (!questionId) continue;
+        const selected = answer.selected_answers ?? answer.selectedAnswers ?? [];
+        this.emit('answered', context, this.questionActivity(context, questionId), {
+          success: answer.is_correct ?? answer.isCorrect,
+          response: Array.isArray(selected) ? selected.join('[,]') : String(selected)
+        });
+      }
+    }
+
+    if (context.sceneType === 'dialogue' && results.choiceId) {
+      this.emit('responded', context, sceneActivity, { response: String(results.choiceId) });
+    }
+
+    if (context.sceneType === 'assessment' && typeof results.passed === 'boolean') {
+      this.emit(
+        results.passed ? 'passed' : 'failed',
+        context,
+        { ...sceneActivity, definition: { ...sceneActivity.definition, type: XAPI_ACTIVITY_TYPES.assessment } },
+        { success: results.passed, score: this.buildScore(results.score, results.maxScore) }
+      );
+    }
+
+    const duration = timeSpent ?? (typeof results.timeSpent === 'number' ? results.timeSpent * 1000 : undefined);
+    this.emit('completed', context, sceneActivity, {
+      completion: true,
+      score: this.buildScore(results.score, results.maxScore),
+      ...(duration !== undefined && { duration: toISODuration(duration) })
+    });
+  }
+
+  private trackGameCompletion(context: XAPIEventContext, data: XAPIEventData): void {
+    const score = this.buildScore(data.score ?? data.totalScore, data.score !== undefined ? data.totalScore : 100);
+    const timeSpent = data.timeSpent ?? (data.totalTimeMinutes !== undefined ? data.totalTimeMinutes * 60000 : undefined);
+
+    this.emit('completed', context, this.gameActivity(context), {
+      completion: data.completed !== false,
+      score,
+      ...(timeSpent !== undefined && { duration: toISODuration(timeSpent) })
+    });
+  }
+
+  private emit(verb: XAPIVerbName, context: XAPIEventContext, object: XAPIActivity, result?: XAPIResult): void {
+    const actor = this.actor ?? (context.userId
+      ? { objectType: 'Agent' as const, account: { homePage: this.config.accountHomePage, name: context.userId } }
+      : null);
+
+    if (!actor) {
+      console.warn(`xAPI statement "${verb}" dropped: no actor configured`);
+      return;
+    }
+
+    const gameActivity = this.gameActivity(context);
+    const statement: XAPIStatement = {
+      id: crypto.randomUUID(),
+      actor,
+      verb: { id: XAPI_VERBS[verb], display: { 'en-US': verb } },
+      object,
+      context: {
+        registration: context.sessionId && UUID_PATTERN.test(context.sessionId) ? context.sessionId : this.registration,
+        platform: 'DigiNativa Runtime Engine',
+        language: this.config.language,
+        ...(object.id !== gameActivity.id && { contextActivities: { parent: [gameActivity] } })
+      },
+      timestamp: new Date().toISOString()
+    };
+
+    const cleanedResult = result && this.stripUndefined(result);
+    if (cleanedResult && Object.keys(cleanedResult).length > 0) {
+      statement.result = cleanedResult;
+    }
+
+    this.queue.push(statement);
+    if (this.queue.length > this.config.maxQueueSize) {
+      // Keep the newest statements when the device has been offline for a long time
+      this.queue.splice(0, this.queue.length - this.config.maxQueueSize);
+    }
+    this.saveQueue();
+
+    if (this.queue.length >= this.config.batchSize) {
+      void this.flush();
+    }
+  }
+
+  private gameActivity(context: XAPIEventContext): XAPIActivity {
+    return {
+      objectType: 'Activity',
+      id: `${this.config.activityBaseIri}/games/${encodeURIComponent(context.gameId)}`,
+      definition: { type: XAPI_ACTIVITY_TYPES.game }
+    };
+  }
+
+  private sceneActivity(context: XAPIEventContext): XAPIActivity {
+    return {
+      objectType: 'Activity',
+      id: `${this.gameActivity(context).id}/scenes/${encodeURIComponent(context.sceneId || 'unknown')}`,
+      definition: {
+        type: XAPI_ACTIVITY_TYPES.scene,
+        ...(context.sceneTitle && { name: { [this.config.language]: context.sceneTitle } })
+      }
+    };
+  }
+
+  private questionActivity(context: XAPIEventContext, questionId: string): XAPIActivity {
+    return {
+      objectType: 'Activity',
+      id: `${this.sceneActivity(context).id}/questions/${encodeURIComponent(questionId)}`,
+      definition: { type: XAPI_ACTIVITY_TYPES.question, interactionType: 'choice' }
+    };
+  }
+
+  private buildScore(raw: unknown, max: unknown): XAPIResult['score'] {
+    if (typeof raw !== 'number' || Number.isNaN(raw)) {
+      return undefined;
+    }
+    if (typeof max !== 'number' || max <= 0) {
+      return { raw };
+    }
+    return {
+      raw,
+      min: 0,
+      max,
+      scaled: Math.round(Math.max(-1, Math.min(1, raw / max)) * 10000) / 10000
+    };
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Experience-API-Version': XAPI_VERSION
+    };
+
+    if (this.config.auth?.type === 'basic') {
+      headers.Authorization = `Basic ${btoa(`${this.config.auth.username}:${this.config.auth.password}`)}`;
+    } else if (this.config.auth?.type === 'bearer') {
+      headers.Authorization = `Bearer ${this.config.auth.token}`;
+    }
+
+    return headers;
+  }
+
+  private removeFromQueue(batch: XAPIStatement[]): void {
+    const sent = new Set(batch.map(statement => statement.id));
+    this.queue = this.queue.filter(statement => !sent.has(statement.id));
+    this.saveQueue();
+  }
+
+  private loadQueue(): XAPIStatement[] {
+    try {
+      const stored = localStorage.getItem(this.QUEUE_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Failed to load queued xAPI statements:', error);
+      return [];
+    }
+  }
+
+  private saveQueue(): void {
+    try {
+      localStorage.setItem(this.QUEUE_STORAGE_KEY, JSON.stringify(this.queue));
+    } catch (error) {
+      console.warn('Failed to persist xAPI statement queue:', error);
+    }
+  }
+
+  private stripUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+  }
+}
@@ -242,7 +242,7 @@ const mockAnalytics = {
 // Test data for different cultural contexts
 const culturalGameManifests: Record<string, GameManifest> = {
   swedish: {
-    schemaVersion: '0.1.0',
+    schemaVersion: '0.2.0',
     gameId: 'dos-compliance-test',
     metadata: {
       title: 'GDPR-utbildning för kommunal personal',
@@ -264,7 +264,7 @@ const culturalGameManifests: Record<string, GameManifest> = {
     scenes: []
   },
   german: {
-    schemaVersion: '0.1.0',
+    schemaVersion: '0.2.0',
     gameId: 'bitv-compliance-test',
     metadata: {
       title: 'DSGVO-Schulung für Behördenmitarbeiter',
@@ -286,7 +286,7 @@ const culturalGameManifests: Record<string, GameManifest> = {
     scenes: []
   },
   french: {
-    schemaVersion: '0.1.0',
+    schemaVersion: '0.2.0',
     gameId: 'rgaa-compliance-test',
     metadata: {
       title: 'Formation RGPD pour agents municipaux',
@@ -308,7 +308,7 @@ const culturalGameManifests: Record<string, GameManifest> = {
     scenes: []
   },
   dutch: {
-    schemaVersion: '0.1.0',
+    schemaVersion: '0.2.0',
     gameId: 'en301549-compliance-test',
     metadata: {
       title: 'AVG-training voor gemeentepersoneel',
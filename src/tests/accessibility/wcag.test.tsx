@@ -26,7 +26,7 @@ const mockAnalytics = {
 
 // Sample accessible game manifest
 const accessibleGameManifest: GameManifest = {
-  schemaVersion: '0.1.0',
+  schemaVersion: '0.2.0',
   gameId: 'accessibility-test-game',
   metadata: {
     title: 'WCAG Compliant GDPR Training',
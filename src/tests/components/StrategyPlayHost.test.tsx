@@ -21,7 +21,7 @@ const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
 
 // Sample game manifest for testing
 const sampleGameManifest: GameManifest = {
-  schemaVersion: '0.1.0',
+  schemaVersion: '0.2.0',
   gameId: 'test-game',
   metadata: {
     title: 'Test GDPR Training',
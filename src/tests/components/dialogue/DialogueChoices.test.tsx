@@ -0,0 +1,119 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ChakraProvider } from '@chakra-ui/react';
+import { DialogueScene } from '../../../components/DialogueScene/DialogueScene';
+
+const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <ChakraProvider>
+    {children}
+  </ChakraProvider>
+);
+
+const branchingDialogueData = {
+  scene_id: 'incident-dialogue',
+  scene_type: 'DialogueScene' as const,
+  title: 'Personuppgiftsincident',
+  description: 'En kollega har skickat ett e-postmeddelande till fel mottagare',
+  characters: [
+    {
+      character_id: 'maria',
+      name: 'Maria Lindqvist',
+      role: 'Dataskyddsombud',
+      avatar_description: 'Municipal data protection officer'
+    }
+  ],
+  dialogue_turns: [
+    {
+      speaker: 'Maria Lindqvist',
+      character_id: 'maria',
+      text: 'Ett mejl med personnummer har skickats till fel mottagare.',
+      emotion: 'concerned' as const,
+      timing: 0
+    },
+    {
+      speaker: 'Maria Lindqvist',
+      character_id: 'maria',
+      text: 'Vad gör du först?',
+      emotion: 'questioning' as const,
+      timing: 2000
+    }
+  ],
+  learning_objectives: ['Hantera personuppgiftsincidenter'],
+  scene_duration: 120,
+  choices: [
+    { id: 'report', text: 'Rapportera incidenten direkt', nextScene: 'report-flow', points: 10 },
+    { id: 'wait', text: 'Vänta och se om något händer', nextScene: 'consequences', points: 0 }
+  ]
+};
+
+describe('DialogueScene choices', () => {
+  const onComplete = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows the choices only after the last dialogue turn', async () => {
+    render(
+      <DialogueScene sceneData={branchingDialogueData} onComplete={onComplete} culturalContext="swedish" />,
+      { wrapper: TestWrapper }
+    );
+
+    expect(screen.queryByRole('group', { name: 'Välj ditt svar' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /Nästa dialogrunda/ }));
+
+    const choices = await screen.findByRole('group', { name: 'Välj ditt svar' });
+    expect(within(choices).getAllByRole('button')).toHaveLength(2);
+    expect(screen.queryByRole('button', { name: /Nästa dialogrunda/ })).not.toBeInTheDocument();
+  });
+
+  it('completes the scene with the selected choice', async () => {
+    render(
+      <DialogueScene sceneData={branchingDialogueData} onComplete={onComplete} culturalContext="swedish" />,
+      { wrapper: TestWrapper }
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /Nästa dialogrunda/ }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Rapportera incidenten direkt' }));
+
+    await waitFor(() => {
+      expect(onComplete).toHaveBeenCalledWith({
+        choiceId: 'report',
+        choiceText: 'Rapportera incidenten direkt',
+        nextScene: 'report-flow',
+        points: 10
+      });
+    });
+  });
+
+  it('does not skip the choice with keyboard navigation', async () => {
+    render(
+      <DialogueScene sceneData={branchingDialogueData} onComplete={onComplete} culturalContext="swedish" />,
+      { wrapper: TestWrapper }
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /Nästa dialogrunda/ }));
+    await screen.findByRole('group', { name: 'Välj ditt svar' });
+
+    fireEvent.keyDown(window, { key: 'Enter' });
+    await new Promise(resolve => setTimeout(resolve, 600));
+
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+
+  it('completes without a choice when the scene has none', async () => {
+    const linearDialogue = { ...branchingDialogueData, choices: undefined };
+    render(
+      <DialogueScene sceneData={linearDialogue} onComplete={onComplete} culturalContext="swedish" />,
+      { wrapper: TestWrapper }
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /Nästa dialogrunda/ }));
+    await waitFor(() => expect(screen.getByText('Vad gör du först?')).toBeInTheDocument());
+    fireEvent.click(screen.getByRole('button', { name: /Nästa dialogrunda/ }));
+
+    await waitFor(() => expect(onComplete).toHaveBeenCalledWith());
+  });
+});
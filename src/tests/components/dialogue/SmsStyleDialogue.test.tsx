@@ -444,7 +444,7 @@ describe('SMS-Style Dialogue Interface Tests', () => {
       );
 
       // Check for aria-live region announcing conversation progress
-      const liveRegion = screen.getByText(/Dialogue turn 1 of 4/);
+      const liveRegion = screen.getByText(/Dialogrunda 1 av 4/);
       expect(liveRegion).toBeInTheDocument();
     });
 
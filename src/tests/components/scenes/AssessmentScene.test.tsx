@@ -0,0 +1,97 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AssessmentScene } from '../../../components/scenes/AssessmentScene';
+import { ChakraThemeProvider } from '../../../theme/ChakraThemeProvider';
+import type { AssessmentScene as AssessmentSceneType } from '../../../types/game-manifest';
+
+const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <ChakraThemeProvider>
+    {children}
+  </ChakraThemeProvider>
+);
+
+const sampleAssessmentScene: AssessmentSceneType = {
+  id: 'final-assessment',
+  type: 'assessment',
+  title: 'Slutprov GDPR',
+  instructions: 'Välj det bästa svaret på varje fråga.',
+  navigation: { next: 'summary' },
+  questions: [
+    {
+      id: 'q1',
+      text: 'Vad är en personuppgift?',
+      weight: 2,
+      options: [
+        { id: 'a', text: 'Information som kan kopplas till en person', score: 10 },
+        { id: 'b', text: 'Endast personnummer', score: 0 }
+      ]
+    },
+    {
+      id: 'q2',
+      text: 'När ska en incident rapporteras?',
+      options: [
+        { id: 'a', text: 'Inom 72 timmar', score: 10 },
+        { id: 'b', text: 'Inom en månad', score: 0 }
+      ]
+    }
+  ],
+  scoring: { passThreshold: 70 },
+  certificationArea: 'Dataskydd'
+};
+
+describe('AssessmentScene', () => {
+  const onComplete = vi.fn();
+  const analytics = { trackEvent: vi.fn() };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const answerAll = (optionTexts: string[]) => {
+    optionTexts.forEach((text, index) => {
+      fireEvent.click(screen.getByRole('radio', { name: text }));
+      fireEvent.click(screen.getByRole('button', { name: index === optionTexts.length - 1 ? 'Lämna in' : 'Nästa fråga' }));
+    });
+  };
+
+  it('presents the manifest questions one at a time', () => {
+    render(<AssessmentScene scene={sampleAssessmentScene} onComplete={onComplete} analytics={analytics} />, { wrapper: TestWrapper });
+
+    expect(screen.getByText('Fråga 1 av 2')).toBeInTheDocument();
+    expect(screen.getByRole('radiogroup', { name: 'Vad är en personuppgift?' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Nästa fråga' })).toBeDisabled();
+  });
+
+  it('returns the weighted score and answers to the host', () => {
+    render(<AssessmentScene scene={sampleAssessmentScene} onComplete={onComplete} analytics={analytics} />, { wrapper: TestWrapper });
+
+    answerAll(['Information som kan kopplas till en person', 'Inom en månad']);
+    expect(screen.getByText('67%')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Avsluta ändå' }));
+
+    expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({
+      nextScene: 'summary',
+      score: 20,
+      maxScore: 30,
+      passed: false,
+      answers: { q1: 'a', q2: 'b' },
+      assessment: expect.objectContaining({ percentageScore: 67, passThreshold: 70 })
+    }));
+  });
+
+  it('lets the player retry a failed assessment', () => {
+    render(<AssessmentScene scene={sampleAssessmentScene} onComplete={onComplete} analytics={analytics} />, { wrapper: TestWrapper });
+
+    answerAll(['Endast personnummer', 'Inom en månad']);
+    fireEvent.click(screen.getByRole('button', { name: 'Försök igen' }));
+
+    expect(screen.getByText('Fråga 1 av 2')).toBeInTheDocument();
+    expect(screen.getByText('Försök 2')).toBeInTheDocument();
+    answerAll(['Information som kan kopplas till en person', 'Inom 72 timmar']);
+    fireEvent.click(screen.getByRole('button', { name: /Fortsätt till nästa steg/ }));
+
+    expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({ passed: true, attempts: 2, score: 30 }));
+  });
+});
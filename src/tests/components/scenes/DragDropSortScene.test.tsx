@@ -0,0 +1,75 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DragDropSortScene } from '../../../components/scenes/DragDropSortScene';
+import { ChakraThemeProvider } from '../../../theme/ChakraThemeProvider';
+import type { DragDropSortScene as DragDropSortSceneType } from '../../../types/game-manifest';
+
+const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <ChakraThemeProvider>
+    {children}
+  </ChakraThemeProvider>
+);
+
+const sampleSortScene: DragDropSortSceneType = {
+  id: 'sort-documents',
+  type: 'drag_drop_sort',
+  title: 'Sortera handlingar',
+  navigation: { next: 'summary' },
+  categories: [
+    { id: 'public', label: 'Allmän handling' },
+    { id: 'secret', label: 'Sekretessbelagd' }
+  ],
+  items: [
+    { id: 'minutes', text: 'Nämndprotokoll', categoryId: 'public' },
+    { id: 'health', text: 'Journalanteckning', categoryId: 'secret', feedback: 'Hälso- och sjukvårdssekretess' }
+  ]
+};
+
+const place = (itemText: string, categoryLabel: string) => {
+  fireEvent.click(screen.getByRole('button', { name: itemText }));
+  fireEvent.click(screen.getByRole('button', { name: `Placera här: ${categoryLabel}` }));
+};
+
+describe('DragDropSortScene', () => {
+  const onComplete = vi.fn();
+  const analytics = { trackEvent: vi.fn() };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('keeps the check button disabled until every item is placed', () => {
+    render(<DragDropSortScene scene={sampleSortScene} onComplete={onComplete} analytics={analytics} />, { wrapper: TestWrapper });
+
+    expect(screen.getByRole('button', { name: 'Kontrollera' })).toBeDisabled();
+    place('Nämndprotokoll', 'Allmän handling');
+
+    expect(screen.getByText('1 av 2 sorterade')).toBeInTheDocument();
+    expect(analytics.trackEvent).toHaveBeenCalledWith('drag_drop_place', {
+      sceneId: 'sort-documents',
+      itemId: 'minutes',
+      categoryId: 'public'
+    });
+  });
+
+  it('scores placements against the correct categories', () => {
+    render(<DragDropSortScene scene={sampleSortScene} onComplete={onComplete} analytics={analytics} />, { wrapper: TestWrapper });
+
+    place('Nämndprotokoll', 'Allmän handling');
+    place('Journalanteckning', 'Allmän handling');
+    fireEvent.click(screen.getByRole('button', { name: 'Kontrollera' }));
+
+    expect(screen.getByText('1 av 2 rätt (50%)')).toBeInTheDocument();
+    expect(screen.getByText(/Hälso- och sjukvårdssekretess/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Fortsätt' }));
+    expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({
+      nextScene: 'summary',
+      score: 1,
+      maxScore: 2,
+      passed: false,
+      answers: { placements: { minutes: 'public', health: 'public' } }
+    }));
+  });
+});
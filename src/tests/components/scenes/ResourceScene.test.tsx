@@ -0,0 +1,79 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ResourceScene } from '../../../components/scenes/ResourceScene';
+import { ChakraThemeProvider } from '../../../theme/ChakraThemeProvider';
+import type { ResourceScene as ResourceSceneType } from '../../../types/game-manifest';
+
+const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <ChakraThemeProvider>
+    {children}
+  </ChakraThemeProvider>
+);
+
+const sampleResourceScene: ResourceSceneType = {
+  id: 'policy-resources',
+  type: 'resource',
+  title: 'Styrdokument',
+  navigation: { next: 'summary' },
+  layout: 'list',
+  resources: [
+    { id: 'policy', title: 'Dataskyddspolicy', type: 'pdf', url: '/docs/dataskyddspolicy.pdf', size: '2.4 MB' },
+    { id: 'intro-video', title: 'Introduktion till GDPR', type: 'video', url: '/media/gdpr-intro.mp4' },
+    { id: 'imy', title: 'IMY:s vägledning', type: 'link', url: 'https://www.imy.se/verksamhet/dataskydd/' },
+    { id: 'template', title: 'Mall för incidentrapport', type: 'download', url: '/docs/incident.docx', size: '48 KB' },
+    { id: 'unsafe', title: 'Trasig länk', type: 'link', url: 'javascript:alert(1)' }
+  ]
+};
+
+describe('ResourceScene', () => {
+  const onComplete = vi.fn();
+  const analytics = { trackEvent: vi.fn() };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders every resource with type and file size labels', () => {
+    render(<ResourceScene scene={sampleResourceScene} onComplete={onComplete} analytics={analytics} />, { wrapper: TestWrapper });
+
+    expect(screen.getByText('Dataskyddspolicy')).toBeInTheDocument();
+    expect(screen.getByLabelText('Filstorlek 2.4 MB')).toBeInTheDocument();
+    expect(screen.getByText('0 av 5 resurser öppnade')).toBeInTheDocument();
+  });
+
+  it('opens PDFs in an accessible inline viewer', () => {
+    render(<ResourceScene scene={sampleResourceScene} onComplete={onComplete} analytics={analytics} />, { wrapper: TestWrapper });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Läs dokument: Dataskyddspolicy' }));
+
+    const dialog = screen.getByRole('dialog');
+    expect(within(dialog).getByTitle('PDF-dokument: Dataskyddspolicy')).toBeInTheDocument();
+    expect(analytics.trackEvent).toHaveBeenCalledWith('resource_open', expect.objectContaining({ resourceId: 'policy', method: 'viewer' }));
+  });
+
+  it('opens external links safely and refuses unsafe URLs', () => {
+    render(<ResourceScene scene={sampleResourceScene} onComplete={onComplete} analytics={analytics} />, { wrapper: TestWrapper });
+
+    const link = screen.getByRole('link', { name: /Öppna länk: IMY:s vägledning/ });
+    expect(link).toHaveAttribute('target', '_blank');
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer');
+    expect(screen.getByText('Extern webbplats: www.imy.se')).toBeInTheDocument();
+    expect(screen.getByText('Resursen är inte tillgänglig')).toBeInTheDocument();
+    expect(screen.queryByRole('link', { name: /Trasig länk/ })).not.toBeInTheDocument();
+  });
+
+  it('reports opened resources in the scene result', () => {
+    render(<ResourceScene scene={sampleResourceScene} onComplete={onComplete} analytics={analytics} />, { wrapper: TestWrapper });
+
+    fireEvent.click(screen.getByRole('link', { name: /Ladda ner: Mall för incidentrapport/ }));
+    fireEvent.click(screen.getByRole('link', { name: /Öppna länk: IMY:s vägledning/ }));
+    fireEvent.click(screen.getByRole('button', { name: 'Fortsätt' }));
+
+    expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({
+      nextScene: 'summary',
+      openedResources: ['template', 'imy'],
+      totalResources: 5
+    }));
+  });
+});
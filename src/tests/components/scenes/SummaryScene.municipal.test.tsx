@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { ChakraProvider } from '@chakra-ui/react';
-import { SummaryScene } from '../../../components/scenes/SummaryScene';
+import { SummaryScene, type SummaryResults } from '../../../components/scenes/SummaryScene';
 import type { SummaryScene as SummarySceneType } from '../../../types/game-manifest';
 import type { MunicipalBranding } from '../../../utils/municipalBranding';
 
@@ -25,9 +25,27 @@ const mockSummaryScene: SummarySceneType = {
   type: 'SummaryScene',
   title: 'GDPR-utbildning Slutförd',
   message: 'Du har framgångsrikt genomfört din kompetensutveckling',
+  achievements: [
+    { id: 'rights', title: 'GDPR personuppgifter och rättigheter', description: 'Registrerades rättigheter' },
+    { id: 'security', title: 'Datahantering och säkerhet', description: 'Säker hantering' },
+    { id: 'incidents', title: 'Anmälningsplikt vid incidenter', description: 'Incidentrapportering' }
+  ],
+  nextActions: [
+    { label: 'Tillämpa GDPR-kunskaper på arbetsplatsen', action: 'exit' },
+    { label: 'Diskutera viktiga punkter med närmaste chef', action: 'exit' },
+    { label: 'Kontakta IT-support vid specifika frågor', action: 'exit' }
+  ],
   config: {}
 };
 
+// Game state reached when the summary is shown: 147 of 160 points in 6 min 45 s
+const mockResults: SummaryResults = {
+  score: 147,
+  maxScore: 160,
+  timeSpent: 405_000,
+  passed: true
+};
+
 // Mock analytics
 const mockAnalytics = {
   trackEvent: vi.fn()
@@ -71,6 +89,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -94,6 +113,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -118,6 +138,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -137,9 +158,11 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
+            onDownloadCertificate={vi.fn().mockResolvedValue(undefined)}
           />
         </TestWrapper>
       );
@@ -157,11 +180,30 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
       expect(screen.getByText('Skickat till din tjänst-e-post')).toBeInTheDocument();
     });
 
+    it('shows a failed game as not passed, without a certificate', () => {
+      render(
+        <TestWrapper>
+          <SummaryScene
+            scene={mockSummaryScene}
+            results={{ ...mockResults, score: 40, passed: false }}
+            onComplete={mockOnComplete}
+            municipalBranding={mockMalmoStadBranding}
+            onDownloadCertificate={vi.fn().mockResolvedValue(undefined)}
+          />
+        </TestWrapper>
+      );
+
+      expect(screen.getByRole('heading', { level: 2, name: /Ej godkänd/ })).toBeInTheDocument();
+      expect(screen.getByText(/6 min 45 sek • 25% resultat/)).toBeInTheDocument();
+      expect(screen.queryByText('Certifikat Erhållet')).not.toBeInTheDocument();
+    });
+
     it('uses proper ARIA labels for progress information', () => {
       render(
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -184,6 +226,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -212,6 +255,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -233,6 +277,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -254,6 +299,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -271,6 +317,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -298,6 +345,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -323,6 +371,33 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         municipality: 'Malmö Stad'
       });
     });
+
+    it('issues the certificate and reports a failed download', async () => {
+      const onDownloadCertificate = vi.fn()
+        .mockRejectedValueOnce(new Error('Certificate signing key is not configured'))
+        .mockResolvedValueOnce(undefined);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      render(
+        <TestWrapper>
+          <SummaryScene
+            scene={mockSummaryScene}
+            results={mockResults}
+            onComplete={mockOnComplete}
+            municipalBranding={mockMalmoStadBranding}
+            onDownloadCertificate={onDownloadCertificate}
+          />
+        </TestWrapper>
+      );
+
+      const certificateButton = screen.getByRole('button', { name: /Ladda ner ditt officiella GDPR-certifikat/ });
+      fireEvent.click(certificateButton);
+      expect(await screen.findByText(/Certifikatet kunde inte skapas/)).toBeInTheDocument();
+
+      fireEvent.click(certificateButton);
+      await waitFor(() => expect(screen.queryByText(/Certifikatet kunde inte skapas/)).not.toBeInTheDocument());
+      expect(onDownloadCertificate).toHaveBeenCalledTimes(2);
+    });
   });
 
   describe('Professional Animation & Accessibility', () => {
@@ -346,6 +421,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -362,6 +438,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -388,6 +465,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -423,9 +501,11 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
+            onDownloadCertificate={vi.fn().mockResolvedValue(undefined)}
           />
         </TestWrapper>
       );
@@ -441,6 +521,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -462,9 +543,11 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
+            supportContact="it-support@malmo.se"
           />
         </TestWrapper>
       );
@@ -481,6 +564,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -499,6 +583,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -514,8 +599,9 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
           gameCompleted: true,
           finalScore: 147,
           maxScore: 160,
-          timeSpent: '6 min 45 sek',
-          certificateEarned: true,
+          passed: true,
+          timeSpent: 405_000,
+          certificateEarned: false,
           municipalCompletion: true,
           municipality: 'Malmö Stad'
         });
@@ -525,8 +611,8 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         sceneId: mockSummaryScene.id,
         totalScore: 147,
         percentageScore: 92,
-        timeSpent: '6 min 45 sek',
-        certificateEarned: true,
+        timeSpent: 405_000,
+        certificateEarned: false,
         municipality: 'Malmö Stad',
         culturalContext: 'swedish'
       });
@@ -537,6 +623,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             // No municipal branding provided
@@ -556,6 +643,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -576,6 +664,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
@@ -593,6 +682,7 @@ describe('Municipal Summary Screen Implementation (TASK-HD-013)', () => {
         <TestWrapper>
           <SummaryScene
             scene={mockSummaryScene}
+            results={mockResults}
             onComplete={mockOnComplete}
             analytics={mockAnalytics}
             municipalBranding={mockMalmoStadBranding}
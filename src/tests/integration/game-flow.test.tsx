@@ -22,7 +22,7 @@ const mockAnalytics = {
 
 // Complete GDPR training game manifest
 const completeGDPRGame: GameManifest = {
-  schemaVersion: '0.1.0',
+  schemaVersion: '0.2.0',
   gameId: 'gdpr-complete-training',
   metadata: {
     title: 'Complete GDPR Training - Malmö Municipality',
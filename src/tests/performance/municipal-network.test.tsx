@@ -137,7 +137,7 @@ class NetworkSimulator {
 
 // Test utilities
 const mockGameManifest: GameManifest = {
-  schemaVersion: '0.1.0',
+  schemaVersion: '0.2.0',
   gameId: 'municipal-performance-test',
   metadata: {
     title: 'Municipal Network Test Game',
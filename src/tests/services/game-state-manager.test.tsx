@@ -22,69 +22,41 @@ import {
   GameState, 
   GameResults 
 } from '../../services/game-state-manager';
+import { offlineResilienceManager } from '../../optimization/OfflineResilienceManager';
+
+// Spy SessionStore: every call resolves like an empty store unless a test overrides it
+const mockStore = {
+  backend: 'memory' as const,
+  get: vi.fn(),
+  put: vi.fn(),
+  putIfVersion: vi.fn(),
+  delete: vi.fn(),
+  find: vi.fn(),
+  deleteWhere: vi.fn()
+};
 
-// Mock Supabase
-const mockSupabase = {
-  from: vi.fn(() => ({
-    select: vi.fn(() => ({
-      eq: vi.fn(() => ({
-        eq: vi.fn(() => ({
-          single: vi.fn()
-        })),
-        is: vi.fn(() => ({
-          order: vi.fn(() => ({
-            limit: vi.fn()
-          }))
-        })),
-        lt: vi.fn()
-      })),
-      is: vi.fn(() => ({
-        lt: vi.fn()
-      })),
-      order: vi.fn(() => ({
-        limit: vi.fn()
-      }))
-    })),
-    upsert: vi.fn(),
-    update: vi.fn(() => ({
-      eq: vi.fn()
-    })),
-    insert: vi.fn(),
-    delete: vi.fn(() => ({
-      is: vi.fn(() => ({
-        lt: vi.fn()
-      }))
-    }))
-  }))
+const resetMockStore = () => {
+  mockStore.get.mockReset().mockResolvedValue(null);
+  mockStore.put.mockReset().mockResolvedValue(undefined);
+  mockStore.putIfVersion.mockReset().mockResolvedValue(true);
+  mockStore.delete.mockReset().mockResolvedValue(undefined);
+  mockStore.find.mockReset().mockResolvedValue([]);
+  mockStore.deleteWhere.mockReset().mockResolvedValue(0);
 };
 
-vi.mock('../../lib/supabase', () => ({
-  supabase: mockSupabase
-}));
+const putsTo = (collection: string) =>
+  mockStore.put.mock.calls.filter(([target]) => target === collection).map(([, , record]) => record);
+
+gameStateManager.setSessionStore(mockStore);
 
 // Mock crypto.randomUUID
-global.crypto = {
-  randomUUID: vi.fn(() => 'test-session-id-12345')
-} as any;
-
-// Mock navigator
-Object.defineProperty(global, 'navigator', {
-  value: {
-    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 14_7_1 like Mac OS X) AppleWebKit/605.1.15'
-  },
-  writable: true
-});
+vi.spyOn(globalThis.crypto, 'randomUUID').mockReturnValue('test-session-id-12345' as any);
 
-// Mock window and screen
-Object.defineProperty(global, 'window', {
-  value: {
-    screen: {
-      width: 375,
-      height: 812
-    }
-  },
-  writable: true
-});
+// Anna Svensson's iPhone; only the user agent and screen are stubbed, so React Testing Library keeps jsdom's document
+vi.spyOn(window.navigator, 'userAgent', 'get')
+  .mockReturnValue('Mozilla/5.0 (iPhone; CPU iPhone OS 14_7_1 like Mac OS X) AppleWebKit/605.1.15');
+vi.spyOn(window.screen, 'width', 'get').mockReturnValue(375);
+vi.spyOn(window.screen, 'height', 'get').mockReturnValue(812);
 
 // Mock console methods to reduce noise
 const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
@@ -94,6 +66,7 @@ const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
 describe('GameStateManager Unit Tests', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    resetMockStore();
     
     // Clear any existing intervals
     vi.clearAllTimers();
@@ -107,15 +80,6 @@ describe('GameStateManager Unit Tests', () => {
 
   describe('Game Session Management', () => {
     it('should start a new game session successfully', async () => {
-      // Mock successful database save
-      const mockUpsert = vi.fn().mockResolvedValue({ data: null, error: null });
-      const mockInsert = vi.fn().mockResolvedValue({ data: null, error: null });
-      
-      mockSupabase.from.mockReturnValue({
-        upsert: mockUpsert,
-        insert: mockInsert
-      });
-
       const gameState = await gameStateManager.startGameSession(
         'anna.svensson@malmo.se',
         'gdpr-training-v2',
@@ -139,12 +103,13 @@ describe('GameStateManager Unit Tests', () => {
       expect(gameState.deviceInfo.screenSize).toBe('375x812');
 
       // Verify database calls
-      expect(mockUpsert).toHaveBeenCalledWith({
+      expect(mockStore.put).toHaveBeenCalledWith('game_sessions', 'test-session-id-12345', {
         id: 'test-session-id-12345',
         user_id: 'anna.svensson@malmo.se',
         game_id: 'gdpr-training-v2',
         tenant_id: 'malmo_municipality',
         started_at: expect.any(String),
+        completed_at: null,
         progress: expect.objectContaining({
           currentSceneId: '',
           sceneIndex: 0,
@@ -154,7 +119,7 @@ describe('GameStateManager Unit Tests', () => {
       });
 
       // Verify analytics tracking
-      expect(mockInsert).toHaveBeenCalledWith({
+      expect(mockStore.put).toHaveBeenCalledWith('analytics_events', expect.any(String), {
         session_id: 'test-session-id-12345',
         event_type: 'session_started',
         event_data: expect.objectContaining({
@@ -162,7 +127,8 @@ describe('GameStateManager Unit Tests', () => {
           userId: 'anna.svensson@malmo.se',
           culturalContext: 'swedish_municipal',
           deviceType: 'mobile'
-        })
+        }),
+        created_at: expect.any(String)
       });
     });
 
@@ -192,20 +158,7 @@ describe('GameStateManager Unit Tests', () => {
         }
       };
 
-      const mockSelect = vi.fn().mockReturnValue({
-        eq: vi.fn().mockReturnValue({
-          eq: vi.fn().mockReturnValue({
-            single: vi.fn().mockResolvedValue({ data: mockSessionData, error: null })
-          })
-        })
-      });
-
-      const mockInsert = vi.fn().mockResolvedValue({ data: null, error: null });
-
-      mockSupabase.from.mockReturnValue({
-        select: mockSelect,
-        insert: mockInsert
-      });
+      mockStore.get.mockResolvedValue(mockSessionData);
 
       const resumedState = await gameStateManager.resumeGameSession('existing-session-123');
 
@@ -222,39 +175,43 @@ describe('GameStateManager Unit Tests', () => {
       expect(resumedState?.progress.totalTimeSpent).toBe(180000);
 
       // Verify analytics tracking for resume
-      expect(mockInsert).toHaveBeenCalledWith({
+      expect(mockStore.put).toHaveBeenCalledWith('analytics_events', expect.any(String), {
         session_id: 'existing-session-123',
         event_type: 'session_resumed',
         event_data: expect.objectContaining({
           sessionId: 'existing-session-123',
           resumeAfterMinutes: 30,
           progress: 2
-        })
+        }),
+        created_at: expect.any(String)
       });
     });
 
     it('should return null for non-existent session', async () => {
-      const mockSelect = vi.fn().mockReturnValue({
-        eq: vi.fn().mockReturnValue({
-          eq: vi.fn().mockReturnValue({
-            single: vi.fn().mockResolvedValue({ data: null, error: { code: 'PGRST116' } })
-          })
-        })
-      });
-
-      mockSupabase.from.mockReturnValue({
-        select: mockSelect
-      });
-
       const result = await gameStateManager.resumeGameSession('non-existent-session');
 
+      expect(mockStore.get).toHaveBeenCalledWith('game_sessions', 'non-existent-session');
       expect(result).toBeNull();
       expect(consoleErrorSpy).toHaveBeenCalledWith(
         'Failed to resume session:', 
-        expect.objectContaining({ code: 'PGRST116' })
+        'non-existent-session'
       );
     });
 
+    it('should not resume completed sessions', async () => {
+      mockStore.get.mockResolvedValue({
+        id: 'completed-session-123',
+        user_id: 'anna.svensson@malmo.se',
+        started_at: new Date().toISOString(),
+        completed_at: new Date().toISOString(),
+        progress: {}
+      });
+
+      const result = await gameStateManager.resumeGameSession('completed-session-123');
+
+      expect(result).toBeNull();
+    });
+
     it('should reject sessions older than 24 hours', async () => {
       const oldSessionData = {
         id: 'old-session-123',
@@ -264,17 +221,7 @@ describe('GameStateManager Unit Tests', () => {
         progress: {}
       };
 
-      const mockSelect = vi.fn().mockReturnValue({
-        eq: vi.fn().mockReturnValue({
-          eq: vi.fn().mockReturnValue({
-            single: vi.fn().mockResolvedValue({ data: oldSessionData, error: null })
-          })
-        })
-      });
-
-      mockSupabase.from.mockReturnValue({
-        select: mockSelect
-      });
+      mockStore.get.mockResolvedValue(oldSessionData);
 
       const result = await gameStateManager.resumeGameSession('old-session-123');
 
@@ -287,15 +234,6 @@ describe('GameStateManager Unit Tests', () => {
 
   describe('State Updates and Progress Tracking', () => {
     beforeEach(async () => {
-      // Start a session for update tests
-      const mockUpsert = vi.fn().mockResolvedValue({ data: null, error: null });
-      const mockInsert = vi.fn().mockResolvedValue({ data: null, error: null });
-      
-      mockSupabase.from.mockReturnValue({
-        upsert: mockUpsert,
-        insert: mockInsert
-      });
-
       await gameStateManager.startGameSession(
         'anna.svensson@malmo.se',
         'gdpr-training-v2',
@@ -305,14 +243,6 @@ describe('GameStateManager Unit Tests', () => {
     });
 
     it('should update game state with scene completion', async () => {
-      const mockUpsert = vi.fn().mockResolvedValue({ data: null, error: null });
-      const mockInsert = vi.fn().mockResolvedValue({ data: null, error: null });
-      
-      mockSupabase.from.mockReturnValue({
-        upsert: mockUpsert,
-        insert: mockInsert
-      });
-
       await gameStateManager.updateGameState('test-session-id-12345', {
         currentSceneId: 'scene-1',
         sceneIndex: 1,
@@ -321,7 +251,9 @@ describe('GameStateManager Unit Tests', () => {
       });
 
       // Verify database update was called
-      expect(mockUpsert).toHaveBeenCalledWith(
+      expect(mockStore.put).toHaveBeenCalledWith(
+        'game_sessions',
+        'test-session-id-12345',
         expect.objectContaining({
           id: 'test-session-id-12345',
           progress: expect.objectContaining({
@@ -337,14 +269,15 @@ describe('GameStateManager Unit Tests', () => {
       );
 
       // Verify analytics tracking
-      expect(mockInsert).toHaveBeenCalledWith({
+      expect(mockStore.put).toHaveBeenCalledWith('analytics_events', expect.any(String), {
         session_id: 'test-session-id-12345',
         event_type: 'scene_completed',
         event_data: expect.objectContaining({
           sessionId: 'test-session-id-12345',
           sceneId: 'scene-1',
           timeSpent: 45000
-        })
+        }),
+        created_at: expect.any(String)
       });
     });
 
@@ -357,14 +290,6 @@ describe('GameStateManager Unit Tests', () => {
     });
 
     it('should not duplicate completed scenes', async () => {
-      const mockUpsert = vi.fn().mockResolvedValue({ data: null, error: null });
-      const mockInsert = vi.fn().mockResolvedValue({ data: null, error: null });
-      
-      mockSupabase.from.mockReturnValue({
-        upsert: mockUpsert,
-        insert: mockInsert
-      });
-
       // Complete scene-1 twice
       await gameStateManager.updateGameState('test-session-id-12345', {
         currentSceneId: 'scene-1',
@@ -377,22 +302,13 @@ describe('GameStateManager Unit Tests', () => {
       });
 
       // Verify scene-1 appears only once in completed scenes
-      const lastCall = mockUpsert.mock.calls[mockUpsert.mock.calls.length - 1][0];
-      expect(lastCall.progress.completedScenes).toEqual(['scene-1']);
+      const lastSave: any = putsTo('game_sessions').slice(-1)[0];
+      expect(lastSave.progress.completedScenes).toEqual(['scene-1']);
     });
   });
 
   describe('Game Completion and Results', () => {
     beforeEach(async () => {
-      // Start a session and complete some scenes
-      const mockUpsert = vi.fn().mockResolvedValue({ data: null, error: null });
-      const mockInsert = vi.fn().mockResolvedValue({ data: null, error: null });
-      
-      mockSupabase.from.mockReturnValue({
-        upsert: mockUpsert,
-        insert: mockInsert
-      });
-
       await gameStateManager.startGameSession(
         'anna.svensson@malmo.se',
         'gdpr-training-v2',
@@ -413,16 +329,6 @@ describe('GameStateManager Unit Tests', () => {
     });
 
     it('should complete game session and generate results', async () => {
-      const mockUpdate = vi.fn().mockReturnValue({
-        eq: vi.fn().mockResolvedValue({ data: null, error: null })
-      });
-      const mockInsert = vi.fn().mockResolvedValue({ data: null, error: null });
-      
-      mockSupabase.from.mockReturnValue({
-        update: mockUpdate,
-        insert: mockInsert
-      });
-
       const results = await gameStateManager.completeGameSession('test-session-id-12345');
 
       expect(results).toMatchObject({
@@ -437,7 +343,13 @@ describe('GameStateManager Unit Tests', () => {
       expect(results?.achievements).toContain('swedish_municipal_certified');
 
       // Verify database completion update
-      expect(mockUpdate).toHaveBeenCalledWith({
+      expect(mockStore.put).toHaveBeenCalledWith('game_sessions', 'test-session-id-12345', {
+        id: 'test-session-id-12345',
+        user_id: 'anna.svensson@malmo.se',
+        game_id: 'gdpr-training-v2',
+        tenant_id: 'malmo_municipality',
+        started_at: expect.any(String),
+        progress: expect.objectContaining({ completedScenes: ['scene-1', 'scene-2'] }),
         completed_at: expect.any(String),
         results: expect.objectContaining({
           sessionId: 'test-session-id-12345',
@@ -446,31 +358,19 @@ describe('GameStateManager Unit Tests', () => {
       });
 
       // Verify completion analytics
-      expect(mockInsert).toHaveBeenCalledWith({
+      expect(mockStore.put).toHaveBeenCalledWith('analytics_events', expect.any(String), {
         session_id: 'test-session-id-12345',
         event_type: 'session_completed',
         event_data: expect.objectContaining({
           sessionId: 'test-session-id-12345',
           totalScore: 90,
           completionRate: 40
-        })
+        }),
+        created_at: expect.any(String)
       });
     });
 
     it('should award excellence achievement for high scores', async () => {
-      // Update with perfect scores
-      const mockUpsert = vi.fn().mockResolvedValue({ data: null, error: null });
-      const mockUpdate = vi.fn().mockReturnValue({
-        eq: vi.fn().mockResolvedValue({ data: null, error: null })
-      });
-      const mockInsert = vi.fn().mockResolvedValue({ data: null, error: null });
-      
-      mockSupabase.from.mockReturnValue({
-        upsert: mockUpsert,
-        update: mockUpdate,
-        insert: mockInsert
-      });
-
       await gameStateManager.updateGameState('test-session-id-12345', {
         currentSceneId: 'scene-3',
         sceneResult: { score: 100, maxScore: 100 }
@@ -521,22 +421,16 @@ describe('GameStateManager Unit Tests', () => {
         }
       ];
 
-      const mockSelect = vi.fn().mockReturnValue({
-        eq: vi.fn().mockReturnValue({
-          is: vi.fn().mockReturnValue({
-            order: vi.fn().mockReturnValue({
-              limit: vi.fn().mockResolvedValue({ data: mockSessionsData, error: null })
-            })
-          })
-        })
-      });
-
-      mockSupabase.from.mockReturnValue({
-        select: mockSelect
-      });
+      mockStore.find.mockResolvedValue(mockSessionsData);
 
       const sessions = await gameStateManager.getUserIncompleteSessions('anna.svensson@malmo.se');
 
+      expect(mockStore.find).toHaveBeenCalledWith('game_sessions', {
+        where: { user_id: 'anna.svensson@malmo.se', completed_at: null },
+        orderBy: { field: 'started_at', direction: 'desc' },
+        limit: 10
+      });
+
       expect(sessions).toHaveLength(2);
       expect(sessions[0]).toMatchObject({
         sessionId: 'session-1',
@@ -558,19 +452,7 @@ describe('GameStateManager Unit Tests', () => {
     });
 
     it('should handle fetch sessions database error', async () => {
-      const mockSelect = vi.fn().mockReturnValue({
-        eq: vi.fn().mockReturnValue({
-          is: vi.fn().mockReturnValue({
-            order: vi.fn().mockReturnValue({
-              limit: vi.fn().mockResolvedValue({ data: null, error: { message: 'Database error' } })
-            })
-          })
-        })
-      });
-
-      mockSupabase.from.mockReturnValue({
-        select: mockSelect
-      });
+      mockStore.find.mockRejectedValue(new Error('Database error'));
 
       const sessions = await gameStateManager.getUserIncompleteSessions('anna.svensson@malmo.se');
 
@@ -582,34 +464,16 @@ describe('GameStateManager Unit Tests', () => {
     });
 
     it('should cleanup old incomplete sessions', async () => {
-      const mockDelete = vi.fn().mockReturnValue({
-        is: vi.fn().mockReturnValue({
-          lt: vi.fn().mockResolvedValue({ data: null, error: null })
-        })
-      });
-
-      mockSupabase.from.mockReturnValue({
-        delete: mockDelete
-      });
-
       await gameStateManager.cleanupOldSessions();
 
-      expect(mockDelete).toHaveBeenCalled();
-      
-      const deleteCall = mockDelete.mock.results[0].value;
-      expect(deleteCall.is).toHaveBeenCalledWith('completed_at', null);
+      expect(mockStore.deleteWhere).toHaveBeenCalledWith('game_sessions', {
+        where: { completed_at: null },
+        before: { field: 'started_at', value: expect.any(String) }
+      });
     });
 
     it('should handle cleanup database errors gracefully', async () => {
-      const mockDelete = vi.fn().mockReturnValue({
-        is: vi.fn().mockReturnValue({
-          lt: vi.fn().mockRejectedValue(new Error('Delete failed'))
-        })
-      });
-
-      mockSupabase.from.mockReturnValue({
-        delete: mockDelete
-      });
+      mockStore.deleteWhere.mockRejectedValue(new Error('Delete failed'));
 
       await gameStateManager.cleanupOldSessions();
 
@@ -622,14 +486,6 @@ describe('GameStateManager Unit Tests', () => {
 
   describe('Autosave Functionality', () => {
     it('should setup autosave when starting session', async () => {
-      const mockUpsert = vi.fn().mockResolvedValue({ data: null, error: null });
-      const mockInsert = vi.fn().mockResolvedValue({ data: null, error: null });
-      
-      mockSupabase.from.mockReturnValue({
-        upsert: mockUpsert,
-        insert: mockInsert
-      });
-
       await gameStateManager.startGameSession(
         'anna.svensson@malmo.se',
         'gdpr-training-v2',
@@ -637,29 +493,14 @@ describe('GameStateManager Unit Tests', () => {
         'swedish_municipal'
       );
 
-      // Fast-forward time to trigger autosave
-      vi.advanceTimersByTime(30000); // 30 seconds
-
-      // Wait for any pending promises
-      await vi.runAllTimersAsync();
+      // Fast-forward time to trigger autosave, letting its async save settle
+      await vi.advanceTimersByTimeAsync(30000); // 30 seconds
 
       // Verify autosave triggered database save
-      expect(mockUpsert).toHaveBeenCalledTimes(2); // Initial save + autosave
+      expect(putsTo('game_sessions')).toHaveLength(2); // Initial save + autosave
     });
 
     it('should stop autosave when completing session', async () => {
-      const mockUpsert = vi.fn().mockResolvedValue({ data: null, error: null });
-      const mockUpdate = vi.fn().mockReturnValue({
-        eq: vi.fn().mockResolvedValue({ data: null, error: null })
-      });
-      const mockInsert = vi.fn().mockResolvedValue({ data: null, error: null });
-      
-      mockSupabase.from.mockReturnValue({
-        upsert: mockUpsert,
-        update: mockUpdate,
-        insert: mockInsert
-      });
-
       await gameStateManager.startGameSession(
         'anna.svensson@malmo.se',
         'gdpr-training-v2',
@@ -670,11 +511,10 @@ describe('GameStateManager Unit Tests', () => {
       await gameStateManager.completeGameSession('test-session-id-12345');
 
       // Fast-forward time - autosave should not trigger
-      const saveCallCount = mockUpsert.mock.calls.length;
-      vi.advanceTimersByTime(60000); // 1 minute
-      await vi.runAllTimersAsync();
+      const saveCallCount = putsTo('game_sessions').length;
+      await vi.advanceTimersByTimeAsync(60000); // 1 minute
 
-      expect(mockUpsert).toHaveBeenCalledTimes(saveCallCount); // No additional saves
+      expect(putsTo('game_sessions')).toHaveLength(saveCallCount); // No additional saves
     });
   });
 });
@@ -726,19 +566,7 @@ describe('useGameState React Hook Tests', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
-    
-    // Mock successful database operations
-    const mockUpsert = vi.fn().mockResolvedValue({ data: null, error: null });
-    const mockInsert = vi.fn().mockResolvedValue({ data: null, error: null });
-    const mockUpdate = vi.fn().mockReturnValue({
-      eq: vi.fn().mockResolvedValue({ data: null, error: null })
-    });
-    
-    mockSupabase.from.mockReturnValue({
-      upsert: mockUpsert,
-      insert: mockInsert,
-      update: mockUpdate
-    });
+    resetMockStore();
   });
 
   it('should start new game through hook', async () => {
@@ -769,32 +597,18 @@ describe('useGameState React Hook Tests', () => {
 
   it('should resume game through hook', async () => {
     // Mock resume session response
-    const mockSelect = vi.fn().mockReturnValue({
-      eq: vi.fn().mockReturnValue({
-        eq: vi.fn().mockReturnValue({
-          single: vi.fn().mockResolvedValue({
-            data: {
-              id: 'test-resume-session',
-              user_id: 'anna.svensson@malmo.se',
-              game_id: 'gdpr-training-v2',
-              tenant_id: 'malmo_municipality',
-              started_at: new Date().toISOString(),
-              completed_at: null,
-              progress: {
-                currentSceneId: 'scene-2',
-                sceneIndex: 1,
-                completedScenes: ['scene-1']
-              }
-            },
-            error: null
-          })
-        })
-      })
-    });
-
-    mockSupabase.from.mockReturnValue({
-      select: mockSelect,
-      insert: vi.fn().mockResolvedValue({ data: null, error: null })
+    mockStore.get.mockResolvedValue({
+      id: 'test-resume-session',
+      user_id: 'anna.svensson@malmo.se',
+      game_id: 'gdpr-training-v2',
+      tenant_id: 'malmo_municipality',
+      started_at: new Date().toISOString(),
+      completed_at: null,
+      progress: {
+        currentSceneId: 'scene-2',
+        sceneIndex: 1,
+        completedScenes: ['scene-1']
+      }
     });
 
     render(
@@ -832,8 +646,12 @@ describe('useGameState React Hook Tests', () => {
     // Update state
     fireEvent.click(screen.getByTestId('update-state'));
 
-    // Verify update was called (check would be in the gameStateManager mock)
-    expect(mockSupabase.from).toHaveBeenCalled();
+    // Verify update was persisted through the session store
+    await waitFor(() => {
+      expect(putsTo('game_sessions').slice(-1)[0]).toMatchObject({
+        progress: expect.objectContaining({ currentSceneId: 'scene-1', sceneIndex: 1 })
+      });
+    });
   });
 
   it('should complete game through hook', async () => {
@@ -925,7 +743,7 @@ describe('ResumeGameDialog Component Tests', () => {
     expect(screen.getByText('GDPR Utbildning')).toBeInTheDocument();
     expect(screen.getByText('Etik Utbildning')).toBeInTheDocument();
     
-    expect(screen.getByText('Förlopp: 1 scener klara')).toBeInTheDocument();
+    expect(screen.getByText('Förlopp: 1 scen klar')).toBeInTheDocument();
     expect(screen.getByText('Förlopp: 0 scener klara')).toBeInTheDocument();
     
     expect(screen.getByText('Börja ny utbildning istället')).toBeInTheDocument();
@@ -993,19 +811,19 @@ describe('ResumeGameDialog Component Tests', () => {
       />
     );
 
-    // Check that dates are displayed (exact format may vary by environment)
-    expect(screen.getByText(/Startat:/)).toBeInTheDocument();
+    // Both sessions started on the same day, shown in the Swedish YYYY-MM-DD format
+    expect(screen.getAllByText('Startat: 2025-01-19')).toHaveLength(2);
   });
 });
 
 describe('Health Checks and Error Handling', () => {
-  it('should handle database save failures gracefully', async () => {
-    const mockUpsert = vi.fn().mockRejectedValue(new Error('Database connection failed'));
-    const mockInsert = vi.fn().mockResolvedValue({ data: null, error: null });
-    
-    mockSupabase.from.mockReturnValue({
-      upsert: mockUpsert,
-      insert: mockInsert
+  beforeEach(() => {
+    resetMockStore();
+  });
+
+  it('should keep progress journaled when the database save fails', async () => {
+    mockStore.put.mockImplementation(async (collection: string) => {
+      if (collection === 'game_sessions') throw new Error('Database connection failed');
     });
 
     await gameStateManager.startGameSession(
@@ -1015,19 +833,26 @@ describe('Health Checks and Error Handling', () => {
       'swedish_municipal'
     );
 
-    expect(consoleErrorSpy).toHaveBeenCalledWith(
-      'Failed to save game state:', 
-      expect.any(Error)
-    );
+    expect(offlineResilienceManager.getSyncStatus()).toMatchObject({
+      pendingActions: 1,
+      lastError: 'Database connection failed'
+    });
+    expect(offlineResilienceManager.getPendingAction('game_sessions:test-session-id-12345')?.payload)
+      .toMatchObject({ id: 'test-session-id-12345', user_id: 'anna.svensson@malmo.se' });
+
+    // Replays once the database accepts writes again
+    resetMockStore();
+    await offlineResilienceManager.flush();
+
+    expect(offlineResilienceManager.getSyncStatus().pendingActions).toBe(0);
+    expect(mockStore.put).toHaveBeenCalledWith('game_sessions', 'test-session-id-12345', expect.objectContaining({
+      user_id: 'anna.svensson@malmo.se'
+    }));
   });
 
   it('should handle analytics tracking failures gracefully', async () => {
-    const mockUpsert = vi.fn().mockResolvedValue({ data: null, error: null });
-    const mockInsert = vi.fn().mockRejectedValue(new Error('Analytics service unavailable'));
-    
-    mockSupabase.from.mockReturnValue({
-      upsert: mockUpsert,
-      insert: mockInsert
+    mockStore.put.mockImplementation(async (collection: string) => {
+      if (collection === 'analytics_events') throw new Error('Analytics service unavailable');
     });
 
     // Should not throw error despite analytics failure
@@ -1054,14 +879,6 @@ describe('Health Checks and Error Handling', () => {
       writable: true
     });
 
-    const mockUpsert = vi.fn().mockResolvedValue({ data: null, error: null });
-    const mockInsert = vi.fn().mockResolvedValue({ data: null, error: null });
-    
-    mockSupabase.from.mockReturnValue({
-      upsert: mockUpsert,
-      insert: mockInsert
-    });
-
     const gameState = await gameStateManager.startGameSession(
       'anna.svensson@malmo.se',
       'gdpr-training-v2',
@@ -1081,18 +898,6 @@ describe('Health Checks and Error Handling', () => {
   });
 
   it('should handle score calculation edge cases', async () => {
-    const mockUpsert = vi.fn().mockResolvedValue({ data: null, error: null });
-    const mockUpdate = vi.fn().mockReturnValue({
-      eq: vi.fn().mockResolvedValue({ data: null, error: null })
-    });
-    const mockInsert = vi.fn().mockResolvedValue({ data: null, error: null });
-    
-    mockSupabase.from.mockReturnValue({
-      upsert: mockUpsert,
-      update: mockUpdate,
-      insert: mockInsert
-    });
-
     await gameStateManager.startGameSession(
       'anna.svensson@malmo.se',
       'gdpr-training-v2',
@@ -22,6 +22,8 @@ describe('Rate Limiting Stress Testing', () => {
 
   const createMockRequest = (overrides: Partial<Request> = {}): Partial<Request> => ({
     ip: '192.168.1.100',
+    method: 'GET',
+    originalUrl: '/api/devteam/validate',
     headers: { 'x-municipality-id': 'malmo_stad' },
     query: {},
     get: jest.fn(),
@@ -437,7 +439,7 @@ describe('Rate Limiting Stress Testing', () => {
       mockRedis.zadd.mockResolvedValue(1);
       mockRedis.expire.mockResolvedValue(1);
 
-      const middleware = apiGateway.createAPIKeyMiddleware(['content:validate']);
+      const middleware = apiGateway.createAPIKeyMiddleware(['content.manage']);
       
       await Promise.all(
         apiKeyRequests.map((req, i) => 
@@ -1,13 +1,18 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { ChakraProvider, extendTheme } from '@chakra-ui/react';
+import { MotionConfig } from 'framer-motion';
 import type { ThemeConfig } from '../types/game-manifest';
+import type { AccessibilityPreferences } from '../types/auth';
 import { defaultTheme } from './defaultTheme';
 import { municipalButtonTheme } from './municipalButtonTheme';
+import { accessibilityThemeOverrides } from './accessibilityTheme';
+import { useAccessibility } from '../hooks/useAccessibility';
 
 /**
- * Create Chakra theme with our custom configuration for v2
+ * Create Chakra theme with our custom configuration for v2, with the player's accessibility
+ * preferences applied on top of the game's theme
  */
-export const createChakraTheme = (gameTheme?: ThemeConfig) => {
+export const createChakraTheme = (gameTheme?: ThemeConfig, accessibility?: AccessibilityPreferences) => {
   const theme = gameTheme || defaultTheme;
   
   return extendTheme({
@@ -189,7 +194,7 @@ export const createChakraTheme = (gameTheme?: ThemeConfig) => {
       initialColorMode: 'light',
       useSystemColorMode: false,
     },
-  });
+  }, ...(accessibility ? accessibilityThemeOverrides(accessibility) : []));
 };
 
 interface ChakraThemeProviderProps {
@@ -201,11 +206,18 @@ export const ChakraThemeProvider: React.FC<ChakraThemeProviderProps> = ({
   children, 
   gameTheme 
 }) => {
-  const theme = createChakraTheme(gameTheme);
+  const { preferences } = useAccessibility();
+  const theme = useMemo(() => createChakraTheme(gameTheme, preferences), [gameTheme, preferences]);
   
+  // Chakra's Modal, Collapse and Fade animate through framer-motion, which the CSS overrides don't reach
   return (
     <ChakraProvider theme={theme}>
-      {children}
+      <MotionConfig
+        reducedMotion={preferences.reducedMotion ? 'always' : 'user'}
+        transition={preferences.reducedMotion ? { duration: 0 } : undefined}
+      >
+        {children}
+      </MotionConfig>
     </ChakraProvider>
   );
 };
\ No newline at end of file
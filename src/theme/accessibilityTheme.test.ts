@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COLOR_SCHEME_TOKENS,
+  DEFAULT_ACCESSIBILITY_PREFERENCES,
+  accessibilityThemeOverrides,
+  contrastRatio,
+  effectiveColorScheme,
+  fontScale,
+  resolveAccessibilityPreferences
+} from './accessibilityTheme';
+import { createChakraTheme } from './ChakraThemeProvider';
+
+describe('Accessibility Theme', () => {
+  it('calculates WCAG contrast ratios', () => {
+    expect(contrastRatio('#000000', '#ffffff')).toBeCloseTo(21);
+    expect(contrastRatio('#ffffff', '#ffffff')).toBeCloseTo(1);
+    expect(contrastRatio('#767676', '#ffffff')).toBeCloseTo(4.54, 2);
+  });
+
+  it.each(Object.entries(COLOR_SCHEME_TOKENS))('keeps the %s scheme at WCAG AA contrast', (_scheme, tokens) => {
+    const textPairs = [
+      [tokens.text, tokens.background],
+      [tokens.text, tokens.surface],
+      [tokens.textSecondary, tokens.background],
+      [tokens.textSecondary, tokens.surface],
+      [tokens.onPrimary, tokens.primary],
+      [tokens.onPrimary, tokens.primaryHover],
+      [tokens.onSecondary, tokens.secondary],
+      [tokens.success, tokens.background],
+      [tokens.error, tokens.background]
+    ];
+    textPairs.forEach(([foreground, background]) => expect(contrastRatio(foreground, background)).toBeGreaterThanOrEqual(4.5));
+
+    // Non-text contrast for borders and focus indicators
+    expect(contrastRatio(tokens.border, tokens.background)).toBeGreaterThanOrEqual(3);
+    expect(contrastRatio(tokens.focus, tokens.background)).toBeGreaterThanOrEqual(3);
+  });
+
+  it('combines stored preferences with the system settings', () => {
+    expect(resolveAccessibilityPreferences(null)).toEqual(DEFAULT_ACCESSIBILITY_PREFERENCES);
+    expect(resolveAccessibilityPreferences({ fontSize: 'large' }, { reducedMotion: true, highContrast: false }))
+      .toMatchObject({ fontSize: 'large', reducedMotion: true, highContrast: false });
+  });
+
+  it('derives the color scheme and font scale', () => {
+    expect(effectiveColorScheme({ ...DEFAULT_ACCESSIBILITY_PREFERENCES, highContrast: true })).toBe('high-contrast');
+    expect(effectiveColorScheme({ ...DEFAULT_ACCESSIBILITY_PREFERENCES, highContrast: true, colorScheme: 'grayscale' })).toBe('grayscale');
+    expect(fontScale({ ...DEFAULT_ACCESSIBILITY_PREFERENCES, largeText: true })).toBe(1.25);
+    expect(fontScale({ ...DEFAULT_ACCESSIBILITY_PREFERENCES, largeText: true, fontSize: 'x-large' })).toBe(1.5);
+    expect(accessibilityThemeOverrides(DEFAULT_ACCESSIBILITY_PREFERENCES)).toEqual([]);
+  });
+
+  it('applies the preferences on top of the game theme', () => {
+    const theme = createChakraTheme(undefined, {
+      ...DEFAULT_ACCESSIBILITY_PREFERENCES,
+      colorScheme: 'blue-yellow',
+      fontSize: 'x-large',
+      reducedMotion: true
+    });
+
+    expect(theme.colors.brand[500]).toBe(COLOR_SCHEME_TOKENS['blue-yellow'].primary);
+    expect(theme.colors.green[500]).toBe(theme.colors.blue[500]);
+    expect(theme.fontSizes.md).toBe('1.5rem');
+    expect(theme.semanticTokens.colors['chakra-body-text']._light).toBe(COLOR_SCHEME_TOKENS['blue-yellow'].text);
+
+    expect(theme.styles.global['*, *::before, *::after']).toMatchObject({ transitionDuration: '0.01ms !important' });
+    expect(theme.styles.global.body).toBeDefined();
+  });
+});
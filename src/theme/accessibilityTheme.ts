@@ -0,0 +1,250 @@
+/**
+ * Accessibility preferences to Chakra theme overrides
+ * Each color scheme replaces the brand, body and status colors with tokens that pass WCAG 2.1 AA
+ * contrast, and remaps the palettes scenes use (green/red, or every hue for grayscale) so scene
+ * components follow without reading the preferences themselves.
+ */
+
+import { theme as chakraTheme } from '@chakra-ui/react';
+import type { AccessibilityPreferences } from '../types/auth';
+
+export type ColorScheme = AccessibilityPreferences['colorScheme'];
+export type FontSizePreference = AccessibilityPreferences['fontSize'];
+
+export interface AccessibleColorTokens {
+  text: string;
+  textSecondary: string;
+  background: string;
+  surface: string;
+  border: string;
+  primary: string;
+  primaryHover: string;
+  onPrimary: string;
+  secondary: string;
+  onSecondary: string;
+  success: string;
+  error: string;
+  focus: string;
+}
+
+export const DEFAULT_ACCESSIBILITY_PREFERENCES: AccessibilityPreferences = {
+  highContrast: false,
+  largeText: false,
+  reducedMotion: false,
+  screenReader: false,
+  keyboardNavigation: true,
+  captionsEnabled: false,
+  fontSize: 'medium',
+  colorScheme: 'default'
+};
+
+// The default scheme keeps the game's own theme
+export const COLOR_SCHEME_TOKENS: Record<Exclude<ColorScheme, 'default'>, AccessibleColorTokens> = {
+  'high-contrast': {
+    text: '#000000',
+    textSecondary: '#1a1a1a',
+    background: '#ffffff',
+    surface: '#ffffff',
+    border: '#000000',
+    primary: '#00337a',
+    primaryHover: '#001f4d',
+    onPrimary: '#ffffff',
+    secondary: '#ffd500',
+    onSecondary: '#000000',
+    success: '#005a1f',
+    error: '#a50000',
+    focus: '#6b00b3'
+  },
+  // For red-green colour vision deficiencies: success is blue and errors are dark orange
+  'blue-yellow': {
+    text: '#1a1a1a',
+    textSecondary: '#3d3d3d',
+    background: '#ffffff',
+    surface: '#f4f6fb',
+    border: '#6b6b6b',
+    primary: '#0b4f9c',
+    primaryHover: '#083b75',
+    onPrimary: '#ffffff',
+    secondary: '#ffc20a',
+    onSecondary: '#1a1a1a',
+    success: '#0b4f9c',
+    error: '#8a4600',
+    focus: '#0b4f9c'
+  },
+  grayscale: {
+    text: '#111111',
+    textSecondary: '#404040',
+    background: '#ffffff',
+    surface: '#f2f2f2',
+    border: '#6b6b6b',
+    primary: '#333333',
+    primaryHover: '#1f1f1f',
+    onPrimary: '#ffffff',
+    secondary: '#d9d9d9',
+    onSecondary: '#111111',
+    success: '#404040',
+    error: '#000000',
+    focus: '#000000'
+  }
+};
+
+export const FONT_SCALE: Record<FontSizePreference, number> = {
+  small: 0.875,
+  medium: 1,
+  large: 1.25,
+  'x-large': 1.5
+};
+
+const LARGE_TEXT_SCALE = FONT_SCALE.large;
+
+const HUE_PALETTES = ['red', 'orange', 'yellow', 'green', 'teal', 'blue', 'cyan', 'purple', 'pink'] as const;
+
+/**
+ * WCAG 2.1 contrast ratio between two #rrggbb colors, from 1 to 21
+ */
+export const contrastRatio = (foreground: string, background: string): number => {
+  const luminance = (hex: string) => {
+    const [r, g, b] = [1, 3, 5]
+      .map(start => parseInt(hex.slice(start, start + 2), 16) / 255)
+      .map(channel => (channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4));
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  };
+  const [lighter, darker] = [luminance(foreground), luminance(background)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+// highContrast on its own switches the default scheme to high contrast
+export const effectiveColorScheme = (preferences: AccessibilityPreferences): ColorScheme =>
+  preferences.highContrast && preferences.colorScheme === 'default' ? 'high-contrast' : preferences.colorScheme;
+
+// largeText is a shortcut for at least the large font size
+export const fontScale = (preferences: AccessibilityPreferences): number =>
+  Math.max(FONT_SCALE[preferences.fontSize] ?? 1, preferences.largeText ? LARGE_TEXT_SCALE : 1);
+
+/**
+ * Combines the stored preferences with the operating system's reduced motion and contrast settings,
+ * which are honoured even when the stored preference is off
+ */
+export const resolveAccessibilityPreferences = (
+  stored: Partial<AccessibilityPreferences> | null | undefined,
+  system: { reducedMotion: boolean; highContrast: boolean } = { reducedMotion: false, highContrast: false }
+): AccessibilityPreferences => {
+  const preferences = { ...DEFAULT_ACCESSIBILITY_PREFERENCES, ...stored };
+  return {
+    ...preferences,
+    reducedMotion: preferences.reducedMotion || system.reducedMotion,
+    highContrast: preferences.highContrast || system.highContrast
+  };
+};
+
+const scaleFontSizes = (scale: number): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(chakraTheme.fontSizes).map(([token, size]) => [token, `${parseFloat(size) * scale}rem`])
+  );
+
+const brandPalette = (tokens: AccessibleColorTokens) => ({
+  50: tokens.surface,
+  100: tokens.surface,
+  200: tokens.border,
+  300: tokens.border,
+  400: tokens.primary,
+  500: tokens.primary,
+  600: tokens.primaryHover,
+  700: tokens.primaryHover,
+  800: tokens.primaryHover,
+  900: tokens.primaryHover
+});
+
+const paletteOverrides = (scheme: ColorScheme): Record<string, unknown> => {
+  switch (scheme) {
+    case 'grayscale':
+      return Object.fromEntries(HUE_PALETTES.map(palette => [palette, chakraTheme.colors.gray]));
+    case 'blue-yellow':
+      return { green: chakraTheme.colors.blue, teal: chakraTheme.colors.blue, red: chakraTheme.colors.orange };
+    case 'high-contrast':
+      // gray.400 and gray.500 are too light for text on white
+      return { gray: { ...chakraTheme.colors.gray, 400: chakraTheme.colors.gray[600], 500: chakraTheme.colors.gray[700] } };
+    default:
+      return {};
+  }
+};
+
+const colorOverrides = (scheme: Exclude<ColorScheme, 'default'>) => {
+  const tokens = COLOR_SCHEME_TOKENS[scheme];
+  return {
+    colors: {
+      ...paletteOverrides(scheme),
+      brand: brandPalette(tokens),
+      secondary: { 500: tokens.secondary, 600: tokens.secondary }
+    },
+    semanticTokens: {
+      colors: {
+        'chakra-body-text': { _light: tokens.text },
+        'chakra-body-bg': { _light: tokens.background },
+        'chakra-border-color': { _light: tokens.border },
+        'chakra-placeholder-color': { _light: tokens.textSecondary }
+      }
+    },
+    shadows: {
+      outline: `0 0 0 3px ${tokens.focus}`
+    },
+    components: {
+      Button: {
+        variants: {
+          // Flat fills instead of the brand gradients, which are fixed blues
+          solid: (props: { colorScheme: string }) =>
+            ['brand', 'blue', 'green'].includes(props.colorScheme)
+              ? {
+                  bg: tokens.primary,
+                  color: tokens.onPrimary,
+                  boxShadow: 'none',
+                  _hover: { bg: tokens.primaryHover, _disabled: { bg: tokens.primary } },
+                  _active: { bg: tokens.primaryHover }
+                }
+              : {}
+        }
+      }
+    },
+    styles: {
+      global: {
+        '*:focus-visible': {
+          outline: `3px solid ${tokens.focus}`,
+          outlineOffset: '2px'
+        }
+      }
+    }
+  };
+};
+
+const reducedMotionOverrides = {
+  styles: {
+    global: {
+      '*, *::before, *::after': {
+        animationDuration: '0.01ms !important',
+        animationIterationCount: '1 !important',
+        transitionDuration: '0.01ms !important',
+        scrollBehavior: 'auto !important'
+      }
+    }
+  }
+};
+
+/**
+ * Theme overrides for extendTheme, applied after the game's theme
+ */
+export const accessibilityThemeOverrides = (preferences: AccessibilityPreferences): Record<string, unknown>[] => {
+  const overrides: Record<string, unknown>[] = [];
+  const scheme = effectiveColorScheme(preferences);
+  const scale = fontScale(preferences);
+
+  if (scheme !== 'default') {
+    overrides.push(colorOverrides(scheme));
+  }
+  if (scale !== 1) {
+    overrides.push({ fontSizes: scaleFontSizes(scale) });
+  }
+  if (preferences.reducedMotion) {
+    overrides.push(reducedMotionOverrides);
+  }
+  return overrides;
+};
@@ -161,71 +161,3 @@ export const municipalButtonTheme = defineStyleConfig({
     size: 'municipal-md',
   },
 });
-
-/**
- * Button text translations for different cultural contexts
- */
-export const buttonTranslations = {
-  swedish: {
-    start: 'Starta utbildningen',
-    continue: 'Fortsätt',
-    submit: 'Skicka svar',
-    cancel: 'Avbryt',
-    back: 'Tillbaka',
-    next: 'Nästa',
-    finish: 'Slutför',
-    tryAgain: 'Försök igen',
-    close: 'Stäng',
-    help: 'Hjälp',
-    support: 'Kontakta support',
-  },
-  german: {
-    start: 'Schulung starten',
-    continue: 'Weiter',
-    submit: 'Antwort senden',
-    cancel: 'Abbrechen',
-    back: 'Zurück',
-    next: 'Weiter',
-    finish: 'Abschließen',
-    tryAgain: 'Erneut versuchen',
-    close: 'Schließen',
-    help: 'Hilfe',
-    support: 'Support kontaktieren',
-  },
-  french: {
-    start: 'Commencer la formation',
-    continue: 'Continuer',
-    submit: 'Envoyer la réponse',
-    cancel: 'Annuler',
-    back: 'Retour',
-    next: 'Suivant',
-    finish: 'Terminer',
-    tryAgain: 'Réessayer',
-    close: 'Fermer',
-    help: 'Aide',
-    support: 'Contacter le support',
-  },
-  dutch: {
-    start: 'Training starten',
-    continue: 'Doorgaan',
-    submit: 'Antwoord versturen',
-    cancel: 'Annuleren',
-    back: 'Terug',
-    next: 'Volgende',
-    finish: 'Voltooien',
-    tryAgain: 'Opnieuw proberen',
-    close: 'Sluiten',
-    help: 'Help',
-    support: 'Contact opnemen',
-  },
-};
-
-/**
- * Get button text based on cultural context
- */
-export const getButtonText = (
-  key: keyof typeof buttonTranslations.swedish,
-  culturalContext: keyof typeof buttonTranslations = 'swedish'
-): string => {
-  return buttonTranslations[culturalContext]?.[key] || buttonTranslations.swedish[key];
-};
\ No newline at end of file
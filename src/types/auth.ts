@@ -41,6 +41,17 @@ export type Permission =
   | 'analytics.view'                // View analytics
   | 'analytics.export';             // Export analytics data
 
+// A resource a grant is limited to, e.g. { type: 'department', id: 'socialforvaltningen' }
+export interface ResourceScope {
+  type: string;
+  id: string;
+}
+
+export interface ScopedPermission {
+  permission: Permission;
+  resource: ResourceScope;
+}
+
 export interface AccessibilityPreferences {
   highContrast: boolean;
   largeText: boolean;
@@ -58,7 +69,8 @@ export interface AuthSession {
   municipality: string;
   role: UserRole;
   permissions: Permission[];
-  expiresAt: string;
+  expiresAt: string; // Slides with activity
+  absoluteExpiresAt?: string; // Latest possible expiry; a new login is needed after it
   refreshToken?: string;
   deviceInfo: {
     userAgent: string;
@@ -91,18 +103,20 @@ export interface AuthContextType {
   session: AuthSession | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  permissions: Permission[];
+  permissions: Permission[]; // Tenant-wide, from the role, custom roles and unscoped grants
+  scopedPermissions: ScopedPermission[];
   
   // Authentication methods
   login: (credentials: LoginCredentials) => Promise<AuthResult>;
   logout: () => Promise<void>;
   refreshSession: () => Promise<AuthResult>;
+  logoutAllDevices: () => Promise<void>;
   
   // SSO methods
   loginWithSSO: (provider: string, municipality: string) => Promise<void>;
   
-  // Permission checks
-  hasPermission: (permission: Permission) => boolean;
+  // Permission checks; resource-scoped grants only count when the resource is given
+  hasPermission: (permission: Permission, resource?: ResourceScope) => boolean;
   hasRole: (role: UserRole) => boolean;
   canAccessMunicipality: (municipality: string) => boolean;
   
@@ -443,7 +443,10 @@ export const legacyEmotionMapping: Record<string, MunicipalEmotionType> = {
   'neutral': 'neutral',
   'concerned': 'concerned',
   'confident': 'confident',
-  'questioning': 'questioning'
+  'questioning': 'questioning',
+  // GameManifest 0.1.0 dialogue emotions
+  'happy': 'supportive',
+  'thinking': 'analytical'
 };
 
 export const mapLegacyEmotion = (legacyEmotion: string): MunicipalEmotionType => {
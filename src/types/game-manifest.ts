@@ -1,11 +1,17 @@
 /**
  * DigiNativa Runtime Engine - Game Manifest Types
- * Version 0.1.0
+ * Version 0.2.0
  * 
  * This file defines the JSON schema for game content manifests.
  * AI Content Team uses this to generate compatible game files.
+ * Legacy 0.1.0 manifests and DevTeam scene JSON are migrated by utils/manifestLoader.
  */
 
+import type { MunicipalEmotionType } from './character-emotions';
+
+// Canonical schema version produced by the manifest loader
+export const MANIFEST_SCHEMA_VERSION = '0.2.0' as const;
+
 // Theme configuration for multi-tenant customization
 export interface ThemeConfig {
   // Brand identity
@@ -78,10 +84,25 @@ export interface GameMetadata {
   tags?: string[];
   learningObjectives?: string[];
   targetAudience?: string;
-  language?: string; // ISO language code
+  language?: string; // ISO language code, the source language of a multilingual manifest
+  locales?: string[]; // Locales a multilingual manifest is translated into
+  fallbackLocales?: string[]; // Tried in order when a field lacks the player's locale, e.g. ["en", "sv"]
+  templateVariables?: string[]; // Extra {{placeholders}} the host supplies per deployment, e.g. ["SUPPORT_EMAIL"]
   version?: string;
 }
 
+// Translatable text: one string, or one string per locale such as { "sv": "Hej", "nl": "Hallo" }
+export type LocaleMap = Record<string, string>;
+export type LocalizedText = string | LocaleMap;
+
+// Fields that may hold LocalizedText in a multilingual manifest, wherever they appear
+export const TRANSLATABLE_KEYS = [
+  'title', 'subtitle', 'description', 'text', 'message', 'label', 'role',
+  'feedback', 'explanation', 'instructions', 'consequence', 'caption', 'alt', 'learningObjectives',
+  'accepted', 'match'
+] as const;
+export type TranslatableKey = typeof TRANSLATABLE_KEYS[number];
+
 // Analytics configuration
 export interface AnalyticsConfig {
   enabled: boolean;
@@ -90,62 +111,169 @@ export interface AnalyticsConfig {
   customEvents?: string[];
 }
 
+// Author-defined game variables, changed by choice and option effects
+export type GameVariableValue = number | boolean | string;
+
+export interface GameVariableDefinition {
+  type: 'number' | 'boolean' | 'string';
+  initial: GameVariableValue;
+  description?: string;
+}
+
+export type VariableEffect =
+  | { set: string; value: GameVariableValue }
+  | { increment: string; by?: number }; // by defaults to 1, negative decrements
+
+// Conditional navigation, e.g. { "if": "budget < 0", "next": "crisis-scene" }
+export interface NavigationBranch {
+  if: string; // Navigation expression, see utils/navigationExpressions
+  next: string; // Scene ID or "end"
+}
+
 // Base scene interface
 export interface BaseScene {
   id: string;
-  type: 'dialogue' | 'quiz' | 'assessment' | 'resource' | 'summary';
+  type: 'dialogue' | 'quiz' | 'assessment' | 'resource' | 'summary' | 'narrative' | 'timed_challenge' | 'drag_drop_sort' | 'workflow';
   title?: string;
   description?: string;
   navigation?: {
     next?: string; // Scene ID or "end"
+    branches?: NavigationBranch[]; // First matching branch wins over next
     previous?: string;
     canSkip?: boolean;
   };
 }
 
 // Dialogue scene for narrative content
+export interface DialogueCharacter {
+  id: string;
+  name: string;
+  role?: string;
+  avatar?: string;
+  archetype?: string;
+}
+
+export interface DialogueMessage {
+  text: string;
+  characterId: string; // Must reference one of the scene characters
+  emotion?: MunicipalEmotionType;
+  delay?: number; // Milliseconds before showing
+}
+
+export interface DialogueChoice {
+  id: string;
+  text: string;
+  nextScene?: string;
+  points?: number;
+  effects?: VariableEffect[];
+}
+
 export interface DialogueScene extends BaseScene {
   type: 'dialogue';
-  character?: {
-    id: string;
-    name: string;
-    role?: string;
-    avatar?: string;
-  };
-  messages: Array<{
-    text: string;
-    characterId?: string;
-    emotion?: 'neutral' | 'happy' | 'concerned' | 'thinking';
-    delay?: number; // Milliseconds before showing
-  }>;
-  choices?: Array<{
-    id: string;
-    text: string;
-    nextScene?: string;
-    points?: number;
-  }>;
+  characters: DialogueCharacter[];
+  messages: DialogueMessage[];
+  choices?: DialogueChoice[];
+  learningObjectives?: string[];
 }
 
 // Quiz scene for knowledge checks
-export interface QuizScene extends BaseScene {
-  type: 'quiz';
-  question: string;
-  questionType?: 'text' | 'image' | 'video';
+export interface QuizOption {
+  id: string;
+  text: string;
+  isCorrect: boolean;
+  feedback?: string;
+  points?: number;
+  effects?: VariableEffect[];
+}
+
+export type QuizAnswerType =
+  | 'single' | 'multiple' | 'true_false' // Answered by picking options
+  | 'free_text' | 'numeric' | 'ordering' | 'matching' | 'hotspot'; // Answered against the question's answer key
+
+// Free text answers are compared after normalizing case, whitespace and punctuation
+export interface FreeTextAnswer {
+  accepted: string[];
+  synonyms?: string[][]; // Interchangeable words, e.g. [["samtycke", "medgivande"]]
+  patterns?: string[]; // Regular expressions tested against the trimmed answer
+  caseSensitive?: boolean;
+}
+
+export interface NumericAnswer {
+  value: number;
+  tolerance?: number; // Accepted absolute deviation, default 0
+  unit?: string; // Shown next to the input, e.g. "dagar"
+}
+
+// Ordering questions list their items in the correct order; they are shown shuffled
+export interface OrderingItem {
+  id: string;
+  text: string;
+}
+
+export interface MatchingPair {
+  id: string;
+  text: string; // Prompt the learner matches
+  match: string; // Its correct counterpart
+}
+
+// Coordinates are percentages of the image size, as in an HTML image map:
+// rect x1,y1,x2,y2 - circle x,y,r (r relative to the width) - polygon x1,y1,x2,y2,...
+export interface HotspotRegion {
+  id: string;
+  label: string; // Accessible name of the region for keyboard and screen reader users
+  shape: 'rect' | 'circle' | 'polygon';
+  coords: number[];
+  isCorrect?: boolean;
+}
+
+export interface HotspotImage {
+  url: string;
+  alt: string;
+  regions: HotspotRegion[];
+}
+
+export interface QuizQuestion {
+  id: string;
+  text: string;
+  answerType?: QuizAnswerType;
+  questionType?: 'text' | 'image' | 'video'; // Media presentation
   media?: {
     url: string;
     alt?: string;
     caption?: string;
   };
-  options: Array<{
-    id: string;
-    text: string;
-    isCorrect: boolean;
-    feedback?: string;
-    points?: number;
-  }>;
-  allowMultiple?: boolean;
+  options: QuizOption[]; // Empty for question types answered against an answer key
+  freeText?: FreeTextAnswer;
+  numeric?: NumericAnswer;
+  items?: OrderingItem[];
+  pairs?: MatchingPair[];
+  hotspot?: HotspotImage;
+  scoring?: 'all_or_nothing' | 'partial'; // Ordering and matching give partial credit by default
+  explanation?: string;
+  points?: number;
+  tags?: string[]; // Topics a question draw can filter on, e.g. ["consent", "retention"]
+  difficulty?: QuestionDifficulty; // Used by adaptive draws, defaults to medium
+}
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+// Draws a fresh set of questions per attempt instead of always showing every question
+export interface QuestionDraw {
+  count: number; // Questions per attempt
+  pool?: string; // Question bank id; the scene's own questions are always part of the pool
+  tags?: string[]; // Only questions with at least one of these tags
+  shuffleOptions?: boolean; // Default true; true/false questions keep their order
+  avoidRepeats?: boolean; // Default true: prefer questions not drawn in earlier attempts or sessions
+  adaptive?: boolean; // Prefer harder questions the more earlier answers were correct
+}
+
+export interface QuizScene extends BaseScene {
+  type: 'quiz';
+  questions: QuizQuestion[];
+  passingScore?: number; // Percent
   showFeedback?: boolean;
   maxAttempts?: number;
+  draw?: QuestionDraw;
 }
 
 // Assessment scene for final evaluation
@@ -214,18 +342,138 @@ export interface SummaryScene extends BaseScene {
   }>;
 }
 
+// Branching narrative scene rendered by BranchingNarrativeEngine
+export interface NarrativeSceneChoice {
+  id: string;
+  text: string;
+  consequence: string;
+  budgetChange?: number;
+  reputationChange?: number; // Points on the 0-100 reputation scale
+  complianceRisk?: 'low' | 'medium' | 'high';
+}
+
+export interface NarrativeSceneNode {
+  id: string;
+  type: 'story' | 'decision' | 'consequence' | 'ending';
+  title: string;
+  description: string;
+  speaker?: string;
+  choices?: NarrativeSceneChoice[];
+  nextNode?: string; // Story nodes only
+  conditions?: {
+    municipalStatus?: { budget: number; reputation: number };
+  };
+}
+
+export interface NarrativeScene extends BaseScene {
+  type: 'narrative';
+  category: 'budget_crisis' | 'service_delivery' | 'emergency_response' | 'regulatory_compliance' | 'stakeholder_conflict';
+  municipality?: 'malmö' | 'göteborg' | 'stockholm' | 'berlin' | 'paris' | 'amsterdam';
+  difficulty?: 1 | 2 | 3 | 4 | 5;
+  estimatedTime: number; // Minutes
+  startingConditions: {
+    budget: number;
+    reputation: number; // 0-100
+    timeRemaining: number; // Minutes
+  };
+  userRole?: 'municipal_manager' | 'department_head' | 'service_coordinator' | 'policy_advisor';
+  nodes: NarrativeSceneNode[];
+  learningObjectives?: string[];
+}
+
+// Emergency exercise against the clock rendered by TimedChallengeSystem
+export interface TimedChallengeAction {
+  id: string;
+  type: 'communication' | 'resource_allocation' | 'evacuation' | 'coordination';
+  description: string;
+  timeRequirement: number; // Seconds
+  priority: 'critical' | 'high' | 'medium' | 'low';
+  municipalRole?: string[]; // Defaults to the scene userRole
+}
+
+export interface TimedChallengeScene extends BaseScene {
+  type: 'timed_challenge';
+  emergencyType: 'fire' | 'flood' | 'power_outage' | 'evacuation' | 'medical' | 'cyber_attack';
+  timeLimit: number; // Seconds
+  difficulty?: 1 | 2 | 3 | 4 | 5;
+  municipality?: 'malmö' | 'göteborg' | 'stockholm' | 'berlin';
+  userRole?: 'emergency_coordinator' | 'fire_chief' | 'police_commander' | 'medical_director' | 'municipal_manager';
+  actions: TimedChallengeAction[];
+  passingScore?: number; // Percent of actions completed
+}
+
+// Sort items into categories with the DragDrop components
+export interface DragDropSortScene extends BaseScene {
+  type: 'drag_drop_sort';
+  instructions?: string;
+  categories: Array<{
+    id: string;
+    label: string;
+    description?: string;
+  }>;
+  items: Array<{
+    id: string;
+    text: string;
+    categoryId: string; // Correct category
+    feedback?: string;
+  }>;
+  passingScore?: number; // Percent
+}
+
+// Municipal case-handling workflows from components/q2-interactive
+export interface WorkflowPermit {
+  id: string;
+  type: 'building' | 'business' | 'event' | 'parking';
+  applicant: string;
+  urgency: 'low' | 'medium' | 'high' | 'emergency';
+  submittedDate: string;
+  requiredDocuments: string[];
+  expectedStatus: string; // Stage the player should move the permit to
+}
+
+export interface WorkflowInvoice {
+  id: string;
+  vendor: string;
+  amount: number;
+  currency: 'SEK' | 'EUR' | 'DKK';
+  category: 'infrastructure' | 'services' | 'supplies' | 'maintenance' | 'emergency';
+  department: string;
+  submittedDate: string;
+  dueDate: string;
+  urgency: 'routine' | 'urgent' | 'emergency';
+  documents: string[];
+  municipalBudgetLine?: string;
+  expectedStatus: string;
+}
+
+export interface WorkflowScene extends BaseScene {
+  type: 'workflow';
+  workflow: 'permit_processing' | 'invoice_approval';
+  municipality: 'malmö' | 'göteborg' | 'stockholm' | 'berlin';
+  instructions?: string;
+  permits?: WorkflowPermit[]; // permit_processing
+  invoices?: WorkflowInvoice[]; // invoice_approval
+  userRole?: 'department_manager' | 'finance_officer' | 'supervisor' | 'mayor'; // invoice_approval
+  budgetLimits?: Record<string, number>; // Per invoice category
+  passingScore?: number; // Percent of items in their expected status
+}
+
 // Union type for all scenes
 export type Scene = 
   | DialogueScene 
   | QuizScene 
   | AssessmentScene 
   | ResourceScene 
-  | SummaryScene;
+  | SummaryScene
+  | NarrativeScene
+  | TimedChallengeScene
+  | DragDropSortScene
+  | WorkflowScene;
 
 // Main game manifest structure
 export interface GameManifest {
   // Schema version for backwards compatibility
-  schemaVersion: '0.1.0';
+  schemaVersion: typeof MANIFEST_SCHEMA_VERSION;
   
   // Unique game identifier
   gameId: string;
@@ -244,6 +492,12 @@ export interface GameManifest {
   
   // Starting scene ID
   startScene: string;
+
+  // Variables available to navigation expressions
+  variables?: Record<string, GameVariableDefinition>;
+
+  // Tagged question pools that quiz scenes draw from, keyed by bank id
+  questionBanks?: Record<string, QuizQuestion[]>;
   
   // Global game settings
   settings?: {
@@ -254,6 +508,19 @@ export interface GameManifest {
   };
 }
 
+// Authoring shape: translatable fields hold LocalizedText until utils/manifestTranslations resolves a locale
+type LocalizedField<T> = T extends string
+  ? LocalizedText
+  : T extends string[] ? LocalizedText[] : Multilingual<T>;
+
+type Multilingual<T> = T extends Array<infer Item>
+  ? Multilingual<Item>[]
+  : T extends object
+    ? { [K in keyof T]: K extends TranslatableKey ? LocalizedField<T[K]> : Multilingual<T[K]> }
+    : T;
+
+export type MultilingualGameManifest = Multilingual<GameManifest>;
+
 // Type guards for runtime checking
 export const isDialogueScene = (scene: Scene): scene is DialogueScene => 
   scene.type === 'dialogue';
@@ -268,4 +535,16 @@ export const isResourceScene = (scene: Scene): scene is ResourceScene =>
   scene.type === 'resource';
 
 export const isSummaryScene = (scene: Scene): scene is SummaryScene => 
-  scene.type === 'summary';
\ No newline at end of file
+  scene.type === 'summary';
+
+export const isNarrativeScene = (scene: Scene): scene is NarrativeScene => 
+  scene.type === 'narrative';
+
+export const isTimedChallengeScene = (scene: Scene): scene is TimedChallengeScene => 
+  scene.type === 'timed_challenge';
+
+export const isDragDropSortScene = (scene: Scene): scene is DragDropSortScene => 
+  scene.type === 'drag_drop_sort';
+
+export const isWorkflowScene = (scene: Scene): scene is WorkflowScene => 
+  scene.type === 'workflow';
@@ -3,7 +3,7 @@
  * Building on Q2 GameState foundation for multi-world experiences
  */
 
-import { GameState, GameResults } from '../services/game-state-manager';
+import type { GameState } from '../services/game-state-manager';
 
 // Central World Hub Types
 export interface WorldHubState {
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { ROLE_PERMISSIONS, highestMunicipalRole, isPermission, isPermitted } from './accessPolicy';
+
+describe('Access Policy', () => {
+  it('picks the most privileged municipal role from IdP claims', () => {
+    expect(highestMunicipalRole(['Analyst', 'user'])).toBe('analyst');
+    expect(highestMunicipalRole(['saml_admin'])).toBe('admin');
+    expect(highestMunicipalRole(['super_admin'])).toBe('user');
+    expect(highestMunicipalRole([])).toBe('user');
+  });
+
+  it('checks tenant-wide and resource-scoped permissions', () => {
+    const effective = {
+      permissions: ROLE_PERMISSIONS.user,
+      scoped: [{ permission: 'analytics.view' as const, resource: { type: 'department', id: 'socialforvaltningen' } }]
+    };
+
+    expect(isPermitted(effective, 'games.play')).toBe(true);
+    expect(isPermitted(effective, 'analytics.view', { type: 'department', id: 'socialforvaltningen' })).toBe(true);
+    expect(isPermitted(effective, 'analytics.view', { type: 'department', id: 'miljoforvaltningen' })).toBe(false);
+    expect(isPermitted(effective, 'analytics.view')).toBe(false);
+  });
+
+  it('recognises only known permissions', () => {
+    expect(isPermission('games.publish')).toBe(true);
+    expect(isPermission('games.teleport')).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Access Policy
+ * The built-in roles and their permissions, and the permission check shared by the server's
+ * policy engine and the client's usePermission/<Can>. Grants limited to a resource, such as one
+ * department's analytics, only allow checks made for that resource.
+ */
+
+import type { Permission, ResourceScope, ScopedPermission, UserRole } from '../types/auth';
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  user: ['games.play'],
+  analyst: ['games.play', 'games.analytics', 'analytics.view', 'analytics.export'],
+  content_manager: ['games.play', 'games.create', 'games.publish', 'games.analytics', 'content.manage'],
+  admin: [
+    'games.play', 'games.create', 'games.publish', 'games.analytics', 'users.view', 'users.manage',
+    'municipality.admin', 'content.manage', 'analytics.view', 'analytics.export'
+  ],
+  super_admin: [
+    'games.play', 'games.create', 'games.publish', 'games.analytics', 'users.view', 'users.manage',
+    'municipality.admin', 'system.admin', 'content.manage', 'analytics.view', 'analytics.export'
+  ]
+};
+
+export const ALL_PERMISSIONS: Permission[] = ROLE_PERMISSIONS.super_admin;
+
+// Most privileged first. super_admin is DigiNativa staff and never comes from a municipal directory or IdP.
+export const MUNICIPAL_ROLES: UserRole[] = ['admin', 'content_manager', 'analyst', 'user'];
+
+// Role claims some municipal IdPs send for their administrators
+const CLAIM_ROLE_ALIASES: Record<string, UserRole> = {
+  saml_admin: 'admin',
+  municipal_admin: 'admin'
+};
+
+export interface EffectivePermissions {
+  permissions: Permission[]; // Tenant-wide
+  scoped: ScopedPermission[];
+}
+
+export const isPermission = (value: unknown): value is Permission => ALL_PERMISSIONS.includes(value as Permission);
+
+/**
+ * The most privileged municipal role among role names, e.g. the role claims of an SSO login
+ */
+export const highestMunicipalRole = (names: string[], aliases: Record<string, UserRole> = CLAIM_ROLE_ALIASES): UserRole => {
+  const roles = names.map(name => aliases[name.toLowerCase()] ?? name.toLowerCase());
+  return MUNICIPAL_ROLES.find(role => roles.includes(role)) ?? 'user';
+};
+
+export const resourceMatches = (scope: ResourceScope, resource?: ResourceScope): boolean =>
+  !!resource && scope.type === resource.type && scope.id === resource.id;
+
+export const isPermitted = (effective: EffectivePermissions, permission: Permission, resource?: ResourceScope): boolean =>
+  effective.permissions.includes(permission)
+  || effective.scoped.some(grant => grant.permission === permission && resourceMatches(grant.resource, resource));
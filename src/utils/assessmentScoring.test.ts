@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  scoreAssessment,
+  normalizePercentThreshold,
+  getFeedbackBand
+} from './assessmentScoring';
+import type { AssessmentScene } from '../types/game-manifest';
+import { createTranslator } from '../i18n';
+import en from '../i18n/catalogs/en';
+
+describe('Assessment Scoring', () => {
+  const scene: AssessmentScene = {
+    id: 'final-assessment',
+    type: 'assessment',
+    questions: [
+      {
+        id: 'q1',
+        text: 'Vad är en personuppgift?',
+        weight: 2,
+        options: [
+          { id: 'a', text: 'All information som kan kopplas till en person', score: 10 },
+          { id: 'b', text: 'Endast personnummer', score: 3 }
+        ]
+      },
+      {
+        id: 'q2',
+        text: 'När ska en incident rapporteras?',
+        options: [
+          { id: 'a', text: 'Inom 72 timmar', score: 10 },
+          { id: 'b', text: 'Inom en månad', score: 0 }
+        ]
+      }
+    ],
+    scoring: {
+      passThreshold: 70,
+      feedback: { good: 'Godkänt!' }
+    },
+    certificationArea: 'GDPR'
+  };
+
+  it('computes weighted scores from the selected options', () => {
+    const result = scoreAssessment(scene, { q1: 'b', q2: 'a' }, 1000);
+
+    expect(result.score).toBe(16);
+    expect(result.maxScore).toBe(30);
+    expect(result.percentageScore).toBe(53);
+    expect(result.passed).toBe(false);
+    expect(result.band).toBe('needsImprovement');
+    expect(result.questionResults[0]).toMatchObject({ questionId: 'q1', selectedOptionId: 'b', weight: 2, score: 6, maxScore: 20 });
+    expect(result.certificationArea).toBe('GDPR');
+    expect(result.timeSpent).toBe(1000);
+  });
+
+  it('applies the pass threshold and author feedback bands', () => {
+    const good = scoreAssessment(scene, { q1: 'a', q2: 'b' });
+    expect(good.percentageScore).toBe(67);
+    expect(good.passed).toBe(false);
+
+    const passed = scoreAssessment({ ...scene, scoring: { ...scene.scoring, passThreshold: 0.6 } }, { q1: 'a', q2: 'b' });
+    expect(passed.passThreshold).toBe(60);
+    expect(passed.passed).toBe(true);
+    expect(passed.feedback).toBe('Godkänt!');
+
+    const excellent = scoreAssessment(scene, { q1: 'a', q2: 'a' });
+    expect(excellent.band).toBe('excellent');
+    expect(excellent.feedback).toMatch(/Utmärkt/);
+
+    const translated = scoreAssessment(scene, { q1: 'a', q2: 'a' }, 0, createTranslator('en', en).t);
+    expect(translated.feedback).toMatch(/^Excellent!/);
+  });
+
+  it('treats unanswered questions as zero points', () => {
+    const result = scoreAssessment(scene, {});
+    expect(result.score).toBe(0);
+    expect(result.questionResults.every(q => q.selectedOptionId === null)).toBe(true);
+  });
+
+  it('normalizes thresholds and feedback bands', () => {
+    expect(normalizePercentThreshold(0.75)).toBe(75);
+    expect(normalizePercentThreshold(undefined)).toBe(80);
+    expect(getFeedbackBand(95, 96)).toBe('needsImprovement');
+    expect(getFeedbackBand(96, 96)).toBe('excellent');
+    expect(getFeedbackBand(85, 80)).toBe('good');
+  });
+});
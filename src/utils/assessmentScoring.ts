@@ -0,0 +1,120 @@
+/**
+ * Assessment Scoring Utility
+ * Weighted scoring, pass threshold and feedback bands for AssessmentScene manifests
+ */
+
+import type { AssessmentScene } from '../types/game-manifest';
+import { DEFAULT_LOCALE, createTranslator, sv, type MessageKey, type TranslateFunction } from '../i18n';
+
+export type AssessmentFeedbackBand = 'excellent' | 'good' | 'needsImprovement';
+
+export interface AssessmentQuestionResult {
+  questionId: string;
+  questionText: string;
+  selectedOptionId: string | null;
+  weight: number;
+  score: number;    // Weighted points earned
+  maxScore: number; // Weighted points available
+}
+
+export interface AssessmentResult {
+  score: number;
+  maxScore: number;
+  percentageScore: number;
+  passThreshold: number; // Percent
+  passed: boolean;
+  band: AssessmentFeedbackBand;
+  feedback: string;
+  questionResults: AssessmentQuestionResult[];
+  timeSpent: number; // milliseconds
+  certificationArea?: string;
+}
+
+export const DEFAULT_PASS_THRESHOLD = 80; // Percent
+const EXCELLENT_THRESHOLD = 90; // Percent
+
+// Catalog messages used when the manifest has no feedback text for the band
+const DEFAULT_FEEDBACK: Record<AssessmentFeedbackBand, MessageKey> = {
+  excellent: 'assessment.feedback.excellent',
+  good: 'assessment.feedback.good',
+  needsImprovement: 'assessment.feedback.needsImprovement'
+};
+
+/**
+ * Normalize a threshold expressed as a fraction (0.7) or a percentage (70) to percent
+ */
+export const normalizePercentThreshold = (value: unknown, fallback = DEFAULT_PASS_THRESHOLD): number => {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    return fallback;
+  }
+  const percent = value <= 1 ? value * 100 : value;
+  return Math.min(100, Math.max(0, percent));
+};
+
+/**
+ * Resolve the pass threshold (percent) of an assessment scene
+ */
+export const getPassThreshold = (scene: Pick<AssessmentScene, 'scoring'>): number =>
+  normalizePercentThreshold(scene.scoring?.passThreshold ?? scene.scoring?.passingScore);
+
+/**
+ * Score the player's answers against the assessment definition
+ * Each question contributes (selected option score × weight) out of (best option score × weight);
+ * default feedback is translated with `t`, Swedish when omitted
+ */
+export const scoreAssessment = (
+  scene: Pick<AssessmentScene, 'questions' | 'scoring' | 'certificationArea'>,
+  responses: Record<string, string | undefined>,
+  timeSpent = 0,
+  t: TranslateFunction = createTranslator(DEFAULT_LOCALE, sv).t
+): AssessmentResult => {
+  const questionResults: AssessmentQuestionResult[] = (scene.questions || []).map(question => {
+    const weight = typeof question.weight === 'number' && question.weight >= 0 ? question.weight : 1;
+    const bestOptionScore = Math.max(0, ...question.options.map(option => option.score));
+    const selectedOptionId = responses[question.id] ?? null;
+    const selectedOption = question.options.find(option => option.id === selectedOptionId);
+
+    return {
+      questionId: question.id,
+      questionText: question.text,
+      selectedOptionId: selectedOption ? selectedOption.id : null,
+      weight,
+      score: roundScore((selectedOption?.score ?? 0) * weight),
+      maxScore: roundScore(bestOptionScore * weight)
+    };
+  });
+
+  const score = roundScore(questionResults.reduce((sum, result) => sum + result.score, 0));
+  const maxScore = roundScore(questionResults.reduce((sum, result) => sum + result.maxScore, 0));
+  // An assessment without scorable questions cannot be failed
+  const percentageScore = maxScore > 0 ? Math.max(0, Math.round((score / maxScore) * 100)) : 100;
+  const passThreshold = getPassThreshold(scene);
+  const passed = percentageScore >= passThreshold;
+  const band = getFeedbackBand(percentageScore, passThreshold);
+
+  return {
+    score,
+    maxScore,
+    percentageScore,
+    passThreshold,
+    passed,
+    band,
+    feedback: scene.scoring?.feedback?.[band] || t(DEFAULT_FEEDBACK[band]),
+    questionResults,
+    timeSpent,
+    certificationArea: scene.certificationArea
+  };
+};
+
+/**
+ * Map a percentage to a feedback band
+ * Excellent requires at least 90% (or the pass threshold if that is stricter)
+ */
+export const getFeedbackBand = (percentageScore: number, passThreshold: number): AssessmentFeedbackBand => {
+  if (percentageScore < passThreshold) {
+    return 'needsImprovement';
+  }
+  return percentageScore >= Math.max(EXCELLENT_THRESHOLD, passThreshold) ? 'excellent' : 'good';
+};
+
+const roundScore = (value: number): number => Math.round(value * 100) / 100;
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  applyVariableEffects,
+  collectSceneEffects,
+  getInitialVariables,
+  getNavigationIssues,
+  resolveNextScene,
+  type NavigationState
+} from './conditionalNavigation';
+import { loadGameManifest, ManifestSchemaError } from './manifestLoader';
+import { MANIFEST_SCHEMA_VERSION, type DialogueScene, type QuizScene } from '../types/game-manifest';
+
+const variables = {
+  budget: { type: 'number' as const, initial: 1000 },
+  reported: { type: 'boolean' as const, initial: false }
+};
+
+const budgetDialogue: DialogueScene = {
+  id: 'budget-meeting',
+  type: 'dialogue',
+  characters: [{ id: 'anna', name: 'Anna' }],
+  messages: [{ characterId: 'anna', text: 'Hur prioriterar vi?' }],
+  choices: [
+    { id: 'spend', text: 'Köp nytt system', effects: [{ increment: 'budget', by: -1500 }] },
+    { id: 'report', text: 'Rapportera incidenten', effects: [{ set: 'reported', value: true }] }
+  ],
+  navigation: {
+    next: 'summary',
+    branches: [
+      { if: 'budget < 0', next: 'crisis' },
+      { if: "reported && visited('intro')", next: 'follow-up' }
+    ]
+  }
+};
+
+const state = (overrides: Partial<NavigationState> = {}): NavigationState => ({
+  score: 0,
+  maxScore: 0,
+  variables: { budget: 1000, reported: false },
+  visited: ['intro', 'budget-meeting'],
+  answers: {},
+  ...overrides
+});
+
+describe('game variables', () => {
+  it('starts from the declared initial values', () => {
+    expect(getInitialVariables({ variables })).toEqual({ budget: 1000, reported: false });
+    expect(getInitialVariables({})).toEqual({});
+  });
+
+  it('applies set and increment effects in order', () => {
+    expect(applyVariableEffects({ budget: 1000, reported: false }, [
+      { increment: 'budget', by: -1500 },
+      { increment: 'budget' },
+      { set: 'reported', value: true },
+      { increment: 'reported' }
+    ])).toEqual({ budget: -499, reported: true });
+  });
+
+  it('collects effects of the picked dialogue choice and quiz options', () => {
+    expect(collectSceneEffects(budgetDialogue, { choiceId: 'spend' })).toEqual([{ increment: 'budget', by: -1500 }]);
+
+    const quiz: QuizScene = {
+      id: 'quiz',
+      type: 'quiz',
+      questions: [{
+        id: 'q1',
+        text: 'Vad gör du?',
+        options: [
+          { id: 'a', text: 'Anmäl', isCorrect: true, effects: [{ set: 'reported', value: true }] },
+          { id: 'b', text: 'Vänta', isCorrect: false, effects: [{ increment: 'budget', by: -100 }] }
+        ]
+      }]
+    };
+    expect(collectSceneEffects(quiz, { answers: [{ question_id: 'q1', selected_answers: ['a'] }] }))
+      .toEqual([{ set: 'reported', value: true }]);
+  });
+});
+
+describe('resolveNextScene', () => {
+  it('takes the first branch whose condition holds', () => {
+    expect(resolveNextScene(budgetDialogue, {}, state({ variables: { budget: -500, reported: true } }))).toBe('crisis');
+    expect(resolveNextScene(budgetDialogue, {}, state({ variables: { budget: 500, reported: true } }))).toBe('follow-up');
+  });
+
+  it('falls back to the scene result and then navigation.next', () => {
+    expect(resolveNextScene(budgetDialogue, { nextScene: 'choice-target' }, state())).toBe('choice-target');
+    expect(resolveNextScene(budgetDialogue, {}, state())).toBe('summary');
+  });
+
+  it('exposes game and scene scores and previous answers', () => {
+    const scene = {
+      ...budgetDialogue,
+      navigation: {
+        next: 'summary',
+        branches: [{ if: "percentage >= 80 && scenePassed && answered('quiz', 'a')", next: 'advanced' }]
+      }
+    };
+    const answers = { quiz: [{ question_id: 'q1', selected_answers: ['a'] }] };
+
+    expect(resolveNextScene(scene, { passed: true }, state({ score: 8, maxScore: 10, answers }))).toBe('advanced');
+    expect(resolveNextScene(scene, { passed: false }, state({ score: 8, maxScore: 10, answers }))).toBe('summary');
+  });
+
+  it('skips branches that fail to evaluate', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const scene = { ...budgetDialogue, navigation: { next: 'summary', branches: [{ if: 'missing > 0', next: 'crisis' }] } };
+
+    expect(resolveNextScene(scene, {}, state())).toBe('summary');
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('getNavigationIssues', () => {
+  const manifest = {
+    variables,
+    scenes: [
+      { id: 'intro', type: 'summary' },
+      budgetDialogue,
+      { id: 'crisis', type: 'summary' },
+      { id: 'follow-up', type: 'summary' },
+      { id: 'summary', type: 'summary' }
+    ]
+  };
+
+  it('accepts manifests whose references all exist', () => {
+    expect(getNavigationIssues(manifest)).toEqual([]);
+  });
+
+  it('reports unknown variables, scenes and invalid effects', () => {
+    const issues = getNavigationIssues({
+      variables: { ...variables, score: { type: 'number', initial: 'high' } },
+      scenes: [
+        {
+          ...budgetDialogue,
+          choices: [
+            { id: 'spend', text: 'Köp', effects: [{ increment: 'reported' }, { set: 'budget', value: 'mycket' }, { set: 'morale', value: 1 }] }
+          ],
+          navigation: {
+            branches: [
+              { if: "moral < 0 && visited('outro')", next: 'crisis' },
+              { if: 'budget <', next: 'end' }
+            ]
+          }
+        }
+      ]
+    });
+
+    expect(issues).toEqual([
+      { path: 'variables.score', message: "Variable name 'score' is reserved" },
+      { path: 'variables.score.initial', message: 'Initial value must be a number' },
+      { path: 'scenes[0].choices[0].effects[0]', message: "Cannot increment boolean variable 'reported'" },
+      { path: 'scenes[0].choices[0].effects[1]', message: "Variable 'budget' needs a number value" },
+      { path: 'scenes[0].choices[0].effects[2]', message: "Unknown variable 'morale'" },
+      { path: 'scenes[0].navigation.branches[0].next', message: "Branch target 'crisis' does not match any scene" },
+      { path: 'scenes[0].navigation.branches[0].if', message: "Unknown variable 'moral'" },
+      { path: 'scenes[0].navigation.branches[0].if', message: "Unknown scene 'outro'" },
+      { path: 'scenes[0].navigation.branches[1].if', message: "Unexpected 'end of expression' at position 8" }
+    ]);
+  });
+
+  it('fails manifest loading on navigation issues', () => {
+    const load = () => loadGameManifest({
+      schemaVersion: MANIFEST_SCHEMA_VERSION,
+      gameId: 'branching',
+      metadata: { title: 'Test', duration: '5 minuter' },
+      startScene: 'budget-meeting',
+      variables,
+      scenes: [{ ...budgetDialogue, navigation: { branches: [{ if: 'budget < 0', next: 'crisis' }] } }]
+    });
+
+    expect(load).toThrow(ManifestSchemaError);
+    expect(load).toThrow("scenes[0].navigation.branches[0].next: Branch target 'crisis' does not match any scene");
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Conditional Navigation
+ * Game variables, choice/option effects and navigation branches evaluated by StrategyPlayHost,
+ * plus the static checks validators run before a manifest is published
+ */
+
+import type {
+  GameManifest,
+  GameVariableDefinition,
+  GameVariableValue,
+  Scene,
+  VariableEffect
+} from '../types/game-manifest';
+import {
+  BUILTIN_IDENTIFIERS,
+  collectExpressionReferences,
+  evaluateNavigationExpression,
+  NavigationExpressionError,
+  parseNavigationExpression
+} from './navigationExpressions';
+
+export interface NavigationIssue {
+  path: string;
+  message: string;
+}
+
+// Game progress after the current scene's results are counted
+export interface NavigationState {
+  score: number;
+  maxScore: number;
+  variables: Record<string, GameVariableValue>;
+  visited: string[];
+  answers: Record<string, unknown>;
+}
+
+export interface SceneOutcome {
+  nextScene?: string;
+  score?: number;
+  maxScore?: number;
+  passed?: boolean;
+}
+
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const VARIABLE_TYPES = ['number', 'boolean', 'string'];
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+export const getInitialVariables = (manifest: Pick<GameManifest, 'variables'>): Record<string, GameVariableValue> =>
+  Object.fromEntries(
+    Object.entries(manifest.variables ?? {}).map(([name, definition]) => [name, definition.initial])
+  );
+
+/**
+ * Apply set/increment effects in order; increments of non-numeric variables are ignored
+ */
+export const applyVariableEffects = (
+  variables: Record<string, GameVariableValue>,
+  effects: VariableEffect[]
+): Record<string, GameVariableValue> => {
+  const next = { ...variables };
+  effects.forEach(effect => {
+    if ('set' in effect) {
+      next[effect.set] = effect.value;
+    } else {
+      const current = next[effect.increment] ?? 0;
+      if (typeof current === 'number') {
+        next[effect.increment] = current + (effect.by ?? 1);
+      }
+    }
+  });
+  return next;
+};
+
+/**
+ * Effects of the dialogue choice or quiz options the player picked in a scene
+ */
+export const collectSceneEffects = (scene: Scene, results: RawObject): VariableEffect[] => {
+  if (scene.type === 'dialogue') {
+    const choice = scene.choices?.find(candidate => candidate.id === results.choiceId);
+    return choice?.effects ?? [];
+  }
+
+  if (scene.type === 'quiz' && Array.isArray(results.answers)) {
+    return results.answers.flatMap((answer: RawObject) => {
+      const question = scene.questions.find(candidate => candidate.id === answer.question_id);
+      const selected: string[] = Array.isArray(answer.selected_answers) ? answer.selected_answers : [];
+      return (question?.options ?? [])
+        .filter(option => selected.includes(option.id))
+        .flatMap(option => option.effects ?? []);
+    });
+  }
+
+  return [];
+};
+
+// Scene answer shapes differ per scene type, so look for the id anywhere in the recorded answers
+const answersContain = (answers: unknown, answerId: string): boolean => {
+  if (answers === answerId) return true;
+  if (Array.isArray(answers)) return answers.some(answer => answersContain(answer, answerId));
+  if (isObject(answers)) return Object.values(answers).some(answer => answersContain(answer, answerId));
+  return false;
+};
+
+/**
+ * Pick the next scene: the first branch whose condition holds, then the scene's own result, then navigation.next
+ * Branches that fail to evaluate are skipped so a content error cannot strand the player
+ */
+export const resolveNextScene = (
+  scene: Scene | undefined,
+  outcome: SceneOutcome,
+  state: NavigationState
+): string | undefined => {
+  const context = {
+    variables: state.variables,
+    builtins: {
+      score: state.score,
+      maxScore: state.maxScore,
+      percentage: state.maxScore > 0 ? Math.round((state.score / state.maxScore) * 100) : 0,
+      sceneScore: outcome.score ?? 0,
+      sceneMaxScore: outcome.maxScore ?? 0,
+      scenePassed: outcome.passed ?? false
+    },
+    visited: (sceneId: string) => state.visited.includes(sceneId),
+    answered: (sceneId: string, answerId: string) => answersContain(state.answers[sceneId], answerId)
+  };
+
+  for (const branch of scene?.navigation?.branches ?? []) {
+    try {
+      if (evaluateNavigationExpression(parseNavigationExpression(branch.if), context, branch.if)) {
+        return branch.next;
+      }
+    } catch (error) {
+      if (!(error instanceof NavigationExpressionError)) throw error;
+      console.warn(`Navigation branch '${branch.if}' in scene '${scene?.id}' skipped:`, error.message);
+    }
+  }
+
+  return outcome.nextScene || scene?.navigation?.next;
+};
+
+const checkVariables = (variables: unknown, issues: NavigationIssue[]): Record<string, GameVariableDefinition> => {
+  if (variables === undefined) return {};
+  if (!isObject(variables)) {
+    issues.push({ path: 'variables', message: 'variables must be an object of variable definitions' });
+    return {};
+  }
+
+  Object.entries(variables).forEach(([name, definition]) => {
+    const path = `variables.${name}`;
+    if (!VARIABLE_NAME.test(name)) {
+      issues.push({ path, message: `Variable name '${name}' can only use letters, digits and _` });
+    }
+    if ((BUILTIN_IDENTIFIERS as readonly string[]).includes(name)) {
+      issues.push({ path, message: `Variable name '${name}' is reserved` });
+    }
+    if (!isObject(definition) || typeof definition.type !== 'string' || !VARIABLE_TYPES.includes(definition.type)) {
+      issues.push({ path: `${path}.type`, message: `Variable type must be one of ${VARIABLE_TYPES.join(', ')}` });
+    } else if (typeof definition.initial !== definition.type) {
+      issues.push({ path: `${path}.initial`, message: `Initial value must be a ${definition.type}` });
+    }
+  });
+
+  return variables as Record<string, GameVariableDefinition>;
+};
+
+const checkEffects = (
+  effects: unknown,
+  path: string,
+  variables: Record<string, GameVariableDefinition>,
+  issues: NavigationIssue[]
+): void => {
+  if (effects === undefined) return;
+  if (!Array.isArray(effects)) {
+    issues.push({ path, message: 'effects must be an array' });
+    return;
+  }
+
+  effects.forEach((effect, index) => {
+    const effectPath = `${path}[${index}]`;
+    const name = isObject(effect) ? (effect.set ?? effect.increment) : undefined;
+    if (typeof name !== 'string') {
+      issues.push({ path: effectPath, message: 'Effect needs a set or increment variable' });
+      return;
+    }
+    const definition = variables[name];
+    if (!definition) {
+      issues.push({ path: effectPath, message: `Unknown variable '${name}'` });
+    } else if ('set' in effect && typeof effect.value !== definition.type) {
+      issues.push({ path: effectPath, message: `Variable '${name}' needs a ${definition.type} value` });
+    } else if ('increment' in effect && definition.type !== 'number') {
+      issues.push({ path: effectPath, message: `Cannot increment ${definition.type} variable '${name}'` });
+    } else if ('increment' in effect && effect.by !== undefined && typeof effect.by !== 'number') {
+      issues.push({ path: effectPath, message: 'Increment amount must be a number' });
+    }
+  });
+};
+
+/**
+ * Statically check variables, effects and branches: every expression parses and every referenced
+ * variable and scene exists. Works on canonical manifests that have not been loaded yet.
+ */
+export const getNavigationIssues = (manifest: { scenes?: unknown; variables?: unknown }): NavigationIssue[] => {
+  const issues: NavigationIssue[] = [];
+  const variables = checkVariables(manifest.variables, issues);
+  const scenes = Array.isArray(manifest.scenes) ? manifest.scenes.filter(isObject) : [];
+  const sceneIds = new Set(scenes.map(scene => scene.id));
+  const knownIdentifiers = new Set<string>([...BUILTIN_IDENTIFIERS, ...Object.keys(variables)]);
+
+  scenes.forEach((scene, sceneIndex) => {
+    const path = `scenes[${sceneIndex}]`;
+
+    if (Array.isArray(scene.choices)) {
+      scene.choices.forEach((choice: RawObject, index: number) =>
+        checkEffects(choice?.effects, `${path}.choices[${index}].effects`, variables, issues));
+    }
+    if (Array.isArray(scene.questions)) {
+      scene.questions.forEach((question: RawObject, questionIndex: number) => {
+        (Array.isArray(question?.options) ? question.options : []).forEach((option: RawObject, index: number) =>
+          checkEffects(option?.effects, `${path}.questions[${questionIndex}].options[${index}].effects`, variables, issues));
+      });
+    }
+
+    const branches = isObject(scene.navigation) ? scene.navigation.branches : undefined;
+    if (branches === undefined) return;
+    if (!Array.isArray(branches)) {
+      issues.push({ path: `${path}.navigation.branches`, message: 'branches must be an array' });
+      return;
+    }
+
+    branches.forEach((branch, index) => {
+      const branchPath = `${path}.navigation.branches[${index}]`;
+      if (!isObject(branch) || typeof branch.if !== 'string' || typeof branch.next !== 'string') {
+        issues.push({ path: branchPath, message: 'Branch needs an if expression and a next scene' });
+        return;
+      }
+      if (branch.next !== 'end' && !sceneIds.has(branch.next)) {
+        issues.push({ path: `${branchPath}.next`, message: `Branch target '${branch.next}' does not match any scene` });
+      }
+
+      try {
+        const references = collectExpressionReferences(parseNavigationExpression(branch.if));
+        references.identifiers
+          .filter(identifier => !knownIdentifiers.has(identifier))
+          .forEach(identifier => issues.push({ path: `${branchPath}.if`, message: `Unknown variable '${identifier}'` }));
+        references.scenes
+          .filter(sceneId => !sceneIds.has(sceneId))
+          .forEach(sceneId => issues.push({ path: `${branchPath}.if`, message: `Unknown scene '${sceneId}'` }));
+      } catch (error) {
+        if (!(error instanceof NavigationExpressionError)) throw error;
+        issues.push({ path: `${branchPath}.if`, message: error.message });
+      }
+    });
+  });
+
+  return issues;
+};
@@ -1,6 +1,13 @@
 // DevTeam Content Validation (System Architect requirements)
 // JSON Schema validation with <5s feedback requirement
 
+import { isSafeResourceUrl } from './resourceLinks';
+import { loadGameManifest, ManifestSchemaError, type ManifestSchemaIssue } from './manifestLoader';
+import type { ManifestMigrationReport } from './manifestMigrations';
+import { getMissingTranslations } from './manifestTranslations';
+
+type RawObject = Record<string, unknown>;
+
 interface ValidationResult {
   isValid: boolean;
   errors: string[];
@@ -10,6 +17,7 @@ interface ValidationResult {
     estimatedLoadTime: number; // ms
     lighthouseImpact: number; // estimated score impact
   };
+  migration?: ManifestMigrationReport; // Set when the manifest loaded
 }
 
 // Content size limits from System Architect analysis
@@ -274,6 +282,8 @@ export const validateGameManifest = (manifest: any): ValidationResult => {
     if (!manifest.scenes || !Array.isArray(manifest.scenes)) {
       errors.push("Missing or invalid scenes array");
     } else {
+      const sceneIds = new Set(manifest.scenes.map((scene: RawObject) => scene.id));
+
       // Validate each scene
       manifest.scenes.forEach((scene: any, index: number) => {
         if (!scene.id) {
@@ -290,12 +300,90 @@ export const validateGameManifest = (manifest: any): ValidationResult => {
         if (scene.type === 'dialogue' && sceneSize > CONTENT_LIMITS.DIALOGUE_SCENE_MAX) {
           errors.push(`Dialogue scene ${scene.id} exceeds size limit`);
         }
+        if (scene.type === 'dialogue' && Array.isArray(scene.choices)) {
+          const choiceIds = new Set<string>();
+          scene.choices.forEach((choice: RawObject, choiceIndex: number) => {
+            const choiceRef = choice.id || choiceIndex;
+            if (typeof choice.id !== 'string' || !choice.id || !choice.text) {
+              errors.push(`Dialogue scene ${scene.id} choice ${choiceRef} missing id or text`);
+            } else if (choiceIds.has(choice.id)) {
+              errors.push(`Dialogue scene ${scene.id} has duplicate choice id: ${choice.id}`);
+            } else {
+              choiceIds.add(choice.id);
+            }
+            if (choice.nextScene && choice.nextScene !== 'end' && !sceneIds.has(choice.nextScene)) {
+              errors.push(`Dialogue scene ${scene.id} choice ${choiceRef} points to unknown scene: ${choice.nextScene}`);
+            }
+            if (choice.points !== undefined && typeof choice.points !== 'number') {
+              errors.push(`Dialogue scene ${scene.id} choice ${choiceRef} has non-numeric points`);
+            }
+          });
+        }
         if (scene.type === 'quiz' && sceneSize > CONTENT_LIMITS.QUIZ_SCENE_MAX) {
           errors.push(`Quiz scene ${scene.id} exceeds size limit`);
         }
+        if (scene.type === 'resource') {
+          if (!Array.isArray(scene.resources)) {
+            errors.push(`Resource scene ${scene.id} missing resources array`);
+          } else {
+            scene.resources.forEach((resource: RawObject, resourceIndex: number) => {
+              const resourceRef = resource.id || resourceIndex;
+              if (typeof resource.type !== 'string' || !['pdf', 'video', 'link', 'download'].includes(resource.type)) {
+                errors.push(`Resource scene ${scene.id} resource ${resourceRef} has invalid type: ${resource.type}`);
+              }
+              if (typeof resource.url !== 'string' || !isSafeResourceUrl(resource.url)) {
+                errors.push(`Resource scene ${scene.id} resource ${resourceRef} has unsafe or invalid url`);
+              }
+              if (resource.thumbnail && (typeof resource.thumbnail !== 'string' || !isSafeResourceUrl(resource.thumbnail))) {
+                warnings.push(`Resource scene ${scene.id} resource ${resourceRef} thumbnail will not be shown (unsafe url)`);
+              }
+            });
+          }
+        }
+        if (scene.type === 'assessment') {
+          if (sceneSize > CONTENT_LIMITS.ASSESSMENT_SCENE_MAX) {
+            errors.push(`Assessment scene ${scene.id} exceeds size limit`);
+          }
+          if (!Array.isArray(scene.questions) || scene.questions.length === 0) {
+            warnings.push(`Assessment scene ${scene.id} has no questions and will always pass`);
+          } else {
+            scene.questions.forEach((question: RawObject, questionIndex: number) => {
+              if (!Array.isArray(question.options) || question.options.length < 2) {
+                errors.push(`Assessment scene ${scene.id} question ${question.id || questionIndex} needs at least 2 options`);
+              } else if (question.options.some((option: RawObject) => typeof option.score !== 'number')) {
+                errors.push(`Assessment scene ${scene.id} question ${question.id || questionIndex} has options without a numeric score`);
+              }
+              if (question.weight !== undefined && (typeof question.weight !== 'number' || question.weight < 0)) {
+                errors.push(`Assessment scene ${scene.id} question ${question.id || questionIndex} has invalid weight`);
+              }
+            });
+          }
+        }
       });
     }
 
+    // Scenes must load into the canonical schema, otherwise they render blank
+    // (top-level field problems are already reported above)
+    const formatIssue = (issue: ManifestSchemaIssue) => `${issue.path}: ${issue.message}`;
+    const isReportedAbove = (issue: ManifestSchemaIssue) => ['gameId', 'metadata', 'scenes'].includes(issue.path);
+    let migration: ManifestMigrationReport | undefined;
+    try {
+      const loaded = loadGameManifest(manifest);
+      migration = loaded.migration;
+      warnings.push(...loaded.warnings.map(formatIssue));
+      if (migration.steps.length > 0) {
+        warnings.push(`schemaVersion ${migration.fromVersion} migrated to ${migration.toVersion}; republish the manifest to skip migration`);
+      }
+    } catch (schemaError) {
+      if (!(schemaError instanceof ManifestSchemaError)) throw schemaError;
+      errors.push(...schemaError.issues.filter(issue => !isReportedAbove(issue)).map(formatIssue));
+    }
+
+    // Multilingual manifests still render with missing translations, via the fallback chain
+    Object.entries(getMissingTranslations(manifest)).forEach(([locale, paths]) => {
+      warnings.push(`Missing '${locale}' translation for ${paths.length} field(s): ${paths.join(', ')}`);
+    });
+
     // Total size check
     const manifestString = JSON.stringify(manifest);
     const manifestSize = new Blob([manifestString]).size;
@@ -322,7 +410,8 @@ export const validateGameManifest = (manifest: any): ValidationResult => {
         contentSize: Math.round(manifestSize / 1024),
         estimatedLoadTime: Math.round(estimatedLoadTime),
         lighthouseImpact
-      }
+      },
+      migration
     };
 
   } catch (error) {
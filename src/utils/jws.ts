@@ -0,0 +1,172 @@
+/**
+ * JSON Web Signature Utility
+ * Compact and detached JWS (RFC 7515) with ES256 over WebCrypto, available in browsers and Node 20
+ * Tokens from external identity providers may also be RS256, which is verified but never signed here
+ * Detached signatures leave the payload out of the token, so a signed file travels next to its
+ * signature unchanged (RFC 7515 appendix F)
+ */
+
+export type JwsAlgorithm = 'ES256' | 'RS256';
+
+export interface JwsHeader {
+  alg: JwsAlgorithm;
+  kid?: string;
+  typ?: string;
+  cty?: string;
+  [parameter: string]: unknown;
+}
+
+export interface DecodedJws {
+  header: JwsHeader;
+  payload: Uint8Array;
+  signingInput: string; // `${header}.${payload}` as encoded in the token
+  signature: Uint8Array;
+}
+
+export interface JwsKeyPair {
+  kid: string;
+  privateKey: CryptoKey;
+  publicKey: CryptoKey;
+  publicJwk: JsonWebKey & { kid: string; alg: 'ES256'; use: 'sig' };
+}
+
+const ECDSA_P256 = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const ES256_SIGN = { name: 'ECDSA', hash: 'SHA-256' } as const;
+const RS256 = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' } as const;
+const SUPPORTED_ALGORITHMS: readonly string[] = ['ES256', 'RS256'];
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export const base64UrlEncode = (input: Uint8Array | string): string => {
+  const bytes = typeof input === 'string' ? textEncoder.encode(input) : input;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const base64UrlDecode = (input: string): Uint8Array => {
+  if (!/^[A-Za-z0-9_-]*$/.test(input)) {
+    throw new Error('Invalid base64url value');
+  }
+  const binary = atob(input.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const sha256Hex = async (data: Uint8Array | string): Promise<string> => {
+  const bytes = typeof data === 'string' ? textEncoder.encode(data) : data;
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Fresh ES256 signing key; the public half is exported for JWKS publication
+ */
+export const generateJwsKeyPair = async (kid: string): Promise<JwsKeyPair> => {
+  const { privateKey, publicKey } = await crypto.subtle.generateKey(ECDSA_P256, true, ['sign', 'verify']);
+  const { kty, crv, x, y } = await crypto.subtle.exportKey('jwk', publicKey);
+  return { kid, privateKey, publicKey, publicJwk: { kty, crv, x, y, kid, alg: 'ES256', use: 'sig' } };
+};
+
+/**
+ * Signing key from a private EC P-256 JWK, e.g. a key kept in the deployment's secret store
+ */
+export const importJwsKeyPair = async (privateJwk: JsonWebKey & { kid?: string }, kid = privateJwk.kid): Promise<JwsKeyPair> => {
+  if (privateJwk.kty !== 'EC' || privateJwk.crv !== 'P-256' || !privateJwk.d) {
+    throw new Error('Signing key must be a private EC P-256 JWK');
+  }
+  if (!kid) {
+    throw new Error('Signing key needs a key id (kid)');
+  }
+  const { kty, crv, x, y } = privateJwk;
+  const privateKey = await crypto.subtle.importKey('jwk', { kty, crv, x, y, d: privateJwk.d }, ECDSA_P256, false, ['sign']);
+  const publicKey = await importJwsPublicKey({ kty, crv, x, y });
+  return { kid, privateKey, publicKey, publicJwk: { kty, crv, x, y, kid, alg: 'ES256', use: 'sig' } };
+};
+
+/**
+ * Verification key from a public JWK: EC P-256 for ES256 or RSA for RS256
+ */
+export const importJwsPublicKey = (jwk: JsonWebKey): Promise<CryptoKey> => {
+  if (jwk.kty === 'RSA') {
+    return crypto.subtle.importKey('jwk', { kty: jwk.kty, n: jwk.n, e: jwk.e }, RS256, false, ['verify']);
+  }
+  return crypto.subtle.importKey('jwk', { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y }, ECDSA_P256, false, ['verify']);
+};
+
+/**
+ * Compact JWS `header.payload.signature`
+ */
+export const signJws = async (
+  payload: Uint8Array | string,
+  privateKey: CryptoKey,
+  header: Omit<JwsHeader, 'alg'> = {}
+): Promise<string> => {
+  const signingInput = `${base64UrlEncode(JSON.stringify({ alg: 'ES256', ...header }))}.${base64UrlEncode(payload)}`;
+  const signature = await crypto.subtle.sign(ES256_SIGN, privateKey, textEncoder.encode(signingInput));
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+};
+
+/**
+ * Compact JWS with the payload left out: `header..signature`
+ */
+export const signDetachedJws = async (
+  payload: Uint8Array | string,
+  privateKey: CryptoKey,
+  header: Omit<JwsHeader, 'alg'> = {}
+): Promise<string> => {
+  const [encodedHeader, , signature] = (await signJws(payload, privateKey, header)).split('.');
+  return `${encodedHeader}..${signature}`;
+};
+
+/**
+ * Split a compact JWS; a detached payload is put back in before decoding
+ */
+export const decodeJws = (token: string, detachedPayload?: Uint8Array | string): DecodedJws => {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('JWS must have three parts');
+  }
+  const [encodedHeader, attachedPayload, encodedSignature] = parts;
+  const encodedPayload = detachedPayload !== undefined ? base64UrlEncode(detachedPayload) : attachedPayload;
+
+  let header: JwsHeader;
+  try {
+    header = JSON.parse(textDecoder.decode(base64UrlDecode(encodedHeader)));
+  } catch {
+    throw new Error('JWS header is not valid JSON');
+  }
+  if (!SUPPORTED_ALGORITHMS.includes(header.alg)) {
+    throw new Error(`Unsupported JWS algorithm '${String(header.alg)}'`);
+  }
+
+  return {
+    header,
+    payload: base64UrlDecode(encodedPayload),
+    signingInput: `${encodedHeader}.${encodedPayload}`,
+    signature: base64UrlDecode(encodedSignature)
+  };
+};
+
+/**
+ * The key type must match the token's algorithm, so an RSA key never verifies an ES256 token or the reverse
+ */
+export const verifyJwsSignature = async (decoded: DecodedJws, publicKey: CryptoKey): Promise<boolean> => {
+  const params = decoded.header.alg === 'RS256' ? RS256 : ES256_SIGN;
+  const keyAlgorithm = decoded.header.alg === 'RS256' ? RS256.name : ECDSA_P256.name;
+  if (publicKey.algorithm.name !== keyAlgorithm) return false;
+  return crypto.subtle.verify(params, publicKey, decoded.signature, textEncoder.encode(decoded.signingInput));
+};
+
+/**
+ * Check a detached JWS against the payload it was made for; malformed tokens are not valid
+ */
+export const verifyDetachedJws = async (token: string, payload: Uint8Array | string, publicKey: CryptoKey): Promise<boolean> => {
+  try {
+    return await verifyJwsSignature(decodeJws(token, payload), publicKey);
+  } catch {
+    return false;
+  }
+};
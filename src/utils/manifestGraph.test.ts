@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeManifestGraph, estimateSceneSeconds, parseDurationSeconds } from './manifestGraph';
+
+const dialogue = (id: string, next?: string, choices?: Array<{ id: string; nextScene?: string }>) => ({
+  id,
+  type: 'dialogue',
+  characters: [{ id: 'anna', name: 'Anna' }],
+  messages: [{ characterId: 'anna', text: 'Hej' }, { characterId: 'anna', text: 'Vad gör vi?' }],
+  choices: choices?.map(choice => ({ text: choice.id, ...choice })),
+  navigation: next ? { next } : undefined
+});
+
+const summary = (id = 'summary') => ({ id, type: 'summary', title: 'Klart', message: 'Bra jobbat' });
+
+describe('analyzeManifestGraph', () => {
+  it('reports path lengths of a branching manifest', () => {
+    const report = analyzeManifestGraph({
+      startScene: 'intro',
+      metadata: { duration: '2 minutes' },
+      scenes: [
+        dialogue('intro', undefined, [{ id: 'short', nextScene: 'summary' }, { id: 'long', nextScene: 'detail' }]),
+        dialogue('detail', 'summary'),
+        summary()
+      ]
+    });
+
+    expect(report.issues).toEqual([]);
+    expect(report.edges).toEqual({ intro: ['summary', 'detail'], detail: ['summary'], summary: ['end'] });
+    expect(report.stats).toEqual({
+      scenes: { min: 2, max: 3, expected: 2.5 },
+      seconds: { min: 56, max: 72, expected: 64 },
+      targetSeconds: 120
+    });
+  });
+
+  it('rejects dangling scene ids and missing start scenes', () => {
+    expect(analyzeManifestGraph({
+      scenes: [dialogue('intro', 'outro', [{ id: 'a', nextScene: 'missing' }, { id: 'b' }, { id: 'c' }]), summary()]
+    }).issues.filter(issue => issue.severity === 'error')).toEqual([
+      {
+        path: 'scenes[0].choices[0].nextScene',
+        message: `Scene 'missing' does not exist; use an existing scene id or "end"`,
+        severity: 'error',
+        kind: 'dangling_reference'
+      },
+      {
+        path: 'scenes[0].navigation.next',
+        message: `Scene 'outro' does not exist; use an existing scene id or "end"`,
+        severity: 'error',
+        kind: 'dangling_reference'
+      }
+    ]);
+
+    expect(analyzeManifestGraph({ startScene: 'nowhere', scenes: [summary()] }).issues).toEqual([
+      { path: 'startScene', message: "startScene 'nowhere' does not exist", severity: 'error', kind: 'dangling_reference' }
+    ]);
+  });
+
+  it('finds unreachable scenes and endings without a summary', () => {
+    const report = analyzeManifestGraph({
+      scenes: [
+        dialogue('intro', undefined, [{ id: 'quit', nextScene: 'end' }, { id: 'go', nextScene: 'summary' }]),
+        summary(),
+        dialogue('orphan', 'summary')
+      ]
+    });
+
+    expect(report.issues).toEqual([
+      { path: 'scenes[2]', message: "Scene 'orphan' cannot be reached from startScene 'intro'", severity: 'warning', kind: 'unreachable' },
+      { path: 'scenes[0]', message: "The game can end at scene 'intro' without passing a summary scene", severity: 'warning', kind: 'no_summary' }
+    ]);
+  });
+
+  it('rejects loops without exit but accepts loops that can be left', () => {
+    const trapped = analyzeManifestGraph({
+      scenes: [dialogue('intro', 'a'), dialogue('a', 'b'), dialogue('b', 'a'), summary()]
+    });
+    expect(trapped.issues).toContainEqual({
+      path: 'scenes[1]',
+      message: "Scenes 'a' → 'b' loop forever with no way to finish the game",
+      severity: 'error',
+      kind: 'trap_cycle'
+    });
+    expect(trapped.stats).toBeNull();
+
+    const retry = analyzeManifestGraph({
+      scenes: [
+        dialogue('intro', 'quiz'),
+        { id: 'quiz', type: 'quiz', questions: [{ id: 'q1' }], navigation: { next: 'summary', branches: [{ if: '!scenePassed', next: 'intro' }] } },
+        summary()
+      ]
+    });
+    expect(retry.issues).toEqual([]);
+    expect(retry.stats?.scenes).toEqual({ min: 3, max: null, expected: 5 });
+  });
+
+  it('warns when playthroughs do not fit metadata.duration', () => {
+    const scenes = [dialogue('intro', 'summary'), summary()];
+
+    expect(analyzeManifestGraph({ metadata: { duration: '0.5 min' }, scenes }).issues).toEqual([{
+      path: 'metadata.duration',
+      message: "Shortest playthrough takes about 0.8 min, longer than metadata.duration '0.5 min'",
+      severity: 'warning',
+      kind: 'duration'
+    }]);
+    expect(analyzeManifestGraph({ metadata: { duration: '7 minuter' }, scenes }).issues[0]?.message)
+      .toBe("Longest playthrough takes about 0.8 min, less than half of metadata.duration '7 minuter'");
+  });
+});
+
+describe('duration helpers', () => {
+  it('parses common metadata.duration formats', () => {
+    expect(parseDurationSeconds('7 minutes')).toBe(420);
+    expect(parseDurationSeconds('7 minuter')).toBe(420);
+    expect(parseDurationSeconds('PT1H30M')).toBe(5400);
+    expect(parseDurationSeconds('soon')).toBeUndefined();
+  });
+
+  it('estimates scene time from its content', () => {
+    expect(estimateSceneSeconds({ type: 'quiz', questions: [{}, {}] })).toBe(60);
+    expect(estimateSceneSeconds({ type: 'timed_challenge', timeLimit: 90 })).toBe(90);
+    expect(estimateSceneSeconds({ type: 'narrative', estimatedTime: 5 })).toBe(300);
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Manifest Graph Analyzer
+ * Static checks over scene navigation: dangling targets, unreachable scenes, loops without exit,
+ * endings that skip the summary, and playthrough length compared with metadata.duration
+ */
+
+export interface ManifestGraphIssue {
+  path: string;
+  message: string;
+  severity: 'error' | 'warning';
+  kind: 'dangling_reference' | 'unreachable' | 'trap_cycle' | 'no_summary' | 'duration';
+}
+
+export interface PathRange {
+  min: number;
+  max: number | null; // null when a loop makes the longest path unbounded
+  expected: number; // Every outgoing edge of a scene taken with equal probability
+}
+
+export interface ManifestPathStats {
+  scenes: PathRange;
+  seconds: PathRange;
+  targetSeconds?: number; // Parsed metadata.duration
+}
+
+export interface ManifestGraphReport {
+  issues: ManifestGraphIssue[];
+  edges: Record<string, string[]>; // Scene id to targets, END for game completion
+  stats: ManifestPathStats | null; // null when no playthrough can finish
+}
+
+export const END = 'end';
+
+// Rough reading and answering time per scene element, used for duration estimates
+const SECONDS_PER = {
+  dialogueMessage: 8,
+  dialogueChoice: 10,
+  question: 30,
+  sortItem: 10,
+  workflowItem: 45,
+  resource: 30,
+  summary: 30,
+  scene: 30
+};
+
+// Expected values settle quickly; the cap only matters for loops that rarely exit
+const MAX_EXPECTATION_ITERATIONS = 10000;
+
+type RawObject = Record<string, unknown>;
+
+// A manifest scene with an id; its other fields are checked before use
+interface SceneNode extends RawObject {
+  id: string;
+}
+
+const isObject = (value: unknown): value is RawObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const countOf = (value: unknown): number => (Array.isArray(value) ? value.length : 0);
+
+/**
+ * Estimate how long a player spends in a scene
+ */
+export const estimateSceneSeconds = (scene: RawObject): number => {
+  switch (scene.type) {
+    case 'dialogue':
+      return countOf(scene.messages) * SECONDS_PER.dialogueMessage + (countOf(scene.choices) > 0 ? SECONDS_PER.dialogueChoice : 0);
+    case 'quiz':
+    case 'assessment':
+      return Math.max(1, countOf(scene.questions)) * SECONDS_PER.question;
+    case 'narrative':
+      return typeof scene.estimatedTime === 'number' ? scene.estimatedTime * 60 : SECONDS_PER.scene;
+    case 'timed_challenge':
+      return typeof scene.timeLimit === 'number' ? scene.timeLimit : SECONDS_PER.scene;
+    case 'drag_drop_sort':
+      return countOf(scene.items) * SECONDS_PER.sortItem;
+    case 'workflow':
+      return (countOf(scene.permits) + countOf(scene.invoices)) * SECONDS_PER.workflowItem;
+    case 'resource':
+      return Math.max(1, countOf(scene.resources)) * SECONDS_PER.resource;
+    case 'summary':
+      return SECONDS_PER.summary;
+    default:
+      return SECONDS_PER.scene;
+  }
+};
+
+/**
+ * Parse metadata.duration such as "7 minutes", "7 minuter", "10 min" or "PT7M" into seconds
+ */
+export const parseDurationSeconds = (duration: unknown): number | undefined => {
+  if (typeof duration !== 'string') return undefined;
+  const iso = /^PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/i.exec(duration.trim());
+  if (iso && (iso[1] || iso[2] || iso[3])) {
+    return Number(iso[1] ?? 0) * 3600 + Number(iso[2] ?? 0) * 60 + Number(iso[3] ?? 0);
+  }
+  const minutes = /^(\d+(?:[.,]\d+)?)\s*(?:minutes?|minuter|minuten|min|mins|m)$/i.exec(duration.trim());
+  return minutes ? Math.round(Number(minutes[1].replace(',', '.')) * 60) : undefined;
+};
+
+const formatMinutes = (seconds: number): string => `${Math.round((seconds / 60) * 10) / 10} min`;
+
+interface SceneEdge {
+  target: string;
+  path: string;
+}
+
+// Mirrors StrategyPlayHost: a choice without nextScene and a scene without next fall back to navigation.next, then END
+const getSceneEdges = (scene: RawObject, path: string): SceneEdge[] => {
+  const navigation = isObject(scene.navigation) ? scene.navigation : {};
+  const fallback: SceneEdge = typeof navigation.next === 'string' && navigation.next
+    ? { target: navigation.next, path: `${path}.navigation.next` }
+    : { target: END, path };
+  const edges: SceneEdge[] = [];
+
+  const choices = Array.isArray(scene.choices) ? scene.choices : [];
+  if (scene.type === 'dialogue' && choices.length > 0) {
+    choices.forEach((choice: RawObject, index: number) => {
+      edges.push(typeof choice?.nextScene === 'string' && choice.nextScene
+        ? { target: choice.nextScene, path: `${path}.choices[${index}].nextScene` }
+        : fallback);
+    });
+  } else {
+    edges.push(fallback);
+  }
+
+  // Conditions are dynamic, so every branch counts as a possible exit next to the static targets
+  if (Array.isArray(navigation.branches)) {
+    navigation.branches.forEach((branch: RawObject, index: number) => {
+      if (typeof branch?.next === 'string') {
+        edges.push({ target: branch.next, path: `${path}.navigation.branches[${index}].next` });
+      }
+    });
+  }
+
+  return edges;
+};
+
+/**
+ * Tarjan's algorithm; components come out in reverse topological order
+ */
+const stronglyConnectedComponents = (nodes: string[], edges: Record<string, string[]>): string[][] => {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  const connect = (node: string): void => {
+    index.set(node, counter);
+    lowLink.set(node, counter);
+    counter++;
+    stack.push(node);
+    onStack.add(node);
+
+    edges[node].forEach(target => {
+      if (!(target in edges)) return;
+      if (!index.has(target)) {
+        connect(target);
+        lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(target)!));
+      } else if (onStack.has(target)) {
+        lowLink.set(node, Math.min(lowLink.get(node)!, index.get(target)!));
+      }
+    });
+
+    if (lowLink.get(node) === index.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      components.push(component);
+    }
+  };
+
+  nodes.forEach(node => {
+    if (!index.has(node)) connect(node);
+  });
+  return components;
+};
+
+const reachableFrom = (start: string, edges: Record<string, string[]>, stopAt?: (node: string) => boolean): Set<string> => {
+  const reached = new Set<string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (reached.has(node) || !(node in edges)) continue;
+    reached.add(node);
+    if (stopAt?.(node)) continue;
+    edges[node].forEach(target => queue.push(target));
+  }
+  return reached;
+};
+
+const canFinish = (node: string, edges: Record<string, string[]>): boolean =>
+  [...reachableFrom(node, edges)].some(member => edges[member].includes(END));
+
+/**
+ * Min, max and expected cost to reach END, where cost is the sum of weight over visited scenes
+ */
+const computeRange = (
+  start: string,
+  nodes: string[],
+  edges: Record<string, string[]>,
+  weight: (node: string) => number,
+  components: string[][]
+): PathRange | null => {
+  // Shortest path: Bellman-Ford style relaxation, weights are non-negative and the graph is small
+  const shortest = new Map<string, number>([[END, 0]]);
+  for (let changed = true; changed;) {
+    changed = false;
+    nodes.forEach(node => {
+      const best = Math.min(...edges[node].map(target => shortest.get(target) ?? Infinity));
+      if (best !== Infinity && best + weight(node) < (shortest.get(node) ?? Infinity)) {
+        shortest.set(node, best + weight(node));
+        changed = true;
+      }
+    });
+  }
+  const min = shortest.get(start);
+  if (min === undefined) return null;
+
+  // Longest path exists only if no loop can be entered from the start
+  const hasLoop = components.some(component =>
+    component.length > 1 || edges[component[0]].includes(component[0]));
+  let max: number | null = null;
+  if (!hasLoop) {
+    const longest = new Map<string, number>([[END, 0]]);
+    // Components are in reverse topological order, so targets are computed first
+    components.forEach(([node]) => {
+      const targets = edges[node].filter(target => target === END || longest.has(target));
+      longest.set(node, weight(node) + Math.max(0, ...targets.map(target => longest.get(target)!)));
+    });
+    max = longest.get(start) ?? null;
+  }
+
+  // Expected cost of a random walk; scenes that cannot reach END are excluded by the caller
+  const expected = new Map<string, number>(nodes.map(node => [node, 0]));
+  for (let iteration = 0; iteration < MAX_EXPECTATION_ITERATIONS; iteration++) {
+    let delta = 0;
+    nodes.forEach(node => {
+      const targets = edges[node].filter(target => target === END || shortest.has(target));
+      const value = weight(node) + targets.reduce((sum, target) =>
+        sum + (target === END ? 0 : expected.get(target)!), 0) / Math.max(1, targets.length);
+      delta = Math.max(delta, Math.abs(value - expected.get(node)!));
+      expected.set(node, value);
+    });
+    if (delta < 1e-6) break;
+  }
+
+  return { min, max, expected: Math.round(expected.get(start)! * 10) / 10 };
+};
+
+/**
+ * Analyze a canonical manifest (migrate legacy schemaVersions first)
+ */
+export const analyzeManifestGraph = (manifest: { scenes?: unknown; startScene?: unknown; metadata?: unknown }): ManifestGraphReport => {
+  const issues: ManifestGraphIssue[] = [];
+  const scenes = (Array.isArray(manifest.scenes) ? manifest.scenes : [])
+    .map((scene, index) => ({ scene, index }))
+    .filter((entry): entry is { scene: SceneNode; index: number } => isObject(entry.scene) && typeof entry.scene.id === 'string');
+  const scenePaths = new Map(scenes.map(({ scene, index }) => [scene.id, `scenes[${index}]`]));
+  const sceneById = new Map(scenes.map(({ scene }) => [scene.id, scene]));
+  const edges: Record<string, string[]> = {};
+
+  const reportedPaths = new Set<string>();
+
+  scenes.forEach(({ scene, index }) => {
+    const sceneEdges = getSceneEdges(scene, `scenes[${index}]`);
+    sceneEdges.forEach(edge => {
+      // Branch targets are reported by getNavigationIssues together with the branch expression
+      if (edge.target !== END && !sceneById.has(edge.target) && !edge.path.includes('.branches[')
+        && !reportedPaths.has(edge.path)) {
+        reportedPaths.add(edge.path);
+        issues.push({
+          path: edge.path,
+          message: `Scene '${edge.target}' does not exist; use an existing scene id or "${END}"`,
+          severity: 'error',
+          kind: 'dangling_reference'
+        });
+      }
+    });
+    edges[scene.id] = [...new Set(sceneEdges.map(edge => edge.target))]
+      .filter(target => target === END || sceneById.has(target));
+  });
+
+  const start = typeof manifest.startScene === 'string' ? manifest.startScene : scenes[0]?.scene.id;
+  if (start === undefined) {
+    return { issues, edges, stats: null };
+  }
+  if (!sceneById.has(start)) {
+    issues.push({ path: 'startScene', message: `startScene '${start}' does not exist`, severity: 'error', kind: 'dangling_reference' });
+    return { issues, edges, stats: null };
+  }
+
+  const reachable = reachableFrom(start, edges);
+  scenes.forEach(({ scene, index }) => {
+    if (!reachable.has(scene.id)) {
+      issues.push({
+        path: `scenes[${index}]`,
+        message: `Scene '${scene.id}' cannot be reached from startScene '${start}'`,
+        severity: 'warning',
+        kind: 'unreachable'
+      });
+    }
+  });
+
+  const reachableNodes = [...reachable];
+  const reachableEdges = Object.fromEntries(reachableNodes.map(node => [node, edges[node]]));
+  const components = stronglyConnectedComponents(reachableNodes, reachableEdges);
+  components.forEach(component => {
+    const members = new Set(component);
+    const isLoop = component.length > 1 || edges[component[0]].includes(component[0]);
+    const hasExit = component.some(node => edges[node].some(target => !members.has(target)));
+    if (isLoop && !hasExit) {
+      const loop = [...component].sort((a, b) => scenePaths.get(a)!.localeCompare(scenePaths.get(b)!, undefined, { numeric: true }));
+      issues.push({
+        path: scenePaths.get(loop[0])!,
+        message: `Scenes ${loop.map(id => `'${id}'`).join(' → ')} loop forever with no way to finish the game`,
+        severity: 'error',
+        kind: 'trap_cycle'
+      });
+    }
+  });
+
+  // Walk until a summary is reached; any END found on the way is an ending without summary
+  const hasSummary = scenes.some(({ scene }) => scene.type === 'summary');
+  if (!hasSummary) {
+    issues.push({ path: 'scenes', message: 'Manifest has no summary scene', severity: 'warning', kind: 'no_summary' });
+  } else {
+    reachableFrom(start, edges, node => sceneById.get(node)?.type === 'summary').forEach(node => {
+      if (sceneById.get(node)?.type !== 'summary' && edges[node].includes(END)) {
+        issues.push({
+          path: scenePaths.get(node)!,
+          message: `The game can end at scene '${node}' without passing a summary scene`,
+          severity: 'warning',
+          kind: 'no_summary'
+        });
+      }
+    });
+  }
+
+  const finishing = reachableNodes.filter(node => canFinish(node, edges));
+  const weightSeconds = (node: string) => estimateSceneSeconds(sceneById.get(node)!);
+  const scenesRange = computeRange(start, finishing, reachableEdges, () => 1, components);
+  const secondsRange = computeRange(start, finishing, reachableEdges, weightSeconds, components);
+  if (!scenesRange || !secondsRange) {
+    return { issues, edges, stats: null };
+  }
+
+  const metadata = isObject(manifest.metadata) ? manifest.metadata : {};
+  const targetSeconds = parseDurationSeconds(metadata.duration);
+  if (targetSeconds !== undefined) {
+    if (secondsRange.min > targetSeconds) {
+      issues.push({
+        path: 'metadata.duration',
+        message: `Shortest playthrough takes about ${formatMinutes(secondsRange.min)}, longer than metadata.duration '${metadata.duration}'`,
+        severity: 'warning',
+        kind: 'duration'
+      });
+    } else if (secondsRange.max !== null && secondsRange.max < targetSeconds / 2) {
+      issues.push({
+        path: 'metadata.duration',
+        message: `Longest playthrough takes about ${formatMinutes(secondsRange.max)}, less than half of metadata.duration '${metadata.duration}'`,
+        severity: 'warning',
+        kind: 'duration'
+      });
+    }
+  }
+
+  return { issues, edges, stats: { scenes: scenesRange, seconds: secondsRange, targetSeconds } };
+};
@@ -0,0 +1,302 @@
+import { describe, it, expect } from 'vitest';
+import {
+  loadGameManifest,
+  ManifestSchemaError,
+  toDialogueSceneData,
+  toQuizSceneData
+} from './manifestLoader';
+import { validateGameManifest } from './contentValidation';
+import { MANIFEST_SCHEMA_VERSION, type DialogueScene, type QuizScene } from '../types/game-manifest';
+import sampleGame from '../examples/sample-game.json';
+import devTeamDemo from '../../examples/digitaliseringsstrategi-demo.json';
+
+const baseManifest = {
+  schemaVersion: '0.1.0',
+  gameId: 'loader-test',
+  metadata: { title: 'Test', duration: '7 minuter' }
+};
+
+const expectSchemaIssues = (input: unknown): string[] => {
+  try {
+    loadGameManifest(input);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ManifestSchemaError);
+    return (error as ManifestSchemaError).issues.map(issue => `${issue.path}: ${issue.message}`);
+  }
+  throw new Error('Expected ManifestSchemaError');
+};
+
+describe('loadGameManifest', () => {
+  it('migrates 0.1.0 manifest dialogues and quizzes to the canonical schema', () => {
+    const { manifest, sourceVersion, migration } = loadGameManifest(sampleGame);
+
+    expect(sourceVersion).toBe('0.1.0');
+    expect(manifest.schemaVersion).toBe(MANIFEST_SCHEMA_VERSION);
+    expect(migration.steps.map(step => `${step.from}->${step.to}`)).toEqual([`0.1.0->${MANIFEST_SCHEMA_VERSION}`]);
+
+    const intro = manifest.scenes.find(scene => scene.id === 'intro') as DialogueScene;
+    expect(intro.characters).toEqual([expect.objectContaining({ id: 'anna_jurist', name: 'Anna Andersson' })]);
+    expect(intro.messages[0]).toEqual(expect.objectContaining({ characterId: 'anna_jurist', emotion: 'supportive' }));
+    expect(intro.choices?.map(choice => choice.nextScene)).toEqual(['what_is_gdpr', 'reassurance']);
+
+    const quiz = manifest.scenes.find(scene => scene.type === 'quiz') as QuizScene;
+    expect(quiz.questions).toHaveLength(1);
+    expect(quiz.questions[0].answerType).toBe('multiple');
+    expect(quiz.questions[0].options.filter(option => option.isCorrect)).toHaveLength(3);
+  });
+
+  it('migrates DevTeam snake_case scenes and defaults the start scene', () => {
+    const { manifest, migration, warnings } = loadGameManifest(devTeamDemo);
+
+    expect(migration.steps[0].changes).toContainEqual({ path: 'schemaVersion', description: 'Missing schemaVersion, treated as 0.1.0' });
+    expect(manifest.startScene).toBe('intro-dialogue');
+    expect(warnings.map(warning => warning.path)).toContain('startScene');
+
+    const dialogue = manifest.scenes[0] as DialogueScene;
+    expect(dialogue.characters.map(character => character.id)).toEqual(['erik-slottner', 'player']);
+    expect(dialogue.messages[0]).toEqual(expect.objectContaining({ characterId: 'erik-slottner', emotion: 'confident', delay: 3000 }));
+
+    const quiz = manifest.scenes[1] as QuizScene;
+    expect(quiz.passingScore).toBe(70);
+    expect(quiz.maxAttempts).toBe(3);
+    expect(quiz.questions[0]).toEqual(expect.objectContaining({ id: 'q1-strategic-areas', answerType: 'single' }));
+    expect(quiz.questions[0].options[0]).toEqual(expect.objectContaining({ id: 'q1-a', isCorrect: true }));
+  });
+
+  it('reports every problem that would render a blank scene', () => {
+    const issues = expectSchemaIssues({
+      ...baseManifest,
+      scenes: [
+        {
+          id: 'talk',
+          type: 'dialogue',
+          characters: [{ id: 'anna', name: 'Anna' }, { id: 'erik', name: 'Erik' }],
+          messages: [{ text: 'Hej!', characterId: 'maria' }, { text: 'Vem talar?' }]
+        },
+        { id: 'check', type: 'quiz', question: 'Vad är GDPR?', options: [{ id: 'a', text: 'En lag', isCorrect: false }] },
+        { id: 'empty', type: 'dialogue', title: 'Saknar innehåll' },
+        { id: 'odd', type: 'minigame' }
+      ]
+    });
+
+    expect(issues).toEqual([
+      "scenes[0].messages[0]: Message speaker 'maria' is not one of the scene characters",
+      'scenes[0].messages[1]: Message has no characterId and the scene has several characters',
+      'scenes[1].questions[0].options: Question needs at least 2 options',
+      'scenes[1].questions[0].options: Question has no correct option',
+      "scenes[2].messages: Dialogue scene 'empty' has no messages",
+      "scenes[2].characters: Dialogue scene 'empty' has no characters",
+      "scenes[3].type: Unknown scene type 'minigame'"
+    ]);
+  });
+
+  it('rejects schema versions without a migration path', () => {
+    const scenes = [{ id: 'summary', type: 'summary', title: 'Klart', message: 'Bra jobbat' }];
+
+    expect(expectSchemaIssues({ ...baseManifest, schemaVersion: '9.0.0', scenes })).toEqual([
+      `schemaVersion: schemaVersion '9.0.0' is newer than the supported '${MANIFEST_SCHEMA_VERSION}'. Update the runtime engine.`
+    ]);
+    expect(expectSchemaIssues({ ...baseManifest, schemaVersion: '0.0.1', scenes })[0])
+      .toMatch(/^schemaVersion: Unsupported schemaVersion '0.0.1'/);
+  });
+
+  it('rejects unknown start scenes', () => {
+    const issues = expectSchemaIssues({
+      ...baseManifest,
+      startScene: 'missing',
+      scenes: [{ id: 'summary', type: 'summary', title: 'Klart', message: 'Bra jobbat' }]
+    });
+
+    expect(issues).toEqual(["startScene: startScene 'missing' does not match any scene"]);
+  });
+
+  it('does not apply 0.1.0 migrations to current manifests', () => {
+    const issues = expectSchemaIssues({
+      ...baseManifest,
+      schemaVersion: MANIFEST_SCHEMA_VERSION,
+      scenes: [{ id: 'check', type: 'quiz', question: 'Vad är GDPR?', options: [] }]
+    });
+
+    expect(issues).toEqual(["scenes[0].questions: Quiz scene 'check' has no questions"]);
+  });
+
+  it('loads interactive scene types and rejects dangling references', () => {
+    const interactive = {
+      ...baseManifest,
+      schemaVersion: MANIFEST_SCHEMA_VERSION,
+      scenes: [
+        {
+          id: 'sort', type: 'drag_drop_sort',
+          categories: [{ id: 'public', label: 'Allmän handling' }, { id: 'secret', label: 'Sekretess' }],
+          items: [{ id: 'i1', text: 'Protokoll', categoryId: 'public' }]
+        },
+        {
+          id: 'permits', type: 'workflow', workflow: 'permit_processing', municipality: 'malmö',
+          permits: [{ id: 'p1', type: 'event', applicant: 'Förening', urgency: 'low', submittedDate: '2025-01-01', requiredDocuments: [], expectedStatus: 'approved' }]
+        }
+      ]
+    };
+    expect(loadGameManifest(interactive).manifest.scenes.map(scene => scene.type))
+      .toEqual(['drag_drop_sort', 'workflow']);
+
+    const issues = expectSchemaIssues({
+      ...interactive,
+      scenes: [
+        { ...interactive.scenes[0], items: [{ id: 'i1', text: 'Protokoll', categoryId: 'archive' }] },
+        { ...interactive.scenes[1], permits: [{ id: 'p1', expectedStatus: 'paid' }] },
+        {
+          id: 'story', type: 'narrative', category: 'budget_crisis', estimatedTime: 5,
+          startingConditions: { budget: 100, reputation: 50, timeRemaining: 10 },
+          nodes: [{ id: 'start', type: 'story', title: 'Start', description: '', nextNode: 'missing' }]
+        },
+        { id: 'fire', type: 'timed_challenge', emergencyType: 'fire', timeLimit: 0, actions: [] }
+      ]
+    });
+
+    expect(issues).toEqual([
+      "scenes[0].items[0].categoryId: Unknown category 'archive'",
+      'scenes[1].permits[0].expectedStatus: expectedStatus must be one of pending, document_review, compliance_check, supervisor_approval, approved, rejected',
+      "scenes[2].nodes[0].nextNode: nextNode 'missing' does not match any node",
+      'scenes[3].timeLimit: timeLimit must be a positive number of seconds',
+      "scenes[3].actions: Timed challenge 'fire' has no actions"
+    ]);
+  });
+});
+
+describe('multilingual manifests', () => {
+  const multilingual = {
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
+    gameId: 'multilingual-test',
+    startScene: 'talk',
+    metadata: { title: { sv: 'Test', nl: 'Toets' }, duration: '7 minuter', language: 'sv', locales: ['sv', 'nl'] },
+    scenes: [{
+      id: 'talk',
+      type: 'dialogue',
+      characters: [{ id: 'anna', name: 'Anna' }],
+      messages: [{ characterId: 'anna', text: { sv: 'Hej!', nl: 'Hallo!' } }],
+      choices: [{ id: 'ok', text: { sv: 'Okej' } }]
+    }]
+  };
+
+  it('resolves the player locale and warns about fields that fall back', () => {
+    const { manifest, locale, warnings } = loadGameManifest(multilingual, { locale: 'nl-BE' });
+    const talk = manifest.scenes[0] as DialogueScene;
+
+    expect(locale).toBe('nl');
+    expect(manifest.metadata).toEqual(expect.objectContaining({ title: 'Toets', language: 'nl' }));
+    expect(talk.messages[0].text).toBe('Hallo!');
+    expect(talk.choices?.[0].text).toBe('Okej');
+    expect(warnings).toContainEqual({
+      path: 'metadata.locales',
+      message: "1 fields have no 'nl-BE' translation and use a fallback locale"
+    });
+  });
+
+  it('uses the source language when no locale is requested', () => {
+    const { manifest, warnings } = loadGameManifest(multilingual);
+    expect((manifest.scenes[0] as DialogueScene).messages[0].text).toBe('Hej!');
+    expect(warnings).toEqual([]);
+  });
+});
+
+describe('question banks', () => {
+  const bankQuestion = (id: string, tags: string[]) => ({
+    id,
+    text: `Fråga ${id}`,
+    tags,
+    difficulty: 'hard',
+    options: [{ id: 'yes', text: 'Ja', isCorrect: true }, { id: 'no', text: 'Nej' }]
+  });
+  const pooled = (draw: Record<string, unknown>) => ({
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
+    gameId: 'pool-test',
+    startScene: 'refresher',
+    metadata: { title: 'Test', duration: '7 minuter' },
+    questionBanks: { gdpr: ['q1', 'q2', 'q3', 'q4'].map(id => bankQuestion(id, id === 'q4' ? ['breach'] : ['consent'])) },
+    scenes: [{ id: 'refresher', type: 'quiz', questions: [], draw }]
+  });
+
+  it('loads banks and draw settings for quizzes without their own questions', () => {
+    const { manifest, warnings } = loadGameManifest(pooled({ pool: 'gdpr', count: 2, tags: ['consent'], adaptive: true }));
+
+    expect(manifest.questionBanks?.gdpr[0]).toEqual(expect.objectContaining({ id: 'q1', tags: ['consent'], difficulty: 'hard' }));
+    expect((manifest.scenes[0] as QuizScene).draw).toEqual(expect.objectContaining({ pool: 'gdpr', count: 2, adaptive: true }));
+    expect(warnings).toEqual([{ path: 'scenes[0].draw', message: 'Pool of 3 questions cannot give a retry 2 new questions' }]);
+  });
+
+  it('rejects draws from unknown banks or larger than the pool', () => {
+    expect(expectSchemaIssues(pooled({ pool: 'missing', count: 1 })))
+      .toEqual(["scenes[0].draw.pool: Question bank 'missing' does not exist"]);
+    expect(expectSchemaIssues(pooled({ pool: 'gdpr', count: 2, tags: ['breach'] })))
+      .toEqual(['scenes[0].draw: Draws 2 questions but only 1 match the pool and tags']);
+    expect(expectSchemaIssues(pooled({ pool: 'gdpr', count: 0 })))
+      .toContain('scenes[0].draw: draw needs a positive integer count');
+  });
+});
+
+describe('interactive question types', () => {
+  const quizWith = (question: Record<string, unknown>) => ({
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
+    gameId: 'question-types',
+    startScene: 'check',
+    metadata: { title: 'Test', duration: '7 minuter' },
+    scenes: [{ id: 'check', type: 'quiz', questions: [{ id: 'q1', text: 'Fråga', ...question }] }]
+  });
+
+  it('loads answer keys without options and passes them to the quiz component', () => {
+    const { manifest } = loadGameManifest(quizWith({
+      answerType: 'numeric',
+      numeric: { value: 30, tolerance: 1, unit: 'dagar' },
+      points: 2
+    }));
+    const quiz = manifest.scenes[0] as QuizScene;
+
+    expect(quiz.questions[0]).toEqual(expect.objectContaining({
+      answerType: 'numeric',
+      options: [],
+      numeric: { value: 30, tolerance: 1, unit: 'dagar' }
+    }));
+    expect(toQuizSceneData(quiz).questions[0]).toEqual(expect.objectContaining({
+      question_type: 'numeric',
+      answer_key: expect.objectContaining({ numeric: { value: 30, tolerance: 1, unit: 'dagar' } })
+    }));
+  });
+
+  it('reports incomplete answer keys instead of missing options', () => {
+    expect(expectSchemaIssues(quizWith({ answerType: 'ordering', items: [{ id: 'a', text: 'Ansök' }] })))
+      .toContain('scenes[0].questions[0].items: Ordering question needs at least 2 items');
+    expect(expectSchemaIssues(quizWith({
+      answerType: 'hotspot',
+      hotspot: { url: '/blankett.png', alt: 'Blankett', regions: [{ id: 'ssn', label: 'Personnummer', shape: 'star', coords: [1], isCorrect: true }] }
+    }))).toContain("scenes[0].questions[0].hotspot.regions[0].coords: Invalid coords for shape 'star'");
+  });
+});
+
+describe('component adapters', () => {
+  it('maps canonical scenes to the DevTeam component props', () => {
+    const { manifest } = loadGameManifest(sampleGame);
+    const intro = toDialogueSceneData(manifest.scenes[0] as DialogueScene);
+    const quiz = toQuizSceneData(manifest.scenes.find(scene => scene.type === 'quiz') as QuizScene);
+
+    expect(intro.dialogue_turns[0]).toEqual(expect.objectContaining({
+      speaker: 'Anna Andersson',
+      character_id: 'anna_jurist'
+    }));
+    expect(intro.choices).toHaveLength(2);
+    expect(quiz.questions[0].question_type).toBe('multiple_select');
+    expect(quiz.questions[0].options[0]).toEqual({ option_id: 'name', text: 'För- och efternamn', is_correct: true });
+  });
+});
+
+describe('validateGameManifest schema checks', () => {
+  it('fails manifests whose scenes cannot be rendered', () => {
+    const result = validateGameManifest({
+      ...baseManifest,
+      metadata: { title: 'Test', description: 'Test', duration: '7 minuter', targetAudience: 'Personal', language: 'sv' },
+      scenes: [{ id: 'talk', type: 'dialogue', messages: [{ text: 'Hej!' }] }]
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain("scenes[0].characters: Dialogue scene 'talk' has no characters");
+  });
+});
@@ -0,0 +1,703 @@
+/**
+ * Game Manifest Loader
+ * Migrates manifests to the current schemaVersion and validates them against the canonical schema
+ */
+
+import {
+  type GameManifest,
+  type Scene,
+  type DialogueScene,
+  type DialogueCharacter,
+  type DialogueMessage,
+  type DialogueChoice,
+  type QuizScene,
+  type QuizQuestion,
+  type QuizOption,
+  type QuestionDraw,
+  type FreeTextAnswer,
+  type HotspotImage,
+  type HotspotRegion,
+  type VariableEffect
+} from '../types/game-manifest';
+import { municipalEmotions, type MunicipalEmotionType } from '../types/character-emotions';
+import { getNavigationIssues } from './conditionalNavigation';
+import { manifestMigrations, ManifestMigrationError, type ManifestMigrationReport } from './manifestMigrations';
+import { localizeManifest } from './manifestTranslations';
+import { getTemplateIssues } from './templateEngine';
+import { getQuestionPool } from './questionPools';
+import { getAnswerKeyIssues, isInteractiveAnswerType } from './questionScoring';
+import type { DialogueSceneData } from '../components/DialogueScene/DialogueScene';
+import type { QuizSceneData } from '../components/QuizScene/QuizScene';
+
+export interface ManifestSchemaIssue {
+  path: string;
+  message: string;
+}
+
+export class ManifestSchemaError extends Error {
+  readonly issues: ManifestSchemaIssue[];
+
+  constructor(issues: ManifestSchemaIssue[]) {
+    super(`Invalid game manifest: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`);
+    this.name = 'ManifestSchemaError';
+    this.issues = issues;
+  }
+}
+
+export interface ManifestLoadResult {
+  manifest: GameManifest;
+  sourceVersion: string;
+  migration: ManifestMigrationReport;
+  warnings: ManifestSchemaIssue[];
+  locale?: string; // Locale a multilingual manifest was resolved to
+}
+
+export interface ManifestLoadOptions {
+  locale?: string; // Player locale for multilingual manifests, see utils/manifestTranslations
+}
+
+// DevTeam quizzes without passing_score
+const DEFAULT_QUIZ_PASSING_SCORE = 70; // Percent
+
+const SCENE_TYPES: Scene['type'][] = [
+  'dialogue', 'quiz', 'assessment', 'resource', 'summary',
+  'narrative', 'timed_challenge', 'drag_drop_sort', 'workflow'
+];
+
+// Stages the q2-interactive workflow boards can move an item to
+const WORKFLOW_STAGES: Record<string, string[]> = {
+  permit_processing: ['pending', 'document_review', 'compliance_check', 'supervisor_approval', 'approved', 'rejected'],
+  invoice_approval: ['pending', 'department_review', 'finance_review', 'supervisor_approval', 'approved', 'rejected', 'paid']
+};
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+const asNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && !Number.isNaN(value) ? value : undefined;
+
+const asObjectArray = (value: unknown): RawObject[] | undefined =>
+  Array.isArray(value) ? value.filter(isObject) : undefined;
+
+const asStringArray = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+
+/**
+ * Collects issues while a manifest is loaded so every problem is reported at once
+ */
+class LoadContext {
+  errors: ManifestSchemaIssue[] = [];
+  warnings: ManifestSchemaIssue[] = [];
+
+  error(path: string, message: string): void {
+    this.errors.push({ path, message });
+  }
+
+  warn(path: string, message: string): void {
+    this.warnings.push({ path, message });
+  }
+}
+
+/**
+ * Load a manifest of any supported schemaVersion and return it in the current canonical schema
+ * Multilingual manifests are resolved to options.locale, falling back along metadata.fallbackLocales
+ * Throws ManifestSchemaError listing every problem that would break rendering
+ */
+export const loadGameManifest = (input: unknown, options: ManifestLoadOptions = {}): ManifestLoadResult => {
+  const context = new LoadContext();
+
+  if (!isObject(input)) {
+    throw new ManifestSchemaError([{ path: 'root', message: 'Manifest must be a JSON object' }]);
+  }
+
+  let migrated: RawObject;
+  let migration: ManifestMigrationReport;
+  try {
+    ({ manifest: migrated, report: migration } = manifestMigrations.migrate(input));
+  } catch (error) {
+    if (error instanceof ManifestMigrationError) {
+      throw new ManifestSchemaError([{ path: 'schemaVersion', message: error.message }]);
+    }
+    throw error;
+  }
+
+  const localized = localizeManifest(migrated, options.locale);
+  migrated = localized.manifest;
+  if (localized.fallbackFields.length > 0) {
+    context.warn('metadata.locales',
+      `${localized.fallbackFields.length} fields have no '${options.locale}' translation and use a fallback locale`);
+  }
+
+  const gameId = asString(migrated.gameId);
+  if (!gameId) {
+    context.error('gameId', 'Required field gameId is missing');
+  }
+  if (!isObject(migrated.metadata)) {
+    context.error('metadata', 'Required field metadata is missing');
+  }
+
+  const scenes: Scene[] = [];
+  const questionBanks = loadQuestionBanks(migrated.questionBanks, context);
+
+  if (!Array.isArray(migrated.scenes) || migrated.scenes.length === 0) {
+    context.error('scenes', 'Manifest must contain at least one scene');
+  } else {
+    migrated.scenes.forEach((rawScene, index) => {
+      const scene = loadScene(rawScene, `scenes[${index}]`, context);
+      if (scene) {
+        checkQuestionDraw(scene, `scenes[${index}].draw`, questionBanks, context);
+        scenes.push(scene);
+      }
+    });
+  }
+
+  const sceneIds = new Set(scenes.map(scene => scene.id));
+  if (sceneIds.size !== scenes.length) {
+    context.error('scenes', 'Scene ids must be unique');
+  }
+
+  let startScene = asString(migrated.startScene);
+  if (!startScene && scenes.length > 0) {
+    startScene = scenes[0].id;
+    context.warn('startScene', `startScene missing, defaulting to '${startScene}'`);
+  } else if (startScene && !sceneIds.has(startScene)) {
+    context.error('startScene', `startScene '${startScene}' does not match any scene`);
+  }
+
+  getNavigationIssues(migrated).forEach(issue => context.error(issue.path, issue.message));
+  // Unknown placeholders stay visible in play rather than blanking the text, so they only warn here
+  getTemplateIssues(migrated).forEach(issue => context.warn(issue.path, issue.message));
+
+  if (context.errors.length > 0) {
+    throw new ManifestSchemaError(context.errors);
+  }
+
+  const manifest = {
+    ...migrated,
+    gameId,
+    metadata: migrated.metadata,
+    scenes,
+    startScene,
+    ...(questionBanks && { questionBanks })
+  } as GameManifest;
+
+  return {
+    manifest,
+    sourceVersion: migration.fromVersion,
+    migration,
+    warnings: context.warnings,
+    locale: localized.locale
+  };
+};
+
+/**
+ * Collect schema issues without throwing (used by validators)
+ */
+export const getManifestSchemaIssues = (input: unknown): ManifestSchemaIssue[] => {
+  try {
+    loadGameManifest(input);
+    return [];
+  } catch (error) {
+    if (error instanceof ManifestSchemaError) {
+      return error.issues;
+    }
+    throw error;
+  }
+};
+
+const loadScene = (raw: unknown, path: string, context: LoadContext): Scene | null => {
+  if (!isObject(raw)) {
+    context.error(path, 'Scene must be an object');
+    return null;
+  }
+
+  const id = asString(raw.id);
+  const type = asString(raw.type) as Scene['type'] | undefined;
+
+  if (!id) {
+    context.error(path, 'Scene is missing id');
+    return null;
+  }
+  if (!type || !SCENE_TYPES.includes(type)) {
+    context.error(`${path}.type`, `Unknown scene type '${raw.type ?? raw.scene_type}'`);
+    return null;
+  }
+
+  const base = {
+    id,
+    title: asString(raw.title),
+    description: asString(raw.description),
+    navigation: isObject(raw.navigation) ? (raw.navigation as Scene['navigation']) : undefined
+  };
+
+  switch (type) {
+    case 'dialogue':
+      return loadDialogueScene(raw, base, path, context);
+    case 'quiz':
+      return loadQuizScene(raw, base, path, context);
+    case 'narrative':
+    case 'timed_challenge':
+    case 'drag_drop_sort':
+    case 'workflow':
+      return checkInteractiveScene(raw, base.id, type, path, context)
+        ? ({ ...(raw as unknown as Scene), ...base, type } as Scene)
+        : null;
+    default:
+      // Assessment, resource and summary scenes have a single shape
+      return { ...(raw as unknown as Scene), ...base, type } as Scene;
+  }
+};
+
+const loadDialogueScene = (
+  raw: RawObject,
+  base: Pick<DialogueScene, 'id' | 'title' | 'description' | 'navigation'>,
+  path: string,
+  context: LoadContext
+): DialogueScene | null => {
+  const rawMessages = asObjectArray(raw.messages);
+  const issuesBefore = context.errors.length;
+
+  if (!rawMessages || rawMessages.length === 0) {
+    context.error(`${path}.messages`, `Dialogue scene '${base.id}' has no messages`);
+  }
+
+  const characters: DialogueCharacter[] = (asObjectArray(raw.characters) ?? []).map(character => ({
+    id: asString(character.id) ?? '',
+    name: asString(character.name) ?? '',
+    role: asString(character.role),
+    avatar: asString(character.avatar),
+    archetype: asString(character.archetype)
+  }));
+  if (characters.length === 0) {
+    context.error(`${path}.characters`, `Dialogue scene '${base.id}' has no characters`);
+  }
+  characters.forEach((character, index) => {
+    if (!character.id || !character.name) {
+      context.error(`${path}.characters[${index}]`, 'Character needs an id and a name');
+    }
+  });
+
+  const characterIds = new Set(characters.map(character => character.id));
+  const messages: DialogueMessage[] = (rawMessages ?? []).map((message, index) => {
+    const messagePath = `${path}.messages[${index}]`;
+    const characterId = asString(message.characterId) ?? '';
+
+    if (!asString(message.text)) {
+      context.error(messagePath, 'Message text is missing');
+    }
+    if (!characterIds.has(characterId)) {
+      context.error(messagePath, characterId
+        ? `Message speaker '${characterId}' is not one of the scene characters`
+        : 'Message has no characterId and the scene has several characters');
+    }
+    return {
+      text: asString(message.text) ?? '',
+      characterId,
+      emotion: loadEmotion(message.emotion, `${messagePath}.emotion`, context),
+      delay: asNumber(message.delay)
+    };
+  });
+
+  if (context.errors.length > issuesBefore) {
+    return null;
+  }
+
+  const choices = asObjectArray(raw.choices)?.map((choice): DialogueChoice => ({
+    id: asString(choice.id) ?? '',
+    text: asString(choice.text) ?? '',
+    nextScene: asString(choice.nextScene),
+    points: asNumber(choice.points),
+    effects: loadEffects(choice.effects)
+  }));
+
+  return {
+    ...base,
+    type: 'dialogue',
+    characters,
+    messages,
+    choices,
+    learningObjectives: Array.isArray(raw.learningObjectives)
+      ? raw.learningObjectives.filter((objective): objective is string => typeof objective === 'string')
+      : undefined
+  };
+};
+
+/**
+ * Structural checks for the q2-interactive scene types, whose components crash on empty or dangling data
+ */
+const checkInteractiveScene = (
+  raw: RawObject,
+  id: string,
+  type: Scene['type'],
+  path: string,
+  context: LoadContext
+): boolean => {
+  const issuesBefore = context.errors.length;
+
+  switch (type) {
+    case 'narrative': {
+      const nodes = asObjectArray(raw.nodes) ?? [];
+      if (nodes.length === 0) {
+        context.error(`${path}.nodes`, `Narrative scene '${id}' has no nodes`);
+      }
+      const nodeIds = nodes.map(node => asString(node.id));
+      nodes.forEach((node, index) => {
+        const nodePath = `${path}.nodes[${index}]`;
+        const nodeId = nodeIds[index];
+        if (!nodeId || !asString(node.title)) {
+          context.error(nodePath, 'Node needs an id and a title');
+        } else if (nodeIds.indexOf(nodeId) !== index) {
+          context.error(nodePath, `Duplicate node id '${nodeId}'`);
+        }
+        const nextNode = asString(node.nextNode);
+        if (nextNode && !nodeIds.includes(nextNode)) {
+          context.error(`${nodePath}.nextNode`, `nextNode '${nextNode}' does not match any node`);
+        }
+      });
+      const startingConditions = isObject(raw.startingConditions) ? raw.startingConditions : undefined;
+      if (!startingConditions || asNumber(startingConditions.budget) === undefined
+        || asNumber(startingConditions.reputation) === undefined
+        || !((asNumber(startingConditions.timeRemaining) ?? 0) > 0)) {
+        context.error(`${path}.startingConditions`, 'startingConditions needs budget, reputation and a positive timeRemaining');
+      }
+      break;
+    }
+    case 'timed_challenge': {
+      if (!((asNumber(raw.timeLimit) ?? 0) > 0)) {
+        context.error(`${path}.timeLimit`, 'timeLimit must be a positive number of seconds');
+      }
+      const actions = asObjectArray(raw.actions) ?? [];
+      if (actions.length === 0) {
+        context.error(`${path}.actions`, `Timed challenge '${id}' has no actions`);
+      }
+      actions.forEach((action, index) => {
+        if (!asString(action.id) || !asString(action.description)) {
+          context.error(`${path}.actions[${index}]`, 'Action needs an id and a description');
+        }
+      });
+      break;
+    }
+    case 'drag_drop_sort': {
+      const categories = asObjectArray(raw.categories) ?? [];
+      if (categories.length < 2) {
+        context.error(`${path}.categories`, 'Sort scene needs at least 2 categories');
+      }
+      const categoryIds = new Set(categories.map(category => asString(category.id)));
+      const items = asObjectArray(raw.items) ?? [];
+      if (items.length === 0) {
+        context.error(`${path}.items`, `Sort scene '${id}' has no items`);
+      }
+      items.forEach((item, index) => {
+        const itemPath = `${path}.items[${index}]`;
+        if (!asString(item.id) || !asString(item.text)) {
+          context.error(itemPath, 'Item needs an id and text');
+        }
+        if (!categoryIds.has(asString(item.categoryId))) {
+          context.error(`${itemPath}.categoryId`, `Unknown category '${String(item.categoryId)}'`);
+        }
+      });
+      break;
+    }
+    case 'workflow': {
+      const workflow = asString(raw.workflow) ?? '';
+      const stages = WORKFLOW_STAGES[workflow];
+      if (!stages) {
+        context.error(`${path}.workflow`, `Unknown workflow '${String(raw.workflow)}'`);
+        break;
+      }
+      const key = workflow === 'permit_processing' ? 'permits' : 'invoices';
+      const entries = asObjectArray(raw[key]) ?? [];
+      if (entries.length === 0) {
+        context.error(`${path}.${key}`, `Workflow scene '${id}' has no ${key}`);
+      }
+      entries.forEach((entry, index) => {
+        const expectedStatus = asString(entry.expectedStatus);
+        if (!asString(entry.id)) {
+          context.error(`${path}.${key}[${index}]`, 'Workflow item is missing id');
+        }
+        if (!expectedStatus || !stages.includes(expectedStatus)) {
+          context.error(`${path}.${key}[${index}].expectedStatus`,
+            `expectedStatus must be one of ${stages.join(', ')}`);
+        }
+      });
+      break;
+    }
+  }
+
+  return context.errors.length === issuesBefore;
+};
+
+const loadEmotion = (value: unknown, path: string, context: LoadContext): MunicipalEmotionType | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string' && value in municipalEmotions) {
+    return value as MunicipalEmotionType;
+  }
+  context.warn(path, `Unknown emotion '${String(value)}' ignored`);
+  return undefined;
+};
+
+const loadQuizQuestion = (question: RawObject, index: number, idPrefix: string): QuizQuestion => ({
+  id: asString(question.id) ?? `${idPrefix}-q${index + 1}`,
+  text: asString(question.text) ?? '',
+  answerType: normalizeAnswerType(question.answerType),
+  questionType: normalizeMediaType(question.questionType),
+  media: isObject(question.media) ? (question.media as QuizQuestion['media']) : undefined,
+  options: (asObjectArray(question.options) ?? []).map(loadQuizOption),
+  freeText: loadFreeText(question.freeText),
+  numeric: isObject(question.numeric)
+    ? {
+      value: asNumber(question.numeric.value) ?? NaN, // Reported by checkQuizQuestions
+      tolerance: asNumber(question.numeric.tolerance),
+      unit: asString(question.numeric.unit)
+    }
+    : undefined,
+  items: asObjectArray(question.items)?.map(item => ({ id: asString(item.id) ?? '', text: asString(item.text) ?? '' })),
+  pairs: asObjectArray(question.pairs)?.map(pair => ({
+    id: asString(pair.id) ?? '',
+    text: asString(pair.text) ?? '',
+    match: asString(pair.match) ?? ''
+  })),
+  hotspot: loadHotspot(question.hotspot),
+  scoring: question.scoring === 'all_or_nothing' || question.scoring === 'partial' ? question.scoring : undefined,
+  explanation: asString(question.explanation),
+  points: asNumber(question.points),
+  tags: asStringArray(question.tags),
+  difficulty: normalizeDifficulty(question.difficulty)
+});
+
+const checkQuizQuestions = (questions: QuizQuestion[], path: string, context: LoadContext): void => {
+  questions.forEach((question, index) => {
+    const questionPath = `${path}[${index}]`;
+    if (!question.text) {
+      context.error(questionPath, 'Question text is missing');
+    }
+    if (isInteractiveAnswerType(question.answerType)) {
+      getAnswerKeyIssues(question.answerType, question)
+        .forEach(issue => context.error(`${questionPath}.${issue.path}`, issue.message));
+      return;
+    }
+    if (question.options.length < 2) {
+      context.error(`${questionPath}.options`, 'Question needs at least 2 options');
+    }
+    if (question.options.some(option => !option.id || !option.text)) {
+      context.error(`${questionPath}.options`, 'Every option needs an id and text');
+    }
+    if (!question.options.some(option => option.isCorrect)) {
+      context.error(`${questionPath}.options`, 'Question has no correct option');
+    }
+  });
+};
+
+/**
+ * Load the manifest's question banks, which drawing quiz scenes are checked against
+ */
+const loadQuestionBanks = (value: unknown, context: LoadContext): Record<string, QuizQuestion[]> | undefined => {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    context.error('questionBanks', 'questionBanks must be an object of question arrays');
+    return undefined;
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([bankId, rawQuestions]) => {
+    const path = `questionBanks.${bankId}`;
+    if (!Array.isArray(rawQuestions)) {
+      context.error(path, 'Question bank must be an array of questions');
+      return [bankId, []];
+    }
+    const questions = rawQuestions.filter(isObject).map((question, index) => loadQuizQuestion(question, index, bankId));
+    checkQuizQuestions(questions, path, context);
+    return [bankId, questions];
+  }));
+};
+
+const loadQuestionDraw = (value: unknown, path: string, context: LoadContext): QuestionDraw | undefined => {
+  if (value === undefined) return undefined;
+  const count = isObject(value) ? asNumber(value.count) : undefined;
+  if (!isObject(value) || count === undefined || !Number.isInteger(count) || count < 1) {
+    context.error(path, 'draw needs a positive integer count');
+    return undefined;
+  }
+
+  const flag = (key: string): boolean | undefined => (typeof value[key] === 'boolean' ? value[key] as boolean : undefined);
+  return {
+    count,
+    pool: asString(value.pool),
+    tags: asStringArray(value.tags),
+    shuffleOptions: flag('shuffleOptions'),
+    avoidRepeats: flag('avoidRepeats'),
+    adaptive: flag('adaptive')
+  };
+};
+
+const checkQuestionDraw = (
+  scene: Scene,
+  path: string,
+  questionBanks: Record<string, QuizQuestion[]> | undefined,
+  context: LoadContext
+): void => {
+  if (scene.type !== 'quiz' || !scene.draw) return;
+  if (scene.draw.pool && !questionBanks?.[scene.draw.pool]) {
+    context.error(`${path}.pool`, `Question bank '${scene.draw.pool}' does not exist`);
+    return;
+  }
+  const available = getQuestionPool(scene, questionBanks).length;
+  if (available < scene.draw.count) {
+    context.error(path, `Draws ${scene.draw.count} questions but only ${available} match the pool and tags`);
+  } else if (scene.draw.avoidRepeats !== false && available < scene.draw.count * 2) {
+    context.warn(path, `Pool of ${available} questions cannot give a retry ${scene.draw.count} new questions`);
+  }
+};
+
+const loadQuizScene = (
+  raw: RawObject,
+  base: Pick<QuizScene, 'id' | 'title' | 'description' | 'navigation'>,
+  path: string,
+  context: LoadContext
+): QuizScene | null => {
+  const issuesBefore = context.errors.length;
+  const questions = (asObjectArray(raw.questions) ?? []).map((question, index) => loadQuizQuestion(question, index, base.id));
+  const draw = loadQuestionDraw(raw.draw, `${path}.draw`, context);
+
+  // Drawing quizzes may take every question from their bank
+  if (questions.length === 0 && !draw?.pool) {
+    context.error(`${path}.questions`, `Quiz scene '${base.id}' has no questions`);
+  }
+  checkQuizQuestions(questions, `${path}.questions`, context);
+
+  if (context.errors.length > issuesBefore) {
+    return null;
+  }
+
+  return {
+    ...base,
+    type: 'quiz',
+    questions,
+    passingScore: asNumber(raw.passingScore),
+    showFeedback: typeof raw.showFeedback === 'boolean' ? raw.showFeedback : undefined,
+    maxAttempts: asNumber(raw.maxAttempts),
+    draw
+  };
+};
+
+const loadQuizOption = (option: RawObject): QuizOption => ({
+  id: asString(option.id) ?? '',
+  text: asString(option.text) ?? '',
+  isCorrect: option.isCorrect === true,
+  feedback: asString(option.feedback),
+  points: asNumber(option.points),
+  effects: loadEffects(option.effects)
+});
+
+// Effects are checked by getNavigationIssues against the manifest variables
+const loadEffects = (value: unknown): VariableEffect[] | undefined =>
+  Array.isArray(value) ? (value.filter(isObject) as unknown as VariableEffect[]) : undefined;
+
+const normalizeAnswerType = (value: unknown): QuizQuestion['answerType'] =>
+  value === 'single' || value === 'multiple' || value === 'true_false' || isInteractiveAnswerType(value)
+    ? value
+    : undefined;
+
+const loadFreeText = (value: unknown): FreeTextAnswer | undefined => {
+  if (!isObject(value)) return undefined;
+  return {
+    accepted: asStringArray(value.accepted) ?? [],
+    synonyms: Array.isArray(value.synonyms) ? value.synonyms.map(group => asStringArray(group) ?? []) : undefined,
+    patterns: asStringArray(value.patterns),
+    caseSensitive: value.caseSensitive === true ? true : undefined
+  };
+};
+
+const HOTSPOT_SHAPES: HotspotRegion['shape'][] = ['rect', 'circle', 'polygon'];
+
+// Shapes and coords are checked by getAnswerKeyIssues
+const loadHotspot = (value: unknown): HotspotImage | undefined => {
+  if (!isObject(value)) return undefined;
+  return {
+    url: asString(value.url) ?? '',
+    alt: asString(value.alt) ?? '',
+    regions: (asObjectArray(value.regions) ?? []).map(region => ({
+      id: asString(region.id) ?? '',
+      label: asString(region.label) ?? '',
+      shape: HOTSPOT_SHAPES.find(shape => shape === region.shape) ?? (String(region.shape) as HotspotRegion['shape']),
+      coords: Array.isArray(region.coords) ? region.coords.map(Number) : [],
+      isCorrect: region.isCorrect === true
+    }))
+  };
+};
+
+const normalizeMediaType = (value: unknown): QuizQuestion['questionType'] =>
+  value === 'text' || value === 'image' || value === 'video' ? value : undefined;
+
+const normalizeDifficulty = (value: unknown): QuizQuestion['difficulty'] =>
+  value === 'easy' || value === 'medium' || value === 'hard' ? value : undefined;
+
+/**
+ * Map a canonical dialogue scene to the DevTeam DialogueScene component props
+ */
+export const toDialogueSceneData = (scene: DialogueScene): DialogueSceneData => ({
+  scene_id: scene.id,
+  scene_type: 'DialogueScene',
+  title: scene.title || '',
+  description: scene.description || '',
+  characters: scene.characters.map(character => ({
+    character_id: character.id,
+    name: character.name,
+    role: character.role || '',
+    avatar_description: character.avatar || ''
+  })),
+  dialogue_turns: scene.messages.map(message => ({
+    speaker: scene.characters.find(character => character.id === message.characterId)?.name || '',
+    character_id: message.characterId,
+    text: message.text,
+    emotion: message.emotion || 'neutral',
+    timing: message.delay ?? 0
+  })),
+  learning_objectives: scene.learningObjectives || [],
+  scene_duration: 0,
+  choices: scene.choices
+});
+
+/**
+ * Map a canonical quiz scene to the DevTeam QuizScene component props
+ */
+export const toQuizSceneData = (scene: QuizScene): QuizSceneData => ({
+  scene_id: scene.id,
+  scene_type: 'QuizScene',
+  title: scene.title || '',
+  description: scene.description || '',
+  questions: scene.questions.map(question => ({
+    question_id: question.id,
+    question_type: isInteractiveAnswerType(question.answerType)
+      ? question.answerType
+      : question.answerType === 'multiple'
+        ? 'multiple_select'
+        : question.answerType === 'true_false' ? 'true_false' : 'multiple_choice',
+    question_text: question.text,
+    options: question.options.map(option => ({
+      option_id: option.id,
+      text: option.text,
+      is_correct: option.isCorrect
+    })),
+    explanation: question.explanation || '',
+    learning_objective: '',
+    points: question.points ?? 1,
+    ...(isInteractiveAnswerType(question.answerType) && {
+      answer_key: {
+        freeText: question.freeText,
+        numeric: question.numeric,
+        items: question.items,
+        pairs: question.pairs,
+        hotspot: question.hotspot,
+        scoring: question.scoring
+      }
+    })
+  })),
+  passing_score: scene.passingScore ?? DEFAULT_QUIZ_PASSING_SCORE,
+  scene_duration: 0,
+  feedback_immediate: scene.showFeedback ?? false
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ManifestMigrationRegistry,
+  ManifestMigrationError,
+  manifestMigrations,
+  compareSchemaVersions,
+  type ManifestMigration
+} from './manifestMigrations';
+import { MANIFEST_SCHEMA_VERSION } from '../types/game-manifest';
+
+const renameTitle: ManifestMigration = {
+  from: '1.0.0',
+  to: '1.1.0',
+  description: 'Rename name to title',
+  migrate: (manifest, recordChange) => {
+    manifest.title = manifest.name;
+    delete manifest.name;
+    recordChange('name', 'Renamed to title');
+    return manifest;
+  }
+};
+
+const addLocale: ManifestMigration = {
+  from: '1.1.0',
+  to: '2.0.0',
+  description: 'Add default locale',
+  migrate: (manifest, recordChange) => {
+    manifest.locale = 'sv';
+    recordChange('locale', 'Defaulted to sv');
+    return manifest;
+  }
+};
+
+describe('ManifestMigrationRegistry', () => {
+  it('chains steps to the current version and reports each one', () => {
+    const registry = new ManifestMigrationRegistry('2.0.0').register(renameTitle).register(addLocale);
+    const input = { schemaVersion: '1.0.0', name: 'GDPR' };
+
+    const { manifest, report } = registry.migrate(input);
+
+    expect(manifest).toEqual({ schemaVersion: '2.0.0', title: 'GDPR', locale: 'sv' });
+    expect(input).toEqual({ schemaVersion: '1.0.0', name: 'GDPR' });
+    expect(report).toEqual({
+      fromVersion: '1.0.0',
+      toVersion: '2.0.0',
+      steps: [
+        { from: '1.0.0', to: '1.1.0', description: 'Rename name to title', changes: [{ path: 'name', description: 'Renamed to title' }] },
+        { from: '1.1.0', to: '2.0.0', description: 'Add default locale', changes: [{ path: 'locale', description: 'Defaulted to sv' }] }
+      ]
+    });
+  });
+
+  it('leaves current manifests untouched', () => {
+    const registry = new ManifestMigrationRegistry('2.0.0').register(renameTitle).register(addLocale);
+
+    expect(registry.migrate({ schemaVersion: '2.0.0', name: 'GDPR' })).toEqual({
+      manifest: { schemaVersion: '2.0.0', name: 'GDPR' },
+      report: { fromVersion: '2.0.0', toVersion: '2.0.0', steps: [] }
+    });
+  });
+
+  it('throws for versions without a path or newer than the runtime', () => {
+    const registry = new ManifestMigrationRegistry('2.0.0').register(addLocale);
+
+    expect(() => registry.migrate({ schemaVersion: '1.0.0' })).toThrow(ManifestMigrationError);
+    expect(() => registry.migrate({ schemaVersion: '3.0.0' })).toThrow(/newer than the supported '2.0.0'/);
+    expect(registry.getSupportedVersions()).toEqual(['1.1.0', '2.0.0']);
+  });
+
+  it('rejects duplicate and downgrading migrations', () => {
+    const registry = new ManifestMigrationRegistry('2.0.0').register(renameTitle);
+
+    expect(() => registry.register({ ...renameTitle, to: '1.2.0' })).toThrow(/already registered/);
+    expect(() => registry.register({ ...addLocale, from: '2.0.0', to: '1.0.0' })).toThrow(/must upgrade/);
+  });
+
+  it('compares versions numerically', () => {
+    expect(compareSchemaVersions('0.10.0', '0.9.0')).toBeGreaterThan(0);
+    expect(compareSchemaVersions('0.2', '0.2.0')).toBe(0);
+  });
+});
+
+describe('0.1.0 → 0.2.0 migration', () => {
+  it('records what changed for every legacy scene', () => {
+    const { manifest, report } = manifestMigrations.migrate({
+      gameId: 'legacy',
+      scenes: [
+        {
+          id: 'intro',
+          type: 'dialogue',
+          character: { id: 'anna', name: 'Anna' },
+          messages: [{ text: 'Hej!', emotion: 'happy' }]
+        },
+        {
+          scene_id: 'check',
+          scene_type: 'QuizScene',
+          questions: [{ question_id: 'q1', question_text: 'Vad är GDPR?', question_type: 'multiple_choice', options: [{ option_id: 'a', option_text: 'En lag', is_correct: true }] }],
+          scoring: { passing_score: 80, max_attempts: 2 }
+        }
+      ]
+    });
+
+    expect(report.fromVersion).toBe('0.1.0');
+    expect(report.toVersion).toBe(MANIFEST_SCHEMA_VERSION);
+    expect(report.steps[0].changes.map(change => change.path)).toEqual([
+      'schemaVersion',
+      'scenes[0].character',
+      'scenes[0].messages',
+      'scenes[0].messages',
+      'scenes[1].scene_id',
+      'scenes[1].scene_type',
+      'scenes[1].questions',
+      'scenes[1].scoring.passing_score',
+      'scenes[1].scoring.max_attempts'
+    ]);
+
+    const [intro, check] = manifest.scenes as Array<Record<string, unknown>>;
+    expect(intro.characters).toEqual([{ id: 'anna', name: 'Anna' }]);
+    expect(intro.messages).toEqual([{ text: 'Hej!', emotion: 'supportive', characterId: 'anna' }]);
+    expect(check).toEqual(expect.objectContaining({ id: 'check', type: 'quiz', passingScore: 80, maxAttempts: 2 }));
+    expect(check.questions).toEqual([
+      expect.objectContaining({ id: 'q1', text: 'Vad är GDPR?', answerType: 'single', options: [expect.objectContaining({ id: 'a', text: 'En lag', isCorrect: true })] })
+    ]);
+  });
+});
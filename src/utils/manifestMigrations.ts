@@ -0,0 +1,309 @@
+/**
+ * Game Manifest Migrations
+ * Upgrades published manifests step by step (0.1.0 → 0.2.0 → …) and reports what each step changed
+ */
+
+import { MANIFEST_SCHEMA_VERSION } from '../types/game-manifest';
+import { municipalEmotions, mapLegacyEmotion } from '../types/character-emotions';
+
+export type RawManifest = Record<string, unknown>;
+
+export interface ManifestMigrationChange {
+  path: string;
+  description: string;
+}
+
+export interface ManifestMigrationStep {
+  from: string;
+  to: string;
+  description: string;
+  changes: ManifestMigrationChange[];
+}
+
+export interface ManifestMigrationReport {
+  fromVersion: string;
+  toVersion: string;
+  steps: ManifestMigrationStep[];
+}
+
+export interface ManifestMigration {
+  from: string;
+  to: string;
+  description: string;
+  // Receives a private copy of the manifest and may modify it in place
+  migrate: (manifest: RawManifest, recordChange: (path: string, description: string) => void) => RawManifest;
+}
+
+export class ManifestMigrationError extends Error {
+  readonly fromVersion: string;
+
+  constructor(message: string, fromVersion: string) {
+    super(message);
+    this.name = 'ManifestMigrationError';
+    this.fromVersion = fromVersion;
+  }
+}
+
+// Manifests published before schemaVersion existed use the 0.1.0 layout
+export const LEGACY_SCHEMA_VERSION = '0.1.0';
+
+const isObject = (value: unknown): value is RawManifest =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Compare dotted numeric versions ('0.10.0' > '0.9.0')
+ */
+export const compareSchemaVersions = (a: string, b: string): number => {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const difference = (partsA[i] || 0) - (partsB[i] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+};
+
+/**
+ * Ordered set of single-step migrations keyed by their source version
+ */
+export class ManifestMigrationRegistry {
+  private migrations = new Map<string, ManifestMigration>();
+  readonly currentVersion: string;
+
+  constructor(currentVersion: string) {
+    this.currentVersion = currentVersion;
+  }
+
+  register(migration: ManifestMigration): this {
+    if (this.migrations.has(migration.from)) {
+      throw new Error(`A migration from schemaVersion ${migration.from} is already registered`);
+    }
+    if (compareSchemaVersions(migration.to, migration.from) <= 0) {
+      throw new Error(`Migration ${migration.from} → ${migration.to} must upgrade the schema version`);
+    }
+    this.migrations.set(migration.from, migration);
+    return this;
+  }
+
+  /**
+   * Versions that can be upgraded to the current version
+   */
+  getSupportedVersions(): string[] {
+    return [...this.migrations.keys(), this.currentVersion]
+      .filter(version => version === this.currentVersion || this.hasPathToCurrent(version))
+      .sort(compareSchemaVersions);
+  }
+
+  /**
+   * Upgrade a manifest to the current schema version without mutating the input
+   */
+  migrate(input: RawManifest): { manifest: RawManifest; report: ManifestMigrationReport } {
+    const steps: ManifestMigrationStep[] = [];
+    let manifest: RawManifest = structuredClone(input);
+    const declaredVersion = typeof input.schemaVersion === 'string' ? input.schemaVersion : undefined;
+    const fromVersion = declaredVersion ?? LEGACY_SCHEMA_VERSION;
+    let version = fromVersion;
+
+    if (compareSchemaVersions(version, this.currentVersion) > 0) {
+      throw new ManifestMigrationError(
+        `schemaVersion '${version}' is newer than the supported '${this.currentVersion}'. Update the runtime engine.`,
+        fromVersion
+      );
+    }
+
+    while (version !== this.currentVersion) {
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new ManifestMigrationError(
+          `Unsupported schemaVersion '${version}': no migration to '${this.currentVersion}'`,
+          fromVersion
+        );
+      }
+
+      const changes: ManifestMigrationChange[] = [];
+      if (!declaredVersion && steps.length === 0) {
+        changes.push({ path: 'schemaVersion', description: `Missing schemaVersion, treated as ${LEGACY_SCHEMA_VERSION}` });
+      }
+      manifest = migration.migrate(manifest, (path, description) => changes.push({ path, description }));
+      manifest.schemaVersion = migration.to;
+      steps.push({ from: migration.from, to: migration.to, description: migration.description, changes });
+      version = migration.to;
+    }
+
+    return { manifest, report: { fromVersion, toVersion: version, steps } };
+  }
+
+  private hasPathToCurrent(version: string): boolean {
+    const visited = new Set<string>();
+    let current = version;
+    while (current !== this.currentVersion) {
+      const migration = this.migrations.get(current);
+      if (!migration || visited.has(current)) return false;
+      visited.add(current);
+      current = migration.to;
+    }
+    return true;
+  }
+}
+
+// 0.1.0 → 0.2.0: one canonical dialogue/quiz shape for both manifest and DevTeam scenes
+
+const DEVTEAM_SCENE_TYPES: Record<string, string> = {
+  DialogueScene: 'dialogue',
+  QuizScene: 'quiz',
+  AssessmentScene: 'assessment',
+  ResourceScene: 'resource',
+  SummaryScene: 'summary'
+};
+
+const ANSWER_TYPES: Record<string, string> = {
+  multiple_choice: 'single',
+  multiple_select: 'multiple',
+  true_false: 'true_false'
+};
+
+const migrateEmotion = (emotion: unknown): unknown =>
+  typeof emotion === 'string' && !(emotion in municipalEmotions) ? mapLegacyEmotion(emotion) : emotion;
+
+const migrateQuizOption = (option: RawManifest): RawManifest => {
+  const { option_id, option_text, is_correct, feedback_text, ...rest } = option;
+  return {
+    ...rest,
+    id: option.id ?? option_id,
+    text: option.text ?? option_text,
+    isCorrect: option.isCorrect === true || is_correct === true,
+    feedback: option.feedback ?? feedback_text
+  };
+};
+
+const migrateDialogueScene = (scene: RawManifest, path: string, recordChange: (path: string, description: string) => void) => {
+  if (Array.isArray(scene.dialogue_turns)) {
+    const characters = Array.isArray(scene.characters) ? scene.characters.filter(isObject) : [];
+    scene.characters = characters.map(({ character_id, ...character }) => ({ ...character, id: character.id ?? character_id }));
+    scene.messages = scene.dialogue_turns.filter(isObject).map(turn => ({
+      text: turn.text,
+      characterId: turn.character_id,
+      emotion: migrateEmotion(turn.emotion),
+      delay: turn.timing
+    }));
+    delete scene.dialogue_turns;
+    recordChange(`${path}.dialogue_turns`, 'Converted DevTeam dialogue_turns to messages and characters');
+  } else if (isObject(scene.character) && !Array.isArray(scene.characters)) {
+    scene.characters = [scene.character];
+    delete scene.character;
+    recordChange(`${path}.character`, 'Moved character into characters');
+  }
+
+  if (Array.isArray(scene.messages) && Array.isArray(scene.characters)) {
+    const singleCharacter = scene.characters.length === 1 && isObject(scene.characters[0]) ? scene.characters[0].id : undefined;
+    let assignedSpeaker = false;
+    let mappedEmotion = false;
+    scene.messages = scene.messages.filter(isObject).map(message => {
+      const emotion = migrateEmotion(message.emotion);
+      mappedEmotion = mappedEmotion || emotion !== message.emotion;
+      if (message.characterId === undefined && singleCharacter !== undefined) {
+        assignedSpeaker = true;
+        return { ...message, emotion, characterId: singleCharacter };
+      }
+      return { ...message, emotion };
+    });
+    if (assignedSpeaker) {
+      recordChange(`${path}.messages`, `Assigned speaker '${singleCharacter}' to messages without characterId`);
+    }
+    if (mappedEmotion) {
+      recordChange(`${path}.messages`, 'Mapped legacy emotions to municipal emotions');
+    }
+  }
+
+  if (Array.isArray(scene.learning_objectives) && scene.learningObjectives === undefined) {
+    scene.learningObjectives = scene.learning_objectives;
+    delete scene.learning_objectives;
+    recordChange(`${path}.learning_objectives`, 'Renamed to learningObjectives');
+  }
+};
+
+const migrateQuizScene = (scene: RawManifest, path: string, recordChange: (path: string, description: string) => void) => {
+  if (Array.isArray(scene.questions)) {
+    const usesDevTeamKeys = scene.questions.some(question => isObject(question) && 'question_text' in question);
+    scene.questions = scene.questions.filter(isObject).map((question, index) => {
+      const { question_id, question_text, question_type, ...rest } = question;
+      return {
+        ...rest,
+        id: question.id ?? question_id ?? `${scene.id}-q${index + 1}`,
+        text: question.text ?? question_text,
+        answerType: question.answerType ?? (typeof question_type === 'string' ? ANSWER_TYPES[question_type] : undefined),
+        options: Array.isArray(question.options) ? question.options.filter(isObject).map(migrateQuizOption) : question.options
+      };
+    });
+    if (usesDevTeamKeys) {
+      recordChange(`${path}.questions`, 'Converted DevTeam question fields to canonical names');
+    }
+  } else if (typeof scene.question === 'string') {
+    const { question, options, allowMultiple, media, questionType, explanation } = scene;
+    scene.questions = [{
+      id: `${scene.id}-q1`,
+      text: question,
+      answerType: allowMultiple === true ? 'multiple' : 'single',
+      questionType,
+      media,
+      options: Array.isArray(options) ? options.filter(isObject).map(migrateQuizOption) : options,
+      explanation
+    }];
+    ['question', 'options', 'allowMultiple', 'media', 'questionType', 'explanation'].forEach(key => delete scene[key]);
+    recordChange(`${path}.question`, 'Moved single question into questions');
+  }
+
+  const scoring = isObject(scene.scoring) ? scene.scoring : {};
+  if (scene.passingScore === undefined && scene.passing_score !== undefined) {
+    scene.passingScore = scene.passing_score;
+    delete scene.passing_score;
+    recordChange(`${path}.passing_score`, 'Renamed to passingScore');
+  } else if (scene.passingScore === undefined && scoring.passing_score !== undefined) {
+    scene.passingScore = scoring.passing_score;
+    recordChange(`${path}.scoring.passing_score`, 'Copied to passingScore');
+  }
+  if (scene.maxAttempts === undefined && scoring.max_attempts !== undefined) {
+    scene.maxAttempts = scoring.max_attempts;
+    recordChange(`${path}.scoring.max_attempts`, 'Copied to maxAttempts');
+  }
+  if (scene.showFeedback === undefined && typeof scene.feedback_immediate === 'boolean') {
+    scene.showFeedback = scene.feedback_immediate;
+    delete scene.feedback_immediate;
+    recordChange(`${path}.feedback_immediate`, 'Renamed to showFeedback');
+  }
+};
+
+export const migrateV010ToV020: ManifestMigration = {
+  from: '0.1.0',
+  to: '0.2.0',
+  description: 'Unify manifest and DevTeam dialogue/quiz scenes into the canonical schema',
+  migrate: (manifest, recordChange) => {
+    if (!Array.isArray(manifest.scenes)) return manifest;
+
+    manifest.scenes.forEach((scene, index) => {
+      if (!isObject(scene)) return;
+      const path = `scenes[${index}]`;
+
+      if (scene.id === undefined && typeof scene.scene_id === 'string') {
+        scene.id = scene.scene_id;
+        recordChange(`${path}.scene_id`, 'Copied scene_id to id');
+      }
+      if (scene.type === undefined && typeof scene.scene_type === 'string' && DEVTEAM_SCENE_TYPES[scene.scene_type]) {
+        scene.type = DEVTEAM_SCENE_TYPES[scene.scene_type];
+        recordChange(`${path}.scene_type`, `Mapped scene_type ${scene.scene_type} to type '${scene.type}'`);
+      }
+
+      if (scene.type === 'dialogue') {
+        migrateDialogueScene(scene, path, recordChange);
+      } else if (scene.type === 'quiz') {
+        migrateQuizScene(scene, path, recordChange);
+      }
+    });
+
+    return manifest;
+  }
+};
+
+// Shared registry used by the manifest loader and validators
+export const manifestMigrations = new ManifestMigrationRegistry(MANIFEST_SCHEMA_VERSION)
+  .register(migrateV010ToV020);
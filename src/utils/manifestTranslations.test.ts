@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  collectTranslatableFields,
+  getFallbackChain,
+  getMissingTranslations,
+  isLocaleMap,
+  localizeManifest,
+  resolveLocalizedText
+} from './manifestTranslations';
+import type { MultilingualGameManifest } from '../types/game-manifest';
+
+type MultilingualScene = MultilingualGameManifest['scenes'][number];
+
+const multilingualManifest: MultilingualGameManifest = {
+  schemaVersion: '0.2.0',
+  gameId: 'gdpr-basics',
+  metadata: {
+    title: { sv: 'GDPR grunder', en: 'GDPR basics', nl: 'AVG-basis' },
+    duration: '7 minutes',
+    language: 'sv',
+    locales: ['sv', 'en', 'nl'],
+    fallbackLocales: ['en']
+  },
+  startScene: 'intro',
+  scenes: [
+    {
+      id: 'intro',
+      type: 'dialogue',
+      characters: [{ id: 'anna', name: 'Anna', role: { sv: 'Jurist', en: 'Lawyer' } }],
+      messages: [{ characterId: 'anna', text: { sv: 'Hej!', en: 'Hello!', nl: 'Hallo!' } }],
+      choices: [{ id: 'ready', text: { sv: 'Jag är redo', en: 'I am ready' }, nextScene: 'end' }]
+    },
+    {
+      id: 'check',
+      type: 'quiz',
+      questions: [{
+        id: 'q1',
+        text: { sv: 'Vad är GDPR?', en: 'What is GDPR?', nl: 'Wat is de AVG?' },
+        options: [
+          { id: 'a', text: 'GDPR', isCorrect: true, feedback: { sv: 'Rätt', en: 'Right', nl: 'Goed' } },
+          { id: 'b', text: { sv: 'En app', en: 'An app', nl: 'Een app' }, isCorrect: false }
+        ]
+      }]
+    }
+  ]
+};
+
+describe('Locale maps', () => {
+  it('recognises maps keyed by locale tags only', () => {
+    expect(isLocaleMap({ sv: 'Hej', 'en-GB': 'Hello' })).toBe(true);
+    expect(isLocaleMap({ excellent: 'Bra' })).toBe(false);
+    expect(isLocaleMap({ sv: 3 })).toBe(false);
+    expect(isLocaleMap({})).toBe(false);
+  });
+
+  it('resolves along the fallback chain, matching regional tags by language', () => {
+    const chain = getFallbackChain('nl', { language: 'sv', fallbackLocales: ['en'] });
+    expect(chain).toEqual(['nl', 'en', 'sv']);
+    expect(resolveLocalizedText({ sv: 'Hej', en: 'Hello' }, chain)).toBe('Hello');
+    expect(resolveLocalizedText({ 'nl-BE': 'Hallo', sv: 'Hej' }, chain)).toBe('Hallo');
+    expect(resolveLocalizedText({ fi: 'Hei' }, chain)).toBe('Hei');
+    expect(resolveLocalizedText('GDPR', chain)).toBe('GDPR');
+  });
+});
+
+describe('Translatable fields', () => {
+  it('collects fields with loader paths and id-based unit ids', () => {
+    const fields = collectTranslatableFields(multilingualManifest);
+    const byPath = Object.fromEntries(fields.map(field => [field.path, field.unitId]));
+
+    expect(byPath['metadata.title']).toBe('metadata.title');
+    expect(byPath['scenes[0].messages[0].text']).toBe('scenes.intro.messages.0.text');
+    expect(byPath['scenes[1].questions[0].options[0].feedback']).toBe('scenes.check.questions.q1.options.a.feedback');
+    expect(byPath['scenes[0].characters[0].name']).toBeUndefined();
+  });
+
+  it('lists missing translations per locale, treating plain strings as language neutral', () => {
+    expect(getMissingTranslations(multilingualManifest)).toEqual({
+      nl: ['scenes[0].characters[0].role', 'scenes[0].choices[0].text']
+    });
+  });
+});
+
+describe('localizeManifest', () => {
+  it('resolves every translatable field for the requested locale', () => {
+    const { manifest, locale, fallbackFields } = localizeManifest(multilingualManifest, 'nl');
+    const { metadata, scenes } = manifest as MultilingualGameManifest;
+    const [intro, check] = scenes as [Extract<MultilingualScene, { type: 'dialogue' }>, Extract<MultilingualScene, { type: 'quiz' }>];
+
+    expect(locale).toBe('nl');
+    expect(metadata.title).toBe('AVG-basis');
+    expect(metadata.language).toBe('nl');
+    expect(intro.messages[0].text).toBe('Hallo!');
+    expect(intro.choices?.[0].text).toBe('I am ready');
+    expect(check.questions[0].options[1].text).toBe('Een app');
+    expect(fallbackFields).toEqual(['scenes[0].characters[0].role', 'scenes[0].choices[0].text']);
+  });
+
+  it('falls back to the source language for locales the manifest lacks', () => {
+    const { manifest, locale } = localizeManifest(multilingualManifest, 'fi');
+    expect(locale).toBe('en');
+    expect((manifest as MultilingualGameManifest).metadata.title).toBe('GDPR basics');
+  });
+
+  it('leaves single-language manifests untouched', () => {
+    const manifest = { gameId: 'plain', metadata: { title: 'Test', language: 'sv' }, scenes: [] };
+    expect(localizeManifest(manifest, 'en')).toEqual({ manifest, fallbackFields: [] });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Manifest Translations
+ * Resolves multilingual manifests to one locale and reports translatable fields that lack a locale
+ */
+
+import { TRANSLATABLE_KEYS, type LocaleMap, type LocalizedText } from '../types/game-manifest';
+import type { RawManifest } from './manifestMigrations';
+
+export interface TranslatableField {
+  path: string; // Loader-style path, e.g. scenes[0].messages[1].text
+  unitId: string; // Stable id built from scene and item ids, used for XLIFF units
+  value: LocalizedText;
+}
+
+export interface LocalizedManifest {
+  manifest: RawManifest;
+  locale?: string; // Locale the manifest resolved to, undefined for single-language manifests
+  fallbackFields: string[]; // Paths resolved from a fallback locale instead of the requested one
+}
+
+// Final fallback when neither the player nor the manifest names a usable locale
+const DEFAULT_CONTENT_LOCALE = 'sv';
+
+const LOCALE_TAG = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+const isObject = (value: unknown): value is RawManifest =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const primaryLanguage = (locale: string): string => locale.toLowerCase().split(/[-_]/)[0];
+
+// XLIFF unit ids are NMTOKENs
+const toUnitIdSegment = (segment: string): string => segment.replace(/[^A-Za-z0-9._:-]/g, '_');
+
+export const isLocaleMap = (value: unknown): value is LocaleMap =>
+  isObject(value)
+  && Object.keys(value).length > 0
+  && Object.entries(value).every(([locale, text]) => LOCALE_TAG.test(locale) && typeof text === 'string');
+
+const findLocaleKey = (map: LocaleMap, locale: string): string | undefined =>
+  locale in map
+    ? locale
+    : Object.keys(map).find(key => primaryLanguage(key) === primaryLanguage(locale));
+
+export const hasTranslation = (value: LocalizedText, locale: string): boolean =>
+  typeof value === 'string' || findLocaleKey(value, locale) !== undefined;
+
+/**
+ * Locales to try for a player, e.g. nl → en → sv: the requested locale, the manifest's
+ * fallbackLocales, its source language and finally Swedish
+ */
+export const getFallbackChain = (locale: string | undefined, metadata: unknown): string[] => {
+  const meta = isObject(metadata) ? metadata : {};
+  const fallbacks = Array.isArray(meta.fallbackLocales) ? meta.fallbackLocales : [];
+  const chain = [locale, ...fallbacks, meta.language, DEFAULT_CONTENT_LOCALE]
+    .filter((entry): entry is string => typeof entry === 'string' && entry.length > 0);
+  return Array.from(new Set(chain));
+};
+
+/**
+ * Pick the first locale of the chain the text is available in; a map without any of them
+ * falls back to its first entry rather than rendering nothing
+ */
+export const resolveLocalizedText = (value: LocalizedText, chain: string[]): string => {
+  if (typeof value === 'string') return value;
+  for (const locale of chain) {
+    const key = findLocaleKey(value, locale);
+    if (key) return value[key];
+  }
+  return Object.values(value)[0] ?? '';
+};
+
+const TRANSLATABLE_KEY_SET: ReadonlySet<string> = new Set(TRANSLATABLE_KEYS);
+
+/**
+ * Depth-first walk over translatable fields; rebuild returns a copy with each field replaced by
+ * the visitor's result, otherwise the manifest is only read
+ */
+const walkTranslatableFields = (
+  manifest: RawManifest,
+  visitField: (field: TranslatableField) => unknown,
+  rebuild: boolean
+): RawManifest => {
+  // Manifests are JSON, but validators also receive hand-built objects that may be circular
+  const ancestors = new Set<unknown>();
+  // Segment stacks; paths are only joined for translatable fields, which keeps large manifests cheap
+  const pathSegments: string[] = [];
+  const unitSegments: string[] = [];
+
+  const visitChild = (child: unknown, pathSegment: string, unitSegment: string, translatable: boolean): unknown => {
+    pathSegments.push(pathSegment);
+    unitSegments.push(unitSegment);
+    const result = visit(child, translatable);
+    pathSegments.pop();
+    unitSegments.pop();
+    return result;
+  };
+
+  const visit = (value: unknown, translatable: boolean): unknown => {
+    if (translatable && (typeof value === 'string' || isLocaleMap(value))) {
+      const path = pathSegments.reduce((joined, segment) =>
+        segment.startsWith('[') || !joined ? joined + segment : `${joined}.${segment}`, '');
+      return visitField({ path, unitId: unitSegments.map(toUnitIdSegment).join('.'), value });
+    }
+    if (value === null || typeof value !== 'object' || ancestors.has(value)) {
+      return value;
+    }
+
+    ancestors.add(value);
+    let result: unknown = value;
+    if (Array.isArray(value)) {
+      const items = value.map((item, index) => {
+        // Scenes, options and choices keep their unit ids when authors reorder them
+        const itemId = isObject(item) && typeof item.id === 'string' ? item.id : String(index);
+        return visitChild(item, `[${index}]`, itemId, translatable);
+      });
+      if (rebuild) result = items;
+    } else {
+      const copy: RawManifest = {};
+      for (const key of Object.keys(value)) {
+        copy[key] = visitChild((value as RawManifest)[key], key, key, TRANSLATABLE_KEY_SET.has(key));
+      }
+      if (rebuild) result = copy;
+    }
+    ancestors.delete(value);
+    return result;
+  };
+
+  return visit(manifest, false) as RawManifest;
+};
+
+/**
+ * Rebuild a manifest with every translatable field passed through transform
+ */
+export const mapTranslatableFields = (
+  manifest: RawManifest,
+  transform: (field: TranslatableField) => unknown
+): RawManifest => walkTranslatableFields(manifest, transform, true);
+
+export const collectTranslatableFields = (manifest: RawManifest): TranslatableField[] => {
+  const fields: TranslatableField[] = [];
+  walkTranslatableFields(manifest, field => {
+    fields.push(field);
+    return field.value;
+  }, false);
+  return fields;
+};
+
+/**
+ * Locales a manifest is translated into: metadata.locales when declared, otherwise every
+ * locale used by a translatable field
+ */
+export const getManifestLocales = (
+  manifest: RawManifest,
+  fields: TranslatableField[] = collectTranslatableFields(manifest)
+): string[] => {
+  const declared = isObject(manifest.metadata) && Array.isArray(manifest.metadata.locales)
+    ? manifest.metadata.locales.filter((locale): locale is string => typeof locale === 'string')
+    : [];
+  if (declared.length > 0) return declared;
+
+  const used = fields.flatMap(field => (typeof field.value === 'string' ? [] : Object.keys(field.value)));
+  return Array.from(new Set(used));
+};
+
+export const isMultilingualManifest = (manifest: RawManifest): boolean =>
+  getManifestLocales(manifest).length > 0;
+
+/**
+ * Paths of locale maps that lack each manifest locale; plain strings are language neutral
+ */
+export const getMissingTranslations = (
+  manifest: RawManifest,
+  fields: TranslatableField[] = collectTranslatableFields(manifest)
+): Record<string, string[]> => {
+  const missing: Record<string, string[]> = {};
+
+  getManifestLocales(manifest, fields).forEach(locale => {
+    const paths = fields
+      .filter(field => !hasTranslation(field.value, locale))
+      .map(field => field.path);
+    if (paths.length > 0) {
+      missing[locale] = paths;
+    }
+  });
+
+  return missing;
+};
+
+/**
+ * Resolve every translatable field of a multilingual manifest to plain strings for one locale
+ * Single-language manifests are returned unchanged
+ */
+export const localizeManifest = (manifest: RawManifest, requestedLocale?: string): LocalizedManifest => {
+  const fields = collectTranslatableFields(manifest);
+  const locales = getManifestLocales(manifest, fields);
+  if (locales.length === 0) {
+    return { manifest, fallbackFields: [] };
+  }
+
+  const chain = getFallbackChain(requestedLocale, manifest.metadata);
+  const fallbackFields: string[] = [];
+  const localized = mapTranslatableFields(manifest, field => {
+    if (requestedLocale && !hasTranslation(field.value, requestedLocale)) {
+      fallbackFields.push(field.path);
+    }
+    return resolveLocalizedText(field.value, chain);
+  });
+
+  const locale = chain
+    .map(candidate => locales.find(available => primaryLanguage(available) === primaryLanguage(candidate)))
+    .find((available): available is string => available !== undefined) ?? locales[0];
+  if (isObject(localized.metadata)) {
+    localized.metadata = { ...localized.metadata, language: locale };
+  }
+
+  return { manifest: localized, locale, fallbackFields };
+};
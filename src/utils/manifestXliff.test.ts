@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { exportManifestXliff, importManifestXliff, XliffError } from './manifestXliff';
+import { getMissingTranslations } from './manifestTranslations';
+import type { MultilingualGameManifest } from '../types/game-manifest';
+
+type MultilingualDialogueScene = Extract<MultilingualGameManifest['scenes'][number], { type: 'dialogue' }>;
+
+const manifest: MultilingualGameManifest = {
+  schemaVersion: '0.2.0',
+  gameId: 'gdpr-basics',
+  metadata: { title: { sv: 'GDPR grunder', en: 'GDPR basics' }, duration: '7 minutes', language: 'sv', locales: ['sv', 'en'] },
+  startScene: 'intro',
+  scenes: [
+    {
+      id: 'intro',
+      type: 'dialogue',
+      characters: [],
+      messages: [{ characterId: 'anna', text: 'Hej & välkommen <3' }],
+      choices: [{ id: 'ready', text: { sv: 'Jag är redo', en: 'I am ready' } }]
+    }
+  ]
+};
+
+const translate = (xliff: string, translations: Record<string, string>): string =>
+  Object.entries(translations).reduce((document, [unitId, target]) =>
+    document.replace(
+      new RegExp(`(<unit id="${unitId.replace(/\./g, '\\.')}">[\\s\\S]*?<source>[\\s\\S]*?</source>)`),
+      `$1<target>${target}</target>`
+    ), xliff);
+
+describe('exportManifestXliff', () => {
+  it('writes one XLIFF 2.0 unit per translatable field', () => {
+    const xliff = exportManifestXliff(manifest, { targetLocale: 'en' });
+
+    expect(xliff).toContain('<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="sv" trgLang="en">');
+    expect(xliff).toContain('<unit id="scenes.intro.messages.0.text">');
+    expect(xliff).toContain('<note category="location">scenes[0].messages[0].text</note>');
+    expect(xliff).toContain('<source>Hej &amp; välkommen &lt;3</source>');
+    expect(xliff).toMatch(/<segment state="initial">\s*<source>Hej &amp;/);
+    expect(xliff).toMatch(/<segment state="translated">\s*<source>Jag är redo<\/source>\s*<target>I am ready<\/target>/);
+  });
+});
+
+describe('importManifestXliff', () => {
+  it('merges targets into locale maps and declares the new locale', () => {
+    const xliff = translate(exportManifestXliff(manifest, { targetLocale: 'nl' }), {
+      'metadata.title': 'AVG-basis',
+      'scenes.intro.messages.0.text': 'Hallo &amp; welkom <![CDATA[<3]]>'
+    });
+    const result = importManifestXliff(manifest, xliff);
+    const { metadata, scenes } = result.manifest as MultilingualGameManifest;
+    const scene = scenes[0] as MultilingualDialogueScene;
+
+    expect(result.targetLocale).toBe('nl');
+    expect(result.updated).toBe(2);
+    expect(result.issues).toEqual([]);
+    expect(metadata.title).toEqual({ sv: 'GDPR grunder', en: 'GDPR basics', nl: 'AVG-basis' });
+    expect(metadata.locales).toEqual(['sv', 'en', 'nl']);
+    expect(scene.messages[0].text).toEqual({ sv: 'Hej & välkommen <3', nl: 'Hallo & welkom <3' });
+    expect(getMissingTranslations(result.manifest)).toEqual({
+      en: ['scenes[0].messages[0].text'],
+      nl: ['scenes[0].choices[0].text']
+    });
+  });
+
+  it('reports units it cannot apply', () => {
+    const xliff = translate(exportManifestXliff(manifest, { targetLocale: 'nl' }), {
+      'scenes.intro.choices.ready.text': 'Ik ben <pc id="1">klaar</pc>'
+    }).replace('</file>', '<unit id="scenes.removed.text"><segment><source>x</source><target>y</target></segment></unit></file>');
+
+    const result = importManifestXliff(manifest, xliff);
+    expect(result.updated).toBe(0);
+    expect(result.issues.map(issue => issue.path)).toEqual(['scenes.intro.choices.ready.text', 'scenes.removed.text']);
+  });
+
+  it('rejects documents that are not XLIFF 2.0', () => {
+    expect(() => importManifestXliff(manifest, '<xliff version="1.2" srcLang="sv" trgLang="nl"></xliff>')).toThrow(XliffError);
+    expect(() => importManifestXliff(manifest, '<xliff version="2.0" srcLang="sv"></xliff>')).toThrow(/trgLang/);
+  });
+});
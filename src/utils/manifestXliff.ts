@@ -0,0 +1,184 @@
+/**
+ * Manifest XLIFF 2.0 exchange
+ * Exports the translatable fields of a manifest as XLIFF units for external translators and merges
+ * translated units back into the manifest's locale maps
+ */
+
+import type { ManifestSchemaIssue } from './manifestLoader';
+import type { RawManifest } from './manifestMigrations';
+import {
+  collectTranslatableFields,
+  getFallbackChain,
+  isLocaleMap,
+  mapTranslatableFields,
+  resolveLocalizedText
+} from './manifestTranslations';
+
+export const XLIFF_NAMESPACE = 'urn:oasis:names:tc:xliff:document:2.0';
+
+export class XliffError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XliffError';
+  }
+}
+
+export interface XliffExportOptions {
+  targetLocale: string;
+  sourceLocale?: string; // Defaults to metadata.language, then Swedish
+}
+
+export interface XliffImportResult {
+  manifest: RawManifest;
+  sourceLocale: string;
+  targetLocale: string;
+  updated: number; // Fields that received a translation
+  issues: ManifestSchemaIssue[]; // Units that could not be applied, keyed by unit id
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;'
+};
+
+const escapeXml = (value: string): string => value.replace(/[&<>"']/g, char => XML_ENTITIES[char]);
+
+const unescapeXml = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#[0-9]+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(codePoint);
+    }
+    const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+    return named[entity.toLowerCase()];
+  });
+
+const getAttribute = (attributes: string, name: string): string | undefined => {
+  const match = new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`).exec(attributes);
+  return match ? unescapeXml(match[2] ?? match[3]) : undefined;
+};
+
+const getSourceLocale = (manifest: RawManifest, sourceLocale?: string): string => {
+  const metadata = manifest.metadata as Record<string, unknown> | undefined;
+  return sourceLocale ?? (typeof metadata?.language === 'string' ? metadata.language : 'sv');
+};
+
+/**
+ * Serialize every translatable field as a unit; fields already translated carry their target
+ * so translators can review them, the rest are left in the initial state
+ */
+export const exportManifestXliff = (manifest: RawManifest, options: XliffExportOptions): string => {
+  const sourceLocale = getSourceLocale(manifest, options.sourceLocale);
+  const { targetLocale } = options;
+  const chain = getFallbackChain(sourceLocale, manifest.metadata);
+
+  const units = collectTranslatableFields(manifest).map(field => {
+    const source = resolveLocalizedText(field.value, chain);
+    const target = isLocaleMap(field.value) ? field.value[targetLocale] : undefined;
+    const targetElement = target !== undefined ? `\n        <target>${escapeXml(target)}</target>` : '';
+
+    return `    <unit id="${escapeXml(field.unitId)}">
+      <notes>
+        <note category="location">${escapeXml(field.path)}</note>
+      </notes>
+      <segment state="${target !== undefined ? 'translated' : 'initial'}">
+        <source>${escapeXml(source)}</source>${targetElement}
+      </segment>
+    </unit>`;
+  });
+
+  const gameId = typeof manifest.gameId === 'string' ? manifest.gameId : 'manifest';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<xliff xmlns="${XLIFF_NAMESPACE}" version="2.0" srcLang="${escapeXml(sourceLocale)}" trgLang="${escapeXml(targetLocale)}">
+  <file id="${escapeXml(gameId)}">
+${units.join('\n')}
+  </file>
+</xliff>
+`;
+};
+
+// CDATA sections are literal text; anything else must be escaped character data
+const readTextContent = (content: string): string | null => {
+  const text = content.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) => escapeXml(data));
+  return text.includes('<') ? null : unescapeXml(text);
+};
+
+/**
+ * Parse the units of an XLIFF 2.0 document into unit id → target text
+ * Only plain-text targets are supported, since manifest fields carry no inline markup
+ */
+const parseXliffUnits = (xliff: string): {
+  sourceLocale: string;
+  targetLocale: string;
+  targets: Map<string, string | null>;
+} => {
+  const root = /<xliff\b([^>]*)>/.exec(xliff);
+  if (!root) {
+    throw new XliffError('Document has no <xliff> root element');
+  }
+  const version = getAttribute(root[1], 'version');
+  if (version !== '2.0') {
+    throw new XliffError(`Unsupported XLIFF version '${version ?? 'missing'}', expected 2.0`);
+  }
+  const sourceLocale = getAttribute(root[1], 'srcLang');
+  const targetLocale = getAttribute(root[1], 'trgLang');
+  if (!sourceLocale || !targetLocale) {
+    throw new XliffError('XLIFF root must declare srcLang and trgLang');
+  }
+
+  const targets = new Map<string, string | null>();
+  const unitPattern = /<unit\b([^>]*)>([\s\S]*?)<\/unit>/g;
+  for (let unit = unitPattern.exec(xliff); unit; unit = unitPattern.exec(xliff)) {
+    const id = getAttribute(unit[1], 'id');
+    if (!id) continue;
+    const target = /<target\b[^>]*>([\s\S]*?)<\/target>/.exec(unit[2]);
+    if (target) {
+      targets.set(id, readTextContent(target[1]));
+    }
+  }
+
+  return { sourceLocale, targetLocale, targets };
+};
+
+/**
+ * Merge the targets of an XLIFF 2.0 document into the manifest as the trgLang locale
+ * Plain string fields become locale maps keyed by srcLang and trgLang; metadata.locales gains trgLang
+ */
+export const importManifestXliff = (manifest: RawManifest, xliff: string): XliffImportResult => {
+  const { sourceLocale, targetLocale, targets } = parseXliffUnits(xliff);
+  const issues: ManifestSchemaIssue[] = [];
+  const applied = new Set<string>();
+
+  const translated = mapTranslatableFields(manifest, field => {
+    if (!targets.has(field.unitId)) return field.value;
+    applied.add(field.unitId);
+
+    const target = targets.get(field.unitId);
+    if (target === null || target === undefined) {
+      issues.push({ path: field.unitId, message: 'Target contains inline markup, which manifests do not support' });
+      return field.value;
+    }
+    return isLocaleMap(field.value)
+      ? { ...field.value, [targetLocale]: target }
+      : { [sourceLocale]: field.value, [targetLocale]: target };
+  });
+
+  targets.forEach((_, unitId) => {
+    if (!applied.has(unitId)) {
+      issues.push({ path: unitId, message: 'Unit does not match any translatable field of the manifest' });
+    }
+  });
+
+  const updated = applied.size - issues.filter(issue => applied.has(issue.path)).length;
+  if (updated > 0 && translated.metadata && typeof translated.metadata === 'object') {
+    const metadata = translated.metadata as Record<string, unknown>;
+    const locales = Array.isArray(metadata.locales) ? metadata.locales : [sourceLocale];
+    translated.metadata = { ...metadata, locales: Array.from(new Set([...locales, targetLocale])) };
+  }
+
+  return { manifest: translated, sourceLocale, targetLocale, updated, issues };
+};
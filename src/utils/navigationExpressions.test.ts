@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseNavigationExpression,
+  evaluateNavigationExpression,
+  collectExpressionReferences,
+  NavigationExpressionError,
+  type ExpressionContext
+} from './navigationExpressions';
+
+const context: ExpressionContext = {
+  variables: { budget: -200, reported: true, department: 'it' },
+  builtins: { score: 8, maxScore: 10, percentage: 80, sceneScore: 2, sceneMaxScore: 3, scenePassed: true },
+  visited: sceneId => sceneId === 'intro',
+  answered: (sceneId, answerId) => sceneId === 'intro' && answerId === 'report'
+};
+
+const evaluate = (source: string) =>
+  evaluateNavigationExpression(parseNavigationExpression(source), context, source);
+
+describe('navigation expressions', () => {
+  it('evaluates comparisons, arithmetic and boolean logic', () => {
+    expect(evaluate('budget < 0')).toBe(true);
+    expect(evaluate('budget + 500 >= 300')).toBe(true);
+    expect(evaluate('-budget == 200')).toBe(true);
+    expect(evaluate("department == 'it' && !reported")).toBe(false);
+    expect(evaluate('percentage >= 80 || budget > 0')).toBe(true);
+  });
+
+  it('supports visited() and answered() on previous scenes', () => {
+    expect(evaluate("visited('intro') && answered('intro', 'report')")).toBe(true);
+    expect(evaluate("visited('crisis')")).toBe(false);
+  });
+
+  it('short-circuits so guards protect later operands', () => {
+    expect(evaluate("false && department > 1")).toBe(false);
+  });
+
+  it('reports syntax errors with their position', () => {
+    expect(() => parseNavigationExpression('budget <')).toThrow("Unexpected 'end of expression' at position 8");
+    expect(() => parseNavigationExpression('budget = 0')).toThrow("Unexpected character '=' at position 7");
+    expect(() => parseNavigationExpression("visited(intro)")).toThrow(NavigationExpressionError);
+    expect(() => parseNavigationExpression("answered('intro')")).toThrow('answered() takes 2 arguments');
+    expect(() => parseNavigationExpression("goto('x')")).toThrow("Unknown function 'goto'");
+    expect(() => parseNavigationExpression('')).toThrow('Expression is empty');
+  });
+
+  it('rejects comparing non-numbers at evaluation time', () => {
+    expect(() => evaluate("department < 3")).toThrow("Operator '<' needs numbers, got string");
+    expect(() => evaluate('unknown > 3')).toThrow("Unknown identifier 'unknown'");
+  });
+
+  it('collects referenced identifiers and scenes', () => {
+    const references = collectExpressionReferences(
+      parseNavigationExpression("budget < 0 && visited('intro') || answered('quiz', 'a') && score > budget")
+    );
+    expect(references).toEqual({ identifiers: ['budget', 'score'], scenes: ['intro', 'quiz'] });
+  });
+});
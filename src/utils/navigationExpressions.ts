@@ -0,0 +1,365 @@
+/**
+ * Navigation Expressions
+ * Small expression language for manifest branching, e.g. "budget < 0 && !visited('crisis-scene')"
+ *
+ * Literals: numbers, 'strings', "strings", true, false
+ * Operators: || && ! == != < <= > >= + - and parentheses
+ * Identifiers: game variables or built-ins (score, maxScore, percentage, sceneScore, sceneMaxScore, scenePassed)
+ * Functions: visited('scene-id'), answered('scene-id', 'choice-or-option-id')
+ */
+
+import type { GameVariableValue } from '../types/game-manifest';
+
+export type ExpressionValue = GameVariableValue;
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: ExpressionValue }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'call'; name: string; args: ExpressionNode[] }
+  | { kind: 'unary'; operator: '!' | '-'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode };
+
+type BinaryOperator = '||' | '&&' | '==' | '!=' | '<' | '<=' | '>' | '>=' | '+' | '-';
+
+export class NavigationExpressionError extends Error {
+  readonly expression: string;
+  readonly position?: number;
+
+  constructor(message: string, expression: string, position?: number) {
+    super(position === undefined ? message : `${message} at position ${position}`);
+    this.name = 'NavigationExpressionError';
+    this.expression = expression;
+    this.position = position;
+  }
+}
+
+// Scores of the whole game so far and of the scene that just completed
+export const BUILTIN_IDENTIFIERS = ['score', 'maxScore', 'percentage', 'sceneScore', 'sceneMaxScore', 'scenePassed'] as const;
+
+// Arity of each function; every argument must be a string literal so scene ids can be checked statically
+export const EXPRESSION_FUNCTIONS: Record<string, number> = {
+  visited: 1,
+  answered: 2
+};
+
+export interface ExpressionContext {
+  variables: Record<string, ExpressionValue>;
+  builtins: Record<(typeof BUILTIN_IDENTIFIERS)[number], ExpressionValue>;
+  visited: (sceneId: string) => boolean;
+  answered: (sceneId: string, answerId: string) => boolean;
+}
+
+export interface ExpressionReferences {
+  identifiers: string[];
+  scenes: string[];
+}
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'operator'; value: string; position: number }
+  | { type: 'end'; position: number };
+
+const OPERATORS = ['||', '&&', '==', '!=', '<=', '>=', '<', '>', '!', '+', '-', '(', ')', ','];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^\d*\.?\d+/.exec(source.slice(index));
+      if (!match) {
+        throw new NavigationExpressionError(`Invalid number`, source, index);
+      }
+      tokens.push({ type: 'number', value: Number(match[0]), position: index });
+      index += match[0].length;
+    } else if (char === "'" || char === '"') {
+      const end = source.indexOf(char, index + 1);
+      if (end === -1) {
+        throw new NavigationExpressionError('Unterminated string', source, index);
+      }
+      tokens.push({ type: 'string', value: source.slice(index + 1, end), position: index });
+      index = end + 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const [name] = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index))!;
+      tokens.push({ type: 'identifier', value: name, position: index });
+      index += name.length;
+    } else {
+      const operator = OPERATORS.find(candidate => source.startsWith(candidate, index));
+      if (!operator) {
+        throw new NavigationExpressionError(`Unexpected character '${char}'`, source, index);
+      }
+      tokens.push({ type: 'operator', value: operator, position: index });
+      index += operator.length;
+    }
+  }
+
+  tokens.push({ type: 'end', position: source.length });
+  return tokens;
+};
+
+/**
+ * Recursive descent parser; precedence from low to high: || && ! comparison + - unary
+ */
+class Parser {
+  private readonly tokens: Token[];
+  private readonly source: string;
+  private index = 0;
+
+  constructor(source: string) {
+    this.source = source;
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    if (this.peek().type === 'end') {
+      throw new NavigationExpressionError('Expression is empty', this.source);
+    }
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new NavigationExpressionError(`Unexpected '${this.describe(token)}'`, this.source, token.position);
+    }
+    return node;
+  }
+
+  private parseOr(): ExpressionNode {
+    let node = this.parseAnd();
+    while (this.matchOperator('||')) {
+      node = { kind: 'binary', operator: '||', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let node = this.parseNot();
+    while (this.matchOperator('&&')) {
+      node = { kind: 'binary', operator: '&&', left: node, right: this.parseNot() };
+    }
+    return node;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.matchOperator('!')) {
+      return { kind: 'unary', operator: '!', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    for (const operator of ['==', '!=', '<=', '>=', '<', '>'] as const) {
+      if (this.matchOperator(operator)) {
+        return { kind: 'binary', operator, left, right: this.parseAdditive() };
+      }
+    }
+    return left;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let node = this.parseUnary();
+    for (;;) {
+      if (this.matchOperator('+')) {
+        node = { kind: 'binary', operator: '+', left: node, right: this.parseUnary() };
+      } else if (this.matchOperator('-')) {
+        node = { kind: 'binary', operator: '-', left: node, right: this.parseUnary() };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchOperator('-')) {
+      return { kind: 'unary', operator: '-', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'identifier':
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'literal', value: token.value === 'true' };
+        }
+        if (this.matchOperator('(')) {
+          return this.parseCall(token.value, token.position);
+        }
+        return { kind: 'identifier', name: token.value };
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.parseOr();
+          this.expectOperator(')');
+          return node;
+        }
+        break;
+    }
+
+    throw new NavigationExpressionError(`Unexpected '${this.describe(token)}'`, this.source, token.position);
+  }
+
+  private parseCall(name: string, position: number): ExpressionNode {
+    const arity = EXPRESSION_FUNCTIONS[name];
+    if (arity === undefined) {
+      throw new NavigationExpressionError(`Unknown function '${name}'`, this.source, position);
+    }
+
+    const args: ExpressionNode[] = [];
+    if (!this.matchOperator(')')) {
+      do {
+        const token = this.next();
+        if (token.type !== 'string') {
+          throw new NavigationExpressionError(`Arguments of ${name}() must be quoted strings`, this.source, token.position);
+        }
+        args.push({ kind: 'literal', value: token.value });
+      } while (this.matchOperator(','));
+      this.expectOperator(')');
+    }
+
+    if (args.length !== arity) {
+      throw new NavigationExpressionError(`${name}() takes ${arity} argument${arity === 1 ? '' : 's'}`, this.source, position);
+    }
+    return { kind: 'call', name, args };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private matchOperator(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(operator: string): void {
+    const token = this.peek();
+    if (!this.matchOperator(operator)) {
+      throw new NavigationExpressionError(`Expected '${operator}' but found '${this.describe(token)}'`, this.source, token.position);
+    }
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'end' ? 'end of expression' : String(token.value);
+  }
+}
+
+/**
+ * Parse an expression; throws NavigationExpressionError on syntax errors
+ */
+export const parseNavigationExpression = (source: string): ExpressionNode =>
+  new Parser(source).parse();
+
+/**
+ * Identifiers and scene ids an expression refers to, for static manifest checks
+ */
+export const collectExpressionReferences = (node: ExpressionNode): ExpressionReferences => {
+  const identifiers = new Set<string>();
+  const scenes = new Set<string>();
+
+  const visit = (current: ExpressionNode): void => {
+    switch (current.kind) {
+      case 'identifier':
+        identifiers.add(current.name);
+        break;
+      case 'call':
+        // Both functions take the scene id first
+        scenes.add(String((current.args[0] as { value: ExpressionValue }).value));
+        break;
+      case 'unary':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+    }
+  };
+
+  visit(node);
+  return { identifiers: [...identifiers], scenes: [...scenes] };
+};
+
+const toNumber = (value: ExpressionValue, operator: string, source: string): number => {
+  if (typeof value !== 'number') {
+    throw new NavigationExpressionError(`Operator '${operator}' needs numbers, got ${typeof value}`, source);
+  }
+  return value;
+};
+
+/**
+ * Evaluate a parsed expression; throws NavigationExpressionError on unknown identifiers or type mismatches
+ */
+export const evaluateNavigationExpression = (
+  node: ExpressionNode,
+  context: ExpressionContext,
+  source = ''
+): ExpressionValue => {
+  const evaluate = (current: ExpressionNode): ExpressionValue => {
+    switch (current.kind) {
+      case 'literal':
+        return current.value;
+      case 'identifier':
+        if (current.name in context.variables) {
+          return context.variables[current.name];
+        }
+        if (current.name in context.builtins) {
+          return context.builtins[current.name as keyof ExpressionContext['builtins']];
+        }
+        throw new NavigationExpressionError(`Unknown identifier '${current.name}'`, source);
+      case 'call': {
+        const [sceneId, answerId] = current.args.map(arg => String(evaluate(arg)));
+        return current.name === 'visited'
+          ? context.visited(sceneId)
+          : context.answered(sceneId, answerId);
+      }
+      case 'unary':
+        return current.operator === '!'
+          ? !evaluate(current.operand)
+          : -toNumber(evaluate(current.operand), '-', source);
+      case 'binary':
+        return evaluateBinary(current.operator, current.left, current.right);
+    }
+  };
+
+  const evaluateBinary = (operator: BinaryOperator, leftNode: ExpressionNode, rightNode: ExpressionNode): ExpressionValue => {
+    // Short-circuit so visited('x') && x_score > 0 style guards work
+    if (operator === '||') return Boolean(evaluate(leftNode)) || Boolean(evaluate(rightNode));
+    if (operator === '&&') return Boolean(evaluate(leftNode)) && Boolean(evaluate(rightNode));
+
+    const left = evaluate(leftNode);
+    const right = evaluate(rightNode);
+    switch (operator) {
+      case '==': return left === right;
+      case '!=': return left !== right;
+      case '<': return toNumber(left, operator, source) < toNumber(right, operator, source);
+      case '<=': return toNumber(left, operator, source) <= toNumber(right, operator, source);
+      case '>': return toNumber(left, operator, source) > toNumber(right, operator, source);
+      case '>=': return toNumber(left, operator, source) >= toNumber(right, operator, source);
+      case '+': return toNumber(left, operator, source) + toNumber(right, operator, source);
+      case '-': return toNumber(left, operator, source) - toNumber(right, operator, source);
+    }
+  };
+
+  return evaluate(node);
+};
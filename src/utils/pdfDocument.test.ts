@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { createPdfDocument, measurePdfText, pdfImage, pdfText, readJpegSize } from './pdfDocument';
+
+const latin1 = (bytes: Uint8Array): string => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+// SOI, APP0 stub and a baseline SOF0 frame for a 120 × 40 image
+const jpeg = new Uint8Array([
+  0xff, 0xd8,
+  0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+  0xff, 0xc0, 0x00, 0x0b, 0x08, 0x00, 0x28, 0x00, 0x78, 0x01, 0x01, 0x11, 0x00,
+  0xff, 0xd9
+]);
+
+describe('createPdfDocument', () => {
+  it('writes a PDF whose cross-reference table points at every object', () => {
+    const pdf = latin1(createPdfDocument({
+      pages: [{ width: 842, height: 595, content: [pdfText('Intyg för Åsa (GDPR)', 421, 400, { align: 'center' })] }],
+      info: { title: 'Intyg', createdAt: new Date('2026-03-01T08:00:00.000Z') }
+    }));
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('(Intyg f\xf6r \xc5sa \\(GDPR\\)) Tj');
+    expect(pdf).toContain('/CreationDate (D:20260301080000Z)');
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+    const offsets = [...pdf.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it('embeds JPEG images as DCT XObjects', () => {
+    const pdf = latin1(createPdfDocument({
+      pages: [{ width: 200, height: 100, content: [pdfImage('Logo', 10, 10, 60, 20)] }],
+      images: { Logo: { data: jpeg, width: 120, height: 40 } }
+    }));
+
+    expect(pdf).toContain('/Subtype /Image /Width 120 /Height 40');
+    expect(pdf).toContain('/XObject << /Logo 5 0 R >>');
+    expect(pdf).toContain('60 0 0 20 10 10 cm /Logo Do');
+  });
+
+  it('rejects documents without pages', () => {
+    expect(() => createPdfDocument({ pages: [] })).toThrow('at least one page');
+  });
+});
+
+describe('measurePdfText', () => {
+  it('uses the Helvetica metrics, with accented letters as wide as their base letter', () => {
+    expect(measurePdfText('Hello', 10)).toBeCloseTo(22.78);
+    expect(measurePdfText('Åsa', 10)).toBe(measurePdfText('Asa', 10));
+    expect(measurePdfText('Hello', 10, 'bold')).toBeGreaterThan(measurePdfText('Hello', 10));
+  });
+});
+
+describe('readJpegSize', () => {
+  it('reads the frame size and ignores other files', () => {
+    expect(readJpegSize(jpeg)).toEqual({ width: 120, height: 40 });
+    expect(readJpegSize(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBeNull();
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * PDF Document Utility
+ * Minimal dependency-free PDF 1.4 writer for generated documents (certificates, reports)
+ * Text uses the standard Helvetica fonts with WinAnsi encoding, which covers Swedish and the other
+ * Western European languages; images must be JPEG and are embedded as-is with DCTDecode
+ */
+
+export interface PdfImage {
+  data: Uint8Array; // JPEG file
+  width: number; // Pixels
+  height: number;
+}
+
+export interface PdfPage {
+  width: number; // Points, A4 landscape is 842 × 595
+  height: number;
+  content: string[]; // Operators from the pdf* helpers below
+}
+
+export interface PdfDocumentOptions {
+  pages: PdfPage[];
+  images?: Record<string, PdfImage>; // Referenced by name from pdfImage
+  info?: {
+    title?: string;
+    author?: string;
+    subject?: string;
+    creator?: string;
+    keywords?: string;
+    createdAt?: Date;
+  };
+}
+
+export type PdfFont = 'regular' | 'bold';
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+// Helvetica glyph widths (1/1000 em) for ASCII 32-126, from the standard AFM metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+const glyphWidth = (char: string, font: PdfFont): number => {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  // Accented letters are as wide as their base letter
+  const base = char.normalize('NFD')[0];
+  const code = base.charCodeAt(0);
+  return code >= 32 && code <= 126 ? widths[code - 32] : 556;
+};
+
+/**
+ * Width of a text line in points
+ */
+export const measurePdfText = (text: string, size: number, font: PdfFont = 'regular'): number =>
+  [...text].reduce((width, char) => width + glyphWidth(char, font), 0) * size / 1000;
+
+// Typographic punctuation from Intl and catalogs is simplified; other characters outside
+// Latin-1 have no glyph in WinAnsi and become '?'
+const toWinAnsi = (text: string): string =>
+  [...text.normalize('NFC')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[\u2009\u202f]/g, '\u00a0')]
+    .map(char => (char.charCodeAt(0) <= 0xff ? char : '?'))
+    .join('');
+
+const escapePdfString = (text: string): string =>
+  toWinAnsi(text).replace(/[\\()]/g, match => `\\${match}`).replace(/[\r\n]/g, ' ');
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+const parseHexColor = (color: string): [number, number, number] => {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? [...hex].map(digit => digit + digit).join('') : hex;
+  const value = /^[0-9a-f]{6}$/i.test(full) ? parseInt(full, 16) : 0;
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map(channel => channel / 255) as [number, number, number];
+};
+
+const colorOperator = (color: string, operator: 'rg' | 'RG'): string =>
+  `${parseHexColor(color).map(channel => formatNumber(channel)).join(' ')} ${operator}`;
+
+/**
+ * Text at a baseline position; align moves the anchor to the centre or right end of the line
+ */
+export const pdfText = (
+  text: string,
+  x: number,
+  y: number,
+  options: { size?: number; font?: PdfFont; color?: string; align?: 'left' | 'center' | 'right' } = {}
+): string => {
+  const { size = 12, font = 'regular', color = '#000000', align = 'left' } = options;
+  const width = measurePdfText(text, size, font);
+  const left = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+  return `BT /${FONT_NAMES[font]} ${formatNumber(size)} Tf ${colorOperator(color, 'rg')} ${formatNumber(left)} ${formatNumber(y)} Td (${escapePdfString(text)}) Tj ET`;
+};
+
+export const pdfRect = (
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  options: { fill?: string; stroke?: string; lineWidth?: number } = {}
+): string => {
+  const paint = options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S';
+  return [
+    'q',
+    options.fill ? colorOperator(options.fill, 'rg') : '',
+    options.stroke ? colorOperator(options.stroke, 'RG') : '',
+    `${formatNumber(options.lineWidth ?? 1)} w`,
+    `${[x, y, width, height].map(formatNumber).join(' ')} re ${paint}`,
+    'Q'
+  ].filter(Boolean).join(' ');
+};
+
+export const pdfLine = (x1: number, y1: number, x2: number, y2: number, options: { color?: string; lineWidth?: number } = {}): string =>
+  `q ${colorOperator(options.color ?? '#000000', 'RG')} ${formatNumber(options.lineWidth ?? 1)} w ${[x1, y1].map(formatNumber).join(' ')} m ${[x2, y2].map(formatNumber).join(' ')} l S Q`;
+
+export const pdfImage = (name: string, x: number, y: number, width: number, height: number): string =>
+  `q ${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(x)} ${formatNumber(y)} cm /${name} Do Q`;
+
+/**
+ * Read the pixel size of a JPEG from its start-of-frame marker; null for anything else
+ */
+export const readJpegSize = (data: Uint8Array): { width: number; height: number } | null => {
+  if (data[0] !== 0xff || data[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    const length = (data[offset + 2] << 8) | data[offset + 3];
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (data[offset + 5] << 8) | data[offset + 6],
+        width: (data[offset + 7] << 8) | data[offset + 8]
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const formatPdfDate = (date: Date): string =>
+  `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+const latin1Bytes = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+/**
+ * Serialize pages, images and document info into PDF file bytes
+ */
+export function createPdfDocument(options: PdfDocumentOptions): Uint8Array {
+  if (options.pages.length === 0) {
+    throw new Error('A PDF document needs at least one page');
+  }
+
+  const images = Object.entries(options.images ?? {});
+  const objects: Array<{ dictionary: string; stream?: Uint8Array }> = [];
+  const addObject = (dictionary: string, stream?: Uint8Array): number => {
+    objects.push({ dictionary, stream });
+    return objects.length;
+  };
+
+  // Fixed object numbers: 1 catalog, 2 page tree, 3-4 fonts
+  addObject('<< /Type /Catalog /Pages 2 0 R >>');
+  addObject(''); // Page tree, filled in once the page objects exist
+  addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  const imageRefs = images.map(([name, image]) => {
+    const id = addObject(
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+      image.data
+    );
+    return `/${name} ${id} 0 R`;
+  });
+  const resources = `<< /Font << /F1 3 0 R /F2 4 0 R >>${imageRefs.length ? ` /XObject << ${imageRefs.join(' ')} >>` : ''} >>`;
+
+  const pageIds = options.pages.map(page => {
+    const content = latin1Bytes(page.content.join('\n'));
+    const contentId = addObject(`<< /Length ${content.length} >>`, content);
+    return addObject(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}] /Resources ${resources} /Contents ${contentId} 0 R >>`
+    );
+  });
+  objects[1].dictionary = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  const info = options.info ?? {};
+  const infoFields = [
+    ['Title', info.title],
+    ['Author', info.author],
+    ['Subject', info.subject],
+    ['Keywords', info.keywords],
+    ['Creator', info.creator],
+    ['Producer', 'DigiNativa Runtime Engine']
+  ].filter((field): field is [string, string] => Boolean(field[1]))
+    .map(([key, value]) => `/${key} (${escapePdfString(value)})`);
+  if (info.createdAt) infoFields.push(`/CreationDate (${formatPdfDate(info.createdAt)})`);
+  const infoId = addObject(`<< ${infoFields.join(' ')} >>`);
+
+  // Binary comment marks the file as binary for transfer tools
+  const chunks: Uint8Array[] = [latin1Bytes('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+  let length = chunks[0].length;
+  const offsets: number[] = [];
+  const push = (chunk: Uint8Array) => {
+    chunks.push(chunk);
+    length += chunk.length;
+  };
+
+  objects.forEach((object, index) => {
+    offsets.push(length);
+    if (object.stream) {
+      push(latin1Bytes(`${index + 1} 0 obj\n${object.dictionary}\nstream\n`));
+      push(object.stream);
+      push(latin1Bytes('\nendstream\nendobj\n'));
+    } else {
+      push(latin1Bytes(`${index + 1} 0 obj\n${object.dictionary}\nendobj\n`));
+    }
+  });
+
+  const xrefOffset = length;
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>`,
+    'startxref',
+    String(xrefOffset),
+    '%%EOF\n'
+  ].join('\n');
+  push(latin1Bytes(xref));
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach(chunk => {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  });
+  return pdf;
+}
@@ -1,8 +1,11 @@
 /**
  * Player Name Replacement Utility
  * Replaces {{PLAYER_NAME}} placeholders with actual player name in game content
+ * Thin wrappers around the template engine, which also renders municipality, score and variable placeholders
  */
 
+import { renderTemplate, renderTemplatesInObject } from './templateEngine';
+
 export interface GameContentWithPlayerName {
   [key: string]: any;
 }
@@ -12,39 +15,20 @@ export interface GameContentWithPlayerName {
  */
 export const replacePlayerName = (text: string, playerName: string): string => {
   if (!text || !playerName) return text;
-  return text.replace(/\{\{PLAYER_NAME\}\}/g, playerName);
+  return renderTemplate(text, { PLAYER_NAME: playerName });
 };
 
 /**
  * Recursively replace {{PLAYER_NAME}} placeholders in any object
  * This handles nested objects, arrays, and strings throughout the game manifest
  */
-export const replacePlayerNameInObject = <T extends GameContentWithPlayerName>(
-  obj: T, 
+export function replacePlayerNameInObject<T extends GameContentWithPlayerName>(
+  obj: T,
   playerName: string
-): T => {
+): T {
   if (!playerName) return obj;
-  
-  if (typeof obj === 'string') {
-    return replacePlayerName(obj, playerName) as unknown as T;
-  }
-  
-  if (Array.isArray(obj)) {
-    return obj.map(item => replacePlayerNameInObject(item, playerName)) as unknown as T;
-  }
-  
-  if (obj && typeof obj === 'object') {
-    const result: GameContentWithPlayerName = {};
-    
-    for (const [key, value] of Object.entries(obj)) {
-      result[key] = replacePlayerNameInObject(value, playerName);
-    }
-    
-    return result as T;
-  }
-  
-  return obj;
-};
+  return renderTemplatesInObject(obj, { PLAYER_NAME: playerName });
+}
 
 /**
  * Process dialogue scene data to replace player name placeholders
@@ -54,7 +38,7 @@ export const processDialogueSceneWithPlayerName = (
   playerName: string
 ) => {
   if (!playerName) return sceneData;
-  
+
   return replacePlayerNameInObject(sceneData, playerName);
 };
 
@@ -66,7 +50,7 @@ export const processQuizSceneWithPlayerName = (
   playerName: string
 ) => {
   if (!playerName) return sceneData;
-  
+
   return replacePlayerNameInObject(sceneData, playerName);
 };
 
@@ -78,6 +62,6 @@ export const processGameManifestWithPlayerName = (
   playerName: string
 ) => {
   if (!playerName) return gameManifest;
-  
+
   return replacePlayerNameInObject(gameManifest, playerName);
-};
\ No newline at end of file
+};
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { createQrCode, getQrFormatBits, getQrSvgPath, type QrCode } from './qrCode';
+
+const MASKS: Array<(row: number, col: number) => boolean> = [
+  (row, col) => (row + col) % 2 === 0,
+  row => row % 2 === 0,
+  (_row, col) => col % 3 === 0,
+  (row, col) => (row + col) % 3 === 0,
+  (row, col) => (Math.floor(row / 2) + Math.floor(col / 3)) % 2 === 0,
+  (row, col) => ((row * col) % 2) + ((row * col) % 3) === 0,
+  (row, col) => (((row * col) % 2) + ((row * col) % 3)) % 2 === 0,
+  (row, col) => (((row + col) % 2) + ((row * col) % 3)) % 2 === 0
+];
+
+// Reads the data codewords of a version 1 symbol back the way a scanner does
+const readVersion1 = (qr: QrCode): number[] => {
+  const { size, modules } = qr;
+  const isFunction = (row: number, col: number) =>
+    row === 6 || col === 6 || (row < 9 && (col < 9 || col >= size - 8)) || (row >= size - 8 && col < 9);
+
+  const bits: number[] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical++) {
+      const row = upward ? size - 1 - vertical : vertical;
+      for (const col of [right, right - 1]) {
+        if (!isFunction(row, col)) bits.push(Number(modules[row][col] !== MASKS[qr.mask](row, col)));
+      }
+    }
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+};
+
+const readFormatBits = ({ modules }: QrCode): number => {
+  const bits = [
+    ...[0, 1, 2, 3, 4, 5].map(row => modules[row][8]),
+    modules[7][8],
+    modules[8][8],
+    modules[8][7],
+    ...[9, 10, 11, 12, 13, 14].map(i => modules[8][14 - i])
+  ];
+  return bits.reduce((value, dark, i) => value | (Number(dark) << i), 0);
+};
+
+describe('getQrFormatBits', () => {
+  it('matches the format information table of the specification', () => {
+    expect(getQrFormatBits('M', 0)).toBe(0b101010000010010);
+    expect(getQrFormatBits('L', 0)).toBe(0b111011111000100);
+    expect(getQrFormatBits('H', 7)).toBe(0b000100000111011);
+  });
+});
+
+describe('createQrCode', () => {
+  it('encodes short text as version 1 with the data in byte mode', () => {
+    const qr = createQrCode('DigiNativa', { errorCorrection: 'M' });
+    const data = readVersion1(qr);
+
+    expect(qr).toMatchObject({ version: 1, size: 21, errorCorrection: 'M' });
+    expect(readFormatBits(qr)).toBe(getQrFormatBits('M', qr.mask));
+    expect(data[0] >> 4).toBe(0b0100); // Byte mode
+    expect(((data[0] & 0x0f) << 4) | (data[1] >> 4)).toBe(10);
+    const bytes = Array.from({ length: 10 }, (_, i) => ((data[i + 1] & 0x0f) << 4) | (data[i + 2] >> 4));
+    expect(String.fromCharCode(...bytes)).toBe('DigiNativa');
+  });
+
+  it('draws finder and timing patterns', () => {
+    const qr = createQrCode('https://credentials.diginativa.se/verify/credential/urn:uuid:0b4f6c1e-7a8d-4c52-9f0e-3d2a1b6c8e90');
+    const finderRow = [true, true, true, true, true, true, true, false];
+
+    expect(qr.version).toBeGreaterThan(1);
+    expect(qr.modules[0].slice(0, 8)).toEqual(finderRow);
+    expect(qr.modules[0].slice(qr.size - 8)).toEqual([...finderRow].reverse());
+    expect(qr.modules[qr.size - 1].slice(0, 8)).toEqual(finderRow);
+    expect(qr.modules[6].slice(8, qr.size - 8)).toEqual(
+      Array.from({ length: qr.size - 16 }, (_, i) => (i + 8) % 2 === 0)
+    );
+    expect(qr.modules[qr.size - 8][8]).toBe(true); // Always-dark module
+  });
+
+  it('picks larger versions for stronger error correction and rejects text that does not fit', () => {
+    const text = 'https://example.org/verify/credential/123';
+    expect(createQrCode(text, { errorCorrection: 'H' }).version).toBeGreaterThan(createQrCode(text, { errorCorrection: 'L' }).version);
+    expect(() => createQrCode('x'.repeat(400))).toThrow('too long');
+  });
+
+  it('renders dark modules as an SVG path inside the quiet zone', () => {
+    const qr = createQrCode('A');
+    const path = getQrSvgPath(qr);
+    const darkModules = qr.modules.flat().filter(Boolean).length;
+
+    expect(path.match(/M/g)).toHaveLength(darkModules);
+    expect(path.startsWith('M4 4h1v1h-1z')).toBe(true);
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * QR Code Utility
+ * Minimal dependency-free QR Code Model 2 encoder (ISO/IEC 18004) for verification links
+ * Byte mode only, versions 1-10 - up to 213 bytes at the default medium error correction,
+ * which is plenty for URLs. The mask is chosen with the standard penalty rules.
+ */
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrCode {
+  version: number;
+  size: number; // Modules per side, without the quiet zone
+  errorCorrection: QrErrorCorrection;
+  mask: number;
+  modules: boolean[][]; // [row][column], true is dark
+}
+
+const MAX_VERSION = 10;
+
+// Per version 1-10: [EC codewords per block, group 1 blocks, group 1 data codewords, group 2 blocks, group 2 data codewords]
+const BLOCK_STRUCTURE: Record<QrErrorCorrection, number[][]> = {
+  L: [[7, 1, 19, 0, 0], [10, 1, 34, 0, 0], [15, 1, 55, 0, 0], [20, 1, 80, 0, 0], [26, 1, 108, 0, 0],
+    [18, 2, 68, 0, 0], [20, 2, 78, 0, 0], [24, 2, 97, 0, 0], [30, 2, 116, 0, 0], [18, 2, 68, 2, 69]],
+  M: [[10, 1, 16, 0, 0], [16, 1, 28, 0, 0], [26, 1, 44, 0, 0], [18, 2, 32, 0, 0], [24, 2, 43, 0, 0],
+    [16, 4, 27, 0, 0], [18, 4, 31, 0, 0], [22, 2, 38, 2, 39], [22, 3, 36, 2, 37], [26, 4, 43, 1, 44]],
+  Q: [[13, 1, 13, 0, 0], [22, 1, 22, 0, 0], [18, 2, 17, 0, 0], [26, 2, 24, 0, 0], [18, 2, 15, 2, 16],
+    [24, 4, 19, 0, 0], [18, 2, 14, 4, 15], [22, 4, 18, 2, 19], [20, 4, 16, 4, 17], [24, 6, 19, 2, 20]],
+  H: [[17, 1, 9, 0, 0], [28, 1, 16, 0, 0], [22, 2, 13, 0, 0], [16, 4, 9, 0, 0], [22, 2, 11, 2, 12],
+    [28, 4, 15, 0, 0], [26, 4, 13, 1, 14], [26, 4, 14, 2, 15], [24, 4, 12, 4, 13], [28, 6, 15, 2, 16]]
+};
+
+const ALIGNMENT_POSITIONS = [
+  [], [6, 18], [6, 22], [6, 26], [6, 30], [6, 34], [6, 22, 38], [6, 24, 42], [6, 26, 46], [6, 28, 50]
+];
+
+const FORMAT_EC_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const MASKS: Array<(row: number, col: number) => boolean> = [
+  (row, col) => (row + col) % 2 === 0,
+  row => row % 2 === 0,
+  (_row, col) => col % 3 === 0,
+  (row, col) => (row + col) % 3 === 0,
+  (row, col) => (Math.floor(row / 2) + Math.floor(col / 3)) % 2 === 0,
+  (row, col) => ((row * col) % 2) + ((row * col) % 3) === 0,
+  (row, col) => (((row * col) % 2) + ((row * col) % 3)) % 2 === 0,
+  (row, col) => (((row + col) % 2) + ((row * col) % 3)) % 2 === 0
+];
+
+const getBit = (value: number, index: number): boolean => ((value >>> index) & 1) !== 0;
+
+const dataCapacity = (version: number, level: QrErrorCorrection): number => {
+  const [, blocks1, data1, blocks2, data2] = BLOCK_STRUCTURE[level][version - 1];
+  return blocks1 * data1 + blocks2 * data2;
+};
+
+// Multiplication in GF(2^8) modulo the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+  const divisor = new Array<number>(degree).fill(0);
+  divisor[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      divisor[j] = gfMultiply(divisor[j], root);
+      if (j + 1 < degree) divisor[j] ^= divisor[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return divisor;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = new Array<number>(divisor.length).fill(0);
+  data.forEach(byte => {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  });
+  return result;
+};
+
+// Mode indicator, character count, data, terminator and padding, split into data codewords
+const encodeData = (bytes: Uint8Array, version: number, capacity: number): number[] => {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+  append(0, Math.min(4, capacity * 8 - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) codewords.push(pad);
+  return codewords;
+};
+
+// Split into blocks, add error correction to each and interleave
+const addErrorCorrection = (data: number[], version: number, level: QrErrorCorrection): number[] => {
+  const [ecLength, blocks1, data1, blocks2, data2] = BLOCK_STRUCTURE[level][version - 1];
+  const divisor = reedSolomonDivisor(ecLength);
+  const blocks: Array<{ data: number[]; ec: number[] }> = [];
+  let offset = 0;
+  [...new Array<number>(blocks1).fill(data1), ...new Array<number>(blocks2).fill(data2)].forEach(length => {
+    const blockData = data.slice(offset, offset + length);
+    offset += length;
+    blocks.push({ data: blockData, ec: reedSolomonRemainder(blockData, divisor) });
+  });
+
+  const result: number[] = [];
+  for (let i = 0; i < Math.max(data1, data2); i++) {
+    blocks.forEach(block => {
+      if (i < block.data.length) result.push(block.data[i]);
+    });
+  }
+  for (let i = 0; i < ecLength; i++) {
+    blocks.forEach(block => result.push(block.ec[i]));
+  }
+  return result;
+};
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  setFunction(col: number, row: number, dark: boolean): void {
+    this.modules[row][col] = dark;
+    this.isFunction[row][col] = true;
+  }
+}
+
+const drawFunctionPatterns = (matrix: QrMatrix, version: number): void => {
+  const { size } = matrix;
+  for (let i = 0; i < size; i++) {
+    matrix.setFunction(6, i, i % 2 === 0);
+    matrix.setFunction(i, 6, i % 2 === 0);
+  }
+
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([x, y]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const col = x + dx;
+        const row = y + dy;
+        if (col >= 0 && col < size && row >= 0 && row < size) {
+          matrix.setFunction(col, row, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  });
+
+  const positions = ALIGNMENT_POSITIONS[version - 1];
+  positions.forEach((x, i) => positions.forEach((y, j) => {
+    const overlapsFinder = (i === 0 && j === 0) || (i === 0 && j === positions.length - 1) || (i === positions.length - 1 && j === 0);
+    if (overlapsFinder) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        matrix.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }));
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      matrix.setFunction(a, b, getBit(bits, i));
+      matrix.setFunction(b, a, getBit(bits, i));
+    }
+  }
+};
+
+/**
+ * 15-bit format information: error correction level and mask, BCH protected and XOR masked
+ */
+export const getQrFormatBits = (level: QrErrorCorrection, mask: number): number => {
+  const data = (FORMAT_EC_BITS[level] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  return ((data << 10) | remainder) ^ 0x5412;
+};
+
+const drawFormatBits = (matrix: QrMatrix, level: QrErrorCorrection, mask: number): void => {
+  const bits = getQrFormatBits(level, mask);
+  const { size } = matrix;
+  for (let i = 0; i <= 5; i++) matrix.setFunction(8, i, getBit(bits, i));
+  matrix.setFunction(8, 7, getBit(bits, 6));
+  matrix.setFunction(8, 8, getBit(bits, 7));
+  matrix.setFunction(7, 8, getBit(bits, 8));
+  for (let i = 9; i < 15; i++) matrix.setFunction(14 - i, 8, getBit(bits, i));
+
+  for (let i = 0; i < 8; i++) matrix.setFunction(size - 1 - i, 8, getBit(bits, i));
+  for (let i = 8; i < 15; i++) matrix.setFunction(8, size - 15 + i, getBit(bits, i));
+  matrix.setFunction(8, size - 8, true); // Always-dark module
+};
+
+// Zigzag placement in two-module columns from the bottom right, skipping the vertical timing pattern
+const drawCodewords = (matrix: QrMatrix, codewords: number[]): void => {
+  const { size } = matrix;
+  let bit = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical++) {
+      const row = upward ? size - 1 - vertical : vertical;
+      for (let j = 0; j < 2; j++) {
+        const col = right - j;
+        if (!matrix.isFunction[row][col] && bit < codewords.length * 8) {
+          matrix.modules[row][col] = getBit(codewords[bit >>> 3], 7 - (bit & 7));
+          bit++;
+        }
+      }
+    }
+  }
+};
+
+const applyMask = (matrix: QrMatrix, mask: number): void => {
+  for (let row = 0; row < matrix.size; row++) {
+    for (let col = 0; col < matrix.size; col++) {
+      if (!matrix.isFunction[row][col] && MASKS[mask](row, col)) {
+        matrix.modules[row][col] = !matrix.modules[row][col];
+      }
+    }
+  }
+};
+
+const FINDER_LIKE = [true, false, true, true, true, false, true];
+
+const penaltyScore = (modules: boolean[][]): number => {
+  const size = modules.length;
+  let penalty = 0;
+  const lines = [
+    ...modules,
+    ...modules.map((_, col) => modules.map(row => row[col]))
+  ];
+
+  lines.forEach(line => {
+    // Runs of five or more modules of the same color
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) penalty += 3 + (run - 5);
+        run = 1;
+      }
+    }
+    // Finder-like 1:1:3:1:1 patterns with four light modules on either side
+    for (let i = 0; i + 7 <= size; i++) {
+      if (!FINDER_LIKE.every((dark, k) => line[i + k] === dark)) continue;
+      const lightBefore = i >= 4 && [1, 2, 3, 4].every(k => !line[i - k]);
+      const lightAfter = i + 11 <= size && [0, 1, 2, 3].every(k => !line[i + 7 + k]);
+      if (lightBefore || lightAfter) penalty += 40;
+    }
+  });
+
+  // 2 × 2 blocks of one color
+  for (let row = 0; row < size - 1; row++) {
+    for (let col = 0; col < size - 1; col++) {
+      const color = modules[row][col];
+      if (color === modules[row][col + 1] && color === modules[row + 1][col] && color === modules[row + 1][col + 1]) {
+        penalty += 3;
+      }
+    }
+  }
+
+  // Balance of dark and light modules
+  const dark = modules.reduce((count, row) => count + row.filter(Boolean).length, 0);
+  penalty += Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5) * 10;
+  return penalty;
+};
+
+/**
+ * Encode text (UTF-8) as a QR code of the smallest version that fits
+ */
+export function createQrCode(text: string, options: { errorCorrection?: QrErrorCorrection } = {}): QrCode {
+  const errorCorrection = options.errorCorrection ?? 'M';
+  const bytes = new TextEncoder().encode(text);
+
+  let version = 1;
+  // Header is 4 mode bits and an 8-bit count (16-bit from version 10)
+  while (version <= MAX_VERSION && 4 + (version < 10 ? 8 : 16) + bytes.length * 8 > dataCapacity(version, errorCorrection) * 8) {
+    version++;
+  }
+  if (version > MAX_VERSION) {
+    throw new Error(`Text is too long for a QR code (${bytes.length} bytes)`);
+  }
+
+  const codewords = addErrorCorrection(encodeData(bytes, version, dataCapacity(version, errorCorrection)), version, errorCorrection);
+
+  let best: { mask: number; modules: boolean[][]; penalty: number } | null = null;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const matrix = new QrMatrix(version);
+    drawFunctionPatterns(matrix, version);
+    drawFormatBits(matrix, errorCorrection, mask); // Reserves the format areas before data placement
+    drawCodewords(matrix, codewords);
+    applyMask(matrix, mask);
+    const penalty = penaltyScore(matrix.modules);
+    if (!best || penalty < best.penalty) best = { mask, modules: matrix.modules, penalty };
+  }
+
+  return { version, size: version * 4 + 17, errorCorrection, mask: best!.mask, modules: best!.modules };
+}
+
+/**
+ * SVG path data drawing the dark modules as unit squares, offset by a quiet zone margin
+ */
+export const getQrSvgPath = (qr: QrCode, margin = 4): string =>
+  qr.modules.flatMap((row, y) => row.flatMap((dark, x) => (dark ? [`M${x + margin} ${y + margin}h1v1h-1z`] : []))).join('');
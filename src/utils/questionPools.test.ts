@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import type { QuestionDifficulty, QuizQuestion, QuizScene } from '../types/game-manifest';
+import {
+  createSeededRandom,
+  drawQuizQuestions,
+  getQuestionPool,
+  replayQuizDraw,
+  QuizDrawError
+} from './questionPools';
+
+const question = (id: string, tags: string[] = [], difficulty?: QuestionDifficulty): QuizQuestion => ({
+  id,
+  text: `Fråga ${id}`,
+  tags,
+  difficulty,
+  options: ['a', 'b', 'c', 'd'].map(option => ({ id: `${id}-${option}`, text: option, isCorrect: option === 'a' }))
+});
+
+const bank = {
+  gdpr: [
+    question('q1', ['consent'], 'easy'),
+    question('q2', ['consent'], 'medium'),
+    question('q3', ['retention'], 'hard'),
+    question('q4', ['retention'], 'easy'),
+    question('q5', ['consent'], 'hard'),
+    question('q6', ['breach'], 'medium')
+  ]
+};
+
+const scene: QuizScene = {
+  id: 'refresher',
+  type: 'quiz',
+  questions: [],
+  draw: { pool: 'gdpr', count: 3, tags: ['consent', 'retention'] }
+};
+
+describe('createSeededRandom', () => {
+  it('repeats the same sequence for a seed', () => {
+    const first = createSeededRandom('2025:anna');
+    const second = createSeededRandom('2025:anna');
+    const other = createSeededRandom('2026:anna');
+    const sequence = [first(), first(), first()];
+
+    expect([second(), second(), second()]).toEqual(sequence);
+    expect(other()).not.toBe(sequence[0]);
+    sequence.forEach(value => expect(value).toBeGreaterThanOrEqual(0));
+    sequence.forEach(value => expect(value).toBeLessThan(1));
+  });
+});
+
+describe('getQuestionPool', () => {
+  it('combines scene and bank questions filtered by tag', () => {
+    const pool = getQuestionPool({ ...scene, questions: [question('local', ['consent'])] }, bank);
+    expect(pool.map(item => item.id)).toEqual(['local', 'q1', 'q2', 'q3', 'q4', 'q5']);
+  });
+});
+
+describe('drawQuizQuestions', () => {
+  it('draws the same questions and option order for the same seed', () => {
+    const first = drawQuizQuestions(scene, bank, { seed: 'session-1:refresher:1' });
+    const second = drawQuizQuestions(scene, bank, { seed: 'session-1:refresher:1' });
+
+    expect(first).toEqual(second);
+    expect(first.draw.questionIds).toHaveLength(3);
+    expect(first.draw.questionIds).not.toContain('q6');
+    first.scene.questions.forEach(drawn => {
+      expect(first.draw.optionOrder[drawn.id]).toEqual(drawn.options.map(option => option.id));
+      expect(drawn.options.map(option => option.id).sort()).toEqual(['a', 'b', 'c', 'd'].map(option => `${drawn.id}-${option}`));
+    });
+  });
+
+  it('avoids questions drawn in earlier attempts until the pool runs out', () => {
+    const first = drawQuizQuestions(scene, bank, { seed: 's:1' });
+    const retry = drawQuizQuestions(scene, bank, { seed: 's:2', history: first.draw.questionIds });
+
+    const fresh = ['q1', 'q2', 'q3', 'q4', 'q5'].filter(id => !first.draw.questionIds.includes(id));
+    expect(retry.draw.questionIds).toEqual(expect.arrayContaining(fresh));
+    // The third question is the least recently drawn one
+    expect(retry.draw.questionIds).toContain(first.draw.questionIds[0]);
+  });
+
+  it('aims adaptive draws at the difficulty earned by prior answers', () => {
+    const adaptive: QuizScene = { ...scene, draw: { pool: 'gdpr', count: 2, adaptive: true } };
+
+    const strong = drawQuizQuestions(adaptive, bank, { seed: 'a', priorCorrectness: 0.9 });
+    expect(strong.draw.targetDifficulty).toBe('hard');
+    expect(strong.draw.questionIds.sort()).toEqual(['q3', 'q5']);
+
+    const weak = drawQuizQuestions(adaptive, bank, { seed: 'a', priorCorrectness: 0.2 });
+    expect(weak.draw.questionIds.sort()).toEqual(['q1', 'q4']);
+  });
+
+  it('keeps every question in order for scenes without a draw', () => {
+    const fixed: QuizScene = { id: 'fixed', type: 'quiz', questions: bank.gdpr.slice(0, 2) };
+    const { scene: drawn, draw } = drawQuizQuestions(fixed, bank, { seed: 'x' });
+
+    expect(drawn.questions).toEqual(fixed.questions);
+    expect(draw.questionIds).toEqual(['q1', 'q2']);
+  });
+});
+
+describe('replayQuizDraw', () => {
+  it('rebuilds the recorded questions and option order', () => {
+    const { scene: drawn, draw } = drawQuizQuestions(scene, bank, { seed: 'audit' });
+    expect(replayQuizDraw(scene, bank, draw)).toEqual(drawn);
+  });
+
+  it('fails when a drawn question was removed from the bank', () => {
+    const { draw } = drawQuizQuestions(scene, bank, { seed: 'audit' });
+    expect(() => replayQuizDraw(scene, { gdpr: [] }, draw)).toThrow(QuizDrawError);
+  });
+});
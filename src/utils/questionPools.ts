@@ -0,0 +1,191 @@
+/**
+ * Question Pools
+ * Draws the questions of a quiz attempt from the scene's questions and the manifest's question banks:
+ * filtered by tag, shuffled with a per-session seed, avoiding questions from earlier attempts and
+ * optionally matched to how well the learner has answered so far. The draw record replays the
+ * exact questions and option order, so every attempt can be audited afterwards.
+ */
+
+import type { QuestionDifficulty, QuizOption, QuizQuestion, QuizScene } from '../types/game-manifest';
+
+export interface QuizDraw {
+  sceneId: string;
+  seed: string;
+  questionIds: string[]; // In display order
+  optionOrder: Record<string, string[]>; // Question id → option ids in display order
+  targetDifficulty?: QuestionDifficulty; // Set for adaptive draws
+}
+
+export interface QuizDrawOptions {
+  seed: string;
+  history?: string[]; // Question ids drawn in earlier attempts and sessions, oldest first
+  priorCorrectness?: number; // Share of earlier answers that were correct (0-1), used by adaptive draws
+}
+
+export class QuizDrawError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuizDrawError';
+  }
+}
+
+const DIFFICULTY_RANK: Record<QuestionDifficulty, number> = { easy: 0, medium: 1, hard: 2 };
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) for a seed (xmur3 hash feeding mulberry32)
+ */
+export const createSeededRandom = (seed: string): (() => number) => {
+  let hash = 1779033703 ^ seed.length;
+  for (let index = 0; index < seed.length; index++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(index), 3432918353);
+    hash = (hash << 13) | (hash >>> 19);
+  }
+  hash = Math.imul(hash ^ (hash >>> 16), 2246822507);
+  hash = Math.imul(hash ^ (hash >>> 13), 3266489909);
+  let state = (hash ^ (hash >>> 16)) >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Random seed for a play session; draws within the session derive their seeds from it
+ */
+export const createQuizSeed = (): string => {
+  const bytes = new Uint8Array(8);
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    crypto.getRandomValues(bytes);
+  } else {
+    bytes.forEach((_, index) => { bytes[index] = Math.floor(Math.random() * 256); });
+  }
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Fisher-Yates shuffle into a new array
+ */
+export function shuffleWithRandom<T>(items: readonly T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; index--) {
+    const swap = Math.floor(random() * (index + 1));
+    [shuffled[index], shuffled[swap]] = [shuffled[swap], shuffled[index]];
+  }
+  return shuffled;
+}
+
+/**
+ * Candidate questions of a drawing quiz: its own questions plus its bank, filtered by the draw tags
+ * A question id that appears in both is taken from the scene
+ */
+export const getQuestionPool = (
+  scene: Pick<QuizScene, 'questions' | 'draw'>,
+  questionBanks: Record<string, QuizQuestion[]> = {}
+): QuizQuestion[] => {
+  const bank = scene.draw?.pool ? questionBanks[scene.draw.pool] ?? [] : [];
+  const seen = new Set<string>();
+  const tags = scene.draw?.tags ?? [];
+
+  return [...scene.questions, ...bank].filter(question => {
+    if (seen.has(question.id)) return false;
+    seen.add(question.id);
+    return tags.length === 0 || (question.tags ?? []).some(tag => tags.includes(tag));
+  });
+};
+
+// Mostly correct answers earn hard questions, mostly wrong ones easy questions
+export const getTargetDifficulty = (priorCorrectness: number): QuestionDifficulty =>
+  priorCorrectness >= 0.8 ? 'hard' : priorCorrectness >= 0.5 ? 'medium' : 'easy';
+
+const orderOptions = (question: QuizQuestion, optionIds: string[] | undefined): QuizQuestion => {
+  if (!optionIds) return question;
+  const byId = new Map(question.options.map(option => [option.id, option]));
+  const options = optionIds.map(id => byId.get(id)).filter((option): option is QuizOption => option !== undefined);
+  return { ...question, options };
+};
+
+/**
+ * Draw the questions of one attempt; scenes without a draw keep all their questions in order
+ * The same scene, banks and options always produce the same draw
+ */
+export const drawQuizQuestions = (
+  scene: QuizScene,
+  questionBanks: Record<string, QuizQuestion[]> | undefined,
+  options: QuizDrawOptions
+): { scene: QuizScene; draw: QuizDraw } => {
+  const random = createSeededRandom(options.seed);
+  const settings = scene.draw;
+  const pool = getQuestionPool(scene, questionBanks);
+
+  let questions = pool;
+  let targetDifficulty: QuestionDifficulty | undefined;
+  if (settings) {
+    const shuffled = shuffleWithRandom(pool, random);
+
+    // Least recently drawn questions come back first once the fresh ones run out
+    const lastDrawn = new Map<string, number>();
+    if (settings.avoidRepeats !== false) {
+      (options.history ?? []).forEach((id, index) => lastDrawn.set(id, index));
+    }
+    const repeatRank = (question: QuizQuestion): number =>
+      lastDrawn.has(question.id) ? 1 + lastDrawn.get(question.id)! : 0;
+
+    if (settings.adaptive && options.priorCorrectness !== undefined) {
+      targetDifficulty = getTargetDifficulty(options.priorCorrectness);
+    }
+    const distance = (question: QuizQuestion): number => targetDifficulty
+      ? Math.abs(DIFFICULTY_RANK[question.difficulty ?? 'medium'] - DIFFICULTY_RANK[targetDifficulty])
+      : 0;
+
+    // Array.prototype.sort is stable, so ties keep their shuffled order
+    const ranked = [...shuffled].sort((a, b) => repeatRank(a) - repeatRank(b) || distance(a) - distance(b));
+    const picked = new Set(ranked.slice(0, Math.max(0, settings.count)));
+    questions = shuffled.filter(question => picked.has(question));
+  }
+
+  const shuffleOptions = settings !== undefined && settings.shuffleOptions !== false;
+  const drawn = questions.map(question =>
+    shuffleOptions && question.answerType !== 'true_false'
+      ? { ...question, options: shuffleWithRandom(question.options, random) }
+      : question
+  );
+
+  return {
+    scene: { ...scene, questions: drawn },
+    draw: {
+      sceneId: scene.id,
+      seed: options.seed,
+      questionIds: drawn.map(question => question.id),
+      optionOrder: Object.fromEntries(drawn.map(question => [question.id, question.options.map(option => option.id)])),
+      ...(targetDifficulty && { targetDifficulty })
+    }
+  };
+};
+
+/**
+ * Rebuild the exact questions of a recorded draw, e.g. to review a learner's attempt
+ * Throws QuizDrawError when the manifest no longer contains a drawn question
+ */
+export const replayQuizDraw = (
+  scene: QuizScene,
+  questionBanks: Record<string, QuizQuestion[]> | undefined,
+  draw: QuizDraw
+): QuizScene => {
+  // Tags may have changed since the draw, so every question of the scene and its bank can be replayed
+  const bank = scene.draw?.pool ? questionBanks?.[scene.draw.pool] ?? [] : [];
+  const byId = new Map([...bank, ...scene.questions].map(question => [question.id, question]));
+
+  const questions = draw.questionIds.map(id => {
+    const question = byId.get(id);
+    if (!question) {
+      throw new QuizDrawError(`Question '${id}' of the recorded draw is not in scene '${scene.id}' or its bank`);
+    }
+    return orderOptions(question, draw.optionOrder[id]);
+  });
+
+  return { ...scene, questions };
+};
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import type { HotspotRegion } from '../types/game-manifest';
+import {
+  findHotspotRegion,
+  getAnswerKeyIssues,
+  isResponseComplete,
+  parseNumericAnswer,
+  scoreResponse
+} from './questionScoring';
+
+const regions: HotspotRegion[] = [
+  { id: 'form', label: 'Ansökningsformuläret', shape: 'rect', coords: [10, 10, 60, 50], isCorrect: false },
+  { id: 'ssn', label: 'Personnummerfältet', shape: 'rect', coords: [15, 20, 40, 30], isCorrect: true },
+  { id: 'stamp', label: 'Stämpeln', shape: 'circle', coords: [80, 80, 10] },
+  { id: 'arrow', label: 'Pilen', shape: 'polygon', coords: [70, 10, 90, 10, 80, 30] }
+];
+
+describe('scoreResponse', () => {
+  it('matches free text after normalizing case, punctuation and synonyms', () => {
+    const key = {
+      freeText: {
+        accepted: ['Den registrerades samtycke'],
+        synonyms: [['samtycke', 'medgivande', 'tillstånd']],
+        patterns: ['^art(ikel)?\\.?\\s*6']
+      }
+    };
+
+    expect(scoreResponse(key, { type: 'free_text', text: '  den REGISTRERADES medgivande! ' }).correct).toBe(true);
+    expect(scoreResponse(key, { type: 'free_text', text: 'Artikel 6.1 a' }).correct).toBe(true);
+    expect(scoreResponse(key, { type: 'free_text', text: 'Den registrerades samtal' })).toEqual({ credit: 0, correct: false });
+    expect(scoreResponse({ freeText: { ...key.freeText, caseSensitive: true } }, { type: 'free_text', text: 'den registrerades samtycke' }).correct)
+      .toBe(false);
+  });
+
+  it('accepts numbers within the tolerance, typed with Swedish decimal commas', () => {
+    const key = { numeric: { value: 30, tolerance: 0.5, unit: 'dagar' } };
+
+    expect(scoreResponse(key, { type: 'numeric', text: '30,5' }).correct).toBe(true);
+    expect(scoreResponse(key, { type: 'numeric', text: '29.4' }).correct).toBe(false);
+    expect(scoreResponse({ numeric: { value: 0.3 } }, { type: 'numeric', text: String(0.1 + 0.2) }).correct).toBe(true);
+    expect(parseNumericAnswer('1 234,5')).toBe(1234.5);
+    expect(parseNumericAnswer('tre')).toBeNull();
+  });
+
+  it('gives partial credit for ordering and matching unless scored all or nothing', () => {
+    const items = ['a', 'b', 'c', 'd'].map(id => ({ id, text: id.toUpperCase() }));
+    const ordering = { type: 'ordering' as const, itemIds: ['a', 'b', 'd', 'c'] };
+
+    expect(scoreResponse({ items }, ordering)).toEqual({ credit: 0.5, correct: false });
+    expect(scoreResponse({ items, scoring: 'all_or_nothing' }, ordering)).toEqual({ credit: 0, correct: false });
+    expect(scoreResponse({ items }, { type: 'ordering', itemIds: ['a', 'b', 'c', 'd'] })).toEqual({ credit: 1, correct: true });
+
+    const pairs = [
+      { id: 'gdpr', text: 'GDPR', match: 'Dataskyddsförordningen' },
+      { id: 'osl', text: 'OSL', match: 'Offentlighets- och sekretesslagen' },
+      { id: 'fl', text: 'FL', match: 'Förvaltningslagen' }
+    ];
+    expect(scoreResponse({ pairs }, { type: 'matching', matches: { gdpr: 'gdpr', osl: 'fl', fl: 'osl' } }).credit).toBeCloseTo(1 / 3);
+  });
+
+  it('scores hotspots by the chosen region', () => {
+    const key = { hotspot: { url: '/blankett.png', alt: 'Ansökningsblankett', regions } };
+
+    expect(scoreResponse(key, { type: 'hotspot', regionId: 'ssn' }).correct).toBe(true);
+    expect(scoreResponse(key, { type: 'hotspot', regionId: 'form' }).correct).toBe(false);
+    expect(scoreResponse(key, { type: 'hotspot', regionId: null }).correct).toBe(false);
+  });
+});
+
+describe('findHotspotRegion', () => {
+  it('hit tests rectangles, circles and polygons with the topmost region winning', () => {
+    expect(findHotspotRegion(regions, 20, 25)?.id).toBe('ssn');
+    expect(findHotspotRegion(regions, 50, 45)?.id).toBe('form');
+    expect(findHotspotRegion(regions, 85, 85)?.id).toBe('stamp');
+    expect(findHotspotRegion(regions, 80, 15)?.id).toBe('arrow');
+    expect(findHotspotRegion(regions, 5, 95)).toBeNull();
+    // On a 2:1 image the circle spans twice its radius in height percent
+    expect(findHotspotRegion(regions, 80, 98, 2)?.id).toBe('stamp');
+  });
+});
+
+describe('isResponseComplete', () => {
+  it('requires every pair to be matched and numbers to parse', () => {
+    const pairs = [{ id: 'a', text: 'A', match: '1' }, { id: 'b', text: 'B', match: '2' }];
+
+    expect(isResponseComplete({ pairs }, { type: 'matching', matches: { a: 'b' } })).toBe(false);
+    expect(isResponseComplete({ pairs }, { type: 'matching', matches: { a: 'b', b: 'a' } })).toBe(true);
+    expect(isResponseComplete({}, { type: 'numeric', text: '12 dagar' })).toBe(false);
+  });
+});
+
+describe('getAnswerKeyIssues', () => {
+  it('reports incomplete answer keys by relative path', () => {
+    expect(getAnswerKeyIssues('free_text', { freeText: { accepted: [], patterns: ['(unclosed'] } })).toEqual([
+      { path: 'freeText.patterns[0]', message: "Invalid pattern '(unclosed'" }
+    ]);
+    expect(getAnswerKeyIssues('numeric', {})).toEqual([
+      { path: 'numeric.value', message: 'Numeric question needs a numeric value' }
+    ]);
+    expect(getAnswerKeyIssues('matching', { pairs: [{ id: 'a', text: 'A', match: '' }] })).toEqual([
+      { path: 'pairs', message: 'Matching question needs at least 2 pairs' },
+      { path: 'pairs[0]', message: 'Pair needs an id, text and match' }
+    ]);
+    expect(getAnswerKeyIssues('hotspot', {
+      hotspot: { url: '/karta.png', alt: '', regions: [{ id: 'x', label: 'X', shape: 'circle', coords: [50, 50] }] }
+    })).toEqual([
+      { path: 'hotspot.alt', message: 'Hotspot image needs alt text' },
+      { path: 'hotspot.regions', message: 'Hotspot question has no correct region' },
+      { path: 'hotspot.regions[0].coords', message: "Invalid coords for shape 'circle'" }
+    ]);
+    expect(getAnswerKeyIssues('hotspot', { hotspot: { url: '/blankett.png', alt: 'Blankett', regions } })).toEqual([]);
+  });
+});
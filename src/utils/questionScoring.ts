@@ -0,0 +1,358 @@
+/**
+ * Question Scoring
+ * Scores the question types answered against an answer key instead of by picking options:
+ * free text (normalized, synonym and pattern matching), numeric with tolerance, ordering,
+ * matching pairs and image hotspots. Ordering and matching give partial credit per item unless
+ * the question asks for all or nothing; the other types are either right or wrong.
+ */
+
+import type { HotspotRegion, OrderingItem, QuizAnswerType, QuizQuestion } from '../types/game-manifest';
+import type { ManifestSchemaIssue } from './manifestLoader';
+import { createSeededRandom, shuffleWithRandom } from './questionPools';
+
+export type InteractiveAnswerType = Exclude<QuizAnswerType, 'single' | 'multiple' | 'true_false'>;
+
+export const INTERACTIVE_ANSWER_TYPES: readonly InteractiveAnswerType[] = [
+  'free_text', 'numeric', 'ordering', 'matching', 'hotspot'
+];
+
+export type QuestionAnswerKey = Pick<QuizQuestion, 'freeText' | 'numeric' | 'items' | 'pairs' | 'hotspot' | 'scoring'>;
+
+export type QuestionResponse =
+  | { type: 'free_text'; text: string }
+  | { type: 'numeric'; text: string } // As typed, e.g. "1 234,5"
+  | { type: 'ordering'; itemIds: string[] }
+  | { type: 'matching'; matches: Record<string, string> } // Pair id → id of the pair whose match was chosen
+  | { type: 'hotspot'; regionId: string | null }; // null when the learner clicked outside every region
+
+export interface QuestionScore {
+  credit: number; // Share of the question's points earned (0-1)
+  correct: boolean;
+}
+
+export const isInteractiveAnswerType = (type: unknown): type is InteractiveAnswerType =>
+  INTERACTIVE_ANSWER_TYPES.includes(type as InteractiveAnswerType);
+
+const NO_CREDIT: QuestionScore = { credit: 0, correct: false };
+
+const allOrNothing = (correct: boolean): QuestionScore => ({ credit: correct ? 1 : 0, correct });
+
+/**
+ * Normalize free text for comparison: Unicode composition, case, punctuation and whitespace
+ * Letters such as å, ä and ö are kept, since they change the meaning of Swedish words
+ */
+export const normalizeFreeText = (text: string, caseSensitive = false): string => {
+  const composed = text.normalize('NFC');
+  return (caseSensitive ? composed : composed.toLocaleLowerCase('sv'))
+    .replace(/[\p{P}\p{S}]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// Replace every word of a synonym group with the group's first word
+const canonicalizeSynonyms = (text: string, groups: string[][], caseSensitive: boolean): string => {
+  if (groups.length === 0) return text;
+  const canonical = new Map<string, string>();
+  groups.forEach(group => {
+    const [first, ...rest] = group.map(word => normalizeFreeText(word, caseSensitive));
+    rest.forEach(word => canonical.set(word, first));
+  });
+  return text.split(' ').map(word => canonical.get(word) ?? word).join(' ');
+};
+
+/**
+ * Parse a typed number; accepts Swedish decimal commas and grouping spaces
+ */
+export const parseNumericAnswer = (text: string): number | null => {
+  const compact = text.replace(/\s/g, '').replace(',', '.').replace(/^−/, '-');
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(compact)) return null;
+  return Number(compact);
+};
+
+const isPointInPolygon = (x: number, y: number, coords: number[]): boolean => {
+  let inside = false;
+  for (let index = 0, previous = coords.length - 2; index < coords.length; previous = index, index += 2) {
+    const [xi, yi, xj, yj] = [coords[index], coords[index + 1], coords[previous], coords[previous + 1]];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const isPointInRegion = (region: HotspotRegion, x: number, y: number, aspectRatio = 1): boolean => {
+  const { coords } = region;
+  switch (region.shape) {
+    case 'rect':
+      return x >= Math.min(coords[0], coords[2]) && x <= Math.max(coords[0], coords[2]) &&
+        y >= Math.min(coords[1], coords[3]) && y <= Math.max(coords[1], coords[3]);
+    case 'circle': {
+      // The radius is relative to the width, so heights are scaled by the image's aspect ratio
+      const dx = x - coords[0];
+      const dy = (y - coords[1]) / aspectRatio;
+      return dx * dx + dy * dy <= coords[2] * coords[2];
+    }
+    case 'polygon':
+      return isPointInPolygon(x, y, coords);
+  }
+};
+
+/**
+ * Region under a point given in percent of the image; later regions are drawn on top, so they win
+ */
+export const findHotspotRegion = (
+  regions: HotspotRegion[],
+  x: number,
+  y: number,
+  aspectRatio = 1
+): HotspotRegion | null => {
+  for (let index = regions.length - 1; index >= 0; index--) {
+    if (isPointInRegion(regions[index], x, y, aspectRatio)) return regions[index];
+  }
+  return null;
+};
+
+/**
+ * Bounding box of a region in percent, used to place its keyboard target over the image
+ */
+export const getRegionBounds = (region: HotspotRegion): { left: number; top: number; width: number; height: number } => {
+  const { coords } = region;
+  if (region.shape === 'circle') {
+    return { left: coords[0] - coords[2], top: coords[1] - coords[2], width: coords[2] * 2, height: coords[2] * 2 };
+  }
+  const xs = coords.filter((_, index) => index % 2 === 0);
+  const ys = coords.filter((_, index) => index % 2 === 1);
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  return { left, top, width: Math.max(...xs) - left, height: Math.max(...ys) - top };
+};
+
+const partialCredit = (matched: number, total: number, key: QuestionAnswerKey): QuestionScore => {
+  if (total === 0) return NO_CREDIT;
+  const correct = matched === total;
+  if (key.scoring === 'all_or_nothing') return allOrNothing(correct);
+  return { credit: matched / total, correct };
+};
+
+/**
+ * Score a response against the answer key; a key without the data for the response type earns nothing
+ */
+export const scoreResponse = (key: QuestionAnswerKey, response: QuestionResponse): QuestionScore => {
+  switch (response.type) {
+    case 'free_text': {
+      if (!key.freeText) return NO_CREDIT;
+      const { accepted, synonyms = [], patterns = [], caseSensitive = false } = key.freeText;
+      const trimmed = response.text.trim();
+      if (!trimmed) return NO_CREDIT;
+
+      const answer = canonicalizeSynonyms(normalizeFreeText(trimmed, caseSensitive), synonyms, caseSensitive);
+      const matchesAccepted = accepted.some(text =>
+        canonicalizeSynonyms(normalizeFreeText(text, caseSensitive), synonyms, caseSensitive) === answer
+      );
+      const matchesPattern = patterns.some(pattern => {
+        try {
+          return new RegExp(pattern, caseSensitive ? 'u' : 'iu').test(trimmed);
+        } catch {
+          return false; // Reported by getAnswerKeyIssues
+        }
+      });
+      return allOrNothing(matchesAccepted || matchesPattern);
+    }
+
+    case 'numeric': {
+      if (!key.numeric) return NO_CREDIT;
+      const value = parseNumericAnswer(response.text);
+      if (value === null) return NO_CREDIT;
+      // Rounded so that 0.1 + 0.2 style float noise never decides an answer
+      const deviation = Math.round(Math.abs(value - key.numeric.value) * 1e9) / 1e9;
+      return allOrNothing(deviation <= (key.numeric.tolerance ?? 0));
+    }
+
+    case 'ordering': {
+      const items = key.items ?? [];
+      const inPlace = items.filter((item, index) => response.itemIds[index] === item.id).length;
+      return partialCredit(inPlace, items.length, key);
+    }
+
+    case 'matching': {
+      const pairs = key.pairs ?? [];
+      const matched = pairs.filter(pair => response.matches[pair.id] === pair.id).length;
+      return partialCredit(matched, pairs.length, key);
+    }
+
+    case 'hotspot': {
+      const region = key.hotspot?.regions.find(candidate => candidate.id === response.regionId);
+      return allOrNothing(region?.isCorrect === true);
+    }
+  }
+};
+
+/**
+ * Whether a response is complete enough to submit
+ */
+export const isResponseComplete = (key: QuestionAnswerKey, response: QuestionResponse | undefined): boolean => {
+  if (!response) return false;
+  switch (response.type) {
+    case 'free_text':
+      return response.text.trim().length > 0;
+    case 'numeric':
+      return parseNumericAnswer(response.text) !== null;
+    case 'ordering':
+      return response.itemIds.length > 0;
+    case 'matching':
+      return (key.pairs ?? []).every(pair => Boolean(response.matches[pair.id]));
+    case 'hotspot':
+      return true;
+  }
+};
+
+/**
+ * Shuffled start order of an ordering question, stable per question and never already correct
+ */
+export const getInitialOrder = (questionId: string, items: OrderingItem[]): string[] => {
+  const ids = items.map(item => item.id);
+  const shuffled = shuffleWithRandom(ids, createSeededRandom(questionId));
+  const solved = shuffled.every((id, index) => id === ids[index]);
+  return solved && ids.length > 1 ? [...shuffled.slice(1), shuffled[0]] : shuffled;
+};
+
+/**
+ * Response a question starts with; ordering questions are answerable as shown
+ */
+export const getDefaultResponse = (
+  questionId: string,
+  answerType: InteractiveAnswerType,
+  answerKey: QuestionAnswerKey
+): QuestionResponse | undefined =>
+  answerType === 'ordering'
+    ? { type: 'ordering', itemIds: getInitialOrder(questionId, answerKey.items ?? []) }
+    : undefined;
+
+/**
+ * Flatten a response into the selected_answers strings of quiz results
+ */
+export const describeResponse = (response: QuestionResponse): string[] => {
+  switch (response.type) {
+    case 'free_text':
+    case 'numeric':
+      return [response.text];
+    case 'ordering':
+      return response.itemIds;
+    case 'matching':
+      return Object.entries(response.matches).map(([pairId, matchId]) => `${pairId}:${matchId}`);
+    case 'hotspot':
+      return response.regionId ? [response.regionId] : [];
+  }
+};
+
+const COORD_COUNT: Record<HotspotRegion['shape'], (count: number) => boolean> = {
+  rect: count => count === 4,
+  circle: count => count === 3,
+  polygon: count => count >= 6 && count % 2 === 0
+};
+
+const checkUniqueIds = (
+  entries: { id?: unknown }[],
+  path: string,
+  issues: ManifestSchemaIssue[]
+): void => {
+  const seen = new Set<unknown>();
+  entries.forEach((entry, index) => {
+    if (seen.has(entry.id)) issues.push({ path: `${path}[${index}].id`, message: `Duplicate id '${String(entry.id)}'` });
+    seen.add(entry.id);
+  });
+};
+
+/**
+ * Check the answer key of an interactive question; paths are relative to the question
+ * Defensive about its input, since the DevTeam validator passes raw manifest questions
+ */
+export const getAnswerKeyIssues = (answerType: InteractiveAnswerType, key: QuestionAnswerKey): ManifestSchemaIssue[] => {
+  const issues: ManifestSchemaIssue[] = [];
+  const isText = (value: unknown): boolean => typeof value === 'string' && value.trim().length > 0;
+
+  switch (answerType) {
+    case 'free_text': {
+      const freeText = key.freeText;
+      const accepted = Array.isArray(freeText?.accepted) ? freeText.accepted : [];
+      const patterns = Array.isArray(freeText?.patterns) ? freeText.patterns : [];
+      if (!accepted.some(isText) && patterns.length === 0) {
+        issues.push({ path: 'freeText', message: 'Free text question needs accepted answers or patterns' });
+      }
+      patterns.forEach((pattern, index) => {
+        try {
+          new RegExp(pattern, 'u');
+        } catch {
+          issues.push({ path: `freeText.patterns[${index}]`, message: `Invalid pattern '${String(pattern)}'` });
+        }
+      });
+      (Array.isArray(freeText?.synonyms) ? freeText.synonyms : []).forEach((group, index) => {
+        if (!Array.isArray(group) || group.filter(isText).length < 2) {
+          issues.push({ path: `freeText.synonyms[${index}]`, message: 'Synonym group needs at least 2 words' });
+        }
+      });
+      break;
+    }
+
+    case 'numeric': {
+      const numeric = key.numeric;
+      if (typeof numeric?.value !== 'number' || !Number.isFinite(numeric.value)) {
+        issues.push({ path: 'numeric.value', message: 'Numeric question needs a numeric value' });
+      }
+      if (numeric?.tolerance !== undefined && !(typeof numeric.tolerance === 'number' && numeric.tolerance >= 0)) {
+        issues.push({ path: 'numeric.tolerance', message: 'Tolerance must be a number of at least 0' });
+      }
+      break;
+    }
+
+    case 'ordering':
+    case 'matching': {
+      const field = answerType === 'ordering' ? 'items' : 'pairs';
+      const entries = (Array.isArray(key[field]) ? key[field] : []) as unknown as Record<string, unknown>[];
+      if (entries.length < 2) {
+        issues.push({ path: field, message: `${answerType === 'ordering' ? 'Ordering' : 'Matching'} question needs at least 2 ${field}` });
+      }
+      entries.forEach((entry, index) => {
+        const complete = isText(entry?.id) && isText(entry?.text) && (field === 'items' || isText(entry?.match));
+        if (!complete) {
+          issues.push({
+            path: `${field}[${index}]`,
+            message: field === 'items' ? 'Item needs an id and text' : 'Pair needs an id, text and match'
+          });
+        }
+      });
+      checkUniqueIds(entries, field, issues);
+      break;
+    }
+
+    case 'hotspot': {
+      const hotspot = key.hotspot;
+      if (!isText(hotspot?.url)) {
+        issues.push({ path: 'hotspot.url', message: 'Hotspot question needs an image url' });
+      }
+      if (!isText(hotspot?.alt)) {
+        issues.push({ path: 'hotspot.alt', message: 'Hotspot image needs alt text' });
+      }
+      const regions: HotspotRegion[] = Array.isArray(hotspot?.regions) ? hotspot.regions : [];
+      if (!regions.some(region => region?.isCorrect === true)) {
+        issues.push({ path: 'hotspot.regions', message: 'Hotspot question has no correct region' });
+      }
+      regions.forEach((region, index) => {
+        const path = `hotspot.regions[${index}]`;
+        if (!isText(region?.id) || !isText(region?.label)) {
+          issues.push({ path, message: 'Region needs an id and label' });
+        }
+        const coords = Array.isArray(region?.coords) ? region.coords : [];
+        const validCount = region?.shape in COORD_COUNT && COORD_COUNT[region.shape](coords.length);
+        if (!validCount) {
+          issues.push({ path: `${path}.coords`, message: `Invalid coords for shape '${String(region?.shape)}'` });
+        } else if (coords.some(coord => typeof coord !== 'number' || !(coord >= 0 && coord <= 100))) {
+          issues.push({ path: `${path}.coords`, message: 'Coords must be percentages between 0 and 100' });
+        }
+      });
+      checkUniqueIds(regions, 'hotspot.regions', issues);
+      break;
+    }
+  }
+  return issues;
+};
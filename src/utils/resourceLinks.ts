@@ -0,0 +1,47 @@
+/**
+ * Resource Link Safety Utility
+ * Validates and classifies ResourceScene URLs before they are rendered or opened
+ */
+
+export interface SafeResourceUrl {
+  href: string;
+  isExternal: boolean;
+  hostname: string;
+}
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:'];
+
+/**
+ * Resolve a resource URL against the current origin and reject unsafe schemes
+ * (javascript:, data:, file: ...). Returns null when the URL must not be rendered.
+ */
+export const resolveResourceUrl = (
+  url: string | undefined,
+  baseOrigin: string = typeof window !== 'undefined' ? window.location.origin : 'https://games.diginativa.se'
+): SafeResourceUrl | null => {
+  if (!url || typeof url !== 'string') {
+    return null;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim(), baseOrigin);
+  } catch {
+    return null;
+  }
+
+  if (!ALLOWED_PROTOCOLS.includes(parsed.protocol)) {
+    return null;
+  }
+
+  return {
+    href: parsed.href,
+    isExternal: parsed.origin !== new URL(baseOrigin).origin,
+    hostname: parsed.hostname
+  };
+};
+
+/**
+ * Check a URL for manifest validation
+ */
+export const isSafeResourceUrl = (url: string | undefined): boolean => resolveResourceUrl(url) !== null;
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { localReturnPath } from './returnUrl';
+
+describe('returnUrl', () => {
+  const origin = 'https://games.diginativa.se';
+
+  it('keeps local paths with their query and hash', () => {
+    expect(localReturnPath('/dashboard?tab=results#latest', origin)).toBe('/dashboard?tab=results#latest');
+    expect(localReturnPath('/games/../profile', origin)).toBe('/profile');
+  });
+
+  it('rejects other origins, including the forms browsers treat as protocol-relative', () => {
+    ['//evil.example', '/\\evil.example', '/\\/evil.example', 'https://evil.example/', 'javascript:alert(1)', 'dashboard']
+      .forEach(returnUrl => expect(localReturnPath(returnUrl, origin)).toBeUndefined());
+    expect(localReturnPath(undefined, origin)).toBeUndefined();
+    expect(localReturnPath(['/dashboard'], origin)).toBeUndefined();
+  });
+});
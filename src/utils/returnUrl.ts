@@ -0,0 +1,19 @@
+/**
+ * Return URL Safety Utility
+ * Post-login redirects only go back to pages of this application
+ */
+
+/**
+ * The path, query and hash of a return URL on the given origin, or undefined for anything else.
+ * Parsing the way browsers do also rejects protocol-relative forms such as //evil.example and /\evil.example.
+ */
+export const localReturnPath = (returnUrl: unknown, origin: string): string | undefined => {
+  if (typeof returnUrl !== 'string' || !returnUrl.startsWith('/')) return undefined;
+
+  try {
+    const url = new URL(returnUrl, origin);
+    return url.origin === new URL(origin).origin ? `${url.pathname}${url.search}${url.hash}` : undefined;
+  } catch {
+    return undefined;
+  }
+};
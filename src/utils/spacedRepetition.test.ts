@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { MANIFEST_SCHEMA_VERSION, type GameManifest } from '../types/game-manifest';
+import {
+  applyReview,
+  buildReviewManifest,
+  getDueCards,
+  getRetentionSummary,
+  REVIEW_SCENE_ID,
+  type ReviewCard,
+  type ReviewEvent
+} from './spacedRepetition';
+
+const item = { itemId: 'gdpr-101:q1', gameId: 'gdpr-101', sceneId: 'quiz-1', questionId: 'q1' };
+
+const answer = (at: string, correct: boolean): ReviewEvent => ({
+  at,
+  correct,
+  quality: correct ? 4 : 1,
+  source: 'review'
+});
+
+const card = (overrides: Partial<ReviewCard>): ReviewCard => ({
+  ...applyReview(item, answer('2026-03-01T08:00:00.000Z', true)),
+  ...overrides
+});
+
+describe('applyReview', () => {
+  it('spaces remembered items out with the SM-2 intervals', () => {
+    let reviewed = applyReview(item, answer('2026-03-01T08:00:00.000Z', true));
+    expect(reviewed).toMatchObject({ interval: 1, repetitions: 1, dueAt: '2026-03-02T08:00:00.000Z' });
+
+    reviewed = applyReview(reviewed, answer('2026-03-02T08:00:00.000Z', true));
+    expect(reviewed).toMatchObject({ interval: 6, repetitions: 2, dueAt: '2026-03-08T08:00:00.000Z' });
+
+    reviewed = applyReview(reviewed, answer('2026-03-08T08:00:00.000Z', true));
+    expect(reviewed.interval).toBe(15); // 6 × 2.5
+    expect(reviewed.easeFactor).toBe(2.5);
+    expect(reviewed.history).toHaveLength(3);
+  });
+
+  it('starts a forgotten item over and lowers its ease', () => {
+    let reviewed = applyReview(item, answer('2026-03-01T08:00:00.000Z', true));
+    reviewed = applyReview(reviewed, answer('2026-03-02T08:00:00.000Z', true));
+    reviewed = applyReview(reviewed, answer('2026-03-08T08:00:00.000Z', false));
+
+    expect(reviewed).toMatchObject({ interval: 1, repetitions: 0, lapses: 1, dueAt: '2026-03-09T08:00:00.000Z' });
+    expect(reviewed.easeFactor).toBeLessThan(2.5);
+  });
+
+  it('does not count a miss on a new item as a lapse', () => {
+    expect(applyReview(item, answer('2026-03-01T08:00:00.000Z', false)).lapses).toBe(0);
+  });
+});
+
+describe('getDueCards', () => {
+  it('puts missed items first, then the most overdue', () => {
+    const cards = [
+      card({ itemId: 'a', dueAt: '2026-03-03T08:00:00.000Z' }),
+      card({ itemId: 'b', dueAt: '2026-03-05T08:00:00.000Z', history: [answer('2026-03-04T08:00:00.000Z', false)] }),
+      card({ itemId: 'c', dueAt: '2026-03-02T08:00:00.000Z' }),
+      card({ itemId: 'd', dueAt: '2026-04-01T08:00:00.000Z' })
+    ];
+
+    expect(getDueCards(cards, new Date('2026-03-10T08:00:00.000Z')).map(due => due.itemId)).toEqual(['b', 'c', 'a']);
+  });
+});
+
+describe('getRetentionSummary', () => {
+  it('measures retention on answers after the first one', () => {
+    let first = applyReview(item, answer('2026-03-01T08:00:00.000Z', false));
+    first = applyReview(first, answer('2026-03-02T08:00:00.000Z', true));
+    first = applyReview(first, answer('2026-03-03T08:00:00.000Z', false));
+    const second = applyReview({ ...item, itemId: 'gdpr-101:q2', questionId: 'q2' }, answer('2026-03-01T08:00:00.000Z', true));
+
+    expect(getRetentionSummary([first, second], new Date('2026-03-03T09:00:00.000Z'))).toEqual({
+      items: 2,
+      dueItems: 1,
+      reviews: 2,
+      retention: 0.5,
+      matureItems: 0
+    });
+    expect(getRetentionSummary([second]).retention).toBeNull();
+  });
+});
+
+describe('buildReviewManifest', () => {
+  const manifest: GameManifest = {
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
+    gameId: 'gdpr-101',
+    metadata: { title: 'GDPR', description: 'Grunder', duration: '10 minuter', language: 'sv' },
+    startScene: 'quiz-1',
+    scenes: [{
+      id: 'quiz-1',
+      type: 'quiz',
+      title: 'Quiz',
+      questions: [{ id: 'q1', text: 'Vad är en personuppgift?', options: [{ id: 'a', text: 'Ett namn', isCorrect: true }] }]
+    }],
+    questionBanks: {
+      basics: [{ id: 'q2', text: 'Vad är samtycke?', options: [{ id: 'a', text: 'Ett medgivande', isCorrect: true }] }]
+    }
+  };
+
+  it('collects due questions from scenes and question banks under their item ids', () => {
+    const review = buildReviewManifest(
+      [card({}), card({ itemId: 'gdpr-101:q2', questionId: 'q2' }), card({ itemId: 'other:q1', gameId: 'other' })],
+      { 'gdpr-101': manifest }
+    );
+
+    expect(review?.startScene).toBe(REVIEW_SCENE_ID);
+    const scene = review?.scenes[0];
+    expect(scene?.type === 'quiz' && scene.questions.map(question => [question.id, question.text])).toEqual([
+      ['gdpr-101:q1', 'Vad är en personuppgift?'],
+      ['gdpr-101:q2', 'Vad är samtycke?']
+    ]);
+  });
+
+  it('returns null when none of the cards can be found', () => {
+    expect(buildReviewManifest([card({ gameId: 'other' })], { 'gdpr-101': manifest })).toBeNull();
+  });
+});
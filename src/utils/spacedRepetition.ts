@@ -0,0 +1,180 @@
+/**
+ * Spaced Repetition
+ * SM-2 scheduling of quiz items per learner: every answer, in a game or a review, grades the
+ * item from 0 to 5 and moves its next review further out the better it is remembered. Cards keep
+ * their full answer history, which is the retention evidence compliance reports are built from.
+ */
+
+import {
+  MANIFEST_SCHEMA_VERSION,
+  type GameManifest,
+  type QuizQuestion,
+  type QuizScene
+} from '../types/game-manifest';
+
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5; // SM-2 grades; 3 and above count as remembered
+
+export interface ReviewEvent {
+  at: string; // ISO timestamp
+  correct: boolean;
+  quality: ReviewQuality;
+  source: 'game' | 'review';
+}
+
+export interface ReviewCard {
+  itemId: string; // `${gameId}:${questionId}`, see getReviewItemId
+  gameId: string;
+  sceneId: string;
+  questionId: string;
+  easeFactor: number;
+  interval: number; // Days until the next review
+  repetitions: number; // Reviews in a row rated 3 or above
+  lapses: number; // Times the item was forgotten after being learned
+  dueAt: string;
+  lastReviewedAt: string;
+  history: ReviewEvent[];
+}
+
+export interface RetentionSummary {
+  items: number;
+  dueItems: number;
+  reviews: number; // Answers after each item's first one
+  retention: number | null; // Share of those answers that were correct (0-1); null before any review
+  matureItems: number; // Items remembered with an interval of 21 days or more
+}
+
+export const INITIAL_EASE_FACTOR = 2.5;
+const MINIMUM_EASE_FACTOR = 1.3;
+const MATURE_INTERVAL = 21; // Days
+const DAY = 24 * 60 * 60 * 1000;
+
+export const REVIEW_GAME_ID = 'spaced-review';
+export const REVIEW_SCENE_ID = 'review';
+
+export const getReviewItemId = (gameId: string, questionId: string): string => `${gameId}:${questionId}`;
+
+/**
+ * Grade an answer: right answers are a confident 4, partly right ones 2 and wrong ones 1
+ */
+export const getReviewQuality = (correct: boolean, partlyCorrect = false): ReviewQuality => {
+  if (correct) return 4;
+  return partlyCorrect ? 2 : 1;
+};
+
+/**
+ * Apply one graded answer with the SM-2 rules; a missing card starts as a new item
+ */
+export const applyReview = (
+  card: ReviewCard | Pick<ReviewCard, 'itemId' | 'gameId' | 'sceneId' | 'questionId'>,
+  event: ReviewEvent
+): ReviewCard => {
+  const previous: ReviewCard = 'history' in card
+    ? card
+    : {
+      ...card,
+      easeFactor: INITIAL_EASE_FACTOR,
+      interval: 0,
+      repetitions: 0,
+      lapses: 0,
+      dueAt: event.at,
+      lastReviewedAt: event.at,
+      history: []
+    };
+  const { quality } = event;
+
+  let { repetitions, interval, lapses } = previous;
+  if (quality >= 3) {
+    interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * previous.easeFactor);
+    repetitions++;
+  } else {
+    if (repetitions > 0) lapses++;
+    repetitions = 0;
+    interval = 1;
+  }
+  const easeFactor = Math.max(
+    MINIMUM_EASE_FACTOR,
+    previous.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+  );
+
+  return {
+    ...previous,
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    interval,
+    repetitions,
+    lapses,
+    dueAt: new Date(new Date(event.at).getTime() + interval * DAY).toISOString(),
+    lastReviewedAt: event.at,
+    history: [...previous.history, event]
+  };
+};
+
+const lastAnswerMissed = (card: ReviewCard): boolean => card.history[card.history.length - 1]?.correct === false;
+
+/**
+ * Cards due at a moment, missed items first, then the most overdue
+ */
+export const getDueCards = (cards: ReviewCard[], now: Date = new Date()): ReviewCard[] =>
+  cards
+    .filter(card => new Date(card.dueAt).getTime() <= now.getTime())
+    .sort((a, b) =>
+      Number(lastAnswerMissed(b)) - Number(lastAnswerMissed(a)) || a.dueAt.localeCompare(b.dueAt)
+    );
+
+export const getRetentionSummary = (cards: ReviewCard[], now: Date = new Date()): RetentionSummary => {
+  const reviews = cards.flatMap(card => card.history.slice(1));
+  return {
+    items: cards.length,
+    dueItems: getDueCards(cards, now).length,
+    reviews: reviews.length,
+    retention: reviews.length > 0 ? reviews.filter(event => event.correct).length / reviews.length : null,
+    matureItems: cards.filter(card => card.repetitions > 0 && card.interval >= MATURE_INTERVAL).length
+  };
+};
+
+// Quiz questions by id, from scenes and question banks
+const indexQuestions = (manifest: GameManifest): Map<string, QuizQuestion> => {
+  const questions = new Map<string, QuizQuestion>();
+  Object.values(manifest.questionBanks ?? {}).flat().forEach(question => questions.set(question.id, question));
+  manifest.scenes
+    .filter((scene): scene is QuizScene => scene.type === 'quiz')
+    .forEach(scene => scene.questions.forEach(question => questions.set(question.id, question)));
+  return questions;
+};
+
+/**
+ * Assemble a short quiz game from due cards across games; questions keep their content but take
+ * the card's item id, so the review results map straight back onto the cards
+ * Cards whose game or question is no longer available are left out
+ */
+export const buildReviewManifest = (
+  cards: ReviewCard[],
+  manifests: Record<string, GameManifest>,
+  options: { limit?: number; title?: string } = {}
+): GameManifest | null => {
+  const indexes = new Map<string, Map<string, QuizQuestion>>();
+  const questions: QuizQuestion[] = [];
+
+  for (const card of cards) {
+    if (questions.length >= (options.limit ?? 10)) break;
+    const manifest = manifests[card.gameId];
+    if (!manifest) continue;
+    if (!indexes.has(card.gameId)) indexes.set(card.gameId, indexQuestions(manifest));
+    const question = indexes.get(card.gameId)!.get(card.questionId);
+    if (question) questions.push({ ...question, id: card.itemId });
+  }
+  if (questions.length === 0) return null;
+
+  const title = options.title ?? 'Repetition';
+  return {
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
+    gameId: REVIEW_GAME_ID,
+    metadata: {
+      title,
+      description: 'Frågor från dina tidigare spel som är dags att repetera',
+      duration: `${Math.max(1, Math.ceil(questions.length / 2))} minuter`,
+      language: 'sv'
+    },
+    startScene: REVIEW_SCENE_ID,
+    scenes: [{ id: REVIEW_SCENE_ID, type: 'quiz', title, questions, showFeedback: true }]
+  };
+};
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { createStatusList, decodeStatusList, encodeStatusList, getStatusBit, setStatusBit, STATUS_LIST_SIZE } from './statusList';
+
+describe('statusList', () => {
+  it('numbers bits from the most significant bit of the first byte', () => {
+    const list = setStatusBit(createStatusList(16), 1, true);
+
+    expect(list[0]).toBe(0b01000000);
+    expect(getStatusBit(list, 1)).toBe(true);
+    expect(getStatusBit(list, 0)).toBe(false);
+    expect(getStatusBit(setStatusBit(list, 1, false), 1)).toBe(false);
+  });
+
+  it('leaves the original list unchanged and rejects indexes outside the list', () => {
+    const list = createStatusList(8);
+    setStatusBit(list, 3, true);
+
+    expect(getStatusBit(list, 3)).toBe(false);
+    expect(() => getStatusBit(list, 8)).toThrow('out of range');
+    expect(() => createStatusList(12)).toThrow('multiple of 8');
+  });
+
+  it('round-trips the default list through GZIP and base64url compactly', async () => {
+    const list = setStatusBit(setStatusBit(createStatusList(), 0, true), STATUS_LIST_SIZE - 1, true);
+    const encoded = await encodeStatusList(list);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(encoded.length).toBeLessThan(200);
+    const decoded = await decodeStatusList(encoded);
+    expect(decoded).toHaveLength(STATUS_LIST_SIZE / 8);
+    expect(getStatusBit(decoded, 0)).toBe(true);
+    expect(getStatusBit(decoded, STATUS_LIST_SIZE - 1)).toBe(true);
+    expect(getStatusBit(decoded, 1)).toBe(false);
+  });
+});
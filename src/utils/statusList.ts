@@ -0,0 +1,72 @@
+/**
+ * Status List Utility
+ * Revocation bitstrings in the W3C StatusList2021 format: one bit per issued credential, set when
+ * it is revoked, published GZIP-compressed and base64url-encoded so verifiers can check status
+ * without revealing which credential they are looking at
+ */
+
+import { base64UrlDecode, base64UrlEncode } from './jws';
+
+// 16 KB, the minimum list size StatusList2021 recommends for herd privacy
+export const STATUS_LIST_SIZE = 131072;
+
+const pipeBytes = async (data: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const reader = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(data);
+      controller.close();
+    }
+  }).pipeThrough(transform).getReader();
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return bytes;
+};
+
+export const createStatusList = (size: number = STATUS_LIST_SIZE): Uint8Array => {
+  if (size <= 0 || size % 8 !== 0) {
+    throw new Error('Status list size must be a positive multiple of 8');
+  }
+  return new Uint8Array(size / 8);
+};
+
+const checkIndex = (list: Uint8Array, index: number): void => {
+  if (!Number.isInteger(index) || index < 0 || index >= list.length * 8) {
+    throw new Error(`Status list index ${index} is out of range`);
+  }
+};
+
+// Bits are numbered from the most significant bit of the first byte, as in the specification
+export const getStatusBit = (list: Uint8Array, index: number): boolean => {
+  checkIndex(list, index);
+  return (list[index >> 3] & (0x80 >> (index & 7))) !== 0;
+};
+
+export const setStatusBit = (list: Uint8Array, index: number, value: boolean): Uint8Array => {
+  checkIndex(list, index);
+  const next = list.slice();
+  next[index >> 3] = value ? next[index >> 3] | (0x80 >> (index & 7)) : next[index >> 3] & ~(0x80 >> (index & 7));
+  return next;
+};
+
+/**
+ * The `encodedList` value of a status list credential
+ */
+export const encodeStatusList = async (list: Uint8Array): Promise<string> =>
+  base64UrlEncode(await pipeBytes(list, new CompressionStream('gzip')));
+
+export const decodeStatusList = async (encodedList: string): Promise<Uint8Array> =>
+  pipeBytes(base64UrlDecode(encodedList), new DecompressionStream('gzip'));
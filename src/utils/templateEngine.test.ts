@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getTemplateIssues,
+  getTemplateReferences,
+  parseTemplate,
+  renderTemplate,
+  renderTemplatesInObject,
+  TemplateSyntaxError
+} from './templateEngine';
+
+const learner = { PLAYER_NAME: 'Anna', MUNICIPALITY: 'Malmö stad', DEPARTMENT: 'Socialförvaltningen', ROLE: 'Handläggare' };
+
+describe('renderTemplate', () => {
+  it('substitutes learner values and leaves unknown placeholders visible', () => {
+    expect(renderTemplate('Hej {{PLAYER_NAME}} på {{ DEPARTMENT }}, {{MUNICIPALITY}}', learner))
+      .toBe('Hej Anna på Socialförvaltningen, Malmö stad');
+    expect(renderTemplate('Ring {{SUPPORT_PHONE}}', learner)).toBe('Ring {{SUPPORT_PHONE}}');
+    expect(renderTemplate('Ring {{SUPPORT_PHONE}}', learner, { missing: 'empty' })).toBe('Ring ');
+  });
+
+  it('formats numbers, dates and plurals for the locale', () => {
+    const values = { score: 1234.5, share: 0.8, deadline: new Date(2025, 4, 25), cases: 1 };
+
+    expect(renderTemplate('{{score}} poäng', values)).toBe('1 234,5 poäng');
+    expect(renderTemplate('{{score}} points', values, { locale: 'en' })).toBe('1,234.5 points');
+    expect(renderTemplate('{{share, number, percent}}', values, { locale: 'en' })).toBe('80%');
+    expect(renderTemplate('Senast {{deadline, date, long}}', values)).toBe('Senast 25 maj 2025');
+    expect(renderTemplate('{{cases, plural, one {# ärende} other {# ärenden}}}', values)).toBe('1 ärende');
+    expect(renderTemplate('{{cases, plural, one {# ärende} other {# ärenden}}}', { cases: 3 })).toBe('3 ärenden');
+  });
+
+  it('renders conditionals with game variables and scene visits', () => {
+    const template = '{{#if trust >= 3 && visited(\'intro\')}}Bra jobbat, {{PLAYER_NAME}}!{{else}}Försök igen{{/if}}';
+
+    expect(renderTemplate(template, { ...learner, trust: 4 }, { visited: sceneId => sceneId === 'intro' }))
+      .toBe('Bra jobbat, Anna!');
+    expect(renderTemplate(template, { ...learner, trust: 1 }, { visited: () => true })).toBe('Försök igen');
+    // Unknown variables read as false at play time
+    expect(renderTemplate('{{#if unknown > 1}}ja{{else}}nej{{/if}}', {})).toBe('nej');
+  });
+
+  it('escapes literal braces and never expands substituted values', () => {
+    expect(renderTemplate('Skriv \\{{PLAYER_NAME}} i mallen', learner)).toBe('Skriv {{PLAYER_NAME}} i mallen');
+    expect(renderTemplate('Hej {{PLAYER_NAME}}', { PLAYER_NAME: '{{ROLE}}', ROLE: 'admin' })).toBe('Hej {{ROLE}}');
+    expect(renderTemplate('Hej {{PLAYER_NAME}}', { PLAYER_NAME: '<b>Anna</b>' }, { escape: 'html' }))
+      .toBe('Hej &lt;b&gt;Anna&lt;/b&gt;');
+  });
+
+  it('returns text with invalid syntax unchanged', () => {
+    expect(renderTemplate('Hej {{#if score > 1}}du', { score: 2 })).toBe('Hej {{#if score > 1}}du');
+  });
+});
+
+describe('parseTemplate', () => {
+  it('reports syntax errors with their position', () => {
+    expect(() => parseTemplate('Hej {{PLAYER_NAME')).toThrow(TemplateSyntaxError);
+    expect(() => parseTemplate('{{else}}')).toThrow('{{else}} without a matching {{#if}} at position 0');
+    expect(() => parseTemplate('a {{#if score >}}b{{/if}}')).toThrow(/Invalid condition 'score >'/);
+    expect(() => parseTemplate('{{score, banana}}')).toThrow("Invalid placeholder '{{score, banana}}'");
+  });
+});
+
+describe('getTemplateReferences', () => {
+  it('collects names from values, plural options and conditions', () => {
+    expect(getTemplateReferences(
+      '{{minutes, plural, other {# min {seconds} s}}} {{#if answered(\'quiz\', \'a\')}}{{ROLE}}{{/if}}'
+    )).toEqual({ names: ['minutes', 'seconds', 'ROLE'], scenes: ['quiz'] });
+  });
+});
+
+describe('renderTemplatesInObject', () => {
+  it('personalizes every string of a scene', () => {
+    const scene = {
+      id: 'intro',
+      title: 'Välkommen till {{MUNICIPALITY}}',
+      messages: [{ characterId: 'anna', text: 'Hej {{PLAYER_NAME}}!' }],
+      settings: { timeLimit: 30 }
+    };
+
+    expect(renderTemplatesInObject(scene, learner)).toEqual({
+      id: 'intro',
+      title: 'Välkommen till Malmö stad',
+      messages: [{ characterId: 'anna', text: 'Hej Anna!' }],
+      settings: { timeLimit: 30 }
+    });
+  });
+});
+
+describe('getTemplateIssues', () => {
+  it('reports unknown placeholders, unknown scenes and syntax errors by path', () => {
+    const issues = getTemplateIssues({
+      metadata: { title: 'Kurs för {{ROLE}}', templateVariables: ['SUPPORT_EMAIL'] },
+      variables: { budget: { type: 'number', initial: 100 } },
+      scenes: [{
+        id: 'intro',
+        type: 'dialogue',
+        messages: [
+          { text: '{{budget, number}} kr kvar, kontakta {{SUPPORT_EMAIL}} ({{score}} poäng)' },
+          { text: '{{#if visited(\'finale\')}}{{KOMMUN}}{{/if}}' },
+          { text: { sv: 'Hej {{PLAYER_NAME}', en: 'Hi {{PLAYER_NAME}}' } }
+        ]
+      }]
+    });
+
+    expect(issues).toEqual([
+      { path: 'scenes[0].messages[1].text', message: "Unknown placeholder 'KOMMUN'" },
+      { path: 'scenes[0].messages[1].text', message: "Unknown scene 'finale'" },
+      { path: 'scenes[0].messages[2].text.sv', message: 'Unclosed placeholder at position 4' }
+    ]);
+  });
+});
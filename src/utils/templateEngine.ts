@@ -0,0 +1,348 @@
+/**
+ * Template Engine
+ * Personalizes manifest text per municipality and learner at play time, e.g.
+ * "Hej {{PLAYER_NAME}}! {{#if percentage >= 80}}Snyggt!{{else}}Försök igen{{/if}}"
+ *
+ * Placeholders: {{NAME}} for learner values, game variables and built-ins such as {{score}}
+ * Formatting (ICU, see i18n/messageFormat): {{share, number, percent}}, {{deadline, date, long}},
+ *   {{cases, plural, one {# ärende} other {# ärenden}}}
+ * Conditionals: {{#if expression}}…{{else}}…{{/if}} using the navigation expression syntax
+ * Escaping: \{{ renders a literal {{; substituted values are never parsed as templates
+ */
+
+import { formatMessage, MessageFormatError, parseMessage, type MessagePart, type MessageValues } from '../i18n/messageFormat';
+import {
+  BUILTIN_IDENTIFIERS,
+  collectExpressionReferences,
+  evaluateNavigationExpression,
+  NavigationExpressionError,
+  parseNavigationExpression,
+  type ExpressionContext,
+  type ExpressionNode,
+  type ExpressionValue
+} from './navigationExpressions';
+import type { ManifestSchemaIssue } from './manifestLoader';
+import type { RawManifest } from './manifestMigrations';
+import { collectTranslatableFields, type TranslatableField } from './manifestTranslations';
+
+// Values the host fills in for every learner; other names must be game variables, built-ins or metadata.templateVariables
+export const TEMPLATE_VARIABLES = ['PLAYER_NAME', 'MUNICIPALITY', 'DEPARTMENT', 'ROLE'] as const;
+
+export type TemplateValues = MessageValues;
+
+export type TemplateNode =
+  | string
+  | { kind: 'value'; name: string; source: string; message: MessagePart[] }
+  | { kind: 'if'; source: string; condition: ExpressionNode; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface TemplateOptions {
+  locale?: string; // Number, date and plural formatting; defaults to Swedish
+  escape?: 'none' | 'html'; // HTML-escape substituted values; React output is already escaped
+  missing?: 'keep' | 'empty'; // Unknown values keep their placeholder visible by default
+  visited?: (sceneId: string) => boolean;
+  answered?: (sceneId: string, answerId: string) => boolean;
+}
+
+export class TemplateSyntaxError extends Error {
+  readonly template: string;
+  readonly position: number;
+
+  constructor(message: string, template: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'TemplateSyntaxError';
+    this.template = template;
+    this.position = position;
+  }
+}
+
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+const escapeHtml = (value: string): string => value.replace(/[&<>"']/g, char => HTML_ENTITIES[char]);
+
+const isObject = (value: unknown): value is RawManifest =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+export const hasTemplate = (text: string): boolean => text.includes('{{');
+
+// Index of the "}}" closing the tag opened at start; braces of ICU options nest inside the tag
+const findTagEnd = (template: string, start: number): number => {
+  let depth = 0;
+  for (let index = start + 2; index < template.length; index++) {
+    const char = template[index];
+    if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      if (depth > 0) {
+        depth--;
+      } else if (template[index + 1] === '}') {
+        return index;
+      }
+    }
+  }
+  throw new TemplateSyntaxError('Unclosed placeholder', template, start);
+};
+
+const parseValueTag = (content: string, template: string, position: number): TemplateNode => {
+  const source = `{{${content}}}`;
+  if (NAME.test(content)) {
+    return { kind: 'value', name: content, source, message: [{ type: 'argument', name: content }] };
+  }
+
+  let message: MessagePart[];
+  try {
+    message = parseMessage(`{${content}}`);
+  } catch (error) {
+    if (!(error instanceof MessageFormatError)) throw error;
+    throw new TemplateSyntaxError(`Invalid placeholder '${source}'`, template, position);
+  }
+  const [part] = message;
+  if (message.length !== 1 || typeof part === 'string' || part.type === 'pound' || !NAME.test(part.name)) {
+    throw new TemplateSyntaxError(`Invalid placeholder '${source}'`, template, position);
+  }
+  return { kind: 'value', name: part.name, source, message };
+};
+
+/**
+ * Parse a template into text, value and conditional nodes; throws TemplateSyntaxError
+ */
+export const parseTemplate = (template: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const open: { node: Extract<TemplateNode, { kind: 'if' }>; position: number; inElse: boolean }[] = [];
+  let text = '';
+
+  const current = (): TemplateNode[] => {
+    const frame = open[open.length - 1];
+    if (!frame) return root;
+    return frame.inElse ? frame.node.otherwise : frame.node.then;
+  };
+  const flushText = () => {
+    if (text) current().push(text);
+    text = '';
+  };
+
+  let index = 0;
+  while (index < template.length) {
+    if (template.startsWith('\\{{', index)) {
+      text += '{{';
+      index += 3;
+      continue;
+    }
+    if (!template.startsWith('{{', index)) {
+      text += template[index];
+      index++;
+      continue;
+    }
+
+    const end = findTagEnd(template, index);
+    const content = template.slice(index + 2, end).trim();
+    flushText();
+
+    if (content.startsWith('#if ')) {
+      const expression = content.slice(4).trim();
+      let condition: ExpressionNode;
+      try {
+        condition = parseNavigationExpression(expression);
+      } catch (error) {
+        if (!(error instanceof NavigationExpressionError)) throw error;
+        throw new TemplateSyntaxError(`Invalid condition '${expression}': ${error.message}`, template, index);
+      }
+      const node: Extract<TemplateNode, { kind: 'if' }> = { kind: 'if', source: expression, condition, then: [], otherwise: [] };
+      current().push(node);
+      open.push({ node, position: index, inElse: false });
+    } else if (content === 'else') {
+      const frame = open[open.length - 1];
+      if (!frame || frame.inElse) {
+        throw new TemplateSyntaxError('{{else}} without a matching {{#if}}', template, index);
+      }
+      frame.inElse = true;
+    } else if (content === '/if') {
+      if (!open.pop()) {
+        throw new TemplateSyntaxError('{{/if}} without a matching {{#if}}', template, index);
+      }
+    } else {
+      current().push(parseValueTag(content, template, index));
+    }
+    index = end + 2;
+  }
+
+  flushText();
+  const unclosed = open.pop();
+  if (unclosed) {
+    throw new TemplateSyntaxError('Unclosed {{#if}}', template, unclosed.position);
+  }
+  return root;
+};
+
+const collectMessageNames = (parts: MessagePart[], names: Set<string>): void => {
+  parts.forEach(part => {
+    if (typeof part === 'string' || part.type === 'pound') return;
+    names.add(part.name);
+    if ('options' in part) {
+      Object.values(part.options).forEach(option => collectMessageNames(option, names));
+    }
+  });
+};
+
+/**
+ * Names and scene ids a template refers to, for static manifest checks
+ */
+export const getTemplateReferences = (template: string): { names: string[]; scenes: string[] } => {
+  const names = new Set<string>();
+  const scenes = new Set<string>();
+
+  const visit = (nodes: TemplateNode[]): void => {
+    nodes.forEach(node => {
+      if (typeof node === 'string') return;
+      if (node.kind === 'value') {
+        collectMessageNames(node.message, names);
+        return;
+      }
+      const references = collectExpressionReferences(node.condition);
+      references.identifiers.forEach(name => names.add(name));
+      references.scenes.forEach(sceneId => scenes.add(sceneId));
+      visit(node.then);
+      visit(node.otherwise);
+    });
+  };
+
+  visit(parseTemplate(template));
+  return { names: [...names], scenes: [...scenes] };
+};
+
+const toExpressionContext = (values: TemplateValues, options: TemplateOptions): ExpressionContext => {
+  const variables: Record<string, ExpressionValue> = {};
+  Object.entries(values).forEach(([name, value]) => {
+    if (value instanceof Date) {
+      variables[name] = value.getTime();
+    } else if (value !== null && value !== undefined) {
+      variables[name] = value;
+    }
+  });
+
+  return {
+    variables,
+    builtins: Object.fromEntries(BUILTIN_IDENTIFIERS.map(name => [name, 0])) as ExpressionContext['builtins'],
+    visited: options.visited ?? (() => false),
+    answered: options.answered ?? (() => false)
+  };
+};
+
+const renderNodes = (
+  nodes: TemplateNode[],
+  values: TemplateValues,
+  options: TemplateOptions,
+  context: ExpressionContext
+): string =>
+  nodes.map(node => {
+    if (typeof node === 'string') return node;
+
+    if (node.kind === 'if') {
+      let passed = false;
+      try {
+        passed = Boolean(evaluateNavigationExpression(node.condition, context, node.source));
+      } catch (error) {
+        // Unknown variables and type mismatches are reported by the validator; at play time they read as false
+        if (!(error instanceof NavigationExpressionError)) throw error;
+      }
+      return renderNodes(passed ? node.then : node.otherwise, values, options, context);
+    }
+
+    const value = values[node.name];
+    if (value === undefined || value === null) {
+      return options.missing === 'empty' ? '' : node.source;
+    }
+    const formatted = formatMessage(node.message, values, options.locale);
+    return options.escape === 'html' ? escapeHtml(formatted) : formatted;
+  }).join('');
+
+/**
+ * Render one template; text with invalid syntax is returned unchanged so play never breaks on it
+ */
+export const renderTemplate = (template: string, values: TemplateValues, options: TemplateOptions = {}): string => {
+  if (!hasTemplate(template)) return template;
+
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(template);
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError)) throw error;
+    return template;
+  }
+  return renderNodes(nodes, values, options, toExpressionContext(values, options));
+};
+
+/**
+ * Render every string in a scene or manifest; objects without templates are copied as-is
+ */
+export function renderTemplatesInObject<T>(value: T, values: TemplateValues, options: TemplateOptions = {}): T {
+  if (typeof value === 'string') {
+    return renderTemplate(value, values, options) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => renderTemplatesInObject(item, values, options)) as T;
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderTemplatesInObject(item, values, options)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Check the templates in every translatable field: syntax, unknown placeholders and unknown scenes
+ * Known names are the learner values, navigation built-ins, game variables and metadata.templateVariables
+ */
+export const getTemplateIssues = (
+  manifest: RawManifest,
+  fields: TranslatableField[] = collectTranslatableFields(manifest)
+): ManifestSchemaIssue[] => {
+  const issues: ManifestSchemaIssue[] = [];
+  const metadata = isObject(manifest.metadata) ? manifest.metadata : {};
+  const declared = Array.isArray(metadata.templateVariables)
+    ? metadata.templateVariables.filter((name): name is string => typeof name === 'string')
+    : [];
+  const known = new Set<string>([
+    ...TEMPLATE_VARIABLES,
+    ...BUILTIN_IDENTIFIERS,
+    ...(isObject(manifest.variables) ? Object.keys(manifest.variables) : []),
+    ...declared
+  ]);
+  const sceneIds = new Set(
+    (Array.isArray(manifest.scenes) ? manifest.scenes : []).map(scene => (isObject(scene) ? scene.id : undefined))
+  );
+
+  const checkTemplate = (template: string, path: string): void => {
+    try {
+      const references = getTemplateReferences(template);
+      references.names
+        .filter(name => !known.has(name))
+        .forEach(name => issues.push({ path, message: `Unknown placeholder '${name}'` }));
+      references.scenes
+        .filter(sceneId => !sceneIds.has(sceneId))
+        .forEach(sceneId => issues.push({ path, message: `Unknown scene '${sceneId}'` }));
+    } catch (error) {
+      if (!(error instanceof TemplateSyntaxError)) throw error;
+      issues.push({ path, message: error.message });
+    }
+  };
+
+  fields.forEach(field => {
+    if (typeof field.value === 'string') {
+      if (hasTemplate(field.value)) checkTemplate(field.value, field.path);
+      return;
+    }
+    Object.entries(field.value).forEach(([locale, text]) => {
+      if (hasTemplate(text)) checkTemplate(text, `${field.path}.${locale}`);
+    });
+  });
+  return issues;
+};
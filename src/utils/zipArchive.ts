@@ -0,0 +1,165 @@
+/**
+ * Zip Archive Utility
+ * Minimal dependency-free ZIP writer for deployment packages (SCORM, offline bundles)
+ * Entries are stored uncompressed - LMS importers only require a valid PKZIP container
+ */
+
+export interface ZipEntry {
+  path: string;
+  content: string | Uint8Array;
+  modifiedAt?: Date;
+}
+
+const textEncoder = new TextEncoder();
+
+// CRC-32 lookup table (IEEE 802.3 polynomial, as required by PKZIP)
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Calculate CRC-32 checksum of a byte array
+ */
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Convert a date to MS-DOS time/date fields used in ZIP headers
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+};
+
+/**
+ * Create a ZIP archive (stored, UTF-8 file names) from a list of entries
+ */
+export const createZipArchive = (entries: ZipEntry[]): Uint8Array => {
+  const seen = new Set<string>();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const path = entry.path.replace(/\\/g, '/').replace(/^\/+/, '');
+    if (!path || path.split('/').includes('..')) {
+      throw new Error(`Invalid archive path: "${entry.path}"`);
+    }
+    if (seen.has(path)) {
+      throw new Error(`Duplicate archive path: "${path}"`);
+    }
+    seen.add(path);
+
+    const name = textEncoder.encode(path);
+    const data = typeof entry.content === 'string' ? textEncoder.encode(entry.content) : entry.content;
+    const checksum = crc32(data);
+    const { time, date } = toDosDateTime(entry.modifiedAt || new Date());
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true); // Local file header signature
+    localView.setUint16(4, 20, true);         // Version needed to extract
+    localView.setUint16(6, 0x0800, true);     // Flags: UTF-8 file names
+    localView.setUint16(8, 0, true);          // Compression: stored
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, checksum, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true); // Central directory signature
+    centralView.setUint16(4, 20, true);         // Version made by
+    centralView.setUint16(6, 20, true);         // Version needed to extract
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, checksum, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);    // Offset of local header
+    central.set(name, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true); // End of central directory signature
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const archive = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of [...localParts, ...centralParts, end]) {
+    archive.set(part, position);
+    position += part.length;
+  }
+
+  return archive;
+};
+
+/**
+ * Read entry names and contents back from a stored ZIP archive
+ * Used to verify packages before delivery
+ */
+export const readZipArchive = (archive: Uint8Array): Map<string, Uint8Array> => {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const endOffset = archive.length - 22;
+  if (endOffset < 0 || view.getUint32(endOffset, true) !== 0x06054b50) {
+    throw new Error('Invalid ZIP archive: end of central directory not found');
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let cursor = view.getUint32(endOffset + 16, true);
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(cursor, true) !== 0x02014b50) {
+      throw new Error('Invalid ZIP archive: corrupt central directory');
+    }
+    const size = view.getUint32(cursor + 20, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const extraLength = view.getUint16(cursor + 30, true);
+    const commentLength = view.getUint16(cursor + 32, true);
+    const localOffset = view.getUint32(cursor + 42, true);
+    const name = decoder.decode(archive.subarray(cursor + 46, cursor + 46 + nameLength));
+
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    files.set(name, archive.subarray(dataStart, dataStart + size));
+
+    cursor += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+};
@@ -141,6 +141,37 @@ describe('DevTeamContentValidator', () => {
       expect(result.isValid).toBe(false);
       expect(result.errors.some(e => e.message.includes('correct option'))).toBe(true);
     });
+
+    it('should check answer keys of free text, numeric, ordering, matching and hotspot questions', () => {
+      const manifest = {
+        gameId: 'quiz-game',
+        version: '1.0.0',
+        metadata: {
+          title: 'Quiz Game',
+          description: 'Test quiz',
+          duration: '10 minutes',
+          targetAudience: 'All',
+          language: 'sv'
+        },
+        scenes: [{
+          id: 'quiz-1',
+          type: 'quiz',
+          questions: [
+            { text: 'Vad kallas rättslig grund enligt artikel 6?', answerType: 'free_text', freeText: { accepted: ['samtycke'] } },
+            { text: 'Hur många dagar har ni på er att svara?', answerType: 'numeric', numeric: { value: 30, tolerance: -1 } },
+            { text: 'Ordna stegen', answerType: 'ordering', items: [{ id: 'a', text: 'Ansök' }, { id: 'b', text: 'Beslut' }] },
+            { question_text: 'Para ihop', question_type: 'matching', answer_key: { pairs: [{ id: 'gdpr', text: 'GDPR', match: 'Dataskydd' }] } }
+          ]
+        }]
+      };
+
+      const result = validator.validateGameManifest(manifest);
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(error => `${error.path}: ${error.message}`)).toEqual([
+        'scenes[0].questions[1].numeric.tolerance: Tolerance must be a number of at least 0',
+        'scenes[0].questions[3].pairs: Matching question needs at least 2 pairs'
+      ]);
+    });
   });
 
   describe('Dialogue Scene Validation', () => {
@@ -245,4 +276,192 @@ describe('DevTeamContentValidator', () => {
       expect(result.warnings.some(w => w.path === 'metadata.duration')).toBe(true);
     });
   });
+  describe('Interactive scenes', () => {
+    it('should accept sort scenes and flag items in unknown categories', () => {
+      const result = validator.validateGameManifest({
+        gameId: 'test-game',
+        version: '1.0.0',
+        metadata: {
+          title: 'Test Game',
+          description: 'A test game',
+          duration: 'PT5M',
+          targetAudience: 'All',
+          language: 'sv'
+        },
+        scenes: [{
+          id: 'sort',
+          type: 'drag_drop_sort',
+          categories: [{ id: 'public', label: 'Allmän' }, { id: 'secret', label: 'Sekretess' }],
+          items: [{ id: 'i1', text: 'Protokoll', categoryId: 'archive' }]
+        }]
+      });
+
+      expect(result.errors).toContainEqual({
+        path: 'scenes[0].items[0].categoryId',
+        message: "Unknown category 'archive'",
+        type: 'invalid_value'
+      });
+      expect(result.errors.some(e => e.path === 'scenes[0].type')).toBe(false);
+    });
+  });
+  describe('Scene graph', () => {
+    const metadata = {
+      title: 'Test Game',
+      description: 'A test game',
+      duration: '1 minute',
+      targetAudience: 'All',
+      language: 'sv'
+    };
+
+    it('should reject navigation to missing scenes', () => {
+      const result = validator.validateGameManifest({
+        gameId: 'test-game',
+        version: '1.0.0',
+        metadata,
+        scenes: [{
+          id: 'intro',
+          type: 'dialogue',
+          messages: [{ text: 'Hej!' }],
+          navigation: { next: 'outro' }
+        }]
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContainEqual({
+        path: 'scenes[0].navigation.next',
+        message: `Scene 'outro' does not exist; use an existing scene id or "end"`,
+        type: 'structure'
+      });
+      expect(result.pathStats).toBeNull();
+    });
+
+    it('should report path statistics for valid manifests', () => {
+      const result = validator.validateGameManifest({
+        gameId: 'test-game',
+        version: '1.0.0',
+        metadata,
+        scenes: [
+          { id: 'intro', type: 'dialogue', messages: [{ text: 'Hej!' }], navigation: { next: 'summary' } },
+          { id: 'summary', type: 'summary', title: 'Klart', message: 'Bra jobbat' }
+        ]
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.pathStats?.scenes).toEqual({ min: 2, max: 2, expected: 2 });
+      expect(result.pathStats?.targetSeconds).toBe(60);
+    });
+  });
+
+  describe('Schema migrations', () => {
+    const manifest = {
+      gameId: 'test-game',
+      version: '1.0.0',
+      metadata: {
+        title: 'Test Game',
+        description: 'A test game',
+        duration: '5 minutes',
+        targetAudience: 'All',
+        language: 'sv'
+      },
+      scenes: [{
+        id: 'scene-1',
+        type: 'dialogue',
+        character: { id: 'anna', name: 'Anna' },
+        messages: [{ text: 'Hej!' }]
+      }]
+    };
+
+    it('should report legacy manifest migrations as deprecations', () => {
+      const result = validator.validateGameManifest({ ...manifest, schemaVersion: '0.1.0' });
+      expect(result.isValid).toBe(true);
+      expect(result.migration?.steps.map(step => step.to)).toEqual(['0.2.0']);
+      expect(result.warnings).toContainEqual({
+        path: 'scenes[0].character',
+        message: 'Moved character into characters (schemaVersion 0.1.0 → 0.2.0)',
+        type: 'deprecated'
+      });
+    });
+
+    it('should reject schema versions the runtime cannot migrate', () => {
+      const result = validator.validateGameManifest({ ...manifest, schemaVersion: '5.0.0' });
+      expect(result.isValid).toBe(false);
+      expect(result.migration).toBeUndefined();
+      expect(result.errors.some(e => e.path === 'schemaVersion')).toBe(true);
+    });
+  });
+  describe('Translations', () => {
+    it('should accept locale maps and warn about missing translations per locale', () => {
+      const result = validator.validateGameManifest({
+        gameId: 'multilingual-game',
+        version: '1.0.0',
+        metadata: {
+          title: { sv: 'GDPR grunder', nl: 'AVG-basis' },
+          description: { sv: 'Kort kurs', nl: 'Korte cursus' },
+          duration: '5 minutes',
+          targetAudience: 'Municipal employees',
+          language: 'sv',
+          locales: ['sv', 'nl', 'en']
+        },
+        scenes: [{
+          id: 'scene-1',
+          type: 'dialogue',
+          characters: [{ id: 'anna', name: 'Anna' }],
+          messages: [{ characterId: 'anna', text: { sv: 'Hej!', en: 'Hello!' } }]
+        }]
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toContainEqual({
+        path: 'metadata.locales.en',
+        message: "Missing 'en' translation for 2 field(s): metadata.title, metadata.description",
+        type: 'best_practice'
+      });
+      expect(result.warnings).toContainEqual({
+        path: 'metadata.locales.nl',
+        message: "Missing 'nl' translation for 1 field(s): scenes[0].messages[0].text",
+        type: 'best_practice'
+      });
+    });
+
+    it('should reject translatable fields that are neither strings nor locale maps', () => {
+      const result = validator.validateQuizContent({
+        questions: [{ text: { sv: 'Fråga', en: 3 }, options: [{ text: 'Ja', isCorrect: true }] }]
+      });
+      expect(result.errors).toContainEqual(expect.objectContaining({ path: 'root.questions[0].text', type: 'invalid_type' }));
+    });
+  });
+
+  describe('Templates', () => {
+    it('should accept known placeholders and reject unknown ones', () => {
+      const result = validator.validateGameManifest({
+        gameId: 'template-game',
+        version: '1.0.0',
+        metadata: {
+          title: 'Välkommen till {{MUNICIPALITY}}',
+          description: 'Kurs för {{ROLE}}',
+          duration: '5 minutes',
+          targetAudience: 'Municipal employees',
+          language: 'sv',
+          templateVariables: ['SUPPORT_EMAIL']
+        },
+        variables: { trust: { type: 'number', initial: 0 } },
+        scenes: [{
+          id: 'scene-1',
+          type: 'dialogue',
+          characters: [{ id: 'anna', name: 'Anna' }],
+          messages: [
+            { characterId: 'anna', text: 'Hej {{PLAYER_NAME}}, mejla {{SUPPORT_EMAIL}}. {{#if trust > 2}}Tack!{{/if}}' },
+            { characterId: 'anna', text: 'Du jobbar på {{AVDELNING}}' }
+          ]
+        }]
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([{
+        path: 'scenes[0].messages[1].text',
+        message: "Unknown placeholder 'AVDELNING'",
+        type: 'invalid_value'
+      }]);
+    });
+  });
 });
\ No newline at end of file
@@ -7,12 +7,23 @@
  * No advanced sanitization or transformation yet
  */
 
-import type { GameManifest, BaseScene, DialogueScene, QuizScene } from '../types/game-manifest';
+import type { QuizQuestion, QuizScene } from '../types/game-manifest';
+import { manifestMigrations, ManifestMigrationError, type ManifestMigrationReport } from '../utils/manifestMigrations';
+import { getNavigationIssues } from '../utils/conditionalNavigation';
+import { analyzeManifestGraph, type ManifestPathStats } from '../utils/manifestGraph';
+import { collectTranslatableFields, getMissingTranslations, isLocaleMap } from '../utils/manifestTranslations';
+import { getTemplateIssues } from '../utils/templateEngine';
+import { getQuestionPool } from '../utils/questionPools';
+import { getAnswerKeyIssues, isInteractiveAnswerType } from '../utils/questionScoring';
+
+type RawObject = Record<string, unknown>;
 
 export interface ValidationResult {
   isValid: boolean;
   errors: ValidationError[];
   warnings: ValidationWarning[];
+  migration?: ManifestMigrationReport;
+  pathStats?: ManifestPathStats | null;
 }
 
 export interface ValidationError {
@@ -99,6 +110,7 @@ export class DevTeamContentValidator {
     }
 
     const manifest = content as any;
+    const migrated = this.migrateManifest(manifest);
 
     // Required top-level fields
     this.validateRequiredField(manifest, 'gameId', 'string');
@@ -123,7 +135,55 @@ export class DevTeamContentValidator {
       this.addError('scenes', 'Game must have at least one scene', 'invalid_value');
     }
 
-    return this.getResult();
+    // Branch expressions, variables, effects and the scene graph are checked on the canonical shape
+    let pathStats: ManifestPathStats | null | undefined;
+    if (migrated) {
+      getNavigationIssues(migrated.manifest).forEach(issue => {
+        this.addError(issue.path, issue.message, 'invalid_value');
+      });
+      pathStats = this.analyzeSceneGraph(migrated.manifest);
+      this.validateTranslatableFields(migrated.manifest);
+      this.validateQuestionDraws(migrated.manifest);
+    }
+
+    return { ...this.getResult(), migration: migrated?.report, pathStats };
+  }
+
+  /**
+   * Run schemaVersion migrations and report each change as a deprecation
+   */
+  private migrateManifest(
+    manifest: Record<string, unknown>
+  ): { manifest: Record<string, unknown>; report: ManifestMigrationReport } | undefined {
+    try {
+      const { manifest: migrated, report } = manifestMigrations.migrate(manifest);
+      report.steps.forEach(step => {
+        step.changes.forEach(change => {
+          this.addWarning(change.path, `${change.description} (schemaVersion ${step.from} → ${step.to})`, 'deprecated');
+        });
+      });
+      return { manifest: migrated, report };
+    } catch (error) {
+      if (!(error instanceof ManifestMigrationError)) throw error;
+      this.addError('schemaVersion', error.message, 'invalid_value');
+      return undefined;
+    }
+  }
+
+  /**
+   * Reject dangling scene ids and inescapable loops; warn about unreachable scenes, endings without
+   * a summary and playthroughs that do not fit metadata.duration
+   */
+  private analyzeSceneGraph(manifest: Record<string, unknown>): ManifestPathStats | null {
+    const report = analyzeManifestGraph(manifest);
+    report.issues.forEach(issue => {
+      if (issue.severity === 'error') {
+        this.addError(issue.path, issue.message, 'structure');
+      } else {
+        this.addWarning(issue.path, issue.message, issue.kind === 'duration' ? 'performance' : 'best_practice');
+      }
+    });
+    return report.stats;
   }
 
   /**
@@ -133,8 +193,8 @@ export class DevTeamContentValidator {
     const path = 'metadata';
     
     // Required metadata fields
-    this.validateRequiredField(metadata, 'title', 'string', path);
-    this.validateRequiredField(metadata, 'description', 'string', path);
+    this.validateRequiredField(metadata, 'title', 'localized', path);
+    this.validateRequiredField(metadata, 'description', 'localized', path);
     this.validateRequiredField(metadata, 'duration', 'string', path);
     this.validateRequiredField(metadata, 'targetAudience', 'string', path);
     this.validateRequiredField(metadata, 'language', 'string', path);
@@ -161,13 +221,68 @@ export class DevTeamContentValidator {
   /**
    * Validate individual scene
    */
+  /**
+   * Warn once per locale of a multilingual manifest, listing the fields translators still have to fill in,
+   * and reject {{placeholders}} the host cannot fill; both read the same translatable fields
+   */
+  private validateTranslatableFields(manifest: Record<string, unknown>): void {
+    const fields = collectTranslatableFields(manifest);
+    Object.entries(getMissingTranslations(manifest, fields)).forEach(([locale, paths]) => {
+      this.addWarning(`metadata.locales.${locale}`,
+        `Missing '${locale}' translation for ${paths.length} field(s): ${paths.join(', ')}`,
+        'best_practice'
+      );
+    });
+    getTemplateIssues(manifest, fields).forEach(issue => {
+      this.addError(issue.path, issue.message, 'invalid_value');
+    });
+  }
+
+  /**
+   * Drawing quizzes need a positive count, an existing bank and enough matching questions
+   */
+  private validateQuestionDraws(manifest: RawObject): void {
+    const banks = this.isObject(manifest.questionBanks) ? manifest.questionBanks as RawObject : {};
+    Object.entries(banks).forEach(([bankId, questions]) => {
+      if (!Array.isArray(questions)) {
+        this.addError(`questionBanks.${bankId}`, 'Question bank must be an array of questions', 'invalid_type');
+      } else {
+        this.validateQuizQuestions(questions, `questionBanks.${bankId}`);
+      }
+    });
+
+    (Array.isArray(manifest.scenes) ? manifest.scenes : []).forEach((scene: RawObject | null, index: number) => {
+      if (scene?.type !== 'quiz' || scene.draw === undefined) return;
+      const path = `scenes[${index}].draw`;
+      const { count, pool }: RawObject = this.isObject(scene.draw) ? scene.draw as RawObject : {};
+      if (typeof count !== 'number' || !Number.isInteger(count) || count < 1) {
+        this.addError(`${path}.count`, 'draw.count must be a positive integer', 'invalid_value');
+        return;
+      }
+      if (pool !== undefined && (typeof pool !== 'string' || !Array.isArray(banks[pool]))) {
+        this.addError(`${path}.pool`, `Question bank '${pool}' does not exist`, 'invalid_value');
+        return;
+      }
+      const available = getQuestionPool(
+        { questions: Array.isArray(scene.questions) ? scene.questions : [], draw: scene.draw as QuizScene['draw'] },
+        banks as Record<string, QuizQuestion[]>
+      );
+      if (available.length < count) {
+        this.addError(path, `Draws ${count} questions but only ${available.length} match the pool and tags`, 'invalid_value');
+      }
+    });
+  }
+
   private validateScene(scene: any, path: string): void {
     // Required scene fields
     this.validateRequiredField(scene, 'id', 'string', path);
     this.validateRequiredField(scene, 'type', 'string', path);
 
     // Validate scene type
-    const validTypes = ['dialogue', 'quiz', 'assessment', 'resource', 'summary'];
+    const validTypes = [
+      'dialogue', 'quiz', 'assessment', 'resource', 'summary',
+      'narrative', 'timed_challenge', 'drag_drop_sort', 'workflow'
+    ];
     if (scene.type && !validTypes.includes(scene.type)) {
       this.addError(`${path}.type`, 
         `Invalid scene type '${scene.type}'. Must be one of: ${validTypes.join(', ')}`, 
@@ -184,6 +299,22 @@ export class DevTeamContentValidator {
       case 'quiz':
         this.validateQuizScene(scene, path);
         break;
+      case 'narrative':
+        this.validateRequiredField(scene, 'nodes', 'array', path);
+        this.validateRequiredField(scene, 'startingConditions', 'object', path);
+        break;
+      case 'timed_challenge':
+        this.validateRequiredField(scene, 'timeLimit', 'number', path);
+        this.validateRequiredField(scene, 'actions', 'array', path);
+        break;
+      case 'drag_drop_sort':
+        this.validateDragDropSortScene(scene, path);
+        break;
+      case 'workflow':
+        this.validateRequiredField(scene, 'workflow', 'string', path);
+        this.validateRequiredField(scene, 'municipality', 'string', path);
+        this.validateRequiredField(scene, scene.workflow === 'invoice_approval' ? 'invoices' : 'permits', 'array', path);
+        break;
       // Other scene types can be added later
     }
 
@@ -206,7 +337,7 @@ export class DevTeamContentValidator {
         scene.dialogue_turns.forEach((turn: any, index: number) => {
           const turnPath = `${path}.dialogue_turns[${index}]`;
           this.validateRequiredField(turn, 'speaker', 'string', turnPath);
-          this.validateRequiredField(turn, 'text', 'string', turnPath);
+          this.validateRequiredField(turn, 'text', 'localized', turnPath);
           this.validateRequiredField(turn, 'character_id', 'string', turnPath);
         });
       }
@@ -228,33 +359,11 @@ export class DevTeamContentValidator {
   private validateQuizScene(scene: any, path: string): void {
     // Handle both formats
     if (scene.questions) {
-      // DevTeam format with questions array
+      // Canonical and DevTeam format with questions array
       if (!Array.isArray(scene.questions)) {
         this.addError(`${path}.questions`, 'questions must be an array', 'invalid_type');
       } else {
-        scene.questions.forEach((question: any, qIndex: number) => {
-          const qPath = `${path}.questions[${qIndex}]`;
-          this.validateRequiredField(question, 'question_text', 'string', qPath);
-          this.validateRequiredField(question, 'options', 'array', qPath);
-          
-          if (Array.isArray(question.options)) {
-            let hasCorrect = false;
-            question.options.forEach((option: any, oIndex: number) => {
-              const optPath = `${qPath}.options[${oIndex}]`;
-              // Support both 'text' and 'option_text'
-              if (!option.text && !option.option_text) {
-                this.addError(optPath, 'Option must have either text or option_text', 'missing');
-              }
-              if (option.is_correct === true) {
-                hasCorrect = true;
-              }
-            });
-            
-            if (!hasCorrect) {
-              this.addError(qPath, 'Quiz question must have at least one correct option', 'invalid_value');
-            }
-          }
-        });
+        this.validateQuizQuestions(scene.questions, `${path}.questions`);
       }
     } else {
       // Standard format
@@ -267,6 +376,63 @@ export class DevTeamContentValidator {
     }
   }
 
+  /**
+   * Validate quiz questions of a scene or question bank
+   */
+  private validateQuizQuestions(questions: RawObject[], path: string): void {
+    questions.forEach((question: RawObject, qIndex: number) => {
+      const qPath = `${path}[${qIndex}]`;
+      // Canonical questions use 'text', DevTeam questions 'question_text'
+      this.validateRequiredField(question, 'text' in question ? 'text' : 'question_text', 'localized', qPath);
+
+      // Free text, numeric, ordering, matching and hotspot questions are answered against an answer key
+      const answerType = question.answerType ?? question.question_type;
+      if (isInteractiveAnswerType(answerType)) {
+        getAnswerKeyIssues(answerType, question.answer_key ?? question)
+          .forEach(issue => this.addError(`${qPath}.${issue.path}`, issue.message, 'invalid_value'));
+        return;
+      }
+      this.validateRequiredField(question, 'options', 'array', qPath);
+      
+      if (Array.isArray(question.options)) {
+        let hasCorrect = false;
+        question.options.forEach((option: RawObject, oIndex: number) => {
+          const optPath = `${qPath}.options[${oIndex}]`;
+          // Support both 'text' and 'option_text'
+          if (!option.text && !option.option_text) {
+            this.addError(optPath, 'Option must have either text or option_text', 'missing');
+          }
+          if (option.is_correct === true || option.isCorrect === true) {
+            hasCorrect = true;
+          }
+        });
+        
+        if (!hasCorrect) {
+          this.addError(qPath, 'Quiz question must have at least one correct option', 'invalid_value');
+        }
+      }
+    });
+  }
+
+  /**
+   * Validate drag-and-drop sort scene specifics
+   */
+  private validateDragDropSortScene(scene: RawObject, path: string): void {
+    this.validateRequiredField(scene, 'categories', 'array', path);
+    this.validateRequiredField(scene, 'items', 'array', path);
+    if (!Array.isArray(scene.categories) || !Array.isArray(scene.items)) return;
+
+    if (scene.categories.length < 2) {
+      this.addError(`${path}.categories`, 'Sort scene must have at least 2 categories', 'invalid_value');
+    }
+    const categoryIds = scene.categories.map((category: RawObject | null) => category?.id);
+    scene.items.forEach((item: RawObject | null, index: number) => {
+      if (!categoryIds.includes(item?.categoryId)) {
+        this.addError(`${path}.items[${index}].categoryId`, `Unknown category '${item?.categoryId}'`, 'invalid_value');
+      }
+    });
+  }
+
   /**
    * Validate scene navigation
    */
@@ -278,6 +444,7 @@ export class DevTeamContentValidator {
 
   /**
    * Helper to validate required fields
+   * expectedType 'localized' accepts a string or a locale map of a multilingual manifest
    */
   private validateRequiredField(
     obj: any, 
@@ -293,6 +460,14 @@ export class DevTeamContentValidator {
     }
 
     const actualType = Array.isArray(obj[field]) ? 'array' : typeof obj[field];
+    if (expectedType === 'localized') {
+      if (actualType === 'string' || isLocaleMap(obj[field])) return true;
+      this.addError(path,
+        `Field '${field}' must be a string or a locale map, got ${actualType}`,
+        'invalid_type'
+      );
+      return false;
+    }
     if (actualType !== expectedType) {
       this.addError(path, 
         `Field '${field}' must be of type ${expectedType}, got ${actualType}`, 
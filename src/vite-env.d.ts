@@ -2,6 +2,8 @@
 
 interface ImportMetaEnv {
   readonly VITE_SENTRY_DSN: string
+  readonly VITE_SESSION_STORE?: 'browser' | 'memory' | 'rest'
+  readonly VITE_SESSION_STORE_URL?: string
   // more env variables...
 }
 
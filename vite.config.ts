@@ -2,6 +2,28 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => {
+  // `vite build --mode runtime`: the embeddable runtime that SCORM packages ship as runtime-engine.js
+  if (mode === 'runtime') {
+    return {
+      plugins: [react()],
+      define: {
+        'process.env.NODE_ENV': JSON.stringify('production'),
+      },
+      build: {
+        outDir: 'dist/runtime',
+        copyPublicDir: false,
+        lib: {
+          entry: 'src/runtime.tsx',
+          name: 'DigiNativaRuntime',
+          formats: ['iife'],
+          fileName: () => 'runtime-engine.js',
+        },
+      },
+    }
+  }
+
+  return {
+    plugins: [react()],
+  }
 })